@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -10,6 +10,26 @@ const pool = new Pool({
 
 export default pool;
 
+// Models take either the pool or a client that is inside a transaction
+export type DatabaseClient = Pool | PoolClient;
+
+// Run the callback on one client between BEGIN and COMMIT, rolling back if it throws
+export const withTransaction = async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
 // Test database connection
 export const testConnection = async (): Promise<boolean> => {
   try {
@@ -1,10 +1,13 @@
-import { createClient } from 'redis';
+import Redis from 'ioredis';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const redis = createClient({
-  url: process.env['REDIS_URL'] || 'redis://localhost:6379'
+const redis = new Redis(process.env['REDIS_URL'] || 'redis://localhost:6379', {
+  // Connect on first command so importing the client never blocks startup or tests
+  lazyConnect: true,
+  // Queue workers retry on their own schedule; keep commands pending across reconnects
+  maxRetriesPerRequest: null,
 });
 
 // Redis connection event handlers
@@ -36,4 +39,4 @@ export const testRedisConnection = async (): Promise<boolean> => {
   }
 };
 
-export default redis;
\ No newline at end of file
+export default redis;
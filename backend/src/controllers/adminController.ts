@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { AdminService } from '../services/adminService';
+import { disputeEvidenceSchema, manualPayoutSchema, reviewVerificationSchema, updateUserStatusSchema } from '../validation/schemas';
+import { BASE_CURRENCY, isSupportedCurrency } from '../services/currencyService';
 
 export class AdminController {
   // Dashboard Stats
@@ -57,17 +59,42 @@ export class AdminController {
 
   static async updateUserStatus(req: Request, res: Response): Promise<void> {
     try {
+      const { error, value } = updateUserStatusSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: error.details[0]?.message || 'Invalid user status'
+        });
+        return;
+      }
+
       const { userId } = req.params;
-      const { status } = req.body;
 
-      await AdminService.updateUserStatus(userId, status);
+      await AdminService.updateUserStatus(userId, value.status, value.reason, (req as any).user.id);
 
       res.json({
         success: true,
         message: 'User status updated successfully'
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating user status:', error);
+
+      if (error.message === 'User not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Admins cannot suspend their own account') {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: 'Failed to update user status'
@@ -78,9 +105,17 @@ export class AdminController {
   static async updateUserBalance(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
-      const { amount, operation } = req.body;
+      const { amount, operation, currency = BASE_CURRENCY } = req.body;
+
+      if (!isSupportedCurrency(currency)) {
+        res.status(400).json({
+          success: false,
+          error: 'Currency is not supported'
+        });
+        return;
+      }
 
-      await AdminService.updateUserBalance(userId, amount, operation);
+      await AdminService.updateUserBalance(userId, amount, operation, currency);
 
       res.json({
         success: true,
@@ -229,22 +264,266 @@ export class AdminController {
     }
   }
 
+  // Users whose cached balance disagreed with the ledger at the last reconciliation
+  static async getLedgerDiscrepancies(_req: Request, res: Response): Promise<void> {
+    try {
+      const discrepancies = await AdminService.getLedgerDiscrepancies();
+
+      res.json({
+        success: true,
+        data: discrepancies
+      });
+    } catch (error) {
+      console.error('Error getting ledger discrepancies:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get ledger discrepancies'
+      });
+    }
+  }
+
   static async processWithdrawal(req: Request, res: Response): Promise<void> {
     try {
       const { withdrawalId } = req.params;
       const { action, notes } = req.body;
 
-      await AdminService.processWithdrawal(withdrawalId, action, notes);
+      await AdminService.processWithdrawal(withdrawalId, action, notes, (req as any).user.id);
 
       res.json({
         success: true,
         message: 'Withdrawal processed successfully'
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error processing withdrawal:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to process withdrawal'
+        // Payout provider errors tell the admin whether approving again is safe
+        error: error.message || 'Failed to process withdrawal'
+      });
+    }
+  }
+
+  // Marks a payout sent by hand as paid, or as failed which returns the amount to the balance
+  static async completeManualPayout(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = manualPayoutSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: error.details[0]?.message || 'Invalid payout status'
+        });
+        return;
+      }
+
+      await AdminService.completeManualPayout(req.params['payoutId']!, value.status, {
+        ...(value.referenceId && { referenceId: value.referenceId }),
+        ...(value.reason && { reason: value.reason })
+      });
+
+      res.json({
+        success: true,
+        message: 'Payout updated successfully'
+      });
+    } catch (error: any) {
+      if (error.message === 'Payout not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      console.error('Error completing manual payout:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to update payout'
+      });
+    }
+  }
+
+  // Payment Disputes
+  static async getDisputes(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        status
+      } = req.query;
+
+      const result = await AdminService.getDisputes({
+        page: Number(page),
+        limit: Number(limit),
+        ...(status && { status: status as 'open' | 'won' | 'lost' })
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Error getting disputes:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get disputes'
+      });
+    }
+  }
+
+  static async getDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const dispute = await AdminService.getDispute(req.params['disputeId']!);
+
+      res.json({
+        success: true,
+        data: dispute
+      });
+    } catch (error: any) {
+      if (error.message === 'Dispute not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      console.error('Error getting dispute:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get dispute'
+      });
+    }
+  }
+
+  // Saves the evidence of a dispute, and submits it to Stripe when submit is set
+  static async updateDisputeEvidence(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = disputeEvidenceSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: error.details[0]?.message || 'Invalid evidence'
+        });
+        return;
+      }
+
+      const dispute = await AdminService.updateDisputeEvidence(req.params['disputeId']!, (req as any).user.id, value);
+
+      res.json({
+        success: true,
+        data: dispute,
+        message: value.submit ? 'Evidence submitted to Stripe' : 'Evidence saved'
+      });
+    } catch (error: any) {
+      if (error.message === 'Dispute not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+      if (error.message === 'Dispute is already closed' || error.message === 'Evidence has already been submitted') {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      console.error('Error updating dispute evidence:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update dispute evidence'
+      });
+    }
+  }
+
+  // Identity Verifications
+  static async getVerifications(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        status
+      } = req.query;
+
+      const result = await AdminService.getVerifications({
+        page: Number(page),
+        limit: Number(limit),
+        ...(status && { status: status as 'pending' | 'approved' | 'rejected' })
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Error getting verifications:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get verifications'
+      });
+    }
+  }
+
+  // Streams a submitted identity document; they are never served from the public uploads directory
+  static async getVerificationDocument(req: Request, res: Response): Promise<void> {
+    try {
+      const document = await AdminService.getVerificationDocument(
+        req.params['verificationId']!,
+        Number(req.params['index'])
+      );
+
+      res.type(document.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(document.originalName)}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.sendFile(document.path);
+    } catch (error: any) {
+      if (error.message === 'Verification request not found' || error.message === 'Document not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      console.error('Error getting verification document:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get document'
+      });
+    }
+  }
+
+  static async reviewVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = reviewVerificationSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: error.details[0]?.message || 'Invalid review'
+        });
+        return;
+      }
+
+      await AdminService.reviewVerification(req.params['verificationId']!, (req as any).user.id, value.action, value.notes);
+
+      res.json({
+        success: true,
+        message: 'Verification reviewed successfully'
+      });
+    } catch (error: any) {
+      if (error.message === 'Verification request not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      console.error('Error reviewing verification:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to review verification'
       });
     }
   }
@@ -146,6 +146,41 @@ export class AnalyticsController {
     }
   }
 
+  // Get click engagement of the user's broadcasts
+  static async getBroadcastEngagement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { period = '30d' } = req.query;
+
+      if (!userId) {
+        res.status(401).json({
+          error: {
+            code: 'AUTH_REQUIRED',
+            message: 'Authentication required',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      const engagement = await AnalyticsService.getBroadcastEngagement(userId, period as string);
+
+      res.json({
+        success: true,
+        data: engagement
+      });
+    } catch (error: any) {
+      console.error('Error getting broadcast engagement:', error);
+      res.status(500).json({
+        error: {
+          code: 'ANALYTICS_ERROR',
+          message: error.message || 'Failed to get broadcast engagement',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
   // Admin: Get platform statistics
   static async getPlatformStats(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
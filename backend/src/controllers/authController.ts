@@ -1,42 +1,60 @@
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
 import { UserModel } from '../models/User';
 import { EmailVerificationTokenModel } from '../models/EmailVerificationToken';
 import { PasswordResetTokenModel } from '../models/PasswordResetToken';
+import { SessionService, SessionClient } from '../services/sessionService';
+import { SuspensionService } from '../services/suspensionService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { AuthenticatedRequest } from '../middleware/authMiddleware';
+import { User } from '../types/database';
 import { 
   createUserSchema, 
   loginSchema, 
   emailVerificationSchema,
   passwordResetRequestSchema,
-  passwordResetSchema 
+  passwordResetSchema,
+  twoFactorLoginSchema,
+  twoFactorSetupSchema,
+  twoFactorEnableSchema,
+  twoFactorDisableSchema,
+  twoFactorCodeBodySchema
 } from '../validation/schemas';
 import { sendVerificationEmail, sendPasswordResetEmail, sendWelcomeEmail } from '../services/emailService';
 
-const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key';
-const JWT_REFRESH_SECRET = process.env['JWT_REFRESH_SECRET'] || 'your-refresh-secret-key';
-
 interface AuthRequest extends Request {
   user?: any;
 }
 
-export class AuthController {
-  // Generate JWT tokens
-  private static generateTokens(userId: string, email: string, role: string) {
-    const accessToken = jwt.sign(
-      { userId, email, role },
-      JWT_SECRET,
-      { expiresIn: '15m' }
-    );
-
-    const refreshToken = jwt.sign(
-      { userId, email, role },
-      JWT_REFRESH_SECRET,
-      { expiresIn: '7d' }
-    );
-
-    return { accessToken, refreshToken };
-  }
+// The session also records the login history withdrawals are risk scored on
+const sessionClient = (req: Request): SessionClient => ({
+  ...(req.ip && { ip_address: req.ip }),
+  ...(req.get('user-agent') && { user_agent: req.get('user-agent')! })
+});
+
+const twoFactorErrors: Record<string, { status: number; code: string }> = {
+  'Invalid or expired challenge': { status: 401, code: 'INVALID_CHALLENGE' },
+  'Invalid two-factor code': { status: 401, code: 'INVALID_TWO_FACTOR_CODE' },
+  'Invalid password': { status: 401, code: 'INVALID_CREDENTIALS' },
+  'User not found': { status: 404, code: 'USER_NOT_FOUND' },
+  'Two-factor setup has not been started': { status: 400, code: 'TWO_FACTOR_SETUP_NOT_STARTED' },
+  'Two-factor authentication is already enabled': { status: 409, code: 'TWO_FACTOR_ALREADY_ENABLED' },
+  'Two-factor authentication is not enabled': { status: 400, code: 'TWO_FACTOR_NOT_ENABLED' },
+  'Two-factor authentication is required for your role': { status: 403, code: 'TWO_FACTOR_REQUIRED' }
+};
+
+const sendTwoFactorError = (res: Response, error: any, fallbackMessage: string): void => {
+  const known = twoFactorErrors[error.message];
+
+  res.status(known?.status ?? 500).json({
+    error: {
+      code: known?.code ?? 'INTERNAL_ERROR',
+      message: known ? error.message : fallbackMessage,
+      timestamp: new Date().toISOString()
+    }
+  });
+};
 
+export class AuthController {
   // Register new user
   static async register(req: Request, res: Response): Promise<void> {
     try {
@@ -164,22 +182,45 @@ export class AuthController {
         return;
       }
 
-      // Generate tokens
-      const { accessToken, refreshToken } = AuthController.generateTokens(
-        user.id,
-        user.email,
-        user.role
-      );
+      if (SuspensionService.isSuspended(user)) {
+        res.status(403).json({
+          error: {
+            code: 'ACCOUNT_SUSPENDED',
+            message: 'Account is suspended',
+            details: SuspensionService.getDetails(user),
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      // The password alone only gets as far as a challenge for the second factor
+      if (await TwoFactorService.isEnabled(user.id)) {
+        res.json({
+          message: 'Two-factor authentication code required',
+          twoFactorRequired: true,
+          challengeToken: TwoFactorService.createChallenge(user, 'two_factor_login')
+        });
+        return;
+      }
+
+      if (TwoFactorService.isRequiredForRole(user.role)) {
+        res.json({
+          message: 'Two-factor authentication has to be set up for this account',
+          twoFactorSetupRequired: true,
+          challengeToken: TwoFactorService.createChallenge(user, 'two_factor_setup')
+        });
+        return;
+      }
+
+      const { tokens } = await SessionService.createSession(user, sessionClient(req));
 
       // Return success response (without password hash)
       const { password_hash, ...userResponse } = user;
       res.json({
         message: 'Login successful',
         user: userResponse,
-        tokens: {
-          accessToken,
-          refreshToken
-        }
+        tokens
       });
 
     } catch (error: any) {
@@ -194,7 +235,7 @@ export class AuthController {
     }
   }
 
-  // Refresh access token
+  // Refresh access token; the refresh token is replaced too and cannot be used again
   static async refreshToken(req: Request, res: Response): Promise<void> {
     try {
       const { refreshToken } = req.body;
@@ -210,24 +251,7 @@ export class AuthController {
         return;
       }
 
-      // Verify refresh token
-      const decoded = jwt.verify(refreshToken, JWT_REFRESH_SECRET) as any;
-      
-      // Find user to ensure they still exist
-      const user = await UserModel.findById(decoded.userId);
-      if (!user) {
-        res.status(401).json({
-          error: {
-            code: 'USER_NOT_FOUND',
-            message: 'User not found',
-            timestamp: new Date().toISOString()
-          }
-        });
-        return;
-      }
-
-      // Generate new tokens
-      const tokens = AuthController.generateTokens(user.id, user.email, user.role);
+      const tokens = await SessionService.refresh(refreshToken);
 
       res.json({
         message: 'Token refreshed successfully',
@@ -248,6 +272,23 @@ export class AuthController {
         return;
       }
 
+      const sessionErrors: Record<string, string> = {
+        'Session has been revoked': 'SESSION_REVOKED',
+        'Refresh token has already been used': 'REFRESH_TOKEN_REUSED',
+        'User not found': 'USER_NOT_FOUND',
+        'Account is suspended': 'ACCOUNT_SUSPENDED'
+      };
+      if (sessionErrors[error.message]) {
+        res.status(401).json({
+          error: {
+            code: sessionErrors[error.message],
+            message: error.message,
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
       res.status(500).json({
         error: {
           code: 'INTERNAL_ERROR',
@@ -435,6 +476,9 @@ export class AuthController {
         return;
       }
 
+      // Whoever knew the old password is logged out with it
+      await SessionService.revokeAllSessions(userId, 'password_reset');
+
       res.json({
         message: 'Password reset successfully'
       });
@@ -484,12 +528,353 @@ export class AuthController {
     }
   }
 
-  // Logout (client-side token removal, but we can blacklist tokens if needed)
-  static async logout(_req: Request, res: Response): Promise<void> {
-    // For now, just return success - client should remove tokens
-    // In the future, we could implement token blacklisting with Redis
-    res.json({
-      message: 'Logged out successfully'
-    });
+  // Logout: revokes the session the access token belongs to, along with its refresh token
+  static async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (req.user?.sessionId) {
+        await SessionService.logout(req.user.sessionId);
+      }
+
+      res.json({
+        message: 'Logged out successfully'
+      });
+
+    } catch (error: any) {
+      console.error('Logout error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to logout',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
+  // List the sessions the user is logged in with
+  static async getSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const sessions = await SessionService.listSessions(req.user!.id, req.user!.sessionId);
+
+      res.json({
+        sessions
+      });
+
+    } catch (error: any) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get sessions',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
+  // Log out one session
+  static async revokeSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await SessionService.revokeSession(req.user!.id, req.params['sessionId']!);
+
+      res.json({
+        message: 'Session revoked successfully'
+      });
+
+    } catch (error: any) {
+      console.error('Revoke session error:', error);
+
+      if (error.message === 'Session not found') {
+        res.status(404).json({
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Session not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to revoke session',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
+  // Log out everywhere, the current session included
+  static async revokeAllSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const revoked = await SessionService.revokeAllSessions(req.user!.id);
+
+      res.json({
+        message: 'Logged out of all sessions',
+        revoked
+      });
+
+    } catch (error: any) {
+      console.error('Revoke all sessions error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to revoke sessions',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
+  // Finish a login with the code from the authenticator app or a recovery code
+  static async twoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = twoFactorLoginSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid input',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      const userId = TwoFactorService.verifyChallenge(value.challengeToken, 'two_factor_login');
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      // The account may have been suspended since the password was checked
+      if (SuspensionService.isSuspended(user)) {
+        res.status(403).json({
+          error: {
+            code: 'ACCOUNT_SUSPENDED',
+            message: 'Account is suspended',
+            details: SuspensionService.getDetails(user),
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      if (!(await TwoFactorService.verifyCode(user.id, value.code))) {
+        throw new Error('Invalid two-factor code');
+      }
+
+      const { tokens } = await SessionService.createSession(user, sessionClient(req));
+
+      const { password_hash, ...userResponse } = user;
+      res.json({
+        message: 'Login successful',
+        user: userResponse,
+        tokens
+      });
+
+    } catch (error: any) {
+      console.error('Two-factor login error:', error);
+      sendTwoFactorError(res, error, 'Failed to login');
+    }
+  }
+
+  // Whether the second factor is on, whether the role requires it and how many recovery codes are left
+  static async getTwoFactorStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const status = await TwoFactorService.getStatus(req.user!);
+
+      res.json({
+        twoFactor: status
+      });
+
+    } catch (error: any) {
+      console.error('Get two-factor status error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get two-factor status',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
+  // Start enrolment: a logged in user, or one whose role requires it coming from login with a challenge
+  static async setupTwoFactor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = twoFactorSetupSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid input',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      const user = await AuthController.twoFactorEnrolee(req, res, value.challengeToken);
+      if (!user) {
+        return;
+      }
+
+      const setup = await TwoFactorService.beginSetup(user);
+
+      res.json({
+        message: 'Scan the QR code with your authenticator app and confirm with a code',
+        setup
+      });
+
+    } catch (error: any) {
+      console.error('Two-factor setup error:', error);
+      sendTwoFactorError(res, error, 'Failed to set up two-factor authentication');
+    }
+  }
+
+  // Confirm enrolment with a code; coming from login, this also logs the user in
+  static async enableTwoFactor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = twoFactorEnableSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid input',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      const fromLogin = Boolean(value.challengeToken);
+      const user = await AuthController.twoFactorEnrolee(req, res, value.challengeToken);
+      if (!user) {
+        return;
+      }
+
+      if (fromLogin && SuspensionService.isSuspended(user)) {
+        res.status(403).json({
+          error: {
+            code: 'ACCOUNT_SUSPENDED',
+            message: 'Account is suspended',
+            details: SuspensionService.getDetails(user),
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      const recoveryCodes = await TwoFactorService.enable(user.id, value.code);
+
+      if (!fromLogin) {
+        res.json({
+          message: 'Two-factor authentication enabled',
+          recoveryCodes
+        });
+        return;
+      }
+
+      const { tokens } = await SessionService.createSession(user, sessionClient(req));
+
+      const { password_hash, ...userResponse } = user;
+      res.json({
+        message: 'Two-factor authentication enabled',
+        recoveryCodes,
+        user: userResponse,
+        tokens
+      });
+
+    } catch (error: any) {
+      console.error('Two-factor enable error:', error);
+      sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+    }
+  }
+
+  // Turn the second factor off; takes the password and a current code
+  static async disableTwoFactor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = twoFactorDisableSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid input',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      await TwoFactorService.disable(req.user!.id, value.password, value.code);
+
+      res.json({
+        message: 'Two-factor authentication disabled'
+      });
+
+    } catch (error: any) {
+      console.error('Two-factor disable error:', error);
+      sendTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+    }
+  }
+
+  // Replace the recovery codes; the unused ones stop working
+  static async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = twoFactorCodeBodySchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid input',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user!.id, value.code);
+
+      res.json({
+        message: 'Recovery codes regenerated',
+        recoveryCodes
+      });
+
+    } catch (error: any) {
+      console.error('Regenerate recovery codes error:', error);
+      sendTwoFactorError(res, error, 'Failed to regenerate recovery codes');
+    }
+  }
+
+  // The user enrolling: the one named by the challenge coming from login, or else the logged in one.
+  // Sends the error response and returns null when there is neither.
+  private static async twoFactorEnrolee(
+    req: AuthenticatedRequest,
+    res: Response,
+    challengeToken?: string
+  ): Promise<User | null> {
+    const userId = challengeToken
+      ? TwoFactorService.verifyChallenge(challengeToken, 'two_factor_setup')
+      : req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        error: {
+          code: 'AUTH_REQUIRED',
+          message: 'Access token or challenge token is required',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return null;
+    }
+
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
   }
 }
\ No newline at end of file
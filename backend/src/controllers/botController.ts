@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { BotModel } from '../models/Bot';
 import { BotModuleActivationModel } from '../models/BotModuleActivation';
 import { TelegramService } from '../services/telegramService';
+import { TelegramWebhookService } from '../services/telegramWebhookService';
 import { CreateBotInput, UpdateBotInput } from '../types/database';
 import { botFilterSchema } from '../validation/schemas';
 
@@ -90,10 +91,21 @@ export class BotController {
         createBotInput.webhook_url = webhook_url;
       }
 
-      const bot = await BotModel.create(createBotInput);
+      let bot = await BotModel.create(createBotInput);
 
-      // Set webhook if provided
-      if (webhook_url) {
+      // Point the bot at the platform receiver when it is publicly reachable,
+      // otherwise fall back to the webhook URL supplied by the user
+      const platformWebhookUrl = TelegramWebhookService.getWebhookUrl(bot.id);
+      if (platformWebhookUrl) {
+        try {
+          const secret = TelegramWebhookService.generateSecretToken();
+          if (await TelegramService.setWebhook(token, platformWebhookUrl, secret)) {
+            bot = await BotModel.updateWebhook(bot.id, platformWebhookUrl, secret) || bot;
+          }
+        } catch (error) {
+          console.warn('Failed to register platform webhook, but bot was created:', error);
+        }
+      } else if (webhook_url) {
         try {
           await TelegramService.setWebhook(token, webhook_url);
         } catch (error) {
@@ -102,7 +114,7 @@ export class BotController {
       }
 
       // Return bot info without sensitive data
-      const { token_hash, ...botResponse } = bot;
+      const { token_hash, webhook_secret, ...botResponse } = bot;
       
       res.status(201).json({
         message: 'Bot connected successfully',
@@ -171,7 +183,7 @@ export class BotController {
 
       // Remove sensitive data from response
       const botsWithoutTokens = result.bots.map(bot => {
-        const { token_hash, ...botData } = bot;
+        const { token_hash, webhook_secret, ...botData } = bot;
         return botData;
       });
 
@@ -246,7 +258,7 @@ export class BotController {
       const activeModules = await BotModel.getActiveModules(id);
 
       // Remove sensitive data
-      const { token_hash, ...botData } = bot;
+      const { token_hash, webhook_secret, ...botData } = bot;
 
       res.json({
         bot: botData,
@@ -324,7 +336,7 @@ export class BotController {
       }
 
       // Remove sensitive data
-      const { token_hash, ...botData } = updatedBot;
+      const { token_hash, webhook_secret, ...botData } = updatedBot;
 
       res.json({
         message: 'Bot settings updated successfully',
@@ -439,6 +451,106 @@ export class BotController {
     }
   }
 
+  /**
+   * Register (or re-register) the platform webhook for a bot, rotating its secret token
+   * POST /bots/:id/webhook
+   */
+  static async registerWebhook(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId || !id) {
+        res.status(401).json({
+          error: {
+            code: 'AUTH_REQUIRED',
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const bot = await BotModel.findById(id);
+      if (!bot) {
+        res.status(404).json({
+          error: {
+            code: 'BOT_NOT_FOUND',
+            message: 'Bot not found',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      if (bot.user_id !== userId) {
+        res.status(403).json({
+          error: {
+            code: 'ACCESS_DENIED',
+            message: 'You do not have access to this bot',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const webhookUrl = TelegramWebhookService.getWebhookUrl(id);
+      if (!webhookUrl) {
+        res.status(503).json({
+          error: {
+            code: 'WEBHOOK_NOT_CONFIGURED',
+            message: 'Platform webhook receiver is not configured',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const botToken = await BotModel.getDecryptedToken(id);
+      if (!botToken) {
+        res.status(500).json({
+          error: {
+            code: 'TOKEN_ERROR',
+            message: 'Failed to retrieve bot token',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      // Only persist the new secret once Telegram has accepted it, so a failed
+      // registration leaves the current webhook working
+      const secret = TelegramWebhookService.generateSecretToken();
+      const registered = await TelegramService.setWebhook(botToken, webhookUrl, secret);
+      if (!registered) {
+        res.status(502).json({
+          error: {
+            code: 'WEBHOOK_REGISTRATION_FAILED',
+            message: 'Telegram rejected the webhook registration',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      await BotModel.updateWebhook(id, webhookUrl, secret);
+
+      res.json({
+        message: 'Webhook registered successfully',
+        webhook_url: webhookUrl,
+      });
+    } catch (error: any) {
+      console.error('Error registering bot webhook:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to register webhook',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
   /**
    * Check bot status
    * GET /bots/:id/status
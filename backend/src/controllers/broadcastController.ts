@@ -1,11 +1,24 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware';
 import { BroadcastService, CreateBroadcastCampaignInput } from '../services/broadcastService';
+import { BroadcastDeliveryStatus } from '../models/BroadcastDelivery';
+import { BroadcastSegmentService } from '../services/broadcastSegmentService';
+import { BroadcastTemplateService } from '../services/broadcastTemplateService';
+import {
+  createBroadcastSchema,
+  createSegmentSchema,
+  updateSegmentSchema,
+  segmentPreviewSchema,
+  createBroadcastTemplateSchema,
+  updateBroadcastTemplateSchema,
+  templatePreviewSchema
+} from '../validation/schemas';
 
 export class BroadcastController {
   /**
    * Create a new broadcast campaign
    */
-  static async createBroadcast(req: Request, res: Response): Promise<void> {
+  static async createBroadcast(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -13,32 +26,61 @@ export class BroadcastController {
         return;
       }
 
-      const { title, message, targets, scheduled_at, message_options } = req.body;
-
-      if (!title || !message || !targets || !Array.isArray(targets)) {
+      const { error, value } = createBroadcastSchema.validate(req.body, { abortEarly: false });
+      if (error) {
         res.status(400).json({ 
-          error: 'Title, message, and targets are required' 
+          error: 'Invalid broadcast',
+          details: error.details.map(detail => detail.message)
         });
         return;
       }
 
-      // Validate targets
-      const validation = await BroadcastService.validateBroadcastTargets(userId, targets);
-      if (!validation.valid) {
-        res.status(400).json({ 
-          error: 'Invalid broadcast targets',
-          details: validation.errors
-        });
-        return;
+      const {
+        title,
+        message,
+        targets,
+        segment_id,
+        scheduled_at,
+        message_options,
+        media,
+        inline_keyboard,
+        variants,
+        holdout_minutes,
+        track_links
+      } = value;
+
+      // Validate targets; a segment is resolved against the bots' subscribers when the broadcast is sent
+      if (targets) {
+        const validation = await BroadcastService.validateBroadcastTargets(userId, targets);
+        if (!validation.valid) {
+          res.status(400).json({ 
+            error: 'Invalid broadcast targets',
+            details: validation.errors
+          });
+          return;
+        }
       }
 
       const broadcastInput: CreateBroadcastCampaignInput = {
         userId,
         title,
-        message,
-        targets,
-        scheduledAt: scheduled_at ? new Date(scheduled_at) : undefined,
-        messageOptions: message_options
+        message: variants ? variants[0].message : message,
+        ...(media && { media }),
+        ...(inline_keyboard && { inlineKeyboard: inline_keyboard }),
+        ...(variants && {
+          variants: variants.map((variant: any) => ({
+            message: variant.message,
+            split: variant.split,
+            ...(variant.media && { media: variant.media }),
+            ...(variant.inline_keyboard && { inlineKeyboard: variant.inline_keyboard })
+          })),
+          holdoutMinutes: holdout_minutes
+        }),
+        ...(track_links !== undefined && { trackLinks: track_links }),
+        ...(targets && { targets }),
+        ...(segment_id && { segmentId: segment_id }),
+        ...(scheduled_at && { scheduledAt: new Date(scheduled_at) }),
+        ...(message_options && { messageOptions: message_options })
       };
 
       const broadcast = await BroadcastService.createBroadcastCampaign(broadcastInput);
@@ -57,6 +99,10 @@ export class BroadcastController {
       });
     } catch (error: any) {
       console.error('Error creating broadcast:', error);
+      if (error.message === 'Segment not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ 
         error: error.message || 'Internal server error' 
       });
@@ -66,7 +112,7 @@ export class BroadcastController {
   /**
    * Get user's broadcast campaigns
    */
-  static async getUserBroadcasts(req: Request, res: Response): Promise<void> {
+  static async getUserBroadcasts(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -111,12 +157,12 @@ export class BroadcastController {
   /**
    * Execute a broadcast campaign
    */
-  static async executeBroadcast(req: Request, res: Response): Promise<void> {
+  static async executeBroadcast(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       const { id } = req.params;
 
-      if (!userId) {
+      if (!userId || !id) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
@@ -132,8 +178,9 @@ export class BroadcastController {
 
       const stats = await BroadcastService.executeBroadcast(id);
 
-      res.json({
-        message: 'Broadcast executed successfully',
+      // Delivery happens in the background queue; poll the stats endpoint for progress
+      res.status(202).json({
+        message: 'Broadcast queued for delivery',
         stats
       });
     } catch (error: any) {
@@ -147,12 +194,12 @@ export class BroadcastController {
   /**
    * Get broadcast statistics
    */
-  static async getBroadcastStats(req: Request, res: Response): Promise<void> {
+  static async getBroadcastStats(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       const { id } = req.params;
 
-      if (!userId) {
+      if (!userId || !id) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
@@ -182,12 +229,12 @@ export class BroadcastController {
   /**
    * Cancel a scheduled broadcast
    */
-  static async cancelBroadcast(req: Request, res: Response): Promise<void> {
+  static async cancelBroadcast(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       const { id } = req.params;
 
-      if (!userId) {
+      if (!userId || !id) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
@@ -203,15 +250,63 @@ export class BroadcastController {
     }
   }
 
+  /**
+   * Pause a broadcast that is being sent
+   */
+  static async pauseBroadcast(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { id } = req.params;
+
+      if (!userId || !id) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await BroadcastService.pauseBroadcast(id, userId);
+
+      res.json({ message: 'Broadcast paused successfully' });
+    } catch (error: any) {
+      console.error('Error pausing broadcast:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Resume a paused broadcast
+   */
+  static async resumeBroadcast(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { id } = req.params;
+
+      if (!userId || !id) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await BroadcastService.resumeBroadcast(id, userId);
+
+      res.json({ message: 'Broadcast resumed successfully' });
+    } catch (error: any) {
+      console.error('Error resuming broadcast:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
   /**
    * Get detailed broadcast report
    */
-  static async getBroadcastReport(req: Request, res: Response): Promise<void> {
+  static async getBroadcastReport(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       const { id } = req.params;
 
-      if (!userId) {
+      if (!userId || !id) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
@@ -231,10 +326,257 @@ export class BroadcastController {
     }
   }
 
+  /**
+   * Get the per-recipient delivery log of a broadcast
+   */
+  static async getBroadcastDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { id } = req.params;
+
+      if (!userId || !id) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { status, page = 1, limit = 50 } = req.query;
+      const offset = (Number(page) - 1) * Number(limit);
+      // ?status=failed,blocked
+      const statuses = status
+        ? (String(status).split(',').filter(value =>
+            ['pending', 'sent', 'failed', 'blocked'].includes(value)
+          ) as BroadcastDeliveryStatus[])
+        : undefined;
+
+      const { deliveries, total } = await BroadcastService.getBroadcastDeliveries(id, userId, {
+        ...(statuses && { statuses }),
+        limit: Number(limit),
+        offset
+      });
+
+      res.json({
+        deliveries,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total
+        }
+      });
+    } catch (error: any) {
+      console.error('Error getting broadcast deliveries:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Resend a finished broadcast to its failed recipients only
+   */
+  static async resendFailed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { id } = req.params;
+
+      if (!userId || !id) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { broadcast, stats } = await BroadcastService.resendToFailedRecipients(id, userId);
+
+      res.status(202).json({
+        message: 'Broadcast queued for failed recipients',
+        broadcast: {
+          id: broadcast.id,
+          title: broadcast.title,
+          status: broadcast.status,
+          created_at: broadcast.created_at
+        },
+        stats
+      });
+    } catch (error: any) {
+      console.error('Error resending broadcast:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Get user's saved segments with their current recipient counts
+   */
+  static async getSegments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const segments = await BroadcastSegmentService.getUserSegments(userId);
+
+      res.json({ segments });
+    } catch (error: any) {
+      console.error('Error getting segments:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Save a new subscriber segment
+   */
+  static async createSegment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { error, value } = createSegmentSchema.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          error: 'Invalid segment',
+          details: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const segment = await BroadcastSegmentService.createSegment(userId, value);
+
+      res.status(201).json({
+        message: 'Segment created successfully',
+        segment
+      });
+    } catch (error: any) {
+      console.error('Error creating segment:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Update a saved segment
+   */
+  static async updateSegment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { segmentId } = req.params;
+
+      if (!userId || !segmentId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { error, value } = updateSegmentSchema.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          error: 'Invalid segment',
+          details: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const segment = await BroadcastSegmentService.updateSegment(segmentId, userId, value);
+
+      res.json({
+        message: 'Segment updated successfully',
+        segment
+      });
+    } catch (error: any) {
+      console.error('Error updating segment:', error);
+      res.status(error.message === 'Segment not found' ? 404 : 500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Delete a saved segment
+   */
+  static async deleteSegment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { segmentId } = req.params;
+
+      if (!userId || !segmentId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await BroadcastSegmentService.deleteSegment(segmentId, userId);
+
+      res.json({ message: 'Segment deleted successfully' });
+    } catch (error: any) {
+      console.error('Error deleting segment:', error);
+      res.status(error.message === 'Segment not found' ? 404 : 500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Live recipient count of a saved segment
+   */
+  static async getSegmentCount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { segmentId } = req.params;
+
+      if (!userId || !segmentId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const segment = await BroadcastSegmentService.getSegment(segmentId, userId);
+      const count = await BroadcastSegmentService.countRecipients(segment.bot_ids, segment.filters);
+
+      res.json({ count });
+    } catch (error: any) {
+      console.error('Error counting segment recipients:', error);
+      res.status(error.message === 'Segment not found' ? 404 : 500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Live recipient count of segment filters that are still being edited
+   */
+  static async previewSegment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { error, value } = segmentPreviewSchema.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          error: 'Invalid segment',
+          details: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const count = await BroadcastSegmentService.previewSegment(userId, value.bot_ids, value.filters);
+
+      res.json({ count });
+    } catch (error: any) {
+      console.error('Error previewing segment:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
   /**
    * Validate broadcast targets
    */
-  static async validateTargets(req: Request, res: Response): Promise<void> {
+  static async validateTargets(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -265,7 +607,7 @@ export class BroadcastController {
   /**
    * Estimate broadcast cost
    */
-  static async estimateCost(req: Request, res: Response): Promise<void> {
+  static async estimateCost(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { targets } = req.body;
 
@@ -284,41 +626,160 @@ export class BroadcastController {
   }
 
   /**
-   * Get broadcast templates (predefined message templates)
+   * Get broadcast templates: built-in ones plus the user's saved templates
    */
-  static async getTemplates(req: Request, res: Response): Promise<void> {
+  static async getTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const templates = [
-        {
-          id: 'welcome',
-          name: 'Welcome Message',
-          category: 'onboarding',
-          template: 'Welcome to our service! 🎉\n\nWe\'re excited to have you on board. Here\'s what you can do:\n\n• Feature 1\n• Feature 2\n• Feature 3\n\nGet started now!'
-        },
-        {
-          id: 'announcement',
-          name: 'General Announcement',
-          category: 'updates',
-          template: '📢 Important Announcement\n\n[Your announcement here]\n\nThank you for your attention!'
-        },
-        {
-          id: 'promotion',
-          name: 'Promotional Message',
-          category: 'marketing',
-          template: '🔥 Special Offer!\n\n[Offer details]\n\n⏰ Limited time only!\n\nDon\'t miss out!'
-        },
-        {
-          id: 'maintenance',
-          name: 'Maintenance Notice',
-          category: 'technical',
-          template: '🔧 Scheduled Maintenance\n\nWe will be performing maintenance on [date] from [time] to [time].\n\nDuring this time, some features may be unavailable.\n\nThank you for your patience!'
-        }
-      ];
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const templates = await BroadcastTemplateService.getTemplates(userId);
 
-      res.json({ templates });
+      res.json({
+        templates: templates.map(template => ({
+          id: template.id,
+          name: template.name,
+          category: template.category,
+          template: template.content,
+          parse_mode: template.parse_mode,
+          built_in: !template.user_id
+        }))
+      });
     } catch (error: any) {
       console.error('Error getting templates:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
+
+  /**
+   * Save a message template
+   */
+  static async createTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { error, value } = createBroadcastTemplateSchema.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          error: 'Invalid template',
+          details: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const template = await BroadcastTemplateService.createTemplate(userId, value);
+
+      res.status(201).json({
+        message: 'Template created successfully',
+        template
+      });
+    } catch (error: any) {
+      console.error('Error creating template:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Update one of the user's templates
+   */
+  static async updateTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { templateId } = req.params;
+
+      if (!userId || !templateId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { error, value } = updateBroadcastTemplateSchema.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          error: 'Invalid template',
+          details: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const template = await BroadcastTemplateService.updateTemplate(templateId, userId, value);
+
+      res.json({
+        message: 'Template updated successfully',
+        template
+      });
+    } catch (error: any) {
+      console.error('Error updating template:', error);
+      res.status(error.message === 'Template not found' ? 404 : 500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Delete one of the user's templates
+   */
+  static async deleteTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { templateId } = req.params;
+
+      if (!userId || !templateId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await BroadcastTemplateService.deleteTemplate(templateId, userId);
+
+      res.json({ message: 'Template deleted successfully' });
+    } catch (error: any) {
+      console.error('Error deleting template:', error);
+      res.status(error.message === 'Template not found' ? 404 : 500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
+
+  /**
+   * Render a message with template variables the way a recipient would see it
+   */
+  static async previewTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { error, value } = templatePreviewSchema.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          error: 'Invalid template',
+          details: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { message, parse_mode, bot_id, chat_id } = value;
+      const rendered = await BroadcastTemplateService.previewMessage(
+        userId,
+        message,
+        parse_mode,
+        bot_id ? { botId: bot_id, chatId: String(chat_id) } : undefined
+      );
+
+      res.json({ rendered });
+    } catch (error: any) {
+      console.error('Error previewing template:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import { CouponService } from '../services/couponService';
+import { createCouponSchema, updateCouponSchema } from '../validation/schemas';
+
+const errorStatus = (message: string): number => {
+  switch (message) {
+    case 'Module not found':
+    case 'Coupon not found':
+      return 404;
+    case 'Access denied':
+      return 403;
+    case 'Coupon code is already taken':
+      return 409;
+    default:
+      return 400;
+  }
+};
+
+const sendError = (res: Response, code: string, message: string, status: number = errorStatus(message)): void => {
+  res.status(status).json({
+    error: {
+      code,
+      message,
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+export class CouponController {
+  /**
+   * Get the coupons the authenticated developer created, or every coupon for an admin
+   */
+  static async getCoupons(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const coupons = await CouponService.listCoupons(user.id, user.role);
+
+      res.json({
+        success: true,
+        data: coupons
+      });
+    } catch (error) {
+      console.error('Get coupons error:', error);
+      sendError(res, 'INTERNAL_ERROR', 'Failed to get coupons', 500);
+    }
+  }
+
+  /**
+   * Create a coupon for a module (developer or admin), or for every module (admin)
+   */
+  static async createCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      const { error, value } = createCouponSchema.validate(req.body);
+      if (error) {
+        sendError(res, 'VALIDATION_ERROR', error.details[0]?.message || 'Invalid input', 400);
+        return;
+      }
+
+      const coupon = await CouponService.createCoupon(user.id, user.role, value);
+
+      res.status(201).json({
+        success: true,
+        data: coupon,
+        message: 'Coupon created successfully'
+      });
+    } catch (error: any) {
+      console.error('Create coupon error:', error);
+      sendError(res, 'CREATE_COUPON_FAILED', error.message || 'Failed to create coupon');
+    }
+  }
+
+  /**
+   * Change the limits or expiry of a coupon, or switch it off
+   */
+  static async updateCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      const { error, value } = updateCouponSchema.validate(req.body);
+      if (error) {
+        sendError(res, 'VALIDATION_ERROR', error.details[0]?.message || 'Invalid input', 400);
+        return;
+      }
+
+      const coupon = await CouponService.updateCoupon(req.params['id']!, user.id, user.role, value);
+
+      res.json({
+        success: true,
+        data: coupon,
+        message: 'Coupon updated successfully'
+      });
+    } catch (error: any) {
+      console.error('Update coupon error:', error);
+      sendError(res, 'UPDATE_COUPON_FAILED', error.message || 'Failed to update coupon');
+    }
+  }
+
+  /**
+   * Check a coupon code against a module, or one of its plans, before paying
+   */
+  static async validateCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const { code, moduleId, planId } = req.body;
+
+      if (typeof code !== 'string' || !code.trim() || typeof moduleId !== 'string') {
+        sendError(res, 'MISSING_REQUIRED_FIELDS', 'Coupon code and module ID are required', 400);
+        return;
+      }
+
+      const discount = await CouponService.previewDiscount(code, (req as any).user.id, moduleId, planId);
+
+      res.json({
+        success: true,
+        data: discount
+      });
+    } catch (error: any) {
+      console.error('Validate coupon error:', error);
+      sendError(res, 'INVALID_COUPON', error.message || 'Failed to validate coupon');
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { BroadcastLinkService } from '../services/broadcastLinkService';
+
+export class LinkController {
+  /**
+   * Count a click on a tracked broadcast link and send the visitor on to its destination
+   * GET /r/:linkId/:token
+   */
+  static async redirect(req: Request, res: Response): Promise<void> {
+    try {
+      const { linkId, token } = req.params;
+
+      const destination = linkId && token ? await BroadcastLinkService.resolveClick(linkId, token) : null;
+      if (!destination) {
+        res.status(404).json({
+          error: {
+            code: 'LINK_NOT_FOUND',
+            message: 'Link not found',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      // Every click must reach the server, so neither browsers nor proxies may cache the redirect
+      res.set('Cache-Control', 'no-store');
+      res.redirect(302, destination);
+    } catch (error) {
+      console.error('Error resolving tracked link:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to resolve link',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+}
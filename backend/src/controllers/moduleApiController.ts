@@ -0,0 +1,354 @@
+import { Response } from 'express';
+import { BotModel } from '../models/Bot';
+import { BotSubscriberModel } from '../models/BotSubscriber';
+import { ModuleActivationStateModel } from '../models/ModuleActivationState';
+import { ModuleApiRequest } from '../middleware/moduleApiMiddleware';
+import { TelegramService } from '../services/telegramService';
+import {
+  moduleApiSendMessageSchema,
+  moduleApiSetStateSchema,
+  moduleApiStateKeySchema,
+} from '../validation/schemas';
+
+const MAX_STATE_KEYS = 100;
+const MAX_STATE_VALUE_BYTES = 16 * 1024;
+
+export class ModuleApiController {
+  /**
+   * Get the activation the API key belongs to, including its settings
+   * GET /module-api/v1/settings
+   */
+  static getSettings(req: ModuleApiRequest, res: Response): void {
+    const activation = req.moduleActivation!;
+
+    res.json({
+      success: true,
+      data: {
+        activation_id: activation.id,
+        bot_id: activation.bot_id,
+        bot_name: activation.bot_name,
+        module_id: activation.module_id,
+        module_name: activation.module_name,
+        settings: activation.settings,
+        expires_at: activation.expires_at,
+      },
+    });
+  }
+
+  /**
+   * List chat ids of the bot's active subscribers
+   * GET /module-api/v1/subscribers
+   */
+  static async getSubscribers(req: ModuleApiRequest, res: Response): Promise<void> {
+    try {
+      const activation = req.moduleActivation!;
+      const limit = Math.min(Math.max(Number(req.query['limit']) || 1000, 1), 5000);
+      const offset = Math.max(Number(req.query['offset']) || 0, 0);
+
+      const [chatIds, total] = await Promise.all([
+        BotSubscriberModel.findActiveChatIds(activation.bot_id, { limit, offset }),
+        BotSubscriberModel.getSubscriberCount(activation.bot_id),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          chat_ids: chatIds,
+          pagination: {
+            limit,
+            offset,
+            total,
+          },
+        },
+      });
+    } catch (error: any) {
+      console.error('Module API get subscribers error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch subscribers',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Send a message to one of the bot's subscribers; the bot token never leaves the platform
+   * POST /module-api/v1/messages
+   */
+  static async sendMessage(req: ModuleApiRequest, res: Response): Promise<void> {
+    try {
+      const activation = req.moduleActivation!;
+
+      const { error, value } = moduleApiSendMessageSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid message',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const { chat_id, text, ...options } = value;
+
+      const bot = await BotModel.findById(activation.bot_id);
+      if (!bot || bot.status !== 'active') {
+        res.status(409).json({
+          error: {
+            code: 'BOT_INACTIVE',
+            message: 'Bot is not active',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      // Modules may only message chats that interacted with the bot
+      const subscriber = await BotSubscriberModel.findByBotAndChat(activation.bot_id, String(chat_id));
+      if (!subscriber || !subscriber.is_active) {
+        res.status(404).json({
+          error: {
+            code: 'SUBSCRIBER_NOT_FOUND',
+            message: 'Chat is not an active subscriber of this bot',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const botToken = await BotModel.getDecryptedToken(activation.bot_id);
+      if (!botToken) {
+        res.status(500).json({
+          error: {
+            code: 'TOKEN_ERROR',
+            message: 'Failed to retrieve bot token',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const sent = await TelegramService.sendMessage(botToken, chat_id, text, options);
+      if (!sent) {
+        res.status(502).json({
+          error: {
+            code: 'TELEGRAM_ERROR',
+            message: 'Telegram rejected the message',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { chat_id },
+      });
+    } catch (error: any) {
+      console.error('Module API send message error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to send message',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * List all stored state entries for the activation
+   * GET /module-api/v1/state
+   */
+  static async listState(req: ModuleApiRequest, res: Response): Promise<void> {
+    try {
+      const entries = await ModuleActivationStateModel.list(req.moduleActivation!.id);
+
+      res.json({
+        success: true,
+        data: entries.map(entry => ({
+          key: entry.key,
+          value: entry.value,
+          updated_at: entry.updated_at,
+        })),
+      });
+    } catch (error: any) {
+      console.error('Module API list state error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch state',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Get a single state entry
+   * GET /module-api/v1/state/:key
+   */
+  static async getState(req: ModuleApiRequest, res: Response): Promise<void> {
+    try {
+      const key = ModuleApiController.validateStateKey(req, res);
+      if (!key) {
+        return;
+      }
+
+      const entry = await ModuleActivationStateModel.get(req.moduleActivation!.id, key);
+      if (!entry) {
+        res.status(404).json({
+          error: {
+            code: 'STATE_NOT_FOUND',
+            message: 'State key not found',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          key: entry.key,
+          value: entry.value,
+          updated_at: entry.updated_at,
+        },
+      });
+    } catch (error: any) {
+      console.error('Module API get state error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch state',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Create or replace a state entry
+   * PUT /module-api/v1/state/:key
+   */
+  static async setState(req: ModuleApiRequest, res: Response): Promise<void> {
+    try {
+      const activationId = req.moduleActivation!.id;
+      const key = ModuleApiController.validateStateKey(req, res);
+      if (!key) {
+        return;
+      }
+
+      const { error, value } = moduleApiSetStateSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid state value',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      if (Buffer.byteLength(JSON.stringify(value.value)) > MAX_STATE_VALUE_BYTES) {
+        res.status(413).json({
+          error: {
+            code: 'STATE_VALUE_TOO_LARGE',
+            message: `State values are limited to ${MAX_STATE_VALUE_BYTES} bytes`,
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const existing = await ModuleActivationStateModel.get(activationId, key);
+      if (!existing && await ModuleActivationStateModel.count(activationId) >= MAX_STATE_KEYS) {
+        res.status(409).json({
+          error: {
+            code: 'STATE_KEY_LIMIT_REACHED',
+            message: `An activation can store at most ${MAX_STATE_KEYS} keys`,
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const entry = await ModuleActivationStateModel.set(activationId, key, value.value);
+
+      res.status(existing ? 200 : 201).json({
+        success: true,
+        data: {
+          key: entry.key,
+          value: entry.value,
+          updated_at: entry.updated_at,
+        },
+      });
+    } catch (error: any) {
+      console.error('Module API set state error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to store state',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Delete a state entry
+   * DELETE /module-api/v1/state/:key
+   */
+  static async deleteState(req: ModuleApiRequest, res: Response): Promise<void> {
+    try {
+      const key = ModuleApiController.validateStateKey(req, res);
+      if (!key) {
+        return;
+      }
+
+      const deleted = await ModuleActivationStateModel.delete(req.moduleActivation!.id, key);
+      if (!deleted) {
+        res.status(404).json({
+          error: {
+            code: 'STATE_NOT_FOUND',
+            message: 'State key not found',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Module API delete state error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete state',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  private static validateStateKey(req: ModuleApiRequest, res: Response): string | null {
+    const { error, value } = moduleApiStateKeySchema.validate(req.params['key']);
+    if (error) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_STATE_KEY',
+          message: 'State keys must be 1-128 characters of letters, digits, "_", ".", ":" or "-"',
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return null;
+    }
+
+    return value;
+  }
+}
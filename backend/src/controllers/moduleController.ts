@@ -501,7 +501,8 @@ export class ModuleController {
             module_name: module.name,
             module_description: module.description,
             module_category: module.category,
-            module_price: module.price
+            module_price: module.price,
+            module_currency: module.currency
           }
         }
       });
@@ -894,6 +895,7 @@ export class ModuleController {
             description: module.description,
             category: module.category,
             price: module.price,
+            currency: module.currency,
             status: module.status,
             code_url: module.code_url,
             documentation_url: module.documentation_url,
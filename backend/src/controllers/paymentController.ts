@@ -1,15 +1,26 @@
 import { Request, Response } from 'express';
 import { paymentService } from '../services/paymentService';
 import { TransactionModel } from '../models/Transaction';
+import { LedgerService } from '../services/ledgerService';
+import { RevenueSplitService } from '../services/revenueSplitService';
+import { InvoiceService } from '../services/invoiceService';
+import { InvoiceModel } from '../models/Invoice';
+import { StripeEventService } from '../services/stripeEventService';
+import { CurrencyService, BASE_CURRENCY, isSupportedCurrency, formatMoney } from '../services/currencyService';
 import { AuthenticatedRequest } from '../middleware/authMiddleware';
 
+const PAYMENT_METHODS = ['card', 'wallet', 'mixed'];
+// In USD; converted for top-ups in other currencies
+const MIN_TOP_UP_AMOUNT = 5;
+const MAX_TOP_UP_AMOUNT = 10000;
+
 export class PaymentController {
   /**
    * Create payment intent for module activation
    */
   static async createPayment(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { moduleId, botId, markupPercentage } = req.body;
+      const { moduleId, botId, markupPercentage, planId, paymentMethod, walletAmount, couponCode } = req.body;
       const userId = req.user!.id;
 
       if (!moduleId || !botId) {
@@ -22,20 +33,72 @@ export class PaymentController {
         return;
       }
 
+      if (paymentMethod !== undefined && !PAYMENT_METHODS.includes(paymentMethod)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_PAYMENT_METHOD',
+            message: `Payment method must be one of: ${PAYMENT_METHODS.join(', ')}`
+          }
+        });
+        return;
+      }
+
+      if (markupPercentage !== undefined
+        && !(typeof markupPercentage === 'number' && markupPercentage >= 0 && markupPercentage <= 100)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_MARKUP',
+            message: 'Markup percentage must be a number between 0 and 100'
+          }
+        });
+        return;
+      }
+
+      if (couponCode !== undefined && !(typeof couponCode === 'string' && couponCode.trim())) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_COUPON',
+            message: 'Coupon code must be a non-empty string'
+          }
+        });
+        return;
+      }
+
+      if (walletAmount !== undefined && !(typeof walletAmount === 'number' && walletAmount > 0)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_AMOUNT',
+            message: 'Wallet amount must be a positive number'
+          }
+        });
+        return;
+      }
+
       const result = await paymentService.createModulePayment(
         userId,
         moduleId,
         botId,
-        markupPercentage
+        markupPercentage,
+        {
+          ...(planId && { planId }),
+          ...(paymentMethod && { paymentMethod }),
+          ...(walletAmount !== undefined && { walletAmount }),
+          ...(couponCode && { couponCode })
+        }
       );
 
+      // Wallet payments are settled already and have no payment intent to confirm
       res.status(201).json({
         success: true,
         data: {
-          client_secret: result.paymentIntent.client_secret,
-          payment_intent_id: result.paymentIntent.id,
+          client_secret: result.paymentIntent?.client_secret ?? null,
+          payment_intent_id: result.paymentIntent?.id ?? null,
           transaction_id: result.transaction.id,
-          amount: result.transaction.amount
+          amount: result.transaction.amount,
+          currency: result.transaction.currency,
+          status: result.transaction.status,
+          wallet_amount: result.transaction.metadata?.['wallet_amount'] || 0,
+          discount_amount: result.transaction.metadata?.['discount_amount'] || 0
         }
       });
     } catch (error: any) {
@@ -49,6 +112,61 @@ export class PaymentController {
     }
   }
 
+  /**
+   * Create payment intent that tops up the authenticated user's wallet in the given currency (USD by default)
+   */
+  static async createTopUp(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { amount, currency = BASE_CURRENCY } = req.body;
+
+      if (typeof currency !== 'string' || !isSupportedCurrency(currency)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_CURRENCY',
+            message: 'Currency is not supported'
+          }
+        });
+        return;
+      }
+
+      const [minAmount, maxAmount] = await Promise.all([
+        CurrencyService.convertAtCurrentRates(MIN_TOP_UP_AMOUNT, BASE_CURRENCY, currency),
+        CurrencyService.convertAtCurrentRates(MAX_TOP_UP_AMOUNT, BASE_CURRENCY, currency)
+      ]);
+
+      if (typeof amount !== 'number' || amount < minAmount || amount > maxAmount) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_AMOUNT',
+            message: `Top-up amount must be between ${formatMoney(minAmount, currency)} and ${formatMoney(maxAmount, currency)}`
+          }
+        });
+        return;
+      }
+
+      const result = await paymentService.createTopUp(req.user!.id, amount, currency);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          client_secret: result.paymentIntent.client_secret,
+          payment_intent_id: result.paymentIntent.id,
+          transaction_id: result.transaction.id,
+          amount: result.transaction.amount,
+          currency: result.transaction.currency
+        }
+      });
+    } catch (error: any) {
+      console.error('Create top-up error:', error);
+      res.status(400).json({
+        error: {
+          code: 'TOP_UP_CREATION_FAILED',
+          message: error.message || 'Failed to create top-up'
+        }
+      });
+    }
+  }
+
   /**
    * Get payment history for authenticated user
    */
@@ -101,14 +219,16 @@ export class PaymentController {
   }
 
   /**
-   * Get user balance and transaction stats
+   * Get user balance (the USD wallet), the balance of every currency wallet and transaction stats in the
+   * user's display currency
    */
   static async getBalance(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
 
-      const [balance, stats] = await Promise.all([
-        TransactionModel.getUserBalance(userId),
+      const [balance, balances, stats] = await Promise.all([
+        LedgerService.getUserBalance(userId),
+        LedgerService.getUserBalances(userId),
         TransactionModel.getUserTransactionStats(userId)
       ]);
 
@@ -116,6 +236,8 @@ export class PaymentController {
         success: true,
         data: {
           balance,
+          currency: BASE_CURRENCY,
+          balances,
           stats
         }
       });
@@ -150,25 +272,8 @@ export class PaymentController {
 
       const event = paymentService.validateWebhookSignature(payload, signature);
 
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          await paymentService.processSuccessfulPayment(event.data.object.id);
-          console.log('Payment succeeded:', event.data.object.id);
-          break;
-
-        case 'payment_intent.payment_failed':
-          await paymentService.processFailedPayment(event.data.object.id);
-          console.log('Payment failed:', event.data.object.id);
-          break;
-
-        case 'payment_intent.canceled':
-          await paymentService.processFailedPayment(event.data.object.id);
-          console.log('Payment canceled:', event.data.object.id);
-          break;
-
-        default:
-          console.log('Unhandled webhook event type:', event.type);
-      }
+      // Duplicate deliveries of an event are acknowledged without processing it again
+      await StripeEventService.handle(event);
 
       res.json({ received: true });
     } catch (error: any) {
@@ -216,7 +321,7 @@ export class PaymentController {
       res.json({
         success: true,
         data: {
-          refund_id: result.refund.id,
+          refund_id: result.refund?.id ?? null,
           transaction_id: result.refundTransaction.id,
           amount: result.refundTransaction.amount
         }
@@ -314,9 +419,18 @@ export class PaymentController {
         return;
       }
 
+      const [revenueSplit, invoice] = await Promise.all([
+        RevenueSplitService.getBreakdown(transaction),
+        InvoiceModel.findByTransactionId(transaction.id)
+      ]);
+
       res.json({
         success: true,
-        data: transaction
+        data: {
+          ...transaction,
+          revenue_split: revenueSplit,
+          invoice: invoice && { id: invoice.id, number: invoice.number, document_type: invoice.document_type }
+        }
       });
     } catch (error: any) {
       console.error('Get transaction error:', error);
@@ -328,4 +442,69 @@ export class PaymentController {
       });
     }
   }
+
+  /**
+   * List the invoices, credit notes and withdrawal receipts issued to the user
+   */
+  static async getInvoices(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+
+      const result = await InvoiceService.listForUser(req.user!.id, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          invoices: result.invoices,
+          pagination: {
+            page,
+            limit,
+            total: result.total,
+            pages: Math.ceil(result.total / limit)
+          }
+        }
+      });
+    } catch (error: any) {
+      console.error('Get invoices error:', error);
+      res.status(500).json({
+        error: {
+          code: 'FETCH_INVOICES_FAILED',
+          message: 'Failed to fetch invoices'
+        }
+      });
+    }
+  }
+
+  /**
+   * Download the PDF of an invoice; users only get their own, admins any
+   */
+  static async downloadInvoice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const document = await InvoiceService.getPdf(req.params['invoiceId']!, req.user!);
+
+      res.type('application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${document.fileName}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.sendFile(document.path);
+    } catch (error: any) {
+      if (error.message === 'Invoice not found') {
+        res.status(404).json({
+          error: {
+            code: 'INVOICE_NOT_FOUND',
+            message: 'Invoice not found'
+          }
+        });
+        return;
+      }
+
+      console.error('Download invoice error:', error);
+      res.status(500).json({
+        error: {
+          code: 'DOWNLOAD_INVOICE_FAILED',
+          message: 'Failed to download invoice'
+        }
+      });
+    }
+  }
 }
\ No newline at end of file
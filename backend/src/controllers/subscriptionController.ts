@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import { SubscriptionService } from '../services/subscriptionService';
+import { saveModulePlansSchema } from '../validation/schemas';
+
+const errorStatus = (message: string): number => {
+  switch (message) {
+    case 'Module not found':
+    case 'Subscription not found':
+      return 404;
+    case 'Access denied':
+      return 403;
+    default:
+      return 400;
+  }
+};
+
+const sendError = (res: Response, code: string, message: string, status: number = errorStatus(message)): void => {
+  res.status(status).json({
+    error: {
+      code,
+      message,
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+export class SubscriptionController {
+  /**
+   * Get the active subscription plans of a module
+   */
+  static async getModulePlans(req: Request, res: Response): Promise<void> {
+    try {
+      const plans = await SubscriptionService.getPlans(req.params['id']!);
+
+      res.json({
+        success: true,
+        data: plans
+      });
+    } catch (error) {
+      console.error('Get module plans error:', error);
+      sendError(res, 'INTERNAL_ERROR', 'Failed to get module plans', 500);
+    }
+  }
+
+  /**
+   * Create or reprice the monthly and annual plans of a module (developer or admin)
+   */
+  static async saveModulePlans(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      const { error, value } = saveModulePlansSchema.validate(req.body);
+      if (error) {
+        sendError(res, 'VALIDATION_ERROR', error.details[0]?.message || 'Invalid input', 400);
+        return;
+      }
+
+      const plans = await SubscriptionService.savePlans(req.params['id']!, user.id, user.role, value.plans);
+
+      res.json({
+        success: true,
+        data: plans,
+        message: 'Module plans saved successfully'
+      });
+    } catch (error: any) {
+      console.error('Save module plans error:', error);
+      sendError(res, 'SAVE_PLANS_FAILED', error.message || 'Failed to save module plans');
+    }
+  }
+
+  /**
+   * Get the module subscriptions of the authenticated user
+   */
+  static async getSubscriptions(req: Request, res: Response): Promise<void> {
+    try {
+      const subscriptions = await SubscriptionService.getUserSubscriptions((req as any).user.id);
+
+      res.json({
+        success: true,
+        data: subscriptions
+      });
+    } catch (error) {
+      console.error('Get subscriptions error:', error);
+      sendError(res, 'INTERNAL_ERROR', 'Failed to get subscriptions', 500);
+    }
+  }
+
+  /**
+   * Cancel a subscription at the end of its paid period
+   */
+  static async cancelSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await SubscriptionService.cancelSubscription(req.params['id']!, (req as any).user.id);
+
+      res.json({
+        success: true,
+        data: subscription,
+        message: 'Subscription will not be renewed'
+      });
+    } catch (error: any) {
+      console.error('Cancel subscription error:', error);
+      sendError(res, 'CANCEL_SUBSCRIPTION_FAILED', error.message || 'Failed to cancel subscription');
+    }
+  }
+
+  /**
+   * Resume a subscription that was set to cancel
+   */
+  static async resumeSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await SubscriptionService.resumeSubscription(req.params['id']!, (req as any).user.id);
+
+      res.json({
+        success: true,
+        data: subscription,
+        message: 'Subscription resumed'
+      });
+    } catch (error: any) {
+      console.error('Resume subscription error:', error);
+      sendError(res, 'RESUME_SUBSCRIPTION_FAILED', error.message || 'Failed to resume subscription');
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { UserModel } from '../models/User';
 import { TransactionModel } from '../models/Transaction';
+import { LedgerService } from '../services/ledgerService';
+import { CurrencyService, BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../services/currencyService';
 import { updateUserSchema, transactionFilterSchema } from '../validation/schemas';
 import multer from 'multer';
 import path from 'path';
@@ -306,7 +308,7 @@ export class UserController {
     }
   }
 
-  // Get user balance
+  // Get user balance: the cached USD wallet, every currency wallet, and their total in the display currency
   static async getBalance(req: AuthRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
@@ -333,89 +335,30 @@ export class UserController {
         return;
       }
 
-      res.json({
-        success: true,
-        data: {
-          balance: user.balance,
-          currency: 'USD'
-        }
-      });
-    } catch (error) {
-      console.error('Get balance error:', error);
-      res.status(500).json({
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Internal server error',
-          timestamp: new Date().toISOString()
-        }
-      });
-    }
-  }
+      const [walletBalances, rates] = await Promise.all([
+        LedgerService.getUserBalances(userId),
+        CurrencyService.getRates()
+      ]);
 
-  // Add funds to user balance
-  static async addFunds(req: AuthRequest, res: Response): Promise<void> {
-    try {
-      const userId = req.user?.userId;
-      if (!userId) {
-        res.status(401).json({
-          error: {
-            code: 'AUTH_REQUIRED',
-            message: 'Authentication required',
-            timestamp: new Date().toISOString()
-          }
-        });
-        return;
+      const balances: Record<string, number> = {};
+      let total = 0;
+      for (const currency of SUPPORTED_CURRENCIES) {
+        balances[currency] = walletBalances[currency] || 0;
+        total += CurrencyService.convert(balances[currency]!, currency, user.display_currency, rates);
       }
 
-      const { amount, description } = req.body;
-
-      // Validate amount
-      if (!amount || typeof amount !== 'number' || amount <= 0) {
-        res.status(400).json({
-          error: {
-            code: 'INVALID_AMOUNT',
-            message: 'Amount must be a positive number',
-            timestamp: new Date().toISOString()
-          }
-        });
-        return;
-      }
-
-      // Update user balance
-      const updatedUser = await UserModel.updateBalance(userId, amount);
-      if (!updatedUser) {
-        res.status(404).json({
-          error: {
-            code: 'USER_NOT_FOUND',
-            message: 'User not found',
-            timestamp: new Date().toISOString()
-          }
-        });
-        return;
-      }
-
-      // Create transaction record
-      await TransactionModel.create({
-        user_id: userId,
-        type: 'payment',
-        amount: amount,
-        currency: 'USD',
-        description: description || 'Balance top-up',
-        metadata: {
-          source: 'manual_add_funds'
-        }
-      });
-
       res.json({
         success: true,
         data: {
-          balance: updatedUser.balance,
-          amount_added: amount
-        },
-        message: 'Funds added successfully'
+          balance: user.balance,
+          currency: BASE_CURRENCY,
+          balances,
+          display_currency: user.display_currency,
+          total_in_display_currency: Math.round(total * 100) / 100
+        }
       });
     } catch (error) {
-      console.error('Add funds error:', error);
+      console.error('Get balance error:', error);
       res.status(500).json({
         error: {
           code: 'INTERNAL_ERROR',
@@ -468,7 +411,15 @@ export class UserController {
         return;
       }
 
-      if (user.balance < amount) {
+      // Debit the balance and record the transaction through the ledger, which checks the balance under a lock
+      try {
+        await LedgerService.adjustBalance(userId, -amount, description || 'Balance deduction', {
+          source: 'manual_deduct_funds'
+        });
+      } catch (error: any) {
+        if (error.message !== 'Insufficient balance') {
+          throw error;
+        }
         res.status(400).json({
           error: {
             code: 'INSUFFICIENT_BALANCE',
@@ -478,31 +429,7 @@ export class UserController {
         });
         return;
       }
-
-      // Update user balance (deduct)
-      const updatedUser = await UserModel.updateBalance(userId, -amount);
-      if (!updatedUser) {
-        res.status(500).json({
-          error: {
-            code: 'UPDATE_FAILED',
-            message: 'Failed to update balance',
-            timestamp: new Date().toISOString()
-          }
-        });
-        return;
-      }
-
-      // Create transaction record
-      await TransactionModel.create({
-        user_id: userId,
-        type: 'withdrawal',
-        amount: amount,
-        currency: 'USD',
-        description: description || 'Balance deduction',
-        metadata: {
-          source: 'manual_deduct_funds'
-        }
-      });
+      const updatedUser = (await UserModel.findById(userId))!;
 
       res.json({
         success: true,
@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import multer from 'multer';
+import { AuthenticatedRequest } from '../middleware/authMiddleware';
+import { VerificationService, IDENTITY_DOCUMENTS_DIR } from '../services/verificationService';
+import { identityVerificationSchema } from '../validation/schemas';
+
+// Identity documents get random names, so a stored file cannot be guessed from the user id
+const storage = multer.diskStorage({
+  destination: async (_req, _file, cb) => {
+    try {
+      await fs.mkdir(IDENTITY_DOCUMENTS_DIR, { recursive: true });
+      cb(null, IDENTITY_DOCUMENTS_DIR);
+    } catch (error) {
+      cb(error as Error, '');
+    }
+  },
+  filename: (_req, file, cb) => {
+    cb(null, `${crypto.randomUUID()}${path.extname(file.originalname).toLowerCase()}`);
+  }
+});
+
+const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+  if (allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only JPEG, PNG, WebP, and PDF are allowed.'));
+  }
+};
+
+export const identityDocumentUpload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+    files: 3
+  }
+});
+
+export class VerificationController {
+  /**
+   * Get the verification level of the authenticated user and their latest identity review
+   * GET /users/verification
+   */
+  static async getStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const status = await VerificationService.getStatus(req.user!.id);
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      console.error('Get verification status error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get verification status',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
+  /**
+   * Submit identity documents (multipart field "documents", up to 3 files) for admin review
+   * POST /users/verification
+   */
+  static async submit(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const documents = files.map(file => ({
+      filename: file.filename,
+      original_name: file.originalname,
+      mime_type: file.mimetype,
+      size: file.size
+    }));
+
+    try {
+      const { error, value } = identityVerificationSchema.validate(req.body);
+      if (error) {
+        await Promise.all(files.map(file => fs.rm(file.path, { force: true })));
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0]?.message || 'Invalid input',
+            timestamp: new Date().toISOString()
+          }
+        });
+        return;
+      }
+
+      const verification = await VerificationService.submit(req.user!.id, value, documents);
+      const { documents: _stored, ...request } = verification;
+
+      res.status(201).json({
+        success: true,
+        data: request,
+        message: 'Documents submitted for review'
+      });
+    } catch (error: any) {
+      console.error('Submit verification error:', error);
+      res.status(400).json({
+        error: {
+          code: 'VERIFICATION_SUBMIT_FAILED',
+          message: error.message || 'Failed to submit documents',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+}
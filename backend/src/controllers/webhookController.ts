@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { BotModel } from '../models/Bot';
+import { ModuleDispatchService } from '../services/moduleDispatchService';
+import { TelegramWebhookService, TelegramUpdate } from '../services/telegramWebhookService';
+import { WithdrawalService } from '../services/withdrawalService';
+import { payoutProviders } from '../services/payoutProviders';
+
+export class WebhookController {
+  /**
+   * Receive an update Telegram pushed for a connected bot
+   * POST /webhooks/telegram/:botId
+   */
+  static async handleTelegramUpdate(req: Request, res: Response): Promise<void> {
+    try {
+      const { botId } = req.params;
+
+      const bot = botId ? await BotModel.findById(botId) : null;
+      if (!bot) {
+        res.status(404).json({
+          error: {
+            code: 'BOT_NOT_FOUND',
+            message: 'Bot not found',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const secretToken = req.get('X-Telegram-Bot-Api-Secret-Token');
+      if (!TelegramWebhookService.verifySecretToken(bot, secretToken)) {
+        res.status(401).json({
+          error: {
+            code: 'INVALID_WEBHOOK_SECRET',
+            message: 'Invalid webhook secret token',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const update = req.body as TelegramUpdate;
+      if (!update || typeof update.update_id !== 'number') {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_UPDATE',
+            message: 'Request body is not a Telegram update',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      // Acknowledge updates for disabled bots so Telegram stops redelivering them
+      if (bot.status !== 'active') {
+        res.json({ ok: true });
+        return;
+      }
+
+      await TelegramWebhookService.processUpdate(bot, update);
+
+      res.json({ ok: true });
+
+      // Module fan-out runs after the acknowledgement: slow or failing modules must
+      // not make Telegram redeliver the update to every module again
+      ModuleDispatchService.dispatchUpdate(bot, update).catch(error => {
+        console.error(`Failed to dispatch update ${update.update_id} for bot ${bot.id}:`, error);
+      });
+    } catch (error: any) {
+      console.error('Error processing Telegram update:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to process update',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Receive a PayPal Payouts webhook event reporting on a withdrawal payout
+   * POST /webhooks/paypal
+   */
+  static async handlePayPalEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const event = req.body;
+      const paypal = payoutProviders.paypal;
+
+      if (!await paypal.verifyWebhook(req.headers as Record<string, string | undefined>, event)) {
+        res.status(401).json({
+          error: {
+            code: 'INVALID_WEBHOOK_SIGNATURE',
+            message: 'Invalid webhook signature',
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const update = paypal.parseWebhookEvent(event);
+      if (update) {
+        const { referenceId, ...status } = update;
+        await WithdrawalService.handlePayoutUpdate('paypal', referenceId, { ...status, response: event.resource });
+      }
+
+      res.json({ received: true });
+    } catch (error: any) {
+      // PayPal redelivers events that were not acknowledged
+      console.error('Error processing PayPal webhook:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to process webhook',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { WithdrawalService, WithdrawalRequest } from '../services/withdrawalService';
 import { AuthenticatedRequest } from '../middleware/authMiddleware';
+import { BASE_CURRENCY, isSupportedCurrency } from '../services/currencyService';
 
 export class WithdrawalController {
   /**
@@ -32,7 +33,7 @@ export class WithdrawalController {
   static async checkWithdrawalEligibility(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const { amount } = req.body;
+      const { amount, currency = BASE_CURRENCY } = req.body;
 
       if (!amount || amount <= 0) {
         res.status(400).json({
@@ -44,7 +45,17 @@ export class WithdrawalController {
         return;
       }
 
-      const eligibility = await WithdrawalService.canWithdraw(userId, amount);
+      if (!isSupportedCurrency(currency)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_CURRENCY',
+            message: 'Currency is not supported'
+          }
+        });
+        return;
+      }
+
+      const eligibility = await WithdrawalService.canWithdraw(userId, amount, currency);
 
       res.json({
         success: true,
@@ -67,7 +78,7 @@ export class WithdrawalController {
   static async createWithdrawalRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const { amount, method, details } = req.body;
+      const { amount, currency = BASE_CURRENCY, method, details } = req.body;
 
       // Validate required fields
       if (!amount || !method || !details) {
@@ -92,6 +103,16 @@ export class WithdrawalController {
         return;
       }
 
+      if (!isSupportedCurrency(currency)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_CURRENCY',
+            message: 'Currency is not supported'
+          }
+        });
+        return;
+      }
+
       // Validate method-specific details
       if (method === 'bank_transfer' && (!details.bankAccount || !details.bankAccount.accountNumber)) {
         res.status(400).json({
@@ -126,6 +147,7 @@ export class WithdrawalController {
       const withdrawalRequest: WithdrawalRequest = {
         userId,
         amount,
+        currency,
         method,
         details
       };
@@ -137,6 +159,7 @@ export class WithdrawalController {
         data: {
           transaction_id: transaction.id,
           amount: transaction.amount,
+          currency: transaction.currency,
           status: transaction.status,
           created_at: transaction.created_at
         }
@@ -301,7 +324,7 @@ export class WithdrawalController {
         return;
       }
 
-      const transaction = await WithdrawalService.processWithdrawal(id, action, adminNote);
+      const transaction = await WithdrawalService.processWithdrawal(id, action, adminNote, user.id);
 
       res.json({
         success: true,
@@ -0,0 +1,8 @@
+-- Migration: 013_add_bot_webhook_secrets
+-- Description: Store a per-bot secret token used to authenticate inbound Telegram webhook updates
+-- Created: 2025-01-15
+
+ALTER TABLE bots
+ADD COLUMN IF NOT EXISTS webhook_secret VARCHAR(255);
+
+COMMENT ON COLUMN bots.webhook_secret IS 'Secret token sent by Telegram in the X-Telegram-Bot-Api-Secret-Token header';
@@ -0,0 +1,33 @@
+-- Migration: 014_add_module_api
+-- Description: Per-activation key/value state and audit log for the module developer API
+-- Created: 2025-01-15
+
+-- Small key/value store modules can use to persist state per bot activation
+CREATE TABLE module_activation_state (
+    activation_id UUID NOT NULL REFERENCES bot_module_activations(id) ON DELETE CASCADE,
+    key VARCHAR(128) NOT NULL,
+    value JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (activation_id, key)
+);
+
+-- Every call made against the module API, including rejected ones
+CREATE TABLE module_api_audit_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    activation_id UUID REFERENCES bot_module_activations(id) ON DELETE SET NULL,
+    method VARCHAR(10) NOT NULL,
+    path VARCHAR(500) NOT NULL,
+    status_code INTEGER NOT NULL,
+    ip_address INET,
+    duration_ms INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_module_api_audit_logs_activation_id ON module_api_audit_logs(activation_id);
+CREATE INDEX idx_module_api_audit_logs_created_at ON module_api_audit_logs(created_at);
+
+CREATE TRIGGER update_module_activation_state_updated_at
+    BEFORE UPDATE ON module_activation_state
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,28 @@
+-- Migration: 015_add_broadcast_deliveries
+-- Description: Per-recipient delivery log for broadcasts
+-- Created: 2025-01-16
+
+CREATE TABLE broadcast_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    broadcast_id UUID NOT NULL REFERENCES broadcast_notifications(id) ON DELETE CASCADE,
+    bot_id UUID NOT NULL REFERENCES bots(id) ON DELETE CASCADE,
+    chat_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'blocked')),
+    telegram_message_id BIGINT,
+    error_code INTEGER,
+    error_description TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    delivered_at TIMESTAMP WITH TIME ZONE, -- time of the final attempt, successful or not
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(broadcast_id, bot_id, chat_id)
+);
+
+CREATE INDEX idx_broadcast_deliveries_broadcast_status ON broadcast_deliveries(broadcast_id, status);
+CREATE INDEX idx_broadcast_deliveries_bot_chat ON broadcast_deliveries(bot_id, chat_id);
+
+CREATE TRIGGER update_broadcast_deliveries_updated_at
+    BEFORE UPDATE ON broadcast_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,24 @@
+-- Migration: 016_add_broadcast_segments
+-- Description: Saved subscriber segments used as dynamic broadcast audiences
+-- Created: 2025-01-17
+
+CREATE TABLE broadcast_segments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    bot_ids UUID[] NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}', -- conditions over bot_subscribers, resolved when a broadcast is sent
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_broadcast_segments_user_id ON broadcast_segments(user_id);
+
+-- Segment filters match on subscriber metadata (tags, language_code)
+CREATE INDEX idx_bot_subscribers_metadata ON bot_subscribers USING GIN (metadata);
+
+CREATE TRIGGER update_broadcast_segments_updated_at
+    BEFORE UPDATE ON broadcast_segments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
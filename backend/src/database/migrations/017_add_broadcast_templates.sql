@@ -0,0 +1,44 @@
+-- Migration: 017_add_broadcast_templates
+-- Description: Saved broadcast message templates; rows without an owner are built-in templates shown to everyone
+-- Created: 2025-01-18
+
+CREATE TABLE broadcast_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    category VARCHAR(100) NOT NULL DEFAULT 'custom',
+    content TEXT NOT NULL,
+    parse_mode VARCHAR(20) CHECK (parse_mode IN ('HTML', 'Markdown', 'MarkdownV2')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_broadcast_templates_user_id ON broadcast_templates(user_id);
+
+CREATE TRIGGER update_broadcast_templates_updated_at
+    BEFORE UPDATE ON broadcast_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Built-in templates, previously a static list in the broadcast controller
+INSERT INTO broadcast_templates (name, category, content) VALUES
+(
+    'Welcome Message',
+    'onboarding',
+    E'Welcome to our service, {{first_name|friend}}! 🎉\n\nWe''re excited to have you on board. Here''s what you can do:\n\n• Feature 1\n• Feature 2\n• Feature 3\n\nGet started now!'
+),
+(
+    'General Announcement',
+    'updates',
+    E'📢 Important Announcement\n\nHi {{first_name|there}},\n\n[Your announcement here]\n\nThank you for your attention!'
+),
+(
+    'Promotional Message',
+    'marketing',
+    E'🔥 Special Offer for {{first_name|you}}!\n\n[Offer details]\n\n⏰ Limited time only!\n\nDon''t miss out!'
+),
+(
+    'Maintenance Notice',
+    'technical',
+    E'🔧 Scheduled Maintenance\n\nWe will be performing maintenance on [date] from [time] to [time].\n\nDuring this time, some features may be unavailable.\n\nThank you for your patience!'
+);
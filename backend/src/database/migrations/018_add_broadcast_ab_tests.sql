@@ -0,0 +1,24 @@
+-- Migration: 018_add_broadcast_ab_tests
+-- Description: A/B test variants on broadcast deliveries and click tracking for broadcast messages
+-- Created: 2025-01-19
+
+-- Variant a recipient was assigned to; NULL for plain broadcasts and for A/B recipients still waiting for the winner
+ALTER TABLE broadcast_deliveries ADD COLUMN variant VARCHAR(8);
+
+CREATE INDEX idx_broadcast_deliveries_broadcast_variant ON broadcast_deliveries(broadcast_id, variant);
+-- Callback queries are matched back to the broadcast message they were pressed on
+CREATE INDEX idx_broadcast_deliveries_message ON broadcast_deliveries(bot_id, chat_id, telegram_message_id)
+    WHERE telegram_message_id IS NOT NULL;
+
+CREATE TABLE broadcast_clicks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    broadcast_id UUID NOT NULL REFERENCES broadcast_notifications(id) ON DELETE CASCADE,
+    delivery_id UUID NOT NULL REFERENCES broadcast_deliveries(id) ON DELETE CASCADE,
+    variant VARCHAR(8),
+    source VARCHAR(20) NOT NULL CHECK (source IN ('callback')),
+    button_data TEXT,
+    clicked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_broadcast_clicks_broadcast_variant ON broadcast_clicks(broadcast_id, variant);
+CREATE INDEX idx_broadcast_clicks_delivery_id ON broadcast_clicks(delivery_id);
@@ -0,0 +1,19 @@
+-- Migration: 019_add_broadcast_links
+-- Description: Tracked links in broadcast messages, with link clicks recorded next to button presses
+-- Created: 2025-01-20
+
+-- Every distinct URL of a broadcast; messages link to the platform redirect endpoint instead of the URL itself
+CREATE TABLE broadcast_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    broadcast_id UUID NOT NULL REFERENCES broadcast_notifications(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(broadcast_id, url)
+);
+
+ALTER TABLE broadcast_clicks ADD COLUMN link_id UUID REFERENCES broadcast_links(id) ON DELETE SET NULL;
+
+ALTER TABLE broadcast_clicks DROP CONSTRAINT broadcast_clicks_source_check;
+ALTER TABLE broadcast_clicks ADD CONSTRAINT broadcast_clicks_source_check CHECK (source IN ('callback', 'link'));
+
+CREATE INDEX idx_broadcast_clicks_link_id ON broadcast_clicks(link_id);
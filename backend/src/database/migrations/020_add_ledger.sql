@@ -0,0 +1,110 @@
+-- Migration: 020_add_ledger
+-- Description: Double-entry ledger behind user balances, with reconciliation of the cached users.balance
+-- Created: 2025-01-21
+
+-- Balance adjustments made by admins or by users themselves
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'adjustment';
+
+-- The check added in 011 lists the transaction types too; compared as text because a new enum value
+-- cannot be used in the transaction that adds it
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+    CHECK (type::text IN ('payment', 'withdrawal', 'commission', 'refund', 'admin_credit', 'admin_debit', 'adjustment'));
+
+-- Assets grow with debits; liabilities, equity and revenue grow with credits
+CREATE TABLE ledger_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(100) UNIQUE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('asset', 'liability', 'equity', 'revenue')),
+    user_id UUID UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    currency VARCHAR(3) DEFAULT 'USD',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO ledger_accounts (code, name, type) VALUES
+    ('stripe_clearing', 'Stripe clearing', 'asset'),
+    ('withdrawal_payouts', 'Withdrawal payouts in flight', 'liability'),
+    ('developer_payables', 'Developer payables', 'liability'),
+    ('platform_revenue', 'Platform revenue', 'revenue'),
+    ('platform_equity', 'Opening balances and manual adjustments', 'equity');
+
+CREATE TABLE ledger_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    description TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE ledger_postings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id UUID NOT NULL REFERENCES ledger_entries(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+    direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX idx_ledger_postings_entry_id ON ledger_postings(entry_id);
+CREATE INDEX idx_ledger_postings_account_id ON ledger_postings(account_id);
+
+-- Checked at commit, once every posting of the entry has been written
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+    difference DECIMAL(12,2);
+BEGIN
+    SELECT COALESCE(SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END), 0)
+    INTO difference
+    FROM ledger_postings
+    WHERE entry_id = NEW.entry_id;
+
+    IF difference <> 0 THEN
+        RAISE EXCEPTION 'Ledger entry % is unbalanced by %', NEW.entry_id, difference;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE CONSTRAINT TRIGGER ledger_postings_balanced
+    AFTER INSERT ON ledger_postings
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION check_ledger_entry_balanced();
+
+-- Users whose cached balance disagreed with the ledger when the reconciliation job ran
+CREATE TABLE ledger_discrepancies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    cached_balance DECIMAL(12,2) NOT NULL,
+    ledger_balance DECIMAL(12,2) NOT NULL,
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one open discrepancy per user
+CREATE UNIQUE INDEX idx_ledger_discrepancies_open ON ledger_discrepancies(user_id) WHERE resolved_at IS NULL;
+
+-- Carry existing balances over as opening entries so the ledger starts out agreeing with users.balance
+INSERT INTO ledger_accounts (code, name, type, user_id)
+SELECT 'user:' || id, 'User wallet ' || email, 'liability', id
+FROM users;
+
+CREATE TEMPORARY TABLE opening_balances ON COMMIT DROP AS
+SELECT uuid_generate_v4() AS entry_id, a.id AS account_id, u.balance
+FROM users u
+JOIN ledger_accounts a ON a.user_id = u.id
+WHERE u.balance <> 0;
+
+INSERT INTO ledger_entries (id, description)
+SELECT entry_id, 'Opening balance'
+FROM opening_balances;
+
+INSERT INTO ledger_postings (entry_id, account_id, direction, amount)
+SELECT entry_id, account_id, CASE WHEN balance > 0 THEN 'credit' ELSE 'debit' END, ABS(balance)
+FROM opening_balances
+UNION ALL
+SELECT entry_id, (SELECT id FROM ledger_accounts WHERE code = 'platform_equity'),
+       CASE WHEN balance > 0 THEN 'debit' ELSE 'credit' END, ABS(balance)
+FROM opening_balances;
@@ -0,0 +1,8 @@
+-- Migration: 021_add_revenue_split
+-- Description: Look up the commission legs a payment was split into
+-- Created: 2025-01-22
+
+-- Developer, bot owner and referral commissions point back at their payment through metadata
+CREATE INDEX idx_transactions_original_transaction_id
+    ON transactions ((metadata->>'original_transaction_id'))
+    WHERE type = 'commission';
@@ -0,0 +1,50 @@
+-- Migration: 022_add_module_subscriptions
+-- Description: Monthly and annual module plans, renewed from the wallet balance with a grace period on failure
+-- Created: 2025-01-23
+
+-- Reminders sent while a failed renewal is being retried
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'subscription_renewal_failed';
+
+CREATE TABLE module_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    billing_interval VARCHAR(10) NOT NULL CHECK (billing_interval IN ('month', 'year')),
+    price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(module_id, billing_interval)
+);
+
+-- One subscription per activation; the activation's expires_at follows the paid period, or the grace period while past due
+CREATE TABLE module_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    activation_id UUID UNIQUE NOT NULL REFERENCES bot_module_activations(id) ON DELETE CASCADE,
+    plan_id UUID NOT NULL REFERENCES module_plans(id),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'past_due', 'cancelled', 'expired')),
+    markup_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    failed_renewal_attempts INTEGER NOT NULL DEFAULT 0,
+    next_renewal_attempt_at TIMESTAMP WITH TIME ZONE,
+    grace_period_ends_at TIMESTAMP WITH TIME ZONE,
+    last_renewal_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_module_plans_module_id ON module_plans(module_id);
+CREATE INDEX idx_module_subscriptions_user_id ON module_subscriptions(user_id);
+CREATE INDEX idx_module_subscriptions_renewal ON module_subscriptions(status, current_period_end);
+
+CREATE TRIGGER update_module_plans_updated_at
+    BEFORE UPDATE ON module_plans
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_module_subscriptions_updated_at
+    BEFORE UPDATE ON module_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
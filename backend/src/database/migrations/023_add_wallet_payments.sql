@@ -0,0 +1,16 @@
+-- Migration: 023_add_wallet_payments
+-- Description: Module payments from the wallet balance, mixed wallet and card payments, and wallet top-ups
+-- Created: 2025-01-24
+
+-- Card payments that credit the payer's own wallet
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'top_up';
+
+-- Top-ups have to pass the type check as well; compared as text for the same reason as in 020
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+    CHECK (type::text IN ('payment', 'withdrawal', 'commission', 'refund', 'admin_credit', 'admin_debit', 'adjustment', 'top_up'));
+
+-- The wallet share of a mixed payment is held here until the card share succeeds or fails
+INSERT INTO ledger_accounts (code, name, type) VALUES
+    ('wallet_holds', 'Wallet funds held for pending card payments', 'liability')
+ON CONFLICT (code) DO NOTHING;
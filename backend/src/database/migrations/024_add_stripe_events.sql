@@ -0,0 +1,40 @@
+-- Migration: 024_add_stripe_events
+-- Description: Indexed payment intent lookup and idempotent, replayable processing of Stripe webhook events
+-- Created: 2025-01-25
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS stripe_payment_intent_id VARCHAR(255);
+
+UPDATE transactions
+SET stripe_payment_intent_id = metadata->>'stripe_payment_intent_id'
+WHERE metadata->>'stripe_payment_intent_id' IS NOT NULL
+  AND type IN ('payment', 'top_up');
+
+-- Refunds keep the payment intent of their payment in metadata only, so each intent maps to one transaction
+CREATE UNIQUE INDEX idx_transactions_stripe_payment_intent_id
+    ON transactions(stripe_payment_intent_id)
+    WHERE stripe_payment_intent_id IS NOT NULL;
+
+-- Refunds of a payment are looked up when Stripe reports a refund made outside the platform
+CREATE INDEX idx_transactions_refunded_payment
+    ON transactions ((metadata->>'original_transaction_id'))
+    WHERE type = 'refund';
+
+-- Every webhook event that has been received; an event is processed once and failed ones can be replayed
+CREATE TABLE stripe_events (
+    id VARCHAR(255) PRIMARY KEY,
+    type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    last_error TEXT,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_stripe_events_failed ON stripe_events(received_at) WHERE status = 'failed';
+
+CREATE TRIGGER update_stripe_events_updated_at
+    BEFORE UPDATE ON stripe_events
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,37 @@
+-- Migration: 025_add_payment_disputes
+-- Description: Chargebacks opened against module payments, worked by admins until Stripe closes them
+-- Created: 2025-01-26
+
+-- A dispute freezes the module it paid for and holds the commissions paid out of it until it is closed
+CREATE TABLE payment_disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    stripe_dispute_id VARCHAR(255) UNIQUE NOT NULL,
+    stripe_charge_id VARCHAR(255),
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) DEFAULT 'USD',
+    reason VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'won', 'lost')),
+    stripe_status VARCHAR(50),
+    evidence JSONB NOT NULL DEFAULT '{}',
+    evidence_due_by TIMESTAMP WITH TIME ZONE,
+    evidence_submitted_at TIMESTAMP WITH TIME ZONE,
+    assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+    notes TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_payment_disputes_transaction_id ON payment_disputes(transaction_id);
+CREATE INDEX idx_payment_disputes_status ON payment_disputes(status, evidence_due_by);
+
+-- Commission holds of a dispute are looked up when it is closed
+CREATE INDEX idx_transactions_dispute_id
+    ON transactions ((metadata->>'dispute_id'))
+    WHERE metadata->>'dispute_id' IS NOT NULL;
+
+CREATE TRIGGER update_payment_disputes_updated_at
+    BEFORE UPDATE ON payment_disputes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
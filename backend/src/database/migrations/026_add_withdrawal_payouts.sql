@@ -0,0 +1,29 @@
+-- Migration: 026_add_withdrawal_payouts
+-- Description: Payouts sent through a payout provider when an admin approves a withdrawal
+-- Created: 2025-01-27
+
+-- One payout per withdrawal; the withdrawal stays pending while its payout is processing
+CREATE TABLE payouts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID UNIQUE NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    provider VARCHAR(30) NOT NULL CHECK (provider IN ('stripe_connect', 'paypal', 'manual', 'fake')),
+    status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'paid', 'failed')),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) DEFAULT 'USD',
+    reference_id VARCHAR(255),
+    failure_reason TEXT,
+    provider_response JSONB NOT NULL DEFAULT '{}',
+    approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Provider callbacks find their payout by the provider's reference id
+CREATE UNIQUE INDEX idx_payouts_provider_reference ON payouts(provider, reference_id) WHERE reference_id IS NOT NULL;
+CREATE INDEX idx_payouts_status ON payouts(status);
+
+CREATE TRIGGER update_payouts_updated_at
+    BEFORE UPDATE ON payouts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,40 @@
+-- Migration: 027_add_verification_levels
+-- Description: Verification levels on users and admin review of submitted identity documents
+-- Created: 2025-01-28
+
+-- Tells users the outcome of their identity review
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'verification_reviewed';
+
+-- Levels only go up: email confirmation, an approved identity document, an approved business registration
+CREATE TYPE verification_level AS ENUM ('unverified', 'email_verified', 'identity_verified', 'business');
+
+ALTER TABLE users ADD COLUMN verification_level verification_level NOT NULL DEFAULT 'unverified';
+
+UPDATE users SET verification_level = 'email_verified' WHERE email_verified = true;
+
+-- Documents are stored outside the public uploads directory and only served to admins
+CREATE TABLE identity_verifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    requested_level verification_level NOT NULL CHECK (requested_level IN ('identity_verified', 'business')),
+    document_type VARCHAR(30) NOT NULL CHECK (document_type IN ('passport', 'national_id', 'driver_license', 'business_registration')),
+    full_name VARCHAR(200) NOT NULL,
+    country VARCHAR(2) NOT NULL,
+    business_name VARCHAR(200),
+    documents JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    review_notes TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- At most one request per user waits for review
+CREATE UNIQUE INDEX idx_identity_verifications_pending ON identity_verifications(user_id) WHERE status = 'pending';
+CREATE INDEX idx_identity_verifications_status ON identity_verifications(status, created_at);
+
+CREATE TRIGGER update_identity_verifications_updated_at
+    BEFORE UPDATE ON identity_verifications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
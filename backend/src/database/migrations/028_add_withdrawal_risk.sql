@@ -0,0 +1,35 @@
+-- Migration: 028_add_withdrawal_risk
+-- Description: Score withdrawal requests for fraud risk and hold the risky ones for review
+-- Created: 2025-01-29
+
+-- Password resets leave no other trace once their token has been used
+ALTER TABLE users ADD COLUMN password_changed_at TIMESTAMP WITH TIME ZONE;
+
+-- Withdrawals are matched to earlier ones paid out to the same destination
+UPDATE transactions
+SET metadata = metadata || jsonb_build_object('payout_destination',
+    CASE metadata->>'withdrawal_method'
+        WHEN 'paypal' THEN 'paypal:' || lower(metadata#>>'{withdrawal_details,paypal,email}')
+        WHEN 'crypto' THEN 'crypto:' || upper(metadata#>>'{withdrawal_details,crypto,currency}')
+            || ':' || (metadata#>>'{withdrawal_details,crypto,address}')
+        WHEN 'bank_transfer' THEN 'bank_transfer:' || (metadata#>>'{withdrawal_details,bankAccount,routingNumber}')
+            || ':' || (metadata#>>'{withdrawal_details,bankAccount,accountNumber}')
+    END)
+WHERE type = 'withdrawal' AND metadata ? 'withdrawal_method' AND NOT metadata ? 'payout_destination';
+
+CREATE INDEX idx_transactions_payout_destination
+    ON transactions ((metadata->>'payout_destination'))
+    WHERE type = 'withdrawal';
+
+-- The risk score of a withdrawal when it was requested; kept apart from the transaction so the
+-- signals are never shown to the user
+CREATE TABLE withdrawal_risk_assessments (
+    transaction_id UUID PRIMARY KEY REFERENCES transactions(id) ON DELETE CASCADE,
+    score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+    level VARCHAR(10) NOT NULL CHECK (level IN ('low', 'medium', 'high')),
+    reasons JSONB NOT NULL DEFAULT '[]',
+    held BOOLEAN NOT NULL DEFAULT FALSE,
+    released_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,104 @@
+-- Migration: 029_add_multi_currency
+-- Description: Module prices, wallets and transactions in USD, EUR and RUB, with the FX rates of each transaction kept for reporting
+-- Created: 2025-01-30
+
+-- Units of each currency per US dollar; the latest row of a currency is its current rate
+CREATE TABLE fx_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    currency VARCHAR(3) NOT NULL CHECK (currency IN ('USD', 'EUR', 'RUB')),
+    rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+    source VARCHAR(50) NOT NULL DEFAULT 'manual',
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_fx_rates_currency_fetched_at ON fx_rates(currency, fetched_at DESC);
+
+-- Used until the first refresh from the rates provider
+INSERT INTO fx_rates (currency, rate, source) VALUES
+    ('USD', 1, 'seed'),
+    ('EUR', 0.92, 'seed'),
+    ('RUB', 90, 'seed');
+
+CREATE OR REPLACE FUNCTION latest_fx_rates()
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_object_agg(currency, rate), '{}'::jsonb)
+    FROM (
+        SELECT DISTINCT ON (currency) currency, rate
+        FROM fx_rates
+        ORDER BY currency, fetched_at DESC
+    ) latest
+$$ LANGUAGE sql STABLE;
+
+-- Converts with the rates of a snapshot, falling back to the current rate of a currency it does not have
+CREATE OR REPLACE FUNCTION convert_currency(amount NUMERIC, from_currency TEXT, rates JSONB, to_currency TEXT)
+RETURNS NUMERIC AS $$
+    SELECT CASE
+        WHEN from_currency = to_currency THEN amount
+        ELSE amount
+            / COALESCE((rates->>from_currency)::numeric, (latest_fx_rates()->>from_currency)::numeric)
+            * COALESCE((rates->>to_currency)::numeric, (latest_fx_rates()->>to_currency)::numeric)
+    END
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE modules ADD COLUMN currency VARCHAR(3) NOT NULL DEFAULT 'USD'
+    CHECK (currency IN ('USD', 'EUR', 'RUB'));
+
+-- Amounts in the dashboard and analytics are shown converted to this currency
+ALTER TABLE users ADD COLUMN display_currency VARCHAR(3) NOT NULL DEFAULT 'USD'
+    CHECK (display_currency IN ('USD', 'EUR', 'RUB'));
+
+-- The rates in effect when a transaction was created, so reports convert it at those rates later
+ALTER TABLE transactions ADD COLUMN fx_rates JSONB;
+
+UPDATE transactions SET fx_rates = latest_fx_rates() WHERE fx_rates IS NULL;
+
+CREATE OR REPLACE FUNCTION set_transaction_fx_rates()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.fx_rates IS NULL THEN
+        NEW.fx_rates := latest_fx_rates();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_transaction_fx_rates
+    BEFORE INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION set_transaction_fx_rates();
+
+-- A user has a wallet per currency: user:{userId} in USD, user:{userId}:{currency} in the others
+ALTER TABLE ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_user_id_key;
+UPDATE ledger_accounts SET currency = 'USD' WHERE currency IS NULL;
+ALTER TABLE ledger_accounts ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE ledger_accounts ADD CONSTRAINT ledger_accounts_user_id_currency_key UNIQUE (user_id, currency);
+
+-- System accounts in the other currencies use {code}:{currency}
+INSERT INTO ledger_accounts (code, name, type, currency)
+SELECT a.code || ':' || c.currency, a.name || ' (' || c.currency || ')', a.type, c.currency
+FROM ledger_accounts a
+CROSS JOIN (VALUES ('EUR'), ('RUB')) AS c(currency)
+WHERE a.user_id IS NULL AND a.currency = 'USD'
+ON CONFLICT (code) DO NOTHING;
+
+-- Debits must equal credits in every currency of the entry
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+    unbalanced RECORD;
+BEGIN
+    SELECT a.currency, SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END) AS difference
+    INTO unbalanced
+    FROM ledger_postings p
+    JOIN ledger_accounts a ON a.id = p.account_id
+    WHERE p.entry_id = NEW.entry_id
+    GROUP BY a.currency
+    HAVING SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END) <> 0
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Ledger entry % is unbalanced by % %', NEW.entry_id, unbalanced.difference, unbalanced.currency;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
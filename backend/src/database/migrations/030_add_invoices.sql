@@ -0,0 +1,34 @@
+-- Migration: 030_add_invoices
+-- Description: Numbered invoices, credit notes and withdrawal receipts issued for completed transactions
+-- Created: 2025-01-31
+
+-- Numbers run per document type and calendar year, without gaps: INV-2025-000001, CN-2025-000001, ...
+CREATE TABLE invoice_counters (
+    document_type VARCHAR(20) NOT NULL,
+    year INTEGER NOT NULL,
+    last_number INTEGER NOT NULL,
+    PRIMARY KEY (document_type, year)
+);
+
+-- Everything printed on the document is kept, so the PDF can be rendered again exactly as issued
+CREATE TABLE invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    number VARCHAR(30) NOT NULL UNIQUE,
+    document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('invoice', 'credit_note', 'withdrawal_receipt')),
+    transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE RESTRICT,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    subtotal DECIMAL(10,2) NOT NULL,
+    tax_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+    total DECIMAL(10,2) NOT NULL,
+    line_items JSONB NOT NULL DEFAULT '[]',
+    tax_lines JSONB NOT NULL DEFAULT '[]',
+    seller JSONB NOT NULL,
+    buyer JSONB NOT NULL,
+    -- Set once the PDF has been written to storage
+    file_name VARCHAR(100),
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_invoices_user_id ON invoices(user_id, issued_at DESC);
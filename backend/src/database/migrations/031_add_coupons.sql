@@ -0,0 +1,44 @@
+-- Migration: 031_add_coupons
+-- Description: Coupon codes for module purchases, created by developers for their modules and by admins for any module or all of them
+-- Created: 2025-02-01
+
+CREATE TABLE coupons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Stored upper case; codes are matched case-insensitively
+    code VARCHAR(50) NOT NULL UNIQUE,
+    discount_type VARCHAR(10) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    -- Currency of a fixed discount; converted at current rates for modules priced in another one
+    currency VARCHAR(3) CHECK (currency IN ('USD', 'EUR', 'RUB')),
+    -- NULL makes the coupon valid for every module
+    module_id UUID REFERENCES modules(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    max_redemptions_per_user INTEGER NOT NULL DEFAULT 1 CHECK (max_redemptions_per_user > 0),
+    first_purchase_only BOOLEAN NOT NULL DEFAULT false,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (discount_type = 'percentage' AND discount_value < 100 OR discount_type = 'fixed' AND currency IS NOT NULL)
+);
+
+-- One row per payment the coupon was applied to; payments that fail or are cancelled stop counting towards the limits
+CREATE TABLE coupon_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+    discount_amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_coupons_created_by ON coupons(created_by);
+CREATE INDEX idx_coupons_module_id ON coupons(module_id);
+CREATE INDEX idx_coupon_redemptions_coupon_id ON coupon_redemptions(coupon_id, user_id);
+
+CREATE TRIGGER update_coupons_updated_at
+    BEFORE UPDATE ON coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,23 @@
+-- Migration: 032_add_session_revocation
+-- Description: Refresh tokens bound to user_sessions rows, rotated on every refresh and revocable per session
+-- Created: 2025-02-02
+
+-- session_token holds the SHA-256 of the session's current refresh token; a rotated-out token presented again
+-- revokes the session. revoked_reason is one of logout, revoked, logout_all, token_reuse, password_reset.
+ALTER TABLE user_sessions
+    ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS revoked_reason VARCHAR(30);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON user_sessions(user_id, last_activity DESC) WHERE revoked_at IS NULL;
+
+-- Revoking a session is not activity on it
+CREATE OR REPLACE FUNCTION update_user_session_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.revoked_at IS NOT DISTINCT FROM OLD.revoked_at THEN
+        NEW.last_activity = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,10 @@
+-- Migration: 033_add_user_suspension
+-- Description: Reason and audit fields for suspended accounts
+-- Created: 2025-02-03
+
+-- users.status already exists (011); a suspension now records why, when and by whom. The reason is shown
+-- to the suspended user, whose sessions are revoked with revoked_reason 'suspended'.
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS suspension_reason TEXT,
+    ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS suspended_by UUID REFERENCES users(id) ON DELETE SET NULL;
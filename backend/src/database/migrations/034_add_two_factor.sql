@@ -0,0 +1,31 @@
+-- Migration: 034_add_two_factor
+-- Description: TOTP two-factor authentication with single-use recovery codes
+-- Created: 2025-02-04
+
+-- The secret is stored encrypted (AES-256-GCM). A row without enabled_at is an enrolment the user has not
+-- confirmed with a code yet. last_used_step is the 30-second window of the last accepted code, so a code
+-- cannot be replayed within its window.
+CREATE TABLE user_two_factor (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    secret_encrypted TEXT NOT NULL,
+    enabled_at TIMESTAMP WITH TIME ZONE,
+    last_used_step BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_user_two_factor_updated_at
+    BEFORE UPDATE ON user_two_factor
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Only SHA-256 hashes of the recovery codes are kept; each one can be used once
+CREATE TABLE two_factor_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_two_factor_recovery_codes_user_id ON two_factor_recovery_codes(user_id) WHERE used_at IS NULL;
@@ -13,12 +13,17 @@ import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import botRoutes from './routes/botRoutes';
 import moduleRoutes from './routes/moduleRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import moduleApiRoutes from './routes/moduleApiRoutes';
+import linkRoutes from './routes/linkRoutes';
+import subscriptionRoutes from './routes/subscriptionRoutes';
+import couponRoutes from './routes/couponRoutes';
 // import paymentRoutes from './routes/paymentRoutes';
 // import withdrawalRoutes from './routes/withdrawalRoutes';
 // import referralRoutes from './routes/referralRoutes';
 // import analyticsRoutes from './routes/analyticsRoutes';
 // import notificationRoutes from './routes/notificationRoutes';
-// import broadcastRoutes from './routes/broadcastRoutes';
+import broadcastRoutes from './routes/broadcastRoutes';
 // import subscriberRoutes from './routes/subscriberRoutes';
 // import supportRoutes from './routes/supportRoutes';
 // import feedbackRoutes from './routes/feedbackRoutes';
@@ -57,6 +62,15 @@ app.use(cors({
 // app.use(metricsMiddleware);
 // app.use(requestLoggingMiddleware);
 
+// Telegram webhooks are mounted before the IP rate limiter: updates for every bot arrive from Telegram's servers
+app.use('/api/webhooks', webhookRoutes);
+
+// Module developer API is rate limited per activation key rather than per IP, apart from invalid keys
+app.use('/api/module-api/v1', moduleApiRoutes);
+
+// Tracked broadcast links are opened by many recipients at once, often behind the same mobile carrier NAT
+app.use('/api/r', linkRoutes);
+
 // Rate limiting with logging
 app.use(limiter);
 // app.use(rateLimitLoggingMiddleware);
@@ -88,12 +102,14 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/bots', botRoutes);
 app.use('/api/modules', moduleRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/coupons', couponRoutes);
 // app.use('/api/payments', paymentRoutes);
 // app.use('/api/withdrawals', withdrawalRoutes);
 // app.use('/api/referrals', referralRoutes);
 // app.use('/api/analytics', analyticsRoutes);
 // app.use('/api/notifications', notificationRoutes);
-// app.use('/api/broadcasts', broadcastRoutes);
+app.use('/api/broadcasts', broadcastRoutes);
 // app.use('/api/subscribers', subscriberRoutes);
 // app.use('/api/support', supportRoutes);
 // app.use('/api/feedback', feedbackRoutes);
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { UserModel } from '../models/User';
+import { UserSessionModel } from '../models/UserSession';
+import { SuspensionService } from '../services/suspensionService';
+import { TwoFactorService } from '../services/twoFactorService';
 
 const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key';
 
@@ -9,6 +12,8 @@ export interface AuthenticatedRequest extends Request {
     id: string;
     email: string;
     role: string;
+    // Session the access token was issued for
+    sessionId?: string;
   };
 }
 
@@ -35,6 +40,18 @@ export const authenticateToken = async (
 
     // Verify token
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+
+    // Two-factor challenge tokens are signed with the same secret but only get a login finished
+    if (decoded.purpose) {
+      res.status(401).json({
+        error: {
+          code: 'INVALID_TOKEN',
+          message: 'Invalid access token',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
     
     // Check if user still exists
     const user = await UserModel.findById(decoded.userId);
@@ -49,11 +66,49 @@ export const authenticateToken = async (
       return;
     }
 
+    // A suspension takes effect at once, not when the token expires
+    if (SuspensionService.isSuspended(user)) {
+      res.status(403).json({
+        error: {
+          code: 'ACCOUNT_SUSPENDED',
+          message: 'Account is suspended',
+          details: SuspensionService.getDetails(user),
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    // Access tokens stop working with the session they were issued for
+    if (decoded.sid && !(await UserSessionModel.isActive(decoded.sid))) {
+      res.status(401).json({
+        error: {
+          code: 'SESSION_REVOKED',
+          message: 'Session has been revoked',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    // Sessions opened before two-factor became mandatory for the role end here too
+    if (TwoFactorService.isRequiredForRole(user.role) && !(await TwoFactorService.isEnabled(user.id))) {
+      res.status(403).json({
+        error: {
+          code: 'TWO_FACTOR_SETUP_REQUIRED',
+          message: 'Two-factor authentication has to be set up for this account',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
     // Add user info to request
     req.user = {
       id: decoded.userId,
       email: decoded.email,
-      role: decoded.role
+      role: decoded.role,
+      ...(decoded.sid && { sessionId: decoded.sid })
     };
 
     next();
@@ -177,6 +232,66 @@ export const requireEmailVerification = async (
   }
 };
 
+// Step-up check for sensitive actions: users with two-factor on send a current code in X-Two-Factor-Code.
+// Must run after authenticateToken.
+export const requireTwoFactorCode = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: {
+          code: 'AUTH_REQUIRED',
+          message: 'Authentication required',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    if (!(await TwoFactorService.isEnabled(req.user.id))) {
+      next();
+      return;
+    }
+
+    const code = req.get('x-two-factor-code');
+    if (!code) {
+      res.status(403).json({
+        error: {
+          code: 'TWO_FACTOR_CODE_REQUIRED',
+          message: 'A two-factor authentication code is required for this action',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    if (!(await TwoFactorService.verifyCode(req.user.id, code))) {
+      res.status(403).json({
+        error: {
+          code: 'INVALID_TWO_FACTOR_CODE',
+          message: 'Invalid two-factor authentication code',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    next();
+  } catch (error: any) {
+    console.error('Two-factor verification error:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to verify two-factor code',
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+};
+
 // Optional authentication - doesn't fail if no token provided
 export const optionalAuth = async (
   req: AuthenticatedRequest,
@@ -196,13 +311,15 @@ export const optionalAuth = async (
     // Verify token if provided
     const decoded = jwt.verify(token, JWT_SECRET) as any;
     
-    // Check if user still exists
+    // Check if user still exists, is not suspended and the session is not revoked
     const user = await UserModel.findById(decoded.userId);
-    if (user) {
+    const sessionActive = !decoded.sid || await UserSessionModel.isActive(decoded.sid);
+    if (!decoded.purpose && user && !SuspensionService.isSuspended(user) && sessionActive) {
       req.user = {
         id: decoded.userId,
         email: decoded.email,
-        role: decoded.role
+        role: decoded.role,
+        ...(decoded.sid && { sessionId: decoded.sid })
       };
     }
 
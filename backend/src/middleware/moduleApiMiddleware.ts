@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
+import { BotModuleActivationModel } from '../models/BotModuleActivation';
+import { ModuleApiAuditLogModel } from '../models/ModuleApiAuditLog';
+import { BotModuleActivation, UserStatus } from '../types/database';
+
+export type ModuleApiActivation = BotModuleActivation & {
+  bot_name: string;
+  telegram_bot_id: string;
+  module_name: string;
+  owner_status: UserStatus;
+};
+
+export interface ModuleApiRequest extends Request {
+  moduleActivation?: ModuleApiActivation;
+}
+
+// Record every module API call once the response has been sent
+export const auditModuleApiCall = (
+  req: ModuleApiRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const startTime = Date.now();
+
+  res.on('finish', () => {
+    ModuleApiAuditLogModel.create({
+      ...(req.moduleActivation && { activation_id: req.moduleActivation.id }),
+      method: req.method,
+      path: req.originalUrl.split('?')[0] || req.originalUrl,
+      status_code: res.statusCode,
+      ...(req.ip && { ip_address: req.ip }),
+      duration_ms: Date.now() - startTime,
+    }).catch(error => {
+      console.error('Failed to write module API audit log:', error);
+    });
+  });
+
+  next();
+};
+
+// Authenticate a module by its activation API key (X-Api-Key or Bearer token)
+export const authenticateModuleApiKey = async (
+  req: ModuleApiRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const authHeader = req.headers.authorization;
+    const apiKey = req.get('X-Api-Key') || (authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined);
+
+    if (!apiKey) {
+      res.status(401).json({
+        error: {
+          code: 'API_KEY_REQUIRED',
+          message: 'Activation API key is required',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    const activation = await BotModuleActivationModel.findByApiKey(apiKey);
+    if (!activation || (activation.expires_at && new Date(activation.expires_at) <= new Date())) {
+      res.status(401).json({
+        error: {
+          code: 'INVALID_API_KEY',
+          message: 'Invalid or inactive API key',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    // Keys of a suspended owner's bots stop working with the rest of the account
+    if ((activation as ModuleApiActivation).owner_status === 'suspended') {
+      res.status(403).json({
+        error: {
+          code: 'ACCOUNT_SUSPENDED',
+          message: 'The account that owns this bot is suspended',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    req.moduleActivation = activation as ModuleApiActivation;
+    next();
+  } catch (error: any) {
+    console.error('Module API authentication error:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Authentication failed',
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+};
+
+// Limit per IP on requests rejected for an invalid API key. It runs before the key is looked up, so keys
+// cannot be guessed at the rate the database answers; modules that authenticate are never counted.
+export const failedModuleApiKeyLimit = (maxFailures: number, windowMs: number) => rateLimit({
+  windowMs,
+  max: maxFailures,
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (_req, res) => res.statusCode !== 401,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res) => {
+    res.status(429).json({
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Too many requests with an invalid API key, please try again later',
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+});
+
+// Fixed-window rate limit per activation key
+const moduleRequestCounts = new Map<string, { count: number; resetTime: number }>();
+
+export const moduleApiRateLimit = (maxRequests: number, windowMs: number) => {
+  return (req: ModuleApiRequest, res: Response, next: NextFunction): void => {
+    const activationId = req.moduleActivation?.id;
+    if (!activationId) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    let clientData = moduleRequestCounts.get(activationId);
+
+    if (!clientData || now > clientData.resetTime) {
+      clientData = { count: 0, resetTime: now + windowMs };
+      moduleRequestCounts.set(activationId, clientData);
+    }
+
+    res.setHeader('X-RateLimit-Limit', maxRequests);
+    res.setHeader('X-RateLimit-Reset', Math.ceil(clientData.resetTime / 1000));
+
+    if (clientData.count >= maxRequests) {
+      res.setHeader('X-RateLimit-Remaining', 0);
+      res.setHeader('Retry-After', Math.ceil((clientData.resetTime - now) / 1000));
+      res.status(429).json({
+        error: {
+          code: 'RATE_LIMIT_EXCEEDED',
+          message: 'API key rate limit exceeded, please try again later',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    clientData.count++;
+    res.setHeader('X-RateLimit-Remaining', maxRequests - clientData.count);
+    next();
+  };
+};
+
+// Export function to clear rate limit data (for testing)
+export const clearModuleApiRateLimitData = () => {
+  moduleRequestCounts.clear();
+};
+
+// Clean up expired rate limit windows periodically
+setInterval(() => {
+  const now = Date.now();
+  for (const [activationId, data] of moduleRequestCounts.entries()) {
+    if (now > data.resetTime) {
+      moduleRequestCounts.delete(activationId);
+    }
+  }
+}, 60000).unref();
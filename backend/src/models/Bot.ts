@@ -142,6 +142,18 @@ export class BotModel {
     return this.decryptToken(result.rows[0].token_hash);
   }
 
+  static async updateWebhook(id: string, webhookUrl: string, webhookSecret: string): Promise<Bot | null> {
+    const query = `
+      UPDATE bots 
+      SET webhook_url = $2, webhook_secret = $3
+      WHERE id = $1 
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, webhookUrl, webhookSecret]);
+    return result.rows[0] || null;
+  }
+
   static async list(filters: {
     user_id?: string;
     status?: BotStatus;
@@ -201,6 +213,7 @@ export class BotModel {
     };
   }
 
+  // Revenue is in the display currency of the bot owner
   static async getBotStats(botId: string): Promise<{
     total_modules: number;
     active_modules: number;
@@ -212,20 +225,21 @@ export class BotModel {
         COUNT(bma.id) as total_modules,
         COUNT(CASE WHEN bma.status = 'active' THEN 1 END) as active_modules,
         COALESCE(SUM(
-          (SELECT COALESCE(SUM(amount), 0) FROM transactions 
+          (SELECT COALESCE(SUM(convert_currency(amount, currency, fx_rates, u.display_currency)), 0) FROM transactions 
            WHERE user_id = b.user_id AND type = 'commission' AND status = 'completed'
            AND metadata->>'bot_id' = b.id::text)
         ), 0) as total_revenue,
         COALESCE(SUM(
-          (SELECT COALESCE(SUM(amount), 0) FROM transactions 
+          (SELECT COALESCE(SUM(convert_currency(amount, currency, fx_rates, u.display_currency)), 0) FROM transactions 
            WHERE user_id = b.user_id AND type = 'commission' AND status = 'completed'
            AND metadata->>'bot_id' = b.id::text
            AND created_at >= date_trunc('month', CURRENT_DATE))
         ), 0) as monthly_revenue
       FROM bots b
+      JOIN users u ON u.id = b.user_id
       LEFT JOIN bot_module_activations bma ON b.id = bma.bot_id
       WHERE b.id = $1
-      GROUP BY b.id, b.user_id
+      GROUP BY b.id, b.user_id, u.display_currency
     `;
 
     const result = await pool.query(query, [botId]);
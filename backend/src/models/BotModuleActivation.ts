@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import pool from '../config/database';
+import pool, { DatabaseClient } from '../config/database';
 import { BotModuleActivation, ActivateModuleInput, BotStatus } from '../types/database';
 import { activateModuleSchema, updateModuleActivationSchema } from '../validation/schemas';
 
@@ -57,15 +57,68 @@ export class BotModuleActivationModel {
     }
   }
 
+  /**
+   * Activate a module bought for a bot. A bot that had the module before gets its old activation back,
+   * with the API key and settings it had, so buying a module again after a refund or expiry works.
+   */
+  static async upsert(input: ActivateModuleInput): Promise<BotModuleActivation> {
+    const { error, value } = activateModuleSchema.validate(input);
+    if (error) {
+      throw new Error(`Validation error: ${error.details[0]?.message || 'Invalid input'}`);
+    }
+
+    const { bot_id, module_id, markup_percentage, settings, expires_at } = value;
+
+    const query = `
+      INSERT INTO bot_module_activations (
+        bot_id, module_id, markup_percentage, api_key, settings, expires_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (bot_id, module_id) DO UPDATE SET
+        status = 'active',
+        markup_percentage = EXCLUDED.markup_percentage,
+        api_key = COALESCE(bot_module_activations.api_key, EXCLUDED.api_key),
+        activated_at = CURRENT_TIMESTAMP,
+        expires_at = EXCLUDED.expires_at
+      RETURNING *
+    `;
+
+    const values = [
+      bot_id,
+      module_id,
+      markup_percentage,
+      this.generateApiKey(),
+      JSON.stringify(settings || {}),
+      expires_at
+    ];
+
+    try {
+      const result = await pool.query(query, values);
+      return result.rows[0];
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'bot_module_activations_api_key_key') {
+        return this.upsert(input);
+      }
+      if (error.code === '23503') {
+        throw new Error('Bot or module not found');
+      }
+      throw error;
+    }
+  }
+
   static async findById(id: string): Promise<BotModuleActivation | null> {
     const query = 'SELECT * FROM bot_module_activations WHERE id = $1';
     const result = await pool.query(query, [id]);
     return result.rows[0] || null;
   }
 
-  static async findByBotAndModule(botId: string, moduleId: string): Promise<BotModuleActivation | null> {
+  static async findByBotAndModule(
+    botId: string,
+    moduleId: string,
+    db: DatabaseClient = pool
+  ): Promise<BotModuleActivation | null> {
     const query = 'SELECT * FROM bot_module_activations WHERE bot_id = $1 AND module_id = $2';
-    const result = await pool.query(query, [botId, moduleId]);
+    const result = await db.query(query, [botId, moduleId]);
     return result.rows[0] || null;
   }
 
@@ -76,10 +129,12 @@ export class BotModuleActivationModel {
         b.name as bot_name,
         b.telegram_bot_id,
         m.name as module_name,
-        m.category as module_category
+        m.category as module_category,
+        u.status as owner_status
       FROM bot_module_activations bma
       JOIN bots b ON bma.bot_id = b.id
       JOIN modules m ON bma.module_id = m.id
+      JOIN users u ON b.user_id = u.id
       WHERE bma.api_key = $1 AND bma.status = 'active'
     `;
     
@@ -130,7 +185,7 @@ export class BotModuleActivationModel {
     status?: BotStatus;
     settings?: Record<string, any>;
     expires_at?: Date;
-  }): Promise<BotModuleActivation | null> {
+  }, db: DatabaseClient = pool): Promise<BotModuleActivation | null> {
     // Validate input
     const { error, value } = updateModuleActivationSchema.validate(input);
     if (error) {
@@ -157,11 +212,11 @@ export class BotModuleActivationModel {
     `;
 
     const values = [id, ...Object.values(processedValue)];
-    const result = await pool.query(query, values);
+    const result = await db.query(query, values);
     return result.rows[0] || null;
   }
 
-  static async updateStatus(id: string, status: BotStatus): Promise<BotModuleActivation | null> {
+  static async updateStatus(id: string, status: BotStatus, db: DatabaseClient = pool): Promise<BotModuleActivation | null> {
     const query = `
       UPDATE bot_module_activations 
       SET status = $2
@@ -169,7 +224,7 @@ export class BotModuleActivationModel {
       RETURNING *
     `;
 
-    const result = await pool.query(query, [id, status]);
+    const result = await db.query(query, [id, status]);
     return result.rows[0] || null;
   }
 
@@ -313,18 +368,71 @@ export class BotModuleActivationModel {
     return result.rows;
   }
 
-  static async getExpiredActivations(): Promise<BotModuleActivation[]> {
+  // Modules of a suspended owner's bots get no updates, as they get no API access
+  static async getWebhookActivations(botId: string): Promise<Array<BotModuleActivation & {
+    module_name: string;
+    module_api_endpoints: string[] | null;
+  }>> {
     const query = `
-      SELECT * FROM bot_module_activations 
-      WHERE status = 'active' 
-        AND expires_at IS NOT NULL 
-        AND expires_at <= CURRENT_TIMESTAMP
+      SELECT 
+        bma.*,
+        m.name as module_name,
+        m.api_endpoints as module_api_endpoints
+      FROM bot_module_activations bma
+      JOIN modules m ON bma.module_id = m.id
+      JOIN bots b ON bma.bot_id = b.id
+      JOIN users u ON b.user_id = u.id
+      WHERE bma.bot_id = $1
+        AND u.status <> 'suspended'
+        AND bma.status = 'active'
+        AND (bma.expires_at IS NULL OR bma.expires_at > CURRENT_TIMESTAMP)
+        AND m.webhook_required = true
+        AND m.status = 'approved'
+    `;
+
+    const result = await pool.query(query, [botId]);
+    return result.rows;
+  }
+
+  static async getExpiredActivations(): Promise<Array<BotModuleActivation & {
+    bot_name: string;
+    bot_owner_id: string;
+    module_name: string;
+  }>> {
+    const query = `
+      SELECT 
+        bma.*,
+        b.name as bot_name,
+        b.user_id as bot_owner_id,
+        m.name as module_name
+      FROM bot_module_activations bma
+      JOIN bots b ON bma.bot_id = b.id
+      JOIN modules m ON bma.module_id = m.id
+      WHERE bma.status = 'active' 
+        AND bma.expires_at IS NOT NULL 
+        AND bma.expires_at <= CURRENT_TIMESTAMP
     `;
 
     const result = await pool.query(query);
     return result.rows;
   }
 
+  // Deactivates one expired activation; null when it was renewed or another worker got there first
+  static async expire(id: string): Promise<BotModuleActivation | null> {
+    const query = `
+      UPDATE bot_module_activations 
+      SET status = 'inactive'
+      WHERE id = $1
+        AND status = 'active' 
+        AND expires_at IS NOT NULL 
+        AND expires_at <= CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
   static async deactivateExpired(): Promise<number> {
     const query = `
       UPDATE bot_module_activations 
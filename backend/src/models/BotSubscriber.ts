@@ -1,4 +1,5 @@
 import pool from '../config/database';
+import { SegmentFilters } from './BroadcastSegment';
 
 export interface BotSubscriber {
   id: string;
@@ -95,6 +96,24 @@ export class BotSubscriberModel {
     return result.rows[0] || null;
   }
 
+  static async findByRecipients(recipients: Array<{ botId: string; chatId: string }>): Promise<BotSubscriber[]> {
+    if (recipients.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT bot_subscribers.* FROM bot_subscribers
+      JOIN unnest($1::uuid[], $2::varchar[]) AS recipient(bot_id, chat_id)
+        ON bot_subscribers.bot_id = recipient.bot_id AND bot_subscribers.chat_id = recipient.chat_id
+    `;
+
+    const result = await pool.query(query, [
+      recipients.map(recipient => recipient.botId),
+      recipients.map(recipient => recipient.chatId)
+    ]);
+    return result.rows;
+  }
+
   static async findByBotId(
     botId: string,
     options: {
@@ -255,6 +274,24 @@ export class BotSubscriberModel {
     return result.rows.map(row => row.chat_id);
   }
 
+  // One page of active chat ids in a stable order, for callers that walk through all of them
+  static async findActiveChatIds(
+    botId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<string[]> {
+    const { limit = 1000, offset = 0 } = options;
+    const query = `
+      SELECT chat_id
+      FROM bot_subscribers
+      WHERE bot_id = $1 AND is_active = true
+      ORDER BY subscribed_at, id
+      LIMIT $2 OFFSET $3
+    `;
+
+    const result = await pool.query(query, [botId, limit, offset]);
+    return result.rows.map(row => row.chat_id);
+  }
+
   static async searchSubscribers(
     botId: string,
     searchTerm: string,
@@ -290,6 +327,89 @@ export class BotSubscriberModel {
     return result.rows;
   }
 
+  // Active subscribers of the given bots that match a segment's filters
+  static async findSegmentRecipients(
+    botIds: string[],
+    filters: SegmentFilters
+  ): Promise<Array<{ bot_id: string; chat_id: string }>> {
+    const { whereClause, values } = this.buildSegmentConditions(botIds, filters);
+
+    const query = `
+      SELECT bot_id, chat_id FROM bot_subscribers
+      ${whereClause}
+      ORDER BY bot_id, last_interaction DESC
+    `;
+
+    const result = await pool.query(query, values);
+    return result.rows;
+  }
+
+  static async countSegmentRecipients(
+    botIds: string[],
+    filters: SegmentFilters
+  ): Promise<Array<{ bot_id: string; count: number }>> {
+    const { whereClause, values } = this.buildSegmentConditions(botIds, filters);
+
+    const query = `
+      SELECT bot_id, COUNT(*)::int AS count FROM bot_subscribers
+      ${whereClause}
+      GROUP BY bot_id
+    `;
+
+    const result = await pool.query(query, values);
+    return result.rows;
+  }
+
+  private static buildSegmentConditions(
+    botIds: string[],
+    filters: SegmentFilters
+  ): { whereClause: string; values: any[] } {
+    const conditions = ['bot_id = ANY($1)', 'is_active = true'];
+    const values: any[] = [botIds];
+    let paramIndex = 2;
+
+    if (filters.chat_types && filters.chat_types.length > 0) {
+      conditions.push(`chat_type = ANY($${paramIndex++})`);
+      values.push(filters.chat_types);
+    }
+
+    if (filters.last_interaction_within_days !== undefined) {
+      conditions.push(`last_interaction >= CURRENT_TIMESTAMP - make_interval(days => $${paramIndex++})`);
+      values.push(filters.last_interaction_within_days);
+    }
+
+    if (filters.last_interaction_older_than_days !== undefined) {
+      conditions.push(`last_interaction < CURRENT_TIMESTAMP - make_interval(days => $${paramIndex++})`);
+      values.push(filters.last_interaction_older_than_days);
+    }
+
+    if (filters.subscribed_after) {
+      conditions.push(`subscribed_at >= $${paramIndex++}`);
+      values.push(filters.subscribed_after);
+    }
+
+    if (filters.subscribed_before) {
+      conditions.push(`subscribed_at < $${paramIndex++}`);
+      values.push(filters.subscribed_before);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push(`metadata->'tags' ?| $${paramIndex++}`);
+      values.push(filters.tags);
+    }
+
+    if (filters.languages && filters.languages.length > 0) {
+      conditions.push(`metadata->>'language_code' = ANY($${paramIndex++})`);
+      values.push(filters.languages);
+    }
+
+    if (filters.has_username !== undefined) {
+      conditions.push(filters.has_username ? 'username IS NOT NULL' : 'username IS NULL');
+    }
+
+    return { whereClause: `WHERE ${conditions.join(' AND ')}`, values };
+  }
+
   static async bulkDeactivate(botId: string, chatIds: string[]): Promise<number> {
     if (chatIds.length === 0) return 0;
 
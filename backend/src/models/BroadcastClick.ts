@@ -0,0 +1,113 @@
+import pool from '../config/database';
+
+export type BroadcastClickSource = 'callback' | 'link';
+
+export interface BroadcastClick {
+  id: string;
+  broadcast_id: string;
+  delivery_id: string;
+  variant?: string;
+  source: BroadcastClickSource;
+  link_id?: string; // tracked link that was opened, for link clicks
+  button_data?: string;
+  clicked_at: Date;
+}
+
+export interface BroadcastClickSummary {
+  clicks: number;
+  unique_clicks: number;
+  // Between delivery and each recipient's first click; null while nobody has clicked
+  average_seconds_to_click: number | null;
+  median_seconds_to_click: number | null;
+}
+
+export interface BroadcastLinkClickSummary {
+  link_id: string;
+  url: string;
+  clicks: number;
+  unique_clicks: number;
+}
+
+export interface BroadcastVariantClickSummary {
+  variant: string | null;
+  clicks: number;
+  unique_clicks: number; // distinct recipients that clicked
+}
+
+export class BroadcastClickModel {
+  static async create(input: {
+    broadcast_id: string;
+    delivery_id: string;
+    variant?: string | null;
+    source: BroadcastClickSource;
+    link_id?: string;
+    button_data?: string;
+  }): Promise<BroadcastClick> {
+    const { broadcast_id, delivery_id, variant, source, link_id, button_data } = input;
+
+    const query = `
+      INSERT INTO broadcast_clicks (broadcast_id, delivery_id, variant, source, link_id, button_data)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [broadcast_id, delivery_id, variant, source, link_id, button_data]);
+    return result.rows[0];
+  }
+
+  static async getSummary(broadcastId: string): Promise<BroadcastClickSummary> {
+    const query = `
+      WITH first_clicks AS (
+        SELECT delivery_id, MIN(clicked_at) AS clicked_at
+        FROM broadcast_clicks
+        WHERE broadcast_id = $1
+        GROUP BY delivery_id
+      )
+      SELECT
+        (SELECT COUNT(*) FROM broadcast_clicks WHERE broadcast_id = $1)::int AS clicks,
+        COUNT(first_clicks.delivery_id)::int AS unique_clicks,
+        AVG(EXTRACT(EPOCH FROM first_clicks.clicked_at - delivery.delivered_at))::float8 AS average_seconds_to_click,
+        percentile_cont(0.5) WITHIN GROUP (
+          ORDER BY EXTRACT(EPOCH FROM first_clicks.clicked_at - delivery.delivered_at)
+        )::float8 AS median_seconds_to_click
+      FROM first_clicks
+      JOIN broadcast_deliveries AS delivery ON delivery.id = first_clicks.delivery_id
+    `;
+
+    const result = await pool.query(query, [broadcastId]);
+    return result.rows[0];
+  }
+
+  static async getLinkSummary(broadcastId: string): Promise<BroadcastLinkClickSummary[]> {
+    const query = `
+      SELECT
+        link.id AS link_id,
+        link.url,
+        COUNT(click.id)::int AS clicks,
+        COUNT(DISTINCT click.delivery_id)::int AS unique_clicks
+      FROM broadcast_links AS link
+      LEFT JOIN broadcast_clicks AS click ON click.link_id = link.id
+      WHERE link.broadcast_id = $1
+      GROUP BY link.id, link.url
+      ORDER BY clicks DESC, link.url
+    `;
+
+    const result = await pool.query(query, [broadcastId]);
+    return result.rows;
+  }
+
+  static async getVariantSummary(broadcastId: string): Promise<BroadcastVariantClickSummary[]> {
+    const query = `
+      SELECT
+        variant,
+        COUNT(*)::int AS clicks,
+        COUNT(DISTINCT delivery_id)::int AS unique_clicks
+      FROM broadcast_clicks
+      WHERE broadcast_id = $1
+      GROUP BY variant
+    `;
+
+    const result = await pool.query(query, [broadcastId]);
+    return result.rows;
+  }
+}
@@ -0,0 +1,261 @@
+import pool from '../config/database';
+
+export type BroadcastDeliveryStatus = 'pending' | 'sent' | 'failed' | 'blocked';
+
+export interface BroadcastDelivery {
+  id: string;
+  broadcast_id: string;
+  bot_id: string;
+  chat_id: string;
+  status: BroadcastDeliveryStatus;
+  variant?: string; // A/B test variant the recipient was assigned to
+  telegram_message_id?: number;
+  error_code?: number;
+  error_description?: string;
+  attempts: number;
+  delivered_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RecordDeliveryResultInput {
+  status: Exclude<BroadcastDeliveryStatus, 'pending'>;
+  attempts: number;
+  telegram_message_id?: number;
+  error_code?: number;
+  error_description?: string;
+}
+
+interface BroadcastDeliveryCounts {
+  total: number;
+  sent: number;
+  failed: number;
+  blocked: number;
+  pending: number;
+}
+
+export interface BroadcastDeliveryBotSummary extends BroadcastDeliveryCounts {
+  bot_id: string;
+}
+
+export interface BroadcastDeliveryVariantSummary extends BroadcastDeliveryCounts {
+  variant: string | null;
+}
+
+export class BroadcastDeliveryModel {
+  // One pending row per recipient, written when the broadcast is queued.
+  // Re-queuing after a crash replaces the variant of recipients nothing was sent to yet.
+  static async createPending(
+    broadcastId: string,
+    recipients: Array<{ botId: string; chatId: string; variant?: string | null }>
+  ): Promise<void> {
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const query = `
+      INSERT INTO broadcast_deliveries (broadcast_id, bot_id, chat_id, variant)
+      SELECT $1, recipient.bot_id, recipient.chat_id, recipient.variant
+      FROM unnest($2::uuid[], $3::varchar[], $4::varchar[]) AS recipient(bot_id, chat_id, variant)
+      ON CONFLICT (broadcast_id, bot_id, chat_id)
+      DO UPDATE SET variant = EXCLUDED.variant, updated_at = CURRENT_TIMESTAMP
+      WHERE broadcast_deliveries.status = 'pending'
+    `;
+
+    await pool.query(query, [
+      broadcastId,
+      recipients.map(recipient => recipient.botId),
+      recipients.map(recipient => recipient.chatId),
+      recipients.map(recipient => recipient.variant ?? null)
+    ]);
+  }
+
+  /**
+   * Give the winning variant to the A/B recipients that were held back, returning them
+   */
+  static async assignHeldBackRecipients(
+    broadcastId: string,
+    variant: string
+  ): Promise<Array<{ bot_id: string; chat_id: string }>> {
+    const query = `
+      UPDATE broadcast_deliveries
+      SET variant = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE broadcast_id = $1 AND status = 'pending' AND (variant IS NULL OR variant = $2)
+      RETURNING bot_id, chat_id
+    `;
+
+    const result = await pool.query(query, [broadcastId, variant]);
+    return result.rows;
+  }
+
+  static async findByRecipients(
+    broadcastId: string,
+    recipients: Array<{ botId: string; chatId: string }>
+  ): Promise<Array<{ id: string; bot_id: string; chat_id: string; variant: string | null }>> {
+    if (recipients.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT delivery.id, delivery.bot_id, delivery.chat_id, delivery.variant
+      FROM broadcast_deliveries AS delivery
+      JOIN unnest($2::uuid[], $3::varchar[]) AS recipient(bot_id, chat_id)
+        ON delivery.bot_id = recipient.bot_id AND delivery.chat_id = recipient.chat_id
+      WHERE delivery.broadcast_id = $1
+    `;
+
+    const result = await pool.query(query, [
+      broadcastId,
+      recipients.map(recipient => recipient.botId),
+      recipients.map(recipient => recipient.chatId)
+    ]);
+    return result.rows;
+  }
+
+  static async findById(id: string): Promise<BroadcastDelivery | null> {
+    const query = 'SELECT * FROM broadcast_deliveries WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  // The delivery a Telegram message belongs to, used to attribute button presses to broadcasts
+  static async findByMessage(botId: string, chatId: string, messageId: number): Promise<BroadcastDelivery | null> {
+    const query = `
+      SELECT * FROM broadcast_deliveries
+      WHERE bot_id = $1 AND chat_id = $2 AND telegram_message_id = $3
+      ORDER BY delivered_at DESC
+      LIMIT 1
+    `;
+
+    const result = await pool.query(query, [botId, chatId, messageId]);
+    return result.rows[0] || null;
+  }
+
+  static async recordResult(
+    broadcastId: string,
+    botId: string,
+    chatId: string,
+    input: RecordDeliveryResultInput
+  ): Promise<BroadcastDelivery> {
+    const { status, attempts, telegram_message_id, error_code, error_description } = input;
+
+    const query = `
+      INSERT INTO broadcast_deliveries (
+        broadcast_id, bot_id, chat_id, status, telegram_message_id,
+        error_code, error_description, attempts, delivered_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+      ON CONFLICT (broadcast_id, bot_id, chat_id)
+      DO UPDATE SET
+        status = EXCLUDED.status,
+        telegram_message_id = EXCLUDED.telegram_message_id,
+        error_code = EXCLUDED.error_code,
+        error_description = EXCLUDED.error_description,
+        attempts = EXCLUDED.attempts,
+        delivered_at = EXCLUDED.delivered_at,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const values = [
+      broadcastId,
+      botId,
+      chatId,
+      status,
+      telegram_message_id,
+      error_code,
+      error_description,
+      attempts
+    ];
+
+    const result = await pool.query(query, values);
+    return result.rows[0];
+  }
+
+  static async findByBroadcastId(
+    broadcastId: string,
+    options: {
+      statuses?: BroadcastDeliveryStatus[];
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ deliveries: BroadcastDelivery[]; total: number }> {
+    const { statuses, limit = 100, offset = 0 } = options;
+
+    let whereClause = 'WHERE broadcast_id = $1';
+    const values: any[] = [broadcastId];
+
+    if (statuses && statuses.length > 0) {
+      whereClause += ' AND status = ANY($2)';
+      values.push(statuses);
+    }
+
+    const countResult = await pool.query(
+      `SELECT COUNT(*) FROM broadcast_deliveries ${whereClause}`,
+      values
+    );
+
+    const query = `
+      SELECT * FROM broadcast_deliveries
+      ${whereClause}
+      ORDER BY delivered_at DESC NULLS LAST, created_at ASC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+
+    const result = await pool.query(query, [...values, limit, offset]);
+
+    return {
+      deliveries: result.rows,
+      total: parseInt(countResult.rows[0].count)
+    };
+  }
+
+  // Recipients whose delivery failed for a reason other than the user blocking the bot
+  static async getFailedRecipients(broadcastId: string): Promise<Array<{ bot_id: string; chat_id: string }>> {
+    const query = `
+      SELECT bot_id, chat_id FROM broadcast_deliveries
+      WHERE broadcast_id = $1 AND status = 'failed'
+      ORDER BY bot_id, created_at ASC
+    `;
+
+    const result = await pool.query(query, [broadcastId]);
+    return result.rows;
+  }
+
+  static async getVariantSummary(broadcastId: string): Promise<BroadcastDeliveryVariantSummary[]> {
+    const query = `
+      SELECT
+        variant,
+        COUNT(*)::int AS total,
+        COUNT(*) FILTER (WHERE status = 'sent')::int AS sent,
+        COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+        COUNT(*) FILTER (WHERE status = 'blocked')::int AS blocked,
+        COUNT(*) FILTER (WHERE status = 'pending')::int AS pending
+      FROM broadcast_deliveries
+      WHERE broadcast_id = $1
+      GROUP BY variant
+      ORDER BY variant NULLS LAST
+    `;
+
+    const result = await pool.query(query, [broadcastId]);
+    return result.rows;
+  }
+
+  static async getBotSummary(broadcastId: string): Promise<BroadcastDeliveryBotSummary[]> {
+    const query = `
+      SELECT
+        bot_id,
+        COUNT(*)::int AS total,
+        COUNT(*) FILTER (WHERE status = 'sent')::int AS sent,
+        COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+        COUNT(*) FILTER (WHERE status = 'blocked')::int AS blocked,
+        COUNT(*) FILTER (WHERE status = 'pending')::int AS pending
+      FROM broadcast_deliveries
+      WHERE broadcast_id = $1
+      GROUP BY bot_id
+    `;
+
+    const result = await pool.query(query, [broadcastId]);
+    return result.rows;
+  }
+}
@@ -0,0 +1,39 @@
+import pool from '../config/database';
+
+export interface BroadcastLink {
+  id: string;
+  broadcast_id: string;
+  url: string;
+  created_at: Date;
+}
+
+export class BroadcastLinkModel {
+  // Registering the same URL twice returns the existing link, so re-queuing a broadcast keeps its link ids
+  static async createMany(broadcastId: string, urls: string[]): Promise<BroadcastLink[]> {
+    if (urls.length === 0) {
+      return [];
+    }
+
+    const query = `
+      INSERT INTO broadcast_links (broadcast_id, url)
+      SELECT $1, url FROM unnest($2::text[]) AS url
+      ON CONFLICT (broadcast_id, url) DO UPDATE SET url = EXCLUDED.url
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [broadcastId, urls]);
+    return result.rows;
+  }
+
+  static async findById(id: string): Promise<BroadcastLink | null> {
+    const query = 'SELECT * FROM broadcast_links WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByBroadcastId(broadcastId: string): Promise<BroadcastLink[]> {
+    const query = 'SELECT * FROM broadcast_links WHERE broadcast_id = $1 ORDER BY created_at';
+    const result = await pool.query(query, [broadcastId]);
+    return result.rows;
+  }
+}
@@ -0,0 +1,94 @@
+import pool from '../config/database';
+
+export interface SegmentFilters {
+  chat_types?: Array<'private' | 'group' | 'supergroup' | 'channel'>;
+  last_interaction_within_days?: number;
+  last_interaction_older_than_days?: number;
+  subscribed_after?: string;
+  subscribed_before?: string;
+  tags?: string[]; // subscriber must carry at least one of these in metadata.tags
+  languages?: string[]; // matched against metadata.language_code
+  has_username?: boolean;
+}
+
+export interface BroadcastSegment {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string;
+  bot_ids: string[];
+  filters: SegmentFilters;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateBroadcastSegmentInput {
+  user_id: string;
+  name: string;
+  description?: string;
+  bot_ids: string[];
+  filters?: SegmentFilters;
+}
+
+export interface UpdateBroadcastSegmentInput {
+  name?: string;
+  description?: string;
+  bot_ids?: string[];
+  filters?: SegmentFilters;
+}
+
+export class BroadcastSegmentModel {
+  static async create(input: CreateBroadcastSegmentInput): Promise<BroadcastSegment> {
+    const { user_id, name, description, bot_ids, filters = {} } = input;
+
+    const query = `
+      INSERT INTO broadcast_segments (user_id, name, description, bot_ids, filters)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [user_id, name, description, bot_ids, JSON.stringify(filters)];
+    const result = await pool.query(query, values);
+    return result.rows[0];
+  }
+
+  static async findById(id: string): Promise<BroadcastSegment | null> {
+    const query = 'SELECT * FROM broadcast_segments WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByUserId(userId: string): Promise<BroadcastSegment[]> {
+    const query = 'SELECT * FROM broadcast_segments WHERE user_id = $1 ORDER BY name ASC';
+    const result = await pool.query(query, [userId]);
+    return result.rows;
+  }
+
+  static async update(id: string, input: UpdateBroadcastSegmentInput): Promise<BroadcastSegment | null> {
+    const fields = Object.keys(input);
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const values = [id, ...Object.entries(input).map(([field, value]) =>
+      field === 'filters' ? JSON.stringify(value) : value
+    )];
+
+    const query = `
+      UPDATE broadcast_segments
+      SET ${setClause}
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, values);
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM broadcast_segments WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return (result.rowCount || 0) > 0;
+  }
+}
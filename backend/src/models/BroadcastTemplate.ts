@@ -0,0 +1,86 @@
+import pool from '../config/database';
+
+export type BroadcastTemplateParseMode = 'HTML' | 'Markdown' | 'MarkdownV2';
+
+export interface BroadcastTemplate {
+  id: string;
+  user_id?: string; // null for built-in templates
+  name: string;
+  category: string;
+  content: string;
+  parse_mode?: BroadcastTemplateParseMode;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateBroadcastTemplateInput {
+  user_id: string;
+  name: string;
+  category?: string;
+  content: string;
+  parse_mode?: BroadcastTemplateParseMode;
+}
+
+export interface UpdateBroadcastTemplateInput {
+  name?: string;
+  category?: string;
+  content?: string;
+  parse_mode?: BroadcastTemplateParseMode | null;
+}
+
+export class BroadcastTemplateModel {
+  static async create(input: CreateBroadcastTemplateInput): Promise<BroadcastTemplate> {
+    const { user_id, name, category = 'custom', content, parse_mode } = input;
+
+    const query = `
+      INSERT INTO broadcast_templates (user_id, name, category, content, parse_mode)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [user_id, name, category, content, parse_mode]);
+    return result.rows[0];
+  }
+
+  static async findById(id: string): Promise<BroadcastTemplate | null> {
+    const query = 'SELECT * FROM broadcast_templates WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Built-in templates first, then the user's own
+  static async findAvailableForUser(userId: string): Promise<BroadcastTemplate[]> {
+    const query = `
+      SELECT * FROM broadcast_templates
+      WHERE user_id IS NULL OR user_id = $1
+      ORDER BY user_id NULLS FIRST, name ASC
+    `;
+
+    const result = await pool.query(query, [userId]);
+    return result.rows;
+  }
+
+  static async update(id: string, input: UpdateBroadcastTemplateInput): Promise<BroadcastTemplate | null> {
+    const fields = Object.keys(input);
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const query = `
+      UPDATE broadcast_templates
+      SET ${setClause}
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, ...Object.values(input)]);
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM broadcast_templates WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -0,0 +1,239 @@
+import pool, { withTransaction } from '../config/database';
+import { CurrencyCode, Transaction } from '../types/database';
+
+export type CouponDiscountType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  currency?: CurrencyCode;
+  module_id?: string;
+  created_by: string;
+  max_redemptions?: number;
+  max_redemptions_per_user: number;
+  first_purchase_only: boolean;
+  expires_at?: Date;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CouponWithUsage extends Coupon {
+  module_name?: string;
+  redemption_count: number;
+}
+
+export interface CreateCouponInput {
+  code: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  currency?: CurrencyCode;
+  module_id?: string;
+  created_by: string;
+  max_redemptions?: number;
+  max_redemptions_per_user?: number;
+  first_purchase_only?: boolean;
+  expires_at?: Date;
+}
+
+export interface UpdateCouponInput {
+  max_redemptions?: number | null;
+  max_redemptions_per_user?: number;
+  expires_at?: Date | null;
+  is_active?: boolean;
+}
+
+export interface CouponRedemption {
+  id: string;
+  coupon_id: string;
+  user_id: string;
+  transaction_id: string;
+  discount_amount: number;
+  currency: string;
+  created_at: Date;
+}
+
+// A checkout left unpaid for this long is cancelled, which frees its coupon
+const PENDING_REDEMPTION_MINUTES = 30;
+
+// Redemptions of completed payments, and of pending ones until they fail or are cancelled
+const activeRedemptions = (couponId: string): string => `
+  FROM coupon_redemptions r
+  JOIN transactions t ON t.id = r.transaction_id
+  WHERE r.coupon_id = ${couponId} AND t.status IN ('completed', 'pending')
+`;
+
+// DECIMAL columns arrive as strings
+const toCoupon = (row: any): CouponWithUsage => ({
+  ...row,
+  discount_value: parseFloat(row.discount_value),
+  ...(row.redemption_count !== undefined && { redemption_count: parseInt(row.redemption_count) })
+});
+
+export class CouponModel {
+  /**
+   * Returns null when the code is taken
+   */
+  static async create(input: CreateCouponInput): Promise<Coupon | null> {
+    const query = `
+      INSERT INTO coupons (
+        code, discount_type, discount_value, currency, module_id, created_by,
+        max_redemptions, max_redemptions_per_user, first_purchase_only, expires_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+
+    try {
+      const result = await pool.query(query, [
+        input.code.toUpperCase(),
+        input.discount_type,
+        input.discount_value,
+        input.currency || null,
+        input.module_id || null,
+        input.created_by,
+        input.max_redemptions || null,
+        input.max_redemptions_per_user || 1,
+        input.first_purchase_only || false,
+        input.expires_at || null
+      ]);
+      return toCoupon(result.rows[0]);
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  static async findById(id: string): Promise<Coupon | null> {
+    const result = await pool.query('SELECT * FROM coupons WHERE id = $1', [id]);
+    return result.rows[0] ? toCoupon(result.rows[0]) : null;
+  }
+
+  static async findByCode(code: string): Promise<Coupon | null> {
+    const result = await pool.query('SELECT * FROM coupons WHERE code = $1', [code.trim().toUpperCase()]);
+    return result.rows[0] ? toCoupon(result.rows[0]) : null;
+  }
+
+  /**
+   * Coupons with the number of times they have been used, newest first; all of them without a creator
+   */
+  static async list(createdBy?: string): Promise<CouponWithUsage[]> {
+    const query = `
+      SELECT c.*, m.name AS module_name,
+        (SELECT COUNT(*) ${activeRedemptions('c.id')}) AS redemption_count
+      FROM coupons c
+      LEFT JOIN modules m ON m.id = c.module_id
+      ${createdBy ? 'WHERE c.created_by = $1' : ''}
+      ORDER BY c.created_at DESC
+    `;
+
+    const result = await pool.query(query, createdBy ? [createdBy] : []);
+    return result.rows.map(toCoupon);
+  }
+
+  static async update(id: string, input: UpdateCouponInput): Promise<Coupon | null> {
+    const fields = Object.keys(input);
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const query = `
+      UPDATE coupons
+      SET ${setClause}
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, ...Object.values(input)]);
+    return result.rows[0] ? toCoupon(result.rows[0]) : null;
+  }
+
+  static async countRedemptions(couponId: string, userId: string): Promise<{ total: number; user: number }> {
+    const query = `
+      SELECT COUNT(*) AS total, COUNT(*) FILTER (WHERE r.user_id = $2) AS user_total
+      ${activeRedemptions('$1')}
+    `;
+
+    const result = await pool.query(query, [couponId, userId]);
+    return {
+      total: parseInt(result.rows[0].total),
+      user: parseInt(result.rows[0].user_total)
+    };
+  }
+
+  // Whether the user has paid for a module before; first-purchase coupons are refused once they have
+  static async hasCompletedPurchase(userId: string): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM transactions
+      WHERE user_id = $1 AND type = 'payment' AND status = 'completed'
+      LIMIT 1
+    `;
+
+    const result = await pool.query(query, [userId]);
+    return result.rows.length > 0;
+  }
+
+  // Pending payments made with a coupon that have been left unpaid for too long, oldest first
+  static async findLapsedCheckouts(limit: number = 100): Promise<Transaction[]> {
+    const query = `
+      SELECT t.* FROM coupon_redemptions r
+      JOIN transactions t ON t.id = r.transaction_id
+      WHERE t.status = 'pending'
+        AND t.created_at <= CURRENT_TIMESTAMP - INTERVAL '${PENDING_REDEMPTION_MINUTES} minutes'
+      ORDER BY t.created_at, t.id
+      LIMIT $1
+    `;
+
+    const result = await pool.query(query, [limit]);
+    return result.rows;
+  }
+
+  /**
+   * Record the use of a coupon on a payment. The coupon row is locked while it is checked again, so concurrent
+   * checkouts cannot use it more often than allowed, nor after it was deactivated or expired; returns null when
+   * it can no longer be used.
+   */
+  static async redeem(
+    coupon: Coupon,
+    userId: string,
+    transactionId: string,
+    discountAmount: number,
+    currency: string
+  ): Promise<CouponRedemption | null> {
+    return withTransaction(async client => {
+      const locked = await client.query(`
+        SELECT max_redemptions, max_redemptions_per_user FROM coupons
+        WHERE id = $1 AND is_active AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+        FOR UPDATE
+      `, [coupon.id]);
+      const limits = locked.rows[0];
+      if (!limits) {
+        return null;
+      }
+
+      const usage = await client.query(`
+        SELECT COUNT(*) AS total, COUNT(*) FILTER (WHERE r.user_id = $2) AS user_total
+        ${activeRedemptions('$1')}
+      `, [coupon.id, userId]);
+
+      const total = parseInt(usage.rows[0].total);
+      const user = parseInt(usage.rows[0].user_total);
+      if ((limits.max_redemptions && total >= limits.max_redemptions) || user >= limits.max_redemptions_per_user) {
+        return null;
+      }
+
+      const result = await client.query(`
+        INSERT INTO coupon_redemptions (coupon_id, user_id, transaction_id, discount_amount, currency)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `, [coupon.id, userId, transactionId, discountAmount, currency]);
+
+      return { ...result.rows[0], discount_amount: parseFloat(result.rows[0].discount_amount) };
+    });
+  }
+}
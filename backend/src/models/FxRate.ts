@@ -0,0 +1,39 @@
+import pool from '../config/database';
+import { CurrencyCode } from '../types/database';
+
+export interface FxRate {
+  id: string;
+  currency: CurrencyCode;
+  // Units of the currency per US dollar
+  rate: number;
+  source: string;
+  fetched_at: Date;
+}
+
+export class FxRateModel {
+  /**
+   * The current rate of every currency, keyed by currency
+   */
+  static async getLatest(): Promise<Record<string, number>> {
+    const query = `
+      SELECT DISTINCT ON (currency) currency, rate
+      FROM fx_rates
+      ORDER BY currency, fetched_at DESC
+    `;
+
+    const result = await pool.query(query);
+    return Object.fromEntries(result.rows.map(row => [row.currency, parseFloat(row.rate)]));
+  }
+
+  static async record(rates: Record<string, number>, source: string): Promise<FxRate[]> {
+    const query = `
+      INSERT INTO fx_rates (currency, rate, source)
+      SELECT currency, rate, $3
+      FROM unnest($1::text[], $2::numeric[]) AS r(currency, rate)
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [Object.keys(rates), Object.values(rates), source]);
+    return result.rows.map(row => ({ ...row, rate: parseFloat(row.rate) }));
+  }
+}
@@ -0,0 +1,154 @@
+import pool from '../config/database';
+import { VerificationLevel } from '../types/database';
+
+export type IdentityDocumentType = 'passport' | 'national_id' | 'driver_license' | 'business_registration';
+
+export type IdentityVerificationStatus = 'pending' | 'approved' | 'rejected';
+
+// A file stored for review; filename is relative to the identity documents directory
+export interface IdentityDocument {
+  filename: string;
+  original_name: string;
+  mime_type: string;
+  size: number;
+}
+
+export interface IdentityVerification {
+  id: string;
+  user_id: string;
+  requested_level: Extract<VerificationLevel, 'identity_verified' | 'business'>;
+  document_type: IdentityDocumentType;
+  full_name: string;
+  country: string;
+  business_name?: string;
+  documents: IdentityDocument[];
+  status: IdentityVerificationStatus;
+  reviewed_by?: string;
+  review_notes?: string;
+  reviewed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A request together with the account it was submitted for, as the admin panel shows it
+export interface IdentityVerificationDetails extends IdentityVerification {
+  user_email: string;
+  user_created_at: Date;
+  verification_level: VerificationLevel;
+}
+
+export interface CreateIdentityVerificationInput {
+  user_id: string;
+  requested_level: IdentityVerification['requested_level'];
+  document_type: IdentityDocumentType;
+  full_name: string;
+  country: string;
+  business_name?: string;
+  documents: IdentityDocument[];
+}
+
+const DETAILS_QUERY = `
+  SELECT
+    v.*,
+    u.email as user_email,
+    u.created_at as user_created_at,
+    u.verification_level
+  FROM identity_verifications v
+  JOIN users u ON v.user_id = u.id
+`;
+
+export class IdentityVerificationModel {
+  static async create(input: CreateIdentityVerificationInput): Promise<IdentityVerification> {
+    const query = `
+      INSERT INTO identity_verifications (
+        user_id, requested_level, document_type, full_name, country, business_name, documents
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+
+    try {
+      const result = await pool.query(query, [
+        input.user_id,
+        input.requested_level,
+        input.document_type,
+        input.full_name,
+        input.country,
+        input.business_name || null,
+        JSON.stringify(input.documents)
+      ]);
+      return result.rows[0];
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        throw new Error('A verification request is already waiting for review');
+      }
+      throw error;
+    }
+  }
+
+  static async findById(id: string): Promise<IdentityVerificationDetails | null> {
+    const query = `${DETAILS_QUERY} WHERE v.id = $1`;
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findLatestByUserId(userId: string): Promise<IdentityVerification | null> {
+    const query = `
+      SELECT * FROM identity_verifications
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    const result = await pool.query(query, [userId]);
+    return result.rows[0] || null;
+  }
+
+  // Oldest pending requests first, so they are reviewed in the order they came in
+  static async list(filters: {
+    status?: IdentityVerificationStatus;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{ verifications: IdentityVerificationDetails[]; total: number }> {
+    const { status, page = 1, limit = 20 } = filters;
+    const whereClause = status ? 'WHERE v.status = $1' : '';
+    const values: any[] = status ? [status] : [];
+
+    const query = `
+      ${DETAILS_QUERY}
+      ${whereClause}
+      ORDER BY v.status = 'pending' DESC, v.created_at ASC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+    const countQuery = `SELECT COUNT(*) FROM identity_verifications v ${whereClause}`;
+
+    const [result, countResult] = await Promise.all([
+      pool.query(query, [...values, limit, (page - 1) * limit]),
+      pool.query(countQuery, values)
+    ]);
+
+    return {
+      verifications: result.rows,
+      total: parseInt(countResult.rows[0].count)
+    };
+  }
+
+  /**
+   * Record the decision on a pending request; returns null when it was reviewed already
+   */
+  static async review(
+    id: string,
+    status: 'approved' | 'rejected',
+    reviewerId: string,
+    notes?: string
+  ): Promise<IdentityVerification | null> {
+    const query = `
+      UPDATE identity_verifications
+      SET status = $2, reviewed_by = $3, review_notes = $4, reviewed_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'pending'
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, status, reviewerId, notes || null]);
+    return result.rows[0] || null;
+  }
+}
@@ -0,0 +1,177 @@
+import pool, { withTransaction } from '../config/database';
+import { Transaction } from '../types/database';
+
+export type InvoiceDocumentType = 'invoice' | 'credit_note' | 'withdrawal_receipt';
+
+export const INVOICE_NUMBER_PREFIXES: Record<InvoiceDocumentType, string> = {
+  invoice: 'INV',
+  credit_note: 'CN',
+  withdrawal_receipt: 'WR'
+};
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface InvoiceTaxLine {
+  name: string;
+  rate: number;
+  // Amounts include the tax, so this is the part of the total it was worked out from
+  taxable_amount: number;
+  amount: number;
+}
+
+export interface InvoiceParty {
+  name: string;
+  email?: string;
+  address?: string;
+  tax_id?: string;
+}
+
+export interface Invoice {
+  id: string;
+  number: string;
+  document_type: InvoiceDocumentType;
+  transaction_id: string;
+  user_id: string;
+  currency: string;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  line_items: InvoiceLineItem[];
+  tax_lines: InvoiceTaxLine[];
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  file_name?: string;
+  issued_at: Date;
+  created_at: Date;
+}
+
+export interface CreateInvoiceInput {
+  document_type: InvoiceDocumentType;
+  transaction_id: string;
+  user_id: string;
+  currency: string;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  line_items: InvoiceLineItem[];
+  tax_lines: InvoiceTaxLine[];
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+}
+
+// DECIMAL columns arrive as strings
+const toInvoice = (row: any): Invoice => ({
+  ...row,
+  subtotal: parseFloat(row.subtotal),
+  tax_total: parseFloat(row.tax_total),
+  total: parseFloat(row.total)
+});
+
+export class InvoiceModel {
+  /**
+   * Issue a document under the next number of its type for the current year. Returns null when the
+   * transaction already has one; that insert rolls the counter back with it, so numbers have no gaps.
+   */
+  static async create(input: CreateInvoiceInput): Promise<Invoice | null> {
+    try {
+      return await withTransaction(async client => {
+        const year = new Date().getFullYear();
+        const counter = await client.query(`
+          INSERT INTO invoice_counters (document_type, year, last_number)
+          VALUES ($1, $2, 1)
+          ON CONFLICT (document_type, year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+          RETURNING last_number
+        `, [input.document_type, year]);
+
+        const sequence = String(counter.rows[0].last_number).padStart(6, '0');
+        const number = `${INVOICE_NUMBER_PREFIXES[input.document_type]}-${year}-${sequence}`;
+
+        const result = await client.query(`
+          INSERT INTO invoices (
+            number, document_type, transaction_id, user_id, currency, subtotal, tax_total, total,
+            line_items, tax_lines, seller, buyer
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          RETURNING *
+        `, [
+          number,
+          input.document_type,
+          input.transaction_id,
+          input.user_id,
+          input.currency,
+          input.subtotal,
+          input.tax_total,
+          input.total,
+          JSON.stringify(input.line_items),
+          JSON.stringify(input.tax_lines),
+          JSON.stringify(input.seller),
+          JSON.stringify(input.buyer)
+        ]);
+
+        return toInvoice(result.rows[0]);
+      });
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  static async findById(id: string): Promise<Invoice | null> {
+    const result = await pool.query('SELECT * FROM invoices WHERE id = $1', [id]);
+    return result.rows[0] ? toInvoice(result.rows[0]) : null;
+  }
+
+  static async findByTransactionId(transactionId: string): Promise<Invoice | null> {
+    const result = await pool.query('SELECT * FROM invoices WHERE transaction_id = $1', [transactionId]);
+    return result.rows[0] ? toInvoice(result.rows[0]) : null;
+  }
+
+  static async listByUser(userId: string, page: number = 1, limit: number = 20): Promise<{
+    invoices: Invoice[];
+    total: number;
+  }> {
+    const [invoices, count] = await Promise.all([
+      pool.query(`
+        SELECT * FROM invoices
+        WHERE user_id = $1
+        ORDER BY issued_at DESC, number DESC
+        LIMIT $2 OFFSET $3
+      `, [userId, limit, (page - 1) * limit]),
+      pool.query('SELECT COUNT(*) FROM invoices WHERE user_id = $1', [userId])
+    ]);
+
+    return {
+      invoices: invoices.rows.map(toInvoice),
+      total: parseInt(count.rows[0].count)
+    };
+  }
+
+  static async setFileName(id: string, fileName: string): Promise<void> {
+    await pool.query('UPDATE invoices SET file_name = $2 WHERE id = $1', [id, fileName]);
+  }
+
+  /**
+   * Completed payments, refunds and withdrawals that have no document yet, oldest first
+   */
+  static async findTransactionsWithoutInvoice(limit: number = 100): Promise<Transaction[]> {
+    const query = `
+      SELECT t.* FROM transactions t
+      LEFT JOIN invoices i ON i.transaction_id = t.id
+      WHERE i.id IS NULL
+        AND t.status = 'completed'
+        AND t.type IN ('payment', 'top_up', 'refund', 'withdrawal')
+      ORDER BY t.processed_at NULLS LAST, t.created_at
+      LIMIT $1
+    `;
+
+    const result = await pool.query(query, [limit]);
+    return result.rows;
+  }
+}
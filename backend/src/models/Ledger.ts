@@ -0,0 +1,227 @@
+import pool, { DatabaseClient } from '../config/database';
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue';
+export type LedgerDirection = 'debit' | 'credit';
+
+// Accounts created by the ledger migrations, as {code}:{currency} outside USD; user wallets use user:{userId}
+export type LedgerSystemAccount =
+  | 'stripe_clearing'
+  | 'withdrawal_payouts'
+  | 'wallet_holds'
+  | 'developer_payables'
+  | 'platform_revenue'
+  | 'platform_equity';
+
+export interface LedgerAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  user_id?: string;
+  currency: string;
+  created_at: Date;
+}
+
+export interface LedgerEntry {
+  id: string;
+  transaction_id?: string;
+  description: string;
+  created_at: Date;
+}
+
+export interface LedgerPosting {
+  id: string;
+  entry_id: string;
+  account_id: string;
+  direction: LedgerDirection;
+  amount: number;
+  created_at: Date;
+}
+
+export interface LedgerPostingInput {
+  account_id: string;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+export interface CreateLedgerEntryInput {
+  transaction_id?: string;
+  description: string;
+  postings: LedgerPostingInput[];
+}
+
+export interface LedgerDiscrepancy {
+  id: string;
+  user_id: string;
+  cached_balance: number;
+  ledger_balance: number;
+  detected_at: Date;
+  resolved_at?: Date;
+}
+
+// Balance of a user wallet: credits are money the platform owes the user
+const USER_BALANCE_SQL = `
+  COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE -p.amount END), 0)
+`;
+
+export class LedgerModel {
+  static async findAccountByCode(code: string, db: DatabaseClient = pool): Promise<LedgerAccount | null> {
+    const query = 'SELECT * FROM ledger_accounts WHERE code = $1';
+    const result = await db.query(query, [code]);
+    return result.rows[0] || null;
+  }
+
+  // Wallet accounts are opened lazily, the first time money moves for the user in a currency;
+  // the USD wallet is user:{userId}, the others user:{userId}:{currency}
+  static async findOrCreateUserAccount(userId: string, currency: string, db: DatabaseClient = pool): Promise<LedgerAccount> {
+    const query = `
+      INSERT INTO ledger_accounts (code, name, type, user_id, currency)
+      SELECT
+        CASE WHEN $2 = 'USD' THEN 'user:' || id ELSE 'user:' || id || ':' || $2 END,
+        CASE WHEN $2 = 'USD' THEN 'User wallet ' || email ELSE 'User wallet ' || email || ' (' || $2 || ')' END,
+        'liability',
+        id,
+        $2
+      FROM users
+      WHERE id = $1
+      ON CONFLICT (code) DO UPDATE SET code = EXCLUDED.code
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [userId, currency]);
+    if (!result.rows[0]) {
+      throw new Error('User not found');
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Write an entry with its postings. Debits must equal credits; the database re-checks this at commit.
+   */
+  static async createEntry(input: CreateLedgerEntryInput, db: DatabaseClient = pool): Promise<LedgerEntry> {
+    const difference = input.postings.reduce(
+      (sum, posting) => sum + (posting.direction === 'debit' ? posting.amount : -posting.amount),
+      0
+    );
+    if (input.postings.length < 2 || Math.abs(difference) >= 0.005) {
+      throw new Error('Ledger entry is unbalanced');
+    }
+
+    const entryResult = await db.query(
+      'INSERT INTO ledger_entries (transaction_id, description) VALUES ($1, $2) RETURNING *',
+      [input.transaction_id || null, input.description]
+    );
+    const entry: LedgerEntry = entryResult.rows[0];
+
+    await db.query(`
+      INSERT INTO ledger_postings (entry_id, account_id, direction, amount)
+      SELECT $1, account_id, direction, amount
+      FROM unnest($2::uuid[], $3::text[], $4::numeric[]) AS p(account_id, direction, amount)
+    `, [
+      entry.id,
+      input.postings.map(posting => posting.account_id),
+      input.postings.map(posting => posting.direction),
+      input.postings.map(posting => posting.amount)
+    ]);
+
+    return entry;
+  }
+
+  static async getUserBalance(userId: string, currency: string, db: DatabaseClient = pool): Promise<number> {
+    const query = `
+      SELECT ${USER_BALANCE_SQL} as balance
+      FROM ledger_accounts a
+      JOIN ledger_postings p ON p.account_id = a.id
+      WHERE a.user_id = $1 AND a.currency = $2
+    `;
+
+    const result = await db.query(query, [userId, currency]);
+    return parseFloat(result.rows[0]?.balance) || 0;
+  }
+
+  /**
+   * The balance of every wallet of a user, keyed by currency
+   */
+  static async getUserBalances(userId: string): Promise<Record<string, number>> {
+    const query = `
+      SELECT a.currency, ${USER_BALANCE_SQL} as balance
+      FROM ledger_accounts a
+      JOIN ledger_postings p ON p.account_id = a.id
+      WHERE a.user_id = $1
+      GROUP BY a.currency
+    `;
+
+    const result = await pool.query(query, [userId]);
+    return Object.fromEntries(result.rows.map(row => [row.currency, parseFloat(row.balance) || 0]));
+  }
+
+  /**
+   * Users whose cached users.balance differs from their USD wallet in the ledger
+   */
+  static async findBalanceMismatches(): Promise<Array<{
+    user_id: string;
+    cached_balance: number;
+    ledger_balance: number;
+  }>> {
+    const query = `
+      SELECT u.id as user_id, u.balance as cached_balance, COALESCE(l.balance, 0) as ledger_balance
+      FROM users u
+      LEFT JOIN (
+        SELECT a.user_id, ${USER_BALANCE_SQL} as balance
+        FROM ledger_accounts a
+        JOIN ledger_postings p ON p.account_id = a.id
+        WHERE a.user_id IS NOT NULL AND a.currency = 'USD'
+        GROUP BY a.user_id
+      ) l ON l.user_id = u.id
+      WHERE u.balance <> COALESCE(l.balance, 0)
+    `;
+
+    const result = await pool.query(query);
+    return result.rows.map(row => ({
+      user_id: row.user_id,
+      cached_balance: parseFloat(row.cached_balance),
+      ledger_balance: parseFloat(row.ledger_balance)
+    }));
+  }
+
+  // Keeps the first detection time of a discrepancy that is still open, refreshing the amounts
+  static async recordDiscrepancy(userId: string, cachedBalance: number, ledgerBalance: number): Promise<LedgerDiscrepancy> {
+    const query = `
+      INSERT INTO ledger_discrepancies (user_id, cached_balance, ledger_balance)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id) WHERE resolved_at IS NULL
+      DO UPDATE SET cached_balance = EXCLUDED.cached_balance, ledger_balance = EXCLUDED.ledger_balance
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [userId, cachedBalance, ledgerBalance]);
+    return result.rows[0];
+  }
+
+  // Closes open discrepancies of users whose balances agree again
+  static async resolveDiscrepancies(exceptUserIds: string[]): Promise<number> {
+    const query = `
+      UPDATE ledger_discrepancies
+      SET resolved_at = NOW()
+      WHERE resolved_at IS NULL AND NOT (user_id = ANY($1::uuid[]))
+    `;
+
+    const result = await pool.query(query, [exceptUserIds]);
+    return result.rowCount || 0;
+  }
+
+  static async listOpenDiscrepancies(): Promise<LedgerDiscrepancy[]> {
+    const query = `
+      SELECT * FROM ledger_discrepancies
+      WHERE resolved_at IS NULL
+      ORDER BY detected_at
+    `;
+
+    const result = await pool.query(query);
+    return result.rows.map(row => ({
+      ...row,
+      cached_balance: parseFloat(row.cached_balance),
+      ledger_balance: parseFloat(row.ledger_balance)
+    }));
+  }
+}
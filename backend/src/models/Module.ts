@@ -15,6 +15,7 @@ export class ModuleModel {
       description,
       category,
       price,
+      currency,
       developer_id,
       code_url,
       documentation_url,
@@ -24,10 +25,10 @@ export class ModuleModel {
 
     const query = `
       INSERT INTO modules (
-        name, description, category, price, developer_id, 
+        name, description, category, price, currency, developer_id, 
         code_url, documentation_url, api_endpoints, webhook_required
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *
     `;
 
@@ -36,6 +37,7 @@ export class ModuleModel {
       description,
       category,
       price,
+      currency,
       developer_id,
       code_url,
       documentation_url,
@@ -207,6 +209,7 @@ export class ModuleModel {
     return this.list({ ...filters, status: 'approved' });
   }
 
+  // Revenue is in the currency the module is priced in
   static async getModuleStats(moduleId: string): Promise<{
     total_installations: number;
     active_installations: number;
@@ -220,12 +223,12 @@ export class ModuleModel {
         COUNT(bma.id) as total_installations,
         COUNT(CASE WHEN bma.status = 'active' THEN 1 END) as active_installations,
         COALESCE(SUM(
-          (SELECT COALESCE(SUM(amount), 0) FROM transactions 
+          (SELECT COALESCE(SUM(convert_currency(amount, currency, fx_rates, m.currency)), 0) FROM transactions 
            WHERE type = 'payment' AND status = 'completed'
            AND metadata->>'module_id' = m.id::text)
         ), 0) as total_revenue,
         COALESCE(SUM(
-          (SELECT COALESCE(SUM(amount), 0) FROM transactions 
+          (SELECT COALESCE(SUM(convert_currency(amount, currency, fx_rates, m.currency)), 0) FROM transactions 
            WHERE type = 'payment' AND status = 'completed'
            AND metadata->>'module_id' = m.id::text
            AND created_at >= date_trunc('month', CURRENT_DATE))
@@ -0,0 +1,55 @@
+import pool from '../config/database';
+
+export interface ModuleActivationStateEntry {
+  activation_id: string;
+  key: string;
+  value: any;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class ModuleActivationStateModel {
+  static async list(activationId: string): Promise<ModuleActivationStateEntry[]> {
+    const query = `
+      SELECT * FROM module_activation_state 
+      WHERE activation_id = $1 
+      ORDER BY key ASC
+    `;
+
+    const result = await pool.query(query, [activationId]);
+    return result.rows;
+  }
+
+  static async get(activationId: string, key: string): Promise<ModuleActivationStateEntry | null> {
+    const query = 'SELECT * FROM module_activation_state WHERE activation_id = $1 AND key = $2';
+    const result = await pool.query(query, [activationId, key]);
+    return result.rows[0] || null;
+  }
+
+  static async set(activationId: string, key: string, value: any): Promise<ModuleActivationStateEntry> {
+    const query = `
+      INSERT INTO module_activation_state (activation_id, key, value)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (activation_id, key) 
+      DO UPDATE SET 
+        value = EXCLUDED.value,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [activationId, key, JSON.stringify(value)]);
+    return result.rows[0];
+  }
+
+  static async delete(activationId: string, key: string): Promise<boolean> {
+    const query = 'DELETE FROM module_activation_state WHERE activation_id = $1 AND key = $2';
+    const result = await pool.query(query, [activationId, key]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async count(activationId: string): Promise<number> {
+    const query = 'SELECT COUNT(*) FROM module_activation_state WHERE activation_id = $1';
+    const result = await pool.query(query, [activationId]);
+    return parseInt(result.rows[0].count);
+  }
+}
@@ -0,0 +1,60 @@
+import pool from '../config/database';
+
+export interface ModuleApiAuditLog {
+  id: string;
+  activation_id?: string;
+  method: string;
+  path: string;
+  status_code: number;
+  ip_address?: string;
+  duration_ms?: number;
+  created_at: Date;
+}
+
+export interface CreateModuleApiAuditLogInput {
+  activation_id?: string;
+  method: string;
+  path: string;
+  status_code: number;
+  ip_address?: string;
+  duration_ms?: number;
+}
+
+export class ModuleApiAuditLogModel {
+  static async create(input: CreateModuleApiAuditLogInput): Promise<ModuleApiAuditLog> {
+    const { activation_id, method, path, status_code, ip_address, duration_ms } = input;
+
+    const query = `
+      INSERT INTO module_api_audit_logs (
+        activation_id, method, path, status_code, ip_address, duration_ms
+      )
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const values = [activation_id, method, path, status_code, ip_address, duration_ms];
+
+    const result = await pool.query(query, values);
+    return result.rows[0];
+  }
+
+  static async findByActivationId(
+    activationId: string,
+    options: {
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<ModuleApiAuditLog[]> {
+    const { limit = 100, offset = 0 } = options;
+
+    const query = `
+      SELECT * FROM module_api_audit_logs 
+      WHERE activation_id = $1 
+      ORDER BY created_at DESC
+      LIMIT $2 OFFSET $3
+    `;
+
+    const result = await pool.query(query, [activationId, limit, offset]);
+    return result.rows;
+  }
+}
@@ -0,0 +1,54 @@
+import pool from '../config/database';
+
+export type BillingInterval = 'month' | 'year';
+
+export interface ModulePlan {
+  id: string;
+  module_id: string;
+  billing_interval: BillingInterval;
+  price: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UpsertModulePlanInput {
+  billing_interval: BillingInterval;
+  price: number;
+  is_active?: boolean;
+}
+
+export class ModulePlanModel {
+  static async findById(id: string): Promise<ModulePlan | null> {
+    const query = 'SELECT * FROM module_plans WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByModuleId(moduleId: string, activeOnly: boolean = false): Promise<ModulePlan[]> {
+    const query = `
+      SELECT * FROM module_plans
+      WHERE module_id = $1 ${activeOnly ? 'AND is_active = true' : ''}
+      ORDER BY CASE billing_interval WHEN 'month' THEN 0 ELSE 1 END
+    `;
+
+    const result = await pool.query(query, [moduleId]);
+    return result.rows;
+  }
+
+  // A module has at most one plan per interval; saving an interval again changes its price
+  static async upsert(moduleId: string, input: UpsertModulePlanInput): Promise<ModulePlan> {
+    const { billing_interval, price, is_active = true } = input;
+
+    const query = `
+      INSERT INTO module_plans (module_id, billing_interval, price, is_active)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (module_id, billing_interval)
+      DO UPDATE SET price = EXCLUDED.price, is_active = EXCLUDED.is_active
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [moduleId, billing_interval, price, is_active]);
+    return result.rows[0];
+  }
+}
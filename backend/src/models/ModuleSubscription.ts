@@ -0,0 +1,183 @@
+import pool, { DatabaseClient } from '../config/database';
+import { BillingInterval } from './ModulePlan';
+import { CurrencyCode } from '../types/database';
+
+export type ModuleSubscriptionStatus = 'active' | 'past_due' | 'cancelled' | 'expired';
+
+export interface ModuleSubscription {
+  id: string;
+  activation_id: string;
+  plan_id: string;
+  user_id: string;
+  status: ModuleSubscriptionStatus;
+  markup_percentage: number;
+  current_period_start: Date;
+  current_period_end: Date;
+  cancel_at_period_end: boolean;
+  failed_renewal_attempts: number;
+  next_renewal_attempt_at?: Date;
+  grace_period_ends_at?: Date;
+  last_renewal_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A subscription together with what renewing it needs
+export interface ModuleSubscriptionDetails extends ModuleSubscription {
+  bot_id: string;
+  bot_name: string;
+  module_id: string;
+  module_name: string;
+  billing_interval: BillingInterval;
+  // Plans are priced in the currency of their module
+  price: number;
+  currency: CurrencyCode;
+}
+
+export interface CreateModuleSubscriptionInput {
+  activation_id: string;
+  plan_id: string;
+  user_id: string;
+  markup_percentage: number;
+  current_period_start: Date;
+  current_period_end: Date;
+}
+
+export interface UpdateModuleSubscriptionInput {
+  status?: ModuleSubscriptionStatus;
+  current_period_start?: Date;
+  current_period_end?: Date;
+  cancel_at_period_end?: boolean;
+  failed_renewal_attempts?: number;
+  next_renewal_attempt_at?: Date | null;
+  grace_period_ends_at?: Date | null;
+  last_renewal_error?: string | null;
+}
+
+const DETAILS_QUERY = `
+  SELECT
+    s.*,
+    bma.bot_id,
+    b.name as bot_name,
+    bma.module_id,
+    m.name as module_name,
+    p.billing_interval,
+    p.price,
+    m.currency
+  FROM module_subscriptions s
+  JOIN bot_module_activations bma ON s.activation_id = bma.id
+  JOIN bots b ON bma.bot_id = b.id
+  JOIN modules m ON bma.module_id = m.id
+  JOIN module_plans p ON s.plan_id = p.id
+`;
+
+export class ModuleSubscriptionModel {
+  /**
+   * Start a subscription for an activation; buying a plan again for the same activation starts it over
+   */
+  static async create(input: CreateModuleSubscriptionInput): Promise<ModuleSubscription> {
+    const { activation_id, plan_id, user_id, markup_percentage, current_period_start, current_period_end } = input;
+
+    const query = `
+      INSERT INTO module_subscriptions (
+        activation_id, plan_id, user_id, markup_percentage, current_period_start, current_period_end
+      )
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (activation_id) DO UPDATE SET
+        plan_id = EXCLUDED.plan_id,
+        user_id = EXCLUDED.user_id,
+        markup_percentage = EXCLUDED.markup_percentage,
+        current_period_start = EXCLUDED.current_period_start,
+        current_period_end = EXCLUDED.current_period_end,
+        status = 'active',
+        cancel_at_period_end = false,
+        failed_renewal_attempts = 0,
+        next_renewal_attempt_at = NULL,
+        grace_period_ends_at = NULL,
+        last_renewal_error = NULL
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [
+      activation_id,
+      plan_id,
+      user_id,
+      markup_percentage,
+      current_period_start,
+      current_period_end
+    ]);
+    return result.rows[0];
+  }
+
+  static async findById(id: string): Promise<ModuleSubscriptionDetails | null> {
+    const query = `${DETAILS_QUERY} WHERE s.id = $1`;
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByActivationId(activationId: string): Promise<ModuleSubscription | null> {
+    const query = 'SELECT * FROM module_subscriptions WHERE activation_id = $1';
+    const result = await pool.query(query, [activationId]);
+    return result.rows[0] || null;
+  }
+
+  static async findByUserId(userId: string): Promise<ModuleSubscriptionDetails[]> {
+    const query = `${DETAILS_QUERY} WHERE s.user_id = $1 ORDER BY s.created_at DESC`;
+    const result = await pool.query(query, [userId]);
+    return result.rows;
+  }
+
+  /**
+   * Claim the subscriptions whose renewal is due: active ones whose period ends before renewBefore,
+   * and past due ones whose next retry has come. Claimed rows are not offered again for claimFor,
+   * so two scheduler replicas never charge the same subscription twice.
+   */
+  static async claimDueForRenewal(renewBefore: Date, claimFor: Date, limit: number = 100): Promise<ModuleSubscriptionDetails[]> {
+    const query = `
+      WITH due AS (
+        SELECT id FROM module_subscriptions
+        WHERE (next_renewal_attempt_at IS NULL OR next_renewal_attempt_at <= CURRENT_TIMESTAMP)
+          AND (
+            (status = 'active' AND cancel_at_period_end = false AND current_period_end <= $1)
+            OR (status = 'past_due' AND grace_period_ends_at > CURRENT_TIMESTAMP)
+          )
+        ORDER BY current_period_end
+        LIMIT $3
+        FOR UPDATE SKIP LOCKED
+      ), claimed AS (
+        UPDATE module_subscriptions s
+        SET next_renewal_attempt_at = $2
+        FROM due
+        WHERE s.id = due.id
+        RETURNING s.id
+      )
+      ${DETAILS_QUERY}
+      JOIN claimed ON claimed.id = s.id
+    `;
+
+    const result = await pool.query(query, [renewBefore, claimFor, limit]);
+    return result.rows;
+  }
+
+  static async update(
+    id: string,
+    input: UpdateModuleSubscriptionInput,
+    db: DatabaseClient = pool
+  ): Promise<ModuleSubscription | null> {
+    const fields = Object.keys(input);
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const query = `
+      UPDATE module_subscriptions
+      SET ${setClause}
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [id, ...Object.values(input)]);
+    return result.rows[0] || null;
+  }
+}
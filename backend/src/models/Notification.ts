@@ -11,6 +11,8 @@ export type NotificationType =
   | 'withdrawal_failed'
   | 'module_activated'
   | 'module_expired'
+  | 'subscription_renewal_failed'
+  | 'verification_reviewed'
   | 'referral_commission'
   | 'system_announcement'
   | 'support_ticket_created'
@@ -257,10 +259,13 @@ export class NotificationModel {
   }
 
   static async getPendingBroadcasts(): Promise<BroadcastNotification[]> {
+    // Broadcasts of suspended accounts wait until the account is reinstated
     const query = `
-      SELECT * FROM broadcast_notifications 
-      WHERE status = 'scheduled' AND scheduled_at <= CURRENT_TIMESTAMP
-      ORDER BY scheduled_at ASC
+      SELECT bn.* FROM broadcast_notifications bn
+      LEFT JOIN users u ON u.id::text = bn.target_audience->>'user_id'
+      WHERE bn.status = 'scheduled' AND bn.scheduled_at <= CURRENT_TIMESTAMP
+        AND (u.status IS NULL OR u.status <> 'suspended')
+      ORDER BY bn.scheduled_at ASC
     `;
     
     const result = await pool.query(query);
@@ -305,6 +310,25 @@ export class NotificationModel {
     return result.rows[0] || null;
   }
 
+  // Atomically move a broadcast between statuses, optionally merging top-level metadata keys;
+  // returns null if it was not in one of the expected statuses
+  static async transitionBroadcastStatus(
+    id: string,
+    fromStatuses: string[],
+    toStatus: string,
+    metadataPatch: Record<string, any> = {}
+  ): Promise<BroadcastNotification | null> {
+    const query = `
+      UPDATE broadcast_notifications
+      SET status = $2, metadata = COALESCE(metadata, '{}'::jsonb) || $4::jsonb, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = ANY($3)
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, toStatus, fromStatuses, JSON.stringify(metadataPatch)]);
+    return result.rows[0] || null;
+  }
+
   static async listBroadcasts(options: {
     status?: string;
     limit?: number;
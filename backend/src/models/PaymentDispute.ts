@@ -0,0 +1,180 @@
+import pool, { DatabaseClient } from '../config/database';
+
+export type PaymentDisputeStatus = 'open' | 'won' | 'lost';
+
+export interface PaymentDispute {
+  id: string;
+  transaction_id: string;
+  stripe_dispute_id: string;
+  stripe_charge_id?: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+  status: PaymentDisputeStatus;
+  stripe_status?: string;
+  evidence: Record<string, string>;
+  evidence_due_by?: Date;
+  evidence_submitted_at?: Date;
+  assigned_to?: string;
+  notes?: string;
+  resolved_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A dispute together with the payment it was opened against, as the admin panel shows it
+export interface PaymentDisputeDetails extends PaymentDispute {
+  user_id: string;
+  user_email: string;
+  payment_amount: number;
+  payment_description?: string;
+  module_id?: string;
+  bot_id?: string;
+}
+
+export interface CreatePaymentDisputeInput {
+  transaction_id: string;
+  stripe_dispute_id: string;
+  stripe_charge_id?: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+  stripe_status?: string;
+  evidence_due_by?: Date;
+}
+
+export interface UpdatePaymentDisputeInput {
+  status?: PaymentDisputeStatus;
+  stripe_status?: string;
+  evidence?: Record<string, string>;
+  evidence_due_by?: Date;
+  evidence_submitted_at?: Date;
+  assigned_to?: string;
+  notes?: string;
+  resolved_at?: Date;
+}
+
+const DETAILS_QUERY = `
+  SELECT
+    d.*,
+    t.user_id,
+    u.email as user_email,
+    t.amount as payment_amount,
+    t.description as payment_description,
+    t.metadata->>'module_id' as module_id,
+    t.metadata->>'bot_id' as bot_id
+  FROM payment_disputes d
+  JOIN transactions t ON d.transaction_id = t.id
+  JOIN users u ON t.user_id = u.id
+`;
+
+export class PaymentDisputeModel {
+  /**
+   * Record a dispute; returns null when it was recorded already
+   */
+  static async create(input: CreatePaymentDisputeInput, db: DatabaseClient = pool): Promise<PaymentDispute | null> {
+    const query = `
+      INSERT INTO payment_disputes (
+        transaction_id, stripe_dispute_id, stripe_charge_id, amount, currency, reason, stripe_status, evidence_due_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (stripe_dispute_id) DO NOTHING
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [
+      input.transaction_id,
+      input.stripe_dispute_id,
+      input.stripe_charge_id || null,
+      input.amount,
+      input.currency,
+      input.reason || null,
+      input.stripe_status || null,
+      input.evidence_due_by || null
+    ]);
+    return result.rows[0] || null;
+  }
+
+  static async findById(id: string): Promise<PaymentDisputeDetails | null> {
+    const query = `${DETAILS_QUERY} WHERE d.id = $1`;
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByStripeDisputeId(stripeDisputeId: string): Promise<PaymentDispute | null> {
+    const query = 'SELECT * FROM payment_disputes WHERE stripe_dispute_id = $1';
+    const result = await pool.query(query, [stripeDisputeId]);
+    return result.rows[0] || null;
+  }
+
+  // Holds the dispute row until the caller's transaction ends, so a dispute is settled once
+  static async findByStripeDisputeIdForUpdate(stripeDisputeId: string, db: DatabaseClient): Promise<PaymentDispute | null> {
+    const query = 'SELECT * FROM payment_disputes WHERE stripe_dispute_id = $1 FOR UPDATE';
+    const result = await db.query(query, [stripeDisputeId]);
+    return result.rows[0] || null;
+  }
+
+  // Withdrawals of a user wait while a top-up of theirs is disputed
+  static async hasOpenTopUpDispute(userId: string): Promise<boolean> {
+    const query = `
+      SELECT EXISTS (
+        SELECT 1 FROM payment_disputes d
+        JOIN transactions t ON d.transaction_id = t.id
+        WHERE t.user_id = $1 AND t.type = 'top_up' AND d.status = 'open'
+      ) as disputed
+    `;
+    const result = await pool.query(query, [userId]);
+    return result.rows[0].disputed;
+  }
+
+  // Open disputes come first, the ones whose evidence is due soonest at the top
+  static async list(filters: {
+    status?: PaymentDisputeStatus;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{ disputes: PaymentDisputeDetails[]; total: number }> {
+    const { status, page = 1, limit = 20 } = filters;
+    const whereClause = status ? 'WHERE d.status = $1' : '';
+    const values: any[] = status ? [status] : [];
+
+    const query = `
+      ${DETAILS_QUERY}
+      ${whereClause}
+      ORDER BY d.status = 'open' DESC, d.evidence_due_by ASC NULLS LAST, d.created_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+    const countQuery = `SELECT COUNT(*) FROM payment_disputes d ${whereClause}`;
+
+    const [result, countResult] = await Promise.all([
+      pool.query(query, [...values, limit, (page - 1) * limit]),
+      pool.query(countQuery, values)
+    ]);
+
+    return {
+      disputes: result.rows,
+      total: parseInt(countResult.rows[0].count)
+    };
+  }
+
+  static async update(id: string, input: UpdatePaymentDisputeInput, db: DatabaseClient = pool): Promise<PaymentDispute | null> {
+    const fields = Object.keys(input);
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const values = Object.values(input).map(value =>
+      value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value
+    );
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const query = `
+      UPDATE payment_disputes
+      SET ${setClause}
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [id, ...values]);
+    return result.rows[0] || null;
+  }
+}
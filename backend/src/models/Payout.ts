@@ -0,0 +1,135 @@
+import pool, { DatabaseClient } from '../config/database';
+
+export type PayoutProviderName = 'stripe_connect' | 'paypal' | 'manual' | 'fake';
+
+export type PayoutStatus = 'processing' | 'paid' | 'failed';
+
+export interface Payout {
+  id: string;
+  transaction_id: string;
+  provider: PayoutProviderName;
+  status: PayoutStatus;
+  amount: number;
+  currency: string;
+  reference_id?: string;
+  failure_reason?: string;
+  provider_response: Record<string, any>;
+  approved_by?: string;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePayoutInput {
+  transaction_id: string;
+  provider: PayoutProviderName;
+  amount: number;
+  currency: string;
+  approved_by?: string;
+}
+
+export interface UpdatePayoutInput {
+  status?: PayoutStatus;
+  reference_id?: string;
+  failure_reason?: string | null;
+  provider_response?: Record<string, any>;
+  completed_at?: Date;
+}
+
+export class PayoutModel {
+  /**
+   * Record the payout of a withdrawal; returns null when the withdrawal already has one or is no longer
+   * pending. The withdrawal row is locked while the payout is inserted, so it cannot be cancelled or
+   * rejected in between; LedgerService.releaseWithdrawal checks for the payout under the same lock.
+   */
+  static async create(input: CreatePayoutInput): Promise<Payout | null> {
+    const query = `
+      INSERT INTO payouts (transaction_id, provider, amount, currency, approved_by)
+      SELECT id, $2, $3, $4, $5
+      FROM transactions
+      WHERE id = $1 AND type = 'withdrawal' AND status = 'pending'
+      FOR UPDATE
+      ON CONFLICT (transaction_id) DO NOTHING
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [
+      input.transaction_id,
+      input.provider,
+      input.amount,
+      input.currency,
+      input.approved_by || null
+    ]);
+    return result.rows[0] || null;
+  }
+
+  static async findById(id: string): Promise<Payout | null> {
+    const query = 'SELECT * FROM payouts WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByTransactionId(transactionId: string, db: DatabaseClient = pool): Promise<Payout | null> {
+    const query = 'SELECT * FROM payouts WHERE transaction_id = $1';
+    const result = await db.query(query, [transactionId]);
+    return result.rows[0] || null;
+  }
+
+  static async findByReference(provider: PayoutProviderName, referenceId: string): Promise<Payout | null> {
+    const query = 'SELECT * FROM payouts WHERE provider = $1 AND reference_id = $2';
+    const result = await pool.query(query, [provider, referenceId]);
+    return result.rows[0] || null;
+  }
+
+  static async update(id: string, input: UpdatePayoutInput): Promise<Payout | null> {
+    const fields = Object.keys(input);
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const values = Object.values(input).map(value =>
+      value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value
+    );
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const query = `
+      UPDATE payouts
+      SET ${setClause}
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, ...values]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Move a processing payout to its final status. Returns null when it was no longer processing,
+   * so a provider callback delivered twice settles the withdrawal once.
+   */
+  static async finish(
+    id: string,
+    status: 'paid' | 'failed',
+    fields: { reference_id?: string; failure_reason?: string; provider_response?: Record<string, any> } = {}
+  ): Promise<Payout | null> {
+    const query = `
+      UPDATE payouts
+      SET status = $2,
+        reference_id = COALESCE($3, reference_id),
+        failure_reason = $4,
+        provider_response = COALESCE($5, provider_response),
+        completed_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [
+      id,
+      status,
+      fields.reference_id || null,
+      fields.failure_reason || null,
+      fields.provider_response ? JSON.stringify(fields.provider_response) : null
+    ]);
+    return result.rows[0] || null;
+  }
+}
@@ -0,0 +1,80 @@
+import pool from '../config/database';
+
+export type StripeEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  payload: Record<string, any>;
+  status: StripeEventStatus;
+  attempts: number;
+  last_error?: string;
+  received_at: Date;
+  processed_at?: Date;
+  updated_at: Date;
+}
+
+// An event left in processing this long belongs to a worker that died, and may be claimed again
+const STALE_PROCESSING_MINUTES = 10;
+
+export class StripeEventModel {
+  /**
+   * Record an event and claim it for processing. Returns null when it was already processed or is being
+   * processed right now, so duplicate deliveries of an event are handled once.
+   */
+  static async claim(id: string, type: string, payload: Record<string, any>): Promise<StripeEvent | null> {
+    const query = `
+      INSERT INTO stripe_events (id, type, payload)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (id) DO UPDATE SET
+        status = 'processing',
+        attempts = stripe_events.attempts + 1,
+        payload = EXCLUDED.payload
+      WHERE stripe_events.status = 'failed'
+        OR (
+          stripe_events.status = 'processing'
+          AND stripe_events.updated_at < CURRENT_TIMESTAMP - INTERVAL '${STALE_PROCESSING_MINUTES} minutes'
+        )
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, type, JSON.stringify(payload)]);
+    return result.rows[0] || null;
+  }
+
+  static async findById(id: string): Promise<StripeEvent | null> {
+    const query = 'SELECT * FROM stripe_events WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Oldest first, so replaying applies events in the order Stripe sent them
+  static async findFailed(limit: number = 100): Promise<StripeEvent[]> {
+    const query = `
+      SELECT * FROM stripe_events
+      WHERE status = 'failed'
+      ORDER BY received_at
+      LIMIT $1
+    `;
+    const result = await pool.query(query, [limit]);
+    return result.rows;
+  }
+
+  static async markProcessed(id: string): Promise<void> {
+    const query = `
+      UPDATE stripe_events
+      SET status = 'processed', processed_at = CURRENT_TIMESTAMP, last_error = NULL
+      WHERE id = $1
+    `;
+    await pool.query(query, [id]);
+  }
+
+  static async markFailed(id: string, error: string): Promise<void> {
+    const query = `
+      UPDATE stripe_events
+      SET status = 'failed', last_error = $2
+      WHERE id = $1
+    `;
+    await pool.query(query, [id, error]);
+  }
+}
@@ -1,27 +1,28 @@
-import pool from '../config/database';
+import pool, { DatabaseClient } from '../config/database';
 import { Transaction, CreateTransactionInput, UpdateTransactionInput, TransactionType, TransactionStatus } from '../types/database';
 import { createTransactionSchema, updateTransactionSchema } from '../validation/schemas';
 
 export class TransactionModel {
-  static async create(input: CreateTransactionInput): Promise<Transaction> {
+  static async create(input: CreateTransactionInput, db: DatabaseClient = pool): Promise<Transaction> {
     // Validate input
     const { error, value } = createTransactionSchema.validate(input);
     if (error) {
       throw new Error(`Validation error: ${error.details[0]?.message || 'Invalid input'}`);
     }
 
-    const { user_id, type, amount, currency, description, metadata } = value;
+    const { user_id, type, amount, currency, status, description, metadata } = value;
 
+    // Transactions created as completed are processed the moment they are recorded
     const query = `
-      INSERT INTO transactions (user_id, type, amount, currency, description, metadata)
-      VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO transactions (user_id, type, amount, currency, status, description, metadata, processed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, CASE WHEN $5 = 'completed' THEN NOW() END)
       RETURNING *
     `;
 
-    const values = [user_id, type, amount, currency, description, JSON.stringify(metadata || {})];
+    const values = [user_id, type, amount, currency, status, description, JSON.stringify(metadata || {})];
 
     try {
-      const result = await pool.query(query, values);
+      const result = await db.query(query, values);
       return result.rows[0];
     } catch (error: any) {
       if (error.code === '23503') { // Foreign key violation
@@ -31,19 +32,137 @@ export class TransactionModel {
     }
   }
 
-  static async findById(id: string): Promise<Transaction | null> {
+  static async findById(id: string, db: DatabaseClient = pool): Promise<Transaction | null> {
     const query = 'SELECT * FROM transactions WHERE id = $1';
-    const result = await pool.query(query, [id]);
+    const result = await db.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Locks the row until the surrounding transaction ends, so concurrent status changes queue up
+  static async findByIdForUpdate(id: string, db: DatabaseClient): Promise<Transaction | null> {
+    const query = 'SELECT * FROM transactions WHERE id = $1 FOR UPDATE';
+    const result = await db.query(query, [id]);
     return result.rows[0] || null;
   }
 
+  static async findByStripePaymentIntentId(paymentIntentId: string): Promise<Transaction | null> {
+    const query = 'SELECT * FROM transactions WHERE stripe_payment_intent_id = $1';
+    const result = await pool.query(query, [paymentIntentId]);
+    return result.rows[0] || null;
+  }
+
+  // Refunds of a payment, oldest first
+  static async findRefundsByPayment(paymentId: string, db: DatabaseClient = pool): Promise<Transaction[]> {
+    const query = `
+      SELECT * FROM transactions
+      WHERE type = 'refund' AND metadata->>'original_transaction_id' = $1
+      ORDER BY created_at, id
+    `;
+    const result = await db.query(query, [paymentId]);
+    return result.rows;
+  }
+
+  // Commission holds taken while a dispute is open, oldest first
+  static async findDisputeHolds(disputeId: string, db: DatabaseClient = pool): Promise<Transaction[]> {
+    const query = `
+      SELECT * FROM transactions
+      WHERE type = 'adjustment' AND metadata->>'dispute_id' = $1
+        AND (metadata ? 'held_commission_id' OR metadata ? 'held_top_up_id')
+      ORDER BY created_at, id
+    `;
+    const result = await db.query(query, [disputeId]);
+    return result.rows;
+  }
+
+  // Commissions paid out of a payment, oldest first
+  static async findCommissionsByPayment(paymentId: string, db: DatabaseClient = pool): Promise<Transaction[]> {
+    const query = `
+      SELECT * FROM transactions
+      WHERE type = 'commission' AND metadata->>'original_transaction_id' = $1
+      ORDER BY created_at, id
+    `;
+    const result = await db.query(query, [paymentId]);
+    return result.rows;
+  }
+
+  /**
+   * Completed withdrawals a user was paid to a payout destination, and how many other accounts asked
+   * for withdrawals to it
+   */
+  static async getDestinationHistory(userId: string, destination: string): Promise<{
+    completed_withdrawals: number;
+    other_accounts: number;
+  }> {
+    const query = `
+      SELECT
+        COUNT(*) FILTER (WHERE user_id = $1 AND status = 'completed') as completed_withdrawals,
+        COUNT(DISTINCT user_id) FILTER (WHERE user_id <> $1) as other_accounts
+      FROM transactions
+      WHERE type = 'withdrawal' AND metadata->>'payout_destination' = $2
+    `;
+
+    const result = await pool.query(query, [userId, destination]);
+    return {
+      completed_withdrawals: parseInt(result.rows[0].completed_withdrawals),
+      other_accounts: parseInt(result.rows[0].other_accounts)
+    };
+  }
+
+  /**
+   * Money credited to a user since a date in USD, and how much of it was referral commission
+   */
+  static async getIncomeSince(userId: string, since: Date): Promise<{ total: number; referral: number }> {
+    const query = `
+      SELECT
+        COALESCE(SUM(convert_currency(amount, currency, fx_rates, 'USD')), 0) as total,
+        COALESCE(SUM(convert_currency(amount, currency, fx_rates, 'USD'))
+          FILTER (WHERE type = 'commission' AND metadata ? 'referral_user_id'), 0) as referral
+      FROM transactions
+      WHERE user_id = $1
+        AND type IN ('commission', 'top_up', 'admin_credit')
+        AND status = 'completed'
+        AND created_at >= $2
+    `;
+
+    const result = await pool.query(query, [userId, since]);
+    return {
+      total: parseFloat(result.rows[0].total),
+      referral: parseFloat(result.rows[0].referral)
+    };
+  }
+
+  /**
+   * Commissions paid to a user since a date out of payments that were refunded after the commission
+   */
+  static async getRefundedCommissions(userId: string, since: Date): Promise<{ count: number; amount: number }> {
+    const query = `
+      SELECT COUNT(*) as count, COALESCE(SUM(c.amount), 0) as amount
+      FROM transactions c
+      WHERE c.user_id = $1
+        AND c.type = 'commission'
+        AND c.created_at >= $2
+        AND EXISTS (
+          SELECT 1 FROM transactions r
+          WHERE r.type = 'refund'
+            AND r.metadata->>'original_transaction_id' = c.metadata->>'original_transaction_id'
+            AND r.created_at >= c.created_at
+        )
+    `;
+
+    const result = await pool.query(query, [userId, since]);
+    return {
+      count: parseInt(result.rows[0].count),
+      amount: parseFloat(result.rows[0].amount)
+    };
+  }
+
   static async findByUserId(userId: string): Promise<Transaction[]> {
     const query = 'SELECT * FROM transactions WHERE user_id = $1 ORDER BY created_at DESC';
     const result = await pool.query(query, [userId]);
     return result.rows;
   }
 
-  static async update(id: string, input: UpdateTransactionInput): Promise<Transaction | null> {
+  static async update(id: string, input: UpdateTransactionInput, db: DatabaseClient = pool): Promise<Transaction | null> {
     // Validate input
     const { error, value } = updateTransactionSchema.validate(input);
     if (error) {
@@ -70,11 +189,16 @@ export class TransactionModel {
     `;
 
     const values = [id, ...Object.values(processedValue)];
-    const result = await pool.query(query, values);
+    const result = await db.query(query, values);
     return result.rows[0] || null;
   }
 
-  static async updateStatus(id: string, status: TransactionStatus, processedAt?: Date): Promise<Transaction | null> {
+  static async updateStatus(
+    id: string,
+    status: TransactionStatus,
+    processedAt?: Date,
+    db: DatabaseClient = pool
+  ): Promise<Transaction | null> {
     const query = `
       UPDATE transactions 
       SET status = $2, processed_at = $3
@@ -82,7 +206,7 @@ export class TransactionModel {
       RETURNING *
     `;
 
-    const result = await pool.query(query, [id, status, processedAt || new Date()]);
+    const result = await db.query(query, [id, status, processedAt || new Date()]);
     return result.rows[0] || null;
   }
 
@@ -174,49 +298,40 @@ export class TransactionModel {
     };
   }
 
-  static async getUserBalance(userId: string): Promise<number> {
-    const query = `
-      SELECT 
-        COALESCE(SUM(
-          CASE 
-            WHEN type IN ('commission', 'refund') AND status = 'completed' THEN amount
-            WHEN type IN ('payment', 'withdrawal') AND status = 'completed' THEN -amount
-            ELSE 0
-          END
-        ), 0) as balance
-      FROM transactions 
-      WHERE user_id = $1
-    `;
-
-    const result = await pool.query(query, [userId]);
-    return parseFloat(result.rows[0].balance) || 0;
-  }
-
+  // Totals in the user's display currency, each transaction converted at the rates it was made at
   static async getUserTransactionStats(userId: string): Promise<{
     total_earned: number;
     total_spent: number;
     total_withdrawn: number;
     pending_amount: number;
+    currency: string;
   }> {
     const query = `
+      WITH converted AS (
+        SELECT t.type, t.status, convert_currency(t.amount, t.currency, t.fx_rates, u.display_currency) as amount
+        FROM transactions t
+        JOIN users u ON u.id = t.user_id
+        WHERE t.user_id = $1
+      )
       SELECT 
         COALESCE(SUM(CASE WHEN type = 'commission' AND status = 'completed' THEN amount ELSE 0 END), 0) as total_earned,
         COALESCE(SUM(CASE WHEN type = 'payment' AND status = 'completed' THEN amount ELSE 0 END), 0) as total_spent,
         COALESCE(SUM(CASE WHEN type = 'withdrawal' AND status = 'completed' THEN amount ELSE 0 END), 0) as total_withdrawn,
-        COALESCE(SUM(CASE WHEN status = 'pending' THEN amount ELSE 0 END), 0) as pending_amount
-      FROM transactions 
-      WHERE user_id = $1
+        COALESCE(SUM(CASE WHEN status = 'pending' THEN amount ELSE 0 END), 0) as pending_amount,
+        (SELECT display_currency FROM users WHERE id = $1) as currency
+      FROM converted
     `;
 
     const result = await pool.query(query, [userId]);
     return result.rows[0];
   }
 
+  // total_revenue is converted to the given currency at the rates of each transaction
   static async getRevenueStats(filters: {
     start_date?: Date;
     end_date?: Date;
     type?: TransactionType;
-  } = {}): Promise<{
+  } = {}, currency: string = 'USD'): Promise<{
     total_revenue: number;
     completed_transactions: number;
     pending_transactions: number;
@@ -224,8 +339,8 @@ export class TransactionModel {
   }> {
     let whereClause = "WHERE status = 'completed'";
     const whereConditions: string[] = ["status = 'completed'"];
-    const values: any[] = [];
-    let paramIndex = 1;
+    const values: any[] = [currency];
+    let paramIndex = 2;
 
     if (filters.type) {
       whereConditions.push(`type = $${paramIndex++}`);
@@ -246,7 +361,7 @@ export class TransactionModel {
 
     const query = `
       SELECT 
-        COALESCE(SUM(CASE WHEN status = 'completed' THEN amount ELSE 0 END), 0) as total_revenue,
+        COALESCE(SUM(CASE WHEN status = 'completed' THEN convert_currency(amount, currency, fx_rates, $1) ELSE 0 END), 0) as total_revenue,
         COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_transactions,
         COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending_transactions,
         COUNT(CASE WHEN status = 'failed' THEN 1 END) as failed_transactions
@@ -315,34 +430,4 @@ export class TransactionModel {
       metadata
     });
   }
-
-  static async createCommission(userId: string, amount: number, description: string, metadata: Record<string, any> = {}): Promise<Transaction> {
-    return this.create({
-      user_id: userId,
-      type: 'commission',
-      amount,
-      description,
-      metadata
-    });
-  }
-
-  static async createWithdrawal(userId: string, amount: number, description: string, metadata: Record<string, any> = {}): Promise<Transaction> {
-    return this.create({
-      user_id: userId,
-      type: 'withdrawal',
-      amount,
-      description,
-      metadata
-    });
-  }
-
-  static async createRefund(userId: string, amount: number, description: string, metadata: Record<string, any> = {}): Promise<Transaction> {
-    return this.create({
-      user_id: userId,
-      type: 'refund',
-      amount,
-      description,
-      metadata
-    });
-  }
 }
\ No newline at end of file
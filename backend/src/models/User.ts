@@ -1,7 +1,7 @@
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
-import pool from '../config/database';
-import { User, CreateUserInput, UpdateUserInput, UserRole } from '../types/database';
+import pool, { DatabaseClient } from '../config/database';
+import { User, CreateUserInput, UpdateUserInput, UserRole, VerificationLevel } from '../types/database';
 import { createUserSchema, updateUserSchema } from '../validation/schemas';
 
 export class UserModel {
@@ -87,7 +87,15 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
-  static async updateBalance(id: string, amount: number): Promise<User | null> {
+  // Locks the user row until the surrounding transaction ends, serialising balance checks and debits
+  static async findByIdForUpdate(id: string, db: DatabaseClient): Promise<User | null> {
+    const query = 'SELECT * FROM users WHERE id = $1 FOR UPDATE';
+    const result = await db.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  // users.balance caches the ledger; only LedgerService moves it, in the same transaction as the postings
+  static async updateBalance(id: string, amount: number, db: DatabaseClient = pool): Promise<User | null> {
     const query = `
       UPDATE users 
       SET balance = balance + $2
@@ -95,14 +103,19 @@ export class UserModel {
       RETURNING *
     `;
 
-    const result = await pool.query(query, [id, amount]);
+    const result = await db.query(query, [id, amount]);
     return result.rows[0] || null;
   }
 
   static async verifyEmail(id: string): Promise<User | null> {
+    // Confirming the email is the first verification level
     const query = `
       UPDATE users 
-      SET email_verified = true
+      SET email_verified = true,
+        verification_level = CASE
+          WHEN verification_level = 'unverified' THEN 'email_verified'
+          ELSE verification_level
+        END
       WHERE id = $1 
       RETURNING *
     `;
@@ -111,12 +124,24 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  static async updateVerificationLevel(id: string, level: VerificationLevel): Promise<User | null> {
+    const query = `
+      UPDATE users 
+      SET verification_level = $2
+      WHERE id = $1 
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, level]);
+    return result.rows[0] || null;
+  }
+
   static async updatePassword(id: string, newPassword: string): Promise<User | null> {
     const password_hash = await bcrypt.hash(newPassword, 12);
     
     const query = `
       UPDATE users 
-      SET password_hash = $2
+      SET password_hash = $2, password_changed_at = CURRENT_TIMESTAMP
       WHERE id = $1 
       RETURNING *
     `;
@@ -125,6 +150,32 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  static async suspend(id: string, reason: string, suspendedBy?: string): Promise<User | null> {
+    const query = `
+      UPDATE users
+      SET status = 'suspended', suspension_reason = $2, suspended_at = CURRENT_TIMESTAMP, suspended_by = $3,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, reason, suspendedBy || null]);
+    return result.rows[0] || null;
+  }
+
+  static async reinstate(id: string): Promise<User | null> {
+    const query = `
+      UPDATE users
+      SET status = 'active', suspension_reason = NULL, suspended_at = NULL, suspended_by = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
   static async verifyPassword(user: User, password: string): Promise<boolean> {
     return bcrypt.compare(password, user.password_hash);
   }
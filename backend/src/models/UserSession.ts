@@ -0,0 +1,148 @@
+import pool from '../config/database';
+
+export type SessionRevokedReason = 'logout' | 'revoked' | 'logout_all' | 'token_reuse' | 'password_reset' | 'suspended';
+
+export interface UserSession {
+  id: string;
+  user_id: string;
+  session_token: string;
+  ip_address?: string;
+  user_agent?: string;
+  last_activity: Date;
+  created_at: Date;
+  expires_at: Date;
+  rotated_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: SessionRevokedReason;
+}
+
+export interface CreateUserSessionInput {
+  // Generated by the caller when the tokens it signs have to name the session
+  id?: string;
+  user_id: string;
+  session_token: string;
+  ip_address?: string;
+  user_agent?: string;
+  expires_at: Date;
+}
+
+export interface LoginAddress {
+  ip_address: string;
+  first_seen: Date;
+  last_seen: Date;
+}
+
+export class UserSessionModel {
+  static async create(input: CreateUserSessionInput): Promise<UserSession> {
+    const query = `
+      INSERT INTO user_sessions (id, user_id, session_token, ip_address, user_agent, expires_at)
+      VALUES (COALESCE($1, gen_random_uuid()), $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [
+      input.id || null,
+      input.user_id,
+      input.session_token,
+      input.ip_address || null,
+      input.user_agent || null,
+      input.expires_at
+    ]);
+    return result.rows[0];
+  }
+
+  static async findById(id: string): Promise<UserSession | null> {
+    const result = await pool.query('SELECT * FROM user_sessions WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  static async isActive(id: string): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM user_sessions
+      WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+    `;
+
+    const result = await pool.query(query, [id]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * The sessions a user is still logged in with, the most recently used first
+   */
+  static async findActiveByUser(userId: string): Promise<UserSession[]> {
+    const query = `
+      SELECT id, user_id, host(ip_address) as ip_address, user_agent, last_activity, created_at, expires_at
+      FROM user_sessions
+      WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+      ORDER BY last_activity DESC
+    `;
+
+    const result = await pool.query(query, [userId]);
+    return result.rows;
+  }
+
+  /**
+   * Swap the refresh token of a session for the next one. Only succeeds while the session is active and its
+   * current token is the one presented, so of two refreshes with the same token only the first gets through.
+   */
+  static async rotate(
+    id: string,
+    currentToken: string,
+    nextToken: string,
+    expiresAt: Date
+  ): Promise<UserSession | null> {
+    const query = `
+      UPDATE user_sessions
+      SET session_token = $3, expires_at = $4, rotated_at = NOW()
+      WHERE id = $1 AND session_token = $2 AND revoked_at IS NULL AND expires_at > NOW()
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [id, currentToken, nextToken, expiresAt]);
+    return result.rows[0] || null;
+  }
+
+  static async revoke(id: string, reason: SessionRevokedReason): Promise<boolean> {
+    const query = `
+      UPDATE user_sessions
+      SET revoked_at = NOW(), revoked_reason = $2
+      WHERE id = $1 AND revoked_at IS NULL
+    `;
+
+    const result = await pool.query(query, [id, reason]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Revoke every active session of a user; returns how many there were
+   */
+  static async revokeAllForUser(userId: string, reason: SessionRevokedReason): Promise<number> {
+    const query = `
+      UPDATE user_sessions
+      SET revoked_at = NOW(), revoked_reason = $2
+      WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+    `;
+
+    const result = await pool.query(query, [userId, reason]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * The addresses a user logged in from since a date, the most recently used first
+   */
+  static async getLoginAddresses(userId: string, since: Date): Promise<LoginAddress[]> {
+    const query = `
+      SELECT
+        host(ip_address) as ip_address,
+        MIN(created_at) as first_seen,
+        MAX(created_at) as last_seen
+      FROM user_sessions
+      WHERE user_id = $1 AND created_at >= $2 AND ip_address IS NOT NULL
+      GROUP BY ip_address
+      ORDER BY last_seen DESC
+    `;
+
+    const result = await pool.query(query, [userId, since]);
+    return result.rows;
+  }
+}
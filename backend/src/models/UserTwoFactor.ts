@@ -0,0 +1,135 @@
+import { PoolClient } from 'pg';
+import pool, { withTransaction } from '../config/database';
+
+export interface UserTwoFactor {
+  user_id: string;
+  secret_encrypted: string;
+  enabled_at?: Date;
+  last_used_step?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class UserTwoFactorModel {
+  static async findByUserId(userId: string): Promise<UserTwoFactor | null> {
+    const result = await pool.query('SELECT * FROM user_two_factor WHERE user_id = $1', [userId]);
+    return result.rows[0] || null;
+  }
+
+  static async isEnabled(userId: string): Promise<boolean> {
+    const result = await pool.query(
+      'SELECT 1 FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL',
+      [userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Start or restart an enrolment. An enabled secret is never replaced; it has to be disabled first.
+   */
+  static async savePendingSecret(userId: string, secretEncrypted: string): Promise<UserTwoFactor | null> {
+    const query = `
+      INSERT INTO user_two_factor (user_id, secret_encrypted)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE
+      SET secret_encrypted = EXCLUDED.secret_encrypted, last_used_step = NULL
+      WHERE user_two_factor.enabled_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [userId, secretEncrypted]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Confirm an enrolment and store the hashes of its recovery codes, replacing any earlier ones
+   */
+  static async enable(userId: string, step: number, recoveryCodeHashes: string[]): Promise<UserTwoFactor | null> {
+    return withTransaction(async client => {
+      const result = await client.query(`
+        UPDATE user_two_factor
+        SET enabled_at = NOW(), last_used_step = $2
+        WHERE user_id = $1 AND enabled_at IS NULL
+        RETURNING *
+      `, [userId, step]);
+
+      if (!result.rows[0]) {
+        return null;
+      }
+
+      await this.insertRecoveryCodes(client, userId, recoveryCodeHashes);
+      return result.rows[0];
+    });
+  }
+
+  /**
+   * Record a code's time step as used. Fails when that step or a later one was used already, which is
+   * what makes a code single-use.
+   */
+  static async claimStep(userId: string, step: number): Promise<boolean> {
+    const query = `
+      UPDATE user_two_factor
+      SET last_used_step = $2
+      WHERE user_id = $1 AND enabled_at IS NOT NULL AND (last_used_step IS NULL OR last_used_step < $2)
+    `;
+
+    const result = await pool.query(query, [userId, step]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async delete(userId: string): Promise<void> {
+    await withTransaction(async client => {
+      await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+    });
+  }
+
+  static async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await withTransaction(async client => {
+      await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+      await this.insertRecoveryCodes(client, userId, codeHashes);
+    });
+  }
+
+  /**
+   * Mark an unused recovery code as used; false when there is none with this hash
+   */
+  static async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const query = `
+      UPDATE two_factor_recovery_codes
+      SET used_at = NOW()
+      WHERE id = (
+        SELECT id FROM two_factor_recovery_codes
+        WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+        LIMIT 1
+      ) AND used_at IS NULL
+    `;
+
+    const result = await pool.query(query, [userId, codeHash]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async countRecoveryCodes(userId: string): Promise<number> {
+    const result = await pool.query(
+      'SELECT COUNT(*) as count FROM two_factor_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+    return parseInt(result.rows[0]?.count || '0');
+  }
+
+  private static async insertRecoveryCodes(
+    client: PoolClient,
+    userId: string,
+    codeHashes: string[]
+  ): Promise<void> {
+    if (codeHashes.length === 0) {
+      return;
+    }
+
+    const placeholders = codeHashes.map((_hash, i) => `($1, $${i + 2})`).join(', ');
+    await client.query(
+      `INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES ${placeholders}`,
+      [userId, ...codeHashes]
+    );
+  }
+}
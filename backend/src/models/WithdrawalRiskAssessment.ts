@@ -0,0 +1,73 @@
+import pool, { DatabaseClient } from '../config/database';
+
+export type WithdrawalRiskLevel = 'low' | 'medium' | 'high';
+
+// One signal that added to a score
+export interface WithdrawalRiskReason {
+  code: string;
+  points: number;
+  message: string;
+}
+
+export interface WithdrawalRiskAssessment {
+  transaction_id: string;
+  score: number;
+  level: WithdrawalRiskLevel;
+  reasons: WithdrawalRiskReason[];
+  // Held withdrawals can only be approved with a note until an admin releases them
+  held: boolean;
+  released_by?: string;
+  released_at?: Date;
+  created_at: Date;
+}
+
+export interface CreateWithdrawalRiskAssessmentInput {
+  transaction_id: string;
+  score: number;
+  level: WithdrawalRiskLevel;
+  reasons: WithdrawalRiskReason[];
+  held: boolean;
+}
+
+export class WithdrawalRiskAssessmentModel {
+  static async create(
+    input: CreateWithdrawalRiskAssessmentInput,
+    db: DatabaseClient = pool
+  ): Promise<WithdrawalRiskAssessment> {
+    const query = `
+      INSERT INTO withdrawal_risk_assessments (transaction_id, score, level, reasons, held)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [
+      input.transaction_id,
+      input.score,
+      input.level,
+      JSON.stringify(input.reasons),
+      input.held
+    ]);
+    return result.rows[0];
+  }
+
+  static async findByTransactionId(transactionId: string): Promise<WithdrawalRiskAssessment | null> {
+    const query = 'SELECT * FROM withdrawal_risk_assessments WHERE transaction_id = $1';
+    const result = await pool.query(query, [transactionId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record the admin who let a held withdrawal through; returns null when it was not held or released already
+   */
+  static async release(transactionId: string, adminId?: string): Promise<WithdrawalRiskAssessment | null> {
+    const query = `
+      UPDATE withdrawal_risk_assessments
+      SET released_by = $2, released_at = CURRENT_TIMESTAMP
+      WHERE transaction_id = $1 AND held AND released_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, [transactionId, adminId || null]);
+    return result.rows[0] || null;
+  }
+}
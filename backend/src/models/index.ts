@@ -9,6 +9,25 @@ export { EmailVerificationTokenModel } from './EmailVerificationToken';
 export { PasswordResetTokenModel } from './PasswordResetToken';
 export { NotificationModel } from './Notification';
 export { BotSubscriberModel } from './BotSubscriber';
+export { ModuleActivationStateModel } from './ModuleActivationState';
+export { ModuleApiAuditLogModel } from './ModuleApiAuditLog';
+export { BroadcastDeliveryModel } from './BroadcastDelivery';
+export { BroadcastSegmentModel } from './BroadcastSegment';
+export { BroadcastTemplateModel } from './BroadcastTemplate';
+export { BroadcastClickModel } from './BroadcastClick';
+export { BroadcastLinkModel } from './BroadcastLink';
+export { LedgerModel } from './Ledger';
+export { ModulePlanModel } from './ModulePlan';
+export { ModuleSubscriptionModel } from './ModuleSubscription';
+export { StripeEventModel } from './StripeEvent';
+export { PaymentDisputeModel } from './PaymentDispute';
+export { PayoutModel } from './Payout';
+export { IdentityVerificationModel } from './IdentityVerification';
+export { UserSessionModel } from './UserSession';
+export { WithdrawalRiskAssessmentModel } from './WithdrawalRiskAssessment';
+export { FxRateModel } from './FxRate';
+export { InvoiceModel } from './Invoice';
+export { CouponModel } from './Coupon';
 
 // Export types
 export * from '../types/database';
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { AdminController } from '../controllers/adminController';
 import { authenticateToken } from '../middleware/auth';
 import { requireRole } from '../middleware/roleAuth';
+import { requireTwoFactorCode } from '../middleware/authMiddleware';
 
 const router = Router();
 
@@ -15,7 +16,7 @@ router.get('/dashboard/stats', AdminController.getDashboardStats);
 // Users Management
 router.get('/users', AdminController.getUsers);
 router.put('/users/:userId/status', AdminController.updateUserStatus);
-router.put('/users/:userId/balance', AdminController.updateUserBalance);
+router.put('/users/:userId/balance', requireTwoFactorCode, AdminController.updateUserBalance);
 
 // Bots Management
 router.get('/bots', AdminController.getBots);
@@ -28,6 +29,20 @@ router.put('/modules/:moduleId/status', AdminController.updateModuleStatus);
 // Withdrawals Management
 router.get('/withdrawals', AdminController.getWithdrawals);
 router.put('/withdrawals/:withdrawalId/process', AdminController.processWithdrawal);
+router.put('/payouts/:payoutId/status', AdminController.completeManualPayout);
+
+// Ledger
+router.get('/ledger/discrepancies', AdminController.getLedgerDiscrepancies);
+
+// Payment Disputes
+router.get('/disputes', AdminController.getDisputes);
+router.get('/disputes/:disputeId', AdminController.getDispute);
+router.put('/disputes/:disputeId/evidence', AdminController.updateDisputeEvidence);
+
+// Identity Verifications
+router.get('/verifications', AdminController.getVerifications);
+router.get('/verifications/:verificationId/documents/:index', AdminController.getVerificationDocument);
+router.put('/verifications/:verificationId/review', AdminController.reviewVerification);
 
 // Support Tickets Management
 router.get('/tickets', AdminController.getTickets);
@@ -12,6 +12,7 @@ router.get('/revenue', AnalyticsController.getUserRevenueStats);
 router.get('/bots', AnalyticsController.getUserBotAnalytics);
 router.get('/period', AnalyticsController.getPeriodStats);
 router.get('/modules', AnalyticsController.getModuleAnalytics);
+router.get('/broadcasts', AnalyticsController.getBroadcastEngagement);
 router.get('/export', AnalyticsController.exportAnalytics);
 
 // Admin analytics routes
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
-import { authenticateToken, rateLimit } from '../middleware/authMiddleware';
+import { authenticateToken, optionalAuth, rateLimit } from '../middleware/authMiddleware';
 
 const router = Router();
 
@@ -15,9 +15,20 @@ router.post('/refresh-token', generalRateLimit, AuthController.refreshToken);
 router.post('/verify-email', generalRateLimit, AuthController.verifyEmail);
 router.post('/forgot-password', authRateLimit, AuthController.requestPasswordReset);
 router.post('/reset-password', authRateLimit, AuthController.resetPassword);
+router.post('/2fa/login', authRateLimit, AuthController.twoFactorLogin);
+
+// Enrolment takes a login or, for roles that must set it up before they can log in, a challenge token
+router.post('/2fa/setup', generalRateLimit, optionalAuth, AuthController.setupTwoFactor);
+router.post('/2fa/enable', authRateLimit, optionalAuth, AuthController.enableTwoFactor);
 
 // Protected routes
 router.get('/profile', authenticateToken, AuthController.getProfile);
 router.post('/logout', authenticateToken, AuthController.logout);
+router.get('/sessions', authenticateToken, AuthController.getSessions);
+router.delete('/sessions', authenticateToken, AuthController.revokeAllSessions);
+router.delete('/sessions/:sessionId', authenticateToken, AuthController.revokeSession);
+router.get('/2fa/status', authenticateToken, AuthController.getTwoFactorStatus);
+router.post('/2fa/disable', authRateLimit, authenticateToken, AuthController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authRateLimit, authenticateToken, AuthController.regenerateRecoveryCodes);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { BotController } from '../controllers/botController';
-import { authenticateToken } from '../middleware/authMiddleware';
+import { authenticateToken, requireTwoFactorCode } from '../middleware/authMiddleware';
 
 const router = Router();
 
@@ -8,11 +8,12 @@ const router = Router();
 router.use(authenticateToken);
 
 // Bot connection and management routes
-router.post('/connect', BotController.connectBot);
+router.post('/connect', requireTwoFactorCode, BotController.connectBot);
 router.get('/list', BotController.getBotsList);
 router.get('/:id', BotController.getBotById);
 router.put('/:id/settings', BotController.updateBotSettings);
 router.delete('/:id', BotController.deleteBot);
 router.get('/:id/status', BotController.checkBotStatus);
+router.post('/:id/webhook', BotController.registerWebhook);
 
 export default router;
\ No newline at end of file
@@ -1,25 +1,43 @@
 import { Router } from 'express';
 import { BroadcastController } from '../controllers/broadcastController';
-import { authMiddleware } from '../middleware/authMiddleware';
+import { authenticateToken } from '../middleware/authMiddleware';
 
 const router = Router();
 
 // Apply authentication middleware to all routes
-router.use(authMiddleware);
+router.use(authenticateToken);
+
+// Saved subscriber segments
+router.get('/segments', BroadcastController.getSegments);
+router.post('/segments', BroadcastController.createSegment);
+router.post('/segments/preview', BroadcastController.previewSegment);
+router.put('/segments/:segmentId', BroadcastController.updateSegment);
+router.delete('/segments/:segmentId', BroadcastController.deleteSegment);
+router.get('/segments/:segmentId/count', BroadcastController.getSegmentCount);
 
 // Broadcast campaign management
 router.post('/', BroadcastController.createBroadcast);
 router.get('/', BroadcastController.getUserBroadcasts);
 router.post('/:id/execute', BroadcastController.executeBroadcast);
+router.post('/:id/pause', BroadcastController.pauseBroadcast);
+router.post('/:id/resume', BroadcastController.resumeBroadcast);
 router.post('/:id/cancel', BroadcastController.cancelBroadcast);
+router.post('/:id/resend-failed', BroadcastController.resendFailed);
 
 // Broadcast analytics and reporting
 router.get('/:id/stats', BroadcastController.getBroadcastStats);
 router.get('/:id/report', BroadcastController.getBroadcastReport);
+router.get('/:id/deliveries', BroadcastController.getBroadcastDeliveries);
 
 // Utilities
 router.post('/validate-targets', BroadcastController.validateTargets);
 router.post('/estimate-cost', BroadcastController.estimateCost);
+
+// Message templates
 router.get('/templates', BroadcastController.getTemplates);
+router.post('/templates', BroadcastController.createTemplate);
+router.post('/templates/preview', BroadcastController.previewTemplate);
+router.put('/templates/:templateId', BroadcastController.updateTemplate);
+router.delete('/templates/:templateId', BroadcastController.deleteTemplate);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { CouponController } from '../controllers/couponController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All coupon routes require authentication
+router.use(authenticateToken);
+
+// Checkout
+router.post('/validate', CouponController.validateCoupon);
+
+// Management (developers for their modules, admins for any)
+router.get('/', CouponController.getCoupons);
+router.post('/', CouponController.createCoupon);
+router.put('/:id', CouponController.updateCoupon);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from 'express';
+import { LinkController } from '../controllers/linkController';
+
+const router = express.Router();
+
+// Public route - opened by broadcast recipients from Telegram
+router.get('/:linkId/:token', LinkController.redirect);
+
+export default router;
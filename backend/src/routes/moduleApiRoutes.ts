@@ -0,0 +1,33 @@
+import express from 'express';
+import { ModuleApiController } from '../controllers/moduleApiController';
+import {
+  auditModuleApiCall,
+  authenticateModuleApiKey,
+  failedModuleApiKeyLimit,
+  moduleApiRateLimit,
+} from '../middleware/moduleApiMiddleware';
+
+const router = express.Router();
+
+// Calls are audited, including ones rejected by authentication or rate limiting, but not the invalid keys
+// an IP keeps sending once it has been throttled for them
+router.use(failedModuleApiKeyLimit(20, 15 * 60 * 1000));
+router.use(auditModuleApiCall);
+router.use(express.json({ limit: '64kb' }));
+router.use(authenticateModuleApiKey);
+router.use(moduleApiRateLimit(Number(process.env['MODULE_API_RATE_LIMIT']) || 60, 60 * 1000));
+
+// Activation and bot information
+router.get('/settings', ModuleApiController.getSettings);
+router.get('/subscribers', ModuleApiController.getSubscribers);
+
+// Messaging through the bot
+router.post('/messages', ModuleApiController.sendMessage);
+
+// Per-activation key/value state
+router.get('/state', ModuleApiController.listState);
+router.get('/state/:key', ModuleApiController.getState);
+router.put('/state/:key', ModuleApiController.setState);
+router.delete('/state/:key', ModuleApiController.deleteState);
+
+export default router;
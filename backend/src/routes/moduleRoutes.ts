@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { ModuleController } from '../controllers/moduleController';
+import { SubscriptionController } from '../controllers/subscriptionController';
 import { authenticateToken } from '../middleware/authMiddleware';
 
 const router = Router();
@@ -12,6 +13,7 @@ router.get('/featured', ModuleController.getFeaturedModules);
 router.get('/search', ModuleController.searchModules);
 router.get('/:id', ModuleController.getModuleById);
 router.get('/:id/ratings', ModuleController.getModuleRatings);
+router.get('/:id/plans', SubscriptionController.getModulePlans);
 
 // Protected routes (authentication required)
 router.use(authenticateToken);
@@ -27,6 +29,7 @@ router.get('/activations', ModuleController.getUserActivations);
 router.post('/upload', ModuleController.uploadModule);
 router.get('/my-modules', ModuleController.getDeveloperModules);
 router.put('/:id', ModuleController.updateModule);
+router.put('/:id/plans', SubscriptionController.saveModulePlans);
 router.delete('/:id', ModuleController.deleteModule);
 
 export default router;
\ No newline at end of file
@@ -12,9 +12,12 @@ router.use(authenticateToken);
 
 // User payment routes
 router.post('/create', PaymentController.createPayment);
+router.post('/top-up', PaymentController.createTopUp);
 router.get('/history', PaymentController.getPaymentHistory);
 router.get('/balance', PaymentController.getBalance);
 router.get('/transactions/:id', PaymentController.getTransaction);
+router.get('/invoices', PaymentController.getInvoices);
+router.get('/invoices/:invoiceId/pdf', PaymentController.downloadInvoice);
 
 // Admin routes
 router.post('/refund', PaymentController.createRefund);
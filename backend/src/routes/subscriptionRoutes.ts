@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { SubscriptionController } from '../controllers/subscriptionController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All subscription routes require authentication
+router.use(authenticateToken);
+
+router.get('/', SubscriptionController.getSubscriptions);
+router.post('/:id/cancel', SubscriptionController.cancelSubscription);
+router.post('/:id/resume', SubscriptionController.resumeSubscription);
+
+export default router;
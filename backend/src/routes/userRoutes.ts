@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { UserController, upload } from '../controllers/userController';
+import { VerificationController, identityDocumentUpload } from '../controllers/verificationController';
 import { authenticateToken, rateLimit } from '../middleware/authMiddleware';
 
 const router = Router();
@@ -19,9 +20,12 @@ router.put('/profile', generalRateLimit, UserController.updateProfile);
 router.post('/avatar', uploadRateLimit, upload.single('avatar'), UserController.uploadAvatar);
 router.delete('/avatar', generalRateLimit, UserController.deleteAvatar);
 
-// Balance management routes
+// Verification level and identity documents
+router.get('/verification', generalRateLimit, VerificationController.getStatus);
+router.post('/verification', uploadRateLimit, identityDocumentUpload.array('documents', 3), VerificationController.submit);
+
+// Balance management routes; the wallet is topped up with a Stripe payment
 router.get('/balance', generalRateLimit, UserController.getBalance);
-router.post('/balance/add', generalRateLimit, UserController.addFunds);
 router.post('/balance/deduct', generalRateLimit, UserController.deductFunds);
 router.get('/balance/history', generalRateLimit, UserController.getBalanceHistory);
 
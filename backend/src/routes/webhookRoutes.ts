@@ -0,0 +1,14 @@
+import express from 'express';
+import { WebhookController } from '../controllers/webhookController';
+
+const router = express.Router();
+
+// Public routes - authenticated by the per-bot secret token Telegram sends with every update
+router.use(express.json());
+
+router.post('/telegram/:botId', WebhookController.handleTelegramUpdate);
+
+// Payout status callbacks - verified with PayPal before they are applied
+router.post('/paypal', WebhookController.handlePayPalEvent);
+
+export default router;
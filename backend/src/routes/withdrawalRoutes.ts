@@ -1,6 +1,6 @@
 import express from 'express';
 import { WithdrawalController } from '../controllers/withdrawalController';
-import { authenticateToken } from '../middleware/authMiddleware';
+import { authenticateToken, requireTwoFactorCode } from '../middleware/authMiddleware';
 
 const router = express.Router();
 
@@ -10,7 +10,7 @@ router.use(authenticateToken);
 // User withdrawal routes
 router.get('/limits', WithdrawalController.getWithdrawalLimits);
 router.post('/check-eligibility', WithdrawalController.checkWithdrawalEligibility);
-router.post('/request', WithdrawalController.createWithdrawalRequest);
+router.post('/request', requireTwoFactorCode, WithdrawalController.createWithdrawalRequest);
 router.get('/history', WithdrawalController.getWithdrawalHistory);
 router.put('/:id/cancel', WithdrawalController.cancelWithdrawal);
 router.get('/stats', WithdrawalController.getWithdrawalStats);
@@ -0,0 +1,40 @@
+#!/usr/bin/env ts-node
+
+import dotenv from 'dotenv';
+import { testConnection } from '../config/database';
+
+// Load environment variables before the payment service reads the Stripe keys
+dotenv.config();
+
+async function replayStripeEvents(eventId?: string) {
+  try {
+    const isConnected = await testConnection();
+    if (!isConnected) {
+      console.error('❌ Cannot connect to database. Please check your configuration.');
+      process.exit(1);
+    }
+
+    const { StripeEventService } = await import('../services/stripeEventService');
+
+    if (eventId) {
+      console.log(`🔄 Replaying Stripe event ${eventId}...`);
+      await StripeEventService.replay(eventId);
+      console.log('✅ Event replayed successfully');
+      process.exit(0);
+    }
+
+    console.log('🔄 Replaying failed Stripe events...');
+    const { replayed, failed } = await StripeEventService.replayFailed();
+    console.log(`✅ Replayed ${replayed} event(s), ${failed} failed again`);
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Replay failed:', error);
+    process.exit(1);
+  }
+}
+
+// Usage: npm run stripe:replay [eventId]
+replayStripeEvents(process.argv[2]).catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
@@ -4,6 +4,17 @@ import { Bot } from '../models/Bot';
 import { Module } from '../models/Module';
 import { Transaction } from '../models/Transaction';
 import { SupportTicket } from '../models/SupportTicket';
+import { LedgerModel, LedgerDiscrepancy } from '../models/Ledger';
+import { PaymentDisputeModel, PaymentDisputeDetails } from '../models/PaymentDispute';
+import { IdentityVerificationDetails } from '../models/IdentityVerification';
+import { WithdrawalRiskLevel, WithdrawalRiskReason } from '../models/WithdrawalRiskAssessment';
+import { DisputeService } from './disputeService';
+import { VerificationService } from './verificationService';
+import { BASE_CURRENCY, getReportingCurrency } from './currencyService';
+import { LedgerService } from './ledgerService';
+import { SuspensionService } from './suspensionService';
+import { BroadcastService } from './broadcastService';
+import { WithdrawalService } from './withdrawalService';
 
 export interface AdminDashboardStats {
   totalUsers: number;
@@ -16,6 +27,8 @@ export interface AdminDashboardStats {
   pendingModules: number;
   revenueGrowth: number;
   userGrowth: number;
+  // Of totalRevenue
+  currency: string;
 }
 
 export interface AdminUser {
@@ -27,6 +40,8 @@ export interface AdminUser {
   balance: number;
   emailVerified: boolean;
   status: 'active' | 'suspended';
+  suspensionReason?: string;
+  suspendedAt?: string;
   createdAt: string;
   lastLoginAt?: string;
   totalBots: number;
@@ -51,11 +66,13 @@ export interface AdminModule {
   description: string;
   category: string;
   price: number;
+  currency: string;
   developerId: string;
   developerEmail: string;
   status: 'pending' | 'approved' | 'rejected' | 'suspended';
   activations: number;
   revenue: number;
+  revenueCurrency: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -66,12 +83,58 @@ export interface AdminWithdrawal {
   userEmail: string;
   amount: number;
   currency: string;
-  status: 'pending' | 'processing' | 'completed' | 'rejected';
+  status: 'pending' | 'on_hold' | 'paused' | 'processing' | 'completed' | 'rejected';
   paymentMethod: string;
   paymentDetails: Record<string, any>;
   createdAt: string;
   processedAt?: string;
   notes?: string;
+  payoutId?: string;
+  payoutProvider?: string;
+  payoutReferenceId?: string;
+  payoutFailureReason?: string;
+  riskScore?: number;
+  riskLevel?: WithdrawalRiskLevel;
+  riskReasons?: WithdrawalRiskReason[];
+  riskHeld?: boolean;
+  riskReleasedAt?: string;
+}
+
+export interface AdminDispute {
+  id: string;
+  transactionId: string;
+  userId: string;
+  userEmail: string;
+  paymentDescription?: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+  status: 'open' | 'won' | 'lost';
+  stripeStatus?: string;
+  evidence: Record<string, string>;
+  evidenceDueBy?: string;
+  evidenceSubmittedAt?: string;
+  notes?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface AdminVerification {
+  id: string;
+  userId: string;
+  userEmail: string;
+  userCreatedAt: string;
+  currentLevel: string;
+  requestedLevel: 'identity_verified' | 'business';
+  documentType: string;
+  fullName: string;
+  country: string;
+  businessName?: string;
+  documents: Array<{ originalName: string; mimeType: string; size: number }>;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewNotes?: string;
+  reviewedAt?: string;
+  createdAt: string;
 }
 
 export interface AdminTicket {
@@ -88,6 +151,67 @@ export interface AdminTicket {
   assignedTo?: string;
 }
 
+const toAdminDispute = (row: PaymentDisputeDetails): AdminDispute => ({
+  id: row.id,
+  transactionId: row.transaction_id,
+  userId: row.user_id,
+  userEmail: row.user_email,
+  ...(row.payment_description && { paymentDescription: row.payment_description }),
+  amount: parseFloat(String(row.amount)),
+  currency: row.currency,
+  ...(row.reason && { reason: row.reason }),
+  status: row.status,
+  ...(row.stripe_status && { stripeStatus: row.stripe_status }),
+  evidence: row.evidence || {},
+  ...(row.evidence_due_by && { evidenceDueBy: new Date(row.evidence_due_by).toISOString() }),
+  ...(row.evidence_submitted_at && { evidenceSubmittedAt: new Date(row.evidence_submitted_at).toISOString() }),
+  ...(row.notes && { notes: row.notes }),
+  createdAt: new Date(row.created_at).toISOString(),
+  ...(row.resolved_at && { resolvedAt: new Date(row.resolved_at).toISOString() })
+});
+
+// Stored file names are not exposed; documents are fetched by their index
+const toAdminWithdrawalStatus = (row: any): AdminWithdrawal['status'] => {
+  if (row.status !== 'pending') {
+    return row.status;
+  }
+  // A pending withdrawal whose payout was sent is waiting for the payout provider
+  if (row.payout_status === 'processing') {
+    return 'processing';
+  }
+  // Paused while the account is suspended
+  if (row.user_status === 'suspended') {
+    return 'paused';
+  }
+  return row.risk_held && !row.risk_released_at ? 'on_hold' : 'pending';
+};
+
+const toAdminVerification = (row: IdentityVerificationDetails): AdminVerification => ({
+  id: row.id,
+  userId: row.user_id,
+  userEmail: row.user_email,
+  userCreatedAt: new Date(row.user_created_at).toISOString(),
+  currentLevel: row.verification_level,
+  requestedLevel: row.requested_level,
+  documentType: row.document_type,
+  fullName: row.full_name,
+  country: row.country,
+  ...(row.business_name && { businessName: row.business_name }),
+  documents: (row.documents || []).map(document => ({
+    originalName: document.original_name,
+    mimeType: document.mime_type,
+    size: document.size
+  })),
+  status: row.status,
+  ...(row.review_notes && { reviewNotes: row.review_notes }),
+  ...(row.reviewed_at && { reviewedAt: new Date(row.reviewed_at).toISOString() }),
+  createdAt: new Date(row.created_at).toISOString()
+});
+
+// Revenue figures are summed in the reporting currency, at the FX rates snapshotted on each transaction
+const reportedAmount = (alias: string = 'transactions'): string =>
+  `convert_currency(${alias}.amount, ${alias}.currency, ${alias}.fx_rates, '${getReportingCurrency()}')`;
+
 export class AdminService {
   static async getDashboardStats(): Promise<AdminDashboardStats> {
     const client = await pool.connect();
@@ -108,7 +232,7 @@ export class AdminService {
         client.query('SELECT COUNT(*) as count FROM bots'),
         client.query('SELECT COUNT(*) as count FROM modules WHERE status = $1', ['approved']),
         client.query(`
-          SELECT COALESCE(SUM(amount), 0) as total 
+          SELECT COALESCE(SUM(${reportedAmount()}), 0) as total 
           FROM transactions 
           WHERE type = 'payment' AND status = 'completed'
         `),
@@ -145,9 +269,9 @@ export class AdminService {
         `),
         client.query(`
           SELECT 
-            COALESCE(SUM(CASE WHEN created_at >= DATE_TRUNC('month', CURRENT_DATE) THEN amount END), 0) as current_month,
+            COALESCE(SUM(CASE WHEN created_at >= DATE_TRUNC('month', CURRENT_DATE) THEN ${reportedAmount()} END), 0) as current_month,
             COALESCE(SUM(CASE WHEN created_at >= DATE_TRUNC('month', CURRENT_DATE - INTERVAL '1 month') 
-                              AND created_at < DATE_TRUNC('month', CURRENT_DATE) THEN amount END), 0) as previous_month
+                              AND created_at < DATE_TRUNC('month', CURRENT_DATE) THEN ${reportedAmount()} END), 0) as previous_month
           FROM transactions 
           WHERE type = 'payment' AND status = 'completed'
         `)
@@ -173,7 +297,8 @@ export class AdminService {
         pendingTickets: parseInt(pendingTicketsResult.rows[0].count),
         pendingModules: parseInt(pendingModulesResult.rows[0].count),
         revenueGrowth,
-        userGrowth
+        userGrowth,
+        currency: getReportingCurrency()
       };
     } finally {
       client.release();
@@ -235,7 +360,7 @@ export class AdminService {
             GROUP BY user_id
           ) bot_stats ON u.id = bot_stats.user_id
           LEFT JOIN (
-            SELECT user_id, SUM(amount) as total_revenue
+            SELECT user_id, SUM(${reportedAmount()}) as total_revenue
             FROM transactions
             WHERE type = 'payment' AND status = 'completed'
             GROUP BY user_id
@@ -259,6 +384,8 @@ export class AdminService {
         balance: parseFloat(row.balance),
         emailVerified: row.email_verified,
         status: row.status,
+        ...(row.suspension_reason && { suspensionReason: row.suspension_reason }),
+        ...(row.suspended_at && { suspendedAt: new Date(row.suspended_at).toISOString() }),
         createdAt: row.created_at,
         lastLoginAt: row.last_login_at,
         totalBots: parseInt(row.total_bots),
@@ -276,49 +403,43 @@ export class AdminService {
     }
   }
 
-  static async updateUserStatus(userId: string, status: 'active' | 'suspended'): Promise<void> {
-    const client = await pool.connect();
-    
-    try {
-      await client.query(
-        'UPDATE users SET status = $1, updated_at = NOW() WHERE id = $2',
-        [status, userId]
-      );
-    } finally {
-      client.release();
-    }
-  }
-
-  static async updateUserBalance(userId: string, amount: number, operation: 'add' | 'subtract'): Promise<void> {
-    const client = await pool.connect();
-    
-    try {
-      await client.query('BEGIN');
+  static async updateUserStatus(
+    userId: string,
+    status: 'active' | 'suspended',
+    reason?: string,
+    adminId?: string
+  ): Promise<void> {
+    if (status === 'suspended') {
+      const revokedSessions = await SuspensionService.suspendUser(userId, reason || 'Suspended by an administrator', adminId);
+
+      // Broadcasts already being sent are paused; their owner resumes them once reinstated
+      let pausedBroadcasts = 0;
+      try {
+        pausedBroadcasts = await BroadcastService.pauseUserBroadcasts(userId);
+      } catch (error) {
+        console.error(`Failed to pause broadcasts of suspended user ${userId}:`, error);
+      }
 
-      const operator = operation === 'add' ? '+' : '-';
-      await client.query(
-        `UPDATE users SET balance = balance ${operator} $1, updated_at = NOW() WHERE id = $2`,
-        [amount, userId]
-      );
+      console.log(`User ${userId} suspended: ${revokedSessions} sessions revoked, ${pausedBroadcasts} broadcasts paused`);
+      return;
+    }
 
-      // Create transaction record
-      await client.query(`
-        INSERT INTO transactions (user_id, type, amount, status, description, created_at)
-        VALUES ($1, $2, $3, 'completed', $4, NOW())
-      `, [
-        userId,
-        operation === 'add' ? 'admin_credit' : 'admin_debit',
-        amount,
-        `Admin ${operation === 'add' ? 'credit' : 'debit'} adjustment`
-      ]);
+    await SuspensionService.reinstateUser(userId);
+  }
 
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+  static async updateUserBalance(
+    userId: string,
+    amount: number,
+    operation: 'add' | 'subtract',
+    currency: string = BASE_CURRENCY
+  ): Promise<void> {
+    await LedgerService.adjustBalance(
+      userId,
+      operation === 'add' ? amount : -amount,
+      `Admin ${operation === 'add' ? 'credit' : 'debit'} adjustment`,
+      { source: 'admin' },
+      currency
+    );
   }
 
   static async getBots(params: {
@@ -376,7 +497,7 @@ export class AdminService {
             GROUP BY bot_id
           ) module_stats ON b.id = module_stats.bot_id
           LEFT JOIN (
-            SELECT bot_id, SUM(amount) as total_revenue
+            SELECT bot_id, SUM(${reportedAmount('t')}) as total_revenue
             FROM transactions t
             JOIN bot_module_activations bma ON t.module_activation_id = bma.id
             WHERE t.type = 'payment' AND t.status = 'completed'
@@ -489,7 +610,7 @@ export class AdminService {
           LEFT JOIN (
             SELECT 
               bma.module_id,
-              SUM(t.amount) as revenue
+              SUM(${reportedAmount('t')}) as revenue
             FROM transactions t
             JOIN bot_module_activations bma ON t.module_activation_id = bma.id
             WHERE t.type = 'payment' AND t.status = 'completed'
@@ -516,11 +637,13 @@ export class AdminService {
         description: row.description,
         category: row.category,
         price: parseFloat(row.price),
+        currency: row.currency,
         developerId: row.developer_id,
         developerEmail: row.developer_email,
         status: row.status,
         activations: parseInt(row.activations),
         revenue: parseFloat(row.revenue || 0),
+        revenueCurrency: getReportingCurrency(),
         createdAt: row.created_at,
         updatedAt: row.updated_at
       }));
@@ -567,7 +690,12 @@ export class AdminService {
       const queryParams: any[] = [];
       let paramIndex = 1;
 
-      if (params.status) {
+      // Held withdrawals are pending ones whose hold no admin has released yet
+      if (params.status === 'on_hold') {
+        whereClause += ` AND t.status = 'pending' AND r.held AND r.released_at IS NULL`;
+      } else if (params.status === 'paused') {
+        whereClause += ` AND t.status = 'pending' AND u.status = 'suspended'`;
+      } else if (params.status) {
         whereClause += ` AND t.status = $${paramIndex}`;
         queryParams.push(params.status);
         paramIndex++;
@@ -585,9 +713,22 @@ export class AdminService {
         client.query(`
           SELECT 
             t.*,
-            u.email as user_email
+            u.email as user_email,
+            u.status as user_status,
+            p.id as payout_id,
+            p.provider as payout_provider,
+            p.status as payout_status,
+            p.reference_id as payout_reference_id,
+            p.failure_reason as payout_failure_reason,
+            r.score as risk_score,
+            r.level as risk_level,
+            r.reasons as risk_reasons,
+            r.held as risk_held,
+            r.released_at as risk_released_at
           FROM transactions t
           JOIN users u ON t.user_id = u.id
+          LEFT JOIN payouts p ON p.transaction_id = t.id
+          LEFT JOIN withdrawal_risk_assessments r ON r.transaction_id = t.id
           ${whereClause}
           ORDER BY t.created_at DESC
           LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
@@ -596,6 +737,7 @@ export class AdminService {
           SELECT COUNT(*) as count 
           FROM transactions t 
           JOIN users u ON t.user_id = u.id 
+          LEFT JOIN withdrawal_risk_assessments r ON r.transaction_id = t.id
           ${whereClause}
         `, queryParams)
       ]);
@@ -609,12 +751,24 @@ export class AdminService {
         userEmail: row.user_email,
         amount: parseFloat(row.amount),
         currency: row.currency || 'RUB',
-        status: row.status,
+        status: toAdminWithdrawalStatus(row),
         paymentMethod: row.payment_method || 'bank_transfer',
         paymentDetails: row.payment_details || {},
         createdAt: row.created_at,
         processedAt: row.processed_at,
-        notes: row.notes
+        notes: row.notes,
+        payoutId: row.payout_id,
+        payoutProvider: row.payout_provider,
+        payoutReferenceId: row.payout_reference_id,
+        payoutFailureReason: row.payout_failure_reason,
+        // Withdrawals requested before risk scoring have no assessment
+        ...(row.risk_score !== null && {
+          riskScore: row.risk_score,
+          riskLevel: row.risk_level,
+          riskReasons: row.risk_reasons,
+          riskHeld: row.risk_held,
+          ...(row.risk_released_at && { riskReleasedAt: new Date(row.risk_released_at).toISOString() })
+        })
       }));
 
       return {
@@ -628,27 +782,97 @@ export class AdminService {
     }
   }
 
-  static async processWithdrawal(withdrawalId: string, action: 'approve' | 'reject', notes?: string): Promise<void> {
-    const client = await pool.connect();
-    
-    try {
-      await client.query('BEGIN');
-
-      const status = action === 'approve' ? 'completed' : 'rejected';
-      
-      await client.query(`
-        UPDATE transactions 
-        SET status = $1, processed_at = NOW(), notes = $2 
-        WHERE id = $3 AND type = 'withdrawal'
-      `, [status, notes, withdrawalId]);
-
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+  static async processWithdrawal(
+    withdrawalId: string,
+    action: 'approve' | 'reject',
+    notes?: string,
+    adminId?: string
+  ): Promise<void> {
+    // Settling or releasing the withdrawal moves money, so it goes through the ledger
+    await WithdrawalService.processWithdrawal(withdrawalId, action, notes, adminId);
+  }
+
+  static async completeManualPayout(
+    payoutId: string,
+    status: 'paid' | 'failed',
+    options: { referenceId?: string; reason?: string }
+  ): Promise<void> {
+    await WithdrawalService.completeManualPayout(payoutId, status, options);
+  }
+
+  static async getLedgerDiscrepancies(): Promise<LedgerDiscrepancy[]> {
+    return LedgerModel.listOpenDiscrepancies();
+  }
+
+  static async getDisputes(params: {
+    page: number;
+    limit: number;
+    status?: 'open' | 'won' | 'lost';
+  }): Promise<{
+    disputes: AdminDispute[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const { disputes, total } = await PaymentDisputeModel.list(params);
+
+    return {
+      disputes: disputes.map(toAdminDispute),
+      total,
+      page: params.page,
+      totalPages: Math.ceil(total / params.limit)
+    };
+  }
+
+  static async getDispute(disputeId: string): Promise<AdminDispute> {
+    return toAdminDispute(await DisputeService.getDispute(disputeId));
+  }
+
+  static async updateDisputeEvidence(
+    disputeId: string,
+    adminId: string,
+    input: { evidence: Record<string, string>; notes?: string; submit?: boolean }
+  ): Promise<AdminDispute> {
+    await DisputeService.saveEvidence(disputeId, adminId, input);
+    return this.getDispute(disputeId);
+  }
+
+  static async getVerifications(params: {
+    page: number;
+    limit: number;
+    status?: 'pending' | 'approved' | 'rejected';
+  }): Promise<{
+    verifications: AdminVerification[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const { verifications, total } = await VerificationService.list(params);
+
+    return {
+      verifications: verifications.map(toAdminVerification),
+      total,
+      page: params.page,
+      totalPages: Math.ceil(total / params.limit)
+    };
+  }
+
+  static async reviewVerification(
+    verificationId: string,
+    adminId: string,
+    action: 'approve' | 'reject',
+    notes?: string
+  ): Promise<void> {
+    await VerificationService.review(verificationId, adminId, action, notes);
+  }
+
+  static async getVerificationDocument(verificationId: string, index: number): Promise<{
+    path: string;
+    mimeType: string;
+    originalName: string;
+  }> {
+    const document = await VerificationService.getDocument(verificationId, index);
+    return { path: document.path, mimeType: document.mime_type, originalName: document.original_name };
   }
 
   static async getTickets(params: {
@@ -1,11 +1,22 @@
 import pool from '../config/database';
+import { getReportingCurrency } from './currencyService';
 
+// Transactions are in several currencies: amounts are summed converted with convert_currency at the FX
+// rates snapshotted on each transaction. A user sees their own figures in their display currency.
+const USER_CURRENCY_SQL = '(SELECT display_currency FROM users WHERE id = $1)';
+
+const convertedAmount = (currencySql: string, alias: string = 't'): string =>
+  `convert_currency(${alias}.amount, ${alias}.currency, ${alias}.fx_rates, ${currencySql})`;
+
+// Validated against the supported currencies, so it is safe to inline
+const reportingCurrencySql = (): string => `'${getReportingCurrency()}'`;
 
 export interface RevenueStats {
   total_revenue: number;
   monthly_revenue: number;
   daily_revenue: number;
   revenue_growth: number;
+  currency: string;
 }
 
 export interface BotAnalytics {
@@ -36,16 +47,29 @@ export interface PeriodStats {
   active_users: number;
 }
 
+export interface BroadcastEngagement {
+  broadcast_id: string;
+  title: string;
+  sent_at: Date | null;
+  delivered: number;
+  clicks: number;
+  unique_clicks: number;
+  click_through_rate: number;
+  average_seconds_to_click: number | null;
+}
+
 export class AnalyticsService {
   // Get revenue statistics for a user's bots
   static async getUserRevenueStats(userId: string, period?: string): Promise<RevenueStats> {
     const periodCondition = this.getPeriodCondition(period);
-    
+    const amount = convertedAmount(USER_CURRENCY_SQL);
+
     const query = `
       SELECT 
-        COALESCE(SUM(CASE WHEN t.status = 'completed' THEN t.amount ELSE 0 END), 0) as total_revenue,
-        COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.created_at >= date_trunc('month', CURRENT_DATE) THEN t.amount ELSE 0 END), 0) as monthly_revenue,
-        COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.created_at >= CURRENT_DATE THEN t.amount ELSE 0 END), 0) as daily_revenue
+        COALESCE(SUM(CASE WHEN t.status = 'completed' THEN ${amount} ELSE 0 END), 0) as total_revenue,
+        COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.created_at >= date_trunc('month', CURRENT_DATE) THEN ${amount} ELSE 0 END), 0) as monthly_revenue,
+        COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.created_at >= CURRENT_DATE THEN ${amount} ELSE 0 END), 0) as daily_revenue,
+        ${USER_CURRENCY_SQL} as currency
       FROM transactions t
       WHERE t.user_id = $1 
         AND t.type = 'commission'
@@ -60,7 +84,7 @@ export class AnalyticsService {
       SELECT 
         COALESCE(SUM(CASE WHEN t.created_at >= date_trunc('month', CURRENT_DATE - INTERVAL '1 month') 
                           AND t.created_at < date_trunc('month', CURRENT_DATE) 
-                          AND t.status = 'completed' THEN t.amount ELSE 0 END), 0) as previous_month_revenue
+                          AND t.status = 'completed' THEN ${amount} ELSE 0 END), 0) as previous_month_revenue
       FROM transactions t
       WHERE t.user_id = $1 AND t.type = 'commission'
     `;
@@ -76,7 +100,8 @@ export class AnalyticsService {
       total_revenue: parseFloat(stats.total_revenue),
       monthly_revenue: parseFloat(stats.monthly_revenue),
       daily_revenue: parseFloat(stats.daily_revenue),
-      revenue_growth
+      revenue_growth,
+      currency: stats.currency
     };
   } 
  // Get analytics for user's bots
@@ -95,12 +120,12 @@ export class AnalyticsService {
         b.name as bot_name,
         COALESCE(SUM(
           CASE WHEN t.status = 'completed' AND t.type = 'commission' 
-          THEN t.amount ELSE 0 END
+          THEN ${convertedAmount(USER_CURRENCY_SQL)} ELSE 0 END
         ), 0) as total_revenue,
         COALESCE(SUM(
           CASE WHEN t.status = 'completed' AND t.type = 'commission' 
                AND t.created_at >= date_trunc('month', CURRENT_DATE)
-          THEN t.amount ELSE 0 END
+          THEN ${convertedAmount(USER_CURRENCY_SQL)} ELSE 0 END
         ), 0) as monthly_revenue,
         COUNT(DISTINCT CASE WHEN bma.status = 'active' THEN bma.id END) as active_modules,
         COALESCE(
@@ -155,7 +180,7 @@ export class AnalyticsService {
       stats AS (
         SELECT 
           ${dateFormat} as period,
-          COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.type = 'commission' THEN t.amount ELSE 0 END), 0) as revenue,
+          COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.type = 'commission' THEN ${convertedAmount(USER_CURRENCY_SQL)} ELSE 0 END), 0) as revenue,
           COUNT(CASE WHEN t.status = 'completed' THEN t.id END) as transactions,
           COUNT(DISTINCT CASE WHEN bma.activated_at::date = ${dateFormat} THEN bma.id END) as new_activations,
           COUNT(DISTINCT CASE WHEN t.status = 'completed' THEN t.metadata->>'user_id' END) as active_users
@@ -192,7 +217,7 @@ export class AnalyticsService {
         COUNT(CASE WHEN bma.status = 'active' THEN bma.id END) as active_activations,
         COALESCE(SUM(
           CASE WHEN t.status = 'completed' AND t.type = 'commission' 
-          THEN t.amount ELSE 0 END
+          THEN ${convertedAmount(USER_CURRENCY_SQL)} ELSE 0 END
         ), 0) as total_revenue,
         COALESCE(AVG(bma.markup_percentage), 0) as average_markup
       FROM modules m
@@ -220,7 +245,82 @@ export class AnalyticsService {
     }));
   }
 
-  // Admin analytics - platform overview
+  // Click engagement of the user's broadcasts created within the period, newest first
+  static async getBroadcastEngagement(userId: string, period: string = '30d'): Promise<{
+    totals: Omit<BroadcastEngagement, 'broadcast_id' | 'title' | 'sent_at'> & { broadcasts: number };
+    broadcasts: BroadcastEngagement[];
+  }> {
+    const days = ({ '7d': 7, '30d': 30, '90d': 90, '1y': 365 } as Record<string, number>)[period] || 30;
+
+    const query = `
+      WITH user_broadcasts AS (
+        SELECT id, title, sent_at, successful_sends, created_at
+        FROM broadcast_notifications
+        WHERE target_audience->>'user_id' = $1
+          AND status NOT IN ('draft', 'scheduled')
+          AND created_at >= CURRENT_DATE - ($2 || ' days')::INTERVAL
+      ),
+      first_clicks AS (
+        SELECT c.broadcast_id, c.delivery_id, MIN(c.clicked_at) AS clicked_at, COUNT(*) AS clicks
+        FROM broadcast_clicks c
+        WHERE c.broadcast_id IN (SELECT id FROM user_broadcasts)
+        GROUP BY c.broadcast_id, c.delivery_id
+      )
+      SELECT
+        ub.id as broadcast_id,
+        ub.title,
+        ub.sent_at,
+        ub.successful_sends as delivered,
+        COALESCE(SUM(fc.clicks), 0) as clicks,
+        COUNT(fc.delivery_id) as unique_clicks,
+        AVG(EXTRACT(EPOCH FROM fc.clicked_at - d.delivered_at)) as average_seconds_to_click
+      FROM user_broadcasts ub
+      LEFT JOIN first_clicks fc ON fc.broadcast_id = ub.id
+      LEFT JOIN broadcast_deliveries d ON d.id = fc.delivery_id
+      GROUP BY ub.id, ub.title, ub.sent_at, ub.successful_sends, ub.created_at
+      ORDER BY ub.created_at DESC
+    `;
+
+    const result = await pool.query(query, [userId, days]);
+
+    const broadcasts: BroadcastEngagement[] = result.rows.map(row => {
+      const delivered = parseInt(row.delivered);
+      const uniqueClicks = parseInt(row.unique_clicks);
+
+      return {
+        broadcast_id: row.broadcast_id,
+        title: row.title,
+        sent_at: row.sent_at,
+        delivered,
+        clicks: parseInt(row.clicks),
+        unique_clicks: uniqueClicks,
+        click_through_rate: delivered > 0 ? (uniqueClicks / delivered) * 100 : 0,
+        average_seconds_to_click: row.average_seconds_to_click !== null ? parseFloat(row.average_seconds_to_click) : null
+      };
+    });
+
+    const delivered = broadcasts.reduce((sum, broadcast) => sum + broadcast.delivered, 0);
+    const uniqueClicks = broadcasts.reduce((sum, broadcast) => sum + broadcast.unique_clicks, 0);
+    // Weighted by clickers, so a broadcast with a single click does not skew the average
+    const clickSeconds = broadcasts.reduce(
+      (sum, broadcast) => sum + (broadcast.average_seconds_to_click ?? 0) * broadcast.unique_clicks,
+      0
+    );
+
+    return {
+      totals: {
+        broadcasts: broadcasts.length,
+        delivered,
+        clicks: broadcasts.reduce((sum, broadcast) => sum + broadcast.clicks, 0),
+        unique_clicks: uniqueClicks,
+        click_through_rate: delivered > 0 ? (uniqueClicks / delivered) * 100 : 0,
+        average_seconds_to_click: uniqueClicks > 0 ? clickSeconds / uniqueClicks : null
+      },
+      broadcasts
+    };
+  }
+
+  // Admin analytics - platform overview, with amounts in the reporting currency
   static async getPlatformStats(): Promise<{
     total_users: number;
     active_users: number;
@@ -232,7 +332,11 @@ export class AnalyticsService {
     monthly_revenue: number;
     total_transactions: number;
     pending_withdrawals: number;
+    currency: string;
   }> {
+    const currency = getReportingCurrency();
+    const amount = convertedAmount(reportingCurrencySql());
+
     const query = `
       SELECT 
         (SELECT COUNT(*) FROM users) as total_users,
@@ -243,18 +347,18 @@ export class AnalyticsService {
         (SELECT COUNT(*) FROM modules) as total_modules,
         (SELECT COUNT(DISTINCT module_id) FROM bot_module_activations 
          WHERE status = 'active') as active_modules,
-        (SELECT COALESCE(SUM(amount), 0) FROM transactions 
+        (SELECT COALESCE(SUM(${amount}), 0) FROM transactions t
          WHERE type = 'payment' AND status = 'completed') as total_revenue,
-        (SELECT COALESCE(SUM(amount), 0) FROM transactions 
+        (SELECT COALESCE(SUM(${amount}), 0) FROM transactions t
          WHERE type = 'payment' AND status = 'completed' 
          AND created_at >= date_trunc('month', CURRENT_DATE)) as monthly_revenue,
         (SELECT COUNT(*) FROM transactions) as total_transactions,
-        (SELECT COALESCE(SUM(amount), 0) FROM transactions 
+        (SELECT COALESCE(SUM(${amount}), 0) FROM transactions t
          WHERE type = 'withdrawal' AND status = 'pending') as pending_withdrawals
     `;
 
     const result = await pool.query(query);
-    return result.rows[0];
+    return { ...result.rows[0], currency };
   }  
 // Admin analytics - user activity reports
   static async getUserActivityReport(filters: {
@@ -274,6 +378,7 @@ export class AnalyticsService {
       last_activity: Date;
     }>;
     total: number;
+    currency: string;
   }> {
     const { page = 1, limit = 20 } = filters;
     const offset = (page - 1) * limit;
@@ -298,13 +403,14 @@ export class AnalyticsService {
     const countResult = await pool.query(countQuery, params);
     const total = parseInt(countResult.rows[0].count);
 
+    const amount = convertedAmount(reportingCurrencySql());
     const dataQuery = `
       SELECT 
         u.id as user_id,
         u.email,
         CONCAT(u.first_name, ' ', u.last_name) as name,
-        COALESCE(SUM(CASE WHEN t.type = 'payment' AND t.status = 'completed' THEN t.amount ELSE 0 END), 0) as total_spent,
-        COALESCE(SUM(CASE WHEN t.type = 'commission' AND t.status = 'completed' THEN t.amount ELSE 0 END), 0) as total_earned,
+        COALESCE(SUM(CASE WHEN t.type = 'payment' AND t.status = 'completed' THEN ${amount} ELSE 0 END), 0) as total_spent,
+        COALESCE(SUM(CASE WHEN t.type = 'commission' AND t.status = 'completed' THEN ${amount} ELSE 0 END), 0) as total_earned,
         COUNT(DISTINCT CASE WHEN b.status = 'active' THEN b.id END) as active_bots,
         COUNT(DISTINCT CASE WHEN bma.status = 'active' THEN bma.id END) as active_modules,
         GREATEST(u.updated_at, MAX(t.created_at)) as last_activity
@@ -323,11 +429,12 @@ export class AnalyticsService {
 
     return {
       users: dataResult.rows,
-      total
+      total,
+      currency: getReportingCurrency()
     };
   }
 
-  // Admin analytics - financial reports
+  // Admin analytics - financial reports, with amounts in the reporting currency
   static async getFinancialReport(period: string = '30d'): Promise<{
     revenue_by_period: PeriodStats[];
     top_earning_users: Array<{
@@ -341,7 +448,10 @@ export class AnalyticsService {
       amount: number;
       percentage: number;
     }>;
+    currency: string;
   }> {
+    const amount = convertedAmount(reportingCurrencySql());
+
     // Get revenue by period
     const revenue_by_period = await this.getAdminPeriodStats(period);
 
@@ -351,7 +461,7 @@ export class AnalyticsService {
         u.id as user_id,
         u.email,
         CONCAT(u.first_name, ' ', u.last_name) as name,
-        SUM(t.amount) as total_revenue
+        SUM(${amount}) as total_revenue
       FROM users u
       JOIN transactions t ON u.id = t.user_id
       WHERE t.type = 'payment' AND t.status = 'completed'
@@ -365,20 +475,20 @@ export class AnalyticsService {
     const commissionQuery = `
       SELECT 
         'Platform Commission' as type,
-        SUM(amount * 0.1) as amount
-      FROM transactions 
+        SUM(${amount} * 0.1) as amount
+      FROM transactions t
       WHERE type = 'payment' AND status = 'completed'
       UNION ALL
       SELECT 
         'Developer Commission' as type,
-        SUM(amount * 0.7) as amount
-      FROM transactions 
+        SUM(${amount} * 0.7) as amount
+      FROM transactions t
       WHERE type = 'payment' AND status = 'completed'
       UNION ALL
       SELECT 
         'User Earnings' as type,
-        SUM(amount * 0.2) as amount
-      FROM transactions 
+        SUM(${amount} * 0.2) as amount
+      FROM transactions t
       WHERE type = 'payment' AND status = 'completed'
     `;
     const commissionResult = await pool.query(commissionQuery);
@@ -393,7 +503,8 @@ export class AnalyticsService {
     return {
       revenue_by_period,
       top_earning_users: topUsersResult.rows,
-      commission_breakdown
+      commission_breakdown,
+      currency: getReportingCurrency()
     };
   } 
  // Helper method for admin period stats
@@ -410,7 +521,7 @@ export class AnalyticsService {
       )
       SELECT 
         ds.date::text as date,
-        COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.type = 'payment' THEN t.amount ELSE 0 END), 0) as revenue,
+        COALESCE(SUM(CASE WHEN t.status = 'completed' AND t.type = 'payment' THEN ${convertedAmount(reportingCurrencySql())} ELSE 0 END), 0) as revenue,
         COUNT(CASE WHEN t.status = 'completed' THEN t.id END) as transactions,
         COUNT(DISTINCT CASE WHEN bma.activated_at::date = ds.date THEN bma.id END) as new_activations,
         COUNT(DISTINCT CASE WHEN t.status = 'completed' THEN t.user_id END) as active_users
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { BroadcastNotification } from '../models/Notification';
+import { BroadcastLinkModel } from '../models/BroadcastLink';
+import { BroadcastDeliveryModel } from '../models/BroadcastDelivery';
+import { BroadcastClickModel } from '../models/BroadcastClick';
+import { TelegramInlineKeyboardButton } from './telegramService';
+import { TemplateParseMode } from '../utils/messageTemplate';
+
+// http(s) URLs end at whitespace, quotes, angle brackets, parentheses or a backslash
+const URL_PATTERN = /https?:\/\/[^\s<>"'()\\]+/g;
+// MarkdownV2 requires escaping most punctuation in plain text, so only inline link targets are rewritten there
+const MARKDOWN_LINK_PATTERN = /\]\((https?:\/\/[^\s()\\]+)\)/g;
+// Punctuation that ends a sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,!?;:]+$/;
+
+const SIGNATURE_LENGTH = 16;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Tracked links point at /api/r/{linkId}/{deliveryId}.{signature}. The signature stops anyone from
+ * forging clicks for other recipients; the redirect itself works for any visitor.
+ */
+export class BroadcastLinkService {
+  /**
+   * Public base URL of the redirect endpoint, or null when link tracking is not configured
+   */
+  static getBaseUrl(): string | null {
+    const baseUrl = process.env['LINK_TRACKING_BASE_URL'];
+    return baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+  }
+
+  static isTracked(broadcast: BroadcastNotification): boolean {
+    return this.getBaseUrl() !== null && broadcast.metadata['track_links'] !== false;
+  }
+
+  /**
+   * Store every URL a broadcast links to, across its message, keyboard and A/B variants.
+   * URLs built from template variables differ per recipient and are left untracked.
+   */
+  static async registerLinks(broadcast: BroadcastNotification): Promise<void> {
+    const parseMode: TemplateParseMode | undefined = broadcast.metadata['message_options']?.parse_mode;
+    const contents: Array<{ message: string; inline_keyboard?: TelegramInlineKeyboardButton[][] }> = [
+      { message: broadcast.message, inline_keyboard: broadcast.metadata['inline_keyboard'] },
+      ...(broadcast.metadata['ab_test']?.variants || [])
+    ];
+
+    const urls = new Set<string>();
+    for (const content of contents) {
+      this.replaceUrls(content.message, parseMode, url => {
+        urls.add(url);
+        return null;
+      });
+
+      for (const button of (content.inline_keyboard || []).flat()) {
+        if (button.url) {
+          urls.add(button.url);
+        }
+      }
+    }
+
+    await BroadcastLinkModel.createMany(
+      broadcast.id,
+      Array.from(urls).filter(url => !url.includes('{{'))
+    );
+  }
+
+  // URL -> link id for the registered links of a broadcast
+  static async getLinkIds(broadcastId: string): Promise<Map<string, string>> {
+    const links = await BroadcastLinkModel.findByBroadcastId(broadcastId);
+    return new Map(links.map(link => [link.url, link.id]));
+  }
+
+  static trackText(
+    text: string,
+    parseMode: TemplateParseMode | undefined,
+    linkIds: Map<string, string>,
+    deliveryId: string
+  ): string {
+    return this.replaceUrls(text, parseMode, url => {
+      const linkId = linkIds.get(url);
+      return linkId ? this.buildTrackedUrl(linkId, deliveryId) : null;
+    });
+  }
+
+  static trackKeyboard(
+    keyboard: TelegramInlineKeyboardButton[][],
+    linkIds: Map<string, string>,
+    deliveryId: string
+  ): TelegramInlineKeyboardButton[][] {
+    return keyboard.map(row => row.map(button => {
+      const linkId = button.url ? linkIds.get(button.url) : undefined;
+      return linkId ? { ...button, url: this.buildTrackedUrl(linkId, deliveryId) } : button;
+    }));
+  }
+
+  static buildTrackedUrl(linkId: string, deliveryId: string): string {
+    return `${this.getBaseUrl()}/api/r/${linkId}/${deliveryId}.${this.sign(linkId, deliveryId)}`;
+  }
+
+  /**
+   * Record a click on a tracked link and return where to send the visitor, or null for unknown links.
+   * Clicks with a missing or tampered recipient part still redirect, they are just not counted.
+   */
+  static async resolveClick(linkId: string, token: string): Promise<string | null> {
+    if (!UUID_PATTERN.test(linkId)) {
+      return null;
+    }
+
+    const link = await BroadcastLinkModel.findById(linkId);
+    if (!link) {
+      return null;
+    }
+
+    const [deliveryId = '', signature = ''] = token.split('.');
+    if (!UUID_PATTERN.test(deliveryId) || !this.verifySignature(linkId, deliveryId, signature)) {
+      return link.url;
+    }
+
+    // A failed click write must never keep the visitor from their destination
+    try {
+      const delivery = await BroadcastDeliveryModel.findById(deliveryId);
+      if (delivery && delivery.broadcast_id === link.broadcast_id) {
+        await BroadcastClickModel.create({
+          broadcast_id: link.broadcast_id,
+          delivery_id: delivery.id,
+          variant: delivery.variant ?? null,
+          source: 'link',
+          link_id: link.id
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to record click on link ${linkId}:`, error);
+    }
+
+    return link.url;
+  }
+
+  // Calls replace with the destination of every URL in the text; returning null keeps the URL as written
+  private static replaceUrls(
+    text: string,
+    parseMode: TemplateParseMode | undefined,
+    replace: (url: string) => string | null
+  ): string {
+    if (parseMode === 'MarkdownV2') {
+      return text.replace(MARKDOWN_LINK_PATTERN, (match, url: string) => {
+        const replacement = replace(url);
+        return replacement !== null ? `](${replacement})` : match;
+      });
+    }
+
+    return text.replace(URL_PATTERN, match => {
+      const url = match.replace(TRAILING_PUNCTUATION, '');
+      // In HTML the author escapes & as &amp;, which is not part of the destination
+      const destination = parseMode === 'HTML' ? url.replace(/&amp;/g, '&') : url;
+      const replacement = replace(destination);
+      return replacement !== null ? replacement + match.slice(url.length) : match;
+    });
+  }
+
+  private static sign(linkId: string, deliveryId: string): string {
+    const secret = process.env['LINK_TRACKING_SECRET'] || process.env['JWT_SECRET'] || 'your-secret-key';
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${linkId}:${deliveryId}`)
+      .digest('hex')
+      .slice(0, SIGNATURE_LENGTH);
+  }
+
+  private static verifySignature(linkId: string, deliveryId: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(linkId, deliveryId));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+}
@@ -0,0 +1,833 @@
+import redis from '../config/redis';
+import { NotificationModel, BroadcastNotification } from '../models/Notification';
+import { BotModel } from '../models/Bot';
+import { BotSubscriberModel, BotSubscriber } from '../models/BotSubscriber';
+import { BroadcastDeliveryModel, RecordDeliveryResultInput } from '../models/BroadcastDelivery';
+import {
+  TelegramService,
+  TelegramSendResult,
+  TelegramInputMedia,
+  TelegramInlineKeyboardButton
+} from './telegramService';
+import { BroadcastSegmentService, SegmentSnapshot } from './broadcastSegmentService';
+import { BroadcastLinkService } from './broadcastLinkService';
+import { hasTemplateVariables, renderMessageTemplate } from '../utils/messageTemplate';
+
+export interface BroadcastQueueProgress {
+  total: number;
+  successful: number;
+  failed: number;
+  pending: number;
+}
+
+export interface BroadcastJobTarget {
+  botId: string;
+  chatIds: (string | number)[];
+}
+
+export interface BroadcastContent {
+  message: string;
+  media?: TelegramInputMedia[];
+  inline_keyboard?: TelegramInlineKeyboardButton[][];
+}
+
+export interface BroadcastVariant extends BroadcastContent {
+  id: string; // 'A', 'B', ...
+  split: number; // percentage of the audience that gets this variant during the test
+}
+
+/**
+ * Stored as metadata.ab_test. When the splits add up to less than 100% the rest of the audience is held
+ * back until holdout_minutes after the test group was sent, and then gets the winning variant.
+ */
+export interface BroadcastAbTest {
+  variants: BroadcastVariant[];
+  holdout_minutes: number;
+  test_finished_at?: string;
+  winner?: string;
+  winner_selected_at?: string;
+}
+
+// Data a worker loads once per claimed batch of jobs
+interface DeliveryBatch {
+  tokens: Map<string, Promise<string | null>>;
+  recipients: Map<string, BotSubscriber>; // subscriber data for personalised messages, by job
+  deliveries: Map<string, { id: string; variant: string | null }>; // delivery log rows, by job
+  linkIds: Map<string, string>; // tracked link ids by URL; empty when links are not tracked
+}
+
+/**
+ * Redis layout (all keys share KEY_PREFIX):
+ *   active                  SET of broadcast ids workers should pull jobs from
+ *   {id}:pending            ZSET of "botId:chatId" jobs scored by the time they become due (ms)
+ *   {id}:processing         ZSET of jobs claimed by a worker, scored by lease expiry (ms)
+ *   {id}:stats              HASH total / successful / failed (+ finished, + phase once an A/B winner is queued),
+ *                           kept for a while after the broadcast ends
+ *   {id}:attempts           HASH job -> send attempts so far, used to retry transient failures
+ *   rate:bot:{botId}        per-bot message counter for the current one-second window
+ *   rate:chat:{botId}:{id}  per-chat marker kept for one second after each send
+ *   blocked:{botId}         set for retry_after when Telegram answers 429
+ */
+const KEY_PREFIX = 'broadcast-queue';
+
+const BOT_MESSAGES_PER_SECOND = Number(process.env['BROADCAST_BOT_RATE_LIMIT']) || 30;
+const CHAT_MESSAGE_INTERVAL_MS = 1000;
+const JOB_LEASE_MS = 60 * 1000;
+const CLAIM_BATCH_SIZE = BOT_MESSAGES_PER_SECOND;
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+// Finished stats outlive the broadcast so a stale recovery pass can never queue it a second time
+const FINISHED_STATS_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Idempotent: does nothing if the broadcast was already queued, even if it has since finished
+const ENQUEUE_JOBS_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 1 then return 0 end
+for i = 3, #ARGV do
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[i])
+end
+redis.call('HSET', KEYS[2], 'total', #ARGV - 2, 'successful', 0, 'failed', 0)
+redis.call('SADD', KEYS[3], ARGV[1])
+return 1
+`;
+
+// Queue the held-back recipients of an A/B test once the winner is known; idempotent like ENQUEUE_JOBS_SCRIPT
+const ENQUEUE_WINNER_JOBS_SCRIPT = `
+if redis.call('HGET', KEYS[2], 'phase') == 'winner' then return 0 end
+for i = 3, #ARGV do
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[i])
+end
+redis.call('HINCRBY', KEYS[2], 'total', #ARGV - 2)
+redis.call('HDEL', KEYS[2], 'finished')
+redis.call('HSET', KEYS[2], 'phase', 'winner')
+redis.call('PERSIST', KEYS[2])
+redis.call('SADD', KEYS[3], ARGV[1])
+return 1
+`;
+
+// Move due jobs from pending to processing so no other replica can claim them
+const CLAIM_JOBS_SCRIPT = `
+local jobs = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+for _, job in ipairs(jobs) do
+  redis.call('ZREM', KEYS[1], job)
+  redis.call('ZADD', KEYS[2], ARGV[3], job)
+end
+return jobs
+`;
+
+// Return jobs whose lease expired (worker crashed or restarted) to the pending set
+const REQUEUE_EXPIRED_SCRIPT = `
+local jobs = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, job in ipairs(jobs) do
+  redis.call('ZREM', KEYS[1], job)
+  redis.call('ZADD', KEYS[2], ARGV[1], job)
+end
+return #jobs
+`;
+
+// Returns 0 when the message may be sent now, otherwise the number of ms to wait
+const ACQUIRE_RATE_LIMIT_SCRIPT = `
+local blocked = redis.call('PTTL', KEYS[3])
+if blocked > 0 then return blocked end
+local chatWait = redis.call('PTTL', KEYS[2])
+if chatWait > 0 then return chatWait end
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], 1000) end
+if count > tonumber(ARGV[1]) then
+  local windowWait = redis.call('PTTL', KEYS[1])
+  if windowWait > 0 then return windowWait end
+  return 1
+end
+redis.call('SET', KEYS[2], '1', 'PX', ARGV[2])
+return 0
+`;
+
+// Record the outcome only if this worker still holds the job lease
+const COMPLETE_JOB_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+  redis.call('HINCRBY', KEYS[2], ARGV[2], 1)
+  return 1
+end
+return 0
+`;
+
+const RESCHEDULE_JOB_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+  redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+// Exactly one worker wins the right to finalize a drained broadcast
+const FINISH_BROADCAST_SCRIPT = `
+if redis.call('ZCARD', KEYS[2]) > 0 or redis.call('ZCARD', KEYS[3]) > 0 then return 0 end
+if redis.call('SREM', KEYS[1], ARGV[1]) == 0 then return 0 end
+redis.call('DEL', KEYS[5])
+redis.call('HSET', KEYS[4], 'finished', 1)
+redis.call('PEXPIRE', KEYS[4], ARGV[2])
+return 1
+`;
+
+export class BroadcastQueueService {
+  private static isProcessing = false;
+
+  /**
+   * Claim a draft/scheduled broadcast and split it into per-chat delivery jobs
+   */
+  static async enqueueBroadcast(broadcastId: string): Promise<BroadcastQueueProgress> {
+    // The status transition is the lock: only one replica or request can enqueue a broadcast
+    const broadcast = await NotificationModel.transitionBroadcastStatus(broadcastId, ['draft', 'scheduled'], 'sending');
+    if (!broadcast) {
+      throw new Error('Broadcast cannot be executed in current status');
+    }
+
+    return this.createJobs(broadcast);
+  }
+
+  /**
+   * Stop handing out jobs for a sending broadcast; jobs already in flight still complete
+   */
+  static async pauseBroadcast(broadcastId: string): Promise<void> {
+    const broadcast = await NotificationModel.transitionBroadcastStatus(broadcastId, ['sending'], 'paused');
+    if (!broadcast) {
+      throw new Error('Only sending broadcasts can be paused');
+    }
+
+    await redis.srem(this.activeKey(), broadcastId);
+  }
+
+  static async resumeBroadcast(broadcastId: string): Promise<void> {
+    const broadcast = await NotificationModel.transitionBroadcastStatus(broadcastId, ['paused'], 'sending');
+    if (!broadcast) {
+      throw new Error('Only paused broadcasts can be resumed');
+    }
+
+    await redis.sadd(this.activeKey(), broadcastId);
+  }
+
+  /**
+   * Send the winning variant of a finished A/B test to the recipients that were held back
+   */
+  static async sendWinner(broadcastId: string, winner: string): Promise<BroadcastQueueProgress | null> {
+    const current = await NotificationModel.getBroadcastById(broadcastId);
+    const abTest = current?.metadata['ab_test'] as BroadcastAbTest | undefined;
+    if (!current || !abTest) {
+      throw new Error('Broadcast not found');
+    }
+
+    if (!abTest.variants.some(variant => variant.id === winner)) {
+      throw new Error(`Unknown variant ${winner}`);
+    }
+
+    const broadcast = await NotificationModel.transitionBroadcastStatus(broadcastId, ['testing'], 'sending', {
+      ab_test: { ...abTest, winner, winner_selected_at: new Date().toISOString() }
+    });
+    if (!broadcast) {
+      throw new Error('Broadcast is not waiting for an A/B test winner');
+    }
+
+    await this.enqueueWinnerJobs(broadcast);
+    return this.getProgress(broadcastId);
+  }
+
+  /**
+   * Drop the remaining jobs of a sending, paused or testing broadcast, keeping the counts delivered so far
+   */
+  static async cancelBroadcast(broadcastId: string): Promise<void> {
+    const broadcast = await NotificationModel.transitionBroadcastStatus(
+      broadcastId,
+      ['sending', 'paused', 'testing'],
+      'cancelled'
+    );
+    if (!broadcast) {
+      throw new Error('Cannot cancel broadcast in current status');
+    }
+
+    await redis.multi()
+      .srem(this.activeKey(), broadcastId)
+      .del(this.pendingKey(broadcastId), this.processingKey(broadcastId), this.attemptsKey(broadcastId))
+      .hset(this.statsKey(broadcastId), 'finished', 1)
+      .pexpire(this.statsKey(broadcastId), FINISHED_STATS_RETENTION_MS)
+      .exec();
+
+    const progress = await this.getProgress(broadcastId);
+
+    if (progress) {
+      await NotificationModel.updateBroadcastStatus(broadcastId, 'cancelled', {
+        successful_sends: progress.successful,
+        failed_sends: progress.failed
+      });
+    }
+  }
+
+  /**
+   * Delivery counters of a queued broadcast, or null if it never reached the queue
+   */
+  static async getProgress(broadcastId: string): Promise<BroadcastQueueProgress | null> {
+    const [stats, pending, processing] = await Promise.all([
+      redis.hgetall(this.statsKey(broadcastId)),
+      redis.zcard(this.pendingKey(broadcastId)),
+      redis.zcard(this.processingKey(broadcastId))
+    ]);
+
+    if (!stats || Object.keys(stats).length === 0) {
+      return null;
+    }
+
+    return {
+      total: Number(stats['total']) || 0,
+      successful: Number(stats['successful']) || 0,
+      failed: Number(stats['failed']) || 0,
+      pending: pending + processing
+    };
+  }
+
+  /**
+   * One worker tick: claim due jobs of every active broadcast and deliver them
+   */
+  static async processQueue(): Promise<void> {
+    // Ticks are scheduled on an interval; never let a slow tick overlap the next one
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const broadcastIds = await redis.smembers(this.activeKey());
+
+      for (const broadcastId of broadcastIds) {
+        try {
+          await this.processBroadcastJobs(broadcastId);
+        } catch (error) {
+          console.error(`Failed to process queue of broadcast ${broadcastId}:`, error);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Repair broadcasts left in 'sending' by a crash: re-create jobs that never reached Redis and
+   * finalize broadcasts whose last worker died before recording the result
+   */
+  static async recoverInterruptedBroadcasts(): Promise<number> {
+    const sending = await NotificationModel.listBroadcasts({ status: 'sending', limit: 100 });
+    let recovered = 0;
+
+    for (const broadcast of sending) {
+      const stats = await redis.hgetall(this.statsKey(broadcast.id));
+      if (stats && Object.keys(stats).length > 0) {
+        if (!stats['finished']) {
+          // Make sure a drained broadcast whose finalizing worker died still gets finalized
+          await redis.sadd(this.activeKey(), broadcast.id);
+        } else if (broadcast.metadata['ab_test']?.winner && stats['phase'] !== 'winner') {
+          // The A/B winner was picked but the held-back recipients never reached Redis
+          await this.enqueueWinnerJobs(broadcast);
+        } else if (this.awaitsWinner(broadcast)) {
+          await this.startTestingPhase(broadcast);
+        } else if (await NotificationModel.transitionBroadcastStatus(broadcast.id, ['sending'], 'sent')) {
+          // Finished in Redis but the worker died before writing the result to the database
+          await this.saveFinalStats(broadcast.id);
+        }
+        continue;
+      }
+
+      await this.createJobs(broadcast);
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  private static async createJobs(broadcast: BroadcastNotification): Promise<BroadcastQueueProgress> {
+    const segment = broadcast.metadata['segment'] as SegmentSnapshot | undefined;
+    const targets: BroadcastJobTarget[] = segment
+      ? await BroadcastSegmentService.resolveTargets(segment)
+      : broadcast.metadata['targets'] || [];
+    // A sorted set also de-duplicates chats listed twice for the same bot
+    const jobs = Array.from(new Set(
+      targets.flatMap(target => target.chatIds.map(chatId => this.toJob(target.botId, chatId)))
+    ));
+
+    // In an A/B test only the recipients given a variant are sent now; the rest wait for the winner
+    const abTest = broadcast.metadata['ab_test'] as BroadcastAbTest | undefined;
+    const variants = abTest ? this.assignVariants(jobs, abTest.variants) : new Map<string, string>();
+    const queued = abTest ? jobs.filter(job => variants.has(job)) : jobs;
+
+    await BroadcastDeliveryModel.createPending(
+      broadcast.id,
+      jobs.map(job => ({ ...this.fromJob(job), variant: variants.get(job) ?? null }))
+    );
+
+    if (BroadcastLinkService.isTracked(broadcast)) {
+      await BroadcastLinkService.registerLinks(broadcast);
+    }
+
+    // Jobs, counters and the active flag are written in one script so a crash never leaves a half-queued
+    // broadcast, and a second enqueue of the same broadcast (e.g. by recovery on another replica) is a no-op
+    await redis.eval(
+      ENQUEUE_JOBS_SCRIPT,
+      3,
+      this.pendingKey(broadcast.id),
+      this.statsKey(broadcast.id),
+      this.activeKey(),
+      broadcast.id,
+      Date.now(),
+      ...queued
+    );
+
+    await NotificationModel.updateBroadcastStatus(broadcast.id, 'sending', {
+      total_recipients: jobs.length
+    });
+
+    return {
+      total: queued.length,
+      successful: 0,
+      failed: 0,
+      pending: queued.length
+    };
+  }
+
+  /**
+   * Randomly split recipients between variants by their percentages. When the splits cover the whole
+   * audience, recipients left over by rounding are spread over the variants so nobody is held back.
+   */
+  private static assignVariants(jobs: string[], variants: BroadcastVariant[]): Map<string, string> {
+    const shuffled = [...jobs];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+    }
+
+    const assigned = new Map<string, string>();
+    let offset = 0;
+    for (const variant of variants) {
+      const count = Math.floor(shuffled.length * variant.split / 100);
+      for (const job of shuffled.slice(offset, offset + count)) {
+        assigned.set(job, variant.id);
+      }
+      offset += count;
+    }
+
+    if (this.totalSplit(variants) >= 100) {
+      shuffled.slice(offset).forEach((job, index) => {
+        assigned.set(job, variants[index % variants.length]!.id);
+      });
+    }
+
+    return assigned;
+  }
+
+  private static async enqueueWinnerJobs(broadcast: BroadcastNotification): Promise<void> {
+    const abTest = broadcast.metadata['ab_test'] as BroadcastAbTest;
+    const recipients = await BroadcastDeliveryModel.assignHeldBackRecipients(broadcast.id, abTest.winner!);
+    const jobs = recipients.map(recipient => this.toJob(recipient.bot_id, recipient.chat_id));
+
+    await redis.eval(
+      ENQUEUE_WINNER_JOBS_SCRIPT,
+      3,
+      this.pendingKey(broadcast.id),
+      this.statsKey(broadcast.id),
+      this.activeKey(),
+      broadcast.id,
+      Date.now(),
+      ...jobs
+    );
+
+    console.log(`Broadcast ${broadcast.id} sending variant ${abTest.winner} to ${jobs.length} held-back recipients`);
+  }
+
+  // True when the test group of an A/B broadcast went out and the held-back recipients still need a winner
+  private static awaitsWinner(broadcast: BroadcastNotification): boolean {
+    const abTest = broadcast.metadata['ab_test'] as BroadcastAbTest | undefined;
+    return !!abTest && !abTest.winner && this.totalSplit(abTest.variants) < 100;
+  }
+
+  private static async startTestingPhase(broadcast: BroadcastNotification): Promise<void> {
+    const testing = await NotificationModel.transitionBroadcastStatus(broadcast.id, ['sending'], 'testing', {
+      ab_test: { ...broadcast.metadata['ab_test'], test_finished_at: new Date().toISOString() }
+    });
+    if (!testing) {
+      return;
+    }
+
+    // The counters are needed again when the winner is sent, however long the holdout is
+    await redis.persist(this.statsKey(broadcast.id));
+
+    // The total stays the whole audience, including the recipients still held back
+    const progress = await this.getProgress(broadcast.id);
+    await NotificationModel.updateBroadcastStatus(broadcast.id, 'testing', {
+      successful_sends: progress?.successful ?? 0,
+      failed_sends: progress?.failed ?? 0
+    });
+  }
+
+  private static totalSplit(variants: BroadcastVariant[]): number {
+    return variants.reduce((sum, variant) => sum + variant.split, 0);
+  }
+
+  private static async processBroadcastJobs(broadcastId: string): Promise<void> {
+    const now = Date.now();
+
+    await redis.eval(REQUEUE_EXPIRED_SCRIPT, 2, this.processingKey(broadcastId), this.pendingKey(broadcastId), now);
+
+    const jobs = await redis.eval(
+      CLAIM_JOBS_SCRIPT,
+      2,
+      this.pendingKey(broadcastId),
+      this.processingKey(broadcastId),
+      now,
+      CLAIM_BATCH_SIZE,
+      now + JOB_LEASE_MS
+    ) as string[];
+
+    if (jobs.length > 0) {
+      const broadcast = await NotificationModel.getBroadcastById(broadcastId);
+      if (!broadcast || broadcast.status !== 'sending') {
+        // Paused or cancelled between the SMEMBERS and the claim: hand the jobs back untouched
+        await Promise.all(jobs.map(job => this.rescheduleJob(broadcastId, job, now)));
+        return;
+      }
+
+      const tracked = BroadcastLinkService.isTracked(broadcast);
+      const batch: DeliveryBatch = {
+        tokens: new Map(),
+        recipients: await this.loadTemplateRecipients(broadcast, jobs),
+        deliveries: await this.loadDeliveries(broadcast, jobs, tracked),
+        linkIds: tracked ? await BroadcastLinkService.getLinkIds(broadcastId) : new Map()
+      };
+      await Promise.all(jobs.map(job => this.deliverJob(broadcast, job, batch)));
+    }
+
+    await this.finishIfDrained(broadcastId);
+  }
+
+  private static async deliverJob(broadcast: BroadcastNotification, job: string, batch: DeliveryBatch): Promise<void> {
+    const { botId, chatId } = this.fromJob(job);
+    const { tokens, recipients } = batch;
+
+    const waitMs = Number(await redis.eval(
+      ACQUIRE_RATE_LIMIT_SCRIPT,
+      3,
+      `${KEY_PREFIX}:rate:bot:${botId}`,
+      `${KEY_PREFIX}:rate:chat:${botId}:${chatId}`,
+      this.blockedKey(botId),
+      BOT_MESSAGES_PER_SECOND,
+      CHAT_MESSAGE_INTERVAL_MS
+    ));
+
+    if (waitMs > 0) {
+      await this.rescheduleJob(broadcast.id, job, Date.now() + waitMs);
+      return;
+    }
+
+    if (!tokens.has(botId)) {
+      tokens.set(botId, BotModel.getDecryptedToken(botId));
+    }
+    const botToken = await tokens.get(botId);
+    if (!botToken) {
+      console.error(`Bot ${botId} not found, failing broadcast job`);
+      await this.recordDelivery(broadcast.id, botId, chatId, {
+        status: 'failed',
+        attempts: 0,
+        error_description: 'Bot not found'
+      });
+      await this.completeJob(broadcast.id, job, false);
+      return;
+    }
+
+    const options = broadcast.metadata['message_options'] || {};
+    const delivery = batch.deliveries.get(job);
+    let content = this.getContent(broadcast, delivery?.variant ?? undefined);
+    // Chats that are not (or no longer) subscribers get the template's fallbacks
+    let text = renderMessageTemplate(content.message, recipients.get(job) || null, options.parse_mode);
+
+    if (delivery && batch.linkIds.size > 0) {
+      text = BroadcastLinkService.trackText(text, options.parse_mode, batch.linkIds, delivery.id);
+      if (content.inline_keyboard) {
+        content = {
+          ...content,
+          inline_keyboard: BroadcastLinkService.trackKeyboard(content.inline_keyboard, batch.linkIds, delivery.id)
+        };
+      }
+    }
+
+    const result = await this.sendContent(botToken, chatId, broadcast, content, text);
+
+    if (!result.ok && result.errorCode === 429) {
+      // Telegram's flood control applies to the whole bot, so hold every job of that bot
+      const retryAfterMs = (result.retryAfter || 1) * 1000;
+      await redis.set(this.blockedKey(botId), '1', 'PX', retryAfterMs);
+      await this.rescheduleJob(broadcast.id, job, Date.now() + retryAfterMs);
+      return;
+    }
+
+    const attempts = await redis.hincrby(this.attemptsKey(broadcast.id), job, 1);
+
+    if (result.ok) {
+      await this.recordDelivery(broadcast.id, botId, chatId, {
+        status: 'sent',
+        attempts,
+        ...(result.messageId !== undefined && { telegram_message_id: result.messageId })
+      });
+      await this.completeJob(broadcast.id, job, true);
+      return;
+    }
+
+    if (this.isTransientFailure(result) && attempts < MAX_DELIVERY_ATTEMPTS) {
+      await this.rescheduleJob(broadcast.id, job, Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+      return;
+    }
+
+    // 403 means the user blocked the bot, deleted their account or removed the bot from the chat
+    const blocked = result.errorCode === 403;
+    if (blocked) {
+      await BotSubscriberModel.deactivateByBotAndChat(botId, chatId).catch(error => {
+        console.error(`Failed to deactivate subscriber ${chatId} of bot ${botId}:`, error);
+      });
+    }
+
+    await this.recordDelivery(broadcast.id, botId, chatId, {
+      status: blocked ? 'blocked' : 'failed',
+      attempts,
+      ...(result.errorCode !== undefined && { error_code: result.errorCode }),
+      ...(result.description && { error_description: result.description })
+    });
+    await this.completeJob(broadcast.id, job, false);
+  }
+
+  /**
+   * Delivery log rows of a batch, keyed by job. Only A/B tests (for the variants) and tracked links
+   * (for the recipient in each link) need them, so other broadcasts skip the query.
+   */
+  private static async loadDeliveries(
+    broadcast: BroadcastNotification,
+    jobs: string[],
+    tracked: boolean
+  ): Promise<Map<string, { id: string; variant: string | null }>> {
+    const deliveries = new Map<string, { id: string; variant: string | null }>();
+    if (!broadcast.metadata['ab_test'] && !tracked) {
+      return deliveries;
+    }
+
+    const rows = await BroadcastDeliveryModel.findByRecipients(broadcast.id, jobs.map(job => this.fromJob(job)));
+    for (const row of rows) {
+      deliveries.set(this.toJob(row.bot_id, row.chat_id), { id: row.id, variant: row.variant });
+    }
+
+    return deliveries;
+  }
+
+  private static getContent(broadcast: BroadcastNotification, variantId?: string): BroadcastContent {
+    const abTest = broadcast.metadata['ab_test'] as BroadcastAbTest | undefined;
+    const variant = variantId ? abTest?.variants.find(candidate => candidate.id === variantId) : undefined;
+    if (variant) {
+      return variant;
+    }
+
+    return {
+      message: broadcast.message,
+      ...(broadcast.metadata['media'] && { media: broadcast.metadata['media'] }),
+      ...(broadcast.metadata['inline_keyboard'] && { inline_keyboard: broadcast.metadata['inline_keyboard'] })
+    };
+  }
+
+  /**
+   * Subscriber data for the personalised messages of a batch, keyed by job; empty for plain messages
+   */
+  private static async loadTemplateRecipients(
+    broadcast: BroadcastNotification,
+    jobs: string[]
+  ): Promise<Map<string, BotSubscriber>> {
+    const recipients = new Map<string, BotSubscriber>();
+    const abTest = broadcast.metadata['ab_test'] as BroadcastAbTest | undefined;
+    const messages = [broadcast.message, ...(abTest?.variants.map(variant => variant.message) || [])];
+    if (!messages.some(message => hasTemplateVariables(message))) {
+      return recipients;
+    }
+
+    const subscribers = await BotSubscriberModel.findByRecipients(jobs.map(job => this.fromJob(job)));
+    for (const subscriber of subscribers) {
+      recipients.set(this.toJob(subscriber.bot_id, subscriber.chat_id), subscriber);
+    }
+
+    return recipients;
+  }
+
+  /**
+   * Pick the Bot API method for the broadcast content: plain text, a single attachment or an album
+   */
+  private static async sendContent(
+    token: string,
+    chatId: string,
+    broadcast: BroadcastNotification,
+    content: BroadcastContent,
+    text: string
+  ): Promise<TelegramSendResult> {
+    const options = broadcast.metadata['message_options'] || {};
+    const media = content.media || [];
+    const inlineKeyboard = content.inline_keyboard;
+    const replyMarkup = inlineKeyboard && inlineKeyboard.length > 0
+      ? { reply_markup: { inline_keyboard: inlineKeyboard } }
+      : {};
+
+    if (media.length === 0) {
+      return TelegramService.sendMessageWithResult(token, chatId, text, {
+        ...options,
+        ...replyMarkup
+      });
+    }
+
+    const captionOptions = {
+      ...(text && { caption: text }),
+      ...(options.parse_mode && { parse_mode: options.parse_mode })
+    };
+    const notificationOptions = options.disable_notification !== undefined
+      ? { disable_notification: options.disable_notification }
+      : {};
+
+    if (media.length > 1) {
+      // The album caption is the caption of its first item
+      return TelegramService.sendMediaGroup(
+        token,
+        chatId,
+        media.map((item, index) => ({
+          type: item.type,
+          media: item.media,
+          ...(index === 0 && captionOptions)
+        })),
+        notificationOptions
+      );
+    }
+
+    const [attachment] = media as [TelegramInputMedia];
+    const mediaOptions = { ...captionOptions, ...notificationOptions, ...replyMarkup };
+
+    switch (attachment.type) {
+      case 'photo':
+        return TelegramService.sendPhoto(token, chatId, attachment.media, mediaOptions);
+      case 'video':
+        return TelegramService.sendVideo(token, chatId, attachment.media, mediaOptions);
+      case 'document':
+        return TelegramService.sendDocument(token, chatId, attachment.media, mediaOptions);
+    }
+  }
+
+  // Network errors and Telegram server errors are worth another try; 4xx answers are final
+  private static isTransientFailure(result: TelegramSendResult): boolean {
+    return result.errorCode === undefined || result.errorCode >= 500;
+  }
+
+  private static async recordDelivery(
+    broadcastId: string,
+    botId: string,
+    chatId: string,
+    input: RecordDeliveryResultInput
+  ): Promise<void> {
+    // A failed log write must not leave the job leased, or it would be sent again after the lease expires
+    try {
+      await BroadcastDeliveryModel.recordResult(broadcastId, botId, chatId, input);
+    } catch (error) {
+      console.error(`Failed to record delivery of broadcast ${broadcastId} to chat ${chatId}:`, error);
+    }
+  }
+
+  private static async completeJob(broadcastId: string, job: string, successful: boolean): Promise<void> {
+    await redis.eval(
+      COMPLETE_JOB_SCRIPT,
+      2,
+      this.processingKey(broadcastId),
+      this.statsKey(broadcastId),
+      job,
+      successful ? 'successful' : 'failed'
+    );
+  }
+
+  private static async rescheduleJob(broadcastId: string, job: string, dueAt: number): Promise<void> {
+    await redis.eval(
+      RESCHEDULE_JOB_SCRIPT,
+      2,
+      this.processingKey(broadcastId),
+      this.pendingKey(broadcastId),
+      job,
+      dueAt
+    );
+  }
+
+  private static async finishIfDrained(broadcastId: string): Promise<void> {
+    const won = await redis.eval(
+      FINISH_BROADCAST_SCRIPT,
+      5,
+      this.activeKey(),
+      this.pendingKey(broadcastId),
+      this.processingKey(broadcastId),
+      this.statsKey(broadcastId),
+      this.attemptsKey(broadcastId),
+      broadcastId,
+      FINISHED_STATS_RETENTION_MS
+    );
+
+    if (Number(won) !== 1) {
+      return;
+    }
+
+    const broadcast = await NotificationModel.getBroadcastById(broadcastId);
+    if (broadcast && this.awaitsWinner(broadcast)) {
+      await this.startTestingPhase(broadcast);
+      console.log(`Broadcast ${broadcastId} test group sent, waiting for the A/B test winner`);
+      return;
+    }
+
+    const progress = await this.saveFinalStats(broadcastId);
+    console.log(`Broadcast ${broadcastId} completed:`, progress);
+  }
+
+  private static async saveFinalStats(broadcastId: string): Promise<BroadcastQueueProgress | null> {
+    const progress = await this.getProgress(broadcastId);
+    await NotificationModel.updateBroadcastStatus(broadcastId, 'sent', {
+      total_recipients: progress?.total ?? 0,
+      successful_sends: progress?.successful ?? 0,
+      failed_sends: progress?.failed ?? 0
+    });
+
+    return progress;
+  }
+
+  private static toJob(botId: string, chatId: string | number): string {
+    return `${botId}:${chatId}`;
+  }
+
+  private static fromJob(job: string): { botId: string; chatId: string } {
+    // Bot ids are UUIDs, so the first colon always separates the chat id (which may itself be negative)
+    const separator = job.indexOf(':');
+    return {
+      botId: job.slice(0, separator),
+      chatId: job.slice(separator + 1)
+    };
+  }
+
+  private static activeKey(): string {
+    return `${KEY_PREFIX}:active`;
+  }
+
+  private static pendingKey(broadcastId: string): string {
+    return `${KEY_PREFIX}:${broadcastId}:pending`;
+  }
+
+  private static processingKey(broadcastId: string): string {
+    return `${KEY_PREFIX}:${broadcastId}:processing`;
+  }
+
+  private static statsKey(broadcastId: string): string {
+    return `${KEY_PREFIX}:${broadcastId}:stats`;
+  }
+
+  private static attemptsKey(broadcastId: string): string {
+    return `${KEY_PREFIX}:${broadcastId}:attempts`;
+  }
+
+  private static blockedKey(botId: string): string {
+    return `${KEY_PREFIX}:blocked:${botId}`;
+  }
+}
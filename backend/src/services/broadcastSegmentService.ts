@@ -0,0 +1,149 @@
+import { BotModel } from '../models/Bot';
+import { BotSubscriberModel } from '../models/BotSubscriber';
+import {
+  BroadcastSegmentModel,
+  BroadcastSegment,
+  SegmentFilters,
+  CreateBroadcastSegmentInput,
+  UpdateBroadcastSegmentInput
+} from '../models/BroadcastSegment';
+
+export interface SegmentRecipientCount {
+  total: number;
+  byBot: Array<{
+    botId: string;
+    count: number;
+  }>;
+}
+
+// Segment definition copied into a broadcast, so it can still be resolved if the segment is deleted later
+export interface SegmentSnapshot {
+  id: string;
+  name: string;
+  bot_ids: string[];
+  filters: SegmentFilters;
+}
+
+export class BroadcastSegmentService {
+  /**
+   * Save a new segment after checking the user owns every bot it spans
+   */
+  static async createSegment(
+    userId: string,
+    input: Omit<CreateBroadcastSegmentInput, 'user_id'>
+  ): Promise<BroadcastSegment> {
+    await this.assertBotsOwned(userId, input.bot_ids);
+
+    return BroadcastSegmentModel.create({ ...input, user_id: userId });
+  }
+
+  /**
+   * Get user's segments together with their current recipient counts
+   */
+  static async getUserSegments(userId: string): Promise<Array<BroadcastSegment & { recipientCount: number }>> {
+    const segments = await BroadcastSegmentModel.findByUserId(userId);
+
+    return Promise.all(segments.map(async segment => {
+      const count = await this.countRecipients(segment.bot_ids, segment.filters);
+      return { ...segment, recipientCount: count.total };
+    }));
+  }
+
+  static async getSegment(segmentId: string, userId: string): Promise<BroadcastSegment> {
+    const segment = await BroadcastSegmentModel.findById(segmentId);
+    if (!segment || segment.user_id !== userId) {
+      throw new Error('Segment not found');
+    }
+
+    return segment;
+  }
+
+  static async updateSegment(
+    segmentId: string,
+    userId: string,
+    input: UpdateBroadcastSegmentInput
+  ): Promise<BroadcastSegment> {
+    await this.getSegment(segmentId, userId);
+
+    if (input.bot_ids) {
+      await this.assertBotsOwned(userId, input.bot_ids);
+    }
+
+    const segment = await BroadcastSegmentModel.update(segmentId, input);
+    if (!segment) {
+      throw new Error('Segment not found');
+    }
+
+    return segment;
+  }
+
+  /**
+   * Delete a segment; broadcasts already created from it keep a copy of its definition
+   */
+  static async deleteSegment(segmentId: string, userId: string): Promise<void> {
+    await this.getSegment(segmentId, userId);
+    await BroadcastSegmentModel.delete(segmentId);
+  }
+
+  /**
+   * Count the subscribers an unsaved segment definition matches right now
+   */
+  static async previewSegment(
+    userId: string,
+    botIds: string[],
+    filters: SegmentFilters
+  ): Promise<SegmentRecipientCount> {
+    await this.assertBotsOwned(userId, botIds);
+    return this.countRecipients(botIds, filters);
+  }
+
+  static async countRecipients(botIds: string[], filters: SegmentFilters): Promise<SegmentRecipientCount> {
+    const rows = await BotSubscriberModel.countSegmentRecipients(botIds, filters);
+    const countByBot = new Map(rows.map(row => [row.bot_id, row.count]));
+
+    const byBot = botIds.map(botId => ({ botId, count: countByBot.get(botId) || 0 }));
+
+    return {
+      total: byBot.reduce((sum, bot) => sum + bot.count, 0),
+      byBot
+    };
+  }
+
+  static toSnapshot(segment: BroadcastSegment): SegmentSnapshot {
+    return {
+      id: segment.id,
+      name: segment.name,
+      bot_ids: segment.bot_ids,
+      filters: segment.filters
+    };
+  }
+
+  /**
+   * Resolve a segment into per-bot chat ids at send time, using the segment's current definition
+   * and falling back to the copy taken when the broadcast was created
+   */
+  static async resolveTargets(snapshot: SegmentSnapshot): Promise<Array<{ botId: string; chatIds: string[] }>> {
+    const segment = await BroadcastSegmentModel.findById(snapshot.id);
+    const { bot_ids, filters } = segment || snapshot;
+
+    const recipients = await BotSubscriberModel.findSegmentRecipients(bot_ids, filters);
+
+    const chatIdsByBot = new Map<string, string[]>();
+    for (const recipient of recipients) {
+      const chatIds = chatIdsByBot.get(recipient.bot_id) || [];
+      chatIds.push(recipient.chat_id);
+      chatIdsByBot.set(recipient.bot_id, chatIds);
+    }
+
+    return Array.from(chatIdsByBot, ([botId, chatIds]) => ({ botId, chatIds }));
+  }
+
+  private static async assertBotsOwned(userId: string, botIds: string[]): Promise<void> {
+    for (const botId of botIds) {
+      const bot = await BotModel.findById(botId);
+      if (!bot || bot.user_id !== userId) {
+        throw new Error(`Bot ${botId} not found or access denied`);
+      }
+    }
+  }
+}
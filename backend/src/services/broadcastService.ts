@@ -1,18 +1,42 @@
 import { NotificationModel, BroadcastNotification } from '../models/Notification';
 import { BotModel } from '../models/Bot';
-import { TelegramService } from './telegramService';
+import { UserModel } from '../models/User';
+import { BroadcastDeliveryModel, BroadcastDelivery, BroadcastDeliveryStatus } from '../models/BroadcastDelivery';
+import { BroadcastClickModel, BroadcastClickSummary } from '../models/BroadcastClick';
+import { BroadcastQueueService, BroadcastQueueProgress, BroadcastAbTest } from './broadcastQueueService';
+import { TelegramInlineKeyboardButton } from './telegramService';
+import { BroadcastSegmentService } from './broadcastSegmentService';
 
 export interface BroadcastTarget {
   botId: string;
   chatIds: (string | number)[];
 }
 
+export interface BroadcastMedia {
+  type: 'photo' | 'video' | 'document';
+  media: string; // Telegram file_id or HTTP URL
+}
+
+export interface BroadcastVariantInput {
+  message: string;
+  media?: BroadcastMedia[];
+  inlineKeyboard?: TelegramInlineKeyboardButton[][];
+  split: number; // percentage of the audience in the test group for this variant
+}
+
 export interface CreateBroadcastCampaignInput {
   userId: string;
   title: string;
-  message: string;
-  targets: BroadcastTarget[];
+  message: string; // used as the caption when media is attached
+  media?: BroadcastMedia[]; // one item is sent on its own, several as an album
+  inlineKeyboard?: TelegramInlineKeyboardButton[][];
+  targets?: BroadcastTarget[];
+  segmentId?: string; // saved segment resolved into recipients when the broadcast is sent, instead of targets
   scheduledAt?: Date;
+  resendOf?: string; // id of the broadcast whose failed recipients this one retries
+  variants?: BroadcastVariantInput[]; // A/B test: replaces message, media and inlineKeyboard
+  holdoutMinutes?: number; // how long the test runs before the winner goes to the rest of the audience
+  trackLinks?: boolean; // send URLs through the click-counting redirect (default true)
   messageOptions?: {
     parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
     disable_web_page_preview?: boolean;
@@ -25,42 +49,131 @@ export interface BroadcastStats {
   successfulSends: number;
   failedSends: number;
   deliveryRate: number;
+  pendingSends?: number; // only while the broadcast is in the delivery queue
+  clicks?: BroadcastClickStats;
 }
 
+export interface BroadcastClickStats {
+  totalClicks: number; // link opens and button presses
+  uniqueClicks: number; // recipients that clicked at least once
+  clickThroughRate: number; // unique clicks per delivered message, in percent
+  averageTimeToClickSeconds: number | null; // from delivery to each recipient's first click
+  medianTimeToClickSeconds: number | null;
+}
+
+export interface BroadcastVariantStats {
+  variant: string;
+  split: number;
+  recipients: number;
+  sent: number;
+  failed: number;
+  blocked: number;
+  pending: number;
+  clicks: number;
+  uniqueClicks: number;
+  ctr: number; // unique clicks per sent message, in percent
+}
+
+export interface BroadcastAbTestReport {
+  holdoutMinutes: number;
+  heldBack: number; // recipients still waiting for the winner
+  testFinishedAt?: string;
+  winner?: string;
+  variants: BroadcastVariantStats[];
+}
+
+const DEFAULT_AB_TEST_HOLDOUT_MINUTES = 60;
+
 export class BroadcastService {
   /**
    * Create a new broadcast campaign
    */
   static async createBroadcastCampaign(input: CreateBroadcastCampaignInput): Promise<BroadcastNotification> {
-    const { userId, title, message, targets, scheduledAt, messageOptions } = input;
+    const {
+      userId,
+      title,
+      message,
+      media,
+      inlineKeyboard,
+      targets,
+      segmentId,
+      scheduledAt,
+      resendOf,
+      variants,
+      holdoutMinutes,
+      trackLinks,
+      messageOptions
+    } = input;
+
+    let audience: {
+      targets: Array<{ bot_id: string; chat_count: number }>;
+      metadata: Record<string, any>;
+    };
 
-    // Validate user owns all the bots
-    for (const target of targets) {
-      const bot = await BotModel.findById(target.botId);
-      if (!bot || bot.user_id !== userId) {
-        throw new Error(`Bot ${target.botId} not found or access denied`);
+    if (segmentId) {
+      // Recipients are resolved when the broadcast is sent; until then the total is the segment's live count
+      const segment = await BroadcastSegmentService.getSegment(segmentId, userId);
+      const count = await BroadcastSegmentService.countRecipients(segment.bot_ids, segment.filters);
+
+      audience = {
+        targets: count.byBot.map(bot => ({ bot_id: bot.botId, chat_count: bot.count })),
+        metadata: { segment: BroadcastSegmentService.toSnapshot(segment) }
+      };
+    } else if (targets && targets.length > 0) {
+      // Validate user owns all the bots
+      for (const target of targets) {
+        const bot = await BotModel.findById(target.botId);
+        if (!bot || bot.user_id !== userId) {
+          throw new Error(`Bot ${target.botId} not found or access denied`);
+        }
       }
+
+      audience = {
+        targets: targets.map(t => ({
+          bot_id: t.botId,
+          chat_count: t.chatIds.length
+        })),
+        metadata: { targets }
+      };
+    } else {
+      throw new Error('Broadcast needs either targets or a segment');
     }
 
     // Calculate total target count
-    const totalTargets = targets.reduce((sum, target) => sum + target.chatIds.length, 0);
+    const totalTargets = audience.targets.reduce((sum, target) => sum + target.chat_count, 0);
+
+    const abTest: BroadcastAbTest | undefined = variants && variants.length > 0
+      ? {
+        variants: variants.map((variant, index) => ({
+          id: String.fromCharCode(65 + index),
+          message: variant.message,
+          ...(variant.media && variant.media.length > 0 && { media: variant.media }),
+          ...(variant.inlineKeyboard && variant.inlineKeyboard.length > 0 && { inline_keyboard: variant.inlineKeyboard }),
+          split: variant.split
+        })),
+        holdout_minutes: holdoutMinutes ?? DEFAULT_AB_TEST_HOLDOUT_MINUTES
+      }
+      : undefined;
 
-    // Create broadcast notification
+    // Create broadcast notification; an A/B test is listed under the message of its first variant
     const broadcast = await NotificationModel.createBroadcast({
       title,
-      message,
+      message: abTest ? abTest.variants[0]!.message : message,
       type: 'system_announcement',
       target_audience: {
         user_id: userId,
-        targets: targets.map(t => ({
-          bot_id: t.botId,
-          chat_count: t.chatIds.length
-        }))
+        ...(segmentId && { segment_id: segmentId }),
+        targets: audience.targets
       },
       ...(scheduledAt && { scheduled_at: scheduledAt }),
       metadata: {
         message_options: messageOptions || {},
-        targets: targets
+        ...audience.metadata,
+        ...(media && media.length > 0 && { media }),
+        ...(inlineKeyboard && inlineKeyboard.length > 0 && { inline_keyboard: inlineKeyboard }),
+        ...(abTest && { ab_test: abTest }),
+        ...(trackLinks === false && { track_links: false }),
+        ...(resendOf && { resend_of: resendOf })
       }
     });
 
@@ -73,7 +186,7 @@ export class BroadcastService {
   }
 
   /**
-   * Execute a broadcast campaign
+   * Execute a broadcast campaign by handing it to the delivery queue; workers send it in the background
    */
   static async executeBroadcast(broadcastId: string): Promise<BroadcastStats> {
     const broadcast = await NotificationModel.getBroadcastById(broadcastId);
@@ -85,78 +198,31 @@ export class BroadcastService {
       throw new Error('Broadcast cannot be executed in current status');
     }
 
-    // Update status to sending
-    await NotificationModel.updateBroadcastStatus(broadcastId, 'sending');
-
-    const targets = broadcast.metadata['targets'] as BroadcastTarget[];
-    const messageOptions = broadcast.metadata['message_options'] || {};
-    
-    let totalSuccessful = 0;
-    let totalFailed = 0;
-    const allResults: any[] = [];
-
-    try {
-      // Execute broadcast for each bot
-      for (const target of targets) {
-        const bot = await BotModel.findById(target.botId);
-        if (!bot) {
-          console.error(`Bot ${target.botId} not found, skipping`);
-          totalFailed += target.chatIds.length;
-          continue;
-        }
-
-        // Decrypt bot token
-        const botToken = this.decryptBotToken(bot.token_hash);
-        
-        // Send broadcast to all chat IDs for this bot
-        const result = await TelegramService.sendBroadcast(
-          botToken,
-          target.chatIds,
-          broadcast.message,
-          {
-            ...messageOptions,
-            delay_between_messages: 200 // 200ms delay to avoid rate limiting
-          }
-        );
+    if (await this.isOwnerSuspended(broadcast)) {
+      throw new Error('Broadcasts of a suspended account cannot be sent');
+    }
 
-        totalSuccessful += result.successful;
-        totalFailed += result.failed;
-        allResults.push(...result.results);
+    const progress = await BroadcastQueueService.enqueueBroadcast(broadcastId);
 
-        console.log(`Broadcast sent via bot ${bot.name}: ${result.successful}/${target.chatIds.length} successful`);
-      }
+    console.log(`Broadcast ${broadcastId} queued for ${progress.total} recipients`);
 
-      // Update broadcast status to completed
-      await NotificationModel.updateBroadcastStatus(broadcastId, 'sent', {
-        total_recipients: totalSuccessful + totalFailed,
-        successful_sends: totalSuccessful,
-        failed_sends: totalFailed
-      });
-
-      const stats: BroadcastStats = {
-        totalTargets: totalSuccessful + totalFailed,
-        successfulSends: totalSuccessful,
-        failedSends: totalFailed,
-        deliveryRate: totalSuccessful + totalFailed > 0 
-          ? (totalSuccessful / (totalSuccessful + totalFailed)) * 100 
-          : 0
-      };
+    return this.toStats(progress);
+  }
 
-      console.log(`Broadcast ${broadcastId} completed:`, stats);
-      return stats;
+  /**
+   * Pause a broadcast that is being sent
+   */
+  static async pauseBroadcast(broadcastId: string, userId: string): Promise<void> {
+    await this.getOwnedBroadcast(broadcastId, userId);
+    await BroadcastQueueService.pauseBroadcast(broadcastId);
+  }
 
-    } catch (error) {
-      console.error(`Broadcast ${broadcastId} failed:`, error);
-      
-      // Update status to failed
-      await NotificationModel.updateBroadcastStatus(broadcastId, 'failed', {
-        total_recipients: totalSuccessful + totalFailed,
-        successful_sends: totalSuccessful,
-        failed_sends: totalFailed
-      });
-
-      throw error;
-    }
+  /**
+   * Resume a paused broadcast where it left off
+   */
+  static async resumeBroadcast(broadcastId: string, userId: string): Promise<void> {
+    await this.getOwnedBroadcast(broadcastId, userId);
+    await BroadcastQueueService.resumeBroadcast(broadcastId);
   }
 
   /**
@@ -168,13 +234,25 @@ export class BroadcastService {
       return null;
     }
 
+    const clickSummary = await BroadcastClickModel.getSummary(broadcastId);
+
+    // Counters of a broadcast still in the queue live in Redis until it finishes
+    if (broadcast.status === 'sending' || broadcast.status === 'paused') {
+      const progress = await BroadcastQueueService.getProgress(broadcastId);
+      if (progress) {
+        const stats = this.toStats(progress);
+        return { ...stats, clicks: this.toClickStats(clickSummary, stats.successfulSends) };
+      }
+    }
+
     return {
       totalTargets: broadcast.total_recipients,
       successfulSends: broadcast.successful_sends,
       failedSends: broadcast.failed_sends,
       deliveryRate: broadcast.total_recipients > 0 
         ? (broadcast.successful_sends / broadcast.total_recipients) * 100 
-        : 0
+        : 0,
+      clicks: this.toClickStats(clickSummary, broadcast.successful_sends)
     };
   }
 
@@ -199,18 +277,14 @@ export class BroadcastService {
   }
 
   /**
-   * Cancel a scheduled broadcast
+   * Cancel a scheduled broadcast, or stop one that is being sent
    */
   static async cancelBroadcast(broadcastId: string, userId: string): Promise<void> {
-    const broadcast = await NotificationModel.getBroadcastById(broadcastId);
-    if (!broadcast) {
-      throw new Error('Broadcast not found');
-    }
+    const broadcast = await this.getOwnedBroadcast(broadcastId, userId);
 
-    // Check if user owns this broadcast
-    const targetAudience = broadcast.target_audience as any;
-    if (targetAudience.user_id !== userId) {
-      throw new Error('Access denied');
+    if (broadcast.status === 'sending' || broadcast.status === 'paused' || broadcast.status === 'testing') {
+      await BroadcastQueueService.cancelBroadcast(broadcastId);
+      return;
     }
 
     if (broadcast.status !== 'draft' && broadcast.status !== 'scheduled') {
@@ -220,6 +294,25 @@ export class BroadcastService {
     await NotificationModel.updateBroadcastStatus(broadcastId, 'cancelled');
   }
 
+  /**
+   * Pause every broadcast a user is sending, when their account is suspended; returns how many were paused
+   */
+  static async pauseUserBroadcasts(userId: string): Promise<number> {
+    const sending = await this.getUserBroadcasts(userId, { status: 'sending', limit: 1000 });
+    let paused = 0;
+
+    for (const broadcast of sending) {
+      try {
+        await BroadcastQueueService.pauseBroadcast(broadcast.id);
+        paused++;
+      } catch (error) {
+        console.error(`Failed to pause broadcast ${broadcast.id}:`, error);
+      }
+    }
+
+    return paused;
+  }
+
   /**
    * Process scheduled broadcasts
    */
@@ -240,6 +333,45 @@ export class BroadcastService {
     }
   }
 
+  /**
+   * Send the winning variant of every A/B test whose holdout has passed.
+   * The winner is the variant with the best click-through rate, then the best delivery rate.
+   */
+  static async processAbTests(): Promise<void> {
+    try {
+      const testing = await NotificationModel.listBroadcasts({ status: 'testing', limit: 100 });
+
+      for (const broadcast of testing) {
+        const abTest = broadcast.metadata['ab_test'] as BroadcastAbTest | undefined;
+        if (!abTest?.test_finished_at) {
+          continue;
+        }
+
+        const decideAt = new Date(abTest.test_finished_at).getTime() + abTest.holdout_minutes * 60 * 1000;
+        if (decideAt > Date.now()) {
+          continue;
+        }
+
+        try {
+          // The winner goes out once the owner's account is reinstated
+          if (await this.isOwnerSuspended(broadcast)) {
+            continue;
+          }
+
+          const variants = await this.getVariantStats(broadcast.id, abTest);
+          const winner = this.pickWinner(variants);
+
+          await BroadcastQueueService.sendWinner(broadcast.id, winner);
+          console.log(`A/B test of broadcast ${broadcast.id} won by variant ${winner}`);
+        } catch (error) {
+          console.error(`Failed to finish A/B test of broadcast ${broadcast.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to process A/B tests:', error);
+    }
+  }
+
   /**
    * Validate broadcast targets
    */
@@ -310,7 +442,14 @@ export class BroadcastService {
       totalSent: number;
       successful: number;
       failed: number;
+      blocked: number;
+    }>;
+    links: Array<{
+      url: string;
+      clicks: number;
+      uniqueClicks: number;
     }>;
+    abTest?: BroadcastAbTestReport;
   } | null> {
     const broadcast = await NotificationModel.getBroadcastById(broadcastId);
     if (!broadcast) {
@@ -328,37 +467,210 @@ export class BroadcastService {
       return null;
     }
 
-    // Generate bot breakdown
-    const targets = broadcast.metadata['targets'] as BroadcastTarget[];
+    // Generate bot breakdown from the per-recipient delivery log
+    const summaries = await BroadcastDeliveryModel.getBotSummary(broadcastId);
     const botBreakdown = [];
 
-    for (const target of targets) {
-      const bot = await BotModel.findById(target.botId);
+    for (const summary of summaries) {
+      const bot = await BotModel.findById(summary.bot_id);
       if (bot) {
         botBreakdown.push({
-          botId: target.botId,
+          botId: summary.bot_id,
           botName: bot.name,
-          totalSent: target.chatIds.length,
-          successful: 0, // This would need to be tracked per bot in a real implementation
-          failed: 0
+          totalSent: summary.total,
+          successful: summary.sent,
+          failed: summary.failed + summary.blocked,
+          blocked: summary.blocked
         });
       }
     }
 
+    const linkSummaries = await BroadcastClickModel.getLinkSummary(broadcastId);
+    const links = linkSummaries.map(link => ({
+      url: link.url,
+      clicks: link.clicks,
+      uniqueClicks: link.unique_clicks
+    }));
+
+    const abTest = broadcast.metadata['ab_test'] as BroadcastAbTest | undefined;
+    if (!abTest) {
+      return {
+        broadcast,
+        stats,
+        botBreakdown,
+        links
+      };
+    }
+
+    const [variants, deliveries] = await Promise.all([
+      this.getVariantStats(broadcastId, abTest),
+      BroadcastDeliveryModel.getVariantSummary(broadcastId)
+    ]);
+
     return {
       broadcast,
       stats,
-      botBreakdown
+      botBreakdown,
+      links,
+      abTest: {
+        holdoutMinutes: abTest.holdout_minutes,
+        heldBack: deliveries.find(summary => summary.variant === null)?.total ?? 0,
+        ...(abTest.test_finished_at && { testFinishedAt: abTest.test_finished_at }),
+        ...(abTest.winner && { winner: abTest.winner }),
+        variants
+      }
     };
   }
 
   /**
-   * Decrypt bot token (placeholder - implement proper encryption/decryption)
+   * Get the per-recipient delivery log of a broadcast
    */
-  private static decryptBotToken(encryptedToken: string): string {
-    // This is a placeholder. In a real implementation, you would decrypt the token
-    // For now, assuming the token is stored as-is (which is not secure)
-    return encryptedToken;
+  static async getBroadcastDeliveries(
+    broadcastId: string,
+    userId: string,
+    options: {
+      statuses?: BroadcastDeliveryStatus[];
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ deliveries: BroadcastDelivery[]; total: number }> {
+    await this.getOwnedBroadcast(broadcastId, userId);
+    return BroadcastDeliveryModel.findByBroadcastId(broadcastId, options);
+  }
+
+  /**
+   * Send a finished broadcast again, only to the recipients it failed to reach.
+   * Recipients that blocked the bot are left out.
+   */
+  static async resendToFailedRecipients(broadcastId: string, userId: string): Promise<{
+    broadcast: BroadcastNotification;
+    stats: BroadcastStats;
+  }> {
+    const original = await this.getOwnedBroadcast(broadcastId, userId);
+
+    if (original.status !== 'sent' && original.status !== 'cancelled') {
+      throw new Error('Only finished broadcasts can be resent');
+    }
+
+    const failed = await BroadcastDeliveryModel.getFailedRecipients(broadcastId);
+    if (failed.length === 0) {
+      throw new Error('Broadcast has no failed recipients to resend');
+    }
+
+    const chatIdsByBot = new Map<string, string[]>();
+    for (const recipient of failed) {
+      chatIdsByBot.set(recipient.bot_id, [...(chatIdsByBot.get(recipient.bot_id) || []), recipient.chat_id]);
+    }
+
+    // An A/B test is resent with its winner, or its first variant if it never got one
+    const abTest = original.metadata['ab_test'] as BroadcastAbTest | undefined;
+    const content = abTest
+      ? abTest.variants.find(variant => variant.id === abTest.winner) || abTest.variants[0]!
+      : original.metadata;
+
+    const broadcast = await this.createBroadcastCampaign({
+      userId,
+      title: `${original.title} (resend)`,
+      message: abTest ? abTest.variants[0]!.message : original.message,
+      ...(content['media'] && { media: content['media'] }),
+      ...(content['inline_keyboard'] && { inlineKeyboard: content['inline_keyboard'] }),
+      targets: Array.from(chatIdsByBot, ([botId, chatIds]) => ({ botId, chatIds })),
+      resendOf: broadcastId,
+      ...(original.metadata['track_links'] === false && { trackLinks: false }),
+      messageOptions: original.metadata['message_options'] || {}
+    });
+
+    const stats = await this.executeBroadcast(broadcast.id);
+
+    return { broadcast, stats };
+  }
+
+  private static async getOwnedBroadcast(broadcastId: string, userId: string): Promise<BroadcastNotification> {
+    const broadcast = await NotificationModel.getBroadcastById(broadcastId);
+    if (!broadcast) {
+      throw new Error('Broadcast not found');
+    }
+
+    // Check if user owns this broadcast
+    const targetAudience = broadcast.target_audience as any;
+    if (targetAudience.user_id !== userId) {
+      throw new Error('Access denied');
+    }
+
+    return broadcast;
+  }
+
+  private static async isOwnerSuspended(broadcast: BroadcastNotification): Promise<boolean> {
+    const targetAudience = broadcast.target_audience as any;
+    if (!targetAudience.user_id) {
+      return false;
+    }
+
+    const owner = await UserModel.findById(targetAudience.user_id);
+    return owner?.status === 'suspended';
+  }
+
+  private static async getVariantStats(broadcastId: string, abTest: BroadcastAbTest): Promise<BroadcastVariantStats[]> {
+    const [deliveries, clicks] = await Promise.all([
+      BroadcastDeliveryModel.getVariantSummary(broadcastId),
+      BroadcastClickModel.getVariantSummary(broadcastId)
+    ]);
+
+    return abTest.variants.map(variant => {
+      const delivery = deliveries.find(summary => summary.variant === variant.id);
+      const click = clicks.find(summary => summary.variant === variant.id);
+      const sent = delivery?.sent ?? 0;
+      const uniqueClicks = click?.unique_clicks ?? 0;
+
+      return {
+        variant: variant.id,
+        split: variant.split,
+        recipients: delivery?.total ?? 0,
+        sent,
+        failed: delivery?.failed ?? 0,
+        blocked: delivery?.blocked ?? 0,
+        pending: delivery?.pending ?? 0,
+        clicks: click?.clicks ?? 0,
+        uniqueClicks,
+        ctr: sent > 0 ? (uniqueClicks / sent) * 100 : 0
+      };
+    });
+  }
+
+  // Ties keep the earlier variant, so a test nobody reacted to sends variant A
+  private static pickWinner(variants: BroadcastVariantStats[]): string {
+    const deliveryRate = (stats: BroadcastVariantStats) => (stats.recipients > 0 ? stats.sent / stats.recipients : 0);
+
+    const best = variants.reduce((leader, candidate) => {
+      if (candidate.ctr !== leader.ctr) {
+        return candidate.ctr > leader.ctr ? candidate : leader;
+      }
+      return deliveryRate(candidate) > deliveryRate(leader) ? candidate : leader;
+    });
+
+    return best.variant;
+  }
+
+  private static toClickStats(summary: BroadcastClickSummary, successfulSends: number): BroadcastClickStats {
+    return {
+      totalClicks: summary.clicks,
+      uniqueClicks: summary.unique_clicks,
+      clickThroughRate: successfulSends > 0 ? (summary.unique_clicks / successfulSends) * 100 : 0,
+      averageTimeToClickSeconds: summary.average_seconds_to_click,
+      medianTimeToClickSeconds: summary.median_seconds_to_click
+    };
+  }
+
+  private static toStats(progress: BroadcastQueueProgress): BroadcastStats {
+    const processed = progress.successful + progress.failed;
+
+    return {
+      totalTargets: progress.total,
+      successfulSends: progress.successful,
+      failedSends: progress.failed,
+      deliveryRate: processed > 0 ? (progress.successful / processed) * 100 : 0,
+      pendingSends: progress.pending
+    };
   }
 
   /**
@@ -0,0 +1,86 @@
+import { BotModel } from '../models/Bot';
+import { BotSubscriberModel } from '../models/BotSubscriber';
+import {
+  BroadcastTemplateModel,
+  BroadcastTemplate,
+  CreateBroadcastTemplateInput,
+  UpdateBroadcastTemplateInput
+} from '../models/BroadcastTemplate';
+import { renderMessageTemplate, TemplateParseMode, TemplateRecipient } from '../utils/messageTemplate';
+
+// Stand-in recipient for previews that are not rendered for a real subscriber
+const SAMPLE_RECIPIENT: TemplateRecipient = {
+  chat_id: '123456789',
+  username: 'john_doe',
+  first_name: 'John',
+  last_name: 'Doe',
+  metadata: {}
+};
+
+export class BroadcastTemplateService {
+  /**
+   * Built-in templates plus the user's own
+   */
+  static async getTemplates(userId: string): Promise<BroadcastTemplate[]> {
+    return BroadcastTemplateModel.findAvailableForUser(userId);
+  }
+
+  static async createTemplate(
+    userId: string,
+    input: Omit<CreateBroadcastTemplateInput, 'user_id'>
+  ): Promise<BroadcastTemplate> {
+    return BroadcastTemplateModel.create({ ...input, user_id: userId });
+  }
+
+  static async updateTemplate(
+    templateId: string,
+    userId: string,
+    input: UpdateBroadcastTemplateInput
+  ): Promise<BroadcastTemplate> {
+    await this.getOwnedTemplate(templateId, userId);
+
+    const template = await BroadcastTemplateModel.update(templateId, input);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    return template;
+  }
+
+  static async deleteTemplate(templateId: string, userId: string): Promise<void> {
+    await this.getOwnedTemplate(templateId, userId);
+    await BroadcastTemplateModel.delete(templateId);
+  }
+
+  /**
+   * Render a message the way a recipient would receive it: for one of the user's subscribers, or for a sample one
+   */
+  static async previewMessage(
+    userId: string,
+    message: string,
+    parseMode?: TemplateParseMode,
+    recipient?: { botId: string; chatId: string }
+  ): Promise<string> {
+    if (!recipient) {
+      return renderMessageTemplate(message, SAMPLE_RECIPIENT, parseMode);
+    }
+
+    const bot = await BotModel.findById(recipient.botId);
+    if (!bot || bot.user_id !== userId) {
+      throw new Error(`Bot ${recipient.botId} not found or access denied`);
+    }
+
+    const subscriber = await BotSubscriberModel.findByBotAndChat(recipient.botId, recipient.chatId);
+    return renderMessageTemplate(message, subscriber, parseMode);
+  }
+
+  // Built-in templates have no owner and cannot be changed by users
+  private static async getOwnedTemplate(templateId: string, userId: string): Promise<BroadcastTemplate> {
+    const template = await BroadcastTemplateModel.findById(templateId);
+    if (!template || template.user_id !== userId) {
+      throw new Error('Template not found');
+    }
+
+    return template;
+  }
+}
@@ -0,0 +1,153 @@
+import { CouponModel, Coupon, CouponWithUsage, CreateCouponInput, UpdateCouponInput } from '../models/Coupon';
+import { ModuleModel } from '../models/Module';
+import { ModulePlanModel } from '../models/ModulePlan';
+import { Module } from '../types/database';
+import { CurrencyService } from './currencyService';
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  // In the currency of the module
+  discountAmount: number;
+}
+
+// DECIMAL columns come back from pg as strings
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
+
+export class CouponService {
+  /**
+   * Create a coupon. Developers create them for their own modules; only admins may create coupons that are
+   * valid for every module.
+   */
+  static async createCoupon(
+    userId: string,
+    userRole: string,
+    input: Omit<CreateCouponInput, 'created_by'>
+  ): Promise<Coupon> {
+    if (input.module_id) {
+      const module = await ModuleModel.findById(input.module_id);
+      if (!module) {
+        throw new Error('Module not found');
+      }
+      if (module.developer_id !== userId && userRole !== 'admin') {
+        throw new Error('Access denied');
+      }
+    } else if (userRole !== 'admin') {
+      throw new Error('Access denied');
+    }
+
+    const coupon = await CouponModel.create({ ...input, created_by: userId });
+    if (!coupon) {
+      throw new Error('Coupon code is already taken');
+    }
+    return coupon;
+  }
+
+  /**
+   * Admins see every coupon, developers the ones they created
+   */
+  static async listCoupons(userId: string, userRole: string): Promise<CouponWithUsage[]> {
+    return CouponModel.list(userRole === 'admin' ? undefined : userId);
+  }
+
+  static async updateCoupon(
+    couponId: string,
+    userId: string,
+    userRole: string,
+    input: UpdateCouponInput
+  ): Promise<Coupon> {
+    const coupon = await CouponModel.findById(couponId);
+    if (!coupon) {
+      throw new Error('Coupon not found');
+    }
+    if (coupon.created_by !== userId && userRole !== 'admin') {
+      throw new Error('Access denied');
+    }
+
+    return (await CouponModel.update(couponId, input))!;
+  }
+
+  /**
+   * Check a coupon code against a purchase of the module and work out its discount on the module price.
+   * Throws with the reason a coupon cannot be used.
+   */
+  static async applyCoupon(code: string, userId: string, module: Module, price: number): Promise<AppliedCoupon> {
+    const coupon = await CouponModel.findByCode(code);
+    if (!coupon || !coupon.is_active) {
+      throw new Error('Invalid coupon code');
+    }
+
+    if (coupon.expires_at && new Date(coupon.expires_at) <= new Date()) {
+      throw new Error('Coupon has expired');
+    }
+
+    if (coupon.module_id && coupon.module_id !== module.id) {
+      throw new Error('Coupon does not apply to this module');
+    }
+
+    const usage = await CouponModel.countRedemptions(coupon.id, userId);
+    if (coupon.max_redemptions && usage.total >= coupon.max_redemptions) {
+      throw new Error('Coupon usage limit reached');
+    }
+    if (usage.user >= coupon.max_redemptions_per_user) {
+      throw new Error('Coupon has already been used');
+    }
+
+    if (coupon.first_purchase_only && await CouponModel.hasCompletedPurchase(userId)) {
+      throw new Error('Coupon is only valid for a first purchase');
+    }
+
+    const discountAmount = coupon.discount_type === 'percentage'
+      ? toAmount(price * coupon.discount_value / 100)
+      : await CurrencyService.convertAtCurrentRates(coupon.discount_value, coupon.currency!, module.currency);
+
+    // Stripe cannot charge nothing, and a free module is not what a fixed coupon on a pricier one meant
+    if (discountAmount >= price) {
+      throw new Error('Coupon discount exceeds the module price');
+    }
+
+    return { coupon, discountAmount };
+  }
+
+  /**
+   * What a coupon takes off the price of a module or of the first period of one of its plans, for the checkout
+   * to show before paying
+   */
+  static async previewDiscount(code: string, userId: string, moduleId: string, planId?: string): Promise<{
+    code: string;
+    price: number;
+    discount_amount: number;
+    discounted_price: number;
+    currency: string;
+  }> {
+    const module = await ModuleModel.findById(moduleId);
+    if (!module || module.status !== 'approved') {
+      throw new Error('Module not found');
+    }
+
+    const plan = planId ? await ModulePlanModel.findById(planId) : null;
+    if (planId && (!plan || plan.module_id !== moduleId || !plan.is_active)) {
+      throw new Error('Subscription plan not found');
+    }
+
+    const price = plan ? Number(plan.price) : module.price;
+    const { coupon, discountAmount } = await this.applyCoupon(code, userId, module, price);
+
+    return {
+      code: coupon.code,
+      price,
+      discount_amount: discountAmount,
+      discounted_price: toAmount(price - discountAmount),
+      currency: module.currency
+    };
+  }
+
+  /**
+   * Count a coupon as used by a payment created with it
+   */
+  static async redeem(applied: AppliedCoupon, userId: string, transactionId: string, currency: string): Promise<void> {
+    const redemption = await CouponModel.redeem(applied.coupon, userId, transactionId, applied.discountAmount, currency);
+    if (!redemption) {
+      throw new Error('Coupon usage limit reached');
+    }
+  }
+}
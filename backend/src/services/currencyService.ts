@@ -0,0 +1,98 @@
+import axios from 'axios';
+import { FxRateModel } from '../models/FxRate';
+import { CurrencyCode, Transaction } from '../types/database';
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['USD', 'EUR', 'RUB'];
+
+// Rates are quoted against this currency; users.balance caches the wallet in it
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+// Units of each currency per US dollar
+export type FxRates = Record<string, number>;
+
+export const isSupportedCurrency = (currency: string): currency is CurrencyCode =>
+  SUPPORTED_CURRENCIES.includes(currency as CurrencyCode);
+
+// Platform-wide figures for admins are reported in this currency
+export const getReportingCurrency = (): CurrencyCode => {
+  const currency = (process.env['REPORTING_CURRENCY'] || BASE_CURRENCY).toUpperCase();
+  return isSupportedCurrency(currency) ? currency : BASE_CURRENCY;
+};
+
+export const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+export class CurrencyService {
+  static async getRates(): Promise<FxRates> {
+    return FxRateModel.getLatest();
+  }
+
+  /**
+   * Convert an amount between currencies with the given rates, such as those snapshotted on a transaction
+   */
+  static convert(amount: number, from: string, to: string, rates: FxRates): number {
+    if (from === to) {
+      return Math.round(amount * 100) / 100;
+    }
+
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    if (!fromRate || !toRate) {
+      throw new Error(`No exchange rate between ${from} and ${to}`);
+    }
+
+    return Math.round(amount / fromRate * toRate * 100) / 100;
+  }
+
+  /**
+   * Convert the amount of a transaction at the rates snapshotted when it was created, or at the given
+   * rates when it has none
+   */
+  static convertTransaction(
+    transaction: Pick<Transaction, 'amount' | 'currency' | 'fx_rates'>,
+    to: string,
+    fallbackRates: FxRates
+  ): number {
+    return this.convert(Number(transaction.amount), transaction.currency, to, transaction.fx_rates || fallbackRates);
+  }
+
+  /**
+   * Convert an amount at the current rates
+   */
+  static async convertAtCurrentRates(amount: number, from: string, to: string): Promise<number> {
+    if (from === to) {
+      return this.convert(amount, from, to, {});
+    }
+    return this.convert(amount, from, to, await this.getRates());
+  }
+
+  /**
+   * Fetch the current rates from FX_RATES_URL, which answers with { rates: { EUR: 0.92, ... } } quoted
+   * against the US dollar. Returns the rates recorded, or null when no provider is configured.
+   */
+  static async refreshRates(): Promise<FxRates | null> {
+    const url = process.env['FX_RATES_URL'];
+    if (!url) {
+      return null;
+    }
+
+    const response = await axios.get(url, { timeout: 10000 });
+    const quoted: Record<string, unknown> = response.data?.rates || {};
+
+    const rates: FxRates = { [BASE_CURRENCY]: 1 };
+    for (const currency of SUPPORTED_CURRENCIES) {
+      const rate = Number(quoted[currency]);
+      if (currency !== BASE_CURRENCY && Number.isFinite(rate) && rate > 0) {
+        rates[currency] = rate;
+      }
+    }
+
+    const missing = SUPPORTED_CURRENCIES.filter(currency => !rates[currency]);
+    if (missing.length > 0) {
+      throw new Error(`Rates provider did not quote ${missing.join(', ')}`);
+    }
+
+    await FxRateModel.record(rates, new URL(url).hostname);
+    return rates;
+  }
+}
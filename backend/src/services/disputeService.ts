@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg';
+import Stripe from 'stripe';
+import { withTransaction } from '../config/database';
+import { BotModuleActivationModel } from '../models/BotModuleActivation';
+import { PaymentDisputeModel, PaymentDispute, PaymentDisputeDetails, PaymentDisputeStatus } from '../models/PaymentDispute';
+import { TransactionModel } from '../models/Transaction';
+import { LedgerService } from './ledgerService';
+import { paymentService } from './paymentService';
+import { Transaction } from '../types/database';
+
+// DECIMAL columns come back from pg as strings
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
+
+const paymentIntentOf = (dispute: Stripe.Dispute): string | undefined =>
+  typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id;
+
+/**
+ * A chargeback freezes the module it paid for and holds every commission paid out of the payment in
+ * developer payables; a chargeback of a top-up holds the wallet credit and pauses the user's withdrawals. Admins collect evidence in the admin panel and submit it to Stripe; when Stripe
+ * closes the dispute the holds are paid back out (won) or go towards the chargeback (lost).
+ */
+export class DisputeService {
+  /**
+   * Record a dispute Stripe opened. Returns null when it was recorded already.
+   */
+  static async openDispute(dispute: Stripe.Dispute): Promise<PaymentDispute | null> {
+    const paymentIntentId = paymentIntentOf(dispute);
+    if (!paymentIntentId) {
+      return null;
+    }
+
+    const payment = await TransactionModel.findByStripePaymentIntentId(paymentIntentId);
+    if (!payment) {
+      throw new Error('Transaction not found for payment intent');
+    }
+
+    // Everything is booked in one database transaction. A redelivered event waits on the dispute row the
+    // first one inserted and then finds it recorded; when the first one failed, the retry does it all again.
+    const recorded = await withTransaction(async client => {
+      const created = await PaymentDisputeModel.create({
+        transaction_id: payment.id,
+        stripe_dispute_id: dispute.id,
+        stripe_charge_id: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id,
+        amount: toAmount(dispute.amount / 100),
+        currency: dispute.currency.toUpperCase(),
+        reason: dispute.reason,
+        stripe_status: dispute.status,
+        ...(dispute.evidence_details?.due_by && { evidence_due_by: new Date(dispute.evidence_details.due_by * 1000) })
+      }, client);
+      if (!created) {
+        return null;
+      }
+
+      await this.setActivationStatus(client, payment, 'suspended');
+
+      if (payment.type === 'top_up') {
+        await LedgerService.holdTopUp(payment, toAmount(dispute.amount / 100), created.id, client);
+      } else {
+        const commissions = await TransactionModel.findCommissionsByPayment(payment.id, client);
+        for (const commission of commissions) {
+          await LedgerService.holdCommission(commission, created.id, client);
+        }
+      }
+
+      await TransactionModel.update(payment.id, {
+        metadata: { ...payment.metadata, dispute_id: created.id }
+      }, client);
+
+      return created;
+    });
+
+    if (recorded) {
+      console.warn(`Dispute ${dispute.id} opened for transaction ${payment.id}: ${dispute.reason}`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Keep the Stripe status and evidence deadline of a dispute current
+   */
+  static async updateDispute(dispute: Stripe.Dispute): Promise<void> {
+    const recorded = await PaymentDisputeModel.findByStripeDisputeId(dispute.id);
+    if (!recorded) {
+      await this.openDispute(dispute);
+      return;
+    }
+
+    await PaymentDisputeModel.update(recorded.id, {
+      stripe_status: dispute.status,
+      ...(dispute.evidence_details?.due_by && { evidence_due_by: new Date(dispute.evidence_details.due_by * 1000) })
+    });
+  }
+
+  /**
+   * Settle a dispute Stripe closed. A lost dispute books the chargeback against the held commissions and
+   * deactivates the module; any other outcome pays the holds back out and unfreezes the module.
+   */
+  static async closeDispute(dispute: Stripe.Dispute): Promise<void> {
+    // The created event may never have arrived
+    if (!await PaymentDisputeModel.findByStripeDisputeId(dispute.id)) {
+      await this.openDispute(dispute);
+    }
+
+    // The dispute row stays locked until it is settled, so a redelivered event finds it closed
+    await withTransaction(async client => {
+      const recorded = await PaymentDisputeModel.findByStripeDisputeIdForUpdate(dispute.id, client);
+      if (!recorded || recorded.status !== 'open') {
+        return;
+      }
+
+      const payment = await TransactionModel.findById(recorded.transaction_id, client);
+      if (!payment) {
+        throw new Error('Transaction not found');
+      }
+
+      const holds = await TransactionModel.findDisputeHolds(recorded.id, client);
+      const status: PaymentDisputeStatus = dispute.status === 'lost' ? 'lost' : 'won';
+
+      if (status === 'lost') {
+        const heldAmount = holds.reduce((sum, hold) => sum + toAmount(hold.amount), 0);
+        await LedgerService.recordChargeback(
+          payment,
+          toAmount(dispute.amount / 100),
+          toAmount(heldAmount),
+          `Chargeback for transaction ${payment.id}`,
+          {
+            original_transaction_id: payment.id,
+            dispute_id: recorded.id,
+            stripe_dispute_id: dispute.id
+          },
+          client
+        );
+        await this.setActivationStatus(client, payment, 'inactive');
+      } else {
+        for (const hold of holds) {
+          if (payment.type === 'top_up') {
+            await LedgerService.releaseTopUpHold(hold, `Released after a dispute was resolved: transaction ${payment.id}`, client);
+            continue;
+          }
+          await LedgerService.recordCommission(
+            hold.user_id,
+            toAmount(hold.amount),
+            `Released after a dispute was resolved: transaction ${payment.id}`,
+            {
+              dispute_id: recorded.id,
+              released_hold_id: hold.id,
+              split_role: hold.metadata?.['split_role']
+            },
+            'developer_payables',
+            hold.currency,
+            client
+          );
+        }
+        await this.setActivationStatus(client, payment, 'active');
+      }
+
+      await PaymentDisputeModel.update(recorded.id, {
+        status,
+        stripe_status: dispute.status,
+        resolved_at: new Date()
+      }, client);
+    });
+  }
+
+  static async getDispute(disputeId: string): Promise<PaymentDisputeDetails> {
+    const dispute = await PaymentDisputeModel.findById(disputeId);
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    return dispute;
+  }
+
+  /**
+   * Save the evidence an admin collected for a dispute, and submit it to Stripe when asked to.
+   * Stripe accepts evidence only once.
+   */
+  static async saveEvidence(
+    disputeId: string,
+    adminId: string,
+    input: { evidence: Record<string, string>; notes?: string; submit?: boolean }
+  ): Promise<PaymentDispute> {
+    const dispute = await this.getDispute(disputeId);
+    if (dispute.status !== 'open') {
+      throw new Error('Dispute is already closed');
+    }
+    if (dispute.evidence_submitted_at) {
+      throw new Error('Evidence has already been submitted');
+    }
+
+    const evidence = { ...dispute.evidence, ...input.evidence };
+    if (input.submit) {
+      await paymentService.submitDisputeEvidence(dispute.stripe_dispute_id, evidence);
+    }
+
+    const updated = await PaymentDisputeModel.update(dispute.id, {
+      evidence,
+      assigned_to: adminId,
+      ...(input.notes !== undefined && { notes: input.notes }),
+      ...(input.submit && { evidence_submitted_at: new Date() })
+    });
+    return updated!;
+  }
+
+  private static async setActivationStatus(
+    client: PoolClient,
+    payment: Transaction,
+    status: 'active' | 'inactive' | 'suspended'
+  ): Promise<void> {
+    const { module_id, bot_id } = payment.metadata;
+    if (!module_id || !bot_id) {
+      return;
+    }
+
+    const activation = await BotModuleActivationModel.findByBotAndModule(bot_id, module_id, client);
+    if (!activation) {
+      return;
+    }
+
+    // Only a module the dispute froze is unfrozen; one deactivated meanwhile stays so
+    if (status === 'active' && activation.status !== 'suspended') {
+      return;
+    }
+
+    await BotModuleActivationModel.updateStatus(activation.id, status, client);
+  }
+}
@@ -346,7 +346,8 @@ export const sendPaymentReceivedEmail = async (
   amount: number,
   currency: string,
   description: string,
-  firstName?: string
+  firstName?: string,
+  invoice?: { filename: string; path: string } | null
 ): Promise<void> => {
   const name = firstName || 'User';
   const dashboardUrl = `${FRONTEND_URL}/dashboard/payments`;
@@ -388,6 +389,7 @@ export const sendPaymentReceivedEmail = async (
             </div>
             
             <p>Your payment has been processed and your account has been updated accordingly. You can now access the purchased features or modules.</p>
+            ${invoice ? `<p>Your invoice <strong>${invoice.filename}</strong> is attached to this email.</p>` : ''}
             
             <a href="${dashboardUrl}" class="button">View Payment History</a>
             
@@ -416,6 +418,7 @@ export const sendPaymentReceivedEmail = async (
       Description: ${description}
       
       Your payment has been processed and your account has been updated accordingly. You can now access the purchased features or modules.
+      ${invoice ? `Your invoice ${invoice.filename} is attached to this email.` : ''}
       
       View your payment history: ${dashboardUrl}
       
@@ -428,7 +431,10 @@ export const sendPaymentReceivedEmail = async (
       
       © 2024 TeleBotics Platform. All rights reserved.
       This email was sent to ${email}
-    `
+    `,
+    ...(invoice && {
+      attachments: [{ filename: invoice.filename, path: invoice.path, contentType: 'application/pdf' }]
+    })
   };
 
   await transporter.sendMail(mailOptions);
@@ -912,6 +918,181 @@ export const sendModuleActivatedEmail = async (
   await transporter.sendMail(mailOptions);
 };
 
+// Send module expired notification
+export const sendModuleExpiredEmail = async (
+  email: string,
+  moduleName: string,
+  botName: string,
+  firstName?: string
+): Promise<void> => {
+  const name = firstName || 'User';
+  const catalogUrl = `${FRONTEND_URL}/dashboard/modules`;
+
+  const mailOptions = {
+    from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
+    to: email,
+    subject: 'Module Expired - TeleBotics Platform',
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Module Expired</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #6b7280; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background: #8b5cf6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+          .module-info { background: #f3f4f6; border: 1px solid #d1d5db; padding: 20px; border-radius: 6px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>⏰ Module Expired</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${name}!</h2>
+            <p>A module on your bot has expired and has been deactivated.</p>
+            
+            <div class="module-info">
+              <p><strong>Module:</strong> ${moduleName}</p>
+              <p><strong>Bot:</strong> ${botName}</p>
+              <p><strong>Status:</strong> Inactive</p>
+            </div>
+            
+            <p>Your bot no longer uses this module. You can activate it again at any time from the module catalog.</p>
+            
+            <a href="${catalogUrl}" class="button">Open Module Catalog</a>
+            
+            <p>Best regards,<br>The TeleBotics Team</p>
+          </div>
+          <div class="footer">
+            <p>© 2024 TeleBotics Platform. All rights reserved.</p>
+            <p>This email was sent to ${email}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `
+      Module Expired - TeleBotics Platform
+      
+      Hello ${name}!
+      
+      A module on your bot has expired and has been deactivated.
+      
+      Module: ${moduleName}
+      Bot: ${botName}
+      Status: Inactive
+      
+      Your bot no longer uses this module. You can activate it again at any time from the module catalog.
+      
+      Open the module catalog: ${catalogUrl}
+      
+      Best regards,
+      The TeleBotics Team
+      
+      © 2024 TeleBotics Platform. All rights reserved.
+      This email was sent to ${email}
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+// Send subscription renewal failed notification
+export const sendSubscriptionRenewalFailedEmail = async (
+  email: string,
+  moduleName: string,
+  amount: number,
+  currency: string,
+  gracePeriodEndsAt: Date,
+  firstName?: string
+): Promise<void> => {
+  const name = firstName || 'User';
+  const financeUrl = `${FRONTEND_URL}/dashboard/finance`;
+  const deadline = gracePeriodEndsAt.toUTCString();
+
+  const mailOptions = {
+    from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
+    to: email,
+    subject: 'Subscription Renewal Failed - TeleBotics Platform',
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Subscription Renewal Failed</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f59e0b; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background: #f59e0b; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+          .module-info { background: #fffbeb; border: 1px solid #fde68a; padding: 20px; border-radius: 6px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>⚠️ Subscription Renewal Failed</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${name}!</h2>
+            <p>We could not renew your module subscription because your balance is too low.</p>
+            
+            <div class="module-info">
+              <p><strong>Module:</strong> ${moduleName}</p>
+              <p><strong>Amount:</strong> ${amount} ${currency}</p>
+              <p><strong>Module stays active until:</strong> ${deadline}</p>
+            </div>
+            
+            <p>We will retry the renewal every day. Top up your balance before the date above to keep the module running.</p>
+            
+            <a href="${financeUrl}" class="button">Top Up Balance</a>
+            
+            <p>Best regards,<br>The TeleBotics Team</p>
+          </div>
+          <div class="footer">
+            <p>© 2024 TeleBotics Platform. All rights reserved.</p>
+            <p>This email was sent to ${email}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `
+      Subscription Renewal Failed - TeleBotics Platform
+      
+      Hello ${name}!
+      
+      We could not renew your module subscription because your balance is too low.
+      
+      Module: ${moduleName}
+      Amount: ${amount} ${currency}
+      Module stays active until: ${deadline}
+      
+      We will retry the renewal every day. Top up your balance before the date above to keep the module running.
+      
+      Top up your balance: ${financeUrl}
+      
+      Best regards,
+      The TeleBotics Team
+      
+      © 2024 TeleBotics Platform. All rights reserved.
+      This email was sent to ${email}
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
 // Send referral commission notification
 export const sendReferralCommissionEmail = async (
   email: string,
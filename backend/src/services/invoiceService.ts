@@ -0,0 +1,327 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  InvoiceModel,
+  Invoice,
+  InvoiceDocumentType,
+  InvoiceLineItem,
+  InvoiceParty,
+  InvoiceTaxLine
+} from '../models/Invoice';
+import { UserModel } from '../models/User';
+import { Transaction, TransactionType } from '../types/database';
+import { PdfDocument } from '../utils/pdf';
+
+// Outside the public uploads directory: documents are only served to their owner through the API
+export const INVOICES_DIR = process.env['INVOICES_DIR'] || path.join(process.cwd(), 'storage', 'invoices');
+
+const DOCUMENT_TYPES: Partial<Record<TransactionType, InvoiceDocumentType>> = {
+  payment: 'invoice',
+  top_up: 'invoice',
+  refund: 'credit_note',
+  withdrawal: 'withdrawal_receipt'
+};
+
+const DOCUMENT_TITLES: Record<InvoiceDocumentType, string> = {
+  invoice: 'INVOICE',
+  credit_note: 'CREDIT NOTE',
+  withdrawal_receipt: 'WITHDRAWAL RECEIPT'
+};
+
+const WITHDRAWAL_METHODS: Record<string, string> = {
+  bank_transfer: 'bank transfer',
+  paypal: 'PayPal',
+  crypto: 'cryptocurrency'
+};
+
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
+
+const formatAmount = (amount: number, currency: string): string => `${amount.toFixed(2)} ${currency}`;
+
+/**
+ * The platform as it is printed on every document, from the INVOICE_SELLER_* settings
+ */
+export const getSellerDetails = (): InvoiceParty => ({
+  name: process.env['INVOICE_SELLER_NAME'] || 'TeleBotics Platform',
+  ...(process.env['INVOICE_SELLER_ADDRESS'] && { address: process.env['INVOICE_SELLER_ADDRESS'] }),
+  ...(process.env['INVOICE_SELLER_TAX_ID'] && { tax_id: process.env['INVOICE_SELLER_TAX_ID'] }),
+  ...(process.env['INVOICE_SELLER_EMAIL'] && { email: process.env['INVOICE_SELLER_EMAIL'] })
+});
+
+// Prices include tax at INVOICE_TAX_RATE percent; without a rate no tax line is printed
+const getTaxLines = (total: number): InvoiceTaxLine[] => {
+  const rate = Number(process.env['INVOICE_TAX_RATE']) || 0;
+  if (rate <= 0) {
+    return [];
+  }
+
+  const amount = toAmount(total * rate / (100 + rate));
+  return [{
+    name: `${process.env['INVOICE_TAX_NAME'] || 'VAT'} ${rate}%`,
+    rate,
+    taxable_amount: toAmount(total - amount),
+    amount
+  }];
+};
+
+const lineItem = (description: string, amount: number): InvoiceLineItem => ({
+  description,
+  quantity: 1,
+  unit_price: toAmount(amount),
+  amount: toAmount(amount)
+});
+
+/**
+ * Lay out a document on a single A4 page
+ */
+export const renderInvoicePdf = (invoice: Invoice): Promise<Buffer> => {
+  const pdf = new PdfDocument();
+  const left = 50;
+  const right = 545;
+  const issuedAt = new Date(invoice.issued_at).toISOString().split('T')[0]!;
+
+  pdf.text(left, 60, invoice.seller.name, { size: 16, font: 'bold' });
+  let y = 78;
+  for (const detail of [invoice.seller.address, invoice.seller.tax_id && `Tax ID: ${invoice.seller.tax_id}`, invoice.seller.email]) {
+    if (detail) {
+      pdf.text(left, y, detail, { size: 9 });
+      y += 13;
+    }
+  }
+
+  pdf.text(360, 60, DOCUMENT_TITLES[invoice.document_type], { size: 14, font: 'bold' });
+  pdf.text(360, 78, `No. ${invoice.number}`, { size: 10 });
+  pdf.text(360, 92, `Date: ${issuedAt}`, { size: 10 });
+
+  y = Math.max(y, 110) + 20;
+  pdf.text(left, y, invoice.document_type === 'withdrawal_receipt' ? 'Paid to' : 'Bill to', { size: 10, font: 'bold' });
+  for (const detail of [invoice.buyer.name, invoice.buyer.email]) {
+    if (detail) {
+      y += 14;
+      pdf.text(left, y, detail, { size: 10 });
+    }
+  }
+
+  y += 36;
+  pdf.text(left, y, 'Description', { size: 9, font: 'bold' });
+  pdf.text(390, y, 'Qty', { size: 9, font: 'bold', align: 'right' });
+  pdf.text(470, y, 'Unit price', { size: 9, font: 'bold', align: 'right' });
+  pdf.text(right, y, 'Amount', { size: 9, font: 'bold', align: 'right' });
+  pdf.line(left, y + 6, right, y + 6);
+
+  for (const item of invoice.line_items) {
+    y += 20;
+    const description = item.description.length > 55 ? `${item.description.slice(0, 52)}...` : item.description;
+    pdf.text(left, y, description, { size: 10 });
+    pdf.text(390, y, String(item.quantity), { size: 10, font: 'mono', align: 'right' });
+    pdf.text(470, y, item.unit_price.toFixed(2), { size: 10, font: 'mono', align: 'right' });
+    pdf.text(right, y, item.amount.toFixed(2), { size: 10, font: 'mono', align: 'right' });
+  }
+
+  y += 12;
+  pdf.line(left, y, right, y);
+
+  const totals: Array<[string, number]> = [
+    ['Subtotal', invoice.subtotal],
+    ...invoice.tax_lines.map(tax => [tax.name, tax.amount] as [string, number])
+  ];
+  for (const [label, amount] of totals) {
+    y += 18;
+    pdf.text(360, y, label, { size: 10 });
+    pdf.text(right, y, formatAmount(amount, invoice.currency), { size: 10, font: 'mono', align: 'right' });
+  }
+
+  y += 22;
+  pdf.text(360, y, invoice.document_type === 'withdrawal_receipt' ? 'Paid out' : 'Total', { size: 11, font: 'bold' });
+  pdf.text(right, y, formatAmount(invoice.total, invoice.currency), { size: 11, font: 'mono', align: 'right' });
+
+  pdf.text(left, 790, `Transaction ${invoice.transaction_id}`, { size: 8 });
+  if (invoice.tax_lines.length > 0) {
+    pdf.text(left, 802, 'Prices include tax.', { size: 8 });
+  }
+
+  return pdf.toBuffer();
+};
+
+export class InvoiceService {
+  /**
+   * Issue the document of a completed payment, top-up, refund or withdrawal, once. Other transactions
+   * get none and return null.
+   */
+  static async issueForTransaction(transaction: Transaction): Promise<Invoice | null> {
+    const documentType = DOCUMENT_TYPES[transaction.type];
+    if (!documentType || transaction.status !== 'completed') {
+      return null;
+    }
+
+    const existing = await InvoiceModel.findByTransactionId(transaction.id);
+    if (existing) {
+      return existing;
+    }
+
+    const user = await UserModel.findById(transaction.user_id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const document = await this.buildDocument(documentType, transaction);
+    const invoice = await InvoiceModel.create({
+      document_type: documentType,
+      transaction_id: transaction.id,
+      user_id: transaction.user_id,
+      currency: transaction.currency,
+      ...document,
+      seller: getSellerDetails(),
+      buyer: {
+        name: [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email,
+        email: user.email
+      }
+    });
+    if (!invoice) {
+      // Issued by a concurrent call
+      return InvoiceModel.findByTransactionId(transaction.id);
+    }
+
+    // The PDF is rendered again on download when it could not be stored now
+    try {
+      await this.writePdf(invoice);
+    } catch (error) {
+      console.error(`Failed to store the PDF of ${invoice.number}:`, error);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Issue the documents that were missed when their transactions completed
+   */
+  static async issueMissing(limit: number = 100): Promise<number> {
+    const transactions = await InvoiceModel.findTransactionsWithoutInvoice(limit);
+
+    let issued = 0;
+    for (const transaction of transactions) {
+      try {
+        if (await this.issueForTransaction(transaction)) {
+          issued++;
+        }
+      } catch (error) {
+        console.error(`Failed to issue the document of transaction ${transaction.id}:`, error);
+      }
+    }
+    return issued;
+  }
+
+  static async listForUser(userId: string, page: number = 1, limit: number = 20): Promise<{
+    invoices: Invoice[];
+    total: number;
+  }> {
+    return InvoiceModel.listByUser(userId, page, limit);
+  }
+
+  /**
+   * The stored PDF of a document, for its owner or an admin
+   */
+  static async getPdf(invoiceId: string, viewer: { id: string; role: string }): Promise<{
+    path: string;
+    fileName: string;
+  }> {
+    const invoice = await InvoiceModel.findById(invoiceId);
+    if (!invoice || (viewer.role !== 'admin' && invoice.user_id !== viewer.id)) {
+      throw new Error('Invoice not found');
+    }
+
+    return { path: await this.ensurePdf(invoice), fileName: `${invoice.number}.pdf` };
+  }
+
+  /**
+   * The stored PDF of a document to attach to an email, or null when there is none to attach
+   */
+  static async getAttachment(invoiceId: string): Promise<{ filename: string; path: string } | null> {
+    const invoice = await InvoiceModel.findById(invoiceId);
+    if (!invoice) {
+      return null;
+    }
+    return { filename: `${invoice.number}.pdf`, path: await this.ensurePdf(invoice) };
+  }
+
+  private static async ensurePdf(invoice: Invoice): Promise<string> {
+    if (invoice.file_name) {
+      const stored = path.join(INVOICES_DIR, invoice.file_name);
+      try {
+        await fs.access(stored);
+        return stored;
+      } catch {
+        // Rendered again below
+      }
+    }
+    return this.writePdf(invoice);
+  }
+
+  private static async writePdf(invoice: Invoice): Promise<string> {
+    const fileName = `${invoice.number}.pdf`;
+    const filePath = path.join(INVOICES_DIR, fileName);
+
+    await fs.mkdir(INVOICES_DIR, { recursive: true });
+    await fs.writeFile(filePath, await renderInvoicePdf(invoice));
+    if (invoice.file_name !== fileName) {
+      await InvoiceModel.setFileName(invoice.id, fileName);
+    }
+    return filePath;
+  }
+
+  private static async buildDocument(documentType: InvoiceDocumentType, transaction: Transaction): Promise<{
+    line_items: InvoiceLineItem[];
+    tax_lines: InvoiceTaxLine[];
+    subtotal: number;
+    tax_total: number;
+    total: number;
+  }> {
+    const total = toAmount(transaction.amount);
+    const metadata = transaction.metadata || {};
+
+    if (documentType === 'withdrawal_receipt') {
+      const commission = toAmount(metadata['commission_amount'] || 0);
+      const method = WITHDRAWAL_METHODS[metadata['withdrawal_method']] || metadata['withdrawal_method'];
+      const lineItems = [lineItem(method ? `Withdrawal via ${method}` : 'Withdrawal', total)];
+      if (commission > 0) {
+        lineItems.push(lineItem('Withdrawal commission', -commission));
+      }
+
+      const paidOut = toAmount(metadata['net_amount'] ?? total - commission);
+      return { line_items: lineItems, tax_lines: [], subtotal: paidOut, tax_total: 0, total: paidOut };
+    }
+
+    let lineItems: InvoiceLineItem[];
+    if (documentType === 'credit_note') {
+      const original = metadata['original_transaction_id']
+        ? await InvoiceModel.findByTransactionId(metadata['original_transaction_id'])
+        : null;
+      lineItems = [lineItem(original ? `Refund of ${original.number}` : transaction.description || 'Refund', total)];
+    } else if (transaction.type === 'top_up') {
+      lineItems = [lineItem(transaction.description || 'Wallet top-up', total)];
+    } else {
+      // Module price and the markup the bot owner added on top of it
+      const split = metadata['revenue_split'] || {};
+      const markup = toAmount(split.markup_amount ?? metadata['markup_amount'] ?? 0);
+      const discount = toAmount(metadata['discount_amount'] || 0);
+      lineItems = [lineItem(transaction.description || 'Payment', total - markup + discount)];
+      if (markup > 0) {
+        const percentage = metadata['markup_percentage'];
+        lineItems.push(lineItem(percentage ? `Bot owner markup (${percentage}%)` : 'Bot owner markup', markup));
+      }
+      if (discount > 0) {
+        lineItems.push(lineItem(`Coupon ${metadata['coupon_code']}`, -discount));
+      }
+    }
+
+    const taxLines = getTaxLines(total);
+    const taxTotal = toAmount(taxLines.reduce((sum, tax) => sum + tax.amount, 0));
+    return {
+      line_items: lineItems,
+      tax_lines: taxLines,
+      subtotal: toAmount(total - taxTotal),
+      tax_total: taxTotal,
+      total
+    };
+  }
+}
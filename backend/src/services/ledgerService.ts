@@ -0,0 +1,743 @@
+import { PoolClient } from 'pg';
+import { withTransaction } from '../config/database';
+import { LedgerModel, LedgerDirection, LedgerDiscrepancy, LedgerSystemAccount } from '../models/Ledger';
+import { PayoutModel } from '../models/Payout';
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import { Transaction } from '../types/database';
+import { BASE_CURRENCY } from './currencyService';
+
+interface LedgerLine {
+  // A system account, or the wallet of a user, in the currency of the transaction
+  account: LedgerSystemAccount | { userId: string };
+  direction: LedgerDirection;
+  amount: number;
+}
+
+export interface RefundResult {
+  payment: Transaction;
+  transaction: Transaction;
+  // Left to refund after this refund
+  remaining: number;
+}
+
+export interface CommissionInput {
+  user_id: string;
+  amount: number;
+  description: string;
+  metadata: Record<string, any>;
+}
+
+// DECIMAL columns come back from pg as strings
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
+
+/**
+ * Every movement of money is booked as a balanced ledger entry in the same database transaction as
+ * the transactions row it belongs to, in the currency of that row; a user has a wallet account per
+ * currency. users.balance is a cache of the user's USD wallet that is updated alongside the postings;
+ * the reconciliation job flags any user where the two disagree.
+ */
+export class LedgerService {
+  static async getUserBalance(userId: string, currency: string = BASE_CURRENCY): Promise<number> {
+    return LedgerModel.getUserBalance(userId, currency);
+  }
+
+  static async getUserBalances(userId: string): Promise<Record<string, number>> {
+    return LedgerModel.getUserBalances(userId);
+  }
+
+  /**
+   * Mark a card payment as completed and book it, together with the commissions it is split into.
+   * The wallet share of a mixed payment is taken from its hold.
+   * Returns null when the payment was already completed, so a redelivered webhook does not book it twice.
+   */
+  static async completePayment(
+    transactionId: string,
+    commissions: CommissionInput[] = [],
+    metadata: Record<string, any> = {}
+  ): Promise<Transaction | null> {
+    return this.settlePayment(transactionId, 'stripe_clearing', commissions, metadata);
+  }
+
+  /**
+   * Like completePayment, but pays from the payer's wallet; throws 'Insufficient balance' and leaves the
+   * payment pending when the wallet cannot cover it
+   */
+  static async completeWalletPayment(
+    transactionId: string,
+    commissions: CommissionInput[] = [],
+    metadata: Record<string, any> = {},
+    client?: PoolClient
+  ): Promise<Transaction | null> {
+    return this.settlePayment(transactionId, 'wallet', commissions, metadata, client);
+  }
+
+  /**
+   * Move the wallet share of a mixed payment into a hold until its card share succeeds or fails
+   */
+  static async holdWalletFunds(transactionId: string, amount: number): Promise<void> {
+    await withTransaction(async client => {
+      const transaction = await this.lockTransaction(client, transactionId, 'payment');
+      if (transaction.status !== 'pending') {
+        throw new Error('Payment has already been processed');
+      }
+
+      await this.lockWalletFor(client, transaction.user_id, toAmount(amount), transaction.currency);
+
+      await this.post(client, transaction, `Hold for ${transaction.description || 'payment'}`, [
+        { account: { userId: transaction.user_id }, direction: 'debit', amount: toAmount(amount) },
+        { account: 'wallet_holds', direction: 'credit', amount: toAmount(amount) }
+      ]);
+    });
+  }
+
+  /**
+   * Mark a pending card payment or top-up as failed or cancelled, returning any held wallet share to the
+   * wallet. Returns null when it was no longer pending.
+   */
+  static async failPayment(
+    transactionId: string,
+    status: 'failed' | 'cancelled' = 'failed'
+  ): Promise<Transaction | null> {
+    return withTransaction(async client => {
+      const transaction = await TransactionModel.findByIdForUpdate(transactionId, client);
+      if (!transaction || (transaction.type !== 'payment' && transaction.type !== 'top_up')) {
+        throw new Error('Transaction not found');
+      }
+      if (transaction.status !== 'pending') {
+        return null;
+      }
+
+      const failed = await TransactionModel.update(transaction.id, {
+        status,
+        processed_at: new Date()
+      }, client);
+
+      const walletShare = toAmount(transaction.metadata?.['wallet_amount'] || 0);
+      if (walletShare > 0) {
+        await this.post(client, transaction, `Released hold for ${transaction.description || 'payment'}`, [
+          { account: 'wallet_holds', direction: 'debit', amount: walletShare },
+          { account: { userId: transaction.user_id }, direction: 'credit', amount: walletShare }
+        ]);
+      }
+
+      return failed;
+    });
+  }
+
+  /**
+   * Credit a paid top-up to the user's wallet. Returns null when it was already credited.
+   */
+  static async completeTopUp(transactionId: string): Promise<Transaction | null> {
+    return withTransaction(async client => {
+      const transaction = await this.lockTransaction(client, transactionId, 'top_up');
+      if (transaction.status === 'completed') {
+        return null;
+      }
+
+      const amount = toAmount(transaction.amount);
+      const completed = await TransactionModel.update(transaction.id, {
+        status: 'completed',
+        processed_at: new Date()
+      }, client);
+
+      await this.post(client, transaction, transaction.description || 'Wallet top-up', [
+        { account: 'stripe_clearing', direction: 'debit', amount },
+        { account: { userId: transaction.user_id }, direction: 'credit', amount }
+      ]);
+
+      return completed;
+    });
+  }
+
+  /**
+   * Credit a commission to the user's wallet in the given currency, paid out of platform revenue or out of
+   * developer payables
+   */
+  static async recordCommission(
+    userId: string,
+    amount: number,
+    description: string,
+    metadata: Record<string, any> = {},
+    source: 'platform_revenue' | 'developer_payables' = 'platform_revenue',
+    currency: string = BASE_CURRENCY,
+    client?: PoolClient
+  ): Promise<Transaction> {
+    return this.inTransaction(client, client =>
+      this.bookCommission(client, { user_id: userId, amount, description, metadata }, source, currency)
+    );
+  }
+
+  /**
+   * Book money returned for a completed payment, card share first and the rest back to the payer's wallet.
+   * Without an amount whatever is left to refund is returned. The payment row stays locked until the refund
+   * is booked, so refunds running side by side cannot together return more than was paid. refundCard
+   * returns the card share to the card and the metadata to keep for it, given a key that stays the same
+   * until this refund is booked; without it the whole amount must fit in the card share, as for refunds
+   * already made in Stripe. Returns null when the Stripe refund in the metadata was booked already.
+   */
+  static async recordRefund(
+    paymentId: string,
+    amount: number | undefined,
+    description: string,
+    metadata: Record<string, any> = {},
+    refundCard?: (payment: Transaction, amount: number, idempotencyKey: string) => Promise<Record<string, any>>
+  ): Promise<RefundResult | null> {
+    return withTransaction(async client => {
+      const payment = await this.lockTransaction(client, paymentId, 'payment');
+      if (payment.status !== 'completed') {
+        throw new Error('Can only refund completed transactions');
+      }
+
+      const earlier = await TransactionModel.findRefundsByPayment(paymentId, client);
+      const stripeRefundId = metadata['stripe_refund_id'];
+      if (stripeRefundId && earlier.some(refund => refund.metadata?.['stripe_refund_id'] === stripeRefundId)) {
+        return null;
+      }
+
+      const walletPaid = toAmount(payment.metadata?.['wallet_amount'] || 0);
+      const walletRefunded = earlier.reduce((sum, refund) => sum + toAmount(refund.metadata?.['wallet_amount'] || 0), 0);
+      const refunded = earlier.reduce((sum, refund) => sum + toAmount(refund.amount), 0);
+
+      const remaining = toAmount(payment.amount - refunded);
+      const refundAmount = toAmount(amount ?? remaining);
+      if (refundAmount <= 0 || refundAmount > remaining) {
+        throw new Error('Refund exceeds the amount left to refund');
+      }
+
+      const cardRemaining = Math.max(0, toAmount(remaining - (walletPaid - walletRefunded)));
+      const cardRefund = refundCard ? Math.min(refundAmount, cardRemaining) : refundAmount;
+      const walletRefund = toAmount(refundAmount - cardRefund);
+      if (cardRefund > cardRemaining) {
+        throw new Error('Refund exceeds the amount left to refund');
+      }
+
+      // A retry after a failed commit makes the same request, which Stripe answers with the refund it made
+      const cardMetadata = refundCard && cardRefund > 0
+        ? await refundCard(payment, cardRefund, `refund:${paymentId}:${earlier.length + 1}`)
+        : {};
+
+      const transaction = await TransactionModel.create({
+        user_id: payment.user_id,
+        type: 'refund',
+        amount: refundAmount,
+        currency: payment.currency,
+        status: 'completed',
+        description,
+        metadata: {
+          ...metadata,
+          ...cardMetadata,
+          original_transaction_id: paymentId,
+          ...(walletRefund > 0 && { wallet_amount: walletRefund })
+        }
+      }, client);
+
+      await this.post(client, transaction, description, [
+        { account: 'platform_revenue', direction: 'debit', amount: refundAmount },
+        { account: 'stripe_clearing', direction: 'credit', amount: toAmount(cardRefund) },
+        { account: { userId: payment.user_id }, direction: 'credit', amount: walletRefund }
+      ]);
+
+      return { payment, transaction, remaining: toAmount(remaining - refundAmount) };
+    });
+  }
+
+  /**
+   * Book a top-up refunded in Stripe by taking the amount back out of the wallet it was credited to. The
+   * card has the money back already, so this may take the wallet below zero when the credit was spent.
+   * Returns null when the Stripe refund in the metadata was booked already.
+   */
+  static async recordTopUpRefund(
+    topUpId: string,
+    amount: number,
+    description: string,
+    metadata: Record<string, any> = {}
+  ): Promise<RefundResult | null> {
+    return withTransaction(async client => {
+      const topUp = await this.lockTransaction(client, topUpId, 'top_up');
+      if (topUp.status !== 'completed') {
+        throw new Error('Can only refund completed transactions');
+      }
+
+      const earlier = await TransactionModel.findRefundsByPayment(topUpId, client);
+      const stripeRefundId = metadata['stripe_refund_id'];
+      if (stripeRefundId && earlier.some(refund => refund.metadata?.['stripe_refund_id'] === stripeRefundId)) {
+        return null;
+      }
+
+      const refunded = earlier.reduce((sum, refund) => sum + toAmount(refund.amount), 0);
+      const remaining = toAmount(topUp.amount - refunded);
+      const refundAmount = toAmount(amount);
+      if (refundAmount <= 0 || refundAmount > remaining) {
+        throw new Error('Refund exceeds the amount left to refund');
+      }
+
+      await UserModel.findByIdForUpdate(topUp.user_id, client);
+
+      const transaction = await TransactionModel.create({
+        user_id: topUp.user_id,
+        type: 'refund',
+        amount: refundAmount,
+        currency: topUp.currency,
+        status: 'completed',
+        description,
+        metadata: { ...metadata, original_transaction_id: topUpId }
+      }, client);
+
+      await this.post(client, transaction, description, [
+        { account: { userId: topUp.user_id }, direction: 'debit', amount: refundAmount },
+        { account: 'stripe_clearing', direction: 'credit', amount: refundAmount }
+      ]);
+
+      return { payment: topUp, transaction, remaining: toAmount(remaining - refundAmount) };
+    });
+  }
+
+  /**
+   * Take a commission back out of the wallet into developer payables while the payment it came from is
+   * disputed. Unlike other debits this may take the wallet below zero, when the commission was already spent.
+   */
+  static async holdCommission(commission: Transaction, disputeId: string, client?: PoolClient): Promise<Transaction> {
+    const amount = toAmount(commission.amount);
+    const description = `Held while a payment is disputed: ${commission.description || 'commission'}`;
+
+    return this.inTransaction(client, async client => {
+      await UserModel.findByIdForUpdate(commission.user_id, client);
+
+      const transaction = await TransactionModel.create({
+        user_id: commission.user_id,
+        type: 'adjustment',
+        amount,
+        currency: commission.currency,
+        status: 'completed',
+        description,
+        metadata: {
+          direction: 'debit',
+          dispute_id: disputeId,
+          held_commission_id: commission.id,
+          split_role: commission.metadata?.['split_role']
+        }
+      }, client);
+
+      await this.post(client, transaction, description, [
+        { account: { userId: commission.user_id }, direction: 'debit', amount },
+        { account: 'developer_payables', direction: 'credit', amount }
+      ]);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Take the disputed amount of a top-up back out of the wallet into wallet holds while it is disputed, so
+   * it cannot be spent or withdrawn meanwhile. Like a commission hold this may take the wallet below zero.
+   */
+  static async holdTopUp(topUp: Transaction, amount: number, disputeId: string, client?: PoolClient): Promise<Transaction> {
+    const held = toAmount(Math.min(amount, toAmount(topUp.amount)));
+    const description = `Held while a payment is disputed: ${topUp.description || 'Wallet top-up'}`;
+
+    return this.inTransaction(client, async client => {
+      await UserModel.findByIdForUpdate(topUp.user_id, client);
+
+      const transaction = await TransactionModel.create({
+        user_id: topUp.user_id,
+        type: 'adjustment',
+        amount: held,
+        currency: topUp.currency,
+        status: 'completed',
+        description,
+        metadata: {
+          direction: 'debit',
+          dispute_id: disputeId,
+          held_top_up_id: topUp.id
+        }
+      }, client);
+
+      await this.post(client, transaction, description, [
+        { account: { userId: topUp.user_id }, direction: 'debit', amount: held },
+        { account: 'wallet_holds', direction: 'credit', amount: held }
+      ]);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Return a top-up hold to the wallet once the dispute was resolved in the user's favour
+   */
+  static async releaseTopUpHold(hold: Transaction, description: string, client?: PoolClient): Promise<Transaction> {
+    const amount = toAmount(hold.amount);
+
+    return this.inTransaction(client, async client => {
+      const transaction = await TransactionModel.create({
+        user_id: hold.user_id,
+        type: 'adjustment',
+        amount,
+        currency: hold.currency,
+        status: 'completed',
+        description,
+        metadata: {
+          direction: 'credit',
+          dispute_id: hold.metadata?.['dispute_id'],
+          released_hold_id: hold.id
+        }
+      }, client);
+
+      await this.post(client, transaction, description, [
+        { account: 'wallet_holds', direction: 'debit', amount },
+        { account: { userId: hold.user_id }, direction: 'credit', amount }
+      ]);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Book a lost dispute: the disputed amount goes back to the cardholder, paid out of what was held for it
+   * (the commissions of a payment, the wallet credit of a top-up) and platform revenue for the rest
+   */
+  static async recordChargeback(
+    payment: Transaction,
+    amount: number,
+    heldAmount: number,
+    description: string,
+    metadata: Record<string, any> = {},
+    client?: PoolClient
+  ): Promise<Transaction> {
+    const platformShare = toAmount(amount - heldAmount);
+
+    return this.inTransaction(client, async client => {
+      const transaction = await TransactionModel.create({
+        user_id: payment.user_id,
+        type: 'refund',
+        amount: toAmount(amount),
+        currency: payment.currency,
+        status: 'completed',
+        description,
+        metadata
+      }, client);
+
+      // Held commissions above the disputed amount stay with the platform
+      await this.post(client, transaction, description, [
+        {
+          account: payment.type === 'top_up' ? 'wallet_holds' : 'developer_payables',
+          direction: 'debit',
+          amount: toAmount(heldAmount)
+        },
+        { account: 'platform_revenue', direction: platformShare >= 0 ? 'debit' : 'credit', amount: Math.abs(platformShare) },
+        { account: 'stripe_clearing', direction: 'credit', amount: toAmount(amount) }
+      ]);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Create a pending withdrawal and move its amount out of the wallet in that currency until the payout
+   * is settled, so the same balance cannot be requested twice
+   */
+  static async requestWithdrawal(
+    userId: string,
+    amount: number,
+    description: string,
+    metadata: Record<string, any> = {},
+    currency: string = BASE_CURRENCY,
+    client?: PoolClient
+  ): Promise<Transaction> {
+    return this.inTransaction(client, async client => {
+      await this.lockWalletFor(client, userId, toAmount(amount), currency);
+
+      const transaction = await TransactionModel.create({
+        user_id: userId,
+        type: 'withdrawal',
+        amount: toAmount(amount),
+        currency,
+        description,
+        metadata
+      }, client);
+
+      await this.post(client, transaction, description, [
+        { account: { userId }, direction: 'debit', amount: toAmount(amount) },
+        { account: 'withdrawal_payouts', direction: 'credit', amount: toAmount(amount) }
+      ]);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Settle a paid-out withdrawal; its commission_amount stays with the platform as revenue
+   */
+  static async completeWithdrawal(transactionId: string, metadata: Record<string, any> = {}): Promise<Transaction> {
+    return withTransaction(async client => {
+      const transaction = await this.lockPendingWithdrawal(client, transactionId);
+      const amount = toAmount(transaction.amount);
+      const commission = Math.min(toAmount(transaction.metadata?.['commission_amount'] || 0), amount);
+
+      const completed = await TransactionModel.update(transaction.id, {
+        status: 'completed',
+        processed_at: new Date(),
+        metadata: { ...transaction.metadata, ...metadata }
+      }, client);
+
+      await this.post(client, transaction, transaction.description || 'Withdrawal payout', [
+        { account: 'withdrawal_payouts', direction: 'debit', amount },
+        { account: 'stripe_clearing', direction: 'credit', amount: toAmount(amount - commission) },
+        { account: 'platform_revenue', direction: 'credit', amount: commission }
+      ]);
+
+      return completed!;
+    });
+  }
+
+  /**
+   * Close a pending withdrawal without paying it out and return the amount to the wallet. A withdrawal
+   * handed to a payout provider is only released once its payout has failed.
+   */
+  static async releaseWithdrawal(
+    transactionId: string,
+    status: 'failed' | 'cancelled',
+    metadata: Record<string, any> = {}
+  ): Promise<Transaction> {
+    return withTransaction(async client => {
+      const transaction = await this.lockPendingWithdrawal(client, transactionId);
+      const payout = await PayoutModel.findByTransactionId(transactionId, client);
+      if (payout && payout.status !== 'failed') {
+        throw new Error('Withdrawal is already being paid out');
+      }
+      const amount = toAmount(transaction.amount);
+
+      const released = await TransactionModel.update(transaction.id, {
+        status,
+        processed_at: new Date(),
+        metadata: { ...transaction.metadata, ...metadata }
+      }, client);
+
+      await this.post(client, transaction, `Released ${transaction.description || 'withdrawal'}`, [
+        { account: 'withdrawal_payouts', direction: 'debit', amount },
+        { account: { userId: transaction.user_id }, direction: 'credit', amount }
+      ]);
+
+      return released!;
+    });
+  }
+
+  /**
+   * Manual credit (positive amount) or debit (negative amount) of a wallet against platform equity
+   */
+  static async adjustBalance(
+    userId: string,
+    amount: number,
+    description: string,
+    metadata: Record<string, any> = {},
+    currency: string = BASE_CURRENCY
+  ): Promise<Transaction> {
+    const absolute = toAmount(Math.abs(amount));
+    const direction: LedgerDirection = amount >= 0 ? 'credit' : 'debit';
+
+    return withTransaction(async client => {
+      if (direction === 'debit') {
+        await this.lockWalletFor(client, userId, absolute, currency);
+      }
+
+      const transaction = await TransactionModel.create({
+        user_id: userId,
+        type: 'adjustment',
+        amount: absolute,
+        currency,
+        status: 'completed',
+        description,
+        metadata: { ...metadata, direction }
+      }, client);
+
+      await this.post(client, transaction, description, [
+        { account: { userId }, direction, amount: absolute },
+        { account: 'platform_equity', direction: direction === 'credit' ? 'debit' : 'credit', amount: absolute }
+      ]);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Compare every cached users.balance with the ledger, flag the users that differ and close
+   * the flags of users that agree again
+   */
+  static async reconcile(): Promise<LedgerDiscrepancy[]> {
+    const mismatches = await LedgerModel.findBalanceMismatches();
+
+    const discrepancies: LedgerDiscrepancy[] = [];
+    for (const mismatch of mismatches) {
+      console.warn(
+        `Ledger mismatch for user ${mismatch.user_id}: cached ${mismatch.cached_balance}, ledger ${mismatch.ledger_balance}`
+      );
+      discrepancies.push(
+        await LedgerModel.recordDiscrepancy(mismatch.user_id, mismatch.cached_balance, mismatch.ledger_balance)
+      );
+    }
+
+    await LedgerModel.resolveDiscrepancies(mismatches.map(mismatch => mismatch.user_id));
+
+    return discrepancies;
+  }
+
+  private static async settlePayment(
+    transactionId: string,
+    source: 'stripe_clearing' | 'wallet',
+    commissions: CommissionInput[],
+    metadata: Record<string, any>,
+    client?: PoolClient
+  ): Promise<Transaction | null> {
+    return this.inTransaction(client, async client => {
+      const transaction = await this.lockTransaction(client, transactionId, 'payment');
+      if (transaction.status === 'completed') {
+        return null;
+      }
+
+      const amount = toAmount(transaction.amount);
+      if (source === 'wallet') {
+        await this.lockWalletFor(client, transaction.user_id, amount, transaction.currency);
+      }
+
+      // The wallet share of a mixed payment comes out of its hold, or out of the wallet again when a
+      // failure already released the hold
+      const walletShare = source === 'wallet' ? 0 : toAmount(transaction.metadata?.['wallet_amount'] || 0);
+      if (walletShare > 0 && transaction.status !== 'pending') {
+        await this.lockWalletFor(client, transaction.user_id, walletShare, transaction.currency);
+      }
+
+      const completed = await TransactionModel.update(transaction.id, {
+        status: 'completed',
+        processed_at: new Date(),
+        metadata: { ...transaction.metadata, ...metadata }
+      }, client);
+
+      await this.post(client, transaction, transaction.description || 'Payment', [
+        {
+          account: source === 'wallet' ? { userId: transaction.user_id } : 'stripe_clearing',
+          direction: 'debit',
+          amount: toAmount(amount - walletShare)
+        },
+        {
+          account: transaction.status === 'pending' ? 'wallet_holds' : { userId: transaction.user_id },
+          direction: 'debit',
+          amount: walletShare
+        },
+        { account: 'platform_revenue', direction: 'credit', amount }
+      ]);
+
+      for (const commission of commissions) {
+        await this.bookCommission(client, commission, 'platform_revenue', transaction.currency);
+      }
+
+      return completed;
+    });
+  }
+
+  private static async bookCommission(
+    client: PoolClient,
+    commission: CommissionInput,
+    source: 'platform_revenue' | 'developer_payables',
+    currency: string
+  ): Promise<Transaction> {
+    const amount = toAmount(commission.amount);
+    const transaction = await TransactionModel.create({
+      user_id: commission.user_id,
+      type: 'commission',
+      amount,
+      currency,
+      status: 'completed',
+      description: commission.description,
+      metadata: commission.metadata
+    }, client);
+
+    await this.post(client, transaction, commission.description, [
+      { account: source, direction: 'debit', amount },
+      { account: { userId: commission.user_id }, direction: 'credit', amount }
+    ]);
+
+    return transaction;
+  }
+
+  // Books within the database transaction of the caller when given its client, in one of its own otherwise
+  private static async inTransaction<T>(
+    client: PoolClient | undefined,
+    callback: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    return client ? callback(client) : withTransaction(callback);
+  }
+
+  private static async lockTransaction(
+    client: PoolClient,
+    transactionId: string,
+    type: Transaction['type']
+  ): Promise<Transaction> {
+    const transaction = await TransactionModel.findByIdForUpdate(transactionId, client);
+    if (!transaction || transaction.type !== type) {
+      throw new Error('Transaction not found');
+    }
+    return transaction;
+  }
+
+  private static async lockPendingWithdrawal(client: PoolClient, transactionId: string): Promise<Transaction> {
+    const transaction = await this.lockTransaction(client, transactionId, 'withdrawal');
+    if (transaction.status !== 'pending') {
+      throw new Error('Withdrawal has already been processed');
+    }
+    return transaction;
+  }
+
+  // Holds the user row until commit, so concurrent debits from any of its wallets see each other's postings
+  private static async lockWalletFor(client: PoolClient, userId: string, amount: number, currency: string): Promise<void> {
+    const user = await UserModel.findByIdForUpdate(userId, client);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const balance = await LedgerModel.getUserBalance(userId, currency, client);
+    if (balance < amount) {
+      throw new Error('Insufficient balance');
+    }
+  }
+
+  private static async post(
+    client: PoolClient,
+    transaction: Transaction,
+    description: string,
+    lines: LedgerLine[]
+  ): Promise<void> {
+    const { currency } = transaction;
+
+    const postings = [];
+    for (const line of lines.filter(line => line.amount > 0)) {
+      const account = typeof line.account === 'string'
+        ? await LedgerModel.findAccountByCode(
+          currency === BASE_CURRENCY ? line.account : `${line.account}:${currency}`,
+          client
+        )
+        : await LedgerModel.findOrCreateUserAccount(line.account.userId, currency, client);
+      if (!account) {
+        throw new Error(`Ledger account ${line.account} not found in ${currency}`);
+      }
+
+      postings.push({ account_id: account.id, direction: line.direction, amount: line.amount });
+    }
+
+    await LedgerModel.createEntry({ transaction_id: transaction.id, description, postings }, client);
+
+    // Only the USD wallet is cached on the user
+    if (currency !== BASE_CURRENCY) {
+      return;
+    }
+
+    for (const line of lines) {
+      if (typeof line.account !== 'string' && line.amount > 0) {
+        await UserModel.updateBalance(
+          line.account.userId,
+          line.direction === 'credit' ? line.amount : -line.amount,
+          client
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { BotModel } from '../models/Bot';
+import { BotModuleActivationModel } from '../models/BotModuleActivation';
+import { BotSubscriberModel } from '../models/BotSubscriber';
+import { Bot, BotModuleActivation } from '../types/database';
+import { moduleDispatchResponseSchema } from '../validation/schemas';
+import { TelegramService } from './telegramService';
+import { TelegramMessage, TelegramUpdate } from './telegramWebhookService';
+
+export interface ModuleAction {
+  type: 'sendMessage' | 'editMessage' | 'answerCallbackQuery';
+  chat_id?: string | number;
+  message_id?: number;
+  text?: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  disable_web_page_preview?: boolean;
+  disable_notification?: boolean;
+  reply_markup?: any;
+  callback_query_id?: string;
+  show_alert?: boolean;
+  url?: string;
+}
+
+export interface ModuleDispatchResult {
+  activationId: string;
+  moduleName: string;
+  success: boolean;
+  actionsExecuted: number;
+  error?: string;
+}
+
+export class ModuleDispatchService {
+  private static readonly DEFAULT_TIMEOUT_MS = 5000;
+
+  /**
+   * HMAC-SHA256 signature modules use to verify a request came from the platform.
+   * Signed content is `${timestamp}.${rawBody}`, keyed with the activation's api_key.
+   */
+  static signPayload(apiKey: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', apiKey).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Forward an update to every active module on the bot that declares a webhook
+   * and execute the actions they reply with
+   */
+  static async dispatchUpdate(bot: Bot, update: TelegramUpdate): Promise<ModuleDispatchResult[]> {
+    const activations = await BotModuleActivationModel.getWebhookActivations(bot.id);
+    if (activations.length === 0) {
+      return [];
+    }
+
+    const botToken = await BotModel.getDecryptedToken(bot.id);
+    if (!botToken) {
+      throw new Error(`Failed to retrieve token for bot ${bot.id}`);
+    }
+
+    const results = await Promise.allSettled(
+      activations.map(activation => {
+        const webhookUrl = this.getModuleWebhookUrl(activation.module_api_endpoints);
+        if (!webhookUrl) {
+          return Promise.reject(new Error('Module does not declare a webhook endpoint'));
+        }
+        return this.dispatchToActivation(bot, botToken, activation, webhookUrl, update);
+      })
+    );
+
+    return results.map((result, index) => {
+      const activation = activations[index]!;
+      if (result.status === 'fulfilled') {
+        return {
+          activationId: activation.id,
+          moduleName: activation.module_name,
+          success: true,
+          actionsExecuted: result.value,
+        };
+      }
+
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.error(`Module dispatch to activation ${activation.id} failed:`, reason);
+      return {
+        activationId: activation.id,
+        moduleName: activation.module_name,
+        success: false,
+        actionsExecuted: 0,
+        error: reason,
+      };
+    });
+  }
+
+  /**
+   * The first absolute http(s) URL in a module's api_endpoints is its update webhook
+   */
+  private static getModuleWebhookUrl(apiEndpoints: string[] | null): string | null {
+    return (apiEndpoints || []).find(endpoint => /^https?:\/\//i.test(endpoint)) || null;
+  }
+
+  private static async dispatchToActivation(
+    bot: Bot,
+    botToken: string,
+    activation: BotModuleActivation,
+    webhookUrl: string,
+    update: TelegramUpdate
+  ): Promise<number> {
+    if (!activation.api_key) {
+      throw new Error('Activation has no API key');
+    }
+
+    const body = JSON.stringify({
+      update,
+      bot: {
+        id: bot.id,
+        username: bot.username,
+      },
+      activation: {
+        id: activation.id,
+        settings: activation.settings,
+      },
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await axios.post(webhookUrl, body, {
+      timeout: Number(process.env['MODULE_DISPATCH_TIMEOUT_MS']) || this.DEFAULT_TIMEOUT_MS,
+      maxContentLength: 64 * 1024,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Platform-Activation-Id': activation.id,
+        'X-Platform-Timestamp': timestamp.toString(),
+        'X-Platform-Signature': `sha256=${this.signPayload(activation.api_key, timestamp, body)}`,
+      },
+    });
+
+    // Modules that only observe updates may reply with an empty body
+    if (!response.data || response.data === '') {
+      return 0;
+    }
+
+    const { error, value } = moduleDispatchResponseSchema.validate(response.data);
+    if (error) {
+      throw new Error(`Invalid module response: ${error.details[0]?.message || 'Invalid actions'}`);
+    }
+
+    const actions = value.actions as ModuleAction[];
+    let executed = 0;
+
+    for (const action of actions) {
+      if (await this.executeAction(bot.id, botToken, action, update)) {
+        executed++;
+      }
+    }
+
+    return executed;
+  }
+
+  // The chat the update came from, or another chat that is an active subscriber of the bot
+  private static async canWriteTo(botId: string, chatId: string | number, message?: TelegramMessage): Promise<boolean> {
+    if (message && String(chatId) === String(message.chat.id)) {
+      return true;
+    }
+
+    const subscriber = await BotSubscriberModel.findByBotAndChat(botId, String(chatId));
+    return !!subscriber?.is_active;
+  }
+
+  /**
+   * Execute a single module action through the Telegram Bot API.
+   * chat_id and callback_query_id default to the ones in the triggering update; any other chat must be
+   * an active subscriber of the bot, as for the module API.
+   */
+  private static async executeAction(
+    botId: string,
+    botToken: string,
+    action: ModuleAction,
+    update: TelegramUpdate
+  ): Promise<boolean> {
+    const message = update.message || update.edited_message || update.channel_post || update.callback_query?.message;
+    const chatId = action.chat_id ?? message?.chat.id;
+
+    switch (action.type) {
+      case 'sendMessage':
+        if (chatId === undefined || !action.text || !await this.canWriteTo(botId, chatId, message)) {
+          return false;
+        }
+        return TelegramService.sendMessage(botToken, chatId, action.text, {
+          ...(action.parse_mode && { parse_mode: action.parse_mode }),
+          ...(action.disable_web_page_preview !== undefined && { disable_web_page_preview: action.disable_web_page_preview }),
+          ...(action.disable_notification !== undefined && { disable_notification: action.disable_notification }),
+          ...(action.reply_markup && { reply_markup: action.reply_markup }),
+        });
+
+      case 'editMessage':
+        if (chatId === undefined || action.message_id === undefined || !action.text
+          || !await this.canWriteTo(botId, chatId, message)) {
+          return false;
+        }
+        return TelegramService.editMessageText(botToken, chatId, action.message_id, action.text, {
+          ...(action.parse_mode && { parse_mode: action.parse_mode }),
+          ...(action.disable_web_page_preview !== undefined && { disable_web_page_preview: action.disable_web_page_preview }),
+          ...(action.reply_markup && { reply_markup: action.reply_markup }),
+        });
+
+      case 'answerCallbackQuery': {
+        const callbackQueryId = action.callback_query_id || update.callback_query?.id;
+        if (!callbackQueryId) {
+          return false;
+        }
+        return TelegramService.answerCallbackQuery(botToken, callbackQueryId, {
+          ...(action.text && { text: action.text }),
+          ...(action.show_alert !== undefined && { show_alert: action.show_alert }),
+          ...(action.url && { url: action.url }),
+        });
+      }
+
+      default:
+        return false;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { NotificationModel, NotificationType, CreateBroadcastInput } from '../models/Notification';
 import { UserModel } from '../models/User';
 import * as emailService from './emailService';
+import { InvoiceService } from './invoiceService';
 
 export interface NotificationData {
   amount?: number;
@@ -98,7 +99,8 @@ export class NotificationService {
               data.amount,
               data.currency,
               data.description,
-              first_name
+              first_name,
+              data['invoice_id'] ? await InvoiceService.getAttachment(data['invoice_id']) : null
             );
           }
           break;
@@ -160,6 +162,30 @@ export class NotificationService {
           }
           break;
 
+        case 'module_expired':
+          if (data.moduleName && data.botName) {
+            await emailService.sendModuleExpiredEmail(
+              email,
+              data.moduleName,
+              data.botName,
+              first_name
+            );
+          }
+          break;
+
+        case 'subscription_renewal_failed':
+          if (data.moduleName && data.amount && data.currency && data['gracePeriodEndsAt']) {
+            await emailService.sendSubscriptionRenewalFailedEmail(
+              email,
+              data.moduleName,
+              data.amount,
+              data.currency,
+              new Date(data['gracePeriodEndsAt']),
+              first_name
+            );
+          }
+          break;
+
         case 'referral_commission':
           if (data.amount && data.currency && data.referralName) {
             await emailService.sendReferralCommissionEmail(
@@ -211,12 +237,14 @@ export class NotificationService {
 
       case 'module_activated':
       case 'module_expired':
+      case 'subscription_renewal_failed':
         return preferences.module_notifications;
 
       case 'referral_commission':
         return preferences.referral_notifications;
 
       case 'system_announcement':
+      case 'verification_reviewed':
         return preferences.system_notifications;
 
       case 'support_ticket_created':
@@ -241,20 +269,21 @@ export class NotificationService {
   }
 
   /**
-   * Send payment received notification
+   * Send payment received notification; the email carries the invoice of the payment when there is one
    */
   static async sendPaymentReceivedNotification(
     userId: string,
     amount: number,
     currency: string,
-    description: string
+    description: string,
+    invoiceId?: string
   ): Promise<void> {
     await this.sendNotification(
       userId,
       'payment_received',
       'Payment Received',
       `Your payment of ${amount} ${currency} has been successfully processed.`,
-      { amount, currency, description }
+      { amount, currency, description, ...(invoiceId && { invoice_id: invoiceId }) }
     );
   }
 
@@ -345,6 +374,64 @@ export class NotificationService {
     );
   }
 
+  /**
+   * Send module expired notification
+   */
+  static async sendModuleExpiredNotification(
+    userId: string,
+    moduleName: string,
+    botName: string
+  ): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'module_expired',
+      'Module Expired',
+      `The module "${moduleName}" has expired and was deactivated for your bot "${botName}".`,
+      { moduleName, botName }
+    );
+  }
+
+  /**
+   * Send a reminder that a subscription renewal failed and will be retried until the grace period ends
+   */
+  static async sendSubscriptionRenewalFailedNotification(
+    userId: string,
+    moduleName: string,
+    botName: string,
+    amount: number,
+    currency: string,
+    gracePeriodEndsAt: Date
+  ): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'subscription_renewal_failed',
+      'Subscription Renewal Failed',
+      `We could not renew "${moduleName}" for your bot "${botName}": ${amount} ${currency} is needed on your balance. ` +
+        `The module stays active until ${gracePeriodEndsAt.toISOString()}.`,
+      { moduleName, botName, amount, currency, gracePeriodEndsAt: gracePeriodEndsAt.toISOString() }
+    );
+  }
+
+  /**
+   * Tell a user whether the identity documents they submitted were accepted
+   */
+  static async sendVerificationReviewedNotification(
+    userId: string,
+    approved: boolean,
+    level: string,
+    notes?: string
+  ): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'verification_reviewed',
+      approved ? 'Verification Approved' : 'Verification Rejected',
+      approved
+        ? 'Your documents were approved and your withdrawal limits have been raised.'
+        : `Your documents could not be accepted: ${notes || 'no reason given'}. You can submit them again.`,
+      { approved, level, ...(notes && { notes }) }
+    );
+  }
+
   /**
    * Send referral commission notification
    */
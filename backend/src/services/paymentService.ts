@@ -3,8 +3,29 @@ import { TransactionModel } from '../models/Transaction';
 
 import { BotModuleActivationModel } from '../models/BotModuleActivation';
 import { ModuleModel } from '../models/Module';
-import { ReferralService } from './referralService';
-import { Transaction } from '../types/database';
+import { ModulePlanModel } from '../models/ModulePlan';
+import { LedgerService } from './ledgerService';
+import { RevenueSplitService } from './revenueSplitService';
+import { SubscriptionService } from './subscriptionService';
+import { InvoiceService } from './invoiceService';
+import { NotificationService } from './notificationService';
+import { CouponService } from './couponService';
+import { CouponModel } from '../models/Coupon';
+import { CurrencyCode, Transaction } from '../types/database';
+import { BASE_CURRENCY, getReportingCurrency } from './currencyService';
+
+export type ModulePaymentMethod = 'card' | 'wallet' | 'mixed';
+
+export interface ModulePaymentOptions {
+  planId?: string;
+  paymentMethod?: ModulePaymentMethod;
+  // Wallet share of a mixed payment; defaults to the whole balance
+  walletAmount?: number;
+  couponCode?: string;
+}
+
+// DECIMAL columns come back from pg as strings
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
 
 export class PaymentService {
   private stripe: Stripe;
@@ -21,17 +42,27 @@ export class PaymentService {
   }
 
   /**
-   * Create a payment intent for module activation
+   * Create a payment for module activation, in the currency the module is priced in. Card payments return
+   * a payment intent to confirm; wallet payments are settled from the wallet in that currency and the module
+   * activated right away; mixed payments hold the wallet share and return a payment intent for the rest.
+   * A coupon takes its discount off the module price; the bot owner's markup stays on the full price.
    */
   async createModulePayment(
     userId: string,
     moduleId: string,
     botId: string,
-    markupPercentage: number = 0
+    markupPercentage: number = 0,
+    options: ModulePaymentOptions = {}
   ): Promise<{
-    paymentIntent: Stripe.PaymentIntent;
+    paymentIntent: Stripe.PaymentIntent | null;
     transaction: Transaction;
   }> {
+    const { planId, paymentMethod = 'card' } = options;
+
+    if (!Number.isFinite(markupPercentage) || markupPercentage < 0 || markupPercentage > 100) {
+      throw new Error('Markup percentage must be between 0 and 100');
+    }
+
     // Get module details
     const module = await ModuleModel.findById(moduleId);
     if (!module) {
@@ -48,110 +79,286 @@ export class PaymentService {
       throw new Error('Module is already activated for this bot');
     }
 
-    // Calculate final amount (module price + markup)
-    const baseAmount = module.price;
-    const markupAmount = (baseAmount * markupPercentage) / 100;
-    const totalAmount = baseAmount + markupAmount;
+    // A plan replaces the one-off price with the price of its first period
+    const plan = planId ? await ModulePlanModel.findById(planId) : null;
+    if (planId && (!plan || plan.module_id !== moduleId || !plan.is_active)) {
+      throw new Error('Subscription plan not found');
+    }
+
+    const listPrice = plan ? Number(plan.price) : module.price;
+    const coupon = options.couponCode
+      ? await CouponService.applyCoupon(options.couponCode, userId, module, listPrice)
+      : null;
+
+    // Calculate final amount (discounted module price + markup); the split is worked out from base_amount
+    const baseAmount = toAmount(listPrice - (coupon?.discountAmount ?? 0));
+    const markupAmount = toAmount((listPrice * markupPercentage) / 100);
+    const totalAmount = toAmount(baseAmount + markupAmount);
+
+    const { currency } = module;
+
+    const walletAmount = paymentMethod === 'card'
+      ? 0
+      : await this.getWalletShare(userId, totalAmount, currency, paymentMethod, options.walletAmount);
 
     // Create transaction record
     const transaction = await TransactionModel.create({
       user_id: userId,
       type: 'payment',
       amount: totalAmount,
-      currency: 'USD',
+      currency,
       description: `Payment for module: ${module.name}`,
       metadata: {
         module_id: moduleId,
         bot_id: botId,
         markup_percentage: markupPercentage,
         base_amount: baseAmount,
-        markup_amount: markupAmount
+        markup_amount: markupAmount,
+        payment_method: paymentMethod,
+        ...(walletAmount > 0 && { wallet_amount: walletAmount }),
+        ...(plan && { plan_id: plan.id, billing_interval: plan.billing_interval }),
+        ...(coupon && {
+          coupon_id: coupon.coupon.id,
+          coupon_code: coupon.coupon.code,
+          list_price: listPrice,
+          discount_amount: coupon.discountAmount
+        })
       }
     });
 
+    // Checked again under a lock, as other checkouts may have used up the coupon since it was applied
+    if (coupon) {
+      try {
+        await CouponService.redeem(coupon, userId, transaction.id, currency);
+      } catch (error) {
+        await TransactionModel.updateStatus(transaction.id, 'failed', new Date());
+        throw error;
+      }
+    }
+
+    if (paymentMethod === 'wallet') {
+      const completed = await this.completeFromWallet(transaction);
+      return { paymentIntent: null, transaction: completed };
+    }
+
+    // The wallet share is held before the card is charged, so it cannot be spent twice in the meantime
+    if (walletAmount > 0) {
+      try {
+        await LedgerService.holdWalletFunds(transaction.id, walletAmount);
+      } catch (error) {
+        await TransactionModel.updateStatus(transaction.id, 'failed', new Date());
+        throw error;
+      }
+    }
+
     // Create Stripe payment intent
-    const paymentIntent = await this.stripe.paymentIntents.create({
-      amount: Math.round(totalAmount * 100), // Convert to cents
-      currency: 'usd',
-      metadata: {
-        transaction_id: transaction.id,
-        user_id: userId,
-        module_id: moduleId,
-        bot_id: botId
-      },
-      description: `Payment for module: ${module.name}`
-    });
+    let paymentIntent: Stripe.PaymentIntent;
+    try {
+      paymentIntent = await this.stripe.paymentIntents.create({
+        amount: Math.round((totalAmount - walletAmount) * 100), // Convert to cents
+        currency: currency.toLowerCase(),
+        metadata: {
+          transaction_id: transaction.id,
+          user_id: userId,
+          module_id: moduleId,
+          bot_id: botId
+        },
+        description: `Payment for module: ${module.name}`
+      });
+    } catch (error) {
+      await LedgerService.failPayment(transaction.id);
+      throw error;
+    }
 
     // Update transaction with Stripe payment intent ID
-    await TransactionModel.update(transaction.id, {
+    const updated = await TransactionModel.update(transaction.id, {
+      stripe_payment_intent_id: paymentIntent.id,
       metadata: {
         ...transaction.metadata,
         stripe_payment_intent_id: paymentIntent.id
       }
     });
 
-    return { paymentIntent, transaction };
+    return { paymentIntent, transaction: updated || transaction };
   }
 
   /**
-   * Process successful payment and activate module
+   * Create a payment intent that pre-funds the user's wallet in a currency
    */
-  async processSuccessfulPayment(paymentIntentId: string): Promise<void> {
-    // Find transaction by Stripe payment intent ID
-    const transactions = await TransactionModel.list({
-      limit: 1000
+  async createTopUp(userId: string, amount: number, currency: CurrencyCode = BASE_CURRENCY): Promise<{
+    paymentIntent: Stripe.PaymentIntent;
+    transaction: Transaction;
+  }> {
+    const transaction = await TransactionModel.create({
+      user_id: userId,
+      type: 'top_up',
+      amount: toAmount(amount),
+      currency,
+      description: 'Wallet top-up',
+      metadata: {}
     });
 
-    const transaction = transactions.transactions.find(t => 
-      t.metadata?.['stripe_payment_intent_id'] === paymentIntentId
-    );
+    let paymentIntent: Stripe.PaymentIntent;
+    try {
+      paymentIntent = await this.stripe.paymentIntents.create({
+        amount: Math.round(toAmount(amount) * 100), // Convert to cents
+        currency: currency.toLowerCase(),
+        metadata: {
+          transaction_id: transaction.id,
+          user_id: userId
+        },
+        description: 'Wallet top-up'
+      });
+    } catch (error) {
+      await TransactionModel.updateStatus(transaction.id, 'failed', new Date());
+      throw error;
+    }
 
-    if (!transaction) {
-      throw new Error('Transaction not found for payment intent');
+    const updated = await TransactionModel.update(transaction.id, {
+      stripe_payment_intent_id: paymentIntent.id,
+      metadata: {
+        ...transaction.metadata,
+        stripe_payment_intent_id: paymentIntent.id
+      }
+    });
+
+    return { paymentIntent, transaction: updated || transaction };
+  }
+
+  /**
+   * Process successful payment and activate module, or credit a top-up to the wallet
+   */
+  async processSuccessfulPayment(paymentIntentId: string): Promise<void> {
+    const transaction = await this.findByPaymentIntent(paymentIntentId);
+
+    if (transaction.type === 'top_up') {
+      const toppedUp = await LedgerService.completeTopUp(transaction.id);
+      if (toppedUp) {
+        await this.sendReceipt(toppedUp);
+      }
+      return;
     }
 
-    if (transaction.status === 'completed') {
-      return; // Already processed
+    // Completes the transaction and books it together with its split; null means an earlier delivery already did
+    const { legs, ...summary } = await RevenueSplitService.calculateSplit(transaction);
+    const completed = await LedgerService.completePayment(transaction.id, legs, { revenue_split: summary });
+    if (!completed) {
+      // Already processed; a delivery that booked the payment but failed to activate the module is retried
+      const payment = await TransactionModel.findById(transaction.id);
+      if (payment?.status !== 'completed' || payment.metadata?.['activation_id']) {
+        return;
+      }
+      await this.activateModule(payment);
+      await this.sendReceipt(payment);
+      return;
     }
 
-    // Update transaction status
-    await TransactionModel.updateStatus(transaction.id, 'completed', new Date());
+    await this.activateModule(completed);
+    await this.sendReceipt(completed);
+  }
 
-    // Activate module for bot
-    const { module_id, bot_id, markup_percentage } = transaction.metadata;
-    
-    await BotModuleActivationModel.create({
-      bot_id,
-      module_id,
-      markup_percentage: markup_percentage || 0,
-      settings: {}
-    });
+  /**
+   * Handle failed or canceled payment
+   */
+  async processFailedPayment(paymentIntentId: string, status: 'failed' | 'cancelled' = 'failed'): Promise<void> {
+    const transaction = await this.findByPaymentIntent(paymentIntentId);
 
-    // Process referral commission if user was referred
-    await ReferralService.processReferralCommission(
-      transaction.user_id,
-      transaction.amount,
-      transaction.id
-    );
+    // Also returns a held wallet share to the wallet
+    await LedgerService.failPayment(transaction.id, status);
   }
 
   /**
-   * Handle failed payment
+   * Cancel coupon checkouts left unpaid for too long, so they stop counting against their coupons' limits.
+   * The payment intent is cancelled first, so it can no longer be paid; one Stripe will not cancel because it
+   * has been paid or is being paid is left for its webhook to settle. Returns how many were cancelled.
    */
-  async processFailedPayment(paymentIntentId: string): Promise<void> {
-    const transactions = await TransactionModel.list({
-      limit: 1000
-    });
+  async cancelLapsedCouponCheckouts(): Promise<number> {
+    const lapsed = await CouponModel.findLapsedCheckouts();
+    let cancelled = 0;
+
+    for (const transaction of lapsed) {
+      try {
+        const paymentIntentId = transaction.stripe_payment_intent_id;
+        if (paymentIntentId) {
+          try {
+            await this.stripe.paymentIntents.cancel(paymentIntentId);
+          } catch (error) {
+            const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+            if (paymentIntent.status !== 'canceled') {
+              continue;
+            }
+          }
+        }
 
-    const transaction = transactions.transactions.find(t => 
-      t.metadata?.['stripe_payment_intent_id'] === paymentIntentId
-    );
+        if (await LedgerService.failPayment(transaction.id, 'cancelled')) {
+          cancelled++;
+        }
+      } catch (error) {
+        console.error(`Failed to cancel lapsed checkout ${transaction.id}:`, error);
+      }
+    }
 
-    if (!transaction) {
-      throw new Error('Transaction not found for payment intent');
+    return cancelled;
+  }
+
+  /**
+   * Book the refunds of a charge that are not in the ledger yet: refunds made directly in Stripe, and ones
+   * createRefund made but could not book. A refunded top-up is taken back out of the wallet.
+   */
+  async processChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+      return;
     }
 
-    await TransactionModel.updateStatus(transaction.id, 'failed', new Date());
+    const transaction = await this.findByPaymentIntent(paymentIntentId);
+    if (transaction.type !== 'payment' && transaction.type !== 'top_up') {
+      return;
+    }
+
+    const booked = await TransactionModel.findRefundsByPayment(transaction.id);
+    const bookedRefundIds = new Set(booked.map(refund => refund.metadata?.['stripe_refund_id']));
+
+    const refunds = await this.stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+    let refundedAmount = booked.reduce((sum, refund) => sum + toAmount(refund.amount), 0);
+
+    for (const refund of refunds.data) {
+      if (refund.status === 'failed' || refund.status === 'canceled') {
+        continue;
+      }
+      if (bookedRefundIds.has(refund.id)) {
+        continue;
+      }
+
+      // Checked again under the lock on the payment, as createRefund may be booking it right now
+      const amount = toAmount(refund.amount / 100);
+      const metadata = {
+        stripe_refund_id: refund.id,
+        refund_reason: refund.metadata?.['refund_reason'] || refund.reason || 'Refunded in Stripe'
+      };
+      const booking = transaction.type === 'top_up'
+        ? await LedgerService.recordTopUpRefund(transaction.id, amount, `Refund of wallet top-up ${transaction.id}`, metadata)
+        : await LedgerService.recordRefund(transaction.id, amount, `Refund for transaction ${transaction.id}`, metadata);
+      if (!booking) {
+        continue;
+      }
+      await this.issueCreditNote(booking.transaction);
+      refundedAmount += amount;
+    }
+
+    if (transaction.type === 'payment' && refundedAmount >= toAmount(transaction.amount)) {
+      await this.deactivateRefundedModule(transaction);
+    }
+  }
+
+  /**
+   * Submit the evidence collected for a dispute to Stripe
+   */
+  async submitDisputeEvidence(stripeDisputeId: string, evidence: Record<string, string>): Promise<void> {
+    await this.stripe.disputes.update(stripeDisputeId, {
+      evidence,
+      submit: true
+    });
   }
 
   /**
@@ -162,60 +369,144 @@ export class PaymentService {
     amount?: number,
     reason?: string
   ): Promise<{
-    refund: Stripe.Refund;
+    refund: Stripe.Refund | null;
     refundTransaction: Transaction;
   }> {
-    const transaction = await TransactionModel.findById(transactionId);
+    // The card share is refunded while the payment is locked, so nobody else can refund it in the meantime
+    let refund: Stripe.Refund | null = null;
+    const booking = await LedgerService.recordRefund(
+      transactionId,
+      amount ? toAmount(amount) : undefined,
+      `Refund for transaction ${transactionId}`,
+      { refund_reason: reason },
+      async (transaction, cardRefund, idempotencyKey) => {
+        const stripePaymentIntentId = transaction.stripe_payment_intent_id || transaction.metadata?.['stripe_payment_intent_id'];
+        if (!stripePaymentIntentId) {
+          throw new Error('Stripe payment intent ID not found');
+        }
+
+        // Create Stripe refund
+        refund = await this.stripe.refunds.create({
+          payment_intent: stripePaymentIntentId,
+          amount: Math.round(cardRefund * 100), // Convert to cents
+          reason: reason === 'duplicate' ? 'duplicate' : 'requested_by_customer',
+          metadata: {
+            original_transaction_id: transactionId,
+            refund_reason: reason || 'Customer request'
+          }
+        }, { idempotencyKey });
+        return { stripe_refund_id: refund.id };
+      }
+    );
+    // Only null for a Stripe refund id given in the metadata
+    const { payment, transaction: refundTransaction, remaining } = booking!;
+    await this.issueCreditNote(refundTransaction);
+
+    // Deactivate module once fully refunded
+    if (remaining <= 0) {
+      await this.deactivateRefundedModule(payment);
+    }
+
+    return { refund, refundTransaction };
+  }
+
+  private async findByPaymentIntent(paymentIntentId: string): Promise<Transaction> {
+    const transaction = await TransactionModel.findByStripePaymentIntentId(paymentIntentId);
     if (!transaction) {
-      throw new Error('Transaction not found');
+      throw new Error('Transaction not found for payment intent');
+    }
+    return transaction;
+  }
+
+  private async deactivateRefundedModule(payment: Transaction): Promise<void> {
+    const { module_id, bot_id } = payment.metadata;
+    if (module_id && bot_id) {
+      const activation = await BotModuleActivationModel.findByBotAndModule(bot_id, module_id);
+      if (activation) {
+        await BotModuleActivationModel.deactivate(activation.id);
+      }
     }
+  }
 
-    if (transaction.status !== 'completed') {
-      throw new Error('Can only refund completed transactions');
+  // How much of a wallet or mixed payment the wallet covers; a mixed payment takes the whole balance unless told less
+  private async getWalletShare(
+    userId: string,
+    totalAmount: number,
+    currency: string,
+    paymentMethod: 'wallet' | 'mixed',
+    requested?: number
+  ): Promise<number> {
+    if (paymentMethod === 'wallet') {
+      return totalAmount;
     }
 
-    const stripePaymentIntentId = transaction.metadata?.['stripe_payment_intent_id'];
-    if (!stripePaymentIntentId) {
-      throw new Error('Stripe payment intent ID not found');
+    const balance = await LedgerService.getUserBalance(userId, currency);
+    const walletAmount = toAmount(Math.min(requested ?? balance, balance));
+    if (walletAmount <= 0) {
+      throw new Error('Insufficient balance');
+    }
+    if (walletAmount >= totalAmount) {
+      throw new Error('Wallet covers the whole amount, pay with the wallet instead');
     }
+    return walletAmount;
+  }
 
-    const refundAmount = amount || transaction.amount;
-    
-    // Create Stripe refund
-    const refund = await this.stripe.refunds.create({
-      payment_intent: stripePaymentIntentId,
-      amount: Math.round(refundAmount * 100), // Convert to cents
-      reason: reason === 'duplicate' ? 'duplicate' : 'requested_by_customer',
-      metadata: {
-        original_transaction_id: transactionId,
-        refund_reason: reason || 'Customer request'
-      }
-    });
+  private async completeFromWallet(transaction: Transaction): Promise<Transaction> {
+    let completed: Transaction | null;
+    try {
+      const { legs, ...summary } = await RevenueSplitService.calculateSplit(transaction);
+      completed = await LedgerService.completeWalletPayment(transaction.id, legs, { revenue_split: summary });
+    } catch (error) {
+      await TransactionModel.updateStatus(transaction.id, 'failed', new Date());
+      throw error;
+    }
 
-    // Create refund transaction
-    const refundTransaction = await TransactionModel.createRefund(
-      transaction.user_id,
-      refundAmount,
-      `Refund for transaction ${transactionId}`,
-      {
-        original_transaction_id: transactionId,
-        stripe_refund_id: refund.id,
-        refund_reason: reason
-      }
-    );
+    await this.activateModule(completed!);
+    await this.sendReceipt(completed!);
+    return completed!;
+  }
 
-    // Deactivate module if full refund
-    if (refundAmount >= transaction.amount) {
-      const { module_id, bot_id } = transaction.metadata;
-      if (module_id && bot_id) {
-        const activation = await BotModuleActivationModel.findByBotAndModule(bot_id, module_id);
-        if (activation) {
-          await BotModuleActivationModel.deactivate(activation.id);
-        }
-      }
+  // Issue the invoice of a completed payment and email it to the payer; neither may fail the payment
+  private async sendReceipt(payment: Transaction): Promise<void> {
+    try {
+      const invoice = await InvoiceService.issueForTransaction(payment);
+      await NotificationService.sendPaymentReceivedNotification(
+        payment.user_id,
+        toAmount(payment.amount),
+        payment.currency,
+        payment.description || 'Payment',
+        invoice?.id
+      );
+    } catch (error) {
+      console.error(`Failed to send the receipt of payment ${payment.id}:`, error);
     }
+  }
 
-    return { refund, refundTransaction };
+  // The scheduler issues credit notes that fail here
+  private async issueCreditNote(refund: Transaction): Promise<void> {
+    try {
+      await InvoiceService.issueForTransaction(refund);
+    } catch (error) {
+      console.error(`Failed to issue the credit note of refund ${refund.id}:`, error);
+    }
+  }
+
+  // Records the activation on the payment, so a replayed delivery knows the module was activated for it
+  private async activateModule(payment: Transaction): Promise<void> {
+    const { module_id, bot_id, markup_percentage, plan_id } = payment.metadata;
+
+    const activationId = plan_id
+      ? (await SubscriptionService.startSubscription(payment)).activation_id
+      : (await BotModuleActivationModel.upsert({
+        bot_id,
+        module_id,
+        markup_percentage: markup_percentage || 0,
+        settings: {}
+      })).id;
+
+    await TransactionModel.update(payment.id, {
+      metadata: { ...payment.metadata, activation_id: activationId }
+    });
   }
 
   /**
@@ -235,7 +526,7 @@ export class PaymentService {
   }
 
   /**
-   * Get payment statistics
+   * Get payment statistics, with amounts in the reporting currency
    */
   async getPaymentStats(filters: {
     start_date?: Date;
@@ -247,16 +538,19 @@ export class PaymentService {
     failed_payments: number;
     refunds: number;
     average_transaction_value: number;
+    currency: string;
   }> {
+    const currency = getReportingCurrency();
+
     const stats = await TransactionModel.getRevenueStats({
       type: 'payment',
       ...filters
-    });
+    }, currency);
 
     const refundStats = await TransactionModel.getRevenueStats({
       type: 'refund',
       ...filters
-    });
+    }, currency);
 
     return {
       total_revenue: stats.total_revenue,
@@ -266,7 +560,8 @@ export class PaymentService {
       refunds: refundStats.completed_transactions,
       average_transaction_value: stats.completed_transactions > 0 
         ? stats.total_revenue / stats.completed_transactions 
-        : 0
+        : 0,
+      currency
     };
   }
 }
@@ -0,0 +1,302 @@
+import axios from 'axios';
+import Stripe from 'stripe';
+import { PayoutProviderName, PayoutStatus } from '../models/Payout';
+import type { WithdrawalRequest } from './withdrawalService';
+
+export interface PayoutRequest {
+  payoutId: string;
+  transactionId: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  method: WithdrawalRequest['method'];
+  details: WithdrawalRequest['details'];
+}
+
+/**
+ * What the provider made of a payout. A processing payout is settled later by the provider's callback
+ * (or, for manual payouts, by an admin).
+ */
+export interface PayoutResult {
+  status: PayoutStatus;
+  referenceId?: string;
+  failureReason?: string;
+  response?: Record<string, any>;
+}
+
+export interface PayoutProvider {
+  readonly name: PayoutProviderName;
+  supports(method: WithdrawalRequest['method'], details: WithdrawalRequest['details']): boolean;
+  /**
+   * Send the money. A payout the provider refuses resolves as failed; an error thrown here means the
+   * outcome is unknown, and the payout may be sent again under the same payout id.
+   */
+  send(request: PayoutRequest): Promise<PayoutResult>;
+}
+
+// A 4xx answer is the provider refusing the payout; anything else may or may not have gone through
+const isRejection = (status?: number): boolean => !!status && status >= 400 && status < 500;
+
+/**
+ * Transfers to the Stripe Connect account given with a bank transfer request; Stripe pays it out to
+ * the bank account attached to that connected account
+ */
+export class StripeConnectPayoutProvider implements PayoutProvider {
+  readonly name = 'stripe_connect' as const;
+  private stripe: Stripe | null = null;
+
+  supports(method: WithdrawalRequest['method'], details: WithdrawalRequest['details']): boolean {
+    return method === 'bank_transfer' && !!details.bankAccount?.stripeAccountId && !!process.env['STRIPE_SECRET_KEY'];
+  }
+
+  async send(request: PayoutRequest): Promise<PayoutResult> {
+    const destination = request.details.bankAccount?.stripeAccountId;
+    if (!destination) {
+      return { status: 'failed', failureReason: 'No Stripe Connect account given for the bank transfer' };
+    }
+
+    try {
+      const transfer = await this.getClient().transfers.create({
+        amount: Math.round(request.amount * 100),
+        currency: request.currency.toLowerCase(),
+        destination,
+        transfer_group: request.transactionId,
+        metadata: {
+          payout_id: request.payoutId,
+          transaction_id: request.transactionId,
+          user_id: request.userId
+        }
+      }, {
+        idempotencyKey: `payout_${request.payoutId}`
+      });
+
+      // Funds reach the connected account as soon as the transfer is created
+      return { status: 'paid', referenceId: transfer.id, response: { transfer_id: transfer.id } };
+    } catch (error: any) {
+      if (isRejection(error.statusCode)) {
+        return { status: 'failed', failureReason: error.message || 'Stripe rejected the transfer' };
+      }
+      throw error;
+    }
+  }
+
+  private getClient(): Stripe {
+    if (!this.stripe) {
+      const stripeSecretKey = process.env['STRIPE_SECRET_KEY'];
+      if (!stripeSecretKey) {
+        throw new Error('STRIPE_SECRET_KEY environment variable is required');
+      }
+      this.stripe = new Stripe(stripeSecretKey, {
+        apiVersion: '2025-07-30.basil',
+      });
+    }
+    return this.stripe;
+  }
+}
+
+/**
+ * PayPal Payouts to the email of a PayPal withdrawal. PayPal accepts the batch right away and reports
+ * the outcome of its item through PAYMENT.PAYOUTS-ITEM.* webhooks.
+ */
+export class PayPalPayoutProvider implements PayoutProvider {
+  readonly name = 'paypal' as const;
+
+  supports(method: WithdrawalRequest['method']): boolean {
+    return method === 'paypal' && !!process.env['PAYPAL_CLIENT_ID'];
+  }
+
+  async send(request: PayoutRequest): Promise<PayoutResult> {
+    const email = request.details.paypal?.email;
+    if (!email) {
+      return { status: 'failed', failureReason: 'No PayPal email given for the withdrawal' };
+    }
+
+    try {
+      const response = await axios.post(`${this.getApiUrl()}/v1/payments/payouts`, {
+        sender_batch_header: {
+          // PayPal refuses a second batch with the same id, so a resent payout cannot be paid twice
+          sender_batch_id: request.payoutId,
+          email_subject: 'You have a payout from TeleBotics'
+        },
+        items: [{
+          recipient_type: 'EMAIL',
+          receiver: email,
+          amount: {
+            value: request.amount.toFixed(2),
+            currency: request.currency
+          },
+          sender_item_id: request.payoutId
+        }]
+      }, {
+        headers: { Authorization: `Bearer ${await this.getAccessToken()}` }
+      });
+
+      const header = response.data.batch_header;
+      return {
+        status: 'processing',
+        referenceId: header.payout_batch_id,
+        response: { batch_status: header.batch_status }
+      };
+    } catch (error: any) {
+      if (isRejection(error.response?.status)) {
+        return {
+          status: 'failed',
+          failureReason: error.response.data?.message || 'PayPal rejected the payout',
+          response: error.response.data || {}
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask PayPal whether a webhook delivery was signed by it for our webhook
+   */
+  async verifyWebhook(headers: Record<string, string | undefined>, event: Record<string, any>): Promise<boolean> {
+    const webhookId = process.env['PAYPAL_WEBHOOK_ID'];
+    if (!webhookId) {
+      throw new Error('PAYPAL_WEBHOOK_ID environment variable is required');
+    }
+
+    const response = await axios.post(`${this.getApiUrl()}/v1/notifications/verify-webhook-signature`, {
+      auth_algo: headers['paypal-auth-algo'],
+      cert_url: headers['paypal-cert-url'],
+      transmission_id: headers['paypal-transmission-id'],
+      transmission_sig: headers['paypal-transmission-sig'],
+      transmission_time: headers['paypal-transmission-time'],
+      webhook_id: webhookId,
+      webhook_event: event
+    }, {
+      headers: { Authorization: `Bearer ${await this.getAccessToken()}` }
+    });
+
+    return response.data.verification_status === 'SUCCESS';
+  }
+
+  /**
+   * The payout a webhook event reports on and its final status; null for events that do not settle a payout
+   */
+  parseWebhookEvent(event: Record<string, any>): {
+    referenceId: string;
+    status: 'paid' | 'failed';
+    failureReason?: string;
+  } | null {
+    const resource = event['resource'] || {};
+    const referenceId = resource.payout_batch_id;
+    if (!referenceId) {
+      return null;
+    }
+
+    switch (event['event_type']) {
+      case 'PAYMENT.PAYOUTS-ITEM.SUCCEEDED':
+        return { referenceId, status: 'paid' };
+
+      case 'PAYMENT.PAYOUTS-ITEM.FAILED':
+      case 'PAYMENT.PAYOUTS-ITEM.BLOCKED':
+      case 'PAYMENT.PAYOUTS-ITEM.DENIED':
+      case 'PAYMENT.PAYOUTS-ITEM.CANCELED':
+      case 'PAYMENT.PAYOUTS-ITEM.RETURNED':
+      case 'PAYMENT.PAYOUTS-ITEM.REFUNDED':
+        return {
+          referenceId,
+          status: 'failed',
+          failureReason: resource.errors?.message || `PayPal payout ${String(resource.transaction_status || 'failed').toLowerCase()}`
+        };
+
+      // UNCLAIMED stays processing: PayPal returns an unclaimed payout after 30 days, which arrives as RETURNED
+      default:
+        return null;
+    }
+  }
+
+  private getApiUrl(): string {
+    return process.env['PAYPAL_API_URL'] || 'https://api-m.sandbox.paypal.com';
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const clientId = process.env['PAYPAL_CLIENT_ID'];
+    const clientSecret = process.env['PAYPAL_CLIENT_SECRET'];
+    if (!clientId || !clientSecret) {
+      throw new Error('PAYPAL_CLIENT_ID and PAYPAL_CLIENT_SECRET environment variables are required');
+    }
+
+    const response = await axios.post(`${this.getApiUrl()}/v1/oauth2/token`, 'grant_type=client_credentials', {
+      auth: { username: clientId, password: clientSecret },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    });
+
+    return response.data.access_token;
+  }
+}
+
+/**
+ * Payouts an admin sends by hand (crypto, and bank transfers without a Stripe Connect account);
+ * the admin marks them paid or failed once done
+ */
+export class ManualPayoutProvider implements PayoutProvider {
+  readonly name = 'manual' as const;
+
+  supports(): boolean {
+    return true;
+  }
+
+  async send(): Promise<PayoutResult> {
+    return { status: 'processing' };
+  }
+}
+
+/**
+ * Pays out nothing; for local development and tests. Records what it was asked to send and answers
+ * with the configured outcome.
+ */
+export class FakePayoutProvider implements PayoutProvider {
+  readonly name = 'fake' as const;
+  outcome: PayoutStatus = 'paid';
+  readonly sent: PayoutRequest[] = [];
+
+  supports(): boolean {
+    return true;
+  }
+
+  async send(request: PayoutRequest): Promise<PayoutResult> {
+    this.sent.push(request);
+
+    return {
+      status: this.outcome,
+      referenceId: `fake_${request.payoutId}`,
+      ...(this.outcome === 'failed' && { failureReason: 'Rejected by the fake payout provider' })
+    };
+  }
+}
+
+export const payoutProviders = {
+  stripe_connect: new StripeConnectPayoutProvider(),
+  paypal: new PayPalPayoutProvider(),
+  manual: new ManualPayoutProvider(),
+  fake: new FakePayoutProvider()
+};
+
+export const getPayoutProvider = (name: PayoutProviderName): PayoutProvider => {
+  const provider = payoutProviders[name];
+  if (!provider) {
+    throw new Error(`Unknown payout provider: ${name}`);
+  }
+  return provider;
+};
+
+/**
+ * The provider a withdrawal is paid out through: PAYOUT_PROVIDER when set, otherwise the first automated
+ * provider that can pay the method, falling back to a manual payout
+ */
+export const selectPayoutProvider = (
+  method: WithdrawalRequest['method'],
+  details: WithdrawalRequest['details']
+): PayoutProvider => {
+  const forced = process.env['PAYOUT_PROVIDER'];
+  if (forced) {
+    return getPayoutProvider(forced as PayoutProviderName);
+  }
+
+  const automated = [payoutProviders.stripe_connect, payoutProviders.paypal];
+  return automated.find(provider => provider.supports(method, details)) || payoutProviders.manual;
+};
@@ -1,6 +1,7 @@
 import crypto from 'crypto';
 import { UserModel } from '../models/User';
 import { TransactionModel } from '../models/Transaction';
+import { LedgerService, CommissionInput } from './ledgerService';
 import { User, Transaction } from '../types/database';
 
 export interface ReferralStats {
@@ -234,13 +235,13 @@ export class ReferralService {
   }
 
   /**
-   * Process referral commission when a referred user makes a purchase
+   * Work out the commission owed to the referrer of a purchasing user, without booking it
    */
-  static async processReferralCommission(
+  static async calculateReferralCommission(
     referredUserId: string,
     purchaseAmount: number,
     transactionId: string
-  ): Promise<Transaction | null> {
+  ): Promise<CommissionInput | null> {
     const referredUser = await UserModel.findById(referredUserId);
     if (!referredUser || !referredUser.referred_by) {
       return null; // No referrer
@@ -261,12 +262,11 @@ export class ReferralService {
     const bonusCommission = purchaseAmount * bonusRate;
     const totalCommission = baseCommission + bonusCommission;
 
-    // Create commission transaction
-    const commissionTransaction = await TransactionModel.createCommission(
-      referrer.id,
-      totalCommission,
-      `Referral commission from ${referredUser.email}`,
-      {
+    return {
+      user_id: referrer.id,
+      amount: totalCommission,
+      description: `Referral commission from ${referredUser.email}`,
+      metadata: {
         referral_user_id: referredUserId,
         original_transaction_id: transactionId,
         commission_rate: referrerTier.commissionRate,
@@ -275,9 +275,29 @@ export class ReferralService {
         bonus_commission: bonusCommission,
         referrer_tier: referrerTier.name
       }
-    );
+    };
+  }
+
+  /**
+   * Process referral commission when a referred user makes a purchase
+   */
+  static async processReferralCommission(
+    referredUserId: string,
+    purchaseAmount: number,
+    transactionId: string
+  ): Promise<Transaction | null> {
+    const commission = await this.calculateReferralCommission(referredUserId, purchaseAmount, transactionId);
+    if (!commission) {
+      return null;
+    }
 
-    return commissionTransaction;
+    // Create commission transaction
+    return LedgerService.recordCommission(
+      commission.user_id,
+      commission.amount,
+      commission.description,
+      commission.metadata
+    );
   }
 
   /**
@@ -0,0 +1,162 @@
+import { BotModel } from '../models/Bot';
+import { ModuleModel } from '../models/Module';
+import { TransactionModel } from '../models/Transaction';
+import { ReferralService } from './referralService';
+import { CommissionInput } from './ledgerService';
+import { Transaction } from '../types/database';
+
+export type RevenueSplitRole = 'developer' | 'bot_owner' | 'referrer';
+
+export interface RevenueSplitLeg extends CommissionInput {
+  role: RevenueSplitRole;
+}
+
+export interface RevenueSplit {
+  base_amount: number;
+  markup_amount: number;
+  platform_fee_percentage: number;
+  platform_fee: number;
+  // What the platform keeps once every leg has been paid
+  platform_net: number;
+  legs: RevenueSplitLeg[];
+}
+
+export interface RevenueSplitBreakdown extends Omit<RevenueSplit, 'legs'> {
+  legs: Array<{
+    role: RevenueSplitRole;
+    user_id: string;
+    amount: number;
+    transaction_id: string;
+    status: Transaction['status'];
+  }>;
+}
+
+// Share of the module base price the platform keeps; the developer receives the rest
+const PLATFORM_FEE_PERCENTAGE = process.env['PLATFORM_FEE_PERCENTAGE'] !== undefined
+  ? Number(process.env['PLATFORM_FEE_PERCENTAGE'])
+  : 20;
+
+// DECIMAL columns and JSON metadata can both carry amounts as strings
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
+
+/**
+ * Splits a module payment between the module developer (base price minus the platform fee),
+ * the owner of the bot it was bought for (the markup) and the buyer's referrer. The referral
+ * commission is paid out of the platform fee, so it never exceeds it.
+ */
+export class RevenueSplitService {
+  static getPlatformFeePercentage(): number {
+    return PLATFORM_FEE_PERCENTAGE;
+  }
+
+  static async calculateSplit(payment: Transaction): Promise<RevenueSplit> {
+    const total = toAmount(payment.amount);
+    const { module_id, bot_id } = payment.metadata;
+    const markupAmount = toAmount(payment.metadata['markup_amount'] || 0);
+    const baseAmount = payment.metadata['base_amount'] !== undefined
+      ? toAmount(payment.metadata['base_amount'])
+      : toAmount(total - markupAmount);
+
+    const legs: RevenueSplitLeg[] = [];
+    let platformFee = baseAmount;
+
+    const module = module_id ? await ModuleModel.findById(module_id) : null;
+    if (module?.developer_id) {
+      platformFee = toAmount(baseAmount * PLATFORM_FEE_PERCENTAGE / 100);
+      legs.push({
+        role: 'developer',
+        user_id: module.developer_id,
+        amount: toAmount(baseAmount - platformFee),
+        description: `Developer payout for module: ${module.name}`,
+        metadata: {
+          split_role: 'developer',
+          original_transaction_id: payment.id,
+          module_id,
+          bot_id,
+          base_amount: baseAmount,
+          platform_fee_percentage: PLATFORM_FEE_PERCENTAGE,
+          platform_fee: platformFee
+        }
+      });
+    }
+
+    const bot = bot_id && markupAmount > 0 ? await BotModel.findById(bot_id) : null;
+    if (bot) {
+      legs.push({
+        role: 'bot_owner',
+        user_id: bot.user_id,
+        amount: markupAmount,
+        description: `Markup for module${module ? `: ${module.name}` : ''} on bot ${bot.name}`,
+        metadata: {
+          split_role: 'bot_owner',
+          original_transaction_id: payment.id,
+          module_id,
+          bot_id,
+          markup_percentage: payment.metadata['markup_percentage'] || 0,
+          markup_amount: markupAmount
+        }
+      });
+    }
+
+    const referral = await ReferralService.calculateReferralCommission(payment.user_id, total, payment.id);
+    if (referral) {
+      const amount = Math.min(toAmount(referral.amount), platformFee);
+      legs.push({
+        ...referral,
+        role: 'referrer',
+        amount,
+        metadata: {
+          ...referral.metadata,
+          split_role: 'referrer',
+          ...(amount < toAmount(referral.amount) && { capped_at_platform_fee: true })
+        }
+      });
+    }
+
+    const paidLegs = legs.filter(leg => leg.amount > 0);
+    const platformNet = toAmount(total - paidLegs.reduce((sum, leg) => sum + leg.amount, 0));
+    if (platformNet < 0) {
+      throw new Error('Revenue split exceeds the amount paid');
+    }
+
+    return {
+      base_amount: baseAmount,
+      markup_amount: markupAmount,
+      platform_fee_percentage: module?.developer_id ? PLATFORM_FEE_PERCENTAGE : 100,
+      platform_fee: platformFee,
+      platform_net: platformNet,
+      legs: paidLegs
+    };
+  }
+
+  /**
+   * How a completed payment was split, for the transaction detail view. Payments completed before
+   * the split engine only list the referral commission, if any.
+   */
+  static async getBreakdown(payment: Transaction): Promise<RevenueSplitBreakdown | null> {
+    if (payment.type !== 'payment' || payment.status !== 'completed') {
+      return null;
+    }
+
+    const commissions = await TransactionModel.findCommissionsByPayment(payment.id);
+    const legs = commissions.map(commission => ({
+      role: (commission.metadata?.['split_role'] || 'referrer') as RevenueSplitRole,
+      user_id: commission.user_id,
+      amount: toAmount(commission.amount),
+      transaction_id: commission.id,
+      status: commission.status
+    }));
+
+    const summary = payment.metadata?.['revenue_split'] || {};
+    const total = toAmount(payment.amount);
+
+    return {
+      base_amount: toAmount(summary.base_amount ?? payment.metadata?.['base_amount'] ?? total),
+      markup_amount: toAmount(summary.markup_amount ?? payment.metadata?.['markup_amount'] ?? 0),
+      platform_fee_percentage: summary.platform_fee_percentage ?? 100,
+      platform_fee: toAmount(summary.platform_fee ?? total),
+      platform_net: toAmount(total - legs.reduce((sum, leg) => sum + leg.amount, 0)),
+      legs
+    };
+  }
+}
@@ -1,5 +1,13 @@
 import { BroadcastService } from './broadcastService';
+import { BroadcastQueueService } from './broadcastQueueService';
 import { NotificationService } from './notificationService';
+import { LedgerService } from './ledgerService';
+import { SubscriptionService } from './subscriptionService';
+import { CurrencyService } from './currencyService';
+import { InvoiceService } from './invoiceService';
+import { paymentService } from './paymentService';
+
+const BROADCAST_WORKER_INTERVAL_MS = Number(process.env['BROADCAST_WORKER_INTERVAL_MS']) || 500;
 
 export class SchedulerService {
   private static intervals: Map<string, NodeJS.Timeout> = new Map();
@@ -15,6 +23,16 @@ export class SchedulerService {
       BroadcastService.processScheduledBroadcasts();
     }, 60 * 1000); // 1 minute
 
+    // Deliver queued broadcast jobs; every replica runs a worker, Redis hands each job to exactly one
+    this.startJob('broadcast-queue', () => BroadcastQueueService.processQueue(), BROADCAST_WORKER_INTERVAL_MS);
+
+    // Repair broadcasts interrupted by a crash, once at startup and then every 5 minutes
+    this.runRecoverBroadcasts();
+    this.startJob('recover-broadcasts', () => this.runRecoverBroadcasts(), 5 * 60 * 1000); // 5 minutes
+
+    // Send the winners of A/B tests whose holdout has passed every minute
+    this.startJob('broadcast-ab-tests', () => BroadcastService.processAbTests(), 60 * 1000); // 1 minute
+
     // Process pending notifications every 30 seconds
     this.startJob('pending-notifications', () => {
       NotificationService.processPendingBroadcasts();
@@ -41,6 +59,22 @@ export class SchedulerService {
       }
     }, 15 * 60 * 1000); // 15 minutes
 
+    // Compare cached balances with the ledger every hour
+    this.startJob('ledger-reconciliation', () => this.runLedgerReconciliation(), 60 * 60 * 1000); // 1 hour
+
+    // Renew module subscriptions and deactivate expired modules every 15 minutes
+    this.startJob('module-subscriptions', () => this.runModuleSubscriptions(), 15 * 60 * 1000); // 15 minutes
+
+    // Refresh FX rates, once at startup and then every hour
+    this.runFxRatesRefresh();
+    this.startJob('fx-rates', () => this.runFxRatesRefresh(), 60 * 60 * 1000); // 1 hour
+
+    // Issue invoices and receipts missed when their transactions completed, every 15 minutes
+    this.startJob('invoices', () => this.runIssueMissingInvoices(), 15 * 60 * 1000); // 15 minutes
+
+    // Cancel coupon checkouts left unpaid, every 5 minutes
+    this.startJob('coupon-checkouts', () => this.runCancelLapsedCheckouts(), 5 * 60 * 1000); // 5 minutes
+
     console.log('✅ Scheduled jobs started');
   }
 
@@ -99,9 +133,17 @@ export class SchedulerService {
   static getJobStatus(): Array<{ name: string; running: boolean }> {
     const jobs = [
       'scheduled-broadcasts',
+      'broadcast-queue',
+      'recover-broadcasts',
+      'broadcast-ab-tests',
       'pending-notifications',
       'cleanup-subscribers',
-      'escalate-critical-tickets'
+      'escalate-critical-tickets',
+      'ledger-reconciliation',
+      'module-subscriptions',
+      'fx-rates',
+      'invoices',
+      'coupon-checkouts'
     ];
 
     return jobs.map(name => ({
@@ -123,6 +165,15 @@ export class SchedulerService {
           BroadcastService.processScheduledBroadcasts();
         }, 60 * 1000);
         break;
+      case 'broadcast-queue':
+        this.startJob(name, () => BroadcastQueueService.processQueue(), BROADCAST_WORKER_INTERVAL_MS);
+        break;
+      case 'recover-broadcasts':
+        this.startJob(name, () => this.runRecoverBroadcasts(), 5 * 60 * 1000);
+        break;
+      case 'broadcast-ab-tests':
+        this.startJob(name, () => BroadcastService.processAbTests(), 60 * 1000);
+        break;
       case 'pending-notifications':
         this.startJob(name, () => {
           NotificationService.processPendingBroadcasts();
@@ -149,8 +200,99 @@ export class SchedulerService {
           }
         }, 15 * 60 * 1000);
         break;
+      case 'ledger-reconciliation':
+        this.startJob(name, () => this.runLedgerReconciliation(), 60 * 60 * 1000);
+        break;
+      case 'module-subscriptions':
+        this.startJob(name, () => this.runModuleSubscriptions(), 15 * 60 * 1000);
+        break;
+      case 'fx-rates':
+        this.startJob(name, () => this.runFxRatesRefresh(), 60 * 60 * 1000);
+        break;
+      case 'invoices':
+        this.startJob(name, () => this.runIssueMissingInvoices(), 15 * 60 * 1000);
+        break;
+      case 'coupon-checkouts':
+        this.startJob(name, () => this.runCancelLapsedCheckouts(), 5 * 60 * 1000);
+        break;
       default:
         console.warn(`Unknown job name: ${name}`);
     }
   }
+
+  private static async runRecoverBroadcasts(): Promise<void> {
+    try {
+      const recovered = await BroadcastQueueService.recoverInterruptedBroadcasts();
+      if (recovered > 0) {
+        console.log(`♻️ Re-queued ${recovered} interrupted broadcasts`);
+      }
+    } catch (error) {
+      console.error('Failed to recover interrupted broadcasts:', error);
+    }
+  }
+
+  // Renewals run first, so a subscription renewed on this run is not expired by it
+  private static async runModuleSubscriptions(): Promise<void> {
+    try {
+      const { renewed, failed } = await SubscriptionService.processRenewals();
+      if (renewed > 0 || failed > 0) {
+        console.log(`🔁 Renewed ${renewed} module subscriptions, ${failed} renewals failed`);
+      }
+    } catch (error) {
+      console.error('Failed to renew module subscriptions:', error);
+    }
+
+    try {
+      const expired = await SubscriptionService.processExpirations();
+      if (expired > 0) {
+        console.log(`⏰ Deactivated ${expired} expired module activations`);
+      }
+    } catch (error) {
+      console.error('Failed to process expired module activations:', error);
+    }
+  }
+
+  private static async runLedgerReconciliation(): Promise<void> {
+    try {
+      const discrepancies = await LedgerService.reconcile();
+      if (discrepancies.length > 0) {
+        console.warn(`⚠️ ${discrepancies.length} users have a balance that differs from the ledger`);
+      }
+    } catch (error) {
+      console.error('Failed to reconcile balances with the ledger:', error);
+    }
+  }
+
+  private static async runFxRatesRefresh(): Promise<void> {
+    try {
+      const rates = await CurrencyService.refreshRates();
+      if (rates) {
+        console.log(`💱 Refreshed FX rates: ${Object.entries(rates).map(([currency, rate]) => `${currency} ${rate}`).join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Failed to refresh FX rates:', error);
+    }
+  }
+
+  private static async runIssueMissingInvoices(): Promise<void> {
+    try {
+      const issued = await InvoiceService.issueMissing();
+      if (issued > 0) {
+        console.log(`🧾 Issued ${issued} missing invoices and receipts`);
+      }
+    } catch (error) {
+      console.error('Failed to issue missing invoices:', error);
+    }
+  }
+
+  private static async runCancelLapsedCheckouts(): Promise<void> {
+    try {
+      const cancelled = await paymentService.cancelLapsedCouponCheckouts();
+      if (cancelled > 0) {
+        console.log(`🎟️ Cancelled ${cancelled} unpaid coupon checkouts`);
+      }
+    } catch (error) {
+      console.error('Failed to cancel unpaid coupon checkouts:', error);
+    }
+  }
 }
\ No newline at end of file
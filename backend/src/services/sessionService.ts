@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { UserSessionModel, UserSession } from '../models/UserSession';
+import { UserModel } from '../models/User';
+import { User } from '../types/database';
+
+const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key';
+const JWT_REFRESH_SECRET = process.env['JWT_REFRESH_SECRET'] || 'your-refresh-secret-key';
+
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SessionClient {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  ip_address?: string;
+  user_agent?: string;
+  last_activity: Date;
+  created_at: Date;
+  current: boolean;
+}
+
+// Sessions only keep a hash of their refresh token, so a database leak does not hand out live tokens
+export const hashRefreshToken = (refreshToken: string): string =>
+  crypto.createHash('sha256').update(refreshToken).digest('hex');
+
+/**
+ * Every login opens a session; its refresh token is replaced on each refresh, and presenting one that has
+ * been replaced means it was copied, so the session is revoked for the thief and the user alike. Access
+ * tokens name their session and stop working with it.
+ */
+export class SessionService {
+  static async createSession(user: Pick<User, 'id' | 'email' | 'role'>, client: SessionClient = {}): Promise<{
+    session: UserSession;
+    tokens: SessionTokens;
+  }> {
+    const sessionId = crypto.randomUUID();
+    const tokens = this.signTokens(user, sessionId);
+
+    const session = await UserSessionModel.create({
+      id: sessionId,
+      user_id: user.id,
+      session_token: hashRefreshToken(tokens.refreshToken),
+      ...client,
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    });
+
+    return { session, tokens };
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. Throws when the token is invalid, its session is gone or
+   * revoked, or it has been used before.
+   */
+  static async refresh(refreshToken: string): Promise<SessionTokens> {
+    // Throws JsonWebTokenError or TokenExpiredError
+    const decoded = jwt.verify(refreshToken, JWT_REFRESH_SECRET) as any;
+
+    // Tokens issued before sessions were tracked cannot be revoked, so they are not renewed either
+    if (!decoded.sid) {
+      throw new Error('Session has been revoked');
+    }
+
+    const session = await UserSessionModel.findById(decoded.sid);
+    if (!session || session.user_id !== decoded.userId || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+      throw new Error('Session has been revoked');
+    }
+
+    const currentToken = hashRefreshToken(refreshToken);
+    if (session.session_token !== currentToken) {
+      await this.revokeReusedSession(session);
+      throw new Error('Refresh token has already been used');
+    }
+
+    const user = await UserModel.findById(session.user_id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Suspending revokes the sessions too; this covers a refresh racing the suspension
+    if (user.status === 'suspended') {
+      throw new Error('Account is suspended');
+    }
+
+    const tokens = this.signTokens(user, session.id);
+    const rotated = await UserSessionModel.rotate(
+      session.id,
+      currentToken,
+      hashRefreshToken(tokens.refreshToken),
+      new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    );
+    if (!rotated) {
+      // Another refresh with the same token got there first
+      await this.revokeReusedSession(session);
+      throw new Error('Refresh token has already been used');
+    }
+
+    return tokens;
+  }
+
+  static async listSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+    const sessions = await UserSessionModel.findActiveByUser(userId);
+
+    return sessions.map(session => ({
+      id: session.id,
+      ...(session.ip_address && { ip_address: session.ip_address }),
+      ...(session.user_agent && { user_agent: session.user_agent }),
+      last_activity: session.last_activity,
+      created_at: session.created_at,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  /**
+   * Log one of the user's own sessions out
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = await UserSessionModel.findById(sessionId);
+    if (!session || session.user_id !== userId || session.revoked_at) {
+      throw new Error('Session not found');
+    }
+
+    await UserSessionModel.revoke(sessionId, 'revoked');
+  }
+
+  static async logout(sessionId: string): Promise<void> {
+    await UserSessionModel.revoke(sessionId, 'logout');
+  }
+
+  /**
+   * Log the user out everywhere, this device included
+   */
+  static async revokeAllSessions(
+    userId: string,
+    reason: 'logout_all' | 'password_reset' | 'suspended' = 'logout_all'
+  ): Promise<number> {
+    return UserSessionModel.revokeAllForUser(userId, reason);
+  }
+
+  private static signTokens(user: Pick<User, 'id' | 'email' | 'role'>, sessionId: string): SessionTokens {
+    const payload = { userId: user.id, email: user.email, role: user.role, sid: sessionId };
+
+    const accessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+    // The token id keeps two refreshes within the same second from signing identical tokens
+    const refreshToken = jwt.sign(
+      { ...payload, jti: crypto.randomBytes(16).toString('hex') },
+      JWT_REFRESH_SECRET,
+      { expiresIn: REFRESH_TOKEN_TTL_MS / 1000 }
+    );
+
+    return { accessToken, refreshToken };
+  }
+
+  private static async revokeReusedSession(session: UserSession): Promise<void> {
+    console.warn(`Refresh token of session ${session.id} was used again; revoking the session of user ${session.user_id}`);
+    await UserSessionModel.revoke(session.id, 'token_reuse');
+  }
+}
@@ -0,0 +1,107 @@
+import Stripe from 'stripe';
+import { StripeEventModel } from '../models/StripeEvent';
+import { paymentService } from './paymentService';
+import { DisputeService } from './disputeService';
+
+/**
+ * Every verified webhook event is recorded in stripe_events before it is processed. An event that was
+ * processed, or is being processed, is skipped when Stripe delivers it again; an event whose processing
+ * threw is kept as failed and can be replayed from its stored payload.
+ */
+export class StripeEventService {
+  /**
+   * Process an event once. Returns false when it was a duplicate delivery.
+   */
+  static async handle(event: Stripe.Event): Promise<boolean> {
+    const claimed = await StripeEventModel.claim(event.id, event.type, event);
+    if (!claimed) {
+      return false;
+    }
+
+    try {
+      await this.dispatch(event);
+    } catch (error: any) {
+      await StripeEventModel.markFailed(event.id, error.message || 'Event processing failed');
+      throw error;
+    }
+
+    await StripeEventModel.markProcessed(event.id);
+    return true;
+  }
+
+  /**
+   * Process a stored failed event again
+   */
+  static async replay(eventId: string): Promise<void> {
+    const stored = await StripeEventModel.findById(eventId);
+    if (!stored) {
+      throw new Error('Event not found');
+    }
+    if (stored.status !== 'failed') {
+      throw new Error(`Event is ${stored.status}, only failed events can be replayed`);
+    }
+
+    await this.handle(stored.payload as Stripe.Event);
+  }
+
+  /**
+   * Process every stored failed event again, oldest first. Returns how many succeeded and how many failed again.
+   */
+  static async replayFailed(limit: number = 100): Promise<{ replayed: number; failed: number }> {
+    const events = await StripeEventModel.findFailed(limit);
+
+    const totals = { replayed: 0, failed: 0 };
+    for (const stored of events) {
+      try {
+        await this.handle(stored.payload as Stripe.Event);
+        totals.replayed++;
+      } catch (error) {
+        console.error(`Replay of Stripe event ${stored.id} failed:`, error);
+        totals.failed++;
+      }
+    }
+
+    return totals;
+  }
+
+  private static async dispatch(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        await paymentService.processSuccessfulPayment(event.data.object.id);
+        console.log('Payment succeeded:', event.data.object.id);
+        break;
+
+      case 'payment_intent.payment_failed':
+        await paymentService.processFailedPayment(event.data.object.id);
+        console.log('Payment failed:', event.data.object.id);
+        break;
+
+      case 'payment_intent.canceled':
+        await paymentService.processFailedPayment(event.data.object.id, 'cancelled');
+        console.log('Payment canceled:', event.data.object.id);
+        break;
+
+      case 'charge.refunded':
+        await paymentService.processChargeRefunded(event.data.object);
+        console.log('Charge refunded:', event.data.object.id);
+        break;
+
+      case 'charge.dispute.created':
+        await DisputeService.openDispute(event.data.object);
+        console.log('Dispute created:', event.data.object.id);
+        break;
+
+      case 'charge.dispute.updated':
+        await DisputeService.updateDispute(event.data.object);
+        break;
+
+      case 'charge.dispute.closed':
+        await DisputeService.closeDispute(event.data.object);
+        console.log('Dispute closed:', event.data.object.id, event.data.object.status);
+        break;
+
+      default:
+        console.log('Unhandled webhook event type:', event.type);
+    }
+  }
+}
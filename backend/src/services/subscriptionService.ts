@@ -0,0 +1,325 @@
+import { withTransaction } from '../config/database';
+import { BotModuleActivationModel } from '../models/BotModuleActivation';
+import { ModuleModel } from '../models/Module';
+import { ModulePlanModel, ModulePlan, BillingInterval, UpsertModulePlanInput } from '../models/ModulePlan';
+import {
+  ModuleSubscriptionModel,
+  ModuleSubscription,
+  ModuleSubscriptionDetails
+} from '../models/ModuleSubscription';
+import { TransactionModel } from '../models/Transaction';
+import { LedgerService } from './ledgerService';
+import { InvoiceService } from './invoiceService';
+import { NotificationService } from './notificationService';
+import { RevenueSplitService } from './revenueSplitService';
+import { Transaction } from '../types/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Renewals are charged a day before the paid period ends
+const RENEWAL_LEAD_MS = DAY_MS;
+// A failed renewal is retried daily; the module keeps working until the grace period after the paid period ends
+const RENEWAL_RETRY_INTERVAL_MS = DAY_MS;
+const GRACE_PERIOD_DAYS = Number(process.env['SUBSCRIPTION_GRACE_PERIOD_DAYS']) || 7;
+// How long a scheduler replica holds a subscription it is renewing
+const RENEWAL_CLAIM_MS = 15 * 60 * 1000;
+const RENEWAL_BATCH_SIZE = 100;
+
+// DECIMAL columns come back from pg as strings
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
+
+/**
+ * Add one billing interval, keeping the day of the month where the target month has it
+ * (a period starting on January 31st ends on February 28th or 29th)
+ */
+export const addBillingInterval = (date: Date, interval: BillingInterval): Date => {
+  const next = new Date(date);
+  const day = next.getUTCDate();
+
+  next.setUTCDate(1);
+  if (interval === 'year') {
+    next.setUTCFullYear(next.getUTCFullYear() + 1);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, lastDay));
+  return next;
+};
+
+export class SubscriptionService {
+  static async getPlans(moduleId: string): Promise<ModulePlan[]> {
+    return ModulePlanModel.findByModuleId(moduleId, true);
+  }
+
+  /**
+   * Create or reprice the plans of a module; only its developer or an admin may
+   */
+  static async savePlans(
+    moduleId: string,
+    userId: string,
+    userRole: string,
+    plans: UpsertModulePlanInput[]
+  ): Promise<ModulePlan[]> {
+    const module = await ModuleModel.findById(moduleId);
+    if (!module) {
+      throw new Error('Module not found');
+    }
+    if (module.developer_id !== userId && userRole !== 'admin') {
+      throw new Error('Access denied');
+    }
+
+    for (const plan of plans) {
+      await ModulePlanModel.upsert(moduleId, plan);
+    }
+
+    return ModulePlanModel.findByModuleId(moduleId);
+  }
+
+  static async getUserSubscriptions(userId: string): Promise<ModuleSubscriptionDetails[]> {
+    return ModuleSubscriptionModel.findByUserId(userId);
+  }
+
+  /**
+   * Activate the module bought by a completed plan payment and start its first period
+   */
+  static async startSubscription(payment: Transaction): Promise<ModuleSubscription> {
+    const { module_id, bot_id, markup_percentage, plan_id } = payment.metadata;
+
+    const plan = await ModulePlanModel.findById(plan_id);
+    if (!plan) {
+      throw new Error('Subscription plan not found');
+    }
+
+    const periodStart = new Date();
+    const periodEnd = addBillingInterval(periodStart, plan.billing_interval);
+
+    // Buying a plan again after the module expired reactivates the existing activation
+    const activation = await BotModuleActivationModel.upsert({
+      bot_id,
+      module_id,
+      markup_percentage: markup_percentage || 0,
+      settings: {},
+      expires_at: periodEnd
+    });
+
+    return ModuleSubscriptionModel.create({
+      activation_id: activation.id,
+      plan_id: plan.id,
+      user_id: payment.user_id,
+      markup_percentage: markup_percentage || 0,
+      current_period_start: periodStart,
+      current_period_end: periodEnd
+    });
+  }
+
+  /**
+   * Stop renewing; the module stays active until the end of the period that has been paid for
+   */
+  static async cancelSubscription(subscriptionId: string, userId: string): Promise<ModuleSubscription> {
+    const subscription = await this.getOwnedSubscription(subscriptionId, userId);
+    if (subscription.status === 'expired' || subscription.status === 'cancelled' || subscription.cancel_at_period_end) {
+      throw new Error('Subscription is not active');
+    }
+
+    // A past due subscription loses the rest of its unpaid grace period
+    if (subscription.status === 'past_due') {
+      await BotModuleActivationModel.update(subscription.activation_id, {
+        expires_at: new Date(subscription.current_period_end)
+      });
+    }
+
+    const updated = await ModuleSubscriptionModel.update(subscription.id, {
+      cancel_at_period_end: true,
+      ...(subscription.status === 'past_due' && { status: 'cancelled', next_renewal_attempt_at: null })
+    });
+    return updated!;
+  }
+
+  /**
+   * Undo a cancellation before the paid period ends
+   */
+  static async resumeSubscription(subscriptionId: string, userId: string): Promise<ModuleSubscription> {
+    const subscription = await this.getOwnedSubscription(subscriptionId, userId);
+    if (subscription.status !== 'active' || !subscription.cancel_at_period_end) {
+      throw new Error('Only active subscriptions that are set to cancel can be resumed');
+    }
+
+    const updated = await ModuleSubscriptionModel.update(subscription.id, { cancel_at_period_end: false });
+    return updated!;
+  }
+
+  /**
+   * Charge every subscription whose renewal is due. Returns how many were renewed and how many failed.
+   */
+  static async processRenewals(): Promise<{ renewed: number; failed: number }> {
+    const totals = { renewed: 0, failed: 0 };
+
+    let batch: ModuleSubscriptionDetails[];
+    do {
+      const now = Date.now();
+      batch = await ModuleSubscriptionModel.claimDueForRenewal(
+        new Date(now + RENEWAL_LEAD_MS),
+        new Date(now + RENEWAL_CLAIM_MS),
+        RENEWAL_BATCH_SIZE
+      );
+
+      for (const subscription of batch) {
+        if (await this.renew(subscription)) {
+          totals.renewed++;
+        } else {
+          totals.failed++;
+        }
+      }
+    } while (batch.length === RENEWAL_BATCH_SIZE);
+
+    return totals;
+  }
+
+  /**
+   * Deactivate every activation whose paid (or grace) period has ended and tell the subscriber.
+   * Returns the number of activations deactivated.
+   */
+  static async processExpirations(): Promise<number> {
+    const activations = await BotModuleActivationModel.getExpiredActivations();
+
+    let expired = 0;
+    for (const activation of activations) {
+      // Another replica may have expired it, or a renewal may have just extended it
+      if (!await BotModuleActivationModel.expire(activation.id)) {
+        continue;
+      }
+      expired++;
+
+      const subscription = await ModuleSubscriptionModel.findByActivationId(activation.id);
+      if (subscription) {
+        await ModuleSubscriptionModel.update(subscription.id, { status: 'expired', next_renewal_attempt_at: null });
+      }
+
+      try {
+        await NotificationService.sendModuleExpiredNotification(
+          subscription?.user_id || activation.bot_owner_id,
+          activation.module_name,
+          activation.bot_name
+        );
+      } catch (error) {
+        console.error(`Failed to send module expired notification for activation ${activation.id}:`, error);
+      }
+    }
+
+    return expired;
+  }
+
+  private static async renew(subscription: ModuleSubscriptionDetails): Promise<boolean> {
+    const baseAmount = toAmount(subscription.price);
+    const markupPercentage = Number(subscription.markup_percentage);
+    const markupAmount = toAmount(baseAmount * markupPercentage / 100);
+    const amount = toAmount(baseAmount + markupAmount);
+    const periodStart = new Date(subscription.current_period_end);
+    const periodEnd = addBillingInterval(periodStart, subscription.billing_interval);
+
+    const payment = await TransactionModel.create({
+      user_id: subscription.user_id,
+      type: 'payment',
+      amount,
+      currency: subscription.currency,
+      description: `Renewal of module: ${subscription.module_name}`,
+      metadata: {
+        module_id: subscription.module_id,
+        bot_id: subscription.bot_id,
+        markup_percentage: markupPercentage,
+        base_amount: baseAmount,
+        markup_amount: markupAmount,
+        plan_id: subscription.plan_id,
+        billing_interval: subscription.billing_interval,
+        subscription_id: subscription.id,
+        period_start: periodStart.toISOString(),
+        period_end: periodEnd.toISOString(),
+        payment_method: 'wallet'
+      }
+    });
+
+    // The period moves on in the database transaction that charges the wallet, so it is never charged twice
+    let completed: Transaction | null;
+    try {
+      const { legs, ...summary } = await RevenueSplitService.calculateSplit(payment);
+      completed = await withTransaction(async client => {
+        const paid = await LedgerService.completeWalletPayment(payment.id, legs, { revenue_split: summary }, client);
+
+        await ModuleSubscriptionModel.update(subscription.id, {
+          status: 'active',
+          current_period_start: periodStart,
+          current_period_end: periodEnd,
+          failed_renewal_attempts: 0,
+          next_renewal_attempt_at: null,
+          grace_period_ends_at: null,
+          last_renewal_error: null
+        }, client);
+        await BotModuleActivationModel.update(subscription.activation_id, { status: 'active', expires_at: periodEnd }, client);
+
+        return paid;
+      });
+    } catch (error: any) {
+      await TransactionModel.updateStatus(payment.id, 'failed', new Date());
+      await this.recordFailedRenewal(subscription, amount, error.message || 'Renewal failed');
+      return false;
+    }
+
+    try {
+      const invoice = completed && await InvoiceService.issueForTransaction(completed);
+      await NotificationService.sendPaymentReceivedNotification(
+        subscription.user_id,
+        amount,
+        subscription.currency,
+        payment.description!,
+        invoice?.id
+      );
+    } catch (error) {
+      console.error(`Failed to send renewal notification for subscription ${subscription.id}:`, error);
+    }
+
+    return true;
+  }
+
+  // Dunning: keep the module running through the grace period and retry daily until it ends
+  private static async recordFailedRenewal(
+    subscription: ModuleSubscriptionDetails,
+    amount: number,
+    reason: string
+  ): Promise<void> {
+    const gracePeriodEndsAt = subscription.grace_period_ends_at
+      ? new Date(subscription.grace_period_ends_at)
+      : new Date(new Date(subscription.current_period_end).getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+
+    await ModuleSubscriptionModel.update(subscription.id, {
+      status: 'past_due',
+      failed_renewal_attempts: subscription.failed_renewal_attempts + 1,
+      next_renewal_attempt_at: new Date(Date.now() + RENEWAL_RETRY_INTERVAL_MS),
+      grace_period_ends_at: gracePeriodEndsAt,
+      last_renewal_error: reason
+    });
+    await BotModuleActivationModel.update(subscription.activation_id, { expires_at: gracePeriodEndsAt });
+
+    try {
+      await NotificationService.sendSubscriptionRenewalFailedNotification(
+        subscription.user_id,
+        subscription.module_name,
+        subscription.bot_name,
+        amount,
+        subscription.currency,
+        gracePeriodEndsAt
+      );
+    } catch (error) {
+      console.error(`Failed to send renewal reminder for subscription ${subscription.id}:`, error);
+    }
+  }
+
+  private static async getOwnedSubscription(subscriptionId: string, userId: string): Promise<ModuleSubscriptionDetails> {
+    const subscription = await ModuleSubscriptionModel.findById(subscriptionId);
+    if (!subscription || subscription.user_id !== userId) {
+      throw new Error('Subscription not found');
+    }
+    return subscription;
+  }
+}
@@ -0,0 +1,54 @@
+import { UserModel } from '../models/User';
+import { User } from '../types/database';
+import { SessionService } from './sessionService';
+
+const SUSPENSION_APPEAL_URL = process.env['SUSPENSION_APPEAL_URL'] || 'mailto:support@telebotics.com';
+
+// What a suspended user is told when they are turned away
+export interface SuspensionDetails {
+  reason?: string;
+  suspendedAt?: string;
+  appealUrl: string;
+}
+
+/**
+ * A suspended account is locked out at once: its sessions are revoked and login is refused. The API keys of
+ * its bots' modules, its scheduled broadcasts and its pending withdrawals check the account status
+ * themselves, so reinstating the account is enough to lift them.
+ */
+export class SuspensionService {
+  static isSuspended(user: Pick<User, 'status'>): boolean {
+    return user.status === 'suspended';
+  }
+
+  static getDetails(user: Pick<User, 'suspension_reason' | 'suspended_at'>): SuspensionDetails {
+    return {
+      ...(user.suspension_reason && { reason: user.suspension_reason }),
+      ...(user.suspended_at && { suspendedAt: new Date(user.suspended_at).toISOString() }),
+      appealUrl: SUSPENSION_APPEAL_URL
+    };
+  }
+
+  /**
+   * Suspend a user and revoke their sessions; returns how many sessions were revoked
+   */
+  static async suspendUser(userId: string, reason: string, adminId?: string): Promise<number> {
+    if (adminId === userId) {
+      throw new Error('Admins cannot suspend their own account');
+    }
+
+    const user = await UserModel.suspend(userId, reason, adminId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return SessionService.revokeAllSessions(userId, 'suspended');
+  }
+
+  static async reinstateUser(userId: string): Promise<void> {
+    const user = await UserModel.reinstate(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+  }
+}
@@ -17,8 +17,42 @@ export interface TelegramApiResponse<T> {
   result?: T;
   error_code?: number;
   description?: string;
+  parameters?: {
+    retry_after?: number;
+    migrate_to_chat_id?: number;
+  };
 }
 
+export interface TelegramSendResult {
+  ok: boolean;
+  messageId?: number;
+  errorCode?: number;
+  description?: string;
+  retryAfter?: number; // seconds, set when Telegram answers 429
+}
+
+export interface TelegramInlineKeyboardButton {
+  text: string;
+  url?: string;
+  callback_data?: string;
+}
+
+export interface TelegramInputMedia {
+  type: 'photo' | 'video' | 'document';
+  media: string; // file_id or HTTP URL
+  caption?: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+}
+
+export interface TelegramMediaOptions {
+  caption?: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  disable_notification?: boolean;
+  reply_markup?: any;
+}
+
+type SentMessage = { message_id: number };
+
 export class TelegramService {
   private static readonly BASE_URL = 'https://api.telegram.org/bot';
 
@@ -78,13 +112,14 @@ export class TelegramService {
   /**
    * Set webhook for a bot
    */
-  static async setWebhook(token: string, webhookUrl: string): Promise<boolean> {
+  static async setWebhook(token: string, webhookUrl: string, secretToken?: string): Promise<boolean> {
     try {
       const response = await axios.post<TelegramApiResponse<boolean>>(
         `${this.BASE_URL}${token}/setWebhook`,
         {
           url: webhookUrl,
-          allowed_updates: ['message', 'callback_query', 'inline_query'],
+          allowed_updates: ['message', 'edited_message', 'callback_query', 'inline_query', 'my_chat_member'],
+          ...(secretToken && { secret_token: secretToken }),
         },
         {
           timeout: 10000,
@@ -209,6 +244,166 @@ export class TelegramService {
     }
   }
 
+  /**
+   * Send message to a specific chat and report Telegram's answer instead of a plain boolean
+   */
+  static async sendMessageWithResult(
+    token: string,
+    chatId: string | number,
+    text: string,
+    options: {
+      parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+      disable_web_page_preview?: boolean;
+      disable_notification?: boolean;
+      reply_markup?: any;
+    } = {}
+  ): Promise<TelegramSendResult> {
+    return this.callSendMethod(token, 'sendMessage', {
+      chat_id: chatId,
+      text,
+      ...options,
+    });
+  }
+
+  /**
+   * Send a photo with an optional caption and inline keyboard
+   */
+  static async sendPhoto(
+    token: string,
+    chatId: string | number,
+    photo: string,
+    options: TelegramMediaOptions = {}
+  ): Promise<TelegramSendResult> {
+    return this.callSendMethod(token, 'sendPhoto', {
+      chat_id: chatId,
+      photo,
+      ...options,
+    });
+  }
+
+  /**
+   * Send a video with an optional caption and inline keyboard
+   */
+  static async sendVideo(
+    token: string,
+    chatId: string | number,
+    video: string,
+    options: TelegramMediaOptions = {}
+  ): Promise<TelegramSendResult> {
+    return this.callSendMethod(token, 'sendVideo', {
+      chat_id: chatId,
+      video,
+      ...options,
+    });
+  }
+
+  /**
+   * Send a document with an optional caption and inline keyboard
+   */
+  static async sendDocument(
+    token: string,
+    chatId: string | number,
+    document: string,
+    options: TelegramMediaOptions = {}
+  ): Promise<TelegramSendResult> {
+    return this.callSendMethod(token, 'sendDocument', {
+      chat_id: chatId,
+      document,
+      ...options,
+    });
+  }
+
+  /**
+   * Send 2-10 photos/videos (or 2-10 documents) as an album; albums cannot carry a keyboard
+   */
+  static async sendMediaGroup(
+    token: string,
+    chatId: string | number,
+    media: TelegramInputMedia[],
+    options: {
+      disable_notification?: boolean;
+    } = {}
+  ): Promise<TelegramSendResult> {
+    return this.callSendMethod(token, 'sendMediaGroup', {
+      chat_id: chatId,
+      media,
+      ...options,
+    });
+  }
+
+  /**
+   * Edit the text of a message previously sent by the bot
+   */
+  static async editMessageText(
+    token: string,
+    chatId: string | number,
+    messageId: number,
+    text: string,
+    options: {
+      parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+      disable_web_page_preview?: boolean;
+      reply_markup?: any;
+    } = {}
+  ): Promise<boolean> {
+    try {
+      const response = await axios.post<TelegramApiResponse<any>>(
+        `${this.BASE_URL}${token}/editMessageText`,
+        {
+          chat_id: chatId,
+          message_id: messageId,
+          text,
+          ...options,
+        },
+        {
+          timeout: 10000,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return response.data.ok;
+    } catch (error: any) {
+      console.error('Failed to edit message:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Answer a callback query sent from an inline keyboard button
+   */
+  static async answerCallbackQuery(
+    token: string,
+    callbackQueryId: string,
+    options: {
+      text?: string;
+      show_alert?: boolean;
+      url?: string;
+      cache_time?: number;
+    } = {}
+  ): Promise<boolean> {
+    try {
+      const response = await axios.post<TelegramApiResponse<boolean>>(
+        `${this.BASE_URL}${token}/answerCallbackQuery`,
+        {
+          callback_query_id: callbackQueryId,
+          ...options,
+        },
+        {
+          timeout: 10000,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return response.data.ok;
+    } catch (error: any) {
+      console.error('Failed to answer callback query:', error.message);
+      return false;
+    }
+  }
+
   /**
    * Get bot's chat members count (for channels/groups)
    */
@@ -314,4 +509,50 @@ export class TelegramService {
 
     return { successful, failed, results };
   }
+
+  private static async callSendMethod(
+    token: string,
+    method: string,
+    payload: Record<string, any>
+  ): Promise<TelegramSendResult> {
+    try {
+      const response = await axios.post<TelegramApiResponse<SentMessage | SentMessage[]>>(
+        `${this.BASE_URL}${token}/${method}`,
+        payload,
+        {
+          timeout: 10000,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return this.toSendResult(response.data);
+    } catch (error: any) {
+      // Telegram answers errors with a non-2xx status and a JSON body
+      if (error.response?.data) {
+        return this.toSendResult(error.response.data);
+      }
+
+      return { ok: false, description: error.message };
+    }
+  }
+
+  private static toSendResult(data: TelegramApiResponse<SentMessage | SentMessage[]>): TelegramSendResult {
+    if (data.ok) {
+      // sendMediaGroup returns every message of the album; the first one identifies it
+      const message = Array.isArray(data.result) ? data.result[0] : data.result;
+      return {
+        ok: true,
+        ...(message && { messageId: message.message_id }),
+      };
+    }
+
+    return {
+      ok: false,
+      ...(data.error_code !== undefined && { errorCode: data.error_code }),
+      ...(data.description && { description: data.description }),
+      ...(data.parameters?.retry_after !== undefined && { retryAfter: data.parameters.retry_after }),
+    };
+  }
 }
\ No newline at end of file
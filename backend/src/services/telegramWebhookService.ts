@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import { BotSubscriberModel, CreateBotSubscriberInput } from '../models/BotSubscriber';
+import { BroadcastDeliveryModel } from '../models/BroadcastDelivery';
+import { BroadcastClickModel } from '../models/BroadcastClick';
+import { Bot } from '../types/database';
+
+export interface TelegramUser {
+  id: number;
+  is_bot?: boolean;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: 'private' | 'group' | 'supergroup' | 'channel';
+  title?: string;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  from?: TelegramUser;
+  chat: TelegramChat;
+  date: number;
+  text?: string;
+  [key: string]: any;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  inline_message_id?: string;
+  data?: string;
+}
+
+export interface TelegramInlineQuery {
+  id: string;
+  from: TelegramUser;
+  query: string;
+  offset: string;
+}
+
+export interface TelegramChatMember {
+  status: 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+  user: TelegramUser;
+}
+
+export interface TelegramChatMemberUpdated {
+  chat: TelegramChat;
+  from: TelegramUser;
+  date: number;
+  old_chat_member: TelegramChatMember;
+  new_chat_member: TelegramChatMember;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  edited_message?: TelegramMessage;
+  channel_post?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+  inline_query?: TelegramInlineQuery;
+  my_chat_member?: TelegramChatMemberUpdated;
+}
+
+export class TelegramWebhookService {
+  /**
+   * Public URL Telegram should deliver updates for a bot to,
+   * or null when the platform receiver is not publicly configured
+   */
+  static getWebhookUrl(botId: string): string | null {
+    const baseUrl = process.env['WEBHOOK_BASE_URL'];
+    if (!baseUrl) {
+      return null;
+    }
+
+    return `${baseUrl.replace(/\/+$/, '')}/api/webhooks/telegram/${botId}`;
+  }
+
+  /**
+   * Generate a secret token for setWebhook (Telegram allows 1-256 chars of [A-Za-z0-9_-])
+   */
+  static generateSecretToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Compare the X-Telegram-Bot-Api-Secret-Token header with the bot's stored secret
+   */
+  static verifySecretToken(bot: Bot, secretToken: string | undefined): boolean {
+    if (!bot.webhook_secret || !secretToken) {
+      return false;
+    }
+
+    const expected = Buffer.from(bot.webhook_secret);
+    const received = Buffer.from(secretToken);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Keep the bot's subscriber list in sync with an incoming update
+   */
+  static async processUpdate(bot: Bot, update: TelegramUpdate): Promise<void> {
+    if (update.my_chat_member) {
+      await this.handleMembershipChange(bot.id, update.my_chat_member);
+      return;
+    }
+
+    const message = update.message || update.edited_message || update.channel_post;
+    const chat = message?.chat || update.callback_query?.message?.chat;
+    const from = message?.from || update.callback_query?.from;
+
+    // Inline queries and inline-message callbacks do not carry a chat we can write to
+    if (!chat) {
+      return;
+    }
+
+    await this.recordInteraction(bot.id, chat, from);
+
+    if (update.callback_query?.message) {
+      await this.recordBroadcastClick(bot.id, update.callback_query);
+    }
+  }
+
+  /**
+   * Attribute a button press to the broadcast message it was pressed on, if it was one
+   */
+  private static async recordBroadcastClick(botId: string, callbackQuery: TelegramCallbackQuery): Promise<void> {
+    const message = callbackQuery.message!;
+
+    // Click statistics are best effort and must never make Telegram redeliver the update
+    try {
+      const delivery = await BroadcastDeliveryModel.findByMessage(
+        botId,
+        message.chat.id.toString(),
+        message.message_id
+      );
+      if (!delivery) {
+        return;
+      }
+
+      await BroadcastClickModel.create({
+        broadcast_id: delivery.broadcast_id,
+        delivery_id: delivery.id,
+        variant: delivery.variant ?? null,
+        source: 'callback',
+        ...(callbackQuery.data && { button_data: callbackQuery.data })
+      });
+    } catch (error) {
+      console.error(`Failed to record broadcast click for bot ${botId}:`, error);
+    }
+  }
+
+  /**
+   * Handle the bot being blocked, removed from or (re-)added to a chat
+   */
+  private static async handleMembershipChange(
+    botId: string,
+    memberUpdate: TelegramChatMemberUpdated
+  ): Promise<void> {
+    const { chat, from, new_chat_member } = memberUpdate;
+
+    if (new_chat_member.status === 'kicked' || new_chat_member.status === 'left') {
+      await BotSubscriberModel.deactivateByBotAndChat(botId, chat.id.toString());
+      return;
+    }
+
+    await this.recordInteraction(botId, chat, from);
+  }
+
+  /**
+   * Touch an active subscriber or (re-)create it
+   */
+  private static async recordInteraction(
+    botId: string,
+    chat: TelegramChat,
+    from?: TelegramUser
+  ): Promise<void> {
+    const chatId = chat.id.toString();
+    const existing = await BotSubscriberModel.findByBotAndChat(botId, chatId);
+
+    if (existing && existing.is_active) {
+      await BotSubscriberModel.updateLastInteraction(botId, chatId);
+      return;
+    }
+
+    const input = this.buildSubscriberInput(botId, chat, from);
+
+    // create() upserts and reactivates, but replaces metadata - keep what we already know
+    if (existing) {
+      input.metadata = { ...existing.metadata, ...input.metadata };
+    }
+
+    await BotSubscriberModel.create(input);
+  }
+
+  private static buildSubscriberInput(
+    botId: string,
+    chat: TelegramChat,
+    from?: TelegramUser
+  ): CreateBotSubscriberInput {
+    const isPrivate = chat.type === 'private';
+    const username = chat.username || (isPrivate ? from?.username : undefined);
+    const firstName = chat.first_name || (isPrivate ? from?.first_name : undefined);
+    const lastName = chat.last_name || (isPrivate ? from?.last_name : undefined);
+
+    const metadata: Record<string, any> = {};
+    if (chat.title) {
+      metadata['title'] = chat.title;
+    }
+    if (isPrivate && from?.language_code) {
+      metadata['language_code'] = from.language_code;
+    }
+
+    return {
+      bot_id: botId,
+      chat_id: chat.id.toString(),
+      chat_type: chat.type,
+      ...(isPrivate && from && { user_id: from.id.toString() }),
+      ...(username && { username }),
+      ...(firstName && { first_name: firstName }),
+      ...(lastName && { last_name: lastName }),
+      metadata,
+    };
+  }
+}
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { UserModel } from '../models/User';
+import { UserTwoFactorModel } from '../models/UserTwoFactor';
+import { User, UserRole } from '../types/database';
+import { generateTotpSecret, totpUri, verifyTotp } from '../utils/totp';
+
+const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key';
+const SECRET_KEY = process.env['TWO_FACTOR_SECRET'] || process.env['JWT_SECRET'] || 'your-secret-key';
+const ISSUER = process.env['TWO_FACTOR_ISSUER'] || 'Telebotics';
+
+// Roles that can move money or other users' data have to use a second factor
+const MANDATORY_ROLES: UserRole[] = ['admin', 'developer'];
+const CHALLENGE_TTL = '10m';
+const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorChallengePurpose = 'two_factor_login' | 'two_factor_setup';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // SVG data URL of the otpauth:// URI, ready for an <img>
+  qrCode: string;
+}
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+
+// Recovery codes read as xxxxx-xxxxx; the dash is optional when they are typed in
+const generateRecoveryCode = (): string => {
+  const hex = crypto.randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+/**
+ * TOTP second factor. Enrolment stores an encrypted secret that only takes effect once the user proves
+ * their authenticator app produces codes for it; from then on login, disabling and sensitive actions take
+ * a code, or one of the single-use recovery codes handed out on enrolment.
+ *
+ * Between the password and the code, the login is carried by a short-lived challenge token. It is signed
+ * like an access token but names its purpose, which access tokens do not, so it cannot be used as one.
+ */
+export class TwoFactorService {
+  static isRequiredForRole(role: string): boolean {
+    return (MANDATORY_ROLES as string[]).includes(role);
+  }
+
+  static async isEnabled(userId: string): Promise<boolean> {
+    return UserTwoFactorModel.isEnabled(userId);
+  }
+
+  static async getStatus(user: { id: string; role: string }): Promise<TwoFactorStatus> {
+    const enabled = await UserTwoFactorModel.isEnabled(user.id);
+
+    return {
+      enabled,
+      required: this.isRequiredForRole(user.role),
+      recoveryCodesRemaining: enabled ? await UserTwoFactorModel.countRecoveryCodes(user.id) : 0
+    };
+  }
+
+  static createChallenge(user: Pick<User, 'id'>, purpose: TwoFactorChallengePurpose): string {
+    return jwt.sign({ userId: user.id, purpose }, JWT_SECRET, { expiresIn: CHALLENGE_TTL });
+  }
+
+  /**
+   * Returns the user a challenge token was issued to. Throws when it is invalid, expired or was issued
+   * for another purpose.
+   */
+  static verifyChallenge(challengeToken: string, purpose: TwoFactorChallengePurpose): string {
+    try {
+      const decoded = jwt.verify(challengeToken, JWT_SECRET) as any;
+      if (decoded.purpose !== purpose || !decoded.userId) {
+        throw new Error('Wrong purpose');
+      }
+      return decoded.userId;
+    } catch {
+      throw new Error('Invalid or expired challenge');
+    }
+  }
+
+  /**
+   * Generate a new secret for the user to add to their authenticator app. Starting over replaces an
+   * unconfirmed secret; an enabled one has to be disabled first.
+   */
+  static async beginSetup(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorSetup> {
+    const secret = generateTotpSecret();
+
+    const saved = await UserTwoFactorModel.savePendingSecret(user.id, this.encryptSecret(secret));
+    if (!saved) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const otpauthUrl = totpUri(secret, user.email, ISSUER);
+    return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl, { errorCorrectionLevel: 'M' }) };
+  }
+
+  /**
+   * Confirm the enrolment with a code from the app. Returns the recovery codes, which are shown this once.
+   */
+  static async enable(userId: string, code: string): Promise<string[]> {
+    const twoFactor = await UserTwoFactorModel.findByUserId(userId);
+    if (!twoFactor) {
+      throw new Error('Two-factor setup has not been started');
+    }
+    if (twoFactor.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(this.decryptSecret(twoFactor.secret_encrypted), code.trim());
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    const enabled = await UserTwoFactorModel.enable(userId, step, recoveryCodes.map(hashRecoveryCode));
+    if (!enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a code from the app or a recovery code. Either is accepted once: app codes by their time step,
+   * recovery codes by being marked used.
+   */
+  static async verifyCode(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await UserTwoFactorModel.findByUserId(userId);
+    if (!twoFactor?.enabled_at) {
+      return false;
+    }
+
+    const trimmed = code.trim();
+    if (/^\d+$/.test(trimmed)) {
+      const step = verifyTotp(this.decryptSecret(twoFactor.secret_encrypted), trimmed);
+      return step !== null && UserTwoFactorModel.claimStep(userId, step);
+    }
+
+    return UserTwoFactorModel.consumeRecoveryCode(userId, hashRecoveryCode(trimmed));
+  }
+
+  /**
+   * Turn the second factor off. Takes the password as well as a code, so neither a stolen session nor a
+   * stolen phone is enough on its own.
+   */
+  static async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (this.isRequiredForRole(user.role)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+
+    if (!(await UserTwoFactorModel.isEnabled(userId))) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!(await UserModel.verifyPassword(user, password))) {
+      throw new Error('Invalid password');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await UserTwoFactorModel.delete(userId);
+  }
+
+  /**
+   * Replace the recovery codes, invalidating the unused ones
+   */
+  static async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await UserTwoFactorModel.isEnabled(userId))) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await UserTwoFactorModel.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+
+    return recoveryCodes;
+  }
+
+  // Secrets are stored as iv:authTag:ciphertext, hex encoded
+  private static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('hex')).join(':');
+  }
+
+  private static decryptSecret(encryptedSecret: string): string {
+    const [ivHex, authTagHex, encryptedHex] = encryptedSecret.split(':');
+    if (!ivHex || !authTagHex || !encryptedHex) {
+      throw new Error('Invalid encrypted secret format');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), Buffer.from(ivHex, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+    return Buffer.concat([decipher.update(Buffer.from(encryptedHex, 'hex')), decipher.final()]).toString('utf8');
+  }
+
+  private static encryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(SECRET_KEY).digest();
+  }
+}
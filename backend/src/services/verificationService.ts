@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { UserModel } from '../models/User';
+import {
+  IdentityVerificationModel,
+  IdentityVerification,
+  IdentityVerificationDetails,
+  IdentityVerificationStatus,
+  IdentityDocument,
+  CreateIdentityVerificationInput
+} from '../models/IdentityVerification';
+import { NotificationService } from './notificationService';
+import { VerificationLevel } from '../types/database';
+
+// Lowest first; a user only ever moves up
+export const VERIFICATION_LEVELS: VerificationLevel[] = ['unverified', 'email_verified', 'identity_verified', 'business'];
+
+// Outside the public uploads directory: documents are only served to admins through the API
+export const IDENTITY_DOCUMENTS_DIR = process.env['IDENTITY_DOCUMENTS_DIR']
+  || path.join(process.cwd(), 'storage', 'identity-documents');
+
+export const verificationLevelRank = (level: VerificationLevel): number => VERIFICATION_LEVELS.indexOf(level);
+
+export class VerificationService {
+  /**
+   * The level of a user and their latest identity review
+   */
+  static async getStatus(userId: string): Promise<{
+    verification_level: VerificationLevel;
+    email_verified: boolean;
+    latest_request: Omit<IdentityVerification, 'documents'> | null;
+  }> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Stored file names stay server side
+    let latestRequest: Omit<IdentityVerification, 'documents'> | null = null;
+    const latest = await IdentityVerificationModel.findLatestByUserId(userId);
+    if (latest) {
+      const { documents, ...request } = latest;
+      latestRequest = request;
+    }
+
+    return {
+      verification_level: user.verification_level,
+      email_verified: user.email_verified,
+      latest_request: latestRequest
+    };
+  }
+
+  /**
+   * Submit identity documents for review. The stored files are removed again when the request is refused.
+   */
+  static async submit(
+    userId: string,
+    input: Omit<CreateIdentityVerificationInput, 'user_id' | 'documents'>,
+    documents: IdentityDocument[]
+  ): Promise<IdentityVerification> {
+    try {
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+      if (!user.email_verified) {
+        throw new Error('Confirm your email before submitting identity documents');
+      }
+      if (verificationLevelRank(user.verification_level) >= verificationLevelRank(input.requested_level)) {
+        throw new Error('Your account is already verified at this level');
+      }
+      if (documents.length === 0) {
+        throw new Error('At least one document is required');
+      }
+
+      return await IdentityVerificationModel.create({ ...input, user_id: userId, documents });
+    } catch (error) {
+      await this.removeDocuments(documents);
+      throw error;
+    }
+  }
+
+  static async list(filters: {
+    status?: IdentityVerificationStatus;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{ verifications: IdentityVerificationDetails[]; total: number }> {
+    return IdentityVerificationModel.list(filters);
+  }
+
+  /**
+   * Approve a request, raising the user to the level they asked for, or reject it with a reason
+   */
+  static async review(
+    verificationId: string,
+    adminId: string,
+    action: 'approve' | 'reject',
+    notes?: string
+  ): Promise<IdentityVerification> {
+    const verification = await IdentityVerificationModel.findById(verificationId);
+    if (!verification) {
+      throw new Error('Verification request not found');
+    }
+    if (action === 'reject' && !notes) {
+      throw new Error('A reason is required to reject a verification request');
+    }
+
+    const reviewed = await IdentityVerificationModel.review(
+      verificationId,
+      action === 'approve' ? 'approved' : 'rejected',
+      adminId,
+      notes
+    );
+    if (!reviewed) {
+      throw new Error('Verification request has already been reviewed');
+    }
+
+    // A business already verified keeps its level when an older identity request is approved
+    if (action === 'approve'
+      && verificationLevelRank(reviewed.requested_level) > verificationLevelRank(verification.verification_level)) {
+      await UserModel.updateVerificationLevel(reviewed.user_id, reviewed.requested_level);
+    }
+
+    try {
+      await NotificationService.sendVerificationReviewedNotification(
+        reviewed.user_id,
+        action === 'approve',
+        reviewed.requested_level,
+        notes
+      );
+    } catch (error) {
+      console.error(`Failed to send verification notification for request ${reviewed.id}:`, error);
+    }
+
+    return reviewed;
+  }
+
+  /**
+   * Where a submitted document is stored, for an admin to view it
+   */
+  static async getDocument(verificationId: string, index: number): Promise<IdentityDocument & { path: string }> {
+    const verification = await IdentityVerificationModel.findById(verificationId);
+    if (!verification) {
+      throw new Error('Verification request not found');
+    }
+
+    const document = verification.documents[index];
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    return { ...document, path: path.join(IDENTITY_DOCUMENTS_DIR, path.basename(document.filename)) };
+  }
+
+  private static async removeDocuments(documents: IdentityDocument[]): Promise<void> {
+    await Promise.all(documents.map(document =>
+      fs.rm(path.join(IDENTITY_DOCUMENTS_DIR, path.basename(document.filename)), { force: true }).catch(error => {
+        console.error(`Failed to remove identity document ${document.filename}:`, error);
+      })
+    ));
+  }
+}
@@ -0,0 +1,137 @@
+import { TransactionModel } from '../models/Transaction';
+import { UserModel } from '../models/User';
+import { UserSessionModel } from '../models/UserSession';
+import { WithdrawalRiskLevel, WithdrawalRiskReason } from '../models/WithdrawalRiskAssessment';
+import type { WithdrawalRequest } from './withdrawalService';
+
+export interface WithdrawalRiskScore {
+  score: number;
+  level: WithdrawalRiskLevel;
+  reasons: WithdrawalRiskReason[];
+  hold: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Points each signal adds to the score; the score is capped at 100
+const RISK_POINTS = {
+  new_account: 25,
+  young_account: 10,
+  recent_password_reset: 25,
+  shared_destination: 35,
+  new_destination: 15,
+  referral_income: 20,
+  refunded_commissions: 20,
+  many_login_addresses: 15,
+  new_login_address: 10
+};
+
+const NEW_ACCOUNT_DAYS = 7;
+const YOUNG_ACCOUNT_DAYS = 30;
+const PASSWORD_RESET_DAYS = 3;
+// Income and refunds are looked at over this window
+const INCOME_WINDOW_DAYS = 90;
+// More than half of the income from referrals
+const REFERRAL_INCOME_SHARE = 0.5;
+const LOGIN_WINDOW_DAYS = 30;
+const MANY_LOGIN_ADDRESSES = 3;
+const NEW_LOGIN_ADDRESS_HOURS = 48;
+
+const MEDIUM_RISK_SCORE = 30;
+const DEFAULT_HOLD_SCORE = 60;
+
+// Scores at or above this are high risk and held for review
+const getHoldScore = (): number => Number(process.env['WITHDRAWAL_RISK_HOLD_SCORE']) || DEFAULT_HOLD_SCORE;
+
+/**
+ * A stable key for where a withdrawal is paid out to, so withdrawals to the same place can be matched
+ */
+export const payoutDestination = (
+  method: WithdrawalRequest['method'],
+  details: WithdrawalRequest['details']
+): string | null => {
+  switch (method) {
+    case 'paypal':
+      return details.paypal?.email ? `paypal:${details.paypal.email.trim().toLowerCase()}` : null;
+    case 'crypto':
+      return details.crypto?.address
+        ? `crypto:${details.crypto.currency.toUpperCase()}:${details.crypto.address.trim()}`
+        : null;
+    case 'bank_transfer':
+      return details.bankAccount?.accountNumber
+        ? `bank_transfer:${details.bankAccount.routingNumber}:${details.bankAccount.accountNumber}`
+        : null;
+    default:
+      return null;
+  }
+};
+
+export class WithdrawalRiskService {
+  /**
+   * Score a withdrawal a user is requesting from what is already known about the account
+   */
+  static async assess(userId: string, destination: string | null): Promise<WithdrawalRiskScore> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const now = Date.now();
+    const incomeSince = new Date(now - INCOME_WINDOW_DAYS * DAY_MS);
+
+    const [destinationHistory, income, refunded, addresses] = await Promise.all([
+      destination ? TransactionModel.getDestinationHistory(userId, destination) : null,
+      TransactionModel.getIncomeSince(userId, incomeSince),
+      TransactionModel.getRefundedCommissions(userId, incomeSince),
+      UserSessionModel.getLoginAddresses(userId, new Date(now - LOGIN_WINDOW_DAYS * DAY_MS))
+    ]);
+
+    const reasons: WithdrawalRiskReason[] = [];
+    const add = (code: keyof typeof RISK_POINTS, message: string) => {
+      reasons.push({ code, points: RISK_POINTS[code], message });
+    };
+
+    const accountAgeDays = Math.floor((now - new Date(user.created_at).getTime()) / DAY_MS);
+    if (accountAgeDays < NEW_ACCOUNT_DAYS) {
+      add('new_account', `Account created ${accountAgeDays} days ago`);
+    } else if (accountAgeDays < YOUNG_ACCOUNT_DAYS) {
+      add('young_account', `Account created ${accountAgeDays} days ago`);
+    }
+
+    if (user.password_changed_at
+      && now - new Date(user.password_changed_at).getTime() < PASSWORD_RESET_DAYS * DAY_MS) {
+      add('recent_password_reset', `Password reset within the last ${PASSWORD_RESET_DAYS} days`);
+    }
+
+    if (destinationHistory && destinationHistory.other_accounts > 0) {
+      add('shared_destination', `Payout destination used by ${destinationHistory.other_accounts} other account(s)`);
+    } else if (!destinationHistory || destinationHistory.completed_withdrawals === 0) {
+      add('new_destination', 'Nothing has been paid out to this destination before');
+    }
+
+    if (income.total > 0 && income.referral / income.total > REFERRAL_INCOME_SHARE) {
+      add('referral_income', `${Math.round(income.referral / income.total * 100)}% of income in the last ${INCOME_WINDOW_DAYS} days is referral commission`);
+    }
+
+    if (refunded.count > 0) {
+      add('refunded_commissions', `${refunded.count} commission(s) totalling ${refunded.amount.toFixed(2)} refunded after they were paid`);
+    }
+
+    if (addresses.length >= MANY_LOGIN_ADDRESSES) {
+      add('many_login_addresses', `Logged in from ${addresses.length} IP addresses in the last ${LOGIN_WINDOW_DAYS} days`);
+    }
+
+    // The latest login came from an address first seen only recently
+    const latest = addresses[0];
+    if (latest && addresses.length > 1
+      && now - new Date(latest.first_seen).getTime() < NEW_LOGIN_ADDRESS_HOURS * 60 * 60 * 1000) {
+      add('new_login_address', `Latest login from a new IP address (${latest.ip_address})`);
+    }
+
+    const score = Math.min(100, reasons.reduce((sum, reason) => sum + reason.points, 0));
+    const holdScore = getHoldScore();
+    const level: WithdrawalRiskLevel = score >= holdScore ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+
+    return { score, level, reasons, hold: level === 'high' };
+  }
+}
@@ -1,15 +1,31 @@
+import { withTransaction } from '../config/database';
 import { TransactionModel } from '../models/Transaction';
-import { Transaction } from '../types/database';
+import { PayoutModel, Payout, PayoutProviderName } from '../models/Payout';
+import { PaymentDisputeModel } from '../models/PaymentDispute';
+import { WithdrawalRiskAssessmentModel } from '../models/WithdrawalRiskAssessment';
+import { UserModel } from '../models/User';
+import { CurrencyCode, Transaction, VerificationLevel } from '../types/database';
+import { CurrencyService, BASE_CURRENCY, formatMoney, getReportingCurrency } from './currencyService';
+import { LedgerService } from './ledgerService';
+import { InvoiceService } from './invoiceService';
+import { NotificationService } from './notificationService';
+import { getPayoutProvider, selectPayoutProvider, PayoutResult } from './payoutProviders';
+import { VERIFICATION_LEVELS, verificationLevelRank } from './verificationService';
+import { WithdrawalRiskService, payoutDestination } from './withdrawalRiskService';
 
 export interface WithdrawalRequest {
   userId: string;
   amount: number;
+  // The wallet the amount is withdrawn from; USD when not given
+  currency?: CurrencyCode;
   method: 'bank_transfer' | 'paypal' | 'crypto';
   details: {
     bankAccount?: {
       accountNumber: string;
       routingNumber: string;
       accountHolderName: string;
+      // Connected account the payout is transferred to through Stripe Connect
+      stripeAccountId?: string;
     };
     paypal?: {
       email: string;
@@ -21,6 +37,12 @@ export interface WithdrawalRequest {
   };
 }
 
+const TOP_UP_DISPUTE_REASON = 'Withdrawals are paused while a top-up of this account is disputed';
+
+// DECIMAL columns come back from pg as strings
+const toAmount = (value: number | string): number => Math.round(Number(value) * 100) / 100;
+
+// Amounts are in USD; withdrawals in other currencies are checked against them converted at the current rates
 export interface WithdrawalLimits {
   minAmount: number;
   maxAmount: number;
@@ -29,34 +51,116 @@ export interface WithdrawalLimits {
   commission: number; // Percentage
 }
 
+// The limits of a user, with what they depend on so the user can be told how to raise them
+export interface UserWithdrawalLimits extends WithdrawalLimits {
+  verificationLevel: VerificationLevel;
+  accountAgeDays: number;
+  // Set while the account is too young for the full limits of its level
+  newAccountUntil?: string;
+  // Commission percentage points taken off for established accounts
+  commissionDiscount: number;
+  nextLevel?: {
+    level: VerificationLevel;
+    limits: WithdrawalLimits;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accounts younger than this get half the limits of their level
+const NEW_ACCOUNT_DAYS = 30;
+// Accounts older than this pay a lower commission
+const ESTABLISHED_ACCOUNT_DAYS = 365;
+const ESTABLISHED_COMMISSION_DISCOUNT = 0.5;
+
 export class WithdrawalService {
-  private static readonly DEFAULT_LIMITS: WithdrawalLimits = {
-    minAmount: 10,
-    maxAmount: 10000,
-    dailyLimit: 1000,
-    monthlyLimit: 5000,
-    commission: 2.5 // 2.5%
+  private static readonly LEVEL_LIMITS: Record<VerificationLevel, WithdrawalLimits> = {
+    unverified: {
+      minAmount: 10,
+      maxAmount: 100,
+      dailyLimit: 100,
+      monthlyLimit: 200,
+      commission: 5
+    },
+    email_verified: {
+      minAmount: 10,
+      maxAmount: 1000,
+      dailyLimit: 500,
+      monthlyLimit: 2000,
+      commission: 3.5
+    },
+    identity_verified: {
+      minAmount: 10,
+      maxAmount: 10000,
+      dailyLimit: 1000,
+      monthlyLimit: 5000,
+      commission: 2.5 // 2.5%
+    },
+    business: {
+      minAmount: 10,
+      maxAmount: 50000,
+      dailyLimit: 20000,
+      monthlyLimit: 100000,
+      commission: 1.5
+    }
   };
 
   /**
-   * Get withdrawal limits for a user
+   * Get withdrawal limits for a user: set by their verification level, halved while the account is new,
+   * with a lower commission once it is established
    */
-  static async getWithdrawalLimits(_userId: string): Promise<WithdrawalLimits> {
-    // In the future, this could be based on user verification level, history, etc.
-    return this.DEFAULT_LIMITS;
+  static async getWithdrawalLimits(userId: string): Promise<UserWithdrawalLimits> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const level = user.verification_level || 'unverified';
+    const createdAt = new Date(user.created_at).getTime();
+    const accountAgeDays = Math.floor((Date.now() - createdAt) / DAY_MS);
+    const limits = { ...this.LEVEL_LIMITS[level] };
+
+    const isNewAccount = accountAgeDays < NEW_ACCOUNT_DAYS;
+    if (isNewAccount) {
+      limits.maxAmount = Math.max(limits.minAmount, limits.maxAmount / 2);
+      limits.dailyLimit = limits.dailyLimit / 2;
+      limits.monthlyLimit = limits.monthlyLimit / 2;
+    }
+
+    const commissionDiscount = accountAgeDays >= ESTABLISHED_ACCOUNT_DAYS ? ESTABLISHED_COMMISSION_DISCOUNT : 0;
+    limits.commission = limits.commission - commissionDiscount;
+
+    const nextLevel = VERIFICATION_LEVELS[verificationLevelRank(level) + 1];
+
+    return {
+      ...limits,
+      verificationLevel: level,
+      accountAgeDays,
+      ...(isNewAccount && { newAccountUntil: new Date(createdAt + NEW_ACCOUNT_DAYS * DAY_MS).toISOString() }),
+      commissionDiscount,
+      ...(nextLevel && { nextLevel: { level: nextLevel, limits: this.LEVEL_LIMITS[nextLevel] } })
+    };
   }
 
   /**
-   * Check if user can withdraw the requested amount
+   * Check if user can withdraw the requested amount from their wallet in a currency
    */
-  static async canWithdraw(userId: string, amount: number): Promise<{
+  static async canWithdraw(userId: string, amount: number, currency: string = BASE_CURRENCY): Promise<{
     canWithdraw: boolean;
     reason?: string;
     availableBalance?: number;
     limits?: WithdrawalLimits;
   }> {
-    // Check user balance
-    const balance = await TransactionModel.getUserBalance(userId);
+    // A disputed top-up may still be charged back
+    if (await PaymentDisputeModel.hasOpenTopUpDispute(userId)) {
+      return {
+        canWithdraw: false,
+        reason: TOP_UP_DISPUTE_REASON
+      };
+    }
+
+    // Check user balance; pending withdrawals have already left the wallet
+    const balance = await LedgerService.getUserBalance(userId, currency);
     if (balance < amount) {
       return {
         canWithdraw: false,
@@ -65,27 +169,34 @@ export class WithdrawalService {
       };
     }
 
-    // Get withdrawal limits
+    // Get withdrawal limits, converted to the currency of the withdrawal
     const limits = await this.getWithdrawalLimits(userId);
+    const rates = await CurrencyService.getRates();
+    const inCurrency = (usdAmount: number) => CurrencyService.convert(usdAmount, BASE_CURRENCY, currency, rates);
 
     // Check minimum amount
-    if (amount < limits.minAmount) {
+    if (amount < inCurrency(limits.minAmount)) {
       return {
         canWithdraw: false,
-        reason: `Minimum withdrawal amount is $${limits.minAmount}`,
+        reason: `Minimum withdrawal amount is ${formatMoney(inCurrency(limits.minAmount), currency)}`,
         limits
       };
     }
 
     // Check maximum amount
-    if (amount > limits.maxAmount) {
+    if (amount > inCurrency(limits.maxAmount)) {
       return {
         canWithdraw: false,
-        reason: `Maximum withdrawal amount is $${limits.maxAmount}`,
+        reason: `Maximum withdrawal amount is ${formatMoney(inCurrency(limits.maxAmount), currency)}`,
         limits
       };
     }
 
+    // Earlier withdrawals count in the currency of this one, at the rates of when they were made
+    const totalOf = (withdrawals: Transaction[]) => withdrawals
+      .filter(t => t.status === 'completed' || t.status === 'pending')
+      .reduce((sum, t) => sum + CurrencyService.convertTransaction(t, currency, rates), 0);
+
     // Check daily limit
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -100,14 +211,12 @@ export class WithdrawalService {
       limit: 1000
     });
 
-    const dailyTotal = dailyWithdrawals.transactions
-      .filter(t => t.status === 'completed' || t.status === 'pending')
-      .reduce((sum, t) => sum + t.amount, 0);
+    const dailyTotal = totalOf(dailyWithdrawals.transactions);
 
-    if (dailyTotal + amount > limits.dailyLimit) {
+    if (dailyTotal + amount > inCurrency(limits.dailyLimit)) {
       return {
         canWithdraw: false,
-        reason: `Daily withdrawal limit of $${limits.dailyLimit} would be exceeded`,
+        reason: `Daily withdrawal limit of ${formatMoney(inCurrency(limits.dailyLimit), currency)} would be exceeded`,
         limits
       };
     }
@@ -124,14 +233,12 @@ export class WithdrawalService {
       limit: 1000
     });
 
-    const monthlyTotal = monthlyWithdrawals.transactions
-      .filter(t => t.status === 'completed' || t.status === 'pending')
-      .reduce((sum, t) => sum + t.amount, 0);
+    const monthlyTotal = totalOf(monthlyWithdrawals.transactions);
 
-    if (monthlyTotal + amount > limits.monthlyLimit) {
+    if (monthlyTotal + amount > inCurrency(limits.monthlyLimit)) {
       return {
         canWithdraw: false,
-        reason: `Monthly withdrawal limit of $${limits.monthlyLimit} would be exceeded`,
+        reason: `Monthly withdrawal limit of ${formatMoney(inCurrency(limits.monthlyLimit), currency)} would be exceeded`,
         limits
       };
     }
@@ -147,34 +254,52 @@ export class WithdrawalService {
    * Create a withdrawal request
    */
   static async createWithdrawalRequest(request: WithdrawalRequest): Promise<Transaction> {
-    const { userId, amount, method, details } = request;
+    const { userId, amount, currency = BASE_CURRENCY, method, details } = request;
 
     // Validate withdrawal eligibility
-    const eligibility = await this.canWithdraw(userId, amount);
+    const eligibility = await this.canWithdraw(userId, amount, currency);
     if (!eligibility.canWithdraw) {
       throw new Error(eligibility.reason || 'Withdrawal not allowed');
     }
 
     // Calculate commission
     const limits = eligibility.limits!;
-    const commission = (amount * limits.commission) / 100;
+    const commission = Math.round(amount * limits.commission) / 100;
     const netAmount = amount - commission;
 
-    // Create withdrawal transaction
-    const transaction = await TransactionModel.createWithdrawal(
-      userId,
-      amount,
-      `Withdrawal request via ${method}`,
-      {
-        withdrawal_method: method,
-        withdrawal_details: details,
-        commission_amount: commission,
-        net_amount: netAmount,
-        status: 'pending_review'
-      }
-    );
-
-    return transaction;
+    const destination = payoutDestination(method, details);
+    const risk = await WithdrawalRiskService.assess(userId, destination);
+
+    // Create withdrawal transaction, holding the amount back from the balance until it is processed. The
+    // assessment is written in the same database transaction, so no withdrawal exists without its hold.
+    return withTransaction(async client => {
+      const transaction = await LedgerService.requestWithdrawal(
+        userId,
+        amount,
+        `Withdrawal request via ${method}`,
+        {
+          withdrawal_method: method,
+          withdrawal_details: details,
+          ...(destination && { payout_destination: destination }),
+          commission_amount: commission,
+          net_amount: netAmount,
+          status: 'pending_review'
+        },
+        currency,
+        client
+      );
+
+      // The score stays out of the transaction metadata, which the user can see
+      await WithdrawalRiskAssessmentModel.create({
+        transaction_id: transaction.id,
+        score: risk.score,
+        level: risk.level,
+        reasons: risk.reasons,
+        held: risk.hold
+      }, client);
+
+      return transaction;
+    });
   }
 
   /**
@@ -214,12 +339,15 @@ export class WithdrawalService {
   }
 
   /**
-   * Process withdrawal (admin function)
+   * Process withdrawal (admin function). Approving sends the payout through its provider; the withdrawal
+   * is completed when the provider pays it, stays pending while the provider is processing it, and fails
+   * with the amount returned to the balance when the provider rejects it.
    */
   static async processWithdrawal(
     transactionId: string,
     action: 'approve' | 'reject',
-    adminNote?: string
+    adminNote?: string,
+    adminId?: string
   ): Promise<Transaction> {
     const transaction = await TransactionModel.findById(transactionId);
     if (!transaction) {
@@ -234,15 +362,12 @@ export class WithdrawalService {
       throw new Error('Withdrawal has already been processed');
     }
 
-    let newStatus: 'completed' | 'failed';
-    let updatedMetadata = { ...transaction.metadata };
+    const updatedMetadata: Record<string, any> = {};
 
     if (action === 'approve') {
-      newStatus = 'completed';
       updatedMetadata['admin_approved'] = true;
       updatedMetadata['processed_at'] = new Date().toISOString();
     } else {
-      newStatus = 'failed';
       updatedMetadata['admin_rejected'] = true;
       updatedMetadata['rejection_reason'] = adminNote || 'Rejected by admin';
     }
@@ -251,13 +376,83 @@ export class WithdrawalService {
       updatedMetadata['admin_note'] = adminNote;
     }
 
-    const updatedTransaction = await TransactionModel.update(transactionId, {
-      status: newStatus,
-      processed_at: new Date(),
-      metadata: updatedMetadata
-    });
+    if (action === 'approve') {
+      // Withdrawals of a suspended account are paused until it is reinstated; they can still be rejected
+      const owner = await UserModel.findById(transaction.user_id);
+      if (owner?.status === 'suspended') {
+        throw new Error('Withdrawals of a suspended account are paused');
+      }
+      if (await PaymentDisputeModel.hasOpenTopUpDispute(transaction.user_id)) {
+        throw new Error(TOP_UP_DISPUTE_REASON);
+      }
+
+      // A withdrawal held as high risk is let through only with a note saying why
+      const risk = await WithdrawalRiskAssessmentModel.findByTransactionId(transactionId);
+      if (risk?.held && !risk.released_at) {
+        if (!adminNote) {
+          throw new Error('A note is required to approve a withdrawal held for risk review');
+        }
+        await WithdrawalRiskAssessmentModel.release(transactionId, adminId);
+      }
+
+      return this.sendPayout(transaction, updatedMetadata, adminId);
+    }
+
+    // A rejected withdrawal goes back to the user's balance, unless it is being paid out by now
+    return LedgerService.releaseWithdrawal(transactionId, 'failed', updatedMetadata);
+  }
+
+  /**
+   * Apply the final status a provider reported for a payout. Returns null for payouts that are unknown
+   * or were settled already, so repeated callbacks are harmless.
+   */
+  static async handlePayoutUpdate(
+    provider: PayoutProviderName,
+    referenceId: string,
+    update: { status: 'paid' | 'failed'; failureReason?: string; response?: Record<string, any> }
+  ): Promise<Transaction | null> {
+    const payout = await PayoutModel.findByReference(provider, referenceId);
+    if (!payout) {
+      console.warn(`Payout update for unknown ${provider} reference ${referenceId}`);
+      return null;
+    }
 
-    return updatedTransaction!;
+    if (payout.status !== 'processing') {
+      // A payout returned after it was paid has left the platform; it is reconciled by hand
+      if (payout.status === 'paid' && update.status === 'failed') {
+        console.warn(`Paid payout ${payout.id} was reported failed by ${provider}: ${update.failureReason}`);
+      }
+      return null;
+    }
+
+    return this.finishPayout(payout, { ...update, referenceId });
+  }
+
+  /**
+   * Record the outcome of a payout an admin sent by hand
+   */
+  static async completeManualPayout(
+    payoutId: string,
+    status: 'paid' | 'failed',
+    options: { referenceId?: string; reason?: string } = {}
+  ): Promise<Transaction> {
+    const payout = await PayoutModel.findById(payoutId);
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+    if (payout.provider !== 'manual') {
+      throw new Error(`Payout is sent through ${payout.provider} and is settled by its callbacks`);
+    }
+
+    const settled = await this.finishPayout(payout, {
+      status,
+      ...(options.referenceId && { referenceId: options.referenceId }),
+      ...(status === 'failed' && { failureReason: options.reason || 'Manual payout failed' })
+    });
+    if (!settled) {
+      throw new Error('Payout has already been settled');
+    }
+    return settled;
   }
 
   /**
@@ -296,7 +491,7 @@ export class WithdrawalService {
   }
 
   /**
-   * Get withdrawal statistics
+   * Get withdrawal statistics, with amounts in the reporting currency
    */
   static async getWithdrawalStats(filters: {
     start_date?: Date;
@@ -325,6 +520,8 @@ export class WithdrawalService {
     const allWithdrawals = await TransactionModel.list(listFilters);
 
     const withdrawals = allWithdrawals.transactions;
+    const reportingCurrency = getReportingCurrency();
+    const rates = await CurrencyService.getRates();
 
     const stats = {
       total_withdrawals: withdrawals.length,
@@ -339,24 +536,29 @@ export class WithdrawalService {
     };
 
     withdrawals.forEach(withdrawal => {
-      stats.total_amount += withdrawal.amount;
+      const amount = CurrencyService.convertTransaction(withdrawal, reportingCurrency, rates);
+      stats.total_amount += amount;
       
-      const commission = withdrawal.metadata?.['commission_amount'] || 0;
+      const commission = CurrencyService.convertTransaction(
+        { ...withdrawal, amount: withdrawal.metadata?.['commission_amount'] || 0 },
+        reportingCurrency,
+        rates
+      );
       stats.total_commission += commission;
 
       switch (withdrawal.status) {
         case 'pending':
           stats.pending_withdrawals++;
-          stats.pending_amount += withdrawal.amount;
+          stats.pending_amount += amount;
           break;
         case 'completed':
           stats.completed_withdrawals++;
-          stats.completed_amount += withdrawal.amount;
+          stats.completed_amount += amount;
           break;
         case 'failed':
         case 'cancelled':
           stats.rejected_withdrawals++;
-          stats.rejected_amount += withdrawal.amount;
+          stats.rejected_amount += amount;
           break;
       }
     });
@@ -385,16 +587,149 @@ export class WithdrawalService {
       throw new Error('Can only cancel pending withdrawals');
     }
 
-    const updatedTransaction = await TransactionModel.update(transactionId, {
-      status: 'cancelled',
-      processed_at: new Date(),
+    // Refused when the withdrawal is being paid out by now
+    return LedgerService.releaseWithdrawal(transactionId, 'cancelled', {
+      cancelled_by_user: true,
+      cancelled_at: new Date().toISOString()
+    });
+  }
+
+  private static async sendPayout(
+    transaction: Transaction,
+    approvalMetadata: Record<string, any>,
+    adminId?: string
+  ): Promise<Transaction> {
+    const method = transaction.metadata?.['withdrawal_method'];
+    const details = transaction.metadata?.['withdrawal_details'] || {};
+    // The commission stays with the platform, so the provider sends the net amount
+    const amount = toAmount(transaction.metadata?.['net_amount'] ?? transaction.amount);
+
+    let payout = await PayoutModel.create({
+      transaction_id: transaction.id,
+      provider: selectPayoutProvider(method, details).name,
+      amount,
+      currency: transaction.currency,
+      ...(adminId && { approved_by: adminId })
+    });
+
+    if (!payout) {
+      // A payout whose provider never answered is sent again under the same id, which the providers
+      // use as the idempotency key
+      const existing = await PayoutModel.findByTransactionId(transaction.id);
+      if (!existing) {
+        throw new Error('Withdrawal has already been processed');
+      }
+      if (existing.status !== 'processing' || existing.reference_id) {
+        throw new Error('Withdrawal is already being paid out');
+      }
+      payout = existing;
+    }
+
+    let result: PayoutResult;
+    try {
+      result = await getPayoutProvider(payout.provider).send({
+        payoutId: payout.id,
+        transactionId: transaction.id,
+        userId: transaction.user_id,
+        amount: toAmount(payout.amount),
+        currency: payout.currency,
+        method,
+        details
+      });
+    } catch (error: any) {
+      await PayoutModel.update(payout.id, { failure_reason: error.message || 'Payout provider error' });
+      throw new Error(`Payout via ${payout.provider} could not be confirmed, approve it again to retry: ${error.message}`);
+    }
+
+    if (result.status !== 'processing') {
+      const settled = await this.finishPayout(payout, { ...result, status: result.status }, approvalMetadata);
+      return settled!;
+    }
+
+    await PayoutModel.update(payout.id, {
+      ...(result.referenceId && { reference_id: result.referenceId }),
+      ...(result.response && { provider_response: result.response }),
+      failure_reason: null
+    });
+
+    const updated = await TransactionModel.update(transaction.id, {
       metadata: {
         ...transaction.metadata,
-        cancelled_by_user: true,
-        cancelled_at: new Date().toISOString()
+        ...approvalMetadata,
+        payout_id: payout.id,
+        payout_provider: payout.provider,
+        payout_status: 'processing',
+        ...(result.referenceId && { payout_reference_id: result.referenceId })
       }
     });
+    return updated!;
+  }
+
+  // Settle the withdrawal of a payout that reached its final status: completed when paid, failed with the
+  // amount returned to the balance otherwise
+  private static async finishPayout(
+    payout: Payout,
+    result: { status: 'paid' | 'failed'; referenceId?: string; failureReason?: string; response?: Record<string, any> },
+    metadata: Record<string, any> = {}
+  ): Promise<Transaction | null> {
+    const finished = await PayoutModel.finish(payout.id, result.status, {
+      ...(result.referenceId && { reference_id: result.referenceId }),
+      ...(result.failureReason && { failure_reason: result.failureReason }),
+      ...(result.response && { provider_response: result.response })
+    });
+    if (!finished) {
+      return null;
+    }
 
-    return updatedTransaction!;
+    const payoutMetadata = {
+      ...metadata,
+      payout_id: finished.id,
+      payout_provider: finished.provider,
+      payout_status: finished.status,
+      ...(finished.reference_id && { payout_reference_id: finished.reference_id })
+    };
+
+    let transaction: Transaction;
+    try {
+      transaction = result.status === 'paid'
+        ? await LedgerService.completeWithdrawal(finished.transaction_id, payoutMetadata)
+        : await LedgerService.releaseWithdrawal(finished.transaction_id, 'failed', {
+          ...payoutMetadata,
+          payout_failure_reason: finished.failure_reason
+        });
+    } catch (error) {
+      // Leave the payout processing so the callback (or the admin) can settle it again
+      await PayoutModel.update(finished.id, { status: 'processing' });
+      throw error;
+    }
+
+    if (result.status === 'paid') {
+      try {
+        await InvoiceService.issueForTransaction(transaction);
+      } catch (error) {
+        console.error(`Failed to issue the receipt of withdrawal ${transaction.id}:`, error);
+      }
+    }
+
+    try {
+      if (result.status === 'paid') {
+        await NotificationService.sendWithdrawalCompletedNotification(
+          transaction.user_id,
+          toAmount(finished.amount),
+          finished.currency
+        );
+      } else {
+        await NotificationService.sendWithdrawalFailedNotification(
+          transaction.user_id,
+          toAmount(transaction.amount),
+          transaction.currency,
+          finished.failure_reason || 'Payout failed'
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to send payout notification for withdrawal ${transaction.id}:`, error);
+    }
+
+    return transaction;
   }
 }
\ No newline at end of file
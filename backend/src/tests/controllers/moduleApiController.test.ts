@@ -0,0 +1,207 @@
+import { Response } from 'express';
+import { ModuleApiController } from '../../controllers/moduleApiController';
+import { ModuleApiRequest } from '../../middleware/moduleApiMiddleware';
+import { BotModel } from '../../models/Bot';
+import { BotSubscriberModel } from '../../models/BotSubscriber';
+import { ModuleActivationStateModel } from '../../models/ModuleActivationState';
+import { TelegramService } from '../../services/telegramService';
+
+jest.mock('../../models/Bot', () => ({
+  BotModel: {
+    findById: jest.fn(),
+    getDecryptedToken: jest.fn(),
+  },
+}));
+jest.mock('../../models/BotSubscriber');
+jest.mock('../../models/ModuleActivationState');
+jest.mock('../../services/telegramService');
+
+const mockBotModel = BotModel as jest.Mocked<typeof BotModel>;
+const mockBotSubscriberModel = BotSubscriberModel as jest.Mocked<typeof BotSubscriberModel>;
+const mockStateModel = ModuleActivationStateModel as jest.Mocked<typeof ModuleActivationStateModel>;
+const mockTelegramService = TelegramService as jest.Mocked<typeof TelegramService>;
+
+describe('ModuleApiController', () => {
+  let mockReq: Partial<ModuleApiRequest>;
+  let mockRes: Partial<Response>;
+
+  const mockActivation = {
+    id: 'activation-1',
+    bot_id: 'bot-1',
+    module_id: 'module-1',
+    markup_percentage: 0,
+    api_key: 'module-api-key',
+    status: 'active' as const,
+    settings: { greeting: 'Hi' },
+    activated_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+    bot_name: 'Test Bot',
+    telegram_bot_id: '123456789',
+    module_name: 'Greeter',
+    owner_status: 'active' as const
+  };
+
+  const mockSubscriber = {
+    id: 'sub-1',
+    bot_id: 'bot-1',
+    chat_id: '42',
+    chat_type: 'private' as const,
+    is_active: true,
+    subscribed_at: new Date(),
+    last_interaction: new Date(),
+    metadata: {},
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    mockReq = {
+      moduleActivation: mockActivation,
+      body: {},
+      params: {},
+      query: {},
+    };
+
+    mockRes = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('getSettings', () => {
+    it('should return the activation settings', async () => {
+      ModuleApiController.getSettings(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({
+          activation_id: 'activation-1',
+          bot_id: 'bot-1',
+          settings: { greeting: 'Hi' },
+        }),
+      });
+    });
+  });
+
+  describe('getSubscribers', () => {
+    it('should paginate the active chat ids of the bot', async () => {
+      mockReq.query = { limit: '2', offset: '1' };
+      mockBotSubscriberModel.findActiveChatIds.mockResolvedValue(['2', '3']);
+      mockBotSubscriberModel.getSubscriberCount.mockResolvedValue(4);
+
+      await ModuleApiController.getSubscribers(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockBotSubscriberModel.findActiveChatIds).toHaveBeenCalledWith('bot-1', { limit: 2, offset: 1 });
+      expect(mockBotSubscriberModel.getSubscriberCount).toHaveBeenCalledWith('bot-1');
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          chat_ids: ['2', '3'],
+          pagination: { limit: 2, offset: 1, total: 4 },
+        },
+      });
+    });
+  });
+
+  describe('sendMessage', () => {
+    beforeEach(() => {
+      mockBotModel.findById.mockResolvedValue({
+        id: 'bot-1',
+        user_id: 'user-1',
+        telegram_bot_id: '123456789',
+        name: 'Test Bot',
+        token_hash: 'encrypted-token',
+        status: 'active',
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      mockBotModel.getDecryptedToken.mockResolvedValue('bot-token');
+    });
+
+    it('should send a message to an active subscriber', async () => {
+      mockReq.body = { chat_id: 42, text: 'Hello', parse_mode: 'HTML' };
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue(mockSubscriber);
+      mockTelegramService.sendMessage.mockResolvedValue(true);
+
+      await ModuleApiController.sendMessage(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockBotSubscriberModel.findByBotAndChat).toHaveBeenCalledWith('bot-1', '42');
+      expect(mockTelegramService.sendMessage).toHaveBeenCalledWith('bot-token', 42, 'Hello', { parse_mode: 'HTML' });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should refuse chats that are not subscribers of the bot', async () => {
+      mockReq.body = { chat_id: '99', text: 'Hello' };
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue(null);
+
+      await ModuleApiController.sendMessage(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(mockTelegramService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should validate the message body', async () => {
+      mockReq.body = { chat_id: '42' };
+
+      await ModuleApiController.sendMessage(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockBotModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setState', () => {
+    it('should create a new state entry', async () => {
+      mockReq.params = { key: 'counter' };
+      mockReq.body = { value: { count: 1 } };
+      mockStateModel.get.mockResolvedValue(null);
+      mockStateModel.count.mockResolvedValue(0);
+      mockStateModel.set.mockResolvedValue({
+        activation_id: 'activation-1',
+        key: 'counter',
+        value: { count: 1 },
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+
+      await ModuleApiController.setState(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockStateModel.set).toHaveBeenCalledWith('activation-1', 'counter', { count: 1 });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should reject invalid keys', async () => {
+      mockReq.params = { key: 'bad key!' };
+      mockReq.body = { value: 1 };
+
+      await ModuleApiController.setState(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockStateModel.set).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-activation key limit', async () => {
+      mockReq.params = { key: 'new-key' };
+      mockReq.body = { value: 'x' };
+      mockStateModel.get.mockResolvedValue(null);
+      mockStateModel.count.mockResolvedValue(100);
+
+      await ModuleApiController.setState(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(409);
+      expect(mockStateModel.set).not.toHaveBeenCalled();
+    });
+
+    it('should reject oversized values', async () => {
+      mockReq.params = { key: 'blob' };
+      mockReq.body = { value: 'x'.repeat(17 * 1024) };
+
+      await ModuleApiController.setState(mockReq as ModuleApiRequest, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(413);
+    });
+  });
+});
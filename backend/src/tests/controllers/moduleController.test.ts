@@ -37,6 +37,7 @@ describe('ModuleController', () => {
           description: 'Test Description',
           category: 'Test',
           price: 29.99,
+          currency: 'USD' as const,
           developer_id: 'dev-1',
           status: 'approved' as const,
           code_url: 'https://example.com/code',
@@ -144,6 +145,7 @@ describe('ModuleController', () => {
           description: 'Popular Description',
           category: 'Popular',
           price: 19.99,
+          currency: 'USD' as const,
           developer_id: 'dev-1',
           status: 'approved' as const,
           code_url: 'https://example.com/code',
@@ -197,6 +199,7 @@ describe('ModuleController', () => {
           description: 'Search Description',
           category: 'Search',
           price: 15.99,
+          currency: 'USD' as const,
           developer_id: 'dev-1',
           status: 'approved' as const,
           code_url: 'https://example.com/code',
@@ -265,6 +268,7 @@ describe('ModuleController', () => {
         description: 'Test Description',
         category: 'Test',
         price: 29.99,
+        currency: 'USD' as const,
         developer_id: 'dev-1',
         status: 'approved' as const,
         code_url: 'https://example.com/code',
@@ -329,6 +333,7 @@ describe('ModuleController', () => {
         description: 'Test Description',
         category: 'Test',
         price: 29.99,
+        currency: 'USD' as const,
         developer_id: 'dev-1',
         status: 'pending' as const,
         code_url: 'https://example.com/code',
@@ -364,6 +369,7 @@ describe('ModuleController', () => {
         description: 'Test Description',
         category: 'Test',
         price: 29.99,
+        currency: 'USD' as const,
         developer_id: 'dev-1',
         status: 'approved' as const,
         code_url: 'https://example.com/code',
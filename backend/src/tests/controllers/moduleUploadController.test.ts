@@ -35,6 +35,7 @@ describe('Module Upload Controller', () => {
         description: 'A test module',
         category: 'Testing',
         price: 29.99,
+        currency: 'USD' as const,
         status: 'pending' as const,
         code_url: 'https://example.com/code',
         documentation_url: 'https://docs.example.com',
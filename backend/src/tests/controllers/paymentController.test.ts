@@ -2,11 +2,13 @@ import request from 'supertest';
 import app from '../../index';
 import { paymentService } from '../../services/paymentService';
 import { TransactionModel } from '../../models/Transaction';
+import { LedgerService } from '../../services/ledgerService';
 import jwt from 'jsonwebtoken';
 
 // Mock the payment service
 jest.mock('../../services/paymentService');
 jest.mock('../../models/Transaction');
+jest.mock('../../services/ledgerService');
 
 describe('PaymentController', () => {
   const mockUser = {
@@ -71,10 +73,94 @@ describe('PaymentController', () => {
         'user-1',
         'module-1',
         'bot-1',
-        10
+        10,
+        {}
       );
     });
 
+    it('should pay from the wallet without a payment intent', async () => {
+      (paymentService.createModulePayment as jest.Mock).mockResolvedValue({
+        paymentIntent: null,
+        transaction: { ...mockTransaction, metadata: { payment_method: 'wallet', wallet_amount: 20 } }
+      });
+
+      const response = await request(app)
+        .post('/api/payments/create')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          moduleId: 'module-1',
+          botId: 'bot-1',
+          paymentMethod: 'wallet'
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.client_secret).toBeNull();
+      expect(response.body.data.status).toBe('completed');
+      expect(response.body.data.wallet_amount).toBe(20);
+      expect(paymentService.createModulePayment).toHaveBeenCalledWith(
+        'user-1',
+        'module-1',
+        'bot-1',
+        undefined,
+        { paymentMethod: 'wallet' }
+      );
+    });
+
+    it('should pass a coupon code on and return the discount', async () => {
+      (paymentService.createModulePayment as jest.Mock).mockResolvedValue({
+        paymentIntent: { id: 'pi_test_123', client_secret: 'pi_test_123_secret' },
+        transaction: { ...mockTransaction, metadata: { coupon_code: 'LAUNCH20', discount_amount: 4 } }
+      });
+
+      const response = await request(app)
+        .post('/api/payments/create')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          moduleId: 'module-1',
+          botId: 'bot-1',
+          couponCode: 'launch20'
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.discount_amount).toBe(4);
+      expect(paymentService.createModulePayment).toHaveBeenCalledWith(
+        'user-1',
+        'module-1',
+        'bot-1',
+        undefined,
+        { couponCode: 'launch20' }
+      );
+    });
+
+    it('should return 400 for an unknown payment method', async () => {
+      const response = await request(app)
+        .post('/api/payments/create')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          moduleId: 'module-1',
+          botId: 'bot-1',
+          paymentMethod: 'crypto'
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_PAYMENT_METHOD');
+    });
+
+    it('should return 400 for a markup outside 0-100 percent', async () => {
+      const response = await request(app)
+        .post('/api/payments/create')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          moduleId: 'module-1',
+          botId: 'bot-1',
+          markupPercentage: -50
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_MARKUP');
+      expect(paymentService.createModulePayment).not.toHaveBeenCalled();
+    });
+
     it('should return 400 for missing required fields', async () => {
       const response = await request(app)
         .post('/api/payments/create')
@@ -166,7 +252,7 @@ describe('PaymentController', () => {
         pending_amount: 0
       };
 
-      (TransactionModel.getUserBalance as jest.Mock).mockResolvedValue(mockBalance);
+      (LedgerService.getUserBalance as jest.Mock).mockResolvedValue(mockBalance);
       (TransactionModel.getUserTransactionStats as jest.Mock).mockResolvedValue(mockStats);
 
       const response = await request(app)
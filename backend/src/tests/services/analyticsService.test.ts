@@ -15,7 +15,8 @@ describe('AnalyticsService', () => {
       const mockStats = {
         total_revenue: '1000.00',
         monthly_revenue: '300.00',
-        daily_revenue: '50.00'
+        daily_revenue: '50.00',
+        currency: 'EUR'
       };
 
       const mockGrowthResult = {
@@ -32,10 +33,70 @@ describe('AnalyticsService', () => {
         total_revenue: 1000,
         monthly_revenue: 300,
         daily_revenue: 50,
-        revenue_growth: 50 // (300-200)/200 * 100
+        revenue_growth: 50, // (300-200)/200 * 100
+        currency: 'EUR'
       });
 
       expect(mockPool.query).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('getBroadcastEngagement', () => {
+    it('should return per-broadcast click-through and weighted totals', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            broadcast_id: 'broadcast-2',
+            title: 'Sale',
+            sent_at: null,
+            delivered: '200',
+            clicks: '50',
+            unique_clicks: '40',
+            average_seconds_to_click: '30'
+          },
+          {
+            broadcast_id: 'broadcast-1',
+            title: 'News',
+            sent_at: null,
+            delivered: '100',
+            clicks: '12',
+            unique_clicks: '10',
+            average_seconds_to_click: '180'
+          },
+          {
+            broadcast_id: 'broadcast-0',
+            title: 'Quiet',
+            sent_at: null,
+            delivered: '0',
+            clicks: '0',
+            unique_clicks: '0',
+            average_seconds_to_click: null
+          }
+        ]
+      } as any);
+
+      const result = await AnalyticsService.getBroadcastEngagement('user-1', '7d');
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.any(String), ['user-1', 7]);
+      expect(result.broadcasts[0]).toEqual({
+        broadcast_id: 'broadcast-2',
+        title: 'Sale',
+        sent_at: null,
+        delivered: 200,
+        clicks: 50,
+        unique_clicks: 40,
+        click_through_rate: 20,
+        average_seconds_to_click: 30
+      });
+      expect(result.broadcasts[2]).toMatchObject({ click_through_rate: 0, average_seconds_to_click: null });
+      expect(result.totals).toEqual({
+        broadcasts: 3,
+        delivered: 300,
+        clicks: 62,
+        unique_clicks: 50,
+        click_through_rate: 50 / 300 * 100,
+        average_seconds_to_click: 60 // (40 * 30 + 10 * 180) / 50
+      });
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { BroadcastLinkService } from '../../services/broadcastLinkService';
+import { BroadcastLinkModel } from '../../models/BroadcastLink';
+import { BroadcastDeliveryModel } from '../../models/BroadcastDelivery';
+import { BroadcastClickModel } from '../../models/BroadcastClick';
+
+// Signatures need the real HMAC
+jest.mock('crypto', () => jest.requireActual('crypto'));
+jest.mock('../../models/BroadcastLink');
+jest.mock('../../models/BroadcastDelivery');
+jest.mock('../../models/BroadcastClick');
+
+const mockLinkModel = BroadcastLinkModel as jest.Mocked<typeof BroadcastLinkModel>;
+const mockDeliveryModel = BroadcastDeliveryModel as jest.Mocked<typeof BroadcastDeliveryModel>;
+const mockClickModel = BroadcastClickModel as jest.Mocked<typeof BroadcastClickModel>;
+
+describe('BroadcastLinkService', () => {
+  const linkId = '11111111-1111-4111-8111-111111111111';
+  const deliveryId = '22222222-2222-4222-8222-222222222222';
+
+  const mockLink = {
+    id: linkId,
+    broadcast_id: 'broadcast-1',
+    url: 'https://example.com/sale?a=1&b=2',
+    created_at: new Date()
+  };
+
+  const mockDelivery = {
+    id: deliveryId,
+    broadcast_id: 'broadcast-1',
+    bot_id: 'bot-1',
+    chat_id: '42',
+    variant: 'B',
+    status: 'sent' as const,
+    telegram_message_id: 7,
+    attempts: 1,
+    delivered_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const linkIds = new Map([[mockLink.url, linkId]]);
+  const originalBaseUrl = process.env['LINK_TRACKING_BASE_URL'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env['LINK_TRACKING_BASE_URL'] = 'https://links.example.org/';
+  });
+
+  afterAll(() => {
+    if (originalBaseUrl === undefined) {
+      delete process.env['LINK_TRACKING_BASE_URL'];
+    } else {
+      process.env['LINK_TRACKING_BASE_URL'] = originalBaseUrl;
+    }
+  });
+
+  describe('trackText', () => {
+    const trackedUrl = () => BroadcastLinkService.buildTrackedUrl(linkId, deliveryId);
+
+    it('should rewrite registered URLs in plain text and keep trailing punctuation', () => {
+      const text = BroadcastLinkService.trackText(
+        `Open ${mockLink.url}. Or https://example.com/other`,
+        undefined,
+        linkIds,
+        deliveryId
+      );
+
+      expect(trackedUrl()).toMatch(new RegExp(`^https://links\\.example\\.org/api/r/${linkId}/${deliveryId}\\.[0-9a-f]{16}$`));
+      expect(text).toBe(`Open ${trackedUrl()}. Or https://example.com/other`);
+    });
+
+    it('should match HTML-escaped URLs against their destination', () => {
+      const text = BroadcastLinkService.trackText(
+        '<a href="https://example.com/sale?a=1&amp;b=2">Sale</a>',
+        'HTML',
+        linkIds,
+        deliveryId
+      );
+
+      expect(text).toBe(`<a href="${trackedUrl()}">Sale</a>`);
+    });
+
+    it('should only rewrite inline link targets in MarkdownV2', () => {
+      const text = BroadcastLinkService.trackText(
+        `[Sale](${mockLink.url}) ${mockLink.url}`,
+        'MarkdownV2',
+        linkIds,
+        deliveryId
+      );
+
+      expect(text).toBe(`[Sale](${trackedUrl()}) ${mockLink.url}`);
+    });
+  });
+
+  it('should rewrite URL buttons and leave callback buttons alone', () => {
+    const keyboard = BroadcastLinkService.trackKeyboard(
+      [[{ text: 'Sale', url: mockLink.url }, { text: 'Like', callback_data: 'like' }]],
+      linkIds,
+      deliveryId
+    );
+
+    expect(keyboard).toEqual([[
+      { text: 'Sale', url: BroadcastLinkService.buildTrackedUrl(linkId, deliveryId) },
+      { text: 'Like', callback_data: 'like' }
+    ]]);
+  });
+
+  describe('resolveClick', () => {
+    const token = () => BroadcastLinkService.buildTrackedUrl(linkId, deliveryId).split('/').pop()!;
+
+    it('should record a click for a correctly signed recipient', async () => {
+      mockLinkModel.findById.mockResolvedValue(mockLink);
+      mockDeliveryModel.findById.mockResolvedValue(mockDelivery);
+
+      const destination = await BroadcastLinkService.resolveClick(linkId, token());
+
+      expect(destination).toBe(mockLink.url);
+      expect(mockClickModel.create).toHaveBeenCalledWith({
+        broadcast_id: 'broadcast-1',
+        delivery_id: deliveryId,
+        variant: 'B',
+        source: 'link',
+        link_id: linkId
+      });
+    });
+
+    it('should redirect without recording when the signature is tampered with', async () => {
+      mockLinkModel.findById.mockResolvedValue(mockLink);
+
+      const destination = await BroadcastLinkService.resolveClick(linkId, `${deliveryId}.0000000000000000`);
+
+      expect(destination).toBe(mockLink.url);
+      expect(mockDeliveryModel.findById).not.toHaveBeenCalled();
+      expect(mockClickModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should still redirect when the click cannot be stored', async () => {
+      mockLinkModel.findById.mockResolvedValue(mockLink);
+      mockDeliveryModel.findById.mockResolvedValue(mockDelivery);
+      mockClickModel.create.mockRejectedValue(new Error('Database unavailable'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(BroadcastLinkService.resolveClick(linkId, token())).resolves.toBe(mockLink.url);
+    });
+
+    it('should return null for unknown links', async () => {
+      mockLinkModel.findById.mockResolvedValue(null);
+
+      await expect(BroadcastLinkService.resolveClick(linkId, token())).resolves.toBeNull();
+      await expect(BroadcastLinkService.resolveClick('not-a-uuid', token())).resolves.toBeNull();
+      expect(mockLinkModel.findById).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,534 @@
+import redis from '../../config/redis';
+import { BroadcastQueueService } from '../../services/broadcastQueueService';
+import { NotificationModel } from '../../models/Notification';
+import { BotModel } from '../../models/Bot';
+import { BotSubscriberModel } from '../../models/BotSubscriber';
+import { BroadcastDeliveryModel } from '../../models/BroadcastDelivery';
+import { TelegramService } from '../../services/telegramService';
+import { BroadcastSegmentService } from '../../services/broadcastSegmentService';
+import { BroadcastLinkService } from '../../services/broadcastLinkService';
+
+jest.mock('../../config/redis', () => ({
+  __esModule: true,
+  default: {
+    eval: jest.fn(),
+    smembers: jest.fn(),
+    sadd: jest.fn(),
+    srem: jest.fn(),
+    set: jest.fn(),
+    hincrby: jest.fn(),
+    hgetall: jest.fn(),
+    zcard: jest.fn(),
+    persist: jest.fn(),
+  },
+}));
+jest.mock('../../models/Notification');
+jest.mock('../../models/Bot', () => ({
+  BotModel: {
+    getDecryptedToken: jest.fn(),
+  },
+}));
+jest.mock('../../models/BotSubscriber', () => ({
+  BotSubscriberModel: {
+    deactivateByBotAndChat: jest.fn(),
+    findByRecipients: jest.fn(),
+  },
+}));
+jest.mock('../../models/BroadcastDelivery');
+jest.mock('../../services/telegramService');
+jest.mock('../../services/broadcastSegmentService');
+jest.mock('../../services/broadcastLinkService');
+
+const mockRedis = redis as unknown as Record<string, jest.Mock>;
+const mockNotificationModel = NotificationModel as jest.Mocked<typeof NotificationModel>;
+const mockBotModel = BotModel as jest.Mocked<typeof BotModel>;
+const mockBotSubscriberModel = BotSubscriberModel as jest.Mocked<typeof BotSubscriberModel>;
+const mockDeliveryModel = BroadcastDeliveryModel as jest.Mocked<typeof BroadcastDeliveryModel>;
+const mockTelegramService = TelegramService as jest.Mocked<typeof TelegramService>;
+const mockSegmentService = BroadcastSegmentService as jest.Mocked<typeof BroadcastSegmentService>;
+const mockLinkService = BroadcastLinkService as jest.Mocked<typeof BroadcastLinkService>;
+
+// Route each Lua script to a canned answer so a worker tick can be driven step by step
+const scriptResults = (results: {
+  claim?: string[];
+  rateLimitWaitMs?: number;
+  finish?: number;
+}) => {
+  mockRedis['eval']!.mockImplementation(async (script: string) => {
+    if (script.includes("'LIMIT'")) return results.claim ?? [];
+    if (script.includes('HINCRBY')) return 1;
+    if (script.includes('INCR')) return results.rateLimitWaitMs ?? 0;
+    if (script.includes('SREM')) return results.finish ?? 0;
+    return 1;
+  });
+};
+
+const evalCalls = (fragment: string) =>
+  mockRedis['eval']!.mock.calls.filter(([script]) => (script as string).includes(fragment));
+
+describe('BroadcastQueueService', () => {
+  const mockBroadcast = {
+    id: 'broadcast-1',
+    title: 'Test Broadcast',
+    message: 'Hello everyone!',
+    type: 'system_announcement' as const,
+    target_audience: { user_id: 'user-1' },
+    status: 'sending',
+    total_recipients: 3,
+    successful_sends: 0,
+    failed_sends: 0,
+    metadata: {
+      message_options: { parse_mode: 'HTML' },
+      targets: [
+        { botId: 'bot-1', chatIds: ['42', 43, '42'] }
+      ]
+    },
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRedis['smembers']!.mockResolvedValue(['broadcast-1']);
+    mockNotificationModel.getBroadcastById.mockResolvedValue(mockBroadcast);
+    mockBotModel.getDecryptedToken.mockResolvedValue('bot-token');
+    mockBotSubscriberModel.deactivateByBotAndChat.mockResolvedValue(undefined);
+    mockRedis['hincrby']!.mockResolvedValue(1);
+  });
+
+  describe('enqueueBroadcast', () => {
+    it('should split the broadcast into one job per distinct chat', async () => {
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue(mockBroadcast);
+      scriptResults({});
+
+      const progress = await BroadcastQueueService.enqueueBroadcast('broadcast-1');
+
+      expect(mockNotificationModel.transitionBroadcastStatus)
+        .toHaveBeenCalledWith('broadcast-1', ['draft', 'scheduled'], 'sending');
+      const [enqueueCall] = evalCalls('EXISTS');
+      expect(enqueueCall!.slice(-2)).toEqual(['bot-1:42', 'bot-1:43']);
+      expect(mockDeliveryModel.createPending).toHaveBeenCalledWith('broadcast-1', [
+        { botId: 'bot-1', chatId: '42', variant: null },
+        { botId: 'bot-1', chatId: '43', variant: null }
+      ]);
+      expect(mockNotificationModel.updateBroadcastStatus)
+        .toHaveBeenCalledWith('broadcast-1', 'sending', { total_recipients: 2 });
+      expect(progress).toEqual({ total: 2, successful: 0, failed: 0, pending: 2 });
+    });
+
+    it('should resolve a segment audience when the broadcast is queued', async () => {
+      const segment = { id: 'segment-1', name: 'Active', bot_ids: ['bot-1'], filters: { has_username: true } };
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue({
+        ...mockBroadcast,
+        metadata: { message_options: {}, segment }
+      });
+      mockSegmentService.resolveTargets.mockResolvedValue([{ botId: 'bot-1', chatIds: ['7', '8'] }]);
+      scriptResults({});
+
+      const progress = await BroadcastQueueService.enqueueBroadcast('broadcast-1');
+
+      expect(mockSegmentService.resolveTargets).toHaveBeenCalledWith(segment);
+      const [enqueueCall] = evalCalls('EXISTS');
+      expect(enqueueCall!.slice(-2)).toEqual(['bot-1:7', 'bot-1:8']);
+      expect(progress.total).toBe(2);
+    });
+
+    it('should only queue the A/B test group and hold back the rest of the audience', async () => {
+      const chatIds = Array.from({ length: 10 }, (_, index) => String(100 + index));
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue({
+        ...mockBroadcast,
+        metadata: {
+          message_options: {},
+          targets: [{ botId: 'bot-1', chatIds }],
+          ab_test: {
+            variants: [
+              { id: 'A', message: 'Hello A', split: 20 },
+              { id: 'B', message: 'Hello B', split: 20 }
+            ],
+            holdout_minutes: 60
+          }
+        }
+      });
+      scriptResults({});
+
+      const progress = await BroadcastQueueService.enqueueBroadcast('broadcast-1');
+
+      const recipients = mockDeliveryModel.createPending.mock.calls[0]![1];
+      const variantCount = (variant: string | null) => recipients.filter(recipient => recipient.variant === variant).length;
+      expect(recipients).toHaveLength(10);
+      expect(variantCount('A')).toBe(2);
+      expect(variantCount('B')).toBe(2);
+      expect(variantCount(null)).toBe(6);
+
+      const [enqueueCall] = evalCalls('EXISTS');
+      const queuedJobs = enqueueCall!.slice(7);
+      expect(queuedJobs.sort()).toEqual(
+        recipients.filter(recipient => recipient.variant).map(recipient => `bot-1:${recipient.chatId}`).sort()
+      );
+      expect(mockNotificationModel.updateBroadcastStatus)
+        .toHaveBeenCalledWith('broadcast-1', 'sending', { total_recipients: 10 });
+      expect(progress.total).toBe(4);
+    });
+
+    it('should refuse broadcasts that were already claimed', async () => {
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue(null);
+
+      await expect(BroadcastQueueService.enqueueBroadcast('broadcast-1'))
+        .rejects.toThrow('Broadcast cannot be executed in current status');
+      expect(mockRedis['eval']).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processQueue', () => {
+    it('should deliver claimed jobs and record the outcome', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      mockTelegramService.sendMessageWithResult.mockResolvedValue({ ok: true, messageId: 7 });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockTelegramService.sendMessageWithResult)
+        .toHaveBeenCalledWith('bot-token', '42', 'Hello everyone!', { parse_mode: 'HTML' });
+      const [completeCall] = evalCalls('HINCRBY');
+      expect(completeCall!.slice(-2)).toEqual(['bot-1:42', 'successful']);
+      expect(mockDeliveryModel.recordResult).toHaveBeenCalledWith('broadcast-1', 'bot-1', '42', {
+        status: 'sent',
+        attempts: 1,
+        telegram_message_id: 7
+      });
+    });
+
+    it('should personalise templated messages for each recipient', async () => {
+      scriptResults({ claim: ['bot-1:42', 'bot-1:43'] });
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        message: 'Hi <b>{{first_name|there}}</b>!'
+      });
+      mockBotSubscriberModel.findByRecipients.mockResolvedValue([
+        { bot_id: 'bot-1', chat_id: '42', first_name: 'Ann & Bob' } as any
+      ]);
+      mockTelegramService.sendMessageWithResult.mockResolvedValue({ ok: true, messageId: 7 });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockBotSubscriberModel.findByRecipients).toHaveBeenCalledWith([
+        { botId: 'bot-1', chatId: '42' },
+        { botId: 'bot-1', chatId: '43' }
+      ]);
+      expect(mockTelegramService.sendMessageWithResult)
+        .toHaveBeenCalledWith('bot-token', '42', 'Hi <b>Ann &amp; Bob</b>!', { parse_mode: 'HTML' });
+      expect(mockTelegramService.sendMessageWithResult)
+        .toHaveBeenCalledWith('bot-token', '43', 'Hi <b>there</b>!', { parse_mode: 'HTML' });
+    });
+
+    it('should send a single attachment with its caption and keyboard', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        metadata: {
+          ...mockBroadcast.metadata,
+          media: [{ type: 'photo', media: 'https://cdn.example.com/promo.jpg' }],
+          inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]]
+        }
+      });
+      mockTelegramService.sendPhoto.mockResolvedValue({ ok: true, messageId: 8 });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockTelegramService.sendPhoto).toHaveBeenCalledWith(
+        'bot-token',
+        '42',
+        'https://cdn.example.com/promo.jpg',
+        {
+          caption: 'Hello everyone!',
+          parse_mode: 'HTML',
+          reply_markup: { inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]] }
+        }
+      );
+      expect(mockTelegramService.sendMessageWithResult).not.toHaveBeenCalled();
+    });
+
+    it('should send several attachments as an album captioned by its first item', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        metadata: {
+          ...mockBroadcast.metadata,
+          media: [
+            { type: 'photo', media: 'photo-file-id' },
+            { type: 'video', media: 'video-file-id' }
+          ]
+        }
+      });
+      mockTelegramService.sendMediaGroup.mockResolvedValue({ ok: true, messageId: 9 });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockTelegramService.sendMediaGroup).toHaveBeenCalledWith('bot-token', '42', [
+        { type: 'photo', media: 'photo-file-id', caption: 'Hello everyone!', parse_mode: 'HTML' },
+        { type: 'video', media: 'video-file-id' }
+      ], {});
+    });
+
+    it('should deactivate subscribers that blocked the bot', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      mockTelegramService.sendMessageWithResult.mockResolvedValue({
+        ok: false,
+        errorCode: 403,
+        description: 'Forbidden: bot was blocked by the user'
+      });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockBotSubscriberModel.deactivateByBotAndChat).toHaveBeenCalledWith('bot-1', '42');
+      expect(mockDeliveryModel.recordResult).toHaveBeenCalledWith('broadcast-1', 'bot-1', '42', {
+        status: 'blocked',
+        attempts: 1,
+        error_code: 403,
+        error_description: 'Forbidden: bot was blocked by the user'
+      });
+      const [completeCall] = evalCalls('HINCRBY');
+      expect(completeCall!.slice(-2)).toEqual(['bot-1:42', 'failed']);
+    });
+
+    it('should retry transient failures before giving up', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      mockTelegramService.sendMessageWithResult.mockResolvedValue({
+        ok: false,
+        errorCode: 502,
+        description: 'Bad Gateway'
+      });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(evalCalls('HINCRBY')).toHaveLength(0);
+      expect(evalCalls("ZADD', KEYS[2], ARGV[2], ARGV[1]")).toHaveLength(1);
+      expect(mockDeliveryModel.recordResult).not.toHaveBeenCalled();
+
+      jest.clearAllMocks();
+      scriptResults({ claim: ['bot-1:42'] });
+      mockRedis['hincrby']!.mockResolvedValue(3);
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockDeliveryModel.recordResult).toHaveBeenCalledWith('broadcast-1', 'bot-1', '42', {
+        status: 'failed',
+        attempts: 3,
+        error_code: 502,
+        error_description: 'Bad Gateway'
+      });
+      expect(mockBotSubscriberModel.deactivateByBotAndChat).not.toHaveBeenCalled();
+    });
+
+    it('should hold the whole bot and requeue the job when Telegram answers 429', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      mockTelegramService.sendMessageWithResult.mockResolvedValue({
+        ok: false,
+        errorCode: 429,
+        description: 'Too Many Requests: retry after 5',
+        retryAfter: 5
+      });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockRedis['set']).toHaveBeenCalledWith('broadcast-queue:blocked:bot-1', '1', 'PX', 5000);
+      expect(evalCalls('HINCRBY')).toHaveLength(0);
+      const rescheduled = evalCalls("ZADD', KEYS[2], ARGV[2], ARGV[1]");
+      expect(rescheduled).toHaveLength(1);
+    });
+
+    it('should not send when the rate limit has no capacity left', async () => {
+      scriptResults({ claim: ['bot-1:42'], rateLimitWaitMs: 400 });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockTelegramService.sendMessageWithResult).not.toHaveBeenCalled();
+      expect(evalCalls("ZADD', KEYS[2], ARGV[2], ARGV[1]")).toHaveLength(1);
+    });
+
+    it('should hand jobs back when the broadcast was paused meanwhile', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      mockNotificationModel.getBroadcastById.mockResolvedValue({ ...mockBroadcast, status: 'paused' });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockTelegramService.sendMessageWithResult).not.toHaveBeenCalled();
+      expect(evalCalls("ZADD', KEYS[2], ARGV[2], ARGV[1]")).toHaveLength(1);
+    });
+
+    it('should send each recipient the content of their A/B variant', async () => {
+      scriptResults({ claim: ['bot-1:42', 'bot-1:43'] });
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        message: 'Hello A',
+        metadata: {
+          ...mockBroadcast.metadata,
+          ab_test: {
+            variants: [
+              { id: 'A', message: 'Hello A', split: 50 },
+              { id: 'B', message: 'Hello B', inline_keyboard: [[{ text: 'Go', callback_data: 'go' }]], split: 50 }
+            ],
+            holdout_minutes: 60
+          }
+        }
+      });
+      mockDeliveryModel.findByRecipients.mockResolvedValue([
+        { id: 'delivery-42', bot_id: 'bot-1', chat_id: '42', variant: 'A' },
+        { id: 'delivery-43', bot_id: 'bot-1', chat_id: '43', variant: 'B' }
+      ]);
+      mockTelegramService.sendMessageWithResult.mockResolvedValue({ ok: true, messageId: 7 });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockTelegramService.sendMessageWithResult)
+        .toHaveBeenCalledWith('bot-token', '42', 'Hello A', { parse_mode: 'HTML' });
+      expect(mockTelegramService.sendMessageWithResult).toHaveBeenCalledWith('bot-token', '43', 'Hello B', {
+        parse_mode: 'HTML',
+        reply_markup: { inline_keyboard: [[{ text: 'Go', callback_data: 'go' }]] }
+      });
+    });
+
+    it('should send tracked links unique to each recipient', async () => {
+      scriptResults({ claim: ['bot-1:42'] });
+      const keyboard = [[{ text: 'Open', url: 'https://example.com' }]];
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        message: 'See https://example.com',
+        metadata: { ...mockBroadcast.metadata, inline_keyboard: keyboard }
+      });
+      mockLinkService.isTracked.mockReturnValue(true);
+      const linkIds = new Map([['https://example.com', 'link-1']]);
+      mockLinkService.getLinkIds.mockResolvedValue(linkIds);
+      mockLinkService.trackText.mockReturnValue('See https://t.example.com/api/r/link-1/delivery-42.sig');
+      const trackedKeyboard = [[{ text: 'Open', url: 'https://t.example.com/api/r/link-1/delivery-42.sig' }]];
+      mockLinkService.trackKeyboard.mockReturnValue(trackedKeyboard);
+      mockDeliveryModel.findByRecipients.mockResolvedValue([
+        { id: 'delivery-42', bot_id: 'bot-1', chat_id: '42', variant: null }
+      ]);
+      mockTelegramService.sendMessageWithResult.mockResolvedValue({ ok: true, messageId: 7 });
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockLinkService.trackText)
+        .toHaveBeenCalledWith('See https://example.com', 'HTML', linkIds, 'delivery-42');
+      expect(mockLinkService.trackKeyboard).toHaveBeenCalledWith(keyboard, linkIds, 'delivery-42');
+      expect(mockTelegramService.sendMessageWithResult).toHaveBeenCalledWith(
+        'bot-token',
+        '42',
+        'See https://t.example.com/api/r/link-1/delivery-42.sig',
+        { parse_mode: 'HTML', reply_markup: { inline_keyboard: trackedKeyboard } }
+      );
+    });
+
+    it('should wait for the A/B test winner once the test group is drained', async () => {
+      scriptResults({ claim: [], finish: 1 });
+      const abTest = {
+        variants: [
+          { id: 'A', message: 'Hello A', split: 10 },
+          { id: 'B', message: 'Hello B', split: 10 }
+        ],
+        holdout_minutes: 60
+      };
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        metadata: { ...mockBroadcast.metadata, ab_test: abTest }
+      });
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue({ ...mockBroadcast, status: 'testing' });
+      mockRedis['hgetall']!.mockResolvedValue({ total: '2', successful: '2', failed: '0', finished: '1' });
+      mockRedis['zcard']!.mockResolvedValue(0);
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockNotificationModel.transitionBroadcastStatus).toHaveBeenCalledWith(
+        'broadcast-1',
+        ['sending'],
+        'testing',
+        { ab_test: { ...abTest, test_finished_at: expect.any(String) } }
+      );
+      expect(mockRedis['persist']).toHaveBeenCalledWith('broadcast-queue:broadcast-1:stats');
+      expect(mockNotificationModel.updateBroadcastStatus).toHaveBeenCalledWith('broadcast-1', 'testing', {
+        successful_sends: 2,
+        failed_sends: 0
+      });
+      expect(mockNotificationModel.updateBroadcastStatus)
+        .not.toHaveBeenCalledWith('broadcast-1', 'sent', expect.anything());
+    });
+
+    it('should store the final counts once the broadcast is drained', async () => {
+      scriptResults({ claim: [], finish: 1 });
+      mockRedis['hgetall']!.mockResolvedValue({ total: '2', successful: '1', failed: '1', finished: '1' });
+      mockRedis['zcard']!.mockResolvedValue(0);
+
+      await BroadcastQueueService.processQueue();
+
+      expect(mockNotificationModel.updateBroadcastStatus).toHaveBeenCalledWith('broadcast-1', 'sent', {
+        total_recipients: 2,
+        successful_sends: 1,
+        failed_sends: 1
+      });
+    });
+  });
+
+  describe('sendWinner', () => {
+    const abTest = {
+      variants: [
+        { id: 'A', message: 'Hello A', split: 10 },
+        { id: 'B', message: 'Hello B', split: 10 }
+      ],
+      holdout_minutes: 60,
+      test_finished_at: '2025-01-01T10:00:00.000Z'
+    };
+
+    it('should queue the held-back recipients with the winning variant', async () => {
+      const testing = { ...mockBroadcast, status: 'testing', metadata: { ...mockBroadcast.metadata, ab_test: abTest } };
+      mockNotificationModel.getBroadcastById.mockResolvedValue(testing);
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue({
+        ...testing,
+        status: 'sending',
+        metadata: { ...testing.metadata, ab_test: { ...abTest, winner: 'B' } }
+      });
+      mockDeliveryModel.assignHeldBackRecipients.mockResolvedValue([
+        { bot_id: 'bot-1', chat_id: '44' },
+        { bot_id: 'bot-1', chat_id: '45' }
+      ]);
+      scriptResults({});
+      mockRedis['hgetall']!.mockResolvedValue({ total: '4', successful: '2', failed: '0', phase: 'winner' });
+      mockRedis['zcard']!.mockResolvedValue(1);
+
+      await BroadcastQueueService.sendWinner('broadcast-1', 'B');
+
+      expect(mockNotificationModel.transitionBroadcastStatus).toHaveBeenCalledWith(
+        'broadcast-1',
+        ['testing'],
+        'sending',
+        { ab_test: { ...abTest, winner: 'B', winner_selected_at: expect.any(String) } }
+      );
+      expect(mockDeliveryModel.assignHeldBackRecipients).toHaveBeenCalledWith('broadcast-1', 'B');
+      const [winnerCall] = evalCalls("'phase'");
+      expect(winnerCall!.slice(-2)).toEqual(['bot-1:44', 'bot-1:45']);
+    });
+
+    it('should refuse broadcasts that are not waiting for a winner', async () => {
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        metadata: { ...mockBroadcast.metadata, ab_test: abTest }
+      });
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue(null);
+
+      await expect(BroadcastQueueService.sendWinner('broadcast-1', 'A'))
+        .rejects.toThrow('Broadcast is not waiting for an A/B test winner');
+      expect(mockDeliveryModel.assignHeldBackRecipients).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pauseBroadcast', () => {
+    it('should stop handing out jobs of the broadcast', async () => {
+      mockNotificationModel.transitionBroadcastStatus.mockResolvedValue({ ...mockBroadcast, status: 'paused' });
+
+      await BroadcastQueueService.pauseBroadcast('broadcast-1');
+
+      expect(mockNotificationModel.transitionBroadcastStatus)
+        .toHaveBeenCalledWith('broadcast-1', ['sending'], 'paused');
+      expect(mockRedis['srem']).toHaveBeenCalledWith('broadcast-queue:active', 'broadcast-1');
+    });
+  });
+});
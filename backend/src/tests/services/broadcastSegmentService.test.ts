@@ -0,0 +1,123 @@
+import { BroadcastSegmentService } from '../../services/broadcastSegmentService';
+import { BroadcastSegmentModel } from '../../models/BroadcastSegment';
+import { BotSubscriberModel } from '../../models/BotSubscriber';
+import { BotModel } from '../../models/Bot';
+
+jest.mock('../../models/BroadcastSegment');
+jest.mock('../../models/BotSubscriber', () => ({
+  BotSubscriberModel: {
+    findSegmentRecipients: jest.fn(),
+    countSegmentRecipients: jest.fn(),
+  },
+}));
+jest.mock('../../models/Bot');
+
+const mockSegmentModel = BroadcastSegmentModel as jest.Mocked<typeof BroadcastSegmentModel>;
+const mockBotSubscriberModel = BotSubscriberModel as jest.Mocked<typeof BotSubscriberModel>;
+const mockBotModel = BotModel as jest.Mocked<typeof BotModel>;
+
+describe('BroadcastSegmentService', () => {
+  const mockSegment = {
+    id: 'segment-1',
+    user_id: 'user-1',
+    name: 'Recently active',
+    bot_ids: ['bot-1', 'bot-2'],
+    filters: { last_interaction_within_days: 30, chat_types: ['private' as const] },
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const botOwnedBy = (userId: string) => ({
+    id: 'bot-1',
+    user_id: userId,
+    name: 'Test Bot',
+    token_hash: 'encrypted-token',
+    status: 'active' as const,
+    telegram_bot_id: '123456789',
+    created_at: new Date(),
+    updated_at: new Date()
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSegment', () => {
+    it('should save a segment spanning the user\'s bots', async () => {
+      mockBotModel.findById.mockResolvedValue(botOwnedBy('user-1'));
+      mockSegmentModel.create.mockResolvedValue(mockSegment);
+
+      const input = { name: 'Recently active', bot_ids: ['bot-1', 'bot-2'], filters: mockSegment.filters };
+      const result = await BroadcastSegmentService.createSegment('user-1', input);
+
+      expect(mockBotModel.findById).toHaveBeenCalledTimes(2);
+      expect(mockSegmentModel.create).toHaveBeenCalledWith({ ...input, user_id: 'user-1' });
+      expect(result).toEqual(mockSegment);
+    });
+
+    it('should reject bots of other users', async () => {
+      mockBotModel.findById.mockResolvedValue(botOwnedBy('other-user'));
+
+      await expect(BroadcastSegmentService.createSegment('user-1', { name: 'Mine', bot_ids: ['bot-1'] }))
+        .rejects.toThrow('Bot bot-1 not found or access denied');
+      expect(mockSegmentModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSegment', () => {
+    it('should hide segments of other users', async () => {
+      mockSegmentModel.findById.mockResolvedValue({ ...mockSegment, user_id: 'other-user' });
+
+      await expect(BroadcastSegmentService.getSegment('segment-1', 'user-1'))
+        .rejects.toThrow('Segment not found');
+    });
+  });
+
+  describe('countRecipients', () => {
+    it('should report a count for every bot, including bots with no matches', async () => {
+      mockBotSubscriberModel.countSegmentRecipients.mockResolvedValue([{ bot_id: 'bot-2', count: 4 }]);
+
+      const count = await BroadcastSegmentService.countRecipients(mockSegment.bot_ids, mockSegment.filters);
+
+      expect(mockBotSubscriberModel.countSegmentRecipients)
+        .toHaveBeenCalledWith(['bot-1', 'bot-2'], mockSegment.filters);
+      expect(count).toEqual({
+        total: 4,
+        byBot: [{ botId: 'bot-1', count: 0 }, { botId: 'bot-2', count: 4 }]
+      });
+    });
+  });
+
+  describe('resolveTargets', () => {
+    const snapshot = BroadcastSegmentService.toSnapshot(mockSegment);
+
+    it('should group matching subscribers by bot using the current segment definition', async () => {
+      mockSegmentModel.findById.mockResolvedValue({ ...mockSegment, filters: { has_username: true } });
+      mockBotSubscriberModel.findSegmentRecipients.mockResolvedValue([
+        { bot_id: 'bot-1', chat_id: '1' },
+        { bot_id: 'bot-1', chat_id: '2' },
+        { bot_id: 'bot-2', chat_id: '3' }
+      ]);
+
+      const targets = await BroadcastSegmentService.resolveTargets(snapshot);
+
+      expect(mockBotSubscriberModel.findSegmentRecipients)
+        .toHaveBeenCalledWith(['bot-1', 'bot-2'], { has_username: true });
+      expect(targets).toEqual([
+        { botId: 'bot-1', chatIds: ['1', '2'] },
+        { botId: 'bot-2', chatIds: ['3'] }
+      ]);
+    });
+
+    it('should fall back to the broadcast\'s copy when the segment was deleted', async () => {
+      mockSegmentModel.findById.mockResolvedValue(null);
+      mockBotSubscriberModel.findSegmentRecipients.mockResolvedValue([]);
+
+      const targets = await BroadcastSegmentService.resolveTargets(snapshot);
+
+      expect(mockBotSubscriberModel.findSegmentRecipients)
+        .toHaveBeenCalledWith(['bot-1', 'bot-2'], mockSegment.filters);
+      expect(targets).toEqual([]);
+    });
+  });
+});
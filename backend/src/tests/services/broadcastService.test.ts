@@ -1,16 +1,25 @@
 import { BroadcastService } from '../../services/broadcastService';
 import { NotificationModel } from '../../models/Notification';
 import { BotModel } from '../../models/Bot';
-import { TelegramService } from '../../services/telegramService';
+import { BroadcastDeliveryModel } from '../../models/BroadcastDelivery';
+import { BroadcastClickModel } from '../../models/BroadcastClick';
+import { BroadcastQueueService } from '../../services/broadcastQueueService';
+import { BroadcastSegmentService } from '../../services/broadcastSegmentService';
 
 // Mock dependencies
 jest.mock('../../models/Notification');
 jest.mock('../../models/Bot');
-jest.mock('../../services/telegramService');
+jest.mock('../../models/BroadcastDelivery');
+jest.mock('../../models/BroadcastClick');
+jest.mock('../../services/broadcastQueueService');
+jest.mock('../../services/broadcastSegmentService');
 
 const mockNotificationModel = NotificationModel as jest.Mocked<typeof NotificationModel>;
 const mockBotModel = BotModel as jest.Mocked<typeof BotModel>;
-const mockTelegramService = TelegramService as jest.Mocked<typeof TelegramService>;
+const mockDeliveryModel = BroadcastDeliveryModel as jest.Mocked<typeof BroadcastDeliveryModel>;
+const mockClickModel = BroadcastClickModel as jest.Mocked<typeof BroadcastClickModel>;
+const mockBroadcastQueueService = BroadcastQueueService as jest.Mocked<typeof BroadcastQueueService>;
+const mockSegmentService = BroadcastSegmentService as jest.Mocked<typeof BroadcastSegmentService>;
 
 describe('BroadcastService', () => {
   const mockBot = {
@@ -137,50 +146,107 @@ describe('BroadcastService', () => {
       await expect(BroadcastService.createBroadcastCampaign(input))
         .rejects.toThrow('Bot bot-1 not found or access denied');
     });
+
+    it('should target a saved segment without resolving its chats up front', async () => {
+      const segment = {
+        id: 'segment-1',
+        user_id: 'user-1',
+        name: 'Russian speakers',
+        bot_ids: ['bot-1', 'bot-2'],
+        filters: { languages: ['ru'] },
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      const snapshot = { id: 'segment-1', name: 'Russian speakers', bot_ids: ['bot-1', 'bot-2'], filters: { languages: ['ru'] } };
+      mockSegmentService.getSegment.mockResolvedValue(segment);
+      mockSegmentService.countRecipients.mockResolvedValue({
+        total: 5,
+        byBot: [{ botId: 'bot-1', count: 3 }, { botId: 'bot-2', count: 2 }]
+      });
+      mockSegmentService.toSnapshot.mockReturnValue(snapshot);
+      mockNotificationModel.createBroadcast.mockResolvedValue(mockBroadcast);
+      mockNotificationModel.updateBroadcastStatus.mockResolvedValue(mockBroadcast);
+
+      await BroadcastService.createBroadcastCampaign({
+        userId: 'user-1',
+        title: 'Test Broadcast',
+        message: 'Hello everyone!',
+        segmentId: 'segment-1'
+      });
+
+      expect(mockSegmentService.getSegment).toHaveBeenCalledWith('segment-1', 'user-1');
+      expect(mockNotificationModel.createBroadcast).toHaveBeenCalledWith(expect.objectContaining({
+        target_audience: {
+          user_id: 'user-1',
+          segment_id: 'segment-1',
+          targets: [{ bot_id: 'bot-1', chat_count: 3 }, { bot_id: 'bot-2', chat_count: 2 }]
+        },
+        metadata: { message_options: {}, segment: snapshot }
+      }));
+      expect(mockNotificationModel.updateBroadcastStatus)
+        .toHaveBeenCalledWith('broadcast-1', 'draft', { total_recipients: 5 });
+    });
+
+    it('should store A/B test variants with their own content', async () => {
+      mockBotModel.findById.mockResolvedValue(mockBot);
+      mockNotificationModel.createBroadcast.mockResolvedValue(mockBroadcast);
+      mockNotificationModel.updateBroadcastStatus.mockResolvedValue(mockBroadcast);
+
+      await BroadcastService.createBroadcastCampaign({
+        userId: 'user-1',
+        title: 'Test Broadcast',
+        message: 'Variant A',
+        targets: [{ botId: 'bot-1', chatIds: ['chat1', 'chat2'] }],
+        variants: [
+          { message: 'Variant A', split: 25 },
+          { message: 'Variant B', inlineKeyboard: [[{ text: 'Buy', callback_data: 'buy' }]], split: 25 }
+        ],
+        holdoutMinutes: 120
+      });
+
+      expect(mockNotificationModel.createBroadcast).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Variant A',
+        metadata: expect.objectContaining({
+          ab_test: {
+            variants: [
+              { id: 'A', message: 'Variant A', split: 25 },
+              { id: 'B', message: 'Variant B', inline_keyboard: [[{ text: 'Buy', callback_data: 'buy' }]], split: 25 }
+            ],
+            holdout_minutes: 120
+          }
+        })
+      }));
+    });
+
+    it('should require targets or a segment', async () => {
+      await expect(BroadcastService.createBroadcastCampaign({
+        userId: 'user-1',
+        title: 'Test Broadcast',
+        message: 'Hello everyone!'
+      })).rejects.toThrow('Broadcast needs either targets or a segment');
+    });
   });
 
   describe('executeBroadcast', () => {
-    it('should execute broadcast successfully', async () => {
+    it('should hand the broadcast to the delivery queue', async () => {
       mockNotificationModel.getBroadcastById.mockResolvedValue(mockBroadcast);
-      mockNotificationModel.updateBroadcastStatus.mockResolvedValue(mockBroadcast);
-      mockBotModel.findById.mockResolvedValue(mockBot);
-      mockTelegramService.sendBroadcast.mockResolvedValue({
-        successful: 2,
+      mockBroadcastQueueService.enqueueBroadcast.mockResolvedValue({
+        total: 2,
+        successful: 0,
         failed: 0,
-        results: [
-          { chatId: 'chat1', success: true },
-          { chatId: 'chat2', success: true }
-        ]
+        pending: 2
       });
 
       const stats = await BroadcastService.executeBroadcast('broadcast-1');
 
       expect(mockNotificationModel.getBroadcastById).toHaveBeenCalledWith('broadcast-1');
-      expect(mockNotificationModel.updateBroadcastStatus).toHaveBeenCalledWith('broadcast-1', 'sending');
-      expect(mockBotModel.findById).toHaveBeenCalledWith('bot-1');
-      expect(mockTelegramService.sendBroadcast).toHaveBeenCalledWith(
-        'encrypted-token',
-        ['chat1', 'chat2'],
-        'Hello everyone!',
-        {
-          delay_between_messages: 200
-        }
-      );
-      expect(mockNotificationModel.updateBroadcastStatus).toHaveBeenCalledWith(
-        'broadcast-1',
-        'sent',
-        {
-          total_recipients: 2,
-          successful_sends: 2,
-          failed_sends: 0
-        }
-      );
-
+      expect(mockBroadcastQueueService.enqueueBroadcast).toHaveBeenCalledWith('broadcast-1');
       expect(stats).toEqual({
         totalTargets: 2,
-        successfulSends: 2,
+        successfulSends: 0,
         failedSends: 0,
-        deliveryRate: 100
+        deliveryRate: 0,
+        pendingSends: 2
       });
     });
 
@@ -197,29 +263,129 @@ describe('BroadcastService', () => {
 
       await expect(BroadcastService.executeBroadcast('broadcast-1'))
         .rejects.toThrow('Broadcast cannot be executed in current status');
+      expect(mockBroadcastQueueService.enqueueBroadcast).not.toHaveBeenCalled();
     });
+  });
+
+  describe('pauseBroadcast', () => {
+    it('should pause a broadcast owned by the user', async () => {
+      mockNotificationModel.getBroadcastById.mockResolvedValue({ ...mockBroadcast, status: 'sending' });
+
+      await BroadcastService.pauseBroadcast('broadcast-1', 'user-1');
+
+      expect(mockBroadcastQueueService.pauseBroadcast).toHaveBeenCalledWith('broadcast-1');
+    });
+
+    it('should reject broadcasts of other users', async () => {
+      mockNotificationModel.getBroadcastById.mockResolvedValue({ ...mockBroadcast, status: 'sending' });
 
-    it('should handle partial failures', async () => {
+      await expect(BroadcastService.pauseBroadcast('broadcast-1', 'other-user'))
+        .rejects.toThrow('Access denied');
+      expect(mockBroadcastQueueService.pauseBroadcast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelBroadcast', () => {
+    it('should cancel a draft broadcast directly', async () => {
       mockNotificationModel.getBroadcastById.mockResolvedValue(mockBroadcast);
-      mockNotificationModel.updateBroadcastStatus.mockResolvedValue(mockBroadcast);
+
+      await BroadcastService.cancelBroadcast('broadcast-1', 'user-1');
+
+      expect(mockNotificationModel.updateBroadcastStatus).toHaveBeenCalledWith('broadcast-1', 'cancelled');
+      expect(mockBroadcastQueueService.cancelBroadcast).not.toHaveBeenCalled();
+    });
+
+    it('should drop the queued jobs of a broadcast being sent', async () => {
+      mockNotificationModel.getBroadcastById.mockResolvedValue({ ...mockBroadcast, status: 'paused' });
+
+      await BroadcastService.cancelBroadcast('broadcast-1', 'user-1');
+
+      expect(mockBroadcastQueueService.cancelBroadcast).toHaveBeenCalledWith('broadcast-1');
+    });
+  });
+
+  describe('resendToFailedRecipients', () => {
+    it('should queue a new broadcast for the failed recipients only', async () => {
+      const resendBroadcast = { ...mockBroadcast, id: 'broadcast-2', title: 'Test Broadcast (resend)' };
+      mockNotificationModel.getBroadcastById
+        .mockResolvedValueOnce({ ...mockBroadcast, status: 'sent' })
+        .mockResolvedValueOnce(resendBroadcast);
+      mockDeliveryModel.getFailedRecipients.mockResolvedValue([
+        { bot_id: 'bot-1', chat_id: 'chat2' }
+      ]);
       mockBotModel.findById.mockResolvedValue(mockBot);
-      mockTelegramService.sendBroadcast.mockResolvedValue({
-        successful: 1,
-        failed: 1,
-        results: [
-          { chatId: 'chat1', success: true },
-          { chatId: 'chat2', success: false, error: 'Chat not found' }
-        ]
+      mockNotificationModel.createBroadcast.mockResolvedValue(resendBroadcast);
+      mockBroadcastQueueService.enqueueBroadcast.mockResolvedValue({
+        total: 1,
+        successful: 0,
+        failed: 0,
+        pending: 1
       });
 
-      const stats = await BroadcastService.executeBroadcast('broadcast-1');
+      const result = await BroadcastService.resendToFailedRecipients('broadcast-1', 'user-1');
 
-      expect(stats).toEqual({
-        totalTargets: 2,
-        successfulSends: 1,
-        failedSends: 1,
-        deliveryRate: 50
-      });
+      expect(mockNotificationModel.createBroadcast).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Test Broadcast (resend)',
+        metadata: {
+          message_options: {},
+          targets: [{ botId: 'bot-1', chatIds: ['chat2'] }],
+          resend_of: 'broadcast-1'
+        }
+      }));
+      expect(mockBroadcastQueueService.enqueueBroadcast).toHaveBeenCalledWith('broadcast-2');
+      expect(result.broadcast.id).toBe('broadcast-2');
+    });
+
+    it('should refuse when nothing failed', async () => {
+      mockNotificationModel.getBroadcastById.mockResolvedValue({ ...mockBroadcast, status: 'sent' });
+      mockDeliveryModel.getFailedRecipients.mockResolvedValue([]);
+
+      await expect(BroadcastService.resendToFailedRecipients('broadcast-1', 'user-1'))
+        .rejects.toThrow('Broadcast has no failed recipients to resend');
+      expect(mockNotificationModel.createBroadcast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processAbTests', () => {
+    const abTest = {
+      variants: [
+        { id: 'A', message: 'Variant A', split: 20 },
+        { id: 'B', message: 'Variant B', split: 20 }
+      ],
+      holdout_minutes: 60,
+      test_finished_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
+    };
+
+    it('should send the variant with the best click-through rate once the holdout passed', async () => {
+      mockNotificationModel.listBroadcasts.mockResolvedValue([
+        { ...mockBroadcast, status: 'testing', metadata: { ...mockBroadcast.metadata, ab_test: abTest } }
+      ]);
+      mockDeliveryModel.getVariantSummary.mockResolvedValue([
+        { variant: 'A', total: 20, sent: 20, failed: 0, blocked: 0, pending: 0 },
+        { variant: 'B', total: 20, sent: 18, failed: 2, blocked: 0, pending: 0 },
+        { variant: null, total: 60, sent: 0, failed: 0, blocked: 0, pending: 60 }
+      ]);
+      mockClickModel.getVariantSummary.mockResolvedValue([
+        { variant: 'A', clicks: 3, unique_clicks: 2 },
+        { variant: 'B', clicks: 4, unique_clicks: 4 }
+      ]);
+
+      await BroadcastService.processAbTests();
+
+      expect(mockNotificationModel.listBroadcasts).toHaveBeenCalledWith({ status: 'testing', limit: 100 });
+      expect(mockBroadcastQueueService.sendWinner).toHaveBeenCalledWith('broadcast-1', 'B');
+    });
+
+    it('should leave tests alone until their holdout has passed', async () => {
+      mockNotificationModel.listBroadcasts.mockResolvedValue([{
+        ...mockBroadcast,
+        status: 'testing',
+        metadata: { ...mockBroadcast.metadata, ab_test: { ...abTest, test_finished_at: new Date().toISOString() } }
+      }]);
+
+      await BroadcastService.processAbTests();
+
+      expect(mockBroadcastQueueService.sendWinner).not.toHaveBeenCalled();
     });
   });
 
@@ -294,6 +460,17 @@ describe('BroadcastService', () => {
   });
 
   describe('getBroadcastStats', () => {
+    const noClicks = {
+      clicks: 0,
+      unique_clicks: 0,
+      average_seconds_to_click: null,
+      median_seconds_to_click: null
+    };
+
+    beforeEach(() => {
+      mockClickModel.getSummary.mockResolvedValue(noClicks);
+    });
+
     it('should return broadcast statistics', async () => {
       const completedBroadcast = {
         ...mockBroadcast,
@@ -311,7 +488,68 @@ describe('BroadcastService', () => {
         totalTargets: 100,
         successfulSends: 95,
         failedSends: 5,
-        deliveryRate: 95
+        deliveryRate: 95,
+        clicks: {
+          totalClicks: 0,
+          uniqueClicks: 0,
+          clickThroughRate: 0,
+          averageTimeToClickSeconds: null,
+          medianTimeToClickSeconds: null
+        }
+      });
+    });
+
+    it('should report click-through against successful sends', async () => {
+      mockNotificationModel.getBroadcastById.mockResolvedValue({
+        ...mockBroadcast,
+        status: 'sent',
+        total_recipients: 100,
+        successful_sends: 80,
+        failed_sends: 20
+      });
+      mockClickModel.getSummary.mockResolvedValue({
+        clicks: 30,
+        unique_clicks: 20,
+        average_seconds_to_click: 90,
+        median_seconds_to_click: 45
+      });
+
+      const stats = await BroadcastService.getBroadcastStats('broadcast-1');
+
+      expect(mockClickModel.getSummary).toHaveBeenCalledWith('broadcast-1');
+      expect(stats?.clicks).toEqual({
+        totalClicks: 30,
+        uniqueClicks: 20,
+        clickThroughRate: 25,
+        averageTimeToClickSeconds: 90,
+        medianTimeToClickSeconds: 45
+      });
+    });
+
+    it('should report live queue progress while sending', async () => {
+      mockNotificationModel.getBroadcastById.mockResolvedValue({ ...mockBroadcast, status: 'sending' });
+      mockBroadcastQueueService.getProgress.mockResolvedValue({
+        total: 10,
+        successful: 3,
+        failed: 1,
+        pending: 6
+      });
+
+      const stats = await BroadcastService.getBroadcastStats('broadcast-1');
+
+      expect(stats).toEqual({
+        totalTargets: 10,
+        successfulSends: 3,
+        failedSends: 1,
+        deliveryRate: 75,
+        pendingSends: 6,
+        clicks: {
+          totalClicks: 0,
+          uniqueClicks: 0,
+          clickThroughRate: 0,
+          averageTimeToClickSeconds: null,
+          medianTimeToClickSeconds: null
+        }
       });
     });
 
@@ -0,0 +1,76 @@
+import { BroadcastTemplateService } from '../../services/broadcastTemplateService';
+import { BroadcastTemplateModel } from '../../models/BroadcastTemplate';
+import { BotSubscriberModel } from '../../models/BotSubscriber';
+import { BotModel } from '../../models/Bot';
+
+jest.mock('../../models/BroadcastTemplate');
+jest.mock('../../models/BotSubscriber', () => ({
+  BotSubscriberModel: {
+    findByBotAndChat: jest.fn(),
+  },
+}));
+jest.mock('../../models/Bot');
+
+const mockTemplateModel = BroadcastTemplateModel as jest.Mocked<typeof BroadcastTemplateModel>;
+const mockBotSubscriberModel = BotSubscriberModel as jest.Mocked<typeof BotSubscriberModel>;
+const mockBotModel = BotModel as jest.Mocked<typeof BotModel>;
+
+describe('BroadcastTemplateService', () => {
+  const builtInTemplate = {
+    id: 'template-1',
+    name: 'Welcome Message',
+    category: 'onboarding',
+    content: 'Welcome, {{first_name|friend}}!',
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('updateTemplate', () => {
+    it('should update the user\'s own template', async () => {
+      const ownTemplate = { ...builtInTemplate, user_id: 'user-1' };
+      mockTemplateModel.findById.mockResolvedValue(ownTemplate);
+      mockTemplateModel.update.mockResolvedValue({ ...ownTemplate, name: 'Renamed' });
+
+      const result = await BroadcastTemplateService.updateTemplate('template-1', 'user-1', { name: 'Renamed' });
+
+      expect(mockTemplateModel.update).toHaveBeenCalledWith('template-1', { name: 'Renamed' });
+      expect(result.name).toBe('Renamed');
+    });
+
+    it('should not let users change built-in templates', async () => {
+      mockTemplateModel.findById.mockResolvedValue(builtInTemplate);
+
+      await expect(BroadcastTemplateService.updateTemplate('template-1', 'user-1', { name: 'Mine now' }))
+        .rejects.toThrow('Template not found');
+      expect(mockTemplateModel.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('previewMessage', () => {
+    it('should render for a sample recipient by default', async () => {
+      const rendered = await BroadcastTemplateService.previewMessage('user-1', 'Hi {{first_name}}!');
+
+      expect(rendered).toBe('Hi John!');
+      expect(mockBotSubscriberModel.findByBotAndChat).not.toHaveBeenCalled();
+    });
+
+    it('should render for a real subscriber of the user\'s bot', async () => {
+      mockBotModel.findById.mockResolvedValue({ id: 'bot-1', user_id: 'user-1' } as any);
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue({ chat_id: '42', first_name: 'Anna_K' } as any);
+
+      const rendered = await BroadcastTemplateService.previewMessage(
+        'user-1',
+        'Hi {{first_name}}!',
+        'MarkdownV2',
+        { botId: 'bot-1', chatId: '42' }
+      );
+
+      expect(mockBotSubscriberModel.findByBotAndChat).toHaveBeenCalledWith('bot-1', '42');
+      expect(rendered).toBe('Hi Anna\\_K!');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { CouponService } from '../../services/couponService';
+import { CouponModel } from '../../models/Coupon';
+import { ModuleModel } from '../../models/Module';
+import { CurrencyService } from '../../services/currencyService';
+
+jest.mock('../../models/Coupon');
+jest.mock('../../models/ModulePlan');
+
+const mockCouponModel = CouponModel as jest.Mocked<typeof CouponModel>;
+const mockModuleModel = ModuleModel as jest.Mocked<typeof ModuleModel>;
+
+describe('CouponService', () => {
+  const module = {
+    id: 'module-1',
+    name: 'Shop',
+    price: 50,
+    currency: 'EUR' as const,
+    developer_id: 'developer-1',
+    status: 'approved' as const
+  } as any;
+
+  const coupon = (overrides: Record<string, any> = {}) => ({
+    id: 'coupon-1',
+    code: 'LAUNCH20',
+    discount_type: 'percentage' as const,
+    discount_value: 20,
+    created_by: 'developer-1',
+    max_redemptions_per_user: 1,
+    first_purchase_only: false,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCouponModel.countRedemptions.mockResolvedValue({ total: 0, user: 0 });
+    mockCouponModel.hasCompletedPurchase.mockResolvedValue(false);
+  });
+
+  describe('applyCoupon', () => {
+    it('should take a percentage off the module price', async () => {
+      mockCouponModel.findByCode.mockResolvedValueOnce(coupon());
+
+      const applied = await CouponService.applyCoupon('launch20', 'user-1', module, 50);
+
+      expect(mockCouponModel.findByCode).toHaveBeenCalledWith('launch20');
+      expect(applied.discountAmount).toBe(10);
+    });
+
+    it('should convert a fixed discount into the currency of the module', async () => {
+      mockCouponModel.findByCode.mockResolvedValueOnce(coupon({ discount_type: 'fixed', discount_value: 10, currency: 'USD' }));
+      const convert = jest.spyOn(CurrencyService, 'convertAtCurrentRates').mockResolvedValueOnce(9.2);
+
+      const applied = await CouponService.applyCoupon('FIXED10', 'user-1', module, 50);
+
+      expect(convert).toHaveBeenCalledWith(10, 'USD', 'EUR');
+      expect(applied.discountAmount).toBe(9.2);
+    });
+
+    it.each([
+      ['an unknown code', null, 'Invalid coupon code'],
+      ['a deactivated coupon', coupon({ is_active: false }), 'Invalid coupon code'],
+      ['an expired coupon', coupon({ expires_at: new Date(Date.now() - 1000) }), 'Coupon has expired'],
+      ['a coupon for another module', coupon({ module_id: 'module-2' }), 'Coupon does not apply to this module']
+    ])('should refuse %s', async (_case, found, message) => {
+      mockCouponModel.findByCode.mockResolvedValueOnce(found);
+
+      await expect(CouponService.applyCoupon('CODE', 'user-1', module, 50)).rejects.toThrow(message);
+    });
+
+    it('should refuse a coupon that has been used up', async () => {
+      mockCouponModel.findByCode.mockResolvedValueOnce(coupon({ max_redemptions: 100 }));
+      mockCouponModel.countRedemptions.mockResolvedValueOnce({ total: 100, user: 0 });
+
+      await expect(CouponService.applyCoupon('LAUNCH20', 'user-1', module, 50)).rejects.toThrow('Coupon usage limit reached');
+    });
+
+    it('should refuse a coupon the user has used before', async () => {
+      mockCouponModel.findByCode.mockResolvedValueOnce(coupon());
+      mockCouponModel.countRedemptions.mockResolvedValueOnce({ total: 3, user: 1 });
+
+      await expect(CouponService.applyCoupon('LAUNCH20', 'user-1', module, 50)).rejects.toThrow('Coupon has already been used');
+    });
+
+    it('should refuse a first-purchase coupon to a user who has bought a module', async () => {
+      mockCouponModel.findByCode.mockResolvedValueOnce(coupon({ first_purchase_only: true }));
+      mockCouponModel.hasCompletedPurchase.mockResolvedValueOnce(true);
+
+      await expect(CouponService.applyCoupon('WELCOME', 'user-1', module, 50)).rejects.toThrow(
+        'Coupon is only valid for a first purchase'
+      );
+    });
+
+    it('should refuse a fixed discount that covers the whole price', async () => {
+      mockCouponModel.findByCode.mockResolvedValueOnce(coupon({ discount_type: 'fixed', discount_value: 50, currency: 'EUR' }));
+
+      await expect(CouponService.applyCoupon('FIXED50', 'user-1', module, 50)).rejects.toThrow(
+        'Coupon discount exceeds the module price'
+      );
+    });
+  });
+
+  describe('createCoupon', () => {
+    const input = { code: 'LAUNCH20', discount_type: 'percentage' as const, discount_value: 20, module_id: 'module-1' };
+
+    it('should let developers create coupons for their own modules', async () => {
+      mockModuleModel.findById.mockResolvedValueOnce(module);
+      mockCouponModel.create.mockResolvedValueOnce(coupon());
+
+      await CouponService.createCoupon('developer-1', 'developer', input);
+
+      expect(mockCouponModel.create).toHaveBeenCalledWith({ ...input, created_by: 'developer-1' });
+    });
+
+    it('should not let developers create coupons for other modules or for every module', async () => {
+      mockModuleModel.findById.mockResolvedValueOnce(module);
+
+      await expect(CouponService.createCoupon('developer-2', 'developer', input)).rejects.toThrow('Access denied');
+      await expect(CouponService.createCoupon('developer-1', 'developer', { ...input, module_id: undefined } as any))
+        .rejects.toThrow('Access denied');
+      expect(mockCouponModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should let admins create global coupons', async () => {
+      mockCouponModel.create.mockResolvedValueOnce(coupon({ created_by: 'admin-1' }));
+      const { module_id: _moduleId, ...global } = input;
+
+      await CouponService.createCoupon('admin-1', 'admin', global);
+
+      expect(mockModuleModel.findById).not.toHaveBeenCalled();
+      expect(mockCouponModel.create).toHaveBeenCalledWith({ ...global, created_by: 'admin-1' });
+    });
+
+    it('should report a code that is taken', async () => {
+      mockCouponModel.create.mockResolvedValueOnce(null);
+
+      await expect(CouponService.createCoupon('admin-1', 'admin', { ...input, module_id: undefined } as any))
+        .rejects.toThrow('Coupon code is already taken');
+    });
+  });
+
+  describe('redeem', () => {
+    it('should fail when concurrent checkouts used the coupon up', async () => {
+      mockCouponModel.redeem.mockResolvedValueOnce(null);
+
+      await expect(CouponService.redeem({ coupon: coupon(), discountAmount: 10 }, 'user-1', 'tx-1', 'EUR'))
+        .rejects.toThrow('Coupon usage limit reached');
+      expect(mockCouponModel.redeem).toHaveBeenCalledWith(expect.objectContaining({ id: 'coupon-1' }), 'user-1', 'tx-1', 10, 'EUR');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import axios from 'axios';
+import { CurrencyService, formatMoney, getReportingCurrency } from '../../services/currencyService';
+import { FxRateModel } from '../../models/FxRate';
+
+jest.mock('axios');
+jest.mock('../../models/FxRate');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockFxRateModel = FxRateModel as jest.Mocked<typeof FxRateModel>;
+
+describe('CurrencyService', () => {
+  const rates = { USD: 1, EUR: 0.92, RUB: 90 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env['FX_RATES_URL'];
+    delete process.env['REPORTING_CURRENCY'];
+  });
+
+  describe('convert', () => {
+    it('should convert through the dollar rates', () => {
+      expect(CurrencyService.convert(92, 'EUR', 'RUB', rates)).toBe(9000);
+      expect(CurrencyService.convert(4500, 'RUB', 'USD', rates)).toBe(50);
+    });
+
+    it('should fail without a rate for either currency', () => {
+      expect(() => CurrencyService.convert(10, 'USD', 'GBP', rates)).toThrow('No exchange rate between USD and GBP');
+    });
+
+    it('should convert a transaction at the rates snapshotted on it', () => {
+      const transaction = { amount: '100.00' as any, currency: 'USD', fx_rates: { USD: 1, RUB: 80 } };
+
+      expect(CurrencyService.convertTransaction(transaction, 'RUB', rates)).toBe(8000);
+      expect(CurrencyService.convertTransaction({ ...transaction, fx_rates: undefined as any }, 'RUB', rates)).toBe(9000);
+    });
+  });
+
+  describe('refreshRates', () => {
+    it('should do nothing without a rates provider', async () => {
+      await expect(CurrencyService.refreshRates()).resolves.toBeNull();
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should record the rates quoted by the provider', async () => {
+      process.env['FX_RATES_URL'] = 'https://rates.example.com/latest/USD';
+      mockedAxios.get.mockResolvedValueOnce({ data: { rates: { USD: 1, EUR: 0.93, RUB: 91.5, GBP: 0.79 } } });
+
+      const recorded = await CurrencyService.refreshRates();
+
+      expect(recorded).toEqual({ USD: 1, EUR: 0.93, RUB: 91.5 });
+      expect(mockFxRateModel.record).toHaveBeenCalledWith({ USD: 1, EUR: 0.93, RUB: 91.5 }, 'rates.example.com');
+    });
+
+    it('should not record a partial set of rates', async () => {
+      process.env['FX_RATES_URL'] = 'https://rates.example.com/latest/USD';
+      mockedAxios.get.mockResolvedValueOnce({ data: { rates: { EUR: 0.93 } } });
+
+      await expect(CurrencyService.refreshRates()).rejects.toThrow('Rates provider did not quote RUB');
+      expect(mockFxRateModel.record).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should report in USD unless a supported currency is configured', () => {
+    expect(getReportingCurrency()).toBe('USD');
+    process.env['REPORTING_CURRENCY'] = 'eur';
+    expect(getReportingCurrency()).toBe('EUR');
+    process.env['REPORTING_CURRENCY'] = 'GBP';
+    expect(getReportingCurrency()).toBe('USD');
+  });
+
+  it('should format amounts with the currency symbol', () => {
+    expect(formatMoney(9.2, 'EUR')).toBe('€9.20');
+  });
+});
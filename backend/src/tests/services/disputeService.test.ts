@@ -0,0 +1,288 @@
+import Stripe from 'stripe';
+import { DisputeService } from '../../services/disputeService';
+import { LedgerService } from '../../services/ledgerService';
+import { paymentService } from '../../services/paymentService';
+import { BotModuleActivationModel } from '../../models/BotModuleActivation';
+import { PaymentDisputeModel } from '../../models/PaymentDispute';
+import { TransactionModel } from '../../models/Transaction';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+  withTransaction: jest.fn((callback: (client: any) => Promise<any>) => callback(mockClient))
+}));
+jest.mock('../../models/PaymentDispute');
+jest.mock('../../services/ledgerService');
+jest.mock('../../services/paymentService', () => ({
+  paymentService: {
+    submitDisputeEvidence: jest.fn()
+  }
+}));
+
+const mockLedgerService = LedgerService as jest.Mocked<typeof LedgerService>;
+const mockPaymentService = paymentService as jest.Mocked<typeof paymentService>;
+const mockActivationModel = BotModuleActivationModel as jest.Mocked<typeof BotModuleActivationModel>;
+const mockDisputeModel = PaymentDisputeModel as jest.Mocked<typeof PaymentDisputeModel>;
+const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+
+describe('DisputeService', () => {
+  const stripeDispute = (overrides: Record<string, any> = {}) => ({
+    id: 'dp_123',
+    charge: 'ch_123',
+    payment_intent: 'pi_123',
+    amount: 4000,
+    currency: 'usd',
+    reason: 'fraudulent',
+    status: 'needs_response',
+    evidence_details: { due_by: 1737936000 },
+    ...overrides
+  }) as unknown as Stripe.Dispute;
+
+  const transaction = (overrides: Record<string, any> = {}) => ({
+    id: 'payment-1',
+    user_id: 'buyer-1',
+    type: 'payment' as const,
+    // DECIMAL columns arrive as strings
+    amount: '40.00' as any,
+    currency: 'USD',
+    status: 'completed' as const,
+    description: 'Payment for module: Shop',
+    metadata: { module_id: 'module-1', bot_id: 'bot-1' },
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  const recorded = (overrides: Record<string, any> = {}) => ({
+    id: 'dispute-1',
+    transaction_id: 'payment-1',
+    stripe_dispute_id: 'dp_123',
+    amount: 40,
+    currency: 'USD',
+    status: 'open' as const,
+    evidence: {},
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  const activation = (status: 'active' | 'inactive' | 'suspended') => ({
+    id: 'activation-1',
+    bot_id: 'bot-1',
+    module_id: 'module-1',
+    markup_percentage: 0,
+    status,
+    settings: {},
+    activated_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date()
+  });
+
+  const commission = transaction({
+    id: 'commission-1',
+    user_id: 'developer-1',
+    type: 'commission',
+    amount: '32.00',
+    metadata: { split_role: 'developer', original_transaction_id: 'payment-1' }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockTransactionModel.findByStripePaymentIntentId.mockResolvedValue(transaction());
+    mockTransactionModel.findById.mockResolvedValue(transaction());
+    mockActivationModel.findByBotAndModule.mockResolvedValue(activation('active'));
+  });
+
+  describe('openDispute', () => {
+    it('should record the dispute, freeze the module and hold its commissions', async () => {
+      mockDisputeModel.create.mockResolvedValue(recorded());
+      mockTransactionModel.findCommissionsByPayment.mockResolvedValue([commission]);
+
+      await DisputeService.openDispute(stripeDispute());
+
+      expect(mockDisputeModel.create).toHaveBeenCalledWith({
+        transaction_id: 'payment-1',
+        stripe_dispute_id: 'dp_123',
+        stripe_charge_id: 'ch_123',
+        amount: 40,
+        currency: 'USD',
+        reason: 'fraudulent',
+        stripe_status: 'needs_response',
+        evidence_due_by: new Date(1737936000 * 1000)
+      }, mockClient);
+      expect(mockActivationModel.updateStatus).toHaveBeenCalledWith('activation-1', 'suspended', mockClient);
+      expect(mockTransactionModel.findCommissionsByPayment).toHaveBeenCalledWith('payment-1', mockClient);
+      expect(mockLedgerService.holdCommission).toHaveBeenCalledWith(commission, 'dispute-1', mockClient);
+      expect(mockTransactionModel.update).toHaveBeenCalledWith('payment-1', {
+        metadata: expect.objectContaining({ dispute_id: 'dispute-1' })
+      }, mockClient);
+    });
+
+    it('should hold the wallet credit of a disputed top-up', async () => {
+      const topUp = transaction({ type: 'top_up', description: 'Wallet top-up', metadata: {} });
+      mockTransactionModel.findByStripePaymentIntentId.mockResolvedValue(topUp);
+      mockDisputeModel.create.mockResolvedValue(recorded());
+
+      await DisputeService.openDispute(stripeDispute());
+
+      expect(mockLedgerService.holdTopUp).toHaveBeenCalledWith(topUp, 40, 'dispute-1', mockClient);
+      expect(mockLedgerService.holdCommission).not.toHaveBeenCalled();
+      expect(mockActivationModel.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not hold commissions twice for a dispute it already recorded', async () => {
+      mockDisputeModel.create.mockResolvedValue(null);
+
+      await expect(DisputeService.openDispute(stripeDispute())).resolves.toBeNull();
+
+      expect(mockActivationModel.updateStatus).not.toHaveBeenCalled();
+      expect(mockLedgerService.holdCommission).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeDispute', () => {
+    const hold = transaction({
+      id: 'hold-1',
+      user_id: 'developer-1',
+      type: 'adjustment',
+      amount: '32.00',
+      metadata: { direction: 'debit', dispute_id: 'dispute-1', held_commission_id: 'commission-1', split_role: 'developer' }
+    });
+
+    beforeEach(() => {
+      mockDisputeModel.findByStripeDisputeId.mockResolvedValue(recorded());
+      mockDisputeModel.findByStripeDisputeIdForUpdate.mockResolvedValue(recorded());
+      mockTransactionModel.findDisputeHolds.mockResolvedValue([hold]);
+    });
+
+    it('should pay the held commissions back out and unfreeze the module when the dispute is won', async () => {
+      mockActivationModel.findByBotAndModule.mockResolvedValue(activation('suspended'));
+
+      await DisputeService.closeDispute(stripeDispute({ status: 'won' }));
+
+      expect(mockLedgerService.recordCommission).toHaveBeenCalledWith(
+        'developer-1',
+        32,
+        expect.any(String),
+        { dispute_id: 'dispute-1', released_hold_id: 'hold-1', split_role: 'developer' },
+        'developer_payables',
+        'USD',
+        mockClient
+      );
+      expect(mockLedgerService.recordChargeback).not.toHaveBeenCalled();
+      expect(mockActivationModel.updateStatus).toHaveBeenCalledWith('activation-1', 'active', mockClient);
+      expect(mockDisputeModel.update).toHaveBeenCalledWith('dispute-1', expect.objectContaining({
+        status: 'won',
+        stripe_status: 'won',
+        resolved_at: expect.any(Date)
+      }), mockClient);
+    });
+
+    it('should book the chargeback against the holds and deactivate the module when the dispute is lost', async () => {
+      mockActivationModel.findByBotAndModule.mockResolvedValue(activation('suspended'));
+
+      await DisputeService.closeDispute(stripeDispute({ status: 'lost' }));
+
+      expect(mockLedgerService.recordChargeback).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payment-1' }),
+        40,
+        32,
+        expect.any(String),
+        expect.objectContaining({ original_transaction_id: 'payment-1', dispute_id: 'dispute-1' }),
+        mockClient
+      );
+      expect(mockLedgerService.recordCommission).not.toHaveBeenCalled();
+      expect(mockActivationModel.updateStatus).toHaveBeenCalledWith('activation-1', 'inactive', mockClient);
+      expect(mockDisputeModel.update).toHaveBeenCalledWith(
+        'dispute-1',
+        expect.objectContaining({ status: 'lost' }),
+        mockClient
+      );
+    });
+
+    it('should return the held wallet credit of a top-up when the dispute is won', async () => {
+      const topUpHold = transaction({
+        id: 'hold-1',
+        type: 'adjustment',
+        metadata: { direction: 'debit', dispute_id: 'dispute-1', held_top_up_id: 'payment-1' }
+      });
+      mockTransactionModel.findById.mockResolvedValue(transaction({ type: 'top_up', metadata: {} }));
+      mockTransactionModel.findDisputeHolds.mockResolvedValue([topUpHold]);
+
+      await DisputeService.closeDispute(stripeDispute({ status: 'won' }));
+
+      expect(mockLedgerService.releaseTopUpHold).toHaveBeenCalledWith(topUpHold, expect.any(String), mockClient);
+      expect(mockLedgerService.recordCommission).not.toHaveBeenCalled();
+    });
+
+    it('should not reactivate a module that was deactivated while the dispute was open', async () => {
+      mockActivationModel.findByBotAndModule.mockResolvedValue(activation('inactive'));
+
+      await DisputeService.closeDispute(stripeDispute({ status: 'won' }));
+
+      expect(mockActivationModel.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not settle a dispute twice', async () => {
+      // Checked on the locked row, so a redelivered event waiting on the first one sees it settled
+      mockDisputeModel.findByStripeDisputeIdForUpdate.mockResolvedValue(recorded({ status: 'won' }));
+
+      await DisputeService.closeDispute(stripeDispute({ status: 'won' }));
+
+      expect(mockDisputeModel.findByStripeDisputeIdForUpdate).toHaveBeenCalledWith('dp_123', mockClient);
+      expect(mockLedgerService.recordCommission).not.toHaveBeenCalled();
+      expect(mockDisputeModel.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveEvidence', () => {
+    const details = (overrides: Record<string, any> = {}) => ({
+      ...recorded(overrides),
+      user_id: 'buyer-1',
+      user_email: 'buyer@example.com',
+      payment_amount: 40
+    });
+
+    it('should merge the evidence and submit it to Stripe', async () => {
+      mockDisputeModel.findById.mockResolvedValue(details({ evidence: { customer_name: 'Ivan' } }));
+      mockDisputeModel.update.mockResolvedValue(recorded());
+
+      await DisputeService.saveEvidence('dispute-1', 'admin-1', {
+        evidence: { product_description: 'Telegram bot module' },
+        submit: true
+      });
+
+      const evidence = { customer_name: 'Ivan', product_description: 'Telegram bot module' };
+      expect(mockPaymentService.submitDisputeEvidence).toHaveBeenCalledWith('dp_123', evidence);
+      expect(mockDisputeModel.update).toHaveBeenCalledWith('dispute-1', {
+        evidence,
+        assigned_to: 'admin-1',
+        evidence_submitted_at: expect.any(Date)
+      });
+    });
+
+    it('should only save a draft without submitting it', async () => {
+      mockDisputeModel.findById.mockResolvedValue(details());
+      mockDisputeModel.update.mockResolvedValue(recorded());
+
+      await DisputeService.saveEvidence('dispute-1', 'admin-1', { evidence: { customer_name: 'Ivan' }, notes: 'Asked the bot owner' });
+
+      expect(mockPaymentService.submitDisputeEvidence).not.toHaveBeenCalled();
+      expect(mockDisputeModel.update).toHaveBeenCalledWith('dispute-1', {
+        evidence: { customer_name: 'Ivan' },
+        assigned_to: 'admin-1',
+        notes: 'Asked the bot owner'
+      });
+    });
+
+    it('should refuse evidence for a submitted dispute', async () => {
+      mockDisputeModel.findById.mockResolvedValue(details({ evidence_submitted_at: new Date() }));
+
+      await expect(DisputeService.saveEvidence('dispute-1', 'admin-1', { evidence: {} }))
+        .rejects.toThrow('Evidence has already been submitted');
+    });
+  });
+});
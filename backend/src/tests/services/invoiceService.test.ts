@@ -0,0 +1,221 @@
+import fs from 'fs/promises';
+import zlib from 'zlib';
+import { InvoiceService, renderInvoicePdf } from '../../services/invoiceService';
+import { InvoiceModel } from '../../models/Invoice';
+import { UserModel } from '../../models/User';
+
+jest.mock('fs/promises');
+jest.mock('../../models/Invoice', () => ({
+  ...jest.requireActual('../../models/Invoice'),
+  InvoiceModel: {
+    create: jest.fn(),
+    findById: jest.fn(),
+    findByTransactionId: jest.fn(),
+    setFileName: jest.fn()
+  }
+}));
+
+// Text drawn in an embedded font is stored as glyph ids; each font's ToUnicode map turns them back into
+// characters. Returns the text of every text-showing operator on the pages, in drawing order.
+const pdfText = (pdf: Buffer): string[] => {
+  const raw = pdf.toString('latin1');
+  const objects = new Map([...raw.matchAll(/(\d+) 0 obj\n([\s\S]*?)\nendobj/g)].map(([, id, body]) => [id!, body!]));
+  const inflate = (id: string): string => {
+    const data = objects.get(id)!.match(/stream\n([\s\S]*)\nendstream/)![1]!;
+    return zlib.inflateSync(Buffer.from(data, 'latin1')).toString('latin1');
+  };
+  const hexToString = (hex: string): string => String.fromCharCode(...hex.match(/.{4}/g)!.map(code => parseInt(code, 16)));
+
+  const glyphMaps = new Map<string, Map<number, string>>();
+  for (const [, name, id] of raw.matchAll(/\/(F\d+) (\d+) 0 R/g)) {
+    const cmap = inflate(objects.get(id!)!.match(/\/ToUnicode (\d+) 0 R/)![1]!);
+    const glyphs = new Map<number, string>();
+    for (const [, start, , codes] of cmap.matchAll(/<(\w+)> <(\w+)> \[([^\]]*)\]/g)) {
+      [...codes!.matchAll(/<(\w+)>/g)].forEach(([, code], index) => glyphs.set(parseInt(start!, 16) + index, hexToString(code!)));
+    }
+    glyphMaps.set(name!, glyphs);
+  }
+
+  const contents = [...raw.matchAll(/\/Contents (\d+) 0 R/g)].map(([, id]) => inflate(id!)).join('\n');
+  return [...contents.matchAll(/\/(F\d+) [\d.]+ Tf\n\[([^\]]*)\] TJ/g)].map(([, font, shown]) =>
+    [...shown!.matchAll(/<(\w+)>/g)]
+      .flatMap(([, hex]) => hex!.match(/.{4}/g)!)
+      .map(glyph => glyphMaps.get(font!)!.get(parseInt(glyph, 16)))
+      .join(''));
+};
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+const mockInvoiceModel = InvoiceModel as jest.Mocked<typeof InvoiceModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+describe('InvoiceService', () => {
+  const transaction = (overrides: Record<string, any> = {}) => ({
+    id: 'tx-1',
+    user_id: 'user-1',
+    type: 'payment' as const,
+    // DECIMAL columns arrive as strings
+    amount: '120.00' as any,
+    currency: 'EUR',
+    status: 'completed' as const,
+    description: 'Payment for module: Shop',
+    metadata: {
+      markup_percentage: 20,
+      revenue_split: { base_amount: 100, markup_amount: 20 }
+    },
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  // Whatever the service builds comes back numbered
+  const issued = () => ({
+    id: 'invoice-1',
+    number: 'INV-2025-000001',
+    issued_at: new Date('2025-01-31T10:00:00Z'),
+    created_at: new Date(),
+    ...mockInvoiceModel.create.mock.calls[0]![0]
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env['INVOICE_TAX_RATE'];
+    mockInvoiceModel.findByTransactionId.mockResolvedValue(null);
+    mockInvoiceModel.create.mockImplementation(async () => issued());
+    mockUserModel.findById.mockResolvedValue({
+      id: 'user-1',
+      email: 'buyer@example.com',
+      first_name: 'Ivan',
+      last_name: 'Petrov'
+    } as any);
+  });
+
+  it('should invoice the module price and the markup with the tax included in them', async () => {
+    process.env['INVOICE_TAX_RATE'] = '20';
+
+    const invoice = await InvoiceService.issueForTransaction(transaction());
+
+    expect(mockInvoiceModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      document_type: 'invoice',
+      transaction_id: 'tx-1',
+      currency: 'EUR',
+      line_items: [
+        { description: 'Payment for module: Shop', quantity: 1, unit_price: 100, amount: 100 },
+        { description: 'Bot owner markup (20%)', quantity: 1, unit_price: 20, amount: 20 }
+      ],
+      tax_lines: [{ name: 'VAT 20%', rate: 20, taxable_amount: 100, amount: 20 }],
+      subtotal: 100,
+      tax_total: 20,
+      total: 120,
+      buyer: { name: 'Ivan Petrov', email: 'buyer@example.com' }
+    }));
+    expect(mockFs.writeFile).toHaveBeenCalledWith(expect.stringContaining('INV-2025-000001.pdf'), expect.any(Buffer));
+    expect(mockInvoiceModel.setFileName).toHaveBeenCalledWith('invoice-1', 'INV-2025-000001.pdf');
+    expect(invoice?.number).toBe('INV-2025-000001');
+  });
+
+  it('should invoice the full module price less the coupon discount', async () => {
+    await InvoiceService.issueForTransaction(transaction({
+      amount: '100.00',
+      metadata: {
+        markup_percentage: 20,
+        revenue_split: { base_amount: 80, markup_amount: 20 },
+        coupon_code: 'LAUNCH20',
+        discount_amount: 20
+      }
+    }));
+
+    expect(mockInvoiceModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      line_items: [
+        { description: 'Payment for module: Shop', quantity: 1, unit_price: 100, amount: 100 },
+        { description: 'Bot owner markup (20%)', quantity: 1, unit_price: 20, amount: 20 },
+        { description: 'Coupon LAUNCH20', quantity: 1, unit_price: -20, amount: -20 }
+      ],
+      total: 100
+    }));
+  });
+
+  it('should not issue a second document for a transaction', async () => {
+    mockInvoiceModel.findByTransactionId.mockResolvedValue({ id: 'invoice-1' } as any);
+
+    await expect(InvoiceService.issueForTransaction(transaction())).resolves.toEqual({ id: 'invoice-1' });
+    expect(mockInvoiceModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should only issue documents for completed payments, refunds and withdrawals', async () => {
+    await expect(InvoiceService.issueForTransaction(transaction({ status: 'pending' }))).resolves.toBeNull();
+    await expect(InvoiceService.issueForTransaction(transaction({ type: 'commission' }))).resolves.toBeNull();
+    expect(mockInvoiceModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should show the commission kept from a withdrawal and the amount paid out', async () => {
+    await InvoiceService.issueForTransaction(transaction({
+      type: 'withdrawal',
+      amount: '100.00',
+      metadata: { withdrawal_method: 'paypal', commission_amount: 3.5, net_amount: 96.5 }
+    }));
+
+    expect(mockInvoiceModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      document_type: 'withdrawal_receipt',
+      line_items: [
+        { description: 'Withdrawal via PayPal', quantity: 1, unit_price: 100, amount: 100 },
+        { description: 'Withdrawal commission', quantity: 1, unit_price: -3.5, amount: -3.5 }
+      ],
+      tax_lines: [],
+      total: 96.5
+    }));
+  });
+
+  it('should refer a credit note to the invoice of the refunded payment', async () => {
+    mockInvoiceModel.findByTransactionId
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ number: 'INV-2025-000001' } as any);
+
+    await InvoiceService.issueForTransaction(transaction({
+      id: 'tx-2',
+      type: 'refund',
+      amount: '40.00',
+      metadata: { original_transaction_id: 'tx-1' }
+    }));
+
+    expect(mockInvoiceModel.findByTransactionId).toHaveBeenLastCalledWith('tx-1');
+    expect(mockInvoiceModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      document_type: 'credit_note',
+      line_items: [{ description: 'Refund of INV-2025-000001', quantity: 1, unit_price: 40, amount: 40 }]
+    }));
+  });
+
+  it('should only let the owner or an admin download a document', async () => {
+    mockInvoiceModel.findById.mockResolvedValue({
+      id: 'invoice-1',
+      number: 'INV-2025-000001',
+      user_id: 'user-1',
+      file_name: 'INV-2025-000001.pdf'
+    } as any);
+    mockFs.access.mockResolvedValue(undefined);
+
+    await expect(InvoiceService.getPdf('invoice-1', { id: 'user-2', role: 'user' })).rejects.toThrow('Invoice not found');
+    await expect(InvoiceService.getPdf('invoice-1', { id: 'admin-1', role: 'admin' })).resolves.toEqual({
+      path: expect.stringContaining('INV-2025-000001.pdf'),
+      fileName: 'INV-2025-000001.pdf'
+    });
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should render the number, parties and totals into the PDF', async () => {
+    process.env['INVOICE_TAX_RATE'] = '20';
+    await InvoiceService.issueForTransaction(transaction());
+
+    const pdf = await renderInvoicePdf({ ...issued(), buyer: { name: 'Иван Петров', email: 'buyer@example.com' } } as any);
+    const text = pdfText(pdf);
+
+    expect(pdf.toString('latin1').startsWith('%PDF-')).toBe(true);
+    expect(text).toEqual(expect.arrayContaining([
+      'INVOICE',
+      'No. INV-2025-000001',
+      'Иван Петров',
+      'VAT 20%',
+      '120.00 EUR'
+    ]));
+    expect(pdf.toString('latin1').trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
@@ -0,0 +1,556 @@
+import { LedgerService } from '../../services/ledgerService';
+import { LedgerModel } from '../../models/Ledger';
+import { PayoutModel } from '../../models/Payout';
+import { TransactionModel } from '../../models/Transaction';
+import { UserModel } from '../../models/User';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+  withTransaction: jest.fn((callback: (client: any) => Promise<any>) => callback(mockClient))
+}));
+jest.mock('../../models/Ledger');
+jest.mock('../../models/Payout');
+jest.mock('../../models/Transaction');
+jest.mock('../../models/User');
+
+const mockLedgerModel = LedgerModel as jest.Mocked<typeof LedgerModel>;
+const mockPayoutModel = PayoutModel as jest.Mocked<typeof PayoutModel>;
+const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+describe('LedgerService', () => {
+  const mockUser = {
+    id: 'user-1',
+    email: 'user@example.com',
+    password_hash: 'hash',
+    role: 'user' as const,
+    balance: 100,
+    referral_code: 'REF',
+    email_verified: true,
+    verification_level: 'email_verified' as const,
+    status: 'active' as const,
+    display_currency: 'USD' as const,
+    theme_preference: 'system' as const,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const account = (code: string) => ({
+    id: `account-${code}`,
+    code,
+    name: code,
+    type: 'liability' as const,
+    currency: 'USD',
+    created_at: new Date()
+  });
+
+  const transaction = (overrides: Record<string, any> = {}) => ({
+    id: 'tx-1',
+    user_id: 'user-1',
+    type: 'payment' as const,
+    // DECIMAL columns arrive as strings
+    amount: '40.00' as any,
+    currency: 'USD',
+    status: 'pending' as const,
+    description: 'Payment for module: Shop',
+    metadata: {},
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  const postedLines = () => mockLedgerModel.createEntry.mock.calls[0]![0].postings
+    .map(posting => [posting.account_id, posting.direction, posting.amount]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLedgerModel.findAccountByCode.mockImplementation(async code => account(code));
+    mockLedgerModel.findOrCreateUserAccount.mockImplementation(async userId => account(`user:${userId}`));
+    mockLedgerModel.createEntry.mockResolvedValue({ id: 'entry-1', description: '', created_at: new Date() });
+    mockUserModel.findByIdForUpdate.mockResolvedValue(mockUser);
+  });
+
+  describe('completePayment', () => {
+    it('should complete the payment and book it against Stripe clearing', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction());
+      mockTransactionModel.update.mockResolvedValue(transaction({ status: 'completed' }));
+
+      const completed = await LedgerService.completePayment('tx-1');
+
+      expect(completed?.status).toBe('completed');
+      expect(mockTransactionModel.update).toHaveBeenCalledWith('tx-1', expect.objectContaining({
+        status: 'completed',
+        processed_at: expect.any(Date)
+      }), mockClient);
+      expect(mockLedgerModel.createEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ transaction_id: 'tx-1' }),
+        mockClient
+      );
+      expect(postedLines()).toEqual([
+        ['account-stripe_clearing', 'debit', 40],
+        ['account-platform_revenue', 'credit', 40]
+      ]);
+      // Neither side is a user wallet
+      expect(mockUserModel.updateBalance).not.toHaveBeenCalled();
+    });
+
+    it('should book the commissions of a payment in the same transaction', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction());
+      mockTransactionModel.update.mockResolvedValue(transaction({ status: 'completed' }));
+      mockTransactionModel.create.mockResolvedValue(transaction({ id: 'tx-2', type: 'commission', status: 'completed' }));
+
+      await LedgerService.completePayment('tx-1', [
+        { user_id: 'developer-1', amount: 32, description: 'Developer payout', metadata: { split_role: 'developer' } }
+      ], { revenue_split: { platform_fee: 8 } });
+
+      expect(mockTransactionModel.update).toHaveBeenCalledWith('tx-1', expect.objectContaining({
+        metadata: { revenue_split: { platform_fee: 8 } }
+      }), mockClient);
+      expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'developer-1',
+        type: 'commission',
+        amount: 32
+      }), mockClient);
+      expect(mockLedgerModel.createEntry.mock.calls[1]![0].postings).toEqual([
+        { account_id: 'account-platform_revenue', direction: 'debit', amount: 32 },
+        { account_id: 'account-user:developer-1', direction: 'credit', amount: 32 }
+      ]);
+      expect(mockUserModel.updateBalance).toHaveBeenCalledWith('developer-1', 32, mockClient);
+    });
+
+    it('should book a payment in the currency it was made in', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ amount: '3600.00', currency: 'RUB' }));
+      mockTransactionModel.update.mockResolvedValue(transaction({ status: 'completed', currency: 'RUB' }));
+
+      await LedgerService.completePayment('tx-1');
+
+      expect(mockLedgerModel.findAccountByCode).toHaveBeenCalledWith('stripe_clearing:RUB', mockClient);
+      expect(postedLines()).toEqual([
+        ['account-stripe_clearing:RUB', 'debit', 3600],
+        ['account-platform_revenue:RUB', 'credit', 3600]
+      ]);
+    });
+
+    it('should not book a payment twice', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ status: 'completed' }));
+
+      await expect(LedgerService.completePayment('tx-1')).resolves.toBeNull();
+      expect(mockTransactionModel.update).not.toHaveBeenCalled();
+      expect(mockLedgerModel.createEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('wallet payments', () => {
+    it('should pay from the wallet when it covers the amount', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction());
+      mockTransactionModel.update.mockResolvedValue(transaction({ status: 'completed' }));
+      mockLedgerModel.getUserBalance.mockResolvedValue(50);
+
+      await LedgerService.completeWalletPayment('tx-1');
+
+      expect(mockUserModel.findByIdForUpdate).toHaveBeenCalledWith('user-1', mockClient);
+      expect(postedLines()).toEqual([
+        ['account-user:user-1', 'debit', 40],
+        ['account-platform_revenue', 'credit', 40]
+      ]);
+      expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', -40, mockClient);
+    });
+
+    it('should refuse a wallet payment larger than the ledger balance', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction());
+      mockLedgerModel.getUserBalance.mockResolvedValue(39.99);
+
+      await expect(LedgerService.completeWalletPayment('tx-1')).rejects.toThrow('Insufficient balance');
+      expect(mockTransactionModel.update).not.toHaveBeenCalled();
+      expect(mockLedgerModel.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('should hold the wallet share of a mixed payment', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ metadata: { wallet_amount: 15 } }));
+      mockLedgerModel.getUserBalance.mockResolvedValue(15);
+
+      await LedgerService.holdWalletFunds('tx-1', 15);
+
+      expect(postedLines()).toEqual([
+        ['account-user:user-1', 'debit', 15],
+        ['account-wallet_holds', 'credit', 15]
+      ]);
+      expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', -15, mockClient);
+    });
+
+    it('should settle a mixed payment from its hold and Stripe clearing', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ metadata: { wallet_amount: 15 } }));
+      mockTransactionModel.update.mockResolvedValue(transaction({ status: 'completed' }));
+
+      await LedgerService.completePayment('tx-1');
+
+      expect(postedLines()).toEqual([
+        ['account-stripe_clearing', 'debit', 25],
+        ['account-wallet_holds', 'debit', 15],
+        ['account-platform_revenue', 'credit', 40]
+      ]);
+      expect(mockUserModel.updateBalance).not.toHaveBeenCalled();
+    });
+
+    it('should return the held share to the wallet when the card payment fails', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ metadata: { wallet_amount: 15 } }));
+      mockTransactionModel.update.mockResolvedValue(transaction({ status: 'failed' }));
+
+      await LedgerService.failPayment('tx-1');
+
+      expect(mockTransactionModel.update).toHaveBeenCalledWith('tx-1', expect.objectContaining({ status: 'failed' }), mockClient);
+      expect(postedLines()).toEqual([
+        ['account-wallet_holds', 'debit', 15],
+        ['account-user:user-1', 'credit', 15]
+      ]);
+      expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', 15, mockClient);
+    });
+
+    it('should not release a hold twice', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(
+        transaction({ status: 'failed', metadata: { wallet_amount: 15 } })
+      );
+
+      await expect(LedgerService.failPayment('tx-1')).resolves.toBeNull();
+      expect(mockLedgerModel.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('should credit a paid top-up to the wallet once', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValueOnce(transaction({ type: 'top_up' }));
+      mockTransactionModel.update.mockResolvedValue(transaction({ type: 'top_up', status: 'completed' }));
+
+      await LedgerService.completeTopUp('tx-1');
+
+      expect(postedLines()).toEqual([
+        ['account-stripe_clearing', 'debit', 40],
+        ['account-user:user-1', 'credit', 40]
+      ]);
+      expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', 40, mockClient);
+
+      mockTransactionModel.findByIdForUpdate.mockResolvedValueOnce(transaction({ type: 'top_up', status: 'completed' }));
+      await expect(LedgerService.completeTopUp('tx-1')).resolves.toBeNull();
+      expect(mockLedgerModel.createEntry).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('refunds', () => {
+    const completedPayment = (metadata: Record<string, any> = {}) =>
+      transaction({ status: 'completed', amount: '40.00', metadata });
+
+    beforeEach(() => {
+      mockTransactionModel.findRefundsByPayment.mockResolvedValue([]);
+      mockTransactionModel.create.mockResolvedValue(transaction({ id: 'tx-2', type: 'refund', status: 'completed' }));
+    });
+
+    it('should refund the card share first and the rest to the wallet, under a lock on the payment', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(completedPayment({ wallet_amount: 15 }));
+      const refundCard = jest.fn().mockResolvedValue({ stripe_refund_id: 're_1' });
+
+      const { remaining } = (await LedgerService.recordRefund('tx-1', 30, 'Refund', { refund_reason: 'duplicate' }, refundCard))!;
+
+      expect(mockTransactionModel.findByIdForUpdate).toHaveBeenCalledWith('tx-1', mockClient);
+      expect(mockTransactionModel.findRefundsByPayment).toHaveBeenCalledWith('tx-1', mockClient);
+      expect(refundCard).toHaveBeenCalledWith(expect.objectContaining({ id: 'tx-1' }), 25, 'refund:tx-1:1');
+      expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'refund',
+        amount: 30,
+        metadata: { refund_reason: 'duplicate', stripe_refund_id: 're_1', original_transaction_id: 'tx-1', wallet_amount: 5 }
+      }), mockClient);
+      expect(postedLines()).toEqual([
+        ['account-platform_revenue', 'debit', 30],
+        ['account-stripe_clearing', 'credit', 25],
+        ['account-user:user-1', 'credit', 5]
+      ]);
+      expect(remaining).toBe(10);
+    });
+
+    it('should refund only what earlier refunds left, from the wallet once the card share is used up', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(completedPayment({ wallet_amount: 15 }));
+      mockTransactionModel.findRefundsByPayment.mockResolvedValue([
+        transaction({ id: 'refund-1', type: 'refund', amount: '30.00', metadata: { wallet_amount: 5 } })
+      ]);
+      const refundCard = jest.fn();
+
+      await expect(LedgerService.recordRefund('tx-1', 10.01, 'Refund', {}, refundCard))
+        .rejects.toThrow('Refund exceeds the amount left to refund');
+
+      await LedgerService.recordRefund('tx-1', undefined, 'Refund', {}, refundCard);
+
+      expect(refundCard).not.toHaveBeenCalled();
+      expect(postedLines()).toEqual([
+        ['account-platform_revenue', 'debit', 10],
+        ['account-user:user-1', 'credit', 10]
+      ]);
+    });
+
+    it('should not refund a card-only payment to the wallet', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(completedPayment());
+
+      await expect(LedgerService.recordRefund('tx-1', 50, 'Refund', {}, jest.fn()))
+        .rejects.toThrow('Refund exceeds the amount left to refund');
+      expect(mockLedgerModel.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('should only refund completed payments', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValueOnce(transaction({ type: 'top_up', status: 'completed' }));
+      await expect(LedgerService.recordRefund('tx-1', 10, 'Refund')).rejects.toThrow('Transaction not found');
+
+      mockTransactionModel.findByIdForUpdate.mockResolvedValueOnce(transaction());
+      await expect(LedgerService.recordRefund('tx-1', 10, 'Refund')).rejects.toThrow('Can only refund completed transactions');
+
+      expect(mockTransactionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should not book a Stripe refund twice', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(completedPayment());
+      mockTransactionModel.findRefundsByPayment.mockResolvedValue([
+        transaction({ id: 'refund-1', type: 'refund', amount: '10.00', metadata: { stripe_refund_id: 're_1' } })
+      ]);
+
+      await expect(LedgerService.recordRefund('tx-1', 10, 'Refund', { stripe_refund_id: 're_1' })).resolves.toBeNull();
+      expect(mockTransactionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should take a top-up refunded in Stripe back out of the wallet, even when it was spent', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ type: 'top_up', status: 'completed' }));
+
+      const result = await LedgerService.recordTopUpRefund('tx-1', 40, 'Refund', { stripe_refund_id: 're_1' });
+
+      expect(mockLedgerModel.getUserBalance).not.toHaveBeenCalled();
+      expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'refund',
+        amount: 40,
+        metadata: { stripe_refund_id: 're_1', original_transaction_id: 'tx-1' }
+      }), mockClient);
+      expect(postedLines()).toEqual([
+        ['account-user:user-1', 'debit', 40],
+        ['account-stripe_clearing', 'credit', 40]
+      ]);
+      expect(result!.remaining).toBe(0);
+    });
+
+    it('should keep a refund made in Stripe within the card share', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(completedPayment({ wallet_amount: 15 }));
+
+      await expect(LedgerService.recordRefund('tx-1', 30, 'Refund')).rejects.toThrow('Refund exceeds the amount left to refund');
+    });
+  });
+
+  describe('disputes', () => {
+    it('should hold a disputed commission in developer payables even when it was spent', async () => {
+      mockTransactionModel.create.mockResolvedValue(transaction({ id: 'tx-2', type: 'adjustment', status: 'completed' }));
+
+      await LedgerService.holdCommission(
+        transaction({ id: 'commission-1', user_id: 'developer-1', type: 'commission', amount: '32.00' }),
+        'dispute-1'
+      );
+
+      expect(mockLedgerModel.getUserBalance).not.toHaveBeenCalled();
+      expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'developer-1',
+        type: 'adjustment',
+        amount: 32,
+        metadata: expect.objectContaining({ direction: 'debit', dispute_id: 'dispute-1', held_commission_id: 'commission-1' })
+      }), mockClient);
+      expect(postedLines()).toEqual([
+        ['account-user:developer-1', 'debit', 32],
+        ['account-developer_payables', 'credit', 32]
+      ]);
+    });
+
+    it('should pay a lost dispute from the held commissions and platform revenue', async () => {
+      mockTransactionModel.create.mockResolvedValue(transaction({ id: 'tx-2', type: 'refund', status: 'completed' }));
+
+      await LedgerService.recordChargeback(transaction(), 40, 32, 'Chargeback');
+
+      expect(postedLines()).toEqual([
+        ['account-developer_payables', 'debit', 32],
+        ['account-platform_revenue', 'debit', 8],
+        ['account-stripe_clearing', 'credit', 40]
+      ]);
+    });
+
+    it('should hold the wallet credit of a disputed top-up even when it was spent', async () => {
+      mockTransactionModel.create.mockResolvedValue(transaction({ id: 'tx-2', type: 'adjustment', status: 'completed' }));
+
+      await LedgerService.holdTopUp(transaction({ id: 'top-up-1', type: 'top_up', status: 'completed' }), 40, 'dispute-1');
+
+      expect(mockLedgerModel.getUserBalance).not.toHaveBeenCalled();
+      expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'adjustment',
+        amount: 40,
+        metadata: { direction: 'debit', dispute_id: 'dispute-1', held_top_up_id: 'top-up-1' }
+      }), mockClient);
+      expect(postedLines()).toEqual([
+        ['account-user:user-1', 'debit', 40],
+        ['account-wallet_holds', 'credit', 40]
+      ]);
+    });
+
+    it('should pay a lost top-up dispute from the held wallet credit', async () => {
+      mockTransactionModel.create.mockResolvedValue(transaction({ id: 'tx-2', type: 'refund', status: 'completed' }));
+
+      await LedgerService.recordChargeback(transaction({ type: 'top_up' }), 40, 40, 'Chargeback');
+
+      expect(postedLines()).toEqual([
+        ['account-wallet_holds', 'debit', 40],
+        ['account-stripe_clearing', 'credit', 40]
+      ]);
+    });
+  });
+
+  it('should credit a commission to the wallet and its cached balance', async () => {
+    mockTransactionModel.create.mockResolvedValue(transaction({ id: 'tx-2', type: 'commission', status: 'completed' }));
+
+    await LedgerService.recordCommission('user-1', 4.005, 'Referral commission', { referral_user_id: 'user-2' });
+
+    expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'commission',
+      amount: 4.01,
+      status: 'completed'
+    }), mockClient);
+    expect(postedLines()).toEqual([
+      ['account-platform_revenue', 'debit', 4.01],
+      ['account-user:user-1', 'credit', 4.01]
+    ]);
+    expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', 4.01, mockClient);
+  });
+
+  describe('withdrawals', () => {
+    it('should hold the requested amount back from the wallet', async () => {
+      mockLedgerModel.getUserBalance.mockResolvedValue(100);
+      mockTransactionModel.create.mockResolvedValue(transaction({ type: 'withdrawal' }));
+
+      await LedgerService.requestWithdrawal('user-1', 40, 'Withdrawal request via paypal');
+
+      expect(mockUserModel.findByIdForUpdate).toHaveBeenCalledWith('user-1', mockClient);
+      expect(mockLedgerModel.getUserBalance).toHaveBeenCalledWith('user-1', 'USD', mockClient);
+      expect(postedLines()).toEqual([
+        ['account-user:user-1', 'debit', 40],
+        ['account-withdrawal_payouts', 'credit', 40]
+      ]);
+      expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', -40, mockClient);
+    });
+
+    it('should hold a withdrawal in another currency back from that wallet only', async () => {
+      mockLedgerModel.getUserBalance.mockResolvedValue(5000);
+      mockLedgerModel.findOrCreateUserAccount.mockImplementation(async (userId, currency) =>
+        account(`user:${userId}:${currency}`));
+      mockTransactionModel.create.mockResolvedValue(transaction({ type: 'withdrawal', currency: 'RUB' }));
+
+      await LedgerService.requestWithdrawal('user-1', 3000, 'Withdrawal request via paypal', undefined, 'RUB');
+
+      expect(mockLedgerModel.getUserBalance).toHaveBeenCalledWith('user-1', 'RUB', mockClient);
+      expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({ currency: 'RUB' }), mockClient);
+      expect(postedLines()).toEqual([
+        ['account-user:user-1:RUB', 'debit', 3000],
+        ['account-withdrawal_payouts:RUB', 'credit', 3000]
+      ]);
+      // users.balance caches the USD wallet
+      expect(mockUserModel.updateBalance).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a withdrawal larger than the ledger balance', async () => {
+      mockLedgerModel.getUserBalance.mockResolvedValue(30);
+
+      await expect(LedgerService.requestWithdrawal('user-1', 40, 'Withdrawal')).rejects.toThrow('Insufficient balance');
+      expect(mockTransactionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should pay out the net amount and keep the commission as revenue', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({
+        type: 'withdrawal',
+        metadata: { commission_amount: 1 }
+      }));
+      mockTransactionModel.update.mockResolvedValue(transaction({ type: 'withdrawal', status: 'completed' }));
+
+      await LedgerService.completeWithdrawal('tx-1', { admin_approved: true });
+
+      expect(mockTransactionModel.update).toHaveBeenCalledWith('tx-1', expect.objectContaining({
+        status: 'completed',
+        metadata: { commission_amount: 1, admin_approved: true }
+      }), mockClient);
+      expect(postedLines()).toEqual([
+        ['account-withdrawal_payouts', 'debit', 40],
+        ['account-stripe_clearing', 'credit', 39],
+        ['account-platform_revenue', 'credit', 1]
+      ]);
+      expect(mockUserModel.updateBalance).not.toHaveBeenCalled();
+    });
+
+    it('should return a rejected withdrawal to the wallet', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ type: 'withdrawal' }));
+      mockTransactionModel.update.mockResolvedValue(transaction({ type: 'withdrawal', status: 'failed' }));
+
+      await LedgerService.releaseWithdrawal('tx-1', 'failed');
+
+      expect(postedLines()).toEqual([
+        ['account-withdrawal_payouts', 'debit', 40],
+        ['account-user:user-1', 'credit', 40]
+      ]);
+      expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', 40, mockClient);
+    });
+
+    it('should not release a withdrawal whose payout has not failed', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ type: 'withdrawal' }));
+      mockPayoutModel.findByTransactionId.mockResolvedValueOnce({ status: 'processing' } as any);
+
+      await expect(LedgerService.releaseWithdrawal('tx-1', 'cancelled')).rejects.toThrow('Withdrawal is already being paid out');
+      expect(mockPayoutModel.findByTransactionId).toHaveBeenCalledWith('tx-1', mockClient);
+      expect(mockLedgerModel.createEntry).not.toHaveBeenCalled();
+
+      mockPayoutModel.findByTransactionId.mockResolvedValueOnce({ status: 'failed' } as any);
+      mockTransactionModel.update.mockResolvedValue(transaction({ type: 'withdrawal', status: 'failed' }));
+      await LedgerService.releaseWithdrawal('tx-1', 'failed');
+      expect(mockLedgerModel.createEntry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not settle a withdrawal that was already processed', async () => {
+      mockTransactionModel.findByIdForUpdate.mockResolvedValue(transaction({ type: 'withdrawal', status: 'cancelled' }));
+
+      await expect(LedgerService.completeWithdrawal('tx-1')).rejects.toThrow('Withdrawal has already been processed');
+      expect(mockLedgerModel.createEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should debit manual adjustments against platform equity', async () => {
+    mockLedgerModel.getUserBalance.mockResolvedValue(100);
+    mockTransactionModel.create.mockResolvedValue(transaction({ type: 'adjustment', status: 'completed' }));
+
+    await LedgerService.adjustBalance('user-1', -25, 'Admin debit adjustment', { source: 'admin' });
+
+    expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'adjustment',
+      amount: 25,
+      metadata: { source: 'admin', direction: 'debit' }
+    }), mockClient);
+    expect(postedLines()).toEqual([
+      ['account-user:user-1', 'debit', 25],
+      ['account-platform_equity', 'credit', 25]
+    ]);
+    expect(mockUserModel.updateBalance).toHaveBeenCalledWith('user-1', -25, mockClient);
+  });
+
+  it('should flag users whose cached balance differs from the ledger', async () => {
+    mockLedgerModel.findBalanceMismatches.mockResolvedValue([
+      { user_id: 'user-1', cached_balance: 100, ledger_balance: 90 }
+    ]);
+    mockLedgerModel.recordDiscrepancy.mockResolvedValue({
+      id: 'discrepancy-1',
+      user_id: 'user-1',
+      cached_balance: 100,
+      ledger_balance: 90,
+      detected_at: new Date()
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const discrepancies = await LedgerService.reconcile();
+
+    expect(discrepancies).toHaveLength(1);
+    expect(mockLedgerModel.recordDiscrepancy).toHaveBeenCalledWith('user-1', 100, 90);
+    expect(mockLedgerModel.resolveDiscrepancies).toHaveBeenCalledWith(['user-1']);
+  });
+});
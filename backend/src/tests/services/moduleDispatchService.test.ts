@@ -0,0 +1,191 @@
+import axios from 'axios';
+import { ModuleDispatchService } from '../../services/moduleDispatchService';
+import { BotModuleActivationModel } from '../../models/BotModuleActivation';
+import { BotModel } from '../../models/Bot';
+import { BotSubscriberModel } from '../../models/BotSubscriber';
+import { TelegramService } from '../../services/telegramService';
+
+// Request signing needs the real createHmac
+jest.mock('crypto', () => jest.requireActual('crypto'));
+jest.mock('axios');
+jest.mock('../../models/BotModuleActivation', () => ({
+  BotModuleActivationModel: {
+    getWebhookActivations: jest.fn(),
+  },
+}));
+jest.mock('../../models/Bot', () => ({
+  BotModel: {
+    getDecryptedToken: jest.fn(),
+  },
+}));
+jest.mock('../../models/BotSubscriber');
+jest.mock('../../services/telegramService');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockActivationModel = BotModuleActivationModel as jest.Mocked<typeof BotModuleActivationModel>;
+const mockBotModel = BotModel as jest.Mocked<typeof BotModel>;
+const mockSubscriberModel = BotSubscriberModel as jest.Mocked<typeof BotSubscriberModel>;
+const mockTelegramService = TelegramService as jest.Mocked<typeof TelegramService>;
+
+describe('ModuleDispatchService', () => {
+  const mockBot = {
+    id: 'bot-1',
+    user_id: 'user-1',
+    telegram_bot_id: '123456789',
+    name: 'Test Bot',
+    username: 'testbot',
+    token_hash: 'encrypted-token',
+    status: 'active' as const,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const mockActivation = {
+    id: 'activation-1',
+    bot_id: 'bot-1',
+    module_id: 'module-1',
+    markup_percentage: 0,
+    api_key: 'module-api-key',
+    status: 'active' as const,
+    settings: { greeting: 'Hi' },
+    activated_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+    module_name: 'Greeter',
+    module_api_endpoints: ['/docs', 'https://module.example.com/updates']
+  };
+
+  const messageUpdate = {
+    update_id: 1,
+    message: {
+      message_id: 10,
+      date: 0,
+      chat: { id: 42, type: 'private' as const },
+      text: '/start'
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBotModel.getDecryptedToken.mockResolvedValue('bot-token');
+  });
+
+  describe('signPayload', () => {
+    it('should produce a stable HMAC-SHA256 hex digest', () => {
+      const signature = ModuleDispatchService.signPayload('key', 1700000000, '{"a":1}');
+
+      expect(signature).toMatch(/^[a-f0-9]{64}$/);
+      expect(ModuleDispatchService.signPayload('key', 1700000000, '{"a":1}')).toBe(signature);
+      expect(ModuleDispatchService.signPayload('other-key', 1700000000, '{"a":1}')).not.toBe(signature);
+    });
+  });
+
+  describe('dispatchUpdate', () => {
+    it('should do nothing when no module listens to the bot', async () => {
+      mockActivationModel.getWebhookActivations.mockResolvedValue([]);
+
+      const results = await ModuleDispatchService.dispatchUpdate(mockBot, messageUpdate);
+
+      expect(results).toEqual([]);
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should post a signed update to the module webhook and execute its actions', async () => {
+      mockActivationModel.getWebhookActivations.mockResolvedValue([mockActivation]);
+      mockedAxios.post.mockResolvedValue({
+        data: { actions: [{ type: 'sendMessage', text: 'Hello!' }] }
+      });
+      mockTelegramService.sendMessage.mockResolvedValue(true);
+
+      const results = await ModuleDispatchService.dispatchUpdate(mockBot, messageUpdate);
+
+      const [url, body, config] = mockedAxios.post.mock.calls[0]!;
+      const headers = (config as any).headers;
+      expect(url).toBe('https://module.example.com/updates');
+      expect(JSON.parse(body as string)).toEqual({
+        update: messageUpdate,
+        bot: { id: 'bot-1', username: 'testbot' },
+        activation: { id: 'activation-1', settings: { greeting: 'Hi' } }
+      });
+      expect(headers['X-Platform-Signature']).toBe(
+        `sha256=${ModuleDispatchService.signPayload('module-api-key', Number(headers['X-Platform-Timestamp']), body as string)}`
+      );
+
+      expect(mockTelegramService.sendMessage).toHaveBeenCalledWith('bot-token', 42, 'Hello!', {});
+      expect(mockSubscriberModel.findByBotAndChat).not.toHaveBeenCalled();
+      expect(results).toEqual([
+        { activationId: 'activation-1', moduleName: 'Greeter', success: true, actionsExecuted: 1 }
+      ]);
+    });
+
+    it('should only message other chats that are active subscribers of the bot', async () => {
+      mockActivationModel.getWebhookActivations.mockResolvedValue([mockActivation]);
+      mockedAxios.post.mockResolvedValue({
+        data: {
+          actions: [
+            { type: 'sendMessage', chat_id: 7, text: 'Hi subscriber' },
+            { type: 'sendMessage', chat_id: 99, text: 'Hi stranger' }
+          ]
+        }
+      });
+      mockSubscriberModel.findByBotAndChat.mockImplementation(async (_botId, chatId) =>
+        chatId === '7' ? { is_active: true } as any : null
+      );
+      mockTelegramService.sendMessage.mockResolvedValue(true);
+
+      const results = await ModuleDispatchService.dispatchUpdate(mockBot, messageUpdate);
+
+      expect(mockSubscriberModel.findByBotAndChat).toHaveBeenCalledWith('bot-1', '99');
+      expect(mockTelegramService.sendMessage).toHaveBeenCalledTimes(1);
+      expect(mockTelegramService.sendMessage).toHaveBeenCalledWith('bot-token', 7, 'Hi subscriber', {});
+      expect(results[0]!.actionsExecuted).toBe(1);
+    });
+
+    it('should answer the triggering callback query by default', async () => {
+      mockActivationModel.getWebhookActivations.mockResolvedValue([mockActivation]);
+      mockedAxios.post.mockResolvedValue({
+        data: { actions: [{ type: 'answerCallbackQuery', text: 'Done' }] }
+      });
+      mockTelegramService.answerCallbackQuery.mockResolvedValue(true);
+
+      await ModuleDispatchService.dispatchUpdate(mockBot, {
+        update_id: 2,
+        callback_query: { id: 'cb-1', from: { id: 42 }, data: 'ok' }
+      });
+
+      expect(mockTelegramService.answerCallbackQuery).toHaveBeenCalledWith('bot-token', 'cb-1', { text: 'Done' });
+    });
+
+    it('should isolate failures between modules', async () => {
+      mockActivationModel.getWebhookActivations.mockResolvedValue([
+        mockActivation,
+        { ...mockActivation, id: 'activation-2', module_name: 'Broken' }
+      ]);
+      mockedAxios.post
+        .mockResolvedValueOnce({ data: '' })
+        .mockRejectedValueOnce(new Error('timeout of 5000ms exceeded'));
+
+      const results = await ModuleDispatchService.dispatchUpdate(mockBot, messageUpdate);
+
+      expect(results[0]).toMatchObject({ activationId: 'activation-1', success: true, actionsExecuted: 0 });
+      expect(results[1]).toMatchObject({
+        activationId: 'activation-2',
+        success: false,
+        error: 'timeout of 5000ms exceeded'
+      });
+    });
+
+    it('should reject invalid module responses', async () => {
+      mockActivationModel.getWebhookActivations.mockResolvedValue([mockActivation]);
+      mockedAxios.post.mockResolvedValue({
+        data: { actions: [{ type: 'deleteChat' }] }
+      });
+
+      const results = await ModuleDispatchService.dispatchUpdate(mockBot, messageUpdate);
+
+      expect(results[0]!.success).toBe(false);
+      expect(results[0]!.error).toContain('Invalid module response');
+      expect(mockTelegramService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -21,6 +21,9 @@ describe('NotificationService', () => {
     role: 'user' as const,
     balance: 100,
     email_verified: true,
+    verification_level: 'email_verified' as const,
+    status: 'active' as const,
+    display_currency: 'USD' as const,
     theme_preference: 'system' as const,
     created_at: new Date(),
     updated_at: new Date(),
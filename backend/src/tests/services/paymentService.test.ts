@@ -1,4 +1,9 @@
 import { PaymentService } from '../../services/paymentService';
+import { TransactionModel } from '../../models/Transaction';
+import { BotModuleActivationModel } from '../../models/BotModuleActivation';
+import { LedgerService } from '../../services/ledgerService';
+import { RevenueSplitService } from '../../services/revenueSplitService';
+import { CouponModel } from '../../models/Coupon';
 
 // Mock Stripe
 jest.mock('stripe', () => {
@@ -7,7 +12,13 @@ jest.mock('stripe', () => {
       create: jest.fn().mockResolvedValue({
         id: 'pi_test_123',
         client_secret: 'pi_test_123_secret_test'
-      })
+      }),
+      cancel: jest.fn(),
+      retrieve: jest.fn()
+    },
+    refunds: {
+      create: jest.fn(),
+      list: jest.fn()
     }
   }));
 });
@@ -17,6 +28,17 @@ jest.mock('../../models/Transaction');
 jest.mock('../../models/User');
 jest.mock('../../models/Module');
 jest.mock('../../models/BotModuleActivation');
+jest.mock('../../models/Coupon');
+jest.mock('../../services/ledgerService');
+jest.mock('../../services/revenueSplitService');
+jest.mock('../../services/invoiceService');
+jest.mock('../../services/notificationService');
+
+const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+const mockActivationModel = BotModuleActivationModel as jest.Mocked<typeof BotModuleActivationModel>;
+const mockLedgerService = LedgerService as jest.Mocked<typeof LedgerService>;
+const mockRevenueSplitService = RevenueSplitService as jest.Mocked<typeof RevenueSplitService>;
+const mockCouponModel = CouponModel as jest.Mocked<typeof CouponModel>;
 
 describe('PaymentService', () => {
   beforeEach(() => {
@@ -29,4 +51,190 @@ describe('PaymentService', () => {
     const paymentService = new PaymentService();
     expect(paymentService).toBeDefined();
   });
-});
\ No newline at end of file
+
+  describe('processSuccessfulPayment', () => {
+    const payment = (overrides: Record<string, any> = {}) => ({
+      id: 'payment-1',
+      user_id: 'buyer-1',
+      type: 'payment' as const,
+      amount: 60,
+      currency: 'USD',
+      status: 'completed' as const,
+      stripe_payment_intent_id: 'pi_123',
+      metadata: { module_id: 'module-1', bot_id: 'bot-1', markup_percentage: 20 },
+      created_at: new Date(),
+      updated_at: new Date(),
+      ...overrides
+    });
+
+    beforeEach(() => {
+      mockTransactionModel.findByStripePaymentIntentId.mockResolvedValue(payment({ status: 'pending' }) as any);
+      mockRevenueSplitService.calculateSplit.mockResolvedValue({ legs: [] } as any);
+      mockActivationModel.upsert.mockResolvedValue({ id: 'activation-1' } as any);
+    });
+
+    it('should activate the module and record the activation on the payment', async () => {
+      mockLedgerService.completePayment.mockResolvedValue(payment() as any);
+
+      await new PaymentService().processSuccessfulPayment('pi_123');
+
+      expect(mockActivationModel.upsert).toHaveBeenCalledWith({
+        bot_id: 'bot-1',
+        module_id: 'module-1',
+        markup_percentage: 20,
+        settings: {}
+      });
+      expect(mockTransactionModel.update).toHaveBeenCalledWith('payment-1', {
+        metadata: expect.objectContaining({ activation_id: 'activation-1' })
+      });
+    });
+
+    it('should retry the activation of a payment booked by an earlier delivery', async () => {
+      mockLedgerService.completePayment.mockResolvedValue(null);
+      mockTransactionModel.findById.mockResolvedValue(payment() as any);
+
+      await new PaymentService().processSuccessfulPayment('pi_123');
+
+      expect(mockActivationModel.upsert).toHaveBeenCalled();
+    });
+
+    it('should not activate again once the payment records its activation', async () => {
+      mockLedgerService.completePayment.mockResolvedValue(null);
+      mockTransactionModel.findById.mockResolvedValue(payment({
+        metadata: { module_id: 'module-1', bot_id: 'bot-1', activation_id: 'activation-1' }
+      }) as any);
+
+      await new PaymentService().processSuccessfulPayment('pi_123');
+
+      expect(mockActivationModel.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refunds', () => {
+    const payment = {
+      id: 'payment-1',
+      user_id: 'buyer-1',
+      type: 'payment' as const,
+      amount: '40.00' as any,
+      currency: 'USD',
+      status: 'completed' as const,
+      stripe_payment_intent_id: 'pi_123',
+      metadata: {},
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const refundTransaction = { ...payment, id: 'refund-1', type: 'refund' as const };
+
+    it('should send Stripe the key the ledger gives for the refund', async () => {
+      const service = new PaymentService();
+      const stripe = (service as any).stripe;
+      stripe.refunds.create.mockResolvedValue({ id: 're_1' });
+      mockLedgerService.recordRefund.mockImplementation(async (_id, _amount, _description, _metadata, refundCard) => {
+        await refundCard!(payment, 40, 'refund:payment-1:1');
+        return { payment, transaction: refundTransaction, remaining: 0 };
+      });
+
+      await service.createRefund('payment-1');
+
+      expect(stripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_123', amount: 4000 }),
+        { idempotencyKey: 'refund:payment-1:1' }
+      );
+    });
+
+    it('should book a refund createRefund made in Stripe but could not book', async () => {
+      const service = new PaymentService();
+      const stripe = (service as any).stripe;
+      mockTransactionModel.findByStripePaymentIntentId.mockResolvedValue(payment);
+      mockTransactionModel.findRefundsByPayment.mockResolvedValue([]);
+      stripe.refunds.list.mockResolvedValue({
+        data: [{
+          id: 're_1',
+          amount: 1000,
+          status: 'succeeded',
+          metadata: { original_transaction_id: 'payment-1', refund_reason: 'duplicate' }
+        }]
+      });
+      mockLedgerService.recordRefund.mockResolvedValue({ payment, transaction: refundTransaction, remaining: 30 });
+
+      await service.processChargeRefunded({ payment_intent: 'pi_123' } as any);
+
+      expect(mockLedgerService.recordRefund).toHaveBeenCalledWith('payment-1', 10, expect.any(String), {
+        stripe_refund_id: 're_1',
+        refund_reason: 'duplicate'
+      });
+    });
+
+    it('should take a top-up refunded in Stripe back out of the wallet', async () => {
+      const service = new PaymentService();
+      const stripe = (service as any).stripe;
+      const topUp = { ...payment, id: 'top-up-1', type: 'top_up' as const };
+      mockTransactionModel.findByStripePaymentIntentId.mockResolvedValue(topUp);
+      mockTransactionModel.findRefundsByPayment.mockResolvedValue([]);
+      stripe.refunds.list.mockResolvedValue({ data: [{ id: 're_1', amount: 4000, status: 'succeeded', metadata: {} }] });
+      mockLedgerService.recordTopUpRefund.mockResolvedValue({ payment: topUp, transaction: refundTransaction, remaining: 0 });
+
+      await service.processChargeRefunded({ payment_intent: 'pi_123' } as any);
+
+      expect(mockLedgerService.recordTopUpRefund).toHaveBeenCalledWith('top-up-1', 40, expect.any(String), {
+        stripe_refund_id: 're_1',
+        refund_reason: 'Refunded in Stripe'
+      });
+      expect(mockLedgerService.recordRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelLapsedCouponCheckouts', () => {
+    const checkout = (id: string, paymentIntentId?: string) => ({
+      id,
+      user_id: 'buyer-1',
+      type: 'payment' as const,
+      amount: 40,
+      currency: 'USD',
+      status: 'pending' as const,
+      ...(paymentIntentId && { stripe_payment_intent_id: paymentIntentId }),
+      metadata: { coupon_id: 'coupon-1' },
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+
+    it('should cancel the payment intent before failing the checkout', async () => {
+      const service = new PaymentService();
+      const stripe = (service as any).stripe;
+      mockCouponModel.findLapsedCheckouts.mockResolvedValue([checkout('payment-1', 'pi_1'), checkout('payment-2')]);
+      stripe.paymentIntents.cancel.mockResolvedValue({ id: 'pi_1', status: 'canceled' });
+      mockLedgerService.failPayment.mockResolvedValue({ ...checkout('payment-1'), status: 'cancelled' });
+
+      await expect(service.cancelLapsedCouponCheckouts()).resolves.toBe(2);
+
+      expect(stripe.paymentIntents.cancel).toHaveBeenCalledWith('pi_1');
+      expect(mockLedgerService.failPayment).toHaveBeenCalledWith('payment-1', 'cancelled');
+      expect(mockLedgerService.failPayment).toHaveBeenCalledWith('payment-2', 'cancelled');
+    });
+
+    it('should leave a checkout whose payment intent was paid to its webhook', async () => {
+      const service = new PaymentService();
+      const stripe = (service as any).stripe;
+      mockCouponModel.findLapsedCheckouts.mockResolvedValue([checkout('payment-1', 'pi_1')]);
+      stripe.paymentIntents.cancel.mockRejectedValue(new Error('This PaymentIntent could not be canceled'));
+      stripe.paymentIntents.retrieve.mockResolvedValue({ id: 'pi_1', status: 'succeeded' });
+
+      await expect(service.cancelLapsedCouponCheckouts()).resolves.toBe(0);
+
+      expect(mockLedgerService.failPayment).not.toHaveBeenCalled();
+    });
+
+    it('should fail a checkout whose payment intent was already cancelled', async () => {
+      const service = new PaymentService();
+      const stripe = (service as any).stripe;
+      mockCouponModel.findLapsedCheckouts.mockResolvedValue([checkout('payment-1', 'pi_1')]);
+      stripe.paymentIntents.cancel.mockRejectedValue(new Error('This PaymentIntent could not be canceled'));
+      stripe.paymentIntents.retrieve.mockResolvedValue({ id: 'pi_1', status: 'canceled' });
+      mockLedgerService.failPayment.mockResolvedValue({ ...checkout('payment-1'), status: 'cancelled' });
+
+      await expect(service.cancelLapsedCouponCheckouts()).resolves.toBe(1);
+
+      expect(mockLedgerService.failPayment).toHaveBeenCalledWith('payment-1', 'cancelled');
+    });
+  });
+});
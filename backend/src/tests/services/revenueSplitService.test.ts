@@ -0,0 +1,181 @@
+import { RevenueSplitService } from '../../services/revenueSplitService';
+import { ReferralService } from '../../services/referralService';
+import { BotModel } from '../../models/Bot';
+import { ModuleModel } from '../../models/Module';
+import { TransactionModel } from '../../models/Transaction';
+
+jest.mock('../../services/referralService');
+
+const mockReferralService = ReferralService as jest.Mocked<typeof ReferralService>;
+const mockBotModel = BotModel as jest.Mocked<typeof BotModel>;
+const mockModuleModel = ModuleModel as jest.Mocked<typeof ModuleModel>;
+const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+
+describe('RevenueSplitService', () => {
+  const mockModule = {
+    id: 'module-1',
+    name: 'Shop',
+    price: 50,
+    currency: 'USD' as const,
+    developer_id: 'developer-1',
+    status: 'approved' as const,
+    webhook_required: false,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const mockBot = {
+    id: 'bot-1',
+    user_id: 'owner-1',
+    telegram_bot_id: '123',
+    name: 'Store bot',
+    token_hash: 'hash',
+    status: 'active' as const,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const payment = (overrides: Record<string, any> = {}) => ({
+    id: 'payment-1',
+    user_id: 'buyer-1',
+    type: 'payment' as const,
+    // DECIMAL columns arrive as strings
+    amount: '60.00' as any,
+    currency: 'USD',
+    status: 'pending' as const,
+    description: 'Payment for module: Shop',
+    metadata: {
+      module_id: 'module-1',
+      bot_id: 'bot-1',
+      markup_percentage: 20,
+      base_amount: 50,
+      markup_amount: 10
+    },
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockModuleModel.findById.mockResolvedValue(mockModule);
+    mockBotModel.findById.mockResolvedValue(mockBot);
+    mockReferralService.calculateReferralCommission.mockResolvedValue(null);
+  });
+
+  describe('calculateSplit', () => {
+    it('should pay the developer the base price minus the platform fee and the bot owner the markup', async () => {
+      const split = await RevenueSplitService.calculateSplit(payment());
+
+      expect(split).toEqual(expect.objectContaining({
+        base_amount: 50,
+        markup_amount: 10,
+        platform_fee_percentage: 20,
+        platform_fee: 10,
+        platform_net: 10
+      }));
+      expect(split.legs.map(leg => [leg.role, leg.user_id, leg.amount])).toEqual([
+        ['developer', 'developer-1', 40],
+        ['bot_owner', 'owner-1', 10]
+      ]);
+      expect(split.legs[0]!.metadata).toEqual(expect.objectContaining({
+        split_role: 'developer',
+        original_transaction_id: 'payment-1'
+      }));
+    });
+
+    it('should pay the referral commission out of the platform fee', async () => {
+      mockReferralService.calculateReferralCommission.mockResolvedValue({
+        user_id: 'referrer-1',
+        amount: 6,
+        description: 'Referral commission from buyer@example.com',
+        metadata: { referral_user_id: 'buyer-1', original_transaction_id: 'payment-1' }
+      });
+
+      const split = await RevenueSplitService.calculateSplit(payment());
+
+      expect(mockReferralService.calculateReferralCommission).toHaveBeenCalledWith('buyer-1', 60, 'payment-1');
+      expect(split.legs[2]).toEqual(expect.objectContaining({ role: 'referrer', user_id: 'referrer-1', amount: 6 }));
+      expect(split.platform_net).toBe(4);
+    });
+
+    it('should cap the referral commission at the platform fee', async () => {
+      mockReferralService.calculateReferralCommission.mockResolvedValue({
+        user_id: 'referrer-1',
+        amount: 12,
+        description: 'Referral commission from buyer@example.com',
+        metadata: {}
+      });
+
+      const split = await RevenueSplitService.calculateSplit(payment());
+
+      expect(split.legs[2]).toEqual(expect.objectContaining({
+        amount: 10,
+        metadata: expect.objectContaining({ capped_at_platform_fee: true })
+      }));
+      expect(split.platform_net).toBe(0);
+    });
+
+    it('should keep the base price of platform modules and skip an empty markup', async () => {
+      mockModuleModel.findById.mockResolvedValue({ ...mockModule, developer_id: undefined } as any);
+
+      const split = await RevenueSplitService.calculateSplit(payment({
+        amount: '50.00',
+        metadata: { module_id: 'module-1', bot_id: 'bot-1', base_amount: 50, markup_amount: 0 }
+      }));
+
+      expect(split.legs).toEqual([]);
+      expect(split.platform_fee).toBe(50);
+      expect(split.platform_net).toBe(50);
+      expect(mockBotModel.findById).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a split that pays out more than the payment', async () => {
+      await expect(RevenueSplitService.calculateSplit(payment({
+        // A negative markup took the price below the module's base price
+        amount: '30.00',
+        metadata: { module_id: 'module-1', bot_id: 'bot-1', base_amount: 50, markup_amount: -20 }
+      }))).rejects.toThrow('Revenue split exceeds the amount paid');
+    });
+  });
+
+  describe('getBreakdown', () => {
+    it('should list the commission legs of a completed payment', async () => {
+      mockTransactionModel.findCommissionsByPayment.mockResolvedValue([
+        {
+          ...payment(),
+          id: 'commission-1',
+          user_id: 'developer-1',
+          type: 'commission',
+          amount: '40.00' as any,
+          status: 'completed',
+          metadata: { split_role: 'developer', original_transaction_id: 'payment-1' }
+        }
+      ]);
+
+      const breakdown = await RevenueSplitService.getBreakdown(payment({
+        status: 'completed',
+        metadata: {
+          revenue_split: { base_amount: 50, markup_amount: 10, platform_fee_percentage: 20, platform_fee: 10 }
+        }
+      }));
+
+      expect(mockTransactionModel.findCommissionsByPayment).toHaveBeenCalledWith('payment-1');
+      expect(breakdown).toEqual({
+        base_amount: 50,
+        markup_amount: 10,
+        platform_fee_percentage: 20,
+        platform_fee: 10,
+        platform_net: 20,
+        legs: [
+          { role: 'developer', user_id: 'developer-1', amount: 40, transaction_id: 'commission-1', status: 'completed' }
+        ]
+      });
+    });
+
+    it('should not break down transactions other than completed payments', async () => {
+      await expect(RevenueSplitService.getBreakdown(payment())).resolves.toBeNull();
+      expect(mockTransactionModel.findCommissionsByPayment).not.toHaveBeenCalled();
+    });
+  });
+});
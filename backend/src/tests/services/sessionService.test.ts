@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SessionService } from '../../services/sessionService';
+import { UserSessionModel } from '../../models/UserSession';
+import { UserModel } from '../../models/User';
+
+jest.mock('../../models/UserSession');
+
+const mockUserSessionModel = UserSessionModel as jest.Mocked<typeof UserSessionModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+const mockJwt = jwt as jest.Mocked<typeof jwt>;
+
+describe('SessionService', () => {
+  const user = { id: 'user-1', email: 'test@example.com', role: 'user' as const };
+
+  // The crypto mock in the test setup hashes every token to 'mocked-hash'
+  const session = (overrides: Record<string, any> = {}) => ({
+    id: 'session-1',
+    user_id: 'user-1',
+    session_token: 'mocked-hash',
+    last_activity: new Date(),
+    created_at: new Date(),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (crypto as any).randomUUID = jest.fn(() => 'session-1');
+    mockUserModel.findById.mockResolvedValue(user as any);
+  });
+
+  describe('createSession', () => {
+    it('should sign the session into the tokens and store the hash of the refresh token', async () => {
+      mockUserSessionModel.create.mockResolvedValueOnce(session());
+
+      const { tokens } = await SessionService.createSession(user, { ip_address: '10.0.0.1', user_agent: 'Firefox' });
+
+      expect(mockJwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', sid: 'session-1' }),
+        expect.anything(),
+        expect.anything()
+      );
+      expect(mockUserSessionModel.create).toHaveBeenCalledWith({
+        id: 'session-1',
+        user_id: 'user-1',
+        session_token: 'mocked-hash',
+        ip_address: '10.0.0.1',
+        user_agent: 'Firefox',
+        expires_at: expect.any(Date)
+      });
+      expect(tokens).toEqual({ accessToken: 'valid-jwt-token', refreshToken: 'valid-refresh-token' });
+    });
+  });
+
+  describe('refresh', () => {
+    beforeEach(() => {
+      (mockJwt.verify as jest.Mock).mockReturnValueOnce({ userId: 'user-1', sid: 'session-1' });
+    });
+
+    it('should replace the refresh token of the session', async () => {
+      mockUserSessionModel.findById.mockResolvedValueOnce(session());
+      mockUserSessionModel.rotate.mockResolvedValueOnce(session());
+
+      const tokens = await SessionService.refresh('refresh-token');
+
+      expect(mockUserSessionModel.rotate).toHaveBeenCalledWith('session-1', 'mocked-hash', 'mocked-hash', expect.any(Date));
+      expect(tokens.refreshToken).toBe('valid-refresh-token');
+      expect(mockUserSessionModel.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a replaced refresh token is used again', async () => {
+      mockUserSessionModel.findById.mockResolvedValueOnce(session({ session_token: 'hash-of-the-next-token' }));
+
+      await expect(SessionService.refresh('refresh-token')).rejects.toThrow('Refresh token has already been used');
+      expect(mockUserSessionModel.revoke).toHaveBeenCalledWith('session-1', 'token_reuse');
+      expect(mockUserSessionModel.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a concurrent refresh rotated it first', async () => {
+      mockUserSessionModel.findById.mockResolvedValueOnce(session());
+      mockUserSessionModel.rotate.mockResolvedValueOnce(null);
+
+      await expect(SessionService.refresh('refresh-token')).rejects.toThrow('Refresh token has already been used');
+      expect(mockUserSessionModel.revoke).toHaveBeenCalledWith('session-1', 'token_reuse');
+    });
+
+    it('should not renew the session of a suspended account', async () => {
+      mockUserSessionModel.findById.mockResolvedValueOnce(session());
+      mockUserModel.findById.mockResolvedValueOnce({ ...user, status: 'suspended' } as any);
+
+      await expect(SessionService.refresh('refresh-token')).rejects.toThrow('Account is suspended');
+      expect(mockUserSessionModel.rotate).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['revoked', session({ revoked_at: new Date() })],
+      ['expired', session({ expires_at: new Date(Date.now() - 1000) })],
+      ['of another user', session({ user_id: 'user-2' })],
+      ['missing', null]
+    ])('should refuse a session that is %s', async (_case, found) => {
+      mockUserSessionModel.findById.mockResolvedValueOnce(found as any);
+
+      await expect(SessionService.refresh('refresh-token')).rejects.toThrow('Session has been revoked');
+      expect(mockUserSessionModel.rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should not renew refresh tokens issued without a session', async () => {
+    (mockJwt.verify as jest.Mock).mockReturnValueOnce({ userId: 'user-1' });
+
+    await expect(SessionService.refresh('refresh-token')).rejects.toThrow('Session has been revoked');
+    expect(mockUserSessionModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('should only let users revoke their own sessions', async () => {
+    mockUserSessionModel.findById.mockResolvedValueOnce(session({ user_id: 'user-2' }));
+
+    await expect(SessionService.revokeSession('user-1', 'session-1')).rejects.toThrow('Session not found');
+    expect(mockUserSessionModel.revoke).not.toHaveBeenCalled();
+  });
+
+  it('should mark the session the list was requested from', async () => {
+    mockUserSessionModel.findActiveByUser.mockResolvedValueOnce([
+      session({ ip_address: '10.0.0.1' }),
+      session({ id: 'session-2' })
+    ]);
+
+    const sessions = await SessionService.listSessions('user-1', 'session-2');
+
+    expect(sessions.map(({ id, current }) => ({ id, current }))).toEqual([
+      { id: 'session-1', current: false },
+      { id: 'session-2', current: true }
+    ]);
+    expect(sessions[0]).not.toHaveProperty('session_token');
+  });
+});
@@ -0,0 +1,117 @@
+import Stripe from 'stripe';
+import { StripeEventService } from '../../services/stripeEventService';
+import { StripeEventModel } from '../../models/StripeEvent';
+import { paymentService } from '../../services/paymentService';
+import { DisputeService } from '../../services/disputeService';
+
+jest.mock('../../models/StripeEvent');
+jest.mock('../../services/paymentService', () => ({
+  paymentService: {
+    processSuccessfulPayment: jest.fn(),
+    processFailedPayment: jest.fn(),
+    processChargeRefunded: jest.fn()
+  }
+}));
+jest.mock('../../services/disputeService');
+
+const mockStripeEventModel = StripeEventModel as jest.Mocked<typeof StripeEventModel>;
+const mockPaymentService = paymentService as jest.Mocked<typeof paymentService>;
+const mockDisputeService = DisputeService as jest.Mocked<typeof DisputeService>;
+
+describe('StripeEventService', () => {
+  const event = (type: string, object: Record<string, any> = { id: 'pi_123' }) => ({
+    id: 'evt_123',
+    type,
+    data: { object }
+  }) as unknown as Stripe.Event;
+
+  const stored = (overrides: Record<string, any> = {}) => ({
+    id: 'evt_123',
+    type: 'payment_intent.succeeded',
+    payload: event('payment_intent.succeeded'),
+    status: 'failed' as const,
+    attempts: 1,
+    received_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockStripeEventModel.claim.mockResolvedValue(stored({ status: 'processing' }));
+  });
+
+  it('should process a new event once and mark it processed', async () => {
+    await expect(StripeEventService.handle(event('payment_intent.succeeded'))).resolves.toBe(true);
+
+    expect(mockStripeEventModel.claim).toHaveBeenCalledWith('evt_123', 'payment_intent.succeeded', expect.anything());
+    expect(mockPaymentService.processSuccessfulPayment).toHaveBeenCalledWith('pi_123');
+    expect(mockStripeEventModel.markProcessed).toHaveBeenCalledWith('evt_123');
+  });
+
+  it('should skip a duplicate delivery', async () => {
+    mockStripeEventModel.claim.mockResolvedValue(null);
+
+    await expect(StripeEventService.handle(event('payment_intent.succeeded'))).resolves.toBe(false);
+
+    expect(mockPaymentService.processSuccessfulPayment).not.toHaveBeenCalled();
+    expect(mockStripeEventModel.markProcessed).not.toHaveBeenCalled();
+  });
+
+  it('should keep an event that failed for replay', async () => {
+    mockPaymentService.processSuccessfulPayment.mockRejectedValueOnce(new Error('Transaction not found for payment intent'));
+
+    await expect(StripeEventService.handle(event('payment_intent.succeeded'))).rejects.toThrow('Transaction not found');
+
+    expect(mockStripeEventModel.markFailed).toHaveBeenCalledWith('evt_123', 'Transaction not found for payment intent');
+    expect(mockStripeEventModel.markProcessed).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the payment of a canceled payment intent', async () => {
+    await StripeEventService.handle(event('payment_intent.canceled'));
+
+    expect(mockPaymentService.processFailedPayment).toHaveBeenCalledWith('pi_123', 'cancelled');
+  });
+
+  it('should pass refunded charges and disputes on', async () => {
+    const charge = { id: 'ch_123', payment_intent: 'pi_123' };
+    await StripeEventService.handle(event('charge.refunded', charge));
+    expect(mockPaymentService.processChargeRefunded).toHaveBeenCalledWith(charge);
+
+    const dispute = { id: 'dp_123', payment_intent: 'pi_123', status: 'lost' };
+    await StripeEventService.handle(event('charge.dispute.created', dispute));
+    expect(mockDisputeService.openDispute).toHaveBeenCalledWith(dispute);
+
+    await StripeEventService.handle(event('charge.dispute.closed', dispute));
+    expect(mockDisputeService.closeDispute).toHaveBeenCalledWith(dispute);
+  });
+
+  describe('replay', () => {
+    it('should process a stored failed event again', async () => {
+      mockStripeEventModel.findById.mockResolvedValue(stored());
+
+      await StripeEventService.replay('evt_123');
+
+      expect(mockPaymentService.processSuccessfulPayment).toHaveBeenCalledWith('pi_123');
+      expect(mockStripeEventModel.markProcessed).toHaveBeenCalledWith('evt_123');
+    });
+
+    it('should not replay an event that was processed', async () => {
+      mockStripeEventModel.findById.mockResolvedValue(stored({ status: 'processed' }));
+
+      await expect(StripeEventService.replay('evt_123')).rejects.toThrow('only failed events can be replayed');
+      expect(mockPaymentService.processSuccessfulPayment).not.toHaveBeenCalled();
+    });
+
+    it('should count the failed events that fail again', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockStripeEventModel.findFailed.mockResolvedValue([stored(), stored({ id: 'evt_456' })]);
+      mockPaymentService.processSuccessfulPayment
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Transaction not found for payment intent'));
+
+      await expect(StripeEventService.replayFailed()).resolves.toEqual({ replayed: 1, failed: 1 });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { SubscriptionService, addBillingInterval } from '../../services/subscriptionService';
+import { LedgerService } from '../../services/ledgerService';
+import { NotificationService } from '../../services/notificationService';
+import { RevenueSplitService } from '../../services/revenueSplitService';
+import { BotModuleActivationModel } from '../../models/BotModuleActivation';
+import { ModuleSubscriptionModel } from '../../models/ModuleSubscription';
+import { TransactionModel } from '../../models/Transaction';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+  withTransaction: jest.fn((callback: (client: any) => Promise<any>) => callback(mockClient))
+}));
+jest.mock('../../models/ModuleSubscription');
+jest.mock('../../models/ModulePlan');
+jest.mock('../../services/ledgerService');
+jest.mock('../../services/notificationService');
+jest.mock('../../services/revenueSplitService');
+
+const mockLedgerService = LedgerService as jest.Mocked<typeof LedgerService>;
+const mockNotificationService = NotificationService as jest.Mocked<typeof NotificationService>;
+const mockRevenueSplitService = RevenueSplitService as jest.Mocked<typeof RevenueSplitService>;
+const mockActivationModel = BotModuleActivationModel as jest.Mocked<typeof BotModuleActivationModel>;
+const mockSubscriptionModel = ModuleSubscriptionModel as jest.Mocked<typeof ModuleSubscriptionModel>;
+const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+
+describe('SubscriptionService', () => {
+  const periodEnd = new Date('2025-02-01T00:00:00Z');
+
+  const subscription = (overrides: Record<string, any> = {}) => ({
+    id: 'subscription-1',
+    activation_id: 'activation-1',
+    plan_id: 'plan-1',
+    user_id: 'user-1',
+    status: 'active' as const,
+    // DECIMAL columns arrive as strings
+    markup_percentage: '10.00' as any,
+    current_period_start: new Date('2025-01-01T00:00:00Z'),
+    current_period_end: periodEnd,
+    cancel_at_period_end: false,
+    failed_renewal_attempts: 0,
+    bot_id: 'bot-1',
+    bot_name: 'Store bot',
+    module_id: 'module-1',
+    module_name: 'Shop',
+    billing_interval: 'month' as const,
+    price: '20.00' as any,
+    currency: 'USD' as const,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  const payment = {
+    id: 'payment-1',
+    user_id: 'user-1',
+    type: 'payment' as const,
+    amount: 22,
+    currency: 'USD',
+    status: 'pending' as const,
+    description: 'Renewal of module: Shop',
+    metadata: {},
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTransactionModel.create.mockResolvedValue(payment);
+    mockRevenueSplitService.calculateSplit.mockResolvedValue({
+      base_amount: 20,
+      markup_amount: 2,
+      platform_fee_percentage: 20,
+      platform_fee: 4,
+      platform_net: 4,
+      legs: []
+    });
+  });
+
+  describe('addBillingInterval', () => {
+    it('should keep the day of the month', () => {
+      expect(addBillingInterval(new Date('2025-01-15T10:00:00Z'), 'month')).toEqual(new Date('2025-02-15T10:00:00Z'));
+      expect(addBillingInterval(new Date('2025-01-15T10:00:00Z'), 'year')).toEqual(new Date('2026-01-15T10:00:00Z'));
+    });
+
+    it('should end on the last day of a shorter month', () => {
+      expect(addBillingInterval(new Date('2025-01-31T00:00:00Z'), 'month')).toEqual(new Date('2025-02-28T00:00:00Z'));
+      expect(addBillingInterval(new Date('2024-02-29T00:00:00Z'), 'year')).toEqual(new Date('2025-02-28T00:00:00Z'));
+    });
+  });
+
+  describe('processRenewals', () => {
+    it('should charge the wallet and extend the subscription by one period', async () => {
+      mockSubscriptionModel.claimDueForRenewal.mockResolvedValue([subscription()]);
+      mockLedgerService.completeWalletPayment.mockResolvedValue({ ...payment, status: 'completed' });
+
+      await expect(SubscriptionService.processRenewals()).resolves.toEqual({ renewed: 1, failed: 0 });
+
+      expect(mockTransactionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'user-1',
+        type: 'payment',
+        amount: 22,
+        metadata: expect.objectContaining({
+          subscription_id: 'subscription-1',
+          base_amount: 20,
+          markup_amount: 2,
+          payment_method: 'wallet'
+        })
+      }));
+      expect(mockLedgerService.completeWalletPayment).toHaveBeenCalledWith('payment-1', [], {
+        revenue_split: expect.objectContaining({ platform_fee: 4 })
+      }, mockClient);
+
+      // In the database transaction of the payment
+      const nextPeriodEnd = new Date('2025-03-01T00:00:00Z');
+      expect(mockSubscriptionModel.update).toHaveBeenCalledWith('subscription-1', expect.objectContaining({
+        status: 'active',
+        current_period_start: periodEnd,
+        current_period_end: nextPeriodEnd,
+        failed_renewal_attempts: 0,
+        grace_period_ends_at: null
+      }), mockClient);
+      expect(mockActivationModel.update).toHaveBeenCalledWith('activation-1', {
+        status: 'active',
+        expires_at: nextPeriodEnd
+      }, mockClient);
+    });
+
+    it('should fail the renewal when the subscription cannot be moved to the next period', async () => {
+      mockSubscriptionModel.claimDueForRenewal.mockResolvedValue([subscription()]);
+      mockLedgerService.completeWalletPayment.mockResolvedValue({ ...payment, status: 'completed' });
+      mockSubscriptionModel.update.mockRejectedValueOnce(new Error('Connection terminated'));
+
+      await expect(SubscriptionService.processRenewals()).resolves.toEqual({ renewed: 0, failed: 1 });
+
+      expect(mockTransactionModel.updateStatus).toHaveBeenCalledWith('payment-1', 'failed', expect.any(Date));
+      expect(mockNotificationService.sendPaymentReceivedNotification).not.toHaveBeenCalled();
+    });
+
+    it('should start the grace period and remind the user when the wallet is short', async () => {
+      mockSubscriptionModel.claimDueForRenewal.mockResolvedValue([subscription()]);
+      mockLedgerService.completeWalletPayment.mockRejectedValue(new Error('Insufficient balance'));
+
+      await expect(SubscriptionService.processRenewals()).resolves.toEqual({ renewed: 0, failed: 1 });
+
+      const gracePeriodEndsAt = new Date('2025-02-08T00:00:00Z');
+      expect(mockTransactionModel.updateStatus).toHaveBeenCalledWith('payment-1', 'failed', expect.any(Date));
+      expect(mockSubscriptionModel.update).toHaveBeenCalledWith('subscription-1', expect.objectContaining({
+        status: 'past_due',
+        failed_renewal_attempts: 1,
+        grace_period_ends_at: gracePeriodEndsAt,
+        last_renewal_error: 'Insufficient balance'
+      }));
+      expect(mockActivationModel.update).toHaveBeenCalledWith('activation-1', { expires_at: gracePeriodEndsAt });
+      expect(mockNotificationService.sendSubscriptionRenewalFailedNotification).toHaveBeenCalledWith(
+        'user-1', 'Shop', 'Store bot', 22, 'USD', gracePeriodEndsAt
+      );
+    });
+
+    it('should keep the original grace period on later failures', async () => {
+      const gracePeriodEndsAt = new Date('2025-02-08T00:00:00Z');
+      mockSubscriptionModel.claimDueForRenewal.mockResolvedValue([
+        subscription({ status: 'past_due', failed_renewal_attempts: 2, grace_period_ends_at: gracePeriodEndsAt })
+      ]);
+      mockLedgerService.completeWalletPayment.mockRejectedValue(new Error('Insufficient balance'));
+
+      await SubscriptionService.processRenewals();
+
+      expect(mockSubscriptionModel.update).toHaveBeenCalledWith('subscription-1', expect.objectContaining({
+        failed_renewal_attempts: 3,
+        grace_period_ends_at: gracePeriodEndsAt
+      }));
+    });
+  });
+
+  describe('processExpirations', () => {
+    const expiredActivation = {
+      id: 'activation-1',
+      bot_id: 'bot-1',
+      module_id: 'module-1',
+      markup_percentage: 0,
+      status: 'active' as const,
+      settings: {},
+      activated_at: new Date(),
+      expires_at: new Date('2025-02-08T00:00:00Z'),
+      bot_name: 'Store bot',
+      bot_owner_id: 'owner-1',
+      module_name: 'Shop',
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    it('should deactivate the module, expire its subscription and notify the subscriber', async () => {
+      mockActivationModel.getExpiredActivations.mockResolvedValue([expiredActivation]);
+      mockActivationModel.expire.mockResolvedValue({ ...expiredActivation, status: 'inactive' });
+      mockSubscriptionModel.findByActivationId.mockResolvedValue(subscription({ status: 'past_due' }));
+
+      await expect(SubscriptionService.processExpirations()).resolves.toBe(1);
+
+      expect(mockSubscriptionModel.update).toHaveBeenCalledWith('subscription-1', {
+        status: 'expired',
+        next_renewal_attempt_at: null
+      });
+      expect(mockNotificationService.sendModuleExpiredNotification).toHaveBeenCalledWith('user-1', 'Shop', 'Store bot');
+    });
+
+    it('should notify the bot owner of an expired activation without a subscription', async () => {
+      mockActivationModel.getExpiredActivations.mockResolvedValue([expiredActivation]);
+      mockActivationModel.expire.mockResolvedValue({ ...expiredActivation, status: 'inactive' });
+      mockSubscriptionModel.findByActivationId.mockResolvedValue(null);
+
+      await SubscriptionService.processExpirations();
+
+      expect(mockSubscriptionModel.update).not.toHaveBeenCalled();
+      expect(mockNotificationService.sendModuleExpiredNotification).toHaveBeenCalledWith('owner-1', 'Shop', 'Store bot');
+    });
+
+    it('should skip activations another worker already expired', async () => {
+      mockActivationModel.getExpiredActivations.mockResolvedValue([expiredActivation]);
+      mockActivationModel.expire.mockResolvedValue(null);
+
+      await expect(SubscriptionService.processExpirations()).resolves.toBe(0);
+      expect(mockNotificationService.sendModuleExpiredNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelSubscription', () => {
+    it('should stop renewals but keep the paid period', async () => {
+      mockSubscriptionModel.findById.mockResolvedValue(subscription());
+      mockSubscriptionModel.update.mockResolvedValue(subscription({ cancel_at_period_end: true }));
+
+      await SubscriptionService.cancelSubscription('subscription-1', 'user-1');
+
+      expect(mockSubscriptionModel.update).toHaveBeenCalledWith('subscription-1', { cancel_at_period_end: true });
+      expect(mockActivationModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should end the grace period of a past due subscription', async () => {
+      mockSubscriptionModel.findById.mockResolvedValue(subscription({ status: 'past_due' }));
+      mockSubscriptionModel.update.mockResolvedValue(subscription({ status: 'cancelled' }));
+
+      await SubscriptionService.cancelSubscription('subscription-1', 'user-1');
+
+      expect(mockActivationModel.update).toHaveBeenCalledWith('activation-1', { expires_at: periodEnd });
+      expect(mockSubscriptionModel.update).toHaveBeenCalledWith('subscription-1', {
+        cancel_at_period_end: true,
+        status: 'cancelled',
+        next_renewal_attempt_at: null
+      });
+    });
+
+    it('should not cancel the subscription of another user', async () => {
+      mockSubscriptionModel.findById.mockResolvedValue(subscription());
+
+      await expect(SubscriptionService.cancelSubscription('subscription-1', 'user-2')).rejects.toThrow('Subscription not found');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { SuspensionService } from '../../services/suspensionService';
+import { SessionService } from '../../services/sessionService';
+import { UserModel } from '../../models/User';
+
+jest.mock('../../services/sessionService');
+
+const mockSessionService = SessionService as jest.Mocked<typeof SessionService>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+describe('SuspensionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('suspendUser', () => {
+    it('should record the reason and revoke every session of the user', async () => {
+      mockSessionService.revokeAllSessions.mockResolvedValueOnce(3);
+
+      const revoked = await SuspensionService.suspendUser('user-1', 'Chargeback fraud', 'admin-1');
+
+      expect(mockUserModel.suspend).toHaveBeenCalledWith('user-1', 'Chargeback fraud', 'admin-1');
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith('user-1', 'suspended');
+      expect(revoked).toBe(3);
+    });
+
+    it('should not let an admin suspend their own account', async () => {
+      await expect(SuspensionService.suspendUser('admin-1', 'Testing', 'admin-1'))
+        .rejects.toThrow('Admins cannot suspend their own account');
+      expect(mockUserModel.suspend).not.toHaveBeenCalled();
+    });
+
+    it('should fail for an unknown user without touching sessions', async () => {
+      mockUserModel.suspend.mockResolvedValueOnce(null);
+
+      await expect(SuspensionService.suspendUser('missing', 'Spam', 'admin-1')).rejects.toThrow('User not found');
+      expect(mockSessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should tell a suspended user why and where to appeal', () => {
+    const details = SuspensionService.getDetails({
+      suspension_reason: 'Spam broadcasts',
+      suspended_at: new Date('2025-02-03T10:00:00Z')
+    });
+
+    expect(details).toEqual({
+      reason: 'Spam broadcasts',
+      suspendedAt: '2025-02-03T10:00:00.000Z',
+      appealUrl: expect.any(String)
+    });
+  });
+});
@@ -141,7 +141,7 @@ describe('TelegramService', () => {
         'https://api.telegram.org/bottoken/setWebhook',
         {
           url: 'https://example.com/webhook',
-          allowed_updates: ['message', 'callback_query', 'inline_query'],
+          allowed_updates: ['message', 'edited_message', 'callback_query', 'inline_query', 'my_chat_member'],
         },
         expect.objectContaining({
           timeout: 10000,
@@ -152,6 +152,25 @@ describe('TelegramService', () => {
       );
     });
 
+    it('should pass the secret token when provided', async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        data: {
+          ok: true,
+          result: true,
+        },
+      });
+
+      await TelegramService.setWebhook('token', 'https://example.com/webhook', 'secret-123');
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://api.telegram.org/bottoken/setWebhook',
+        expect.objectContaining({
+          secret_token: 'secret-123',
+        }),
+        expect.any(Object)
+      );
+    });
+
     it('should return false on webhook set failure', async () => {
       mockedAxios.post.mockRejectedValueOnce(new Error('Network error'));
 
@@ -265,4 +284,64 @@ describe('TelegramService', () => {
       });
     });
   });
+
+  describe('sendMessageWithResult', () => {
+    it('should return the id of the sent message', async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { ok: true, result: { message_id: 99 } },
+      });
+
+      const result = await TelegramService.sendMessageWithResult('token', 42, 'Hello');
+
+      expect(result).toEqual({ ok: true, messageId: 99 });
+    });
+
+    it('should surface retry_after when Telegram throttles the bot', async () => {
+      mockedAxios.post.mockRejectedValueOnce({
+        response: {
+          data: {
+            ok: false,
+            error_code: 429,
+            description: 'Too Many Requests: retry after 3',
+            parameters: { retry_after: 3 },
+          },
+        },
+      });
+
+      const result = await TelegramService.sendMessageWithResult('token', 42, 'Hello');
+
+      expect(result).toEqual({
+        ok: false,
+        errorCode: 429,
+        description: 'Too Many Requests: retry after 3',
+        retryAfter: 3,
+      });
+    });
+  });
+
+  describe('sendMediaGroup', () => {
+    it('should identify the album by its first message', async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { ok: true, result: [{ message_id: 11 }, { message_id: 12 }] },
+      });
+
+      const result = await TelegramService.sendMediaGroup('token', 42, [
+        { type: 'photo', media: 'photo-1', caption: 'Album' },
+        { type: 'photo', media: 'photo-2' },
+      ]);
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://api.telegram.org/bottoken/sendMediaGroup',
+        {
+          chat_id: 42,
+          media: [
+            { type: 'photo', media: 'photo-1', caption: 'Album' },
+            { type: 'photo', media: 'photo-2' },
+          ],
+        },
+        expect.any(Object)
+      );
+      expect(result).toEqual({ ok: true, messageId: 11 });
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,218 @@
+import { TelegramWebhookService } from '../../services/telegramWebhookService';
+import { BotSubscriberModel } from '../../models/BotSubscriber';
+import { BroadcastDeliveryModel } from '../../models/BroadcastDelivery';
+import { BroadcastClickModel } from '../../models/BroadcastClick';
+
+// Secret comparison needs the real timingSafeEqual
+jest.mock('crypto', () => jest.requireActual('crypto'));
+jest.mock('../../models/BotSubscriber');
+jest.mock('../../models/BroadcastDelivery');
+jest.mock('../../models/BroadcastClick');
+
+const mockBotSubscriberModel = BotSubscriberModel as jest.Mocked<typeof BotSubscriberModel>;
+const mockBroadcastDeliveryModel = BroadcastDeliveryModel as jest.Mocked<typeof BroadcastDeliveryModel>;
+const mockBroadcastClickModel = BroadcastClickModel as jest.Mocked<typeof BroadcastClickModel>;
+
+describe('TelegramWebhookService', () => {
+  const mockBot = {
+    id: 'bot-1',
+    user_id: 'user-1',
+    telegram_bot_id: '123456789',
+    name: 'Test Bot',
+    token_hash: 'encrypted-token',
+    status: 'active' as const,
+    webhook_secret: 'secret-token',
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const privateChat = {
+    id: 42,
+    type: 'private' as const,
+    username: 'john',
+    first_name: 'John'
+  };
+
+  const mockSubscriber = {
+    id: 'sub-1',
+    bot_id: 'bot-1',
+    chat_id: '42',
+    chat_type: 'private' as const,
+    is_active: true,
+    subscribed_at: new Date(),
+    last_interaction: new Date(),
+    metadata: { source: 'import' },
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env['WEBHOOK_BASE_URL'];
+  });
+
+  describe('getWebhookUrl', () => {
+    it('should return null when the base URL is not configured', () => {
+      expect(TelegramWebhookService.getWebhookUrl('bot-1')).toBeNull();
+    });
+
+    it('should build the per-bot receiver URL', () => {
+      process.env['WEBHOOK_BASE_URL'] = 'https://api.example.com/';
+
+      expect(TelegramWebhookService.getWebhookUrl('bot-1'))
+        .toBe('https://api.example.com/api/webhooks/telegram/bot-1');
+    });
+  });
+
+  describe('verifySecretToken', () => {
+    it('should accept the matching secret', () => {
+      expect(TelegramWebhookService.verifySecretToken(mockBot, 'secret-token')).toBe(true);
+    });
+
+    it('should reject a missing or different secret', () => {
+      expect(TelegramWebhookService.verifySecretToken(mockBot, undefined)).toBe(false);
+      expect(TelegramWebhookService.verifySecretToken(mockBot, 'secret-tokeN')).toBe(false);
+      expect(TelegramWebhookService.verifySecretToken(mockBot, 'short')).toBe(false);
+    });
+
+    it('should reject every request for bots without a secret', () => {
+      const { webhook_secret, ...botWithoutSecret } = mockBot;
+
+      expect(TelegramWebhookService.verifySecretToken(botWithoutSecret, '')).toBe(false);
+    });
+  });
+
+  describe('processUpdate', () => {
+    it('should create a subscriber for a new private chat', async () => {
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue(null);
+
+      await TelegramWebhookService.processUpdate(mockBot, {
+        update_id: 1,
+        message: {
+          message_id: 10,
+          date: 0,
+          chat: privateChat,
+          from: { id: 42, first_name: 'John', username: 'john', language_code: 'en' },
+          text: '/start'
+        }
+      });
+
+      expect(mockBotSubscriberModel.create).toHaveBeenCalledWith({
+        bot_id: 'bot-1',
+        chat_id: '42',
+        chat_type: 'private',
+        user_id: '42',
+        username: 'john',
+        first_name: 'John',
+        metadata: { language_code: 'en' }
+      });
+    });
+
+    it('should only touch last interaction for active subscribers', async () => {
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue(mockSubscriber);
+
+      await TelegramWebhookService.processUpdate(mockBot, {
+        update_id: 2,
+        callback_query: {
+          id: 'cb-1',
+          from: { id: 42, first_name: 'John' },
+          message: { message_id: 11, date: 0, chat: privateChat },
+          data: 'click'
+        }
+      });
+
+      expect(mockBotSubscriberModel.updateLastInteraction).toHaveBeenCalledWith('bot-1', '42');
+      expect(mockBotSubscriberModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reactivate inactive subscribers and keep their metadata', async () => {
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue({ ...mockSubscriber, is_active: false });
+
+      await TelegramWebhookService.processUpdate(mockBot, {
+        update_id: 3,
+        message: { message_id: 12, date: 0, chat: privateChat }
+      });
+
+      expect(mockBotSubscriberModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        chat_id: '42',
+        metadata: { source: 'import' }
+      }));
+    });
+
+    it('should deactivate the subscriber when the bot is blocked', async () => {
+      await TelegramWebhookService.processUpdate(mockBot, {
+        update_id: 4,
+        my_chat_member: {
+          chat: privateChat,
+          from: { id: 42 },
+          date: 0,
+          old_chat_member: { status: 'member', user: { id: 1, is_bot: true } },
+          new_chat_member: { status: 'kicked', user: { id: 1, is_bot: true } }
+        }
+      });
+
+      expect(mockBotSubscriberModel.deactivateByBotAndChat).toHaveBeenCalledWith('bot-1', '42');
+      expect(mockBotSubscriberModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should ignore updates without a chat', async () => {
+      await TelegramWebhookService.processUpdate(mockBot, {
+        update_id: 5,
+        inline_query: { id: 'iq-1', from: { id: 42 }, query: 'cats', offset: '' }
+      });
+
+      expect(mockBotSubscriberModel.findByBotAndChat).not.toHaveBeenCalled();
+    });
+
+    it('should record button presses on broadcast messages as clicks', async () => {
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue(mockSubscriber);
+      mockBroadcastDeliveryModel.findByMessage.mockResolvedValue({
+        id: 'delivery-1',
+        broadcast_id: 'broadcast-1',
+        bot_id: 'bot-1',
+        chat_id: '42',
+        status: 'sent',
+        variant: 'B',
+        attempts: 1,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+
+      await TelegramWebhookService.processUpdate(mockBot, {
+        update_id: 6,
+        callback_query: {
+          id: 'cb-1',
+          from: { id: 42 },
+          message: { message_id: 777, chat: privateChat, date: 1700000000 },
+          data: 'promo'
+        }
+      });
+
+      expect(mockBroadcastDeliveryModel.findByMessage).toHaveBeenCalledWith('bot-1', '42', 777);
+      expect(mockBroadcastClickModel.create).toHaveBeenCalledWith({
+        broadcast_id: 'broadcast-1',
+        delivery_id: 'delivery-1',
+        variant: 'B',
+        source: 'callback',
+        button_data: 'promo'
+      });
+    });
+
+    it('should not record clicks on messages that were not broadcasts', async () => {
+      mockBotSubscriberModel.findByBotAndChat.mockResolvedValue(mockSubscriber);
+      mockBroadcastDeliveryModel.findByMessage.mockResolvedValue(null);
+
+      await TelegramWebhookService.processUpdate(mockBot, {
+        update_id: 7,
+        callback_query: {
+          id: 'cb-2',
+          from: { id: 42 },
+          message: { message_id: 12, chat: privateChat, date: 1700000000 },
+          data: 'menu'
+        }
+      });
+
+      expect(mockBroadcastClickModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { TwoFactorService } from '../../services/twoFactorService';
+import { UserTwoFactorModel } from '../../models/UserTwoFactor';
+import { UserModel } from '../../models/User';
+import { generateTotp, totpStep } from '../../utils/totp';
+
+jest.mock('crypto', () => jest.requireActual('crypto'));
+jest.mock('../../models/UserTwoFactor');
+
+const mockUserTwoFactorModel = UserTwoFactorModel as jest.Mocked<typeof UserTwoFactorModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+const mockJwt = jwt as jest.Mocked<typeof jwt>;
+
+describe('TwoFactorService', () => {
+  const user = { id: 'user-1', email: 'jane@example.com', role: 'user' as const };
+  const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+  // Enrols the user and returns the stored row along with the plain secret the app was given
+  const enrol = async (enabled = true) => {
+    mockUserTwoFactorModel.savePendingSecret.mockImplementationOnce(async (userId, secretEncrypted) => ({
+      user_id: userId,
+      secret_encrypted: secretEncrypted,
+      created_at: new Date(),
+      updated_at: new Date()
+    }));
+    const setup = await TwoFactorService.beginSetup(user);
+    const row = {
+      user_id: user.id,
+      secret_encrypted: mockUserTwoFactorModel.savePendingSecret.mock.calls[0]![1],
+      ...(enabled && { enabled_at: new Date() }),
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    mockUserTwoFactorModel.findByUserId.mockResolvedValue(row);
+
+    return { setup, row };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Codes are generated and checked within the same 30-second window
+    jest.spyOn(Date, 'now').mockReturnValue(new Date('2025-02-04T10:00:05Z').getTime());
+    mockUserTwoFactorModel.findByUserId.mockReset();
+    mockUserModel.findById.mockResolvedValue(user as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should store the secret encrypted and hand out a QR code for it', async () => {
+    const { setup, row } = await enrol(false);
+
+    expect(setup.otpauthUrl).toContain(`secret=${setup.secret}`);
+    expect(setup.qrCode).toMatch(/^data:image\/png;base64,/);
+    expect(row.secret_encrypted).not.toContain(setup.secret);
+  });
+
+  it('should not restart enrolment once it is enabled', async () => {
+    mockUserTwoFactorModel.savePendingSecret.mockResolvedValueOnce(null);
+
+    await expect(TwoFactorService.beginSetup(user)).rejects.toThrow('Two-factor authentication is already enabled');
+  });
+
+  describe('enable', () => {
+    it('should confirm the secret with a code and store only hashes of the recovery codes', async () => {
+      const { setup } = await enrol(false);
+      mockUserTwoFactorModel.enable.mockResolvedValueOnce({} as any);
+
+      const recoveryCodes = await TwoFactorService.enable('user-1', generateTotp(setup.secret));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(mockUserTwoFactorModel.enable).toHaveBeenCalledWith(
+        'user-1',
+        totpStep(),
+        recoveryCodes.map(code => sha256(code.replace('-', '')))
+      );
+    });
+
+    it('should refuse a wrong code', async () => {
+      await enrol(false);
+
+      await expect(TwoFactorService.enable('user-1', '000000')).rejects.toThrow('Invalid two-factor code');
+      expect(mockUserTwoFactorModel.enable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should refuse an app code whose time step was already used', async () => {
+      const { setup } = await enrol();
+      mockUserTwoFactorModel.claimStep.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      const code = generateTotp(setup.secret);
+
+      await expect(TwoFactorService.verifyCode('user-1', code)).resolves.toBe(true);
+      await expect(TwoFactorService.verifyCode('user-1', code)).resolves.toBe(false);
+      expect(mockUserTwoFactorModel.claimStep).toHaveBeenCalledWith('user-1', totpStep());
+    });
+
+    it('should accept a recovery code typed without its dash', async () => {
+      await enrol();
+      mockUserTwoFactorModel.consumeRecoveryCode.mockResolvedValueOnce(true);
+
+      await expect(TwoFactorService.verifyCode('user-1', ' ABCDE12345 ')).resolves.toBe(true);
+      expect(mockUserTwoFactorModel.consumeRecoveryCode).toHaveBeenCalledWith('user-1', sha256('abcde12345'));
+    });
+
+    it('should refuse any code while enrolment is unconfirmed', async () => {
+      const { setup } = await enrol(false);
+
+      await expect(TwoFactorService.verifyCode('user-1', generateTotp(setup.secret))).resolves.toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('should take the password and a code', async () => {
+      const { setup } = await enrol();
+      mockUserTwoFactorModel.isEnabled.mockResolvedValueOnce(true);
+      mockUserTwoFactorModel.claimStep.mockResolvedValueOnce(true);
+
+      await TwoFactorService.disable('user-1', 'password', generateTotp(setup.secret));
+
+      expect(mockUserModel.verifyPassword).toHaveBeenCalledWith(user, 'password');
+      expect(mockUserTwoFactorModel.delete).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should refuse a wrong password', async () => {
+      mockUserTwoFactorModel.isEnabled.mockResolvedValueOnce(true);
+      mockUserModel.verifyPassword.mockResolvedValueOnce(false);
+
+      await expect(TwoFactorService.disable('user-1', 'wrong', '123456')).rejects.toThrow('Invalid password');
+      expect(mockUserTwoFactorModel.delete).not.toHaveBeenCalled();
+    });
+
+    it.each(['admin', 'developer'])('should not let a %s turn it off', async role => {
+      mockUserModel.findById.mockResolvedValueOnce({ ...user, role } as any);
+
+      await expect(TwoFactorService.disable('user-1', 'password', '123456'))
+        .rejects.toThrow('Two-factor authentication is required for your role');
+      expect(mockUserTwoFactorModel.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should not accept a challenge issued for another step of the login', () => {
+    (mockJwt.verify as jest.Mock).mockReturnValueOnce({ userId: 'user-1', purpose: 'two_factor_setup' });
+
+    expect(() => TwoFactorService.verifyChallenge('challenge', 'two_factor_login')).toThrow('Invalid or expired challenge');
+  });
+});
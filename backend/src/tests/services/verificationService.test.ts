@@ -0,0 +1,108 @@
+import { VerificationService } from '../../services/verificationService';
+import { NotificationService } from '../../services/notificationService';
+import { IdentityVerificationModel } from '../../models/IdentityVerification';
+import { UserModel } from '../../models/User';
+
+jest.mock('../../models/IdentityVerification');
+jest.mock('../../services/notificationService');
+
+const mockNotificationService = NotificationService as jest.Mocked<typeof NotificationService>;
+const mockVerificationModel = IdentityVerificationModel as jest.Mocked<typeof IdentityVerificationModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+describe('VerificationService', () => {
+  const documents = [{ filename: 'doc-1.jpg', original_name: 'passport.jpg', mime_type: 'image/jpeg', size: 1024 }];
+
+  const input = {
+    requested_level: 'identity_verified' as const,
+    document_type: 'passport' as const,
+    full_name: 'Ivan Petrov',
+    country: 'RU'
+  };
+
+  const verification = (overrides: Record<string, any> = {}) => ({
+    id: 'verification-1',
+    user_id: 'user-1',
+    ...input,
+    documents,
+    status: 'pending' as const,
+    user_email: 'dev@example.com',
+    user_created_at: new Date(),
+    verification_level: 'email_verified' as const,
+    display_currency: 'USD' as const,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('submit', () => {
+    it('should record the documents for review', async () => {
+      mockUserModel.findById.mockResolvedValue({ id: 'user-1', email_verified: true, verification_level: 'email_verified' } as any);
+      mockVerificationModel.create.mockResolvedValue(verification());
+
+      await VerificationService.submit('user-1', input, documents);
+
+      expect(mockVerificationModel.create).toHaveBeenCalledWith({ ...input, user_id: 'user-1', documents });
+    });
+
+    it('should require a confirmed email first', async () => {
+      mockUserModel.findById.mockResolvedValue({ id: 'user-1', email_verified: false, verification_level: 'unverified' } as any);
+
+      await expect(VerificationService.submit('user-1', input, documents))
+        .rejects.toThrow('Confirm your email before submitting identity documents');
+      expect(mockVerificationModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a level the user already has', async () => {
+      mockUserModel.findById.mockResolvedValue({ id: 'user-1', email_verified: true, verification_level: 'business' } as any);
+
+      await expect(VerificationService.submit('user-1', input, documents))
+        .rejects.toThrow('Your account is already verified at this level');
+    });
+  });
+
+  describe('review', () => {
+    it('should raise the user to the requested level on approval', async () => {
+      mockVerificationModel.findById.mockResolvedValue(verification());
+      mockVerificationModel.review.mockResolvedValue(verification({ status: 'approved' }));
+
+      await VerificationService.review('verification-1', 'admin-1', 'approve');
+
+      expect(mockVerificationModel.review).toHaveBeenCalledWith('verification-1', 'approved', 'admin-1', undefined);
+      expect(mockUserModel.updateVerificationLevel).toHaveBeenCalledWith('user-1', 'identity_verified');
+      expect(mockNotificationService.sendVerificationReviewedNotification).toHaveBeenCalledWith(
+        'user-1', true, 'identity_verified', undefined
+      );
+    });
+
+    it('should not lower a business account when an identity request is approved', async () => {
+      mockVerificationModel.findById.mockResolvedValue(verification({ verification_level: 'business' }));
+      mockVerificationModel.review.mockResolvedValue(verification({ status: 'approved' }));
+
+      await VerificationService.review('verification-1', 'admin-1', 'approve');
+
+      expect(mockUserModel.updateVerificationLevel).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason to reject', async () => {
+      mockVerificationModel.findById.mockResolvedValue(verification());
+
+      await expect(VerificationService.review('verification-1', 'admin-1', 'reject'))
+        .rejects.toThrow('A reason is required to reject a verification request');
+      expect(mockVerificationModel.review).not.toHaveBeenCalled();
+    });
+
+    it('should not review a request twice', async () => {
+      mockVerificationModel.findById.mockResolvedValue(verification({ status: 'rejected' }));
+      mockVerificationModel.review.mockResolvedValue(null);
+
+      await expect(VerificationService.review('verification-1', 'admin-1', 'reject', 'Blurry photo'))
+        .rejects.toThrow('Verification request has already been reviewed');
+      expect(mockNotificationService.sendVerificationReviewedNotification).not.toHaveBeenCalled();
+    });
+  });
+});
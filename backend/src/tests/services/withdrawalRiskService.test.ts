@@ -0,0 +1,108 @@
+import { WithdrawalRiskService, payoutDestination } from '../../services/withdrawalRiskService';
+import { TransactionModel } from '../../models/Transaction';
+import { UserModel } from '../../models/User';
+import { UserSessionModel } from '../../models/UserSession';
+
+jest.mock('../../models/UserSession');
+
+const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+const mockUserSessionModel = UserSessionModel as jest.Mocked<typeof UserSessionModel>;
+
+describe('WithdrawalRiskService', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+  const user = (overrides: Record<string, any> = {}) => ({
+    id: 'user-1',
+    email: 'dev@example.com',
+    created_at: daysAgo(400),
+    ...overrides
+  }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env['WITHDRAWAL_RISK_HOLD_SCORE'];
+
+    mockUserModel.findById.mockResolvedValue(user());
+    mockTransactionModel.getDestinationHistory.mockResolvedValue({ completed_withdrawals: 2, other_accounts: 0 });
+    mockTransactionModel.getIncomeSince.mockResolvedValue({ total: 500, referral: 50 });
+    mockTransactionModel.getRefundedCommissions.mockResolvedValue({ count: 0, amount: 0 });
+    mockUserSessionModel.getLoginAddresses.mockResolvedValue([
+      { ip_address: '203.0.113.7', first_seen: daysAgo(20), last_seen: daysAgo(1) }
+    ]);
+  });
+
+  describe('payoutDestination', () => {
+    it('should key a destination so that the same one always matches', () => {
+      expect(payoutDestination('paypal', { paypal: { email: ' Dev@Example.com ' } })).toBe('paypal:dev@example.com');
+      expect(payoutDestination('crypto', { crypto: { address: 'bc1qxyz', currency: 'btc' } })).toBe('crypto:BTC:bc1qxyz');
+      expect(payoutDestination('bank_transfer', {
+        bankAccount: { accountNumber: '000123', routingNumber: '110000', accountHolderName: 'Dev' }
+      })).toBe('bank_transfer:110000:000123');
+      expect(payoutDestination('paypal', {})).toBeNull();
+    });
+  });
+
+  describe('assess', () => {
+    it('should score an established account paying out to a known destination as low risk', async () => {
+      const risk = await WithdrawalRiskService.assess('user-1', 'paypal:dev@example.com');
+
+      expect(risk).toEqual({ score: 0, level: 'low', reasons: [], hold: false });
+    });
+
+    it('should add up the signals of a risky account and hold the withdrawal', async () => {
+      mockUserModel.findById.mockResolvedValue(user({ created_at: daysAgo(3), password_changed_at: daysAgo(1) }));
+      mockTransactionModel.getDestinationHistory.mockResolvedValue({ completed_withdrawals: 0, other_accounts: 0 });
+
+      const risk = await WithdrawalRiskService.assess('user-1', 'paypal:dev@example.com');
+
+      expect(risk.reasons.map(reason => reason.code)).toEqual(['new_account', 'recent_password_reset', 'new_destination']);
+      expect(risk.score).toBe(65);
+      expect(risk.level).toBe('high');
+      expect(risk.hold).toBe(true);
+    });
+
+    it('should flag a destination used by another account', async () => {
+      mockTransactionModel.getDestinationHistory.mockResolvedValue({ completed_withdrawals: 0, other_accounts: 2 });
+
+      const risk = await WithdrawalRiskService.assess('user-1', 'paypal:dev@example.com');
+
+      expect(risk.reasons).toEqual([expect.objectContaining({ code: 'shared_destination', points: 35 })]);
+      expect(risk.level).toBe('medium');
+    });
+
+    it('should flag referral-heavy income and commissions refunded after they were paid', async () => {
+      mockTransactionModel.getIncomeSince.mockResolvedValue({ total: 100, referral: 80 });
+      mockTransactionModel.getRefundedCommissions.mockResolvedValue({ count: 2, amount: 14.5 });
+
+      const risk = await WithdrawalRiskService.assess('user-1', 'paypal:dev@example.com');
+
+      expect(risk.reasons.map(reason => reason.code)).toEqual(['referral_income', 'refunded_commissions']);
+      expect(risk.score).toBe(40);
+    });
+
+    it('should flag logins from many and newly seen IP addresses', async () => {
+      mockUserSessionModel.getLoginAddresses.mockResolvedValue([
+        { ip_address: '198.51.100.4', first_seen: new Date(), last_seen: new Date() },
+        { ip_address: '203.0.113.7', first_seen: daysAgo(20), last_seen: daysAgo(2) },
+        { ip_address: '192.0.2.10', first_seen: daysAgo(25), last_seen: daysAgo(10) }
+      ]);
+
+      const risk = await WithdrawalRiskService.assess('user-1', 'paypal:dev@example.com');
+
+      expect(risk.reasons.map(reason => reason.code)).toEqual(['many_login_addresses', 'new_login_address']);
+      expect(risk.score).toBe(25);
+    });
+
+    it('should hold at the configured score', async () => {
+      process.env['WITHDRAWAL_RISK_HOLD_SCORE'] = '35';
+      mockTransactionModel.getDestinationHistory.mockResolvedValue({ completed_withdrawals: 0, other_accounts: 1 });
+
+      const risk = await WithdrawalRiskService.assess('user-1', 'paypal:dev@example.com');
+
+      expect(risk.hold).toBe(true);
+      delete process.env['WITHDRAWAL_RISK_HOLD_SCORE'];
+    });
+  });
+});
@@ -0,0 +1,475 @@
+import { WithdrawalService } from '../../services/withdrawalService';
+import { LedgerService } from '../../services/ledgerService';
+import { NotificationService } from '../../services/notificationService';
+import { payoutProviders, selectPayoutProvider } from '../../services/payoutProviders';
+import { WithdrawalRiskService } from '../../services/withdrawalRiskService';
+import { FxRateModel } from '../../models/FxRate';
+import { PayoutModel } from '../../models/Payout';
+import { PaymentDisputeModel } from '../../models/PaymentDispute';
+import { WithdrawalRiskAssessmentModel } from '../../models/WithdrawalRiskAssessment';
+import { TransactionModel } from '../../models/Transaction';
+import { UserModel } from '../../models/User';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+  withTransaction: jest.fn((callback: (client: any) => Promise<any>) => callback(mockClient))
+}));
+jest.mock('../../models/FxRate');
+jest.mock('../../models/Payout');
+jest.mock('../../models/PaymentDispute');
+jest.mock('../../models/WithdrawalRiskAssessment');
+jest.mock('../../services/ledgerService');
+jest.mock('../../services/notificationService');
+jest.mock('../../services/withdrawalRiskService', () => ({
+  ...jest.requireActual('../../services/withdrawalRiskService'),
+  WithdrawalRiskService: { assess: jest.fn() }
+}));
+
+const mockLedgerService = LedgerService as jest.Mocked<typeof LedgerService>;
+const mockNotificationService = NotificationService as jest.Mocked<typeof NotificationService>;
+const mockFxRateModel = FxRateModel as jest.Mocked<typeof FxRateModel>;
+const mockPayoutModel = PayoutModel as jest.Mocked<typeof PayoutModel>;
+const mockDisputeModel = PaymentDisputeModel as jest.Mocked<typeof PaymentDisputeModel>;
+const mockRiskModel = WithdrawalRiskAssessmentModel as jest.Mocked<typeof WithdrawalRiskAssessmentModel>;
+const mockRiskService = WithdrawalRiskService as jest.Mocked<typeof WithdrawalRiskService>;
+const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+describe('WithdrawalService', () => {
+  const fakeProvider = payoutProviders.fake;
+
+  const withdrawal = (overrides: Record<string, any> = {}) => ({
+    id: 'withdrawal-1',
+    user_id: 'user-1',
+    type: 'withdrawal' as const,
+    // DECIMAL columns arrive as strings
+    amount: '100.00' as any,
+    currency: 'USD',
+    status: 'pending' as const,
+    description: 'Withdrawal request via paypal',
+    metadata: {
+      withdrawal_method: 'paypal',
+      withdrawal_details: { paypal: { email: 'dev@example.com' } },
+      commission_amount: 2.5,
+      net_amount: 97.5,
+      status: 'pending_review'
+    },
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  const payout = (overrides: Record<string, any> = {}) => ({
+    id: 'payout-1',
+    transaction_id: 'withdrawal-1',
+    provider: 'fake' as const,
+    status: 'processing' as const,
+    amount: '97.50' as any,
+    currency: 'USD',
+    provider_response: {},
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env['PAYOUT_PROVIDER'] = 'fake';
+    fakeProvider.outcome = 'paid';
+    fakeProvider.sent.length = 0;
+
+    mockTransactionModel.findById.mockResolvedValue(withdrawal());
+    mockFxRateModel.getLatest.mockResolvedValue({ USD: 1, EUR: 0.92, RUB: 90 });
+    mockPayoutModel.create.mockResolvedValue(payout());
+    mockRiskModel.findByTransactionId.mockResolvedValue(null);
+    mockDisputeModel.hasOpenTopUpDispute.mockResolvedValue(false);
+    mockLedgerService.completeWithdrawal.mockResolvedValue(withdrawal({ status: 'completed' }));
+    mockLedgerService.releaseWithdrawal.mockResolvedValue(withdrawal({ status: 'failed' }));
+  });
+
+  afterAll(() => {
+    delete process.env['PAYOUT_PROVIDER'];
+  });
+
+  describe('getWithdrawalLimits', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    const user = (verificationLevel: string, accountAgeDays: number) => ({
+      id: 'user-1',
+      email: 'dev@example.com',
+      verification_level: verificationLevel,
+      created_at: new Date(Date.now() - accountAgeDays * DAY_MS)
+    }) as any;
+
+    it('should raise the limits with the verification level', async () => {
+      mockUserModel.findById.mockResolvedValue(user('email_verified', 90));
+
+      const limits = await WithdrawalService.getWithdrawalLimits('user-1');
+
+      expect(limits).toEqual(expect.objectContaining({
+        maxAmount: 1000,
+        dailyLimit: 500,
+        monthlyLimit: 2000,
+        commission: 3.5,
+        verificationLevel: 'email_verified',
+        accountAgeDays: 90,
+        commissionDiscount: 0,
+        nextLevel: {
+          level: 'identity_verified',
+          limits: expect.objectContaining({ maxAmount: 10000, commission: 2.5 })
+        }
+      }));
+      expect(limits.newAccountUntil).toBeUndefined();
+    });
+
+    it('should halve the limits of a new account', async () => {
+      mockUserModel.findById.mockResolvedValue(user('identity_verified', 10));
+
+      const limits = await WithdrawalService.getWithdrawalLimits('user-1');
+
+      expect(limits).toEqual(expect.objectContaining({
+        maxAmount: 5000,
+        dailyLimit: 500,
+        monthlyLimit: 2500,
+        commission: 2.5
+      }));
+      expect(limits.newAccountUntil).toBeDefined();
+    });
+
+    it('should lower the commission of an established account', async () => {
+      mockUserModel.findById.mockResolvedValue(user('business', 400));
+
+      const limits = await WithdrawalService.getWithdrawalLimits('user-1');
+
+      expect(limits.commission).toBe(1);
+      expect(limits.commissionDiscount).toBe(0.5);
+      expect(limits.nextLevel).toBeUndefined();
+    });
+  });
+
+  describe('canWithdraw', () => {
+    beforeEach(() => {
+      mockUserModel.findById.mockResolvedValue({
+        id: 'user-1',
+        verification_level: 'email_verified',
+        created_at: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)
+      } as any);
+    });
+
+    it('should check the limits converted to the currency of the withdrawal', async () => {
+      mockLedgerService.getUserBalance.mockResolvedValue(500);
+
+      const result = await WithdrawalService.canWithdraw('user-1', 9, 'EUR');
+
+      expect(mockLedgerService.getUserBalance).toHaveBeenCalledWith('user-1', 'EUR');
+      expect(result).toEqual(expect.objectContaining({
+        canWithdraw: false,
+        reason: 'Minimum withdrawal amount is €9.20'
+      }));
+    });
+
+    it('should count earlier withdrawals at the rates they were made at', async () => {
+      mockLedgerService.getUserBalance.mockResolvedValue(100000);
+      // 450 USD was 45,000 RUB when it was withdrawn, the whole 500 USD daily limit at today's 90 RUB
+      mockTransactionModel.list.mockResolvedValueOnce({
+        transactions: [withdrawal({ amount: '450.00', status: 'completed', fx_rates: { USD: 1, RUB: 100 } })],
+        total: 1
+      });
+
+      const result = await WithdrawalService.canWithdraw('user-1', 1000, 'RUB');
+
+      expect(result).toEqual(expect.objectContaining({
+        canWithdraw: false,
+        // Intl puts a no-break space after the currency code
+        reason: 'Daily withdrawal limit of RUB\u00a045,000.00 would be exceeded'
+      }));
+    });
+
+    it('should not allow withdrawals while a top-up is disputed', async () => {
+      mockDisputeModel.hasOpenTopUpDispute.mockResolvedValueOnce(true);
+
+      const result = await WithdrawalService.canWithdraw('user-1', 50);
+
+      expect(mockDisputeModel.hasOpenTopUpDispute).toHaveBeenCalledWith('user-1');
+      expect(result).toEqual({
+        canWithdraw: false,
+        reason: 'Withdrawals are paused while a top-up of this account is disputed'
+      });
+    });
+  });
+
+  describe('createWithdrawalRequest', () => {
+    beforeEach(() => {
+      mockLedgerService.getUserBalance.mockResolvedValue(500);
+      mockUserModel.findById.mockResolvedValue({
+        id: 'user-1',
+        verification_level: 'email_verified',
+        created_at: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)
+      } as any);
+      mockLedgerService.requestWithdrawal.mockResolvedValue(withdrawal());
+    });
+
+    it('should hold a high-risk request and keep the score out of the metadata', async () => {
+      const reasons = [{ code: 'shared_destination', points: 35, message: 'Payout destination used by 1 other account(s)' }];
+      mockRiskService.assess.mockResolvedValue({ score: 70, level: 'high', reasons, hold: true });
+
+      await WithdrawalService.createWithdrawalRequest({
+        userId: 'user-1',
+        amount: 100,
+        method: 'paypal',
+        details: { paypal: { email: 'Dev@Example.com' } }
+      });
+
+      expect(mockRiskService.assess).toHaveBeenCalledWith('user-1', 'paypal:dev@example.com');
+      const metadata = mockLedgerService.requestWithdrawal.mock.calls[0]![3]!;
+      expect(metadata['payout_destination']).toBe('paypal:dev@example.com');
+      expect(metadata).not.toHaveProperty('risk_score');
+      expect(mockLedgerService.requestWithdrawal.mock.calls[0]![5]).toBe(mockClient);
+      expect(mockRiskModel.create).toHaveBeenCalledWith({
+        transaction_id: 'withdrawal-1',
+        score: 70,
+        level: 'high',
+        reasons,
+        held: true
+      }, mockClient);
+    });
+
+    it('should fail the request when its assessment cannot be recorded', async () => {
+      mockRiskService.assess.mockResolvedValue({ score: 0, level: 'low', reasons: [], hold: false });
+      mockRiskModel.create.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(WithdrawalService.createWithdrawalRequest({
+        userId: 'user-1',
+        amount: 100,
+        method: 'paypal',
+        details: { paypal: { email: 'dev@example.com' } }
+      })).rejects.toThrow('connection reset');
+    });
+  });
+
+  describe('processWithdrawal', () => {
+    it('should complete the withdrawal when the provider pays it', async () => {
+      mockPayoutModel.finish.mockResolvedValue(payout({ status: 'paid', reference_id: 'fake_payout-1' }));
+
+      await WithdrawalService.processWithdrawal('withdrawal-1', 'approve', undefined, 'admin-1');
+
+      expect(mockPayoutModel.create).toHaveBeenCalledWith({
+        transaction_id: 'withdrawal-1',
+        provider: 'fake',
+        amount: 97.5,
+        currency: 'USD',
+        approved_by: 'admin-1'
+      });
+      expect(fakeProvider.sent).toEqual([expect.objectContaining({
+        payoutId: 'payout-1',
+        amount: 97.5,
+        method: 'paypal',
+        details: { paypal: { email: 'dev@example.com' } }
+      })]);
+      expect(mockPayoutModel.finish).toHaveBeenCalledWith('payout-1', 'paid', { reference_id: 'fake_payout-1' });
+      expect(mockLedgerService.completeWithdrawal).toHaveBeenCalledWith('withdrawal-1', expect.objectContaining({
+        admin_approved: true,
+        payout_id: 'payout-1',
+        payout_provider: 'fake',
+        payout_status: 'paid',
+        payout_reference_id: 'fake_payout-1'
+      }));
+      expect(mockNotificationService.sendWithdrawalCompletedNotification).toHaveBeenCalledWith('user-1', 97.5, 'USD');
+    });
+
+    it('should fail the withdrawal and restore the balance when the provider rejects it', async () => {
+      fakeProvider.outcome = 'failed';
+      mockPayoutModel.finish.mockResolvedValue(payout({
+        status: 'failed',
+        failure_reason: 'Rejected by the fake payout provider'
+      }));
+
+      await WithdrawalService.processWithdrawal('withdrawal-1', 'approve');
+
+      expect(mockLedgerService.completeWithdrawal).not.toHaveBeenCalled();
+      expect(mockLedgerService.releaseWithdrawal).toHaveBeenCalledWith('withdrawal-1', 'failed', expect.objectContaining({
+        payout_status: 'failed',
+        payout_failure_reason: 'Rejected by the fake payout provider'
+      }));
+      expect(mockNotificationService.sendWithdrawalFailedNotification).toHaveBeenCalledWith(
+        'user-1', 100, 'USD', 'Rejected by the fake payout provider'
+      );
+    });
+
+    it('should keep the withdrawal pending while the provider processes the payout', async () => {
+      fakeProvider.outcome = 'processing';
+
+      await WithdrawalService.processWithdrawal('withdrawal-1', 'approve');
+
+      expect(mockPayoutModel.finish).not.toHaveBeenCalled();
+      expect(mockPayoutModel.update).toHaveBeenCalledWith('payout-1', {
+        reference_id: 'fake_payout-1',
+        failure_reason: null
+      });
+      expect(mockTransactionModel.update).toHaveBeenCalledWith('withdrawal-1', {
+        metadata: expect.objectContaining({
+          admin_approved: true,
+          payout_status: 'processing',
+          payout_reference_id: 'fake_payout-1'
+        })
+      });
+      expect(mockLedgerService.completeWithdrawal).not.toHaveBeenCalled();
+      expect(mockLedgerService.releaseWithdrawal).not.toHaveBeenCalled();
+    });
+
+    it('should leave the payout processing when the provider does not answer, and resend it on approval', async () => {
+      const send = jest.spyOn(fakeProvider, 'send').mockRejectedValueOnce(new Error('socket hang up'));
+
+      await expect(WithdrawalService.processWithdrawal('withdrawal-1', 'approve'))
+        .rejects.toThrow('could not be confirmed');
+      expect(mockPayoutModel.update).toHaveBeenCalledWith('payout-1', { failure_reason: 'socket hang up' });
+      expect(mockLedgerService.releaseWithdrawal).not.toHaveBeenCalled();
+
+      mockPayoutModel.create.mockResolvedValue(null);
+      mockPayoutModel.findByTransactionId.mockResolvedValue(payout({ failure_reason: 'socket hang up' }));
+      mockPayoutModel.finish.mockResolvedValue(payout({ status: 'paid' }));
+
+      await WithdrawalService.processWithdrawal('withdrawal-1', 'approve');
+
+      expect(send).toHaveBeenLastCalledWith(expect.objectContaining({ payoutId: 'payout-1' }));
+      expect(mockLedgerService.completeWithdrawal).toHaveBeenCalled();
+      send.mockRestore();
+    });
+
+    it('should not pay out a withdrawal that was cancelled in the meantime', async () => {
+      mockPayoutModel.create.mockResolvedValue(null);
+      mockPayoutModel.findByTransactionId.mockResolvedValue(null);
+      const send = jest.spyOn(fakeProvider, 'send');
+
+      await expect(WithdrawalService.processWithdrawal('withdrawal-1', 'approve'))
+        .rejects.toThrow('Withdrawal has already been processed');
+      expect(send).not.toHaveBeenCalled();
+      send.mockRestore();
+    });
+
+    it('should not approve a held withdrawal without a note', async () => {
+      mockRiskModel.findByTransactionId.mockResolvedValue({ transaction_id: 'withdrawal-1', held: true } as any);
+
+      await expect(WithdrawalService.processWithdrawal('withdrawal-1', 'approve', undefined, 'admin-1'))
+        .rejects.toThrow('A note is required to approve a withdrawal held for risk review');
+      expect(mockPayoutModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should release the hold when a held withdrawal is approved with a note', async () => {
+      mockRiskModel.findByTransactionId.mockResolvedValue({ transaction_id: 'withdrawal-1', held: true } as any);
+      mockPayoutModel.finish.mockResolvedValue(payout({ status: 'paid', reference_id: 'fake_payout-1' }));
+
+      await WithdrawalService.processWithdrawal('withdrawal-1', 'approve', 'Called the user, payout is theirs', 'admin-1');
+
+      expect(mockRiskModel.release).toHaveBeenCalledWith('withdrawal-1', 'admin-1');
+      expect(mockPayoutModel.create).toHaveBeenCalled();
+    });
+
+    it('should not pay out the withdrawals of a suspended account', async () => {
+      mockUserModel.findById.mockResolvedValueOnce({ id: 'user-1', status: 'suspended' } as any);
+
+      await expect(WithdrawalService.processWithdrawal('withdrawal-1', 'approve', undefined, 'admin-1'))
+        .rejects.toThrow('Withdrawals of a suspended account are paused');
+      expect(mockPayoutModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should not pay out withdrawals while a top-up of the account is disputed', async () => {
+      mockDisputeModel.hasOpenTopUpDispute.mockResolvedValueOnce(true);
+
+      await expect(WithdrawalService.processWithdrawal('withdrawal-1', 'approve', undefined, 'admin-1'))
+        .rejects.toThrow('Withdrawals are paused while a top-up of this account is disputed');
+      expect(mockPayoutModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePayoutUpdate', () => {
+    it('should settle a processing payout once', async () => {
+      mockPayoutModel.findByReference.mockResolvedValue(payout({ provider: 'paypal', reference_id: 'BATCH-1' }));
+      mockPayoutModel.finish.mockResolvedValue(payout({ provider: 'paypal', status: 'paid', reference_id: 'BATCH-1' }));
+
+      await WithdrawalService.handlePayoutUpdate('paypal', 'BATCH-1', { status: 'paid' });
+
+      expect(mockPayoutModel.findByReference).toHaveBeenCalledWith('paypal', 'BATCH-1');
+      expect(mockLedgerService.completeWithdrawal).toHaveBeenCalledWith('withdrawal-1', expect.objectContaining({
+        payout_provider: 'paypal',
+        payout_reference_id: 'BATCH-1'
+      }));
+
+      mockPayoutModel.findByReference.mockResolvedValue(payout({ provider: 'paypal', status: 'paid' }));
+      mockLedgerService.completeWithdrawal.mockClear();
+
+      await expect(WithdrawalService.handlePayoutUpdate('paypal', 'BATCH-1', { status: 'paid' })).resolves.toBeNull();
+      expect(mockLedgerService.completeWithdrawal).not.toHaveBeenCalled();
+    });
+
+    it('should reopen the payout when the ledger could not settle it', async () => {
+      mockPayoutModel.findByReference.mockResolvedValue(payout({ reference_id: 'BATCH-1' }));
+      mockPayoutModel.finish.mockResolvedValue(payout({ status: 'failed', failure_reason: 'Returned' }));
+      mockLedgerService.releaseWithdrawal.mockRejectedValue(new Error('connection reset'));
+
+      await expect(WithdrawalService.handlePayoutUpdate('fake', 'BATCH-1', { status: 'failed', failureReason: 'Returned' }))
+        .rejects.toThrow('connection reset');
+      expect(mockPayoutModel.update).toHaveBeenCalledWith('payout-1', { status: 'processing' });
+    });
+  });
+
+  describe('completeManualPayout', () => {
+    it('should only settle manual payouts', async () => {
+      mockPayoutModel.findById.mockResolvedValue(payout({ provider: 'paypal' }));
+
+      await expect(WithdrawalService.completeManualPayout('payout-1', 'paid'))
+        .rejects.toThrow('Payout is sent through paypal and is settled by its callbacks');
+    });
+
+    it('should fail a manual payout with the admin reason', async () => {
+      mockPayoutModel.findById.mockResolvedValue(payout({ provider: 'manual' }));
+      mockPayoutModel.finish.mockResolvedValue(payout({ provider: 'manual', status: 'failed', failure_reason: 'Wrong wallet address' }));
+
+      await WithdrawalService.completeManualPayout('payout-1', 'failed', { reason: 'Wrong wallet address' });
+
+      expect(mockPayoutModel.finish).toHaveBeenCalledWith('payout-1', 'failed', { failure_reason: 'Wrong wallet address' });
+      expect(mockLedgerService.releaseWithdrawal).toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelWithdrawal', () => {
+    it('should return the withdrawal to the balance through the ledger', async () => {
+      mockLedgerService.releaseWithdrawal.mockResolvedValue(withdrawal({ status: 'cancelled' }));
+
+      const cancelled = await WithdrawalService.cancelWithdrawal('user-1', 'withdrawal-1');
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(mockLedgerService.releaseWithdrawal).toHaveBeenCalledWith('withdrawal-1', 'cancelled', expect.objectContaining({
+        cancelled_by_user: true
+      }));
+    });
+  });
+
+  describe('selectPayoutProvider', () => {
+    beforeEach(() => {
+      delete process.env['PAYOUT_PROVIDER'];
+    });
+
+    afterEach(() => {
+      delete process.env['PAYPAL_CLIENT_ID'];
+    });
+
+    it('should pay PayPal withdrawals through PayPal once it is configured', () => {
+      const details = { paypal: { email: 'dev@example.com' } };
+      expect(selectPayoutProvider('paypal', details).name).toBe('manual');
+
+      process.env['PAYPAL_CLIENT_ID'] = 'client-id';
+      expect(selectPayoutProvider('paypal', details).name).toBe('paypal');
+    });
+
+    it('should pay crypto and bank transfers without a connected account by hand', () => {
+      expect(selectPayoutProvider('crypto', { crypto: { address: '0xabc', currency: 'USDT' } }).name).toBe('manual');
+      expect(selectPayoutProvider('bank_transfer', {
+        bankAccount: { accountNumber: '123', routingNumber: '456', accountHolderName: 'Dev' }
+      }).name).toBe('manual');
+    });
+  });
+});
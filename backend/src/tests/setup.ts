@@ -108,6 +108,10 @@ jest.mock('../models/User', () => ({
       first_name: 'Updated',
       last_name: 'User'
     }),
+    findByIdForUpdate: jest.fn().mockResolvedValue({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      balance: 0
+    }),
     updateBalance: jest.fn().mockResolvedValue({
       id: '123e4567-e89b-12d3-a456-426614174000',
       balance: 100
@@ -125,6 +129,18 @@ jest.mock('../models/User', () => ({
     updatePassword: jest.fn().mockResolvedValue({
       id: '123e4567-e89b-12d3-a456-426614174000'
     }),
+    updateVerificationLevel: jest.fn().mockResolvedValue({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      verification_level: 'identity_verified'
+    }),
+    suspend: jest.fn().mockResolvedValue({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      status: 'suspended'
+    }),
+    reinstate: jest.fn().mockResolvedValue({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      status: 'active'
+    }),
   },
 }));
 
@@ -231,6 +247,17 @@ jest.mock('../models/Transaction', () => ({
       id: 'transaction-id-123',
       status: 'completed'
     }),
+    findByIdForUpdate: jest.fn().mockResolvedValue({
+      id: 'transaction-id-123',
+      status: 'completed'
+    }),
+    findCommissionsByPayment: jest.fn().mockResolvedValue([]),
+    findRefundsByPayment: jest.fn().mockResolvedValue([]),
+    findDisputeHolds: jest.fn().mockResolvedValue([]),
+    findByStripePaymentIntentId: jest.fn().mockResolvedValue(null),
+    getDestinationHistory: jest.fn().mockResolvedValue({ completed_withdrawals: 0, other_accounts: 0 }),
+    getIncomeSince: jest.fn().mockResolvedValue({ total: 0, referral: 0 }),
+    getRefundedCommissions: jest.fn().mockResolvedValue({ count: 0, amount: 0 }),
     list: jest.fn().mockResolvedValue({
       transactions: [],
       total: 0
@@ -294,13 +321,21 @@ jest.mock('../models/PasswordResetToken', () => ({
 jest.mock('../models/BotModuleActivation', () => ({
   BotModuleActivationModel: {
     findByBotId: jest.fn(),
+    findByBotAndModule: jest.fn(),
+    create: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+    updateStatus: jest.fn(),
     deactivateAll: jest.fn(),
+    getExpiredActivations: jest.fn().mockResolvedValue([]),
+    expire: jest.fn(),
   },
 }));
 
 // Set test environment variables
 process.env['NODE_ENV'] = 'test';
 process.env['BOT_TOKEN_SECRET'] = 'test-secret-key';
+process.env['STRIPE_SECRET_KEY'] = 'sk_test_123';
 
 // Mock authentication middleware to avoid JWT issues in tests
 jest.mock('../middleware/authMiddleware', () => ({
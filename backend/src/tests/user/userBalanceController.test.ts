@@ -2,13 +2,19 @@ import request from 'supertest';
 import app from '../../index';
 import { UserModel } from '../../models/User';
 import { TransactionModel } from '../../models/Transaction';
+import { LedgerService } from '../../services/ledgerService';
+import { FxRateModel } from '../../models/FxRate';
 // JWT is mocked in setup.ts
 
 // Mock the models
 jest.mock('../../models/User');
 jest.mock('../../models/Transaction');
+jest.mock('../../services/ledgerService');
+jest.mock('../../models/FxRate');
 const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
 const mockTransactionModel = TransactionModel as jest.Mocked<typeof TransactionModel>;
+const mockLedgerService = LedgerService as jest.Mocked<typeof LedgerService>;
+const mockFxRateModel = FxRateModel as jest.Mocked<typeof FxRateModel>;
 
 describe('User Balance Controller', () => {
   let authToken: string;
@@ -22,6 +28,9 @@ describe('User Balance Controller', () => {
     balance: 100.50,
     referral_code: 'REF123',
     email_verified: true,
+    verification_level: 'email_verified' as const,
+    status: 'active' as const,
+    display_currency: 'USD' as const,
     theme_preference: 'light' as const,
     created_at: new Date(),
     updated_at: new Date()
@@ -38,6 +47,8 @@ describe('User Balance Controller', () => {
   describe('GET /api/users/balance', () => {
     it('should return user balance successfully', async () => {
       mockUserModel.findById.mockResolvedValue(mockUser);
+      mockLedgerService.getUserBalances.mockResolvedValue({ USD: 100.5, EUR: 9.2 });
+      mockFxRateModel.getLatest.mockResolvedValue({ USD: 1, EUR: 0.92, RUB: 90 });
 
       const response = await request(app)
         .get('/api/users/balance')
@@ -48,7 +59,10 @@ describe('User Balance Controller', () => {
         success: true,
         data: {
           balance: mockUser.balance,
-          currency: 'USD'
+          currency: 'USD',
+          balances: { USD: 100.5, EUR: 9.2, RUB: 0 },
+          display_currency: 'USD',
+          total_in_display_currency: 110.5
         }
       });
 
@@ -76,86 +90,15 @@ describe('User Balance Controller', () => {
   });
 
   describe('POST /api/users/balance/add', () => {
-    const addFundsData = {
-      amount: 50.00,
-      description: 'Test top-up'
-    };
-
-    it('should add funds successfully', async () => {
-      const updatedUser = { ...mockUser, balance: mockUser.balance + addFundsData.amount };
-      const mockTransaction = {
-        id: 'trans-123',
-        user_id: mockUser.id,
-        type: 'payment' as const,
-        amount: addFundsData.amount,
-        currency: 'USD',
-        status: 'pending' as const,
-        description: addFundsData.description,
-        metadata: { source: 'manual_add_funds' },
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-
-      mockUserModel.updateBalance.mockResolvedValue(updatedUser);
-      mockTransactionModel.create.mockResolvedValue(mockTransaction);
-
+    it('should not let users credit their own wallet', async () => {
       const response = await request(app)
         .post('/api/users/balance/add')
         .set('Authorization', `Bearer ${authToken}`)
-        .send(addFundsData)
-        .expect(200);
-
-      expect(response.body).toEqual({
-        success: true,
-        data: {
-          balance: updatedUser.balance,
-          amount_added: addFundsData.amount
-        },
-        message: 'Funds added successfully'
-      });
-
-      expect(mockUserModel.updateBalance).toHaveBeenCalledWith(mockUser.id, addFundsData.amount);
-      expect(mockTransactionModel.create).toHaveBeenCalledWith({
-        user_id: mockUser.id,
-        type: 'payment',
-        amount: addFundsData.amount,
-        currency: 'USD',
-        description: addFundsData.description,
-        metadata: { source: 'manual_add_funds' }
-      });
-    });
-
-    it('should return 401 without auth token', async () => {
-      const response = await request(app)
-        .post('/api/users/balance/add')
-        .send(addFundsData)
-        .expect(401);
-
-      expect(response.body.error.code).toBe('AUTH_REQUIRED');
-    });
-
-    it('should return 400 for invalid amount', async () => {
-      const invalidData = { amount: -10 };
-
-      const response = await request(app)
-        .post('/api/users/balance/add')
-        .set('Authorization', `Bearer ${authToken}`)
-        .send(invalidData)
-        .expect(400);
-
-      expect(response.body.error.code).toBe('INVALID_AMOUNT');
-    });
-
-    it('should return 404 if user not found', async () => {
-      mockUserModel.updateBalance.mockResolvedValue(null);
-
-      const response = await request(app)
-        .post('/api/users/balance/add')
-        .set('Authorization', `Bearer ${authToken}`)
-        .send(addFundsData)
+        .send({ amount: 50.00, description: 'Test top-up' })
         .expect(404);
 
-      expect(response.body.error.code).toBe('USER_NOT_FOUND');
+      expect(response.body.error.code).toBe('ROUTE_NOT_FOUND');
+      expect(mockLedgerService.adjustBalance).not.toHaveBeenCalled();
     });
   });
 
@@ -170,19 +113,18 @@ describe('User Balance Controller', () => {
       const mockTransaction = {
         id: 'trans-456',
         user_id: mockUser.id,
-        type: 'withdrawal' as const,
+        type: 'adjustment' as const,
         amount: deductFundsData.amount,
         currency: 'USD',
-        status: 'pending' as const,
+        status: 'completed' as const,
         description: deductFundsData.description,
-        metadata: { source: 'manual_deduct_funds' },
+        metadata: { source: 'manual_deduct_funds', direction: 'debit' },
         created_at: new Date(),
         updated_at: new Date()
       };
 
-      mockUserModel.findById.mockResolvedValue(mockUser);
-      mockUserModel.updateBalance.mockResolvedValue(updatedUser);
-      mockTransactionModel.create.mockResolvedValue(mockTransaction);
+      mockUserModel.findById.mockResolvedValueOnce(mockUser).mockResolvedValueOnce(updatedUser);
+      mockLedgerService.adjustBalance.mockResolvedValue(mockTransaction);
 
       const response = await request(app)
         .post('/api/users/balance/deduct')
@@ -200,15 +142,12 @@ describe('User Balance Controller', () => {
       });
 
       expect(mockUserModel.findById).toHaveBeenCalledWith(mockUser.id);
-      expect(mockUserModel.updateBalance).toHaveBeenCalledWith(mockUser.id, -deductFundsData.amount);
-      expect(mockTransactionModel.create).toHaveBeenCalledWith({
-        user_id: mockUser.id,
-        type: 'withdrawal',
-        amount: deductFundsData.amount,
-        currency: 'USD',
-        description: deductFundsData.description,
-        metadata: { source: 'manual_deduct_funds' }
-      });
+      expect(mockLedgerService.adjustBalance).toHaveBeenCalledWith(
+        mockUser.id,
+        -deductFundsData.amount,
+        deductFundsData.description,
+        { source: 'manual_deduct_funds' }
+      );
     });
 
     it('should return 401 without auth token', async () => {
@@ -223,6 +162,7 @@ describe('User Balance Controller', () => {
     it('should return 400 for insufficient balance', async () => {
       const lowBalanceUser = { ...mockUser, balance: 10.00 };
       mockUserModel.findById.mockResolvedValue(lowBalanceUser);
+      mockLedgerService.adjustBalance.mockRejectedValue(new Error('Insufficient balance'));
 
       const response = await request(app)
         .post('/api/users/balance/deduct')
@@ -25,6 +25,9 @@ describe('User Controller', () => {
     balance: 100.50,
     referral_code: 'REF123',
     email_verified: true,
+    verification_level: 'email_verified' as const,
+    status: 'active' as const,
+    display_currency: 'USD' as const,
     theme_preference: 'light' as const,
     created_at: new Date(),
     updated_at: new Date()
@@ -0,0 +1,82 @@
+import {
+  renderMessageTemplate,
+  escapeForParseMode,
+  findUnknownTemplateVariables,
+  hasTemplateVariables
+} from '../../utils/messageTemplate';
+
+describe('messageTemplate', () => {
+  const recipient = {
+    chat_id: '42',
+    username: 'jane_doe',
+    first_name: 'Jane',
+    last_name: null,
+    metadata: { city: 'Berlin', plan: { tier: 'pro' }, tags: ['vip'] }
+  };
+
+  describe('renderMessageTemplate', () => {
+    it('should substitute recipient fields and metadata', () => {
+      const rendered = renderMessageTemplate(
+        'Hi {{first_name}} (@{{ username }}) from {{metadata.city}}, plan {{metadata.plan.tier}}',
+        recipient
+      );
+
+      expect(rendered).toBe('Hi Jane (@jane_doe) from Berlin, plan pro');
+    });
+
+    it('should use fallbacks for missing values', () => {
+      const rendered = renderMessageTemplate(
+        '{{last_name|Friend}}, {{metadata.country|somewhere}}, {{metadata.tags|no tags}}, [{{full_name}}]',
+        recipient
+      );
+
+      expect(rendered).toBe('Friend, somewhere, no tags, [Jane]');
+    });
+
+    it('should render fallbacks when the chat is not a known subscriber', () => {
+      expect(renderMessageTemplate('Hello {{first_name|there}}!{{username}}', null)).toBe('Hello there!');
+    });
+
+    it('should escape substituted values but not the template itself', () => {
+      const rendered = renderMessageTemplate(
+        '<b>Hi {{first_name}}</b>',
+        { ...recipient, first_name: 'Tom & <Jerry>' },
+        'HTML'
+      );
+
+      expect(rendered).toBe('<b>Hi Tom &amp; &lt;Jerry&gt;</b>');
+    });
+
+    it('should leave messages without placeholders untouched', () => {
+      expect(renderMessageTemplate('Price: {5}', recipient, 'MarkdownV2')).toBe('Price: {5}');
+    });
+  });
+
+  describe('escapeForParseMode', () => {
+    it('should escape Markdown entities', () => {
+      expect(escapeForParseMode('snake_case *bold* [link]', 'Markdown')).toBe('snake\\_case \\*bold\\* \\[link]');
+    });
+
+    it('should escape every MarkdownV2 reserved character', () => {
+      expect(escapeForParseMode('a.b-c!(d)', 'MarkdownV2')).toBe('a\\.b\\-c\\!\\(d\\)');
+    });
+
+    it('should not escape without a parse mode', () => {
+      expect(escapeForParseMode('<_>')).toBe('<_>');
+    });
+  });
+
+  describe('findUnknownTemplateVariables', () => {
+    it('should report unsupported variables once', () => {
+      expect(findUnknownTemplateVariables('{{first_name}} {{email}} {{metadata.}} {{email|x}} {{metadata.city}}'))
+        .toEqual(['email', 'metadata.']);
+    });
+  });
+
+  describe('hasTemplateVariables', () => {
+    it('should detect placeholders', () => {
+      expect(hasTemplateVariables('Hi {{first_name|there}}')).toBe(true);
+      expect(hasTemplateVariables('Hi there')).toBe(false);
+    });
+  });
+});
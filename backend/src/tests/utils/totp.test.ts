@@ -0,0 +1,38 @@
+import { base32Decode, base32Encode, generateTotp, totpStep, totpUri, verifyTotp } from '../../utils/totp';
+
+jest.mock('crypto', () => jest.requireActual('crypto'));
+
+describe('totp', () => {
+  // The RFC 6238 test secret, ASCII "12345678901234567890"
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv-gy3tqojq gezdgnbvgy3tqojq====').toString()).toBe('12345678901234567890');
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037']
+  ])('should generate the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(generateTotp(secret, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('should accept codes one window either side and return their step', () => {
+    const now = 1111111109 * 1000;
+    const previous = generateTotp(secret, totpStep(now) - 1);
+
+    expect(verifyTotp(secret, '081804', now)).toBe(totpStep(now));
+    expect(verifyTotp(secret, previous, now)).toBe(totpStep(now) - 1);
+    expect(verifyTotp(secret, generateTotp(secret, totpStep(now) - 2), now)).toBeNull();
+    expect(verifyTotp(secret, '12345', now)).toBeNull();
+  });
+
+  it('should build the otpauth URI authenticator apps scan', () => {
+    expect(totpUri('JBSWY3DPEHPK3PXP', 'jane@example.com', 'Telebotics')).toBe(
+      'otpauth://totp/Telebotics:jane%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Telebotics&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
@@ -2,9 +2,12 @@
 export type UserRole = 'user' | 'admin' | 'developer';
 export type BotStatus = 'active' | 'inactive' | 'suspended';
 export type ModuleStatus = 'pending' | 'approved' | 'rejected' | 'suspended';
-export type TransactionType = 'payment' | 'withdrawal' | 'commission' | 'refund';
+export type TransactionType = 'payment' | 'withdrawal' | 'commission' | 'refund' | 'adjustment' | 'top_up';
 export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
 export type ThemePreference = 'light' | 'dark' | 'system';
+export type VerificationLevel = 'unverified' | 'email_verified' | 'identity_verified' | 'business';
+export type UserStatus = 'active' | 'suspended';
+export type CurrencyCode = 'USD' | 'EUR' | 'RUB';
 export type NotificationType = 
   | 'email_verification'
   | 'password_reset'
@@ -40,7 +43,14 @@ export interface User extends BaseModel {
   referral_code?: string;
   referred_by?: string;
   email_verified: boolean;
+  verification_level: VerificationLevel;
+  status: UserStatus;
+  suspension_reason?: string;
+  suspended_at?: Date;
+  suspended_by?: string;
+  password_changed_at?: Date;
   theme_preference: ThemePreference;
+  display_currency: CurrencyCode;
   avatar_url?: string;
   notification_preferences?: NotificationPreferences;
 }
@@ -79,6 +89,7 @@ export interface Bot extends BaseModel {
   token_hash: string;
   status: BotStatus;
   webhook_url?: string;
+  webhook_secret?: string;
 }
 
 // Module model interface
@@ -87,6 +98,7 @@ export interface Module extends BaseModel {
   description?: string;
   category?: string;
   price: number;
+  currency: CurrencyCode;
   developer_id?: string;
   status: ModuleStatus;
   code_url?: string;
@@ -116,7 +128,10 @@ export interface Transaction extends BaseModel {
   status: TransactionStatus;
   description?: string;
   metadata: Record<string, any>;
+  stripe_payment_intent_id?: string;
   processed_at?: Date;
+  // Units of each currency per US dollar when the transaction was created
+  fx_rates?: Record<string, number>;
 }
 
 // Support ticket interface
@@ -190,6 +205,7 @@ export interface UpdateUserInput {
   first_name?: string;
   last_name?: string;
   theme_preference?: ThemePreference;
+  display_currency?: CurrencyCode;
   avatar_url?: string | null;
 }
 
@@ -215,6 +231,7 @@ export interface CreateModuleInput {
   description?: string;
   category?: string;
   price?: number;
+  currency?: CurrencyCode;
   developer_id?: string;
   code_url?: string;
   documentation_url?: string;
@@ -227,6 +244,7 @@ export interface UpdateModuleInput {
   description?: string;
   category?: string;
   price?: number;
+  currency?: CurrencyCode;
   status?: ModuleStatus;
   code_url?: string;
   documentation_url?: string;
@@ -239,6 +257,7 @@ export interface CreateTransactionInput {
   type: TransactionType;
   amount: number;
   currency?: string;
+  status?: TransactionStatus;
   description?: string;
   metadata?: Record<string, any>;
 }
@@ -247,6 +266,7 @@ export interface UpdateTransactionInput {
   status?: TransactionStatus;
   processed_at?: Date;
   metadata?: Record<string, any>;
+  stripe_payment_intent_id?: string;
 }
 
 export interface ActivateModuleInput {
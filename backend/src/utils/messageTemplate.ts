@@ -0,0 +1,113 @@
+export type TemplateParseMode = 'HTML' | 'Markdown' | 'MarkdownV2';
+
+export interface TemplateRecipient {
+  chat_id: string;
+  username?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+/**
+ * Placeholders look like {{first_name}} or {{first_name|friend}}, where the text after the pipe is used
+ * when the recipient has no value. Subscriber metadata is reachable as {{metadata.some.field}}.
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|([^{}]*))?\}\}/g;
+
+export const TEMPLATE_VARIABLES = ['first_name', 'last_name', 'full_name', 'username', 'chat_id'] as const;
+
+const METADATA_PREFIX = 'metadata.';
+
+// Characters that carry meaning in Telegram's Markdown flavours
+const MARKDOWN_SPECIAL_CHARACTERS = /([_*`[])/g;
+const MARKDOWN_V2_SPECIAL_CHARACTERS = /([_*[\]()~`>#+\-=|{}.!\\])/g;
+
+export const escapeForParseMode = (value: string, parseMode?: TemplateParseMode): string => {
+  switch (parseMode) {
+    case 'HTML':
+      return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    case 'Markdown':
+      return value.replace(MARKDOWN_SPECIAL_CHARACTERS, '\\$1');
+    case 'MarkdownV2':
+      return value.replace(MARKDOWN_V2_SPECIAL_CHARACTERS, '\\$1');
+    default:
+      return value;
+  }
+};
+
+export const hasTemplateVariables = (template: string): boolean => {
+  return new RegExp(PLACEHOLDER_PATTERN.source).test(template);
+};
+
+/**
+ * Names of placeholders that do not refer to a known recipient field or to subscriber metadata
+ */
+export const findUnknownTemplateVariables = (template: string): string[] => {
+  const unknown = new Set<string>();
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1]!;
+    const isKnown = (TEMPLATE_VARIABLES as readonly string[]).includes(name)
+      || (name.startsWith(METADATA_PREFIX) && name.length > METADATA_PREFIX.length);
+
+    if (!isKnown) {
+      unknown.add(name);
+    }
+  }
+
+  return Array.from(unknown);
+};
+
+/**
+ * Substitute the recipient's data into a message. Substituted values are escaped for the parse mode,
+ * while fallbacks are part of the template and are inserted as written.
+ */
+export const renderMessageTemplate = (
+  template: string,
+  recipient: TemplateRecipient | null,
+  parseMode?: TemplateParseMode
+): string => {
+  return template.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string, fallback?: string) => {
+    const value = recipient ? resolveVariable(recipient, name) : undefined;
+
+    if (value === undefined || value === '') {
+      return fallback !== undefined ? fallback.trim() : '';
+    }
+
+    return escapeForParseMode(value, parseMode);
+  });
+};
+
+const resolveVariable = (recipient: TemplateRecipient, name: string): string | undefined => {
+  switch (name) {
+    case 'first_name':
+      return recipient.first_name || undefined;
+    case 'last_name':
+      return recipient.last_name || undefined;
+    case 'full_name':
+      return [recipient.first_name, recipient.last_name].filter(Boolean).join(' ') || undefined;
+    case 'username':
+      return recipient.username || undefined;
+    case 'chat_id':
+      return recipient.chat_id;
+  }
+
+  if (!name.startsWith(METADATA_PREFIX)) {
+    return undefined;
+  }
+
+  const value = name
+    .slice(METADATA_PREFIX.length)
+    .split('.')
+    .reduce<any>((current, key) => (current !== null && typeof current === 'object' ? current[key] : undefined), recipient.metadata);
+
+  if (value === undefined || value === null || typeof value === 'object') {
+    return undefined;
+  }
+
+  return String(value);
+};
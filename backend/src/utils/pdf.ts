@@ -0,0 +1,65 @@
+import PDFKit from 'pdfkit';
+
+/**
+ * Plain documents such as invoices: text and straight lines on A4 pages, drawn with pdfkit. Coordinates are
+ * in points from the top left corner of the page, and text is placed by its baseline.
+ *
+ * The DejaVu fonts are embedded (subset to the glyphs used), so Cyrillic and currency signs print as written.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: 'left' | 'right';
+}
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+const FONT_FILES: Record<PdfFont, string> = {
+  regular: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'),
+  bold: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'),
+  mono: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf')
+};
+
+export class PdfDocument {
+  // Without margins pdfkit never starts a page of its own, so text can go right down to the footer
+  private readonly doc = new PDFKit({ size: [PAGE_WIDTH, PAGE_HEIGHT], margin: 0 });
+
+  constructor() {
+    for (const [font, file] of Object.entries(FONT_FILES)) {
+      this.doc.registerFont(font, file);
+    }
+  }
+
+  addPage(): this {
+    this.doc.addPage({ size: [PAGE_WIDTH, PAGE_HEIGHT], margin: 0 });
+    return this;
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): this {
+    const line = text.replace(/[\r\n]+/g, ' ');
+    this.doc.font(options.font || 'regular').fontSize(options.size || 10);
+    const left = options.align === 'right' ? x - this.doc.widthOfString(line) : x;
+
+    this.doc.text(line, left, y, { baseline: 'alphabetic', lineBreak: false });
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5): this {
+    this.doc.lineWidth(width).moveTo(x1, y1).lineTo(x2, y2).stroke();
+    return this;
+  }
+
+  toBuffer(): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      this.doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      this.doc.on('end', () => resolve(Buffer.concat(chunks)));
+      this.doc.on('error', reject);
+      this.doc.end();
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { findUnknownTemplateVariables } from '../utils/messageTemplate';
 
 // Common validation patterns
 const uuidSchema = Joi.string().uuid();
@@ -6,6 +7,7 @@ const emailSchema = Joi.string().email().max(255);
 const passwordSchema = Joi.string().min(8).max(128);
 const nameSchema = Joi.string().min(1).max(100).trim();
 const urlSchema = Joi.string().uri().max(500);
+const currencySchema = Joi.string().uppercase().valid('USD', 'EUR', 'RUB');
 
 // User validation schemas
 export const createUserSchema = Joi.object({
@@ -22,9 +24,32 @@ export const updateUserSchema = Joi.object({
   first_name: nameSchema.optional(),
   last_name: nameSchema.optional(),
   theme_preference: Joi.string().valid('light', 'dark', 'system').optional(),
+  display_currency: currencySchema.optional(),
   avatar_url: Joi.string().uri().max(500).allow(null).optional(),
 });
 
+// Identity documents submitted to raise the verification level
+export const identityVerificationSchema = Joi.object({
+  requested_level: Joi.string().valid('identity_verified', 'business').required(),
+  document_type: Joi.string().when('requested_level', {
+    is: 'business',
+    then: Joi.valid('business_registration'),
+    otherwise: Joi.valid('passport', 'national_id', 'driver_license'),
+  }).required(),
+  full_name: Joi.string().min(2).max(200).trim().required(),
+  country: Joi.string().length(2).uppercase().required(),
+  business_name: Joi.string().max(200).trim().when('requested_level', {
+    is: 'business',
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+export const reviewVerificationSchema = Joi.object({
+  action: Joi.string().valid('approve', 'reject').required(),
+  notes: Joi.string().max(2000).when('action', { is: 'reject', then: Joi.required() }),
+});
+
 export const loginSchema = Joi.object({
   email: emailSchema.required(),
   password: Joi.string().required(),
@@ -54,6 +79,7 @@ export const createModuleSchema = Joi.object({
   description: Joi.string().max(2000).optional(),
   category: Joi.string().max(100).optional(),
   price: Joi.number().min(0).precision(2).default(0),
+  currency: currencySchema.default('USD'),
   developer_id: uuidSchema.optional(),
   code_url: urlSchema.optional(),
   documentation_url: urlSchema.optional(),
@@ -66,6 +92,7 @@ export const updateModuleSchema = Joi.object({
   description: Joi.string().max(2000).optional(),
   category: Joi.string().max(100).optional(),
   price: Joi.number().min(0).precision(2).optional(),
+  currency: currencySchema.optional(),
   status: Joi.string().valid('pending', 'approved', 'rejected', 'suspended').optional(),
   code_url: urlSchema.optional(),
   documentation_url: urlSchema.optional(),
@@ -76,9 +103,10 @@ export const updateModuleSchema = Joi.object({
 // Transaction validation schemas
 export const createTransactionSchema = Joi.object({
   user_id: uuidSchema.required(),
-  type: Joi.string().valid('payment', 'withdrawal', 'commission', 'refund').required(),
+  type: Joi.string().valid('payment', 'withdrawal', 'commission', 'refund', 'adjustment', 'top_up').required(),
   amount: Joi.number().positive().precision(2).required(),
-  currency: Joi.string().length(3).uppercase().default('USD'),
+  currency: currencySchema.default('USD'),
+  status: Joi.string().valid('pending', 'completed').default('pending'),
   description: Joi.string().max(500).optional(),
   metadata: Joi.object().optional(),
 });
@@ -87,6 +115,44 @@ export const updateTransactionSchema = Joi.object({
   status: Joi.string().valid('pending', 'completed', 'failed', 'cancelled').optional(),
   processed_at: Joi.date().optional(),
   metadata: Joi.object().optional(),
+  stripe_payment_intent_id: Joi.string().max(255).optional(),
+});
+
+// Text evidence Stripe accepts for a dispute; file evidence is uploaded in the Stripe dashboard
+const disputeEvidenceFields = [
+  'access_activity_log',
+  'billing_address',
+  'cancellation_policy_disclosure',
+  'cancellation_rebuttal',
+  'customer_email_address',
+  'customer_name',
+  'customer_purchase_ip',
+  'duplicate_charge_explanation',
+  'product_description',
+  'refund_policy_disclosure',
+  'refund_refusal_explanation',
+  'service_date',
+  'uncategorized_text',
+];
+
+export const disputeEvidenceSchema = Joi.object({
+  evidence: Joi.object(
+    Object.fromEntries(disputeEvidenceFields.map(field => [field, Joi.string().max(20000).allow('')]))
+  ).default({}),
+  notes: Joi.string().max(2000).allow('').optional(),
+  submit: Joi.boolean().default(false),
+});
+
+// Outcome of a payout an admin sent by hand
+export const updateUserStatusSchema = Joi.object({
+  status: Joi.string().valid('active', 'suspended').required(),
+  reason: Joi.string().trim().max(1000).when('status', { is: 'suspended', then: Joi.required() }),
+});
+
+export const manualPayoutSchema = Joi.object({
+  status: Joi.string().valid('paid', 'failed').required(),
+  referenceId: Joi.string().max(255).optional(),
+  reason: Joi.string().max(1000).when('status', { is: 'failed', then: Joi.required() }),
 });
 
 // Bot module activation validation schemas
@@ -105,6 +171,236 @@ export const updateModuleActivationSchema = Joi.object({
   expires_at: Joi.date().optional(),
 });
 
+// Subscription plans of a module, at most one per billing interval
+export const saveModulePlansSchema = Joi.object({
+  plans: Joi.array().items(Joi.object({
+    billing_interval: Joi.string().valid('month', 'year').required(),
+    price: Joi.number().positive().precision(2).required(),
+    is_active: Joi.boolean().default(true),
+  })).min(1).max(2).unique('billing_interval').required(),
+});
+
+// Coupons; a fixed discount is in the given currency, a percentage one must leave something to pay
+export const createCouponSchema = Joi.object({
+  code: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).min(3).max(50).required(),
+  discount_type: Joi.string().valid('percentage', 'fixed').required(),
+  discount_value: Joi.number().positive().precision(2).when('discount_type', {
+    is: 'percentage',
+    then: Joi.number().less(100),
+  }).required(),
+  currency: currencySchema.when('discount_type', {
+    is: 'fixed',
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  module_id: uuidSchema.optional(),
+  max_redemptions: Joi.number().integer().min(1).optional(),
+  max_redemptions_per_user: Joi.number().integer().min(1).default(1),
+  first_purchase_only: Joi.boolean().default(false),
+  expires_at: Joi.date().greater('now').optional(),
+});
+
+export const updateCouponSchema = Joi.object({
+  max_redemptions: Joi.number().integer().min(1).allow(null).optional(),
+  max_redemptions_per_user: Joi.number().integer().min(1).optional(),
+  expires_at: Joi.date().allow(null).optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+// Actions a module may return in response to a dispatched bot update
+const moduleChatIdSchema = Joi.alternatives().try(Joi.string().max(255), Joi.number().integer());
+const parseModeSchema = Joi.string().valid('HTML', 'Markdown', 'MarkdownV2');
+
+export const moduleActionSchema = Joi.object({
+  type: Joi.string().valid('sendMessage', 'editMessage', 'answerCallbackQuery').required(),
+  chat_id: moduleChatIdSchema.optional(),
+  message_id: Joi.number().integer().when('type', { is: 'editMessage', then: Joi.required() }),
+  text: Joi.string().max(4096).when('type', {
+    is: Joi.valid('sendMessage', 'editMessage'),
+    then: Joi.required(),
+  }),
+  parse_mode: parseModeSchema.optional(),
+  disable_web_page_preview: Joi.boolean().optional(),
+  disable_notification: Joi.boolean().optional(),
+  reply_markup: Joi.object().optional(),
+  callback_query_id: Joi.string().max(255).optional(),
+  show_alert: Joi.boolean().optional(),
+  url: urlSchema.optional(),
+});
+
+export const moduleDispatchResponseSchema = Joi.object({
+  actions: Joi.array().items(moduleActionSchema).max(10).default([]),
+}).unknown(true);
+
+// Module developer API validation schemas
+export const moduleApiSendMessageSchema = Joi.object({
+  chat_id: moduleChatIdSchema.required(),
+  text: Joi.string().min(1).max(4096).required(),
+  parse_mode: parseModeSchema.optional(),
+  disable_web_page_preview: Joi.boolean().optional(),
+  disable_notification: Joi.boolean().optional(),
+  reply_markup: Joi.object().optional(),
+});
+
+export const moduleApiStateKeySchema = Joi.string().pattern(/^[A-Za-z0-9_.:-]+$/).min(1).max(128);
+
+export const moduleApiSetStateSchema = Joi.object({
+  value: Joi.any().required(),
+});
+
+// Broadcast validation schemas
+const templateVariablesRule: Joi.CustomValidator<string> = (value, helpers) => {
+  const unknown = findUnknownTemplateVariables(value);
+  if (unknown.length > 0) {
+    return helpers.message({ custom: `Unknown template variables: ${unknown.join(', ')}` });
+  }
+  return value;
+};
+
+export const inlineKeyboardButtonSchema = Joi.object({
+  text: Joi.string().min(1).max(64).required(),
+  url: urlSchema.optional(),
+  callback_data: Joi.string().min(1).max(64, 'utf8').optional(),
+}).xor('url', 'callback_data');
+
+export const broadcastMediaSchema = Joi.object({
+  type: Joi.string().valid('photo', 'video', 'document').required(),
+  // Telegram file_id of an already uploaded file, or a public HTTP(S) URL Telegram downloads itself
+  media: Joi.alternatives().try(
+    Joi.string().uri({ scheme: ['http', 'https'] }).max(500),
+    Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(255)
+  ).required(),
+});
+
+// Content of a broadcast, or of one of its A/B test variants
+const broadcastMessageSchema = Joi.when('media', {
+  // With attachments the message becomes the caption, which Telegram limits to 1024 characters
+  is: Joi.array().min(1).required(),
+  then: Joi.string().allow('').max(1024).default('').custom(templateVariablesRule),
+  otherwise: Joi.string().min(1).max(4096).required().custom(templateVariablesRule),
+});
+const broadcastMediaListSchema = Joi.array().items(broadcastMediaSchema).max(10);
+const inlineKeyboardSchema = Joi.array()
+  .items(Joi.array().items(inlineKeyboardButtonSchema).min(1).max(8))
+  .max(10);
+
+const broadcastContentRule: Joi.CustomValidator = (value, helpers) => {
+  const media: Array<{ type: string }> = value.media || [];
+
+  if (media.length > 1) {
+    // Telegram albums cannot carry a keyboard, and documents can only be grouped with documents
+    if (value.inline_keyboard?.length) {
+      return helpers.message({ custom: 'Inline keyboards cannot be attached to a media group' });
+    }
+    const documents = media.filter(item => item.type === 'document').length;
+    if (documents > 0 && documents < media.length) {
+      return helpers.message({ custom: 'Documents cannot be mixed with photos or videos in a media group' });
+    }
+  }
+
+  return value;
+};
+
+export const broadcastVariantSchema = Joi.object({
+  message: broadcastMessageSchema,
+  media: broadcastMediaListSchema.optional(),
+  inline_keyboard: inlineKeyboardSchema.optional(),
+  split: Joi.number().integer().min(1).max(99).required(), // percentage of recipients in the test
+}).custom(broadcastContentRule);
+
+export const createBroadcastSchema = Joi.object({
+  title: Joi.string().min(1).max(255).required(),
+  // An A/B test carries its content in the variants instead
+  message: Joi.when('variants', { is: Joi.exist(), then: Joi.forbidden(), otherwise: broadcastMessageSchema }),
+  targets: Joi.array().items(Joi.object({
+    botId: uuidSchema.required(),
+    chatIds: Joi.array().items(moduleChatIdSchema).min(1).required(),
+  })).min(1),
+  segment_id: uuidSchema,
+  scheduled_at: Joi.date().iso().optional(),
+  message_options: Joi.object({
+    parse_mode: parseModeSchema.optional(),
+    disable_web_page_preview: Joi.boolean().optional(),
+    disable_notification: Joi.boolean().optional(),
+  }).optional(),
+  media: broadcastMediaListSchema.when('variants', { is: Joi.exist(), then: Joi.forbidden() }),
+  inline_keyboard: inlineKeyboardSchema.when('variants', { is: Joi.exist(), then: Joi.forbidden() }),
+  variants: Joi.array().items(broadcastVariantSchema).min(2).max(4).optional(),
+  // How long the test groups get to react before the winning variant goes to everyone else
+  holdout_minutes: Joi.number().integer().min(5).max(7 * 24 * 60).when('variants', {
+    is: Joi.exist(),
+    then: Joi.optional().default(60),
+    otherwise: Joi.forbidden(),
+  }),
+  track_links: Joi.boolean().optional(),
+}).xor('targets', 'segment_id').custom((value, helpers) => {
+  if (value.variants) {
+    const totalSplit = value.variants.reduce((sum: number, variant: { split: number }) => sum + variant.split, 0);
+    if (totalSplit > 100) {
+      return helpers.message({ custom: 'Variant splits cannot add up to more than 100%' });
+    }
+    return value;
+  }
+
+  return broadcastContentRule(value, helpers);
+});
+
+export const createBroadcastTemplateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).trim().required(),
+  category: Joi.string().min(1).max(100).trim().optional(),
+  content: Joi.string().min(1).max(4096).required().custom(templateVariablesRule),
+  parse_mode: parseModeSchema.optional(),
+});
+
+export const updateBroadcastTemplateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).trim().optional(),
+  category: Joi.string().min(1).max(100).trim().optional(),
+  content: Joi.string().min(1).max(4096).custom(templateVariablesRule).optional(),
+  parse_mode: parseModeSchema.allow(null).optional(),
+});
+
+export const templatePreviewSchema = Joi.object({
+  message: Joi.string().min(1).max(4096).required().custom(templateVariablesRule),
+  parse_mode: parseModeSchema.optional(),
+  // Render for a real subscriber instead of the sample recipient
+  bot_id: uuidSchema.optional(),
+  chat_id: moduleChatIdSchema.optional(),
+}).and('bot_id', 'chat_id');
+
+export const segmentFiltersSchema = Joi.object({
+  chat_types: Joi.array()
+    .items(Joi.string().valid('private', 'group', 'supergroup', 'channel'))
+    .min(1)
+    .unique()
+    .optional(),
+  last_interaction_within_days: Joi.number().integer().min(1).max(3650).optional(),
+  last_interaction_older_than_days: Joi.number().integer().min(1).max(3650).optional(),
+  subscribed_after: Joi.date().iso().optional(),
+  subscribed_before: Joi.date().iso().optional(),
+  tags: Joi.array().items(Joi.string().min(1).max(64)).min(1).max(50).unique().optional(),
+  languages: Joi.array().items(Joi.string().min(2).max(10)).min(1).max(50).unique().optional(),
+  has_username: Joi.boolean().optional(),
+});
+
+export const createSegmentSchema = Joi.object({
+  name: Joi.string().min(1).max(255).trim().required(),
+  description: Joi.string().max(1000).allow('').optional(),
+  bot_ids: Joi.array().items(uuidSchema).min(1).max(50).unique().required(),
+  filters: segmentFiltersSchema.default({}),
+});
+
+export const updateSegmentSchema = Joi.object({
+  name: Joi.string().min(1).max(255).trim().optional(),
+  description: Joi.string().max(1000).allow('').optional(),
+  bot_ids: Joi.array().items(uuidSchema).min(1).max(50).unique().optional(),
+  filters: segmentFiltersSchema.optional(),
+});
+
+export const segmentPreviewSchema = Joi.object({
+  bot_ids: Joi.array().items(uuidSchema).min(1).max(50).unique().required(),
+  filters: segmentFiltersSchema.default({}),
+});
+
 // Support ticket validation schemas
 export const createSupportTicketSchema = Joi.object({
   user_id: uuidSchema.required(),
@@ -156,6 +452,32 @@ export const passwordResetSchema = Joi.object({
   password: passwordSchema.required(),
 });
 
+// Two-factor authentication schemas; codes are six digits from the app or a recovery code
+const twoFactorCodeSchema = Joi.string().trim().min(6).max(20);
+
+export const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: twoFactorCodeSchema.required(),
+});
+
+export const twoFactorSetupSchema = Joi.object({
+  challengeToken: Joi.string().optional(),
+});
+
+export const twoFactorEnableSchema = Joi.object({
+  challengeToken: Joi.string().optional(),
+  code: Joi.string().trim().pattern(/^\d{6}$/).required(),
+});
+
+export const twoFactorDisableSchema = Joi.object({
+  password: Joi.string().required(),
+  code: twoFactorCodeSchema.required(),
+});
+
+export const twoFactorCodeBodySchema = Joi.object({
+  code: twoFactorCodeSchema.required(),
+});
+
 // Module rating validation schemas
 export const createModuleRatingSchema = Joi.object({
   module_id: uuidSchema.required(),
@@ -203,7 +525,7 @@ export const moduleFilterSchema = Joi.object({
 }).concat(paginationSchema);
 
 export const transactionFilterSchema = Joi.object({
-  type: Joi.string().valid('payment', 'withdrawal', 'commission', 'refund').optional(),
+  type: Joi.string().valid('payment', 'withdrawal', 'commission', 'refund', 'adjustment', 'top_up').optional(),
   status: Joi.string().valid('pending', 'completed', 'failed', 'cancelled').optional(),
   currency: Joi.string().length(3).uppercase().optional(),
 }).concat(paginationSchema).concat(dateRangeSchema);
\ No newline at end of file
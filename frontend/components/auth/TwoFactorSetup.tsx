@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { TwoFactorSetup } from '@/types/auth';
+
+interface TwoFactorSetupFormProps {
+  setup: TwoFactorSetup;
+  onConfirm: (code: string) => Promise<void>;
+}
+
+// QR code and secret for the authenticator app, then a code from it to confirm enrolment
+export const TwoFactorSetupForm: React.FC<TwoFactorSetupFormProps> = ({ setup, onConfirm }) => {
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    try {
+      await onConfirm(code.trim());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Отсканируйте QR-код в приложении-аутентификаторе (Google Authenticator, Яндекс Ключ и т. п.)
+        и введите шестизначный код из него.
+      </p>
+      <img src={setup.qrCode} alt="QR-код для приложения-аутентификатора" className="w-48 h-48 mx-auto" />
+      <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+        Или введите ключ вручную: <span className="font-mono break-all">{setup.secret}</span>
+      </p>
+      <Input
+        value={code}
+        onChange={event => setCode(event.target.value)}
+        placeholder="123456"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+      />
+      <Button type="submit" className="w-full" disabled={isLoading || code.trim().length !== 6}>
+        {isLoading ? 'Проверка...' : 'Подтвердить'}
+      </Button>
+    </form>
+  );
+};
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Shown once after enrolment or regeneration; the codes cannot be looked up again
+export const RecoveryCodesList: React.FC<RecoveryCodesListProps> = ({ codes, onDone }) => {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Коды скопированы');
+    } catch (error) {
+      toast.error('Не удалось скопировать коды');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Сохраните коды восстановления в надёжном месте. Каждый из них можно использовать один раз вместо кода
+        из приложения, если у вас не будет доступа к телефону. Больше они показаны не будут.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-gray-50 dark:bg-gray-800 font-mono text-sm text-gray-900 dark:text-white">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={handleCopy}>
+          Скопировать
+        </Button>
+        <Button type="button" className="flex-1" onClick={onDone}>
+          Коды сохранены
+        </Button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -2,4 +2,5 @@ export { LoginForm } from './LoginForm';
 export { RegisterForm } from './RegisterForm';
 export { ForgotPasswordForm } from './ForgotPasswordForm';
 export { ResetPasswordForm } from './ResetPasswordForm';
-export { EmailVerification } from './EmailVerification';
\ No newline at end of file
+export { EmailVerification } from './EmailVerification';
+export { TwoFactorSetupForm, RecoveryCodesList } from './TwoFactorSetup';
\ No newline at end of file
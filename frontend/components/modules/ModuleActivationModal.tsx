@@ -45,10 +45,10 @@ export const ModuleActivationModal: React.FC<ModuleActivationModalProps> = ({
     }
   }, [isOpen]);
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string) => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
-      currency: 'RUB',
+      currency,
     }).format(amount);
   };
 
@@ -116,7 +116,7 @@ export const ModuleActivationModal: React.FC<ModuleActivationModalProps> = ({
             {module.description}
           </p>
           <p className="text-lg font-semibold text-gray-900 dark:text-white">
-            {module.price === 0 ? 'Бесплатно' : formatCurrency(module.price)}
+            {module.price === 0 ? 'Бесплатно' : formatCurrency(module.price, module.currency)}
           </p>
         </div>
 
@@ -12,10 +12,10 @@ export const ModuleCatalog: React.FC<ModuleCatalogProps> = ({ modules }) => {
   const [selectedModule, setSelectedModule] = useState<Module | null>(null);
   const [showActivationModal, setShowActivationModal] = useState(false);
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string) => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
-      currency: 'RUB',
+      currency,
     }).format(amount);
   };
 
@@ -95,7 +95,7 @@ export const ModuleCatalog: React.FC<ModuleCatalogProps> = ({ modules }) => {
               </div>
               <div className="text-right">
                 <p className="text-lg font-semibold text-gray-900 dark:text-white">
-                  {module.price === 0 ? 'Бесплатно' : formatCurrency(module.price)}
+                  {module.price === 0 ? 'Бесплатно' : formatCurrency(module.price, module.currency)}
                 </p>
               </div>
             </div>
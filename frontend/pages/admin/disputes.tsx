@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from 'react';
+import AdminRoute from '@/components/admin/AdminRoute';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { adminService, AdminDispute } from '@/services/adminService';
+import {
+  CheckCircleIcon,
+  XCircleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  DocumentTextIcon,
+  ShieldExclamationIcon,
+} from '@heroicons/react/24/outline';
+
+// Text evidence Stripe accepts; files are uploaded in the Stripe dashboard
+const EVIDENCE_FIELDS: Array<{ key: string; label: string; multiline?: boolean }> = [
+  { key: 'product_description', label: 'Описание модуля', multiline: true },
+  { key: 'customer_name', label: 'Имя покупателя' },
+  { key: 'customer_email_address', label: 'Email покупателя' },
+  { key: 'customer_purchase_ip', label: 'IP-адрес покупки' },
+  { key: 'service_date', label: 'Дата оказания услуги' },
+  { key: 'access_activity_log', label: 'Журнал использования модуля', multiline: true },
+  { key: 'refund_policy_disclosure', label: 'Политика возвратов', multiline: true },
+  { key: 'refund_refusal_explanation', label: 'Почему возврат не положен', multiline: true },
+  { key: 'uncategorized_text', label: 'Дополнительная информация', multiline: true },
+];
+
+const REASON_LABELS: Record<string, string> = {
+  fraudulent: 'Мошенничество',
+  duplicate: 'Повторное списание',
+  product_not_received: 'Услуга не получена',
+  product_unacceptable: 'Услуга не устроила',
+  subscription_canceled: 'Подписка отменена',
+  credit_not_processed: 'Возврат не проведен',
+  unrecognized: 'Платеж не опознан',
+  general: 'Другое',
+};
+
+const AdminDisputes: React.FC = () => {
+  const [disputes, setDisputes] = useState<AdminDispute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState('open');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selectedDispute, setSelectedDispute] = useState<AdminDispute | null>(null);
+  const [evidence, setEvidence] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const limit = 20;
+
+  useEffect(() => {
+    loadDisputes();
+  }, [currentPage, statusFilter]);
+
+  const loadDisputes = async () => {
+    try {
+      setLoading(true);
+      const result = await adminService.getDisputes({
+        page: currentPage,
+        limit,
+        status: statusFilter || undefined,
+      });
+      setDisputes(result.disputes);
+      setTotalPages(result.totalPages);
+      setTotal(result.total);
+    } catch (err) {
+      setError('Не удалось загрузить споры');
+      console.error('Failed to load disputes:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDispute = (dispute: AdminDispute) => {
+    setSelectedDispute(dispute);
+    setEvidence(dispute.evidence || {});
+    setNotes(dispute.notes || '');
+  };
+
+  const closeModal = () => {
+    setSelectedDispute(null);
+    setEvidence({});
+    setNotes('');
+  };
+
+  const handleSaveEvidence = async (submit: boolean) => {
+    if (!selectedDispute) return;
+    if (submit && !confirm('Доказательства можно отправить в Stripe только один раз. Отправить?')) return;
+
+    try {
+      setSaving(true);
+      await adminService.updateDisputeEvidence(selectedDispute.id, evidence, notes, submit);
+      closeModal();
+      await loadDisputes();
+    } catch (err) {
+      console.error('Failed to update dispute evidence:', err);
+      alert('Не удалось сохранить доказательства');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number, currency: string = 'USD') => {
+    return new Intl.NumberFormat('ru-RU', {
+      style: 'currency',
+      currency: currency,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('ru-RU', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getStatusBadge = (dispute: AdminDispute) => {
+    switch (dispute.status) {
+      case 'won':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+            <CheckCircleIcon className="w-3 h-3 mr-1" />
+            Выигран
+          </span>
+        );
+      case 'lost':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+            <XCircleIcon className="w-3 h-3 mr-1" />
+            Проигран
+          </span>
+        );
+      default: // open
+        return dispute.evidenceSubmittedAt ? (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+            <ClockIcon className="w-3 h-3 mr-1" />
+            На рассмотрении
+          </span>
+        ) : (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+            <ShieldExclamationIcon className="w-3 h-3 mr-1" />
+            Нужен ответ
+          </span>
+        );
+    }
+  };
+
+  if (loading && disputes.length === 0) {
+    return (
+      <AdminRoute>
+        <AdminLayout>
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        </AdminLayout>
+      </AdminRoute>
+    );
+  }
+
+  const readOnly = !selectedDispute || selectedDispute.status !== 'open' || !!selectedDispute.evidenceSubmittedAt;
+
+  return (
+    <AdminRoute>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="sm:flex sm:items-center">
+            <div className="sm:flex-auto">
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Споры по платежам
+              </h1>
+              <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                Пока спор открыт, модуль заморожен, а комиссии по платежу удержаны. Всего споров: {total}
+              </p>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Статус
+                </label>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => {
+                    setStatusFilter(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">Все статусы</option>
+                  <option value="open">Открытые</option>
+                  <option value="won">Выигранные</option>
+                  <option value="lost">Проигранные</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Disputes Table */}
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Покупатель
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Сумма
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Причина
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Статус
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Ответить до
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Действия
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {disputes.map((dispute) => (
+                    <tr key={dispute.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {dispute.userEmail}
+                        </div>
+                        <div className="text-sm text-gray-500 dark:text-gray-400">
+                          {dispute.paymentDescription || `Платеж ${dispute.transactionId.slice(0, 8)}...`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {formatCurrency(dispute.amount, dispute.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {dispute.reason ? REASON_LABELS[dispute.reason] || dispute.reason : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {getStatusBadge(dispute)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {dispute.status === 'open' && dispute.evidenceDueBy ? formatDate(dispute.evidenceDueBy) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => openDispute(dispute)}
+                          className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                          title="Доказательства"
+                        >
+                          <DocumentTextIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="bg-white dark:bg-gray-800 px-4 py-3 flex items-center justify-between border-t border-gray-200 dark:border-gray-700 sm:px-6">
+                <button
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                  disabled={currentPage === 1}
+                  className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Предыдущая
+                </button>
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Страница {currentPage} из {totalPages}
+                </p>
+                <button
+                  onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                  disabled={currentPage === totalPages}
+                  className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Следующая
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Evidence Modal */}
+          {selectedDispute && (
+            <div className="fixed inset-0 z-50 overflow-y-auto">
+              <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+                <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+                <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+                  <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                    <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+                      Доказательства по спору
+                    </h3>
+                    <div className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      <p><strong>Покупатель:</strong> {selectedDispute.userEmail}</p>
+                      <p><strong>Сумма:</strong> {formatCurrency(selectedDispute.amount, selectedDispute.currency)}</p>
+                      {selectedDispute.evidenceSubmittedAt && (
+                        <p><strong>Отправлено в Stripe:</strong> {formatDate(selectedDispute.evidenceSubmittedAt)}</p>
+                      )}
+                    </div>
+                    <div className="mt-4 space-y-4 max-h-96 overflow-y-auto">
+                      {EVIDENCE_FIELDS.map((field) => (
+                        <div key={field.key}>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            {field.label}
+                          </label>
+                          {field.multiline ? (
+                            <textarea
+                              value={evidence[field.key] || ''}
+                              onChange={(e) => setEvidence({ ...evidence, [field.key]: e.target.value })}
+                              disabled={readOnly}
+                              rows={3}
+                              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:opacity-75"
+                            />
+                          ) : (
+                            <input
+                              type="text"
+                              value={evidence[field.key] || ''}
+                              onChange={(e) => setEvidence({ ...evidence, [field.key]: e.target.value })}
+                              disabled={readOnly}
+                              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:opacity-75"
+                            />
+                          )}
+                        </div>
+                      ))}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Внутренние заметки
+                        </label>
+                        <textarea
+                          value={notes}
+                          onChange={(e) => setNotes(e.target.value)}
+                          disabled={readOnly}
+                          rows={2}
+                          className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:opacity-75"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                    {!readOnly && (
+                      <>
+                        <button
+                          onClick={() => handleSaveEvidence(true)}
+                          disabled={saving}
+                          className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                        >
+                          Отправить в Stripe
+                        </button>
+                        <button
+                          onClick={() => handleSaveEvidence(false)}
+                          disabled={saving}
+                          className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-700 text-base font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                        >
+                          Сохранить черновик
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={closeModal}
+                      className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-700 text-base font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+                    >
+                      Закрыть
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-md bg-red-50 dark:bg-red-900 p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-red-800 dark:text-red-200">
+                    {error}
+                  </h3>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </AdminLayout>
+    </AdminRoute>
+  );
+};
+
+export default AdminDisputes;
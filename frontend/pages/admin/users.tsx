@@ -60,8 +60,15 @@ const AdminUsers: React.FC = () => {
   };
 
   const handleStatusChange = async (userId: string, newStatus: 'active' | 'suspended') => {
+    // The reason is shown to the user when they try to sign in
+    let reason: string | undefined;
+    if (newStatus === 'suspended') {
+      reason = prompt('Причина блокировки (ее увидит пользователь):')?.trim();
+      if (!reason) return;
+    }
+
     try {
-      await adminService.updateUserStatus(userId, newStatus);
+      await adminService.updateUserStatus(userId, newStatus, reason);
       await loadUsers();
     } catch (err) {
       console.error('Failed to update user status:', err);
@@ -299,6 +306,11 @@ const AdminUsers: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {getStatusBadge(user.status)}
+                        {user.suspensionReason && (
+                          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 max-w-xs truncate" title={user.suspensionReason}>
+                            {user.suspensionReason}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                         {formatCurrency(user.balance)}
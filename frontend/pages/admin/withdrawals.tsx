@@ -11,8 +11,21 @@ import {
   ExclamationTriangleIcon,
   CogIcon,
   BanknotesIcon,
+  ShieldExclamationIcon,
 } from '@heroicons/react/24/outline';
 
+const RISK_REASON_LABELS: Record<string, string> = {
+  new_account: 'Аккаунт создан меньше недели назад',
+  young_account: 'Аккаунт создан меньше месяца назад',
+  recent_password_reset: 'Пароль недавно сброшен',
+  shared_destination: 'Реквизиты используются другим аккаунтом',
+  new_destination: 'Выплат на эти реквизиты еще не было',
+  referral_income: 'Доход в основном из реферальных комиссий',
+  refunded_commissions: 'Возвраты по платежам после начисления комиссий',
+  many_login_addresses: 'Входы с разных IP-адресов',
+  new_login_address: 'Последний вход с нового IP-адреса',
+};
+
 const AdminWithdrawals: React.FC = () => {
   const [withdrawals, setWithdrawals] = useState<AdminWithdrawal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -53,6 +66,14 @@ const AdminWithdrawals: React.FC = () => {
 
   const handleProcessWithdrawal = async () => {
     if (!selectedWithdrawal) return;
+    if (selectedWithdrawal.status === 'paused' && processAction === 'approve') {
+      alert('Аккаунт пользователя заблокирован: выплату можно только отклонить');
+      return;
+    }
+    if (selectedWithdrawal.status === 'on_hold' && processAction === 'approve' && !processNotes.trim()) {
+      alert('Заявка удержана из-за высокого риска: укажите, почему вы ее одобряете');
+      return;
+    }
 
     try {
       await adminService.processWithdrawal(selectedWithdrawal.id, processAction, processNotes);
@@ -62,7 +83,27 @@ const AdminWithdrawals: React.FC = () => {
       await loadWithdrawals();
     } catch (err) {
       console.error('Failed to process withdrawal:', err);
-      alert('Не удалось обработать заявку на выплату');
+      alert(`Не удалось обработать заявку на выплату: ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const handleCompleteManualPayout = async (withdrawal: AdminWithdrawal, status: 'paid' | 'failed') => {
+    if (!withdrawal.payoutId) return;
+
+    let reason: string | undefined;
+    if (status === 'failed') {
+      reason = prompt('Причина, по которой выплата не прошла (сумма вернется на баланс пользователя):')?.trim();
+      if (!reason) return;
+    } else if (!confirm(`Подтвердить, что ${formatCurrency(withdrawal.amount, withdrawal.currency)} отправлены пользователю?`)) {
+      return;
+    }
+
+    try {
+      await adminService.completeManualPayout(withdrawal.payoutId, status, reason ? { reason } : undefined);
+      await loadWithdrawals();
+    } catch (err) {
+      console.error('Failed to update payout:', err);
+      alert('Не удалось обновить статус выплаты');
     }
   };
 
@@ -106,6 +147,20 @@ const AdminWithdrawals: React.FC = () => {
             В обработке
           </span>
         );
+      case 'on_hold':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
+            <ShieldExclamationIcon className="w-3 h-3 mr-1" />
+            Удержана
+          </span>
+        );
+      case 'paused':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+            <XCircleIcon className="w-3 h-3 mr-1" />
+            Приостановлена
+          </span>
+        );
       default: // pending
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
@@ -116,6 +171,25 @@ const AdminWithdrawals: React.FC = () => {
     }
   };
 
+  const getRiskBadge = (withdrawal: AdminWithdrawal) => {
+    if (withdrawal.riskScore === undefined) return null;
+
+    const colors = {
+      low: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+      medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+      high: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+    };
+
+    return (
+      <span
+        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${colors[withdrawal.riskLevel || 'low']}`}
+        title={(withdrawal.riskReasons || []).map((reason) => RISK_REASON_LABELS[reason.code] || reason.message).join('\n')}
+      >
+        Риск: {withdrawal.riskScore}
+      </span>
+    );
+  };
+
   const getPaymentMethodLabel = (method: string) => {
     const labels = {
       bank_transfer: 'Банковский перевод',
@@ -128,6 +202,16 @@ const AdminWithdrawals: React.FC = () => {
     return labels[method as keyof typeof labels] || method;
   };
 
+  const getPayoutProviderLabel = (provider: string) => {
+    const labels = {
+      stripe_connect: 'Stripe Connect',
+      paypal: 'PayPal Payouts',
+      manual: 'Вручную',
+      fake: 'Тестовый провайдер',
+    };
+    return labels[provider as keyof typeof labels] || provider;
+  };
+
   if (loading && withdrawals.length === 0) {
     return (
       <AdminRoute>
@@ -171,6 +255,8 @@ const AdminWithdrawals: React.FC = () => {
                 >
                   <option value="">Все статусы</option>
                   <option value="pending">Ожидают обработки</option>
+                  <option value="on_hold">Удержаны из-за риска</option>
+                  <option value="paused">Приостановлены (аккаунт заблокирован)</option>
                   <option value="processing">В обработке</option>
                   <option value="completed">Выполненные</option>
                   <option value="rejected">Отклоненные</option>
@@ -249,6 +335,20 @@ const AdminWithdrawals: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {getStatusBadge(withdrawal.status)}
+                        {withdrawal.riskScore !== undefined && (
+                          <div className="mt-1">{getRiskBadge(withdrawal)}</div>
+                        )}
+                        {withdrawal.payoutProvider && (
+                          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            {getPayoutProviderLabel(withdrawal.payoutProvider)}
+                            {withdrawal.payoutReferenceId && <div>ID: {withdrawal.payoutReferenceId}</div>}
+                          </div>
+                        )}
+                        {withdrawal.payoutFailureReason && (
+                          <div className="mt-1 text-xs text-red-600 dark:text-red-400">
+                            {withdrawal.payoutFailureReason}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                         {formatDate(withdrawal.createdAt)}
@@ -258,7 +358,7 @@ const AdminWithdrawals: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex justify-end space-x-2">
-                          {withdrawal.status === 'pending' && (
+                          {(withdrawal.status === 'pending' || withdrawal.status === 'on_hold' || withdrawal.status === 'paused') && (
                             <button
                               onClick={() => {
                                 setSelectedWithdrawal(withdrawal);
@@ -270,6 +370,24 @@ const AdminWithdrawals: React.FC = () => {
                               <CogIcon className="h-4 w-4" />
                             </button>
                           )}
+                          {withdrawal.status === 'processing' && withdrawal.payoutProvider === 'manual' && (
+                            <>
+                              <button
+                                onClick={() => handleCompleteManualPayout(withdrawal, 'paid')}
+                                className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300"
+                                title="Отметить как выплаченную"
+                              >
+                                <CheckCircleIcon className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleCompleteManualPayout(withdrawal, 'failed')}
+                                className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                                title="Выплата не прошла"
+                              >
+                                <XCircleIcon className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -382,6 +500,32 @@ const AdminWithdrawals: React.FC = () => {
                               ))}
                             </div>
                           )}
+                          {selectedWithdrawal.status === 'paused' && (
+                            <p className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+                              Аккаунт пользователя заблокирован: выплата приостановлена до разблокировки, ее можно только отклонить.
+                            </p>
+                          )}
+                          {selectedWithdrawal.riskScore !== undefined && (
+                            <div className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+                              <div className="flex items-center space-x-2">
+                                <strong>Оценка риска:</strong> {getRiskBadge(selectedWithdrawal)}
+                              </div>
+                              {selectedWithdrawal.riskReasons && selectedWithdrawal.riskReasons.length > 0 && (
+                                <ul className="mt-1 ml-2 list-disc list-inside">
+                                  {selectedWithdrawal.riskReasons.map((reason) => (
+                                    <li key={reason.code} title={reason.message}>
+                                      {RISK_REASON_LABELS[reason.code] || reason.message} (+{reason.points})
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                              {selectedWithdrawal.status === 'on_hold' && (
+                                <p className="mt-1 text-orange-700 dark:text-orange-300">
+                                  Заявка удержана: для одобрения нужен комментарий.
+                                </p>
+                              )}
+                            </div>
+                          )}
                         </div>
                         <div className="mt-4 space-y-4">
                           <div>
@@ -399,7 +543,7 @@ const AdminWithdrawals: React.FC = () => {
                           </div>
                           <div>
                             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                              Комментарий {processAction === 'reject' ? '(обязательно)' : '(необязательно)'}
+                              Комментарий {processAction === 'reject' || selectedWithdrawal.status === 'on_hold' ? '(обязательно)' : '(необязательно)'}
                             </label>
                             <textarea
                               value={processNotes}
@@ -420,7 +564,7 @@ const AdminWithdrawals: React.FC = () => {
                   <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
                     <button
                       onClick={handleProcessWithdrawal}
-                      disabled={processAction === 'reject' && !processNotes.trim()}
+                      disabled={(processAction === 'reject' || selectedWithdrawal.status === 'on_hold') && !processNotes.trim()}
                       className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
                     >
                       {processAction === 'approve' ? 'Одобрить' : 'Отклонить'}
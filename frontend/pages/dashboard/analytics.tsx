@@ -8,6 +8,7 @@ import { Card } from '@/components/ui/Card';
 import { AnalyticsCharts } from '@/components/analytics/AnalyticsCharts';
 import { AnalyticsFilters } from '@/components/analytics/AnalyticsFilters';
 import { BotSelector } from '@/components/analytics/BotSelector';
+import { BroadcastEngagement } from '@/components/analytics/BroadcastEngagement';
 import { analyticsService } from '@/services/analyticsService';
 import { botService } from '@/services/botService';
 import { BotAnalytics, AnalyticsFilters as AnalyticsFiltersType } from '@/types/analytics';
@@ -169,6 +170,7 @@ const AnalyticsPage: React.FC = () => {
                   )}
                 </div>
               </div>
+              <BroadcastEngagement />
             </div>
           )}
         </div>
@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/contexts/AuthContext';
+import { authService } from '@/services/authService';
+import { TwoFactorSetupForm, RecoveryCodesList } from '@/components/auth/TwoFactorSetup';
+import { UserSession, TwoFactorStatus, TwoFactorSetup } from '@/types/auth';
+
+// Browser and OS from a user agent, enough to recognise one's own devices
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) {
+    return 'Неизвестное устройство';
+  }
+
+  const browser = ['Edg', 'OPR', 'YaBrowser', 'Firefox', 'Chrome', 'Safari'].find(name => userAgent.includes(name));
+  const os = [
+    ['Android', 'Android'],
+    ['iPhone', 'iOS'],
+    ['iPad', 'iPadOS'],
+    ['Windows', 'Windows'],
+    ['Mac OS', 'macOS'],
+    ['Linux', 'Linux'],
+  ].find(([marker]) => userAgent.includes(marker!))?.[1];
+
+  const browserNames: Record<string, string> = { Edg: 'Edge', OPR: 'Opera', YaBrowser: 'Яндекс Браузер' };
+  const browserName = browser ? browserNames[browser] || browser : null;
+
+  return [browserName, os].filter(Boolean).join(', ') || userAgent.slice(0, 60);
+};
+
+const ProfilePage: React.FC = () => {
+  const { user, logout } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+    loadTwoFactorStatus();
+  }, []);
+
+  const loadTwoFactorStatus = async () => {
+    try {
+      setTwoFactor(await authService.getTwoFactorStatus());
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  };
+
+  const apiErrorMessage = (error: any, fallback: string) =>
+    error.response?.data?.error?.message || fallback;
+
+  const handleTwoFactorStart = async () => {
+    try {
+      setTwoFactorSetup(await authService.setupTwoFactor());
+    } catch (error: any) {
+      console.error('Failed to start two-factor setup:', error);
+      toast.error(apiErrorMessage(error, 'Не удалось начать настройку'));
+    }
+  };
+
+  const handleTwoFactorConfirm = async (code: string) => {
+    const response = await authService.enableTwoFactor(code);
+    if (response.error) {
+      toast.error(response.error.message);
+      return;
+    }
+
+    setTwoFactorSetup(null);
+    setRecoveryCodes(response.recoveryCodes || []);
+    toast.success('Двухфакторная аутентификация включена');
+    await loadTwoFactorStatus();
+  };
+
+  // Turning it off takes the password and a current code, not just this session
+  const handleTwoFactorDisable = async () => {
+    const password = prompt('Введите пароль от аккаунта:');
+    if (!password) return;
+    const code = prompt('Введите код из приложения-аутентификатора или код восстановления:');
+    if (!code) return;
+
+    try {
+      await authService.disableTwoFactor(password, code.trim());
+      toast.success('Двухфакторная аутентификация отключена');
+      await loadTwoFactorStatus();
+    } catch (error: any) {
+      console.error('Failed to disable two-factor authentication:', error);
+      toast.error(apiErrorMessage(error, 'Не удалось отключить двухфакторную аутентификацию'));
+    }
+  };
+
+  const handleRecoveryCodesRegenerate = async () => {
+    const code = prompt('Новые коды заменят все прежние. Введите код из приложения-аутентификатора:');
+    if (!code) return;
+
+    try {
+      setRecoveryCodes(await authService.regenerateRecoveryCodes(code.trim()));
+      await loadTwoFactorStatus();
+    } catch (error: any) {
+      console.error('Failed to regenerate recovery codes:', error);
+      toast.error(apiErrorMessage(error, 'Не удалось создать новые коды'));
+    }
+  };
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      setSessions(await authService.getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: UserSession) => {
+    if (session.current) {
+      handleRevokeAll();
+      return;
+    }
+
+    try {
+      await authService.revokeSession(session.id);
+      setSessions(prev => prev.filter(item => item.id !== session.id));
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm('Выйти на всех устройствах, включая это?')) {
+      return;
+    }
+
+    try {
+      await authService.revokeAllSessions();
+      logout();
+      window.location.href = '/auth/login';
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('ru-RU', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+          Профиль
+        </h1>
+
+        {user && (
+          <Card className="p-6 mb-6">
+            <p className="text-lg font-medium text-gray-900 dark:text-white">
+              {user.firstName} {user.lastName}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{user.email}</p>
+          </Card>
+        )}
+
+        <Card className="p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Двухфакторная аутентификация</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {twoFactor?.enabled
+                  ? `Включена. Осталось кодов восстановления: ${twoFactor.recoveryCodesRemaining}`
+                  : 'Код из приложения-аутентификатора при входе, выводе средств и подключении ботов'}
+              </p>
+            </div>
+            {twoFactor && !twoFactorSetup && !recoveryCodes && (
+              twoFactor.enabled ? (
+                <div className="flex gap-2">
+                  <Button onClick={handleRecoveryCodesRegenerate} variant="outline">
+                    Новые коды восстановления
+                  </Button>
+                  {!twoFactor.required && (
+                    <Button onClick={handleTwoFactorDisable} variant="outline">
+                      Отключить
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <Button onClick={handleTwoFactorStart}>Включить</Button>
+              )
+            )}
+          </div>
+
+          {twoFactor?.enabled && twoFactor.required && !recoveryCodes && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Для администраторов и разработчиков двухфакторная аутентификация обязательна.
+            </p>
+          )}
+
+          {twoFactorSetup && (
+            <div className="max-w-sm">
+              <TwoFactorSetupForm setup={twoFactorSetup} onConfirm={handleTwoFactorConfirm} />
+              <Button onClick={() => setTwoFactorSetup(null)} variant="ghost" className="w-full mt-2">
+                Отмена
+              </Button>
+            </div>
+          )}
+
+          {recoveryCodes && (
+            <div className="max-w-sm">
+              <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Активные сеансы</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Устройства, на которых выполнен вход в ваш аккаунт
+              </p>
+            </div>
+            {sessions.length > 0 && (
+              <Button onClick={handleRevokeAll} variant="outline">
+                Выйти на всех устройствах
+              </Button>
+            )}
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Загрузка...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Нет активных сеансов</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sessions.map(session => (
+                <li key={session.id} className="py-4 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {describeDevice(session.user_agent)}
+                      {session.current && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full text-green-600 bg-green-100 dark:text-green-400 dark:bg-green-900/20">
+                          Текущий сеанс
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      IP: {session.ip_address || 'неизвестен'} · Активность: {formatDate(session.last_activity)}
+                    </p>
+                  </div>
+                  <Button onClick={() => handleRevoke(session)} variant="outline" size="sm">
+                    Завершить
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ProfilePage;
\ No newline at end of file
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { analyticsService } from '@/services/analyticsService';
+import { BroadcastEngagement as BroadcastEngagementType } from '@/types/analytics';
+
+type EngagementPeriod = '7d' | '30d' | '90d' | '1y';
+
+const PERIODS: Array<{ value: EngagementPeriod; label: string }> = [
+  { value: '7d', label: '7 дней' },
+  { value: '30d', label: '30 дней' },
+  { value: '90d', label: '90 дней' },
+  { value: '1y', label: 'Год' },
+];
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) {
+    return '—';
+  }
+  if (seconds < 60) {
+    return `${Math.round(seconds)} сек`;
+  }
+  if (seconds < 3600) {
+    return `${Math.round(seconds / 60)} мин`;
+  }
+  return `${(seconds / 3600).toFixed(1)} ч`;
+};
+
+export const BroadcastEngagement: React.FC = () => {
+  const [period, setPeriod] = useState<EngagementPeriod>('30d');
+  const [engagement, setEngagement] = useState<BroadcastEngagementType | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEngagement = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setEngagement(await analyticsService.getBroadcastEngagement(period));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Ошибка загрузки статистики рассылок');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEngagement();
+  }, [period]);
+
+  const totals = engagement?.totals;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Эффективность рассылок
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            CTR — доля получателей, нажавших на кнопку или перешедших по ссылке
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {PERIODS.map(item => (
+            <Button
+              key={item.value}
+              variant={period === item.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setPeriod(item.value)}
+              className="text-xs"
+            >
+              {item.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      {loading && !engagement ? (
+        <div className="animate-pulse h-40 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : totals && engagement && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-md">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Доставлено</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{totals.delivered}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">в {totals.broadcasts} рассылках</p>
+            </div>
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-md">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Кликнули</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{totals.unique_clicks}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{totals.clicks} кликов всего</p>
+            </div>
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-md">
+              <p className="text-sm text-gray-600 dark:text-gray-400">CTR</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{totals.click_through_rate.toFixed(1)}%</p>
+            </div>
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-md">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Время до клика</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatSeconds(totals.average_seconds_to_click)}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">в среднем</p>
+            </div>
+          </div>
+
+          {engagement.broadcasts.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              За выбранный период рассылок не было
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Рассылка
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Доставлено
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Кликнули
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      CTR
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Время до клика
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {engagement.broadcasts.map(broadcast => (
+                    <tr key={broadcast.broadcast_id}>
+                      <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                        <div className="font-medium">{broadcast.title}</div>
+                        {broadcast.sent_at && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {new Date(broadcast.sent_at).toLocaleDateString('ru-RU')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                        {broadcast.delivered}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                        {broadcast.unique_clicks}
+                      </td>
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900 dark:text-white">
+                        {broadcast.click_through_rate.toFixed(1)}%
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        {formatSeconds(broadcast.average_seconds_to_click)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
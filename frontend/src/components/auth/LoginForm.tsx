@@ -3,18 +3,27 @@ import { useForm } from 'react-hook-form';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
 import toast from 'react-hot-toast';
-import { Eye, EyeOff, Mail, Lock } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card } from '@/components/ui/Card';
-import { LoginFormData } from '@/types/auth';
+import { LoginFormData, AccountSuspension, AuthResponse, TwoFactorSetup } from '@/types/auth';
 import { authService } from '@/services/authService';
 import { validationRules, getErrorMessage } from '@/utils/validation';
 import { useAuth } from '@/contexts/AuthContext';
+import { TwoFactorSetupForm, RecoveryCodesList } from './TwoFactorSetup';
 
 export const LoginForm: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [suspension, setSuspension] = useState<AccountSuspension | null>(null);
+  // After the password, accounts with two-factor authentication continue with a code, and admins and
+  // developers without it have to set it up first
+  const [challenge, setChallenge] = useState<{ token: string; setupRequired: boolean } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingLogin, setPendingLogin] = useState<AuthResponse | null>(null);
   const router = useRouter();
   const { login } = useAuth();
 
@@ -24,18 +33,36 @@ export const LoginForm: React.FC = () => {
     formState: { errors },
   } = useForm<LoginFormData>();
 
+  const completeLogin = (response: AuthResponse) => {
+    toast.success('Вход выполнен успешно!');
+    // Store token and user data using AuthContext
+    if (response.token && response.user) {
+      login(response.token, response.user);
+    }
+    router.push('/dashboard');
+  };
+
+  const resetChallenge = () => {
+    setChallenge(null);
+    setTwoFactorCode('');
+    setTwoFactorSetup(null);
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
+    setSuspension(null);
     try {
       const response = await authService.login(data);
       
-      if (response.success) {
-        toast.success('Вход выполнен успешно!');
-        // Store token and user data using AuthContext
-        if (response.token && response.user) {
-          login(response.token, response.user);
-        }
-        router.push('/dashboard');
+      if (response.twoFactorRequired && response.challengeToken) {
+        setChallenge({ token: response.challengeToken, setupRequired: false });
+      } else if (response.twoFactorSetupRequired && response.challengeToken) {
+        setChallenge({ token: response.challengeToken, setupRequired: true });
+        setTwoFactorSetup(await authService.setupTwoFactor(response.challengeToken));
+      } else if (response.success) {
+        completeLogin(response);
+      } else if (response.error?.code === 'ACCOUNT_SUSPENDED' && response.error.details) {
+        setSuspension(response.error.details);
       } else {
         toast.error(getErrorMessage(response.error));
       }
@@ -46,6 +73,97 @@ export const LoginForm: React.FC = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!challenge) return;
+
+    setIsLoading(true);
+    try {
+      const response = await authService.verifyTwoFactorLogin(challenge.token, twoFactorCode.trim());
+
+      if (!response.error) {
+        completeLogin(response);
+      } else if (response.error.code === 'ACCOUNT_SUSPENDED' && response.error.details) {
+        resetChallenge();
+        setSuspension(response.error.details);
+      } else {
+        toast.error(getErrorMessage(response.error));
+        // The challenge lasts ten minutes; after that the password has to be entered again
+        if (response.error.code === 'INVALID_CHALLENGE') {
+          resetChallenge();
+        }
+      }
+    } catch (error) {
+      toast.error('Произошла ошибка при входе в систему');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetupConfirm = async (code: string) => {
+    if (!challenge) return;
+
+    const response = await authService.enableTwoFactor(code, challenge.token);
+    if (response.error) {
+      toast.error(getErrorMessage(response.error));
+      return;
+    }
+
+    setRecoveryCodes(response.recoveryCodes || []);
+    setPendingLogin(response);
+  };
+
+  if (challenge) {
+    return (
+      <Card className="w-full max-w-md mx-auto p-6">
+        <div className="text-center mb-6">
+          <ShieldCheck className="h-10 w-10 mx-auto text-primary-600 dark:text-primary-400" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mt-2">
+            {challenge.setupRequired ? 'Настройка двухфакторной аутентификации' : 'Подтверждение входа'}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            {challenge.setupRequired
+              ? 'Для вашей роли вход возможен только с двухфакторной аутентификацией'
+              : 'Введите код из приложения-аутентификатора или один из кодов восстановления'}
+          </p>
+        </div>
+
+        {recoveryCodes && pendingLogin ? (
+          <RecoveryCodesList codes={recoveryCodes} onDone={() => completeLogin(pendingLogin)} />
+        ) : challenge.setupRequired ? (
+          twoFactorSetup ? (
+            <TwoFactorSetupForm setup={twoFactorSetup} onConfirm={handleSetupConfirm} />
+          ) : (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400">Загрузка...</p>
+          )
+        ) : (
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+            <Input
+              value={twoFactorCode}
+              onChange={event => setTwoFactorCode(event.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+              autoFocus
+            />
+            <Button type="submit" className="w-full" disabled={isLoading || !twoFactorCode.trim()}>
+              {isLoading ? 'Проверка...' : 'Подтвердить'}
+            </Button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            onClick={resetChallenge}
+            className="text-sm text-primary-600 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+          >
+            Войти под другим аккаунтом
+          </button>
+        </div>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto p-6">
       <div className="text-center mb-6">
@@ -57,6 +175,31 @@ export const LoginForm: React.FC = () => {
         </p>
       </div>
 
+      {suspension && (
+        <div className="mb-4 p-4 rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+          <p className="font-medium text-red-800 dark:text-red-300">
+            Аккаунт заблокирован
+            {suspension.suspendedAt && ` ${new Date(suspension.suspendedAt).toLocaleDateString('ru-RU')}`}
+          </p>
+          {suspension.reason && (
+            <p className="text-sm text-red-700 dark:text-red-400 mt-1">
+              Причина: {suspension.reason}
+            </p>
+          )}
+          <p className="text-sm text-red-700 dark:text-red-400 mt-2">
+            Если вы считаете, что это ошибка,{' '}
+            <a
+              href={suspension.appealUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium underline"
+            >
+              обжалуйте блокировку
+            </a>
+          </p>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
         <div>
           <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
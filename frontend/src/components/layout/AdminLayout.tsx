@@ -9,6 +9,8 @@ import {
   CpuChipIcon,
   BanknotesIcon,
   TicketIcon,
+  ShieldExclamationIcon,
+  IdentificationIcon,
   ChartBarIcon,
   Cog6ToothIcon,
   ArrowRightOnRectangleIcon,
@@ -31,6 +33,8 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
     { name: 'Боты', href: '/admin/bots', icon: CpuChipIcon },
     { name: 'Модули', href: '/admin/modules', icon: ChartBarIcon },
     { name: 'Выплаты', href: '/admin/withdrawals', icon: BanknotesIcon },
+    { name: 'Споры', href: '/admin/disputes', icon: ShieldExclamationIcon },
+    { name: 'Верификация', href: '/admin/verifications', icon: IdentificationIcon },
     { name: 'Поддержка', href: '/admin/support', icon: TicketIcon },
     { name: 'Настройки', href: '/admin/settings', icon: Cog6ToothIcon },
   ];
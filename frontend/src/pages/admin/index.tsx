@@ -36,10 +36,10 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'RUB') => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
-      currency: 'RUB',
+      currency,
     }).format(amount);
   };
 
@@ -187,7 +187,7 @@ const AdminDashboard: React.FC = () => {
                       </dt>
                       <dd className="flex items-baseline">
                         <div className="text-2xl font-semibold text-gray-900 dark:text-white">
-                          {formatCurrency(stats?.totalRevenue || 0)}
+                          {formatCurrency(stats?.totalRevenue || 0, stats?.currency)}
                         </div>
                         <div className="ml-2">
                           {formatGrowth(stats?.revenueGrowth || 0)}
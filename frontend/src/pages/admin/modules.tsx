@@ -70,10 +70,10 @@ const AdminModules: React.FC = () => {
     }
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string) => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
-      currency: 'RUB',
+      currency,
     }).format(amount);
   };
 
@@ -275,7 +275,7 @@ const AdminModules: React.FC = () => {
                         {getCategoryLabel(module.category)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                        {module.price === 0 ? 'Бесплатно' : formatCurrency(module.price)}
+                        {module.price === 0 ? 'Бесплатно' : formatCurrency(module.price, module.currency)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {getStatusBadge(module.status)}
@@ -284,7 +284,7 @@ const AdminModules: React.FC = () => {
                         {module.activations}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                        {formatCurrency(module.revenue)}
+                        {formatCurrency(module.revenue, module.revenueCurrency)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                         {formatDate(module.createdAt)}
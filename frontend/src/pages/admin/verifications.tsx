@@ -0,0 +1,382 @@
+import React, { useEffect, useState } from 'react';
+import AdminRoute from '@/components/admin/AdminRoute';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { adminService, AdminVerification } from '@/services/adminService';
+import {
+  CheckCircleIcon,
+  XCircleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  IdentificationIcon,
+  PaperClipIcon,
+} from '@heroicons/react/24/outline';
+
+const LEVEL_LABELS: Record<string, string> = {
+  unverified: 'Без верификации',
+  email_verified: 'Email подтверждён',
+  identity_verified: 'Личность',
+  business: 'Бизнес',
+};
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  passport: 'Паспорт',
+  national_id: 'ID-карта',
+  driver_license: 'Водительское удостоверение',
+  business_registration: 'Регистрация компании',
+};
+
+const AdminVerifications: React.FC = () => {
+  const [verifications, setVerifications] = useState<AdminVerification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selectedVerification, setSelectedVerification] = useState<AdminVerification | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const limit = 20;
+
+  useEffect(() => {
+    loadVerifications();
+  }, [currentPage, statusFilter]);
+
+  const loadVerifications = async () => {
+    try {
+      setLoading(true);
+      const result = await adminService.getVerifications({
+        page: currentPage,
+        limit,
+        status: statusFilter || undefined,
+      });
+      setVerifications(result.verifications);
+      setTotalPages(result.totalPages);
+      setTotal(result.total);
+    } catch (err) {
+      setError('Не удалось загрузить заявки на верификацию');
+      console.error('Failed to load verifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setSelectedVerification(null);
+    setNotes('');
+  };
+
+  // Documents need the admin token, so they are fetched and opened as a blob
+  const openDocument = async (verificationId: string, index: number) => {
+    try {
+      const blob = await adminService.getVerificationDocument(verificationId, index);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      console.error('Failed to open document:', err);
+      alert('Не удалось открыть документ');
+    }
+  };
+
+  const handleReview = async (action: 'approve' | 'reject') => {
+    if (!selectedVerification) return;
+    if (action === 'reject' && !notes.trim()) {
+      alert('Укажите причину отказа');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await adminService.reviewVerification(selectedVerification.id, action, notes.trim() || undefined);
+      closeModal();
+      await loadVerifications();
+    } catch (err: any) {
+      console.error('Failed to review verification:', err);
+      alert(err.message || 'Не удалось сохранить решение');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('ru-RU', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getStatusBadge = (status: AdminVerification['status']) => {
+    switch (status) {
+      case 'approved':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+            <CheckCircleIcon className="w-3 h-3 mr-1" />
+            Одобрена
+          </span>
+        );
+      case 'rejected':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+            <XCircleIcon className="w-3 h-3 mr-1" />
+            Отклонена
+          </span>
+        );
+      default: // pending
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+            <ClockIcon className="w-3 h-3 mr-1" />
+            На проверке
+          </span>
+        );
+    }
+  };
+
+  if (loading && verifications.length === 0) {
+    return (
+      <AdminRoute>
+        <AdminLayout>
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        </AdminLayout>
+      </AdminRoute>
+    );
+  }
+
+  return (
+    <AdminRoute>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="sm:flex sm:items-center">
+            <div className="sm:flex-auto">
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Верификация пользователей
+              </h1>
+              <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                Одобренная заявка повышает уровень пользователя и его лимиты на вывод. Всего заявок: {total}
+              </p>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Статус
+                </label>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => {
+                    setStatusFilter(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">Все статусы</option>
+                  <option value="pending">На проверке</option>
+                  <option value="approved">Одобренные</option>
+                  <option value="rejected">Отклоненные</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Verifications Table */}
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Пользователь
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Уровень
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Документ
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Статус
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Подана
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Действия
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {verifications.map((verification) => (
+                    <tr key={verification.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {verification.userEmail}
+                        </div>
+                        <div className="text-sm text-gray-500 dark:text-gray-400">
+                          {verification.businessName || verification.fullName}, {verification.country}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {LEVEL_LABELS[verification.currentLevel]} → {LEVEL_LABELS[verification.requestedLevel]}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {DOCUMENT_LABELS[verification.documentType]}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {getStatusBadge(verification.status)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {formatDate(verification.createdAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => {
+                            setSelectedVerification(verification);
+                            setNotes(verification.reviewNotes || '');
+                          }}
+                          className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                          title="Проверить"
+                        >
+                          <IdentificationIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="bg-white dark:bg-gray-800 px-4 py-3 flex items-center justify-between border-t border-gray-200 dark:border-gray-700 sm:px-6">
+                <button
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                  disabled={currentPage === 1}
+                  className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Предыдущая
+                </button>
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Страница {currentPage} из {totalPages}
+                </p>
+                <button
+                  onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                  disabled={currentPage === totalPages}
+                  className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Следующая
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Review Modal */}
+          {selectedVerification && (
+            <div className="fixed inset-0 z-50 overflow-y-auto">
+              <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+                <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+                <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+                  <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                    <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+                      Заявка на уровень «{LEVEL_LABELS[selectedVerification.requestedLevel]}»
+                    </h3>
+                    <div className="mt-2 text-sm text-gray-500 dark:text-gray-400 space-y-1">
+                      <p><strong>Пользователь:</strong> {selectedVerification.userEmail}</p>
+                      <p><strong>Аккаунт создан:</strong> {formatDate(selectedVerification.userCreatedAt)}</p>
+                      <p><strong>ФИО:</strong> {selectedVerification.fullName}</p>
+                      {selectedVerification.businessName && (
+                        <p><strong>Компания:</strong> {selectedVerification.businessName}</p>
+                      )}
+                      <p><strong>Страна:</strong> {selectedVerification.country}</p>
+                      <p><strong>Документ:</strong> {DOCUMENT_LABELS[selectedVerification.documentType]}</p>
+                      {selectedVerification.reviewedAt && (
+                        <p><strong>Проверена:</strong> {formatDate(selectedVerification.reviewedAt)}</p>
+                      )}
+                    </div>
+                    <ul className="mt-4 space-y-2">
+                      {selectedVerification.documents.map((document, index) => (
+                        <li key={index}>
+                          <button
+                            onClick={() => openDocument(selectedVerification.id, index)}
+                            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            <PaperClipIcon className="h-4 w-4 mr-1" />
+                            {document.originalName} ({Math.ceil(document.size / 1024)} КБ)
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Комментарий (обязателен при отказе, его увидит пользователь)
+                      </label>
+                      <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        disabled={selectedVerification.status !== 'pending'}
+                        rows={3}
+                        className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:opacity-75"
+                      />
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                    {selectedVerification.status === 'pending' && (
+                      <>
+                        <button
+                          onClick={() => handleReview('approve')}
+                          disabled={saving}
+                          className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                        >
+                          Одобрить
+                        </button>
+                        <button
+                          onClick={() => handleReview('reject')}
+                          disabled={saving}
+                          className="mt-3 w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                        >
+                          Отклонить
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={closeModal}
+                      className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-700 text-base font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+                    >
+                      Закрыть
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-md bg-red-50 dark:bg-red-900 p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-red-800 dark:text-red-200">
+                    {error}
+                  </h3>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </AdminLayout>
+    </AdminRoute>
+  );
+};
+
+export default AdminVerifications;
@@ -4,7 +4,21 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { BroadcastService } from '@/services/broadcastService';
 import { botService } from '@/services/botService';
-import { BroadcastCampaign, CreateBroadcastInput, BroadcastTarget } from '@/types/broadcast';
+import {
+  BroadcastCampaign,
+  CreateBroadcastInput,
+  BroadcastTarget,
+  BroadcastDelivery,
+  BroadcastMedia,
+  BroadcastMediaType,
+  InlineKeyboardButton,
+  BroadcastSegment,
+  SegmentFilters,
+  SegmentRecipientCount,
+  SubscriberChatType,
+  BroadcastTemplate,
+  BroadcastReport
+} from '@/types/broadcast';
 import { Bot } from '@/types/bot';
 
 const BroadcastsPage: React.FC = () => {
@@ -12,6 +26,11 @@ const BroadcastsPage: React.FC = () => {
   const [bots, setBots] = useState<Bot[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [failedBroadcast, setFailedBroadcast] = useState<BroadcastCampaign | null>(null);
+  const [abTestBroadcast, setAbTestBroadcast] = useState<BroadcastCampaign | null>(null);
+  const [clicksBroadcast, setClicksBroadcast] = useState<BroadcastCampaign | null>(null);
+  const [segments, setSegments] = useState<BroadcastSegment[]>([]);
+  const [showSegmentsModal, setShowSegmentsModal] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -27,6 +46,7 @@ const BroadcastsPage: React.FC = () => {
 
       setBroadcasts(broadcastsData);
       setBots(botsData);
+      await loadSegments();
     } catch (error) {
       console.error('Failed to load broadcast data:', error);
     } finally {
@@ -34,6 +54,14 @@ const BroadcastsPage: React.FC = () => {
     }
   };
 
+  const loadSegments = async () => {
+    try {
+      setSegments(await BroadcastService.getSegments());
+    } catch (error) {
+      console.error('Failed to load segments:', error);
+    }
+  };
+
   const handleExecuteBroadcast = async (id: string) => {
     try {
       await BroadcastService.executeBroadcast(id);
@@ -68,7 +96,10 @@ const BroadcastsPage: React.FC = () => {
         return 'text-green-600 bg-green-100 dark:text-green-400 dark:bg-green-900/20';
       case 'sending':
         return 'text-blue-600 bg-blue-100 dark:text-blue-400 dark:bg-blue-900/20';
+      case 'testing':
+        return 'text-purple-600 bg-purple-100 dark:text-purple-400 dark:bg-purple-900/20';
       case 'scheduled':
+      case 'paused':
         return 'text-yellow-600 bg-yellow-100 dark:text-yellow-400 dark:bg-yellow-900/20';
       case 'draft':
         return 'text-gray-600 bg-gray-100 dark:text-gray-400 dark:bg-gray-900/20';
@@ -89,6 +120,10 @@ const BroadcastsPage: React.FC = () => {
         return 'Отправляется';
       case 'scheduled':
         return 'Запланировано';
+      case 'paused':
+        return 'Приостановлено';
+      case 'testing':
+        return 'A/B тест';
       case 'draft':
         return 'Черновик';
       case 'failed':
@@ -120,12 +155,21 @@ const BroadcastsPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
             Рассылки
           </h1>
-          <Button
-            onClick={() => setShowCreateModal(true)}
-            disabled={bots.length === 0}
-          >
-            Создать рассылку
-          </Button>
+          <div className="flex space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setShowSegmentsModal(true)}
+              disabled={bots.length === 0}
+            >
+              Сегменты
+            </Button>
+            <Button
+              onClick={() => setShowCreateModal(true)}
+              disabled={bots.length === 0}
+            >
+              Создать рассылку
+            </Button>
+          </div>
         </div>
 
         {bots.length === 0 && (
@@ -226,7 +270,25 @@ const BroadcastsPage: React.FC = () => {
                             Отправить
                           </Button>
                         )}
-                        {(broadcast.status === 'draft' || broadcast.status === 'scheduled') && (
+                        {broadcast.metadata.ab_test && broadcast.status !== 'draft' && broadcast.status !== 'scheduled' && (
+                          <Button
+                            onClick={() => setAbTestBroadcast(broadcast)}
+                            variant="outline"
+                            size="sm"
+                          >
+                            A/B результаты
+                          </Button>
+                        )}
+                        {broadcast.status !== 'draft' && broadcast.status !== 'scheduled' && (
+                          <Button
+                            onClick={() => setClicksBroadcast(broadcast)}
+                            variant="outline"
+                            size="sm"
+                          >
+                            Переходы
+                          </Button>
+                        )}
+                        {(broadcast.status === 'draft' || broadcast.status === 'scheduled' || broadcast.status === 'testing') && (
                           <Button
                             onClick={() => handleCancelBroadcast(broadcast.id)}
                             variant="outline"
@@ -235,6 +297,15 @@ const BroadcastsPage: React.FC = () => {
                             Отменить
                           </Button>
                         )}
+                        {(broadcast.status === 'sent' || broadcast.status === 'cancelled') && broadcast.failed_sends > 0 && (
+                          <Button
+                            onClick={() => setFailedBroadcast(broadcast)}
+                            variant="outline"
+                            size="sm"
+                          >
+                            Ошибки ({broadcast.failed_sends})
+                          </Button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -244,10 +315,50 @@ const BroadcastsPage: React.FC = () => {
           )}
         </Card>
 
+        {/* Failed Recipients Modal */}
+        {failedBroadcast && (
+          <FailedRecipientsModal
+            broadcast={failedBroadcast}
+            bots={bots}
+            onClose={() => setFailedBroadcast(null)}
+            onResent={() => {
+              setFailedBroadcast(null);
+              loadData();
+            }}
+          />
+        )}
+
+        {/* A/B Test Results Modal */}
+        {abTestBroadcast && (
+          <AbTestResultsModal
+            broadcast={abTestBroadcast}
+            onClose={() => setAbTestBroadcast(null)}
+          />
+        )}
+
+        {/* Clicks Modal */}
+        {clicksBroadcast && (
+          <ClicksModal
+            broadcast={clicksBroadcast}
+            onClose={() => setClicksBroadcast(null)}
+          />
+        )}
+
+        {/* Segments Modal */}
+        {showSegmentsModal && (
+          <SegmentsModal
+            bots={bots}
+            segments={segments}
+            onClose={() => setShowSegmentsModal(false)}
+            onChange={loadSegments}
+          />
+        )}
+
         {/* Create Broadcast Modal */}
         {showCreateModal && (
           <CreateBroadcastModal
             bots={bots}
+            segments={segments}
             onClose={() => setShowCreateModal(false)}
             onSuccess={() => {
               setShowCreateModal(false);
@@ -260,99 +371,66 @@ const BroadcastsPage: React.FC = () => {
   );
 };
 
-// Create Broadcast Modal Component
-const CreateBroadcastModal: React.FC<{
+// Failed Recipients Modal Component
+const FailedRecipientsModal: React.FC<{
+  broadcast: BroadcastCampaign;
   bots: Bot[];
   onClose: () => void;
-  onSuccess: () => void;
-}> = ({ bots, onClose, onSuccess }) => {
-  const [title, setTitle] = useState('');
-  const [message, setMessage] = useState('');
-  const [selectedBots, setSelectedBots] = useState<string[]>([]);
-  const [parseMode, setParseMode] = useState<'HTML' | 'Markdown' | 'MarkdownV2'>('HTML');
-  const [disableWebPagePreview, setDisableWebPagePreview] = useState(false);
-  const [disableNotification, setDisableNotification] = useState(false);
-  const [scheduledAt, setScheduledAt] = useState('');
-  const [loading, setLoading] = useState(false);
+  onResent: () => void;
+}> = ({ broadcast, bots, onClose, onResent }) => {
+  const [deliveries, setDeliveries] = useState<BroadcastDelivery[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [resending, setResending] = useState(false);
   const [error, setError] = useState('');
-  const [botSubscribers, setBotSubscribers] = useState<Record<string, any[]>>({});
 
   useEffect(() => {
-    // Load subscribers for each bot
-    const loadSubscribers = async () => {
-      const subscribersData: Record<string, any[]> = {};
-      for (const bot of bots) {
-        try {
-          const data = await BroadcastService.getBotSubscribers(bot.id);
-          subscribersData[bot.id] = data.subscribers;
-        } catch (error) {
-          console.error(`Failed to load subscribers for bot ${bot.id}:`, error);
-          subscribersData[bot.id] = [];
-        }
+    const loadDeliveries = async () => {
+      try {
+        setLoading(true);
+        const data = await BroadcastService.getDeliveries(broadcast.id, {
+          statuses: ['failed', 'blocked'],
+          limit: 200
+        });
+        setDeliveries(data.deliveries);
+        setTotal(data.pagination.total);
+      } catch (error: any) {
+        setError(error.message);
+      } finally {
+        setLoading(false);
       }
-      setBotSubscribers(subscribersData);
     };
 
-    loadSubscribers();
-  }, [bots]);
+    loadDeliveries();
+  }, [broadcast.id]);
 
-  const handleBotToggle = (botId: string) => {
-    setSelectedBots(prev => 
-      prev.includes(botId) 
-        ? prev.filter(id => id !== botId)
-        : [...prev, botId]
-    );
+  const getBotName = (botId: string) => {
+    return bots.find(bot => bot.id === botId)?.name || botId;
   };
 
-  const getTotalRecipients = () => {
-    return selectedBots.reduce((total, botId) => {
-      return total + (botSubscribers[botId]?.length || 0);
-    }, 0);
-  };
+  const resendableCount = deliveries.filter(delivery => delivery.status === 'failed').length;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleResend = async () => {
     setError('');
-    setLoading(true);
+    setResending(true);
 
     try {
-      if (selectedBots.length === 0) {
-        throw new Error('Выберите хотя бы одного бота');
-      }
-
-      const targets: BroadcastTarget[] = selectedBots.map(botId => ({
-        botId,
-        chatIds: botSubscribers[botId]?.map(sub => sub.chat_id) || []
-      }));
-
-      const input: CreateBroadcastInput = {
-        title,
-        message,
-        targets,
-        scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
-        messageOptions: {
-          parse_mode: parseMode,
-          disable_web_page_preview: disableWebPagePreview,
-          disable_notification: disableNotification
-        }
-      };
-
-      await BroadcastService.createBroadcast(input);
-      onSuccess();
+      await BroadcastService.resendFailed(broadcast.id);
+      onResent();
     } catch (error: any) {
       setError(error.message);
     } finally {
-      setLoading(false);
+      setResending(false);
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              Создать рассылку
+              Недоставленные сообщения: {broadcast.title}
             </h3>
             <button
               onClick={onClose}
@@ -364,105 +442,1556 @@ const CreateBroadcastModal: React.FC<{
             </button>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Название рассылки
-              </label>
-              <input
-                type="text"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                required
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                placeholder="Введите название рассылки"
-              />
+          {loading ? (
+            <div className="animate-pulse h-40 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ) : (
+            <div className="overflow-x-auto max-h-96 border border-gray-200 dark:border-gray-700 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Бот
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Чат
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Ошибка
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Попыток
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                  {deliveries.map((delivery) => (
+                    <tr key={delivery.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                        {getBotName(delivery.bot_id)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                        {delivery.chat_id}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        {delivery.status === 'blocked'
+                          ? 'Пользователь заблокировал бота'
+                          : `${delivery.error_code ? `${delivery.error_code}: ` : ''}${delivery.error_description || 'Неизвестная ошибка'}`}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        {delivery.attempts}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
+          )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Сообщение
-              </label>
-              <textarea
-                value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                required
-                rows={6}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                placeholder="Введите текст сообщения"
-              />
-            </div>
+          {total > deliveries.length && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+              Показано {deliveries.length} из {total}
+            </p>
+          )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Выберите ботов для рассылки
-              </label>
-              <div className="space-y-2 max-h-40 overflow-y-auto border border-gray-300 dark:border-gray-600 rounded-md p-3">
-                {bots.map((bot) => (
-                  <label key={bot.id} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={selectedBots.includes(bot.id)}
-                      onChange={() => handleBotToggle(bot.id)}
-                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                    />
-                    <span className="ml-2 text-sm text-gray-900 dark:text-white">
-                      {bot.name}
-                      <span className="text-gray-500 dark:text-gray-400 ml-1">
-                        ({botSubscribers[bot.id]?.length || 0} подписчиков)
-                      </span>
-                    </span>
-                  </label>
-                ))}
-              </div>
-              {selectedBots.length > 0 && (
-                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                  Всего получателей: {getTotalRecipients()}
-                </p>
-              )}
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+            Повторная рассылка не отправляется пользователям, заблокировавшим бота.
+          </p>
+
+          {error && (
+            <div className="text-red-600 dark:text-red-400 text-sm mt-2">
+              {error}
             </div>
+          )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Формат текста
-                </label>
-                <select
-                  value={parseMode}
-                  onChange={(e) => setParseMode(e.target.value as any)}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                >
-                  <option value="HTML">HTML</option>
-                  <option value="Markdown">Markdown</option>
-                  <option value="MarkdownV2">MarkdownV2</option>
-                </select>
-              </div>
+          <div className="flex space-x-3 pt-4">
+            <Button
+              type="button"
+              onClick={onClose}
+              variant="outline"
+              className="flex-1"
+            >
+              Закрыть
+            </Button>
+            <Button
+              type="button"
+              onClick={handleResend}
+              disabled={loading || resending || resendableCount === 0}
+              className="flex-1"
+            >
+              {resending ? 'Отправка...' : 'Отправить повторно'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Запланировать отправку
-                </label>
-                <input
-                  type="datetime-local"
-                  value={scheduledAt}
-                  onChange={(e) => setScheduledAt(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                />
+// A/B Test Results Modal Component
+const AbTestResultsModal: React.FC<{
+  broadcast: BroadcastCampaign;
+  onClose: () => void;
+}> = ({ broadcast, onClose }) => {
+  const [report, setReport] = useState<BroadcastReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setLoading(true);
+        setReport(await BroadcastService.getBroadcastReport(broadcast.id));
+      } catch (error: any) {
+        setError(error.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [broadcast.id]);
+
+  const abTest = report?.abTest;
+  const variantMessages = broadcast.metadata.ab_test?.variants || [];
+
+  const describeStage = () => {
+    if (!abTest) {
+      return '';
+    }
+    if (abTest.winner) {
+      return `Победил вариант ${abTest.winner}, он отправлен остальным получателям.`;
+    }
+    if (abTest.testFinishedAt) {
+      const decideAt = new Date(new Date(abTest.testFinishedAt).getTime() + abTest.holdoutMinutes * 60 * 1000);
+      return `Победитель будет выбран ${decideAt.toLocaleString('ru-RU')} и отправлен ${abTest.heldBack} получателям.`;
+    }
+    return abTest.heldBack > 0
+      ? `Тестовая группа получает сообщения, ${abTest.heldBack} получателей ждут победителя.`
+      : 'Варианты отправляются всей аудитории.';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              A/B тест: {broadcast.title}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="animate-pulse h-40 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ) : abTest && (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                {describeStage()} CTR считается по уникальным нажатиям на кнопки и переходам по ссылкам.
+              </p>
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Вариант
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Доля
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Доставлено
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Ошибки
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Нажатия
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        CTR
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                    {abTest.variants.map((variant) => (
+                      <tr key={variant.variant}>
+                        <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                          <div className="font-medium">
+                            {variant.variant}
+                            {abTest.winner === variant.variant && ' 🏆'}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">
+                            {variantMessages.find(item => item.id === variant.variant)?.message}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                          {variant.split}%
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                          {variant.sent} / {variant.recipients}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                          {variant.failed}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                          {variant.uniqueClicks}
+                          {variant.clicks > variant.uniqueClicks && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400"> ({variant.clicks} всего)</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-medium text-gray-900 dark:text-white">
+                          {variant.ctr.toFixed(1)}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
+            </>
+          )}
+
+          {error && (
+            <div className="text-red-600 dark:text-red-400 text-sm mt-2">
+              {error}
             </div>
+          )}
 
-            <div className="space-y-2">
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={disableWebPagePreview}
-                  onChange={(e) => setDisableWebPagePreview(e.target.checked)}
-                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                />
-                <span className="ml-2 text-sm text-gray-900 dark:text-white">
-                  Отключить предварительный просмотр ссылок
-                </span>
-              </label>
+          <div className="flex pt-4">
+            <Button
+              type="button"
+              onClick={onClose}
+              variant="outline"
+              className="flex-1"
+            >
+              Закрыть
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MAX_MEDIA_ITEMS = 10;
+const MAX_KEYBOARD_ROWS = 10;
+const MAX_ROW_BUTTONS = 8;
+const MAX_CAPTION_LENGTH = 1024;
+const MAX_AB_VARIANTS = 4;
+
+const variantLetter = (index: number) => String.fromCharCode(65 + index);
+
+const mediaTypeLabels: Record<BroadcastMediaType, string> = {
+  photo: 'Фото',
+  video: 'Видео',
+  document: 'Документ'
+};
+
+type KeyboardButtonDraft = {
+  text: string;
+  kind: 'url' | 'callback_data';
+  value: string;
+};
+
+// Placeholders substituted per recipient by the server at send time
+const templateVariables = ['first_name', 'last_name', 'full_name', 'username', 'metadata.'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+// Message preview approximating how Telegram renders the broadcast
+const BroadcastPreview: React.FC<{
+  message: string;
+  media: BroadcastMedia[];
+  keyboard: KeyboardButtonDraft[][];
+}> = ({ message, media, keyboard }) => {
+  const isUrl = (value: string) => /^https?:\/\//.test(value);
+
+  return (
+    <div className="bg-blue-50 dark:bg-gray-900 rounded-md p-3">
+      <div className="max-w-sm">
+        <div className="bg-white dark:bg-gray-700 rounded-lg shadow-sm overflow-hidden">
+          {media.length > 0 && (
+            <div className={`grid gap-0.5 ${media.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              {media.map((item, index) => (
+                item.type === 'photo' && isUrl(item.media) ? (
+                  <img
+                    key={index}
+                    src={item.media}
+                    alt=""
+                    className="w-full h-32 object-cover"
+                  />
+                ) : (
+                  <div
+                    key={index}
+                    className="h-32 flex items-center justify-center bg-gray-200 dark:bg-gray-600 text-xs text-gray-600 dark:text-gray-300 p-2 text-center break-all"
+                  >
+                    {mediaTypeLabels[item.type]}: {item.media || '—'}
+                  </div>
+                )
+              ))}
+            </div>
+          )}
+          {message && (
+            <div className="px-3 py-2 text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-words">
+              {message}
+            </div>
+          )}
+        </div>
+        {keyboard.map((row, rowIndex) => (
+          <div key={rowIndex} className="flex gap-1 mt-1">
+            {row.map((button, buttonIndex) => (
+              <div
+                key={buttonIndex}
+                className="flex-1 text-center text-xs py-2 px-1 rounded bg-white/70 dark:bg-gray-700 text-gray-900 dark:text-white truncate"
+              >
+                {button.text || 'Кнопка'}
+                {button.kind === 'url' && ' ↗'}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const chatTypeLabels: Record<SubscriberChatType, string> = {
+  private: 'Личные чаты',
+  group: 'Группы',
+  supergroup: 'Супергруппы',
+  channel: 'Каналы'
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const describeFilters = (filters: SegmentFilters) => {
+  const parts: string[] = [];
+
+  if (filters.chat_types?.length) {
+    parts.push(filters.chat_types.map(type => chatTypeLabels[type]).join(', '));
+  }
+  if (filters.last_interaction_within_days) {
+    parts.push(`активны за ${filters.last_interaction_within_days} дн.`);
+  }
+  if (filters.last_interaction_older_than_days) {
+    parts.push(`неактивны ${filters.last_interaction_older_than_days}+ дн.`);
+  }
+  if (filters.subscribed_after) {
+    parts.push(`подписаны после ${new Date(filters.subscribed_after).toLocaleDateString('ru-RU')}`);
+  }
+  if (filters.subscribed_before) {
+    parts.push(`подписаны до ${new Date(filters.subscribed_before).toLocaleDateString('ru-RU')}`);
+  }
+  if (filters.tags?.length) {
+    parts.push(`теги: ${filters.tags.join(', ')}`);
+  }
+  if (filters.languages?.length) {
+    parts.push(`языки: ${filters.languages.join(', ')}`);
+  }
+  if (filters.has_username !== undefined) {
+    parts.push(filters.has_username ? 'с username' : 'без username');
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'Все активные подписчики';
+};
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) {
+    return '—';
+  }
+  if (seconds < 60) {
+    return `${Math.round(seconds)} сек`;
+  }
+  if (seconds < 3600) {
+    return `${Math.round(seconds / 60)} мин`;
+  }
+  return `${(seconds / 3600).toFixed(1)} ч`;
+};
+
+// Clicks Modal Component
+const ClicksModal: React.FC<{
+  broadcast: BroadcastCampaign;
+  onClose: () => void;
+}> = ({ broadcast, onClose }) => {
+  const [report, setReport] = useState<BroadcastReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setLoading(true);
+        setReport(await BroadcastService.getBroadcastReport(broadcast.id));
+      } catch (error: any) {
+        setError(error.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [broadcast.id]);
+
+  const clicks = report?.stats.clicks;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Переходы: {broadcast.title}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="animate-pulse h-40 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ) : report && clicks && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Кликнули</div>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {clicks.uniqueClicks}
+                    {clicks.totalClicks > clicks.uniqueClicks && (
+                      <span className="text-xs font-normal text-gray-500 dark:text-gray-400"> ({clicks.totalClicks} всего)</span>
+                    )}
+                  </div>
+                </div>
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">CTR</div>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {clicks.clickThroughRate.toFixed(1)}%
+                  </div>
+                </div>
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Среднее время до клика</div>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {formatSeconds(clicks.averageTimeToClickSeconds)}
+                  </div>
+                </div>
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Медиана времени до клика</div>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {formatSeconds(clicks.medianTimeToClickSeconds)}
+                  </div>
+                </div>
+              </div>
+
+              {report.links.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {broadcast.metadata.track_links === false
+                    ? 'Отслеживание ссылок в этой рассылке отключено.'
+                    : 'В рассылке нет отслеживаемых ссылок, учитываются только нажатия на кнопки.'}
+                </p>
+              ) : (
+                <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Ссылка
+                        </th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Уникальные
+                        </th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Всего
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                      {report.links.map((link) => (
+                        <tr key={link.url}>
+                          <td className="px-4 py-2 text-sm text-gray-900 dark:text-white truncate max-w-md">
+                            {link.url}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                            {link.uniqueClicks}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                            {link.clicks}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="text-red-600 dark:text-red-400 text-sm mt-2">
+              {error}
+            </div>
+          )}
+
+          <div className="flex pt-4">
+            <Button
+              type="button"
+              onClick={onClose}
+              variant="outline"
+              className="flex-1"
+            >
+              Закрыть
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Segments Modal Component
+const SegmentsModal: React.FC<{
+  bots: Bot[];
+  segments: BroadcastSegment[];
+  onClose: () => void;
+  onChange: () => void;
+}> = ({ bots, segments, onClose, onChange }) => {
+  const [name, setName] = useState('');
+  const [selectedBots, setSelectedBots] = useState<string[]>([]);
+  const [chatTypes, setChatTypes] = useState<SubscriberChatType[]>([]);
+  const [activeWithinDays, setActiveWithinDays] = useState('');
+  const [inactiveForDays, setInactiveForDays] = useState('');
+  const [subscribedAfter, setSubscribedAfter] = useState('');
+  const [subscribedBefore, setSubscribedBefore] = useState('');
+  const [tags, setTags] = useState('');
+  const [languages, setLanguages] = useState('');
+  const [hasUsername, setHasUsername] = useState<'any' | 'yes' | 'no'>('any');
+  const [count, setCount] = useState<SegmentRecipientCount | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const buildFilters = (): SegmentFilters => ({
+    ...(chatTypes.length > 0 && { chat_types: chatTypes }),
+    ...(activeWithinDays && { last_interaction_within_days: Number(activeWithinDays) }),
+    ...(inactiveForDays && { last_interaction_older_than_days: Number(inactiveForDays) }),
+    ...(subscribedAfter && { subscribed_after: new Date(subscribedAfter).toISOString() }),
+    ...(subscribedBefore && { subscribed_before: new Date(subscribedBefore).toISOString() }),
+    ...(splitList(tags).length > 0 && { tags: splitList(tags) }),
+    ...(splitList(languages).length > 0 && { languages: splitList(languages) }),
+    ...(hasUsername !== 'any' && { has_username: hasUsername === 'yes' })
+  });
+
+  // Live recipient count while the filters are being edited
+  useEffect(() => {
+    if (selectedBots.length === 0) {
+      setCount(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setCount(await BroadcastService.previewSegment(selectedBots, buildFilters()));
+      } catch (error) {
+        console.error('Failed to count segment recipients:', error);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [selectedBots, chatTypes, activeWithinDays, inactiveForDays, subscribedAfter, subscribedBefore, tags, languages, hasUsername]);
+
+  const toggle = <T,>(list: T[], item: T) => (
+    list.includes(item) ? list.filter(value => value !== item) : [...list, item]
+  );
+
+  const resetForm = () => {
+    setName('');
+    setSelectedBots([]);
+    setChatTypes([]);
+    setActiveWithinDays('');
+    setInactiveForDays('');
+    setSubscribedAfter('');
+    setSubscribedBefore('');
+    setTags('');
+    setLanguages('');
+    setHasUsername('any');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    try {
+      await BroadcastService.createSegment({
+        name,
+        bot_ids: selectedBots,
+        filters: buildFilters()
+      });
+      resetForm();
+      onChange();
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: BroadcastSegment) => {
+    if (!confirm(`Удалить сегмент «${segment.name}»?`)) {
+      return;
+    }
+
+    try {
+      await BroadcastService.deleteSegment(segment.id);
+      onChange();
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Сегменты аудитории
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {segments.length > 0 && (
+            <div className="space-y-2 mb-6">
+              {segments.map((segment) => (
+                <div
+                  key={segment.id}
+                  className="flex justify-between items-start border border-gray-200 dark:border-gray-700 rounded-md p-3"
+                >
+                  <div>
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      {segment.name}
+                      <span className="text-gray-500 dark:text-gray-400 ml-2">
+                        {segment.recipientCount ?? 0} получателей
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {segment.bot_ids.map(botId => bots.find(bot => bot.id === botId)?.name || botId).join(', ')}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {describeFilters(segment.filters)}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleDelete(segment)}>
+                    Удалить
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h4 className="text-md font-medium text-gray-900 dark:text-white">
+              Новый сегмент
+            </h4>
+
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className={inputClassName}
+              placeholder="Название сегмента"
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Боты
+              </label>
+              <div className="space-y-2 max-h-32 overflow-y-auto border border-gray-300 dark:border-gray-600 rounded-md p-3">
+                {bots.map((bot) => (
+                  <label key={bot.id} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={selectedBots.includes(bot.id)}
+                      onChange={() => setSelectedBots(prev => toggle(prev, bot.id))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-900 dark:text-white">{bot.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Тип чата
+              </label>
+              <div className="flex flex-wrap gap-4">
+                {Object.entries(chatTypeLabels).map(([type, label]) => (
+                  <label key={type} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={chatTypes.includes(type as SubscriberChatType)}
+                      onChange={() => setChatTypes(prev => toggle(prev, type as SubscriberChatType))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-900 dark:text-white">{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Активны за последние N дней
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={activeWithinDays}
+                  onChange={(e) => setActiveWithinDays(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Неактивны дольше N дней
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={inactiveForDays}
+                  onChange={(e) => setInactiveForDays(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Подписаны после
+                </label>
+                <input
+                  type="date"
+                  value={subscribedAfter}
+                  onChange={(e) => setSubscribedAfter(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Подписаны до
+                </label>
+                <input
+                  type="date"
+                  value={subscribedBefore}
+                  onChange={(e) => setSubscribedBefore(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Теги (через запятую)
+                </label>
+                <input
+                  type="text"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  className={inputClassName}
+                  placeholder="vip, beta"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Языки (через запятую)
+                </label>
+                <input
+                  type="text"
+                  value={languages}
+                  onChange={(e) => setLanguages(e.target.value)}
+                  className={inputClassName}
+                  placeholder="ru, en"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Username
+                </label>
+                <select
+                  value={hasUsername}
+                  onChange={(e) => setHasUsername(e.target.value as 'any' | 'yes' | 'no')}
+                  className={inputClassName}
+                >
+                  <option value="any">Не важно</option>
+                  <option value="yes">Есть</option>
+                  <option value="no">Нет</option>
+                </select>
+              </div>
+            </div>
+
+            {count && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Сейчас в сегменте: {count.total} получателей
+                {count.byBot.length > 1 && (
+                  <span>
+                    {' '}({count.byBot.map(item => `${bots.find(bot => bot.id === item.botId)?.name || item.botId}: ${item.count}`).join(', ')})
+                  </span>
+                )}
+              </p>
+            )}
+
+            {error && (
+              <div className="text-red-600 dark:text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-2">
+              <Button
+                type="button"
+                onClick={onClose}
+                variant="outline"
+                className="flex-1"
+              >
+                Закрыть
+              </Button>
+              <Button
+                type="submit"
+                disabled={saving || !name || selectedBots.length === 0}
+                className="flex-1"
+              >
+                {saving ? 'Сохранение...' : 'Сохранить сегмент'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Create Broadcast Modal Component
+const CreateBroadcastModal: React.FC<{
+  bots: Bot[];
+  segments: BroadcastSegment[];
+  onClose: () => void;
+  onSuccess: () => void;
+}> = ({ bots, segments, onClose, onSuccess }) => {
+  const [title, setTitle] = useState('');
+  const [message, setMessage] = useState('');
+  const [selectedBots, setSelectedBots] = useState<string[]>([]);
+  const [parseMode, setParseMode] = useState<'HTML' | 'Markdown' | 'MarkdownV2'>('HTML');
+  const [disableWebPagePreview, setDisableWebPagePreview] = useState(false);
+  const [disableNotification, setDisableNotification] = useState(false);
+  const [trackLinks, setTrackLinks] = useState(true);
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [botSubscribers, setBotSubscribers] = useState<Record<string, any[]>>({});
+  const [media, setMedia] = useState<BroadcastMedia[]>([]);
+  const [keyboard, setKeyboard] = useState<KeyboardButtonDraft[][]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [audience, setAudience] = useState<'bots' | 'segment'>('bots');
+  const [segmentId, setSegmentId] = useState('');
+  // Variant A is the main message; the others only differ in text
+  const [abTestEnabled, setAbTestEnabled] = useState(false);
+  const [variantMessages, setVariantMessages] = useState<string[]>(['']);
+  const [variantSplits, setVariantSplits] = useState<number[]>([10, 10]);
+  const [holdoutMinutes, setHoldoutMinutes] = useState(60);
+
+  const selectedSegment = segments.find(segment => segment.id === segmentId);
+  const [templates, setTemplates] = useState<BroadcastTemplate[]>([]);
+  const [renderedMessage, setRenderedMessage] = useState<string | null>(null);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await BroadcastService.getTemplates());
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  // The preview shows the message as the sample recipient would receive it
+  useEffect(() => {
+    if (!showPreview || !message) {
+      setRenderedMessage(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setRenderedMessage(await BroadcastService.previewMessage(message, parseMode));
+      } catch (error) {
+        setRenderedMessage(null);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [showPreview, message, parseMode]);
+
+  const handleTemplateSelect = (templateId: string) => {
+    const template = templates.find(item => item.id === templateId);
+    if (!template) {
+      return;
+    }
+
+    setMessage(template.template);
+    if (template.parse_mode) {
+      setParseMode(template.parse_mode);
+    }
+  };
+
+  const insertVariable = (variable: string) => {
+    setMessage(prev => `${prev}{{${variable}}}`);
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = prompt('Название шаблона');
+    if (!name) {
+      return;
+    }
+
+    try {
+      await BroadcastService.createTemplate({ name, content: message, parse_mode: parseMode });
+      await loadTemplates();
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const isAlbum = media.length > 1;
+  const totalSplit = variantSplits.reduce((sum, split) => sum + split, 0);
+
+  const addVariant = () => {
+    setVariantMessages(prev => [...prev, '']);
+    setVariantSplits(prev => [...prev, 10]);
+  };
+
+  const removeVariant = (index: number) => {
+    setVariantMessages(prev => prev.filter((_, i) => i !== index));
+    setVariantSplits(prev => prev.filter((_, i) => i !== index + 1));
+  };
+
+  const updateVariantSplit = (index: number, split: number) => {
+    setVariantSplits(prev => prev.map((value, i) => (i === index ? split : value)));
+  };
+
+  useEffect(() => {
+    // Load subscribers for each bot
+    const loadSubscribers = async () => {
+      const subscribersData: Record<string, any[]> = {};
+      for (const bot of bots) {
+        try {
+          const data = await BroadcastService.getBotSubscribers(bot.id);
+          subscribersData[bot.id] = data.subscribers;
+        } catch (error) {
+          console.error(`Failed to load subscribers for bot ${bot.id}:`, error);
+          subscribersData[bot.id] = [];
+        }
+      }
+      setBotSubscribers(subscribersData);
+    };
+
+    loadSubscribers();
+  }, [bots]);
+
+  const handleBotToggle = (botId: string) => {
+    setSelectedBots(prev => 
+      prev.includes(botId) 
+        ? prev.filter(id => id !== botId)
+        : [...prev, botId]
+    );
+  };
+
+  const addMedia = () => {
+    setMedia(prev => [...prev, { type: 'photo', media: '' }]);
+  };
+
+  const updateMedia = (index: number, changes: Partial<BroadcastMedia>) => {
+    setMedia(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeMedia = (index: number) => {
+    setMedia(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addKeyboardRow = () => {
+    setKeyboard(prev => [...prev, [{ text: '', kind: 'url', value: '' }]]);
+  };
+
+  const addKeyboardButton = (rowIndex: number) => {
+    setKeyboard(prev => prev.map((row, i) => (
+      i === rowIndex ? [...row, { text: '', kind: 'url', value: '' }] : row
+    )));
+  };
+
+  const updateKeyboardButton = (rowIndex: number, buttonIndex: number, changes: Partial<KeyboardButtonDraft>) => {
+    setKeyboard(prev => prev.map((row, i) => (
+      i === rowIndex
+        ? row.map((button, j) => (j === buttonIndex ? { ...button, ...changes } : button))
+        : row
+    )));
+  };
+
+  const removeKeyboardButton = (rowIndex: number, buttonIndex: number) => {
+    setKeyboard(prev => prev
+      .map((row, i) => (i === rowIndex ? row.filter((_, j) => j !== buttonIndex) : row))
+      .filter(row => row.length > 0));
+  };
+
+  const buildInlineKeyboard = (): InlineKeyboardButton[][] => {
+    return keyboard.map(row => row.map(button => (
+      button.kind === 'url'
+        ? { text: button.text.trim(), url: button.value.trim() }
+        : { text: button.text.trim(), callback_data: button.value.trim() }
+    )));
+  };
+
+  const getTotalRecipients = () => {
+    return selectedBots.reduce((total, botId) => {
+      return total + (botSubscribers[botId]?.length || 0);
+    }, 0);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (audience === 'bots' && selectedBots.length === 0) {
+        throw new Error('Выберите хотя бы одного бота');
+      }
+
+      if (audience === 'segment' && !segmentId) {
+        throw new Error('Выберите сегмент');
+      }
+
+      if (media.some(item => !item.media.trim())) {
+        throw new Error('Укажите ссылку или file_id для каждого вложения');
+      }
+
+      if (media.length > 0 && message.length > MAX_CAPTION_LENGTH) {
+        throw new Error(`Подпись к вложению не может быть длиннее ${MAX_CAPTION_LENGTH} символов`);
+      }
+
+      if (isAlbum && keyboard.length > 0) {
+        throw new Error('Кнопки нельзя прикрепить к альбому');
+      }
+
+      if (isAlbum && media.some(item => item.type === 'document') && media.some(item => item.type !== 'document')) {
+        throw new Error('Документы нельзя смешивать с фото и видео в одном альбоме');
+      }
+
+      if (keyboard.some(row => row.some(button => !button.text.trim() || !button.value.trim()))) {
+        throw new Error('Заполните текст и действие для каждой кнопки');
+      }
+
+      if (abTestEnabled && media.length === 0 && variantMessages.some(text => !text.trim())) {
+        throw new Error('Заполните текст каждого варианта');
+      }
+
+      if (abTestEnabled && (variantSplits.some(split => split < 1 || split > 99) || totalSplit > 100)) {
+        throw new Error('Доля каждого варианта должна быть от 1 до 99%, а вместе не больше 100%');
+      }
+
+      const content = {
+        ...(media.length > 0 && {
+          media: media.map(item => ({ type: item.type, media: item.media.trim() }))
+        }),
+        ...(keyboard.length > 0 && { inlineKeyboard: buildInlineKeyboard() })
+      };
+
+      const targets: BroadcastTarget[] = selectedBots.map(botId => ({
+        botId,
+        chatIds: botSubscribers[botId]?.map(sub => sub.chat_id) || []
+      }));
+
+      const input: CreateBroadcastInput = {
+        title,
+        message,
+        // A segment is resolved into recipients by the server when the broadcast is sent
+        ...(audience === 'segment' ? { segmentId } : { targets }),
+        scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+        messageOptions: {
+          parse_mode: parseMode,
+          disable_web_page_preview: disableWebPagePreview,
+          disable_notification: disableNotification
+        },
+        ...(!trackLinks && { trackLinks: false }),
+        ...(abTestEnabled
+          ? {
+            variants: [message, ...variantMessages].map((text, index) => ({
+              message: text,
+              split: variantSplits[index],
+              ...content
+            })),
+            holdoutMinutes
+          }
+          : content)
+      };
+
+      await BroadcastService.createBroadcast(input);
+      onSuccess();
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Создать рассылку
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Название рассылки
+              </label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                placeholder="Введите название рассылки"
+              />
+            </div>
+
+            {templates.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Шаблон
+                </label>
+                <select
+                  value=""
+                  onChange={(e) => handleTemplateSelect(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Выберите шаблон</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}{template.built_in ? '' : ' (мой)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {media.length > 0 ? 'Подпись' : 'Сообщение'}
+                </label>
+                <button
+                  type="button"
+                  onClick={handleSaveTemplate}
+                  disabled={!message}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                >
+                  Сохранить как шаблон
+                </button>
+              </div>
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                required={media.length === 0}
+                rows={6}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                placeholder="Введите текст сообщения"
+              />
+              <div className="flex flex-wrap items-center gap-2 mt-1">
+                {templateVariables.map((variable) => (
+                  <button
+                    key={variable}
+                    type="button"
+                    onClick={() => insertVariable(variable)}
+                    className="text-xs px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                  >
+                    {`{{${variable}}}`}
+                  </button>
+                ))}
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Значение по умолчанию: {'{{first_name|друг}}'}
+                </span>
+              </div>
+              {media.length > 0 && (
+                <p className={`text-xs mt-1 ${message.length > MAX_CAPTION_LENGTH ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {message.length}/{MAX_CAPTION_LENGTH}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Вложения
+                </label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={addMedia}
+                  disabled={media.length >= MAX_MEDIA_ITEMS}
+                >
+                  Добавить вложение
+                </Button>
+              </div>
+              {media.map((item, index) => (
+                <div key={index} className="flex space-x-2 mb-2">
+                  <select
+                    value={item.type}
+                    onChange={(e) => updateMedia(index, { type: e.target.value as BroadcastMediaType })}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    {Object.entries(mediaTypeLabels).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={item.media}
+                    onChange={(e) => updateMedia(index, { media: e.target.value })}
+                    className={inputClassName}
+                    placeholder="https://... или file_id"
+                  />
+                  <Button type="button" size="sm" variant="outline" onClick={() => removeMedia(index)}>
+                    ✕
+                  </Button>
+                </div>
+              ))}
+              {isAlbum && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Несколько вложений будут отправлены альбомом, подпись появится под первым из них
+                </p>
+              )}
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Кнопки
+                </label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={addKeyboardRow}
+                  disabled={isAlbum || keyboard.length >= MAX_KEYBOARD_ROWS}
+                >
+                  Добавить ряд
+                </Button>
+              </div>
+              {isAlbum && keyboard.length > 0 && (
+                <p className="text-xs text-red-600 dark:text-red-400 mb-2">
+                  Telegram не поддерживает кнопки у альбомов
+                </p>
+              )}
+              {keyboard.map((row, rowIndex) => (
+                <div key={rowIndex} className="border border-gray-300 dark:border-gray-600 rounded-md p-3 mb-2 space-y-2">
+                  {row.map((button, buttonIndex) => (
+                    <div key={buttonIndex} className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={button.text}
+                        onChange={(e) => updateKeyboardButton(rowIndex, buttonIndex, { text: e.target.value })}
+                        maxLength={64}
+                        className={inputClassName}
+                        placeholder="Текст кнопки"
+                      />
+                      <select
+                        value={button.kind}
+                        onChange={(e) => updateKeyboardButton(rowIndex, buttonIndex, { kind: e.target.value as KeyboardButtonDraft['kind'] })}
+                        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      >
+                        <option value="url">Ссылка</option>
+                        <option value="callback_data">Callback</option>
+                      </select>
+                      <input
+                        type="text"
+                        value={button.value}
+                        onChange={(e) => updateKeyboardButton(rowIndex, buttonIndex, { value: e.target.value })}
+                        maxLength={button.kind === 'callback_data' ? 64 : 500}
+                        className={inputClassName}
+                        placeholder={button.kind === 'url' ? 'https://...' : 'callback_data'}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => removeKeyboardButton(rowIndex, buttonIndex)}
+                      >
+                        ✕
+                      </Button>
+                    </div>
+                  ))}
+                  {row.length < MAX_ROW_BUTTONS && (
+                    <button
+                      type="button"
+                      onClick={() => addKeyboardButton(rowIndex)}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      + Кнопка в ряд
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowPreview(prev => !prev)}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline mb-2"
+              >
+                {showPreview ? 'Скрыть предпросмотр' : 'Показать предпросмотр'}
+              </button>
+              {showPreview && (
+                <BroadcastPreview message={renderedMessage ?? message} media={media} keyboard={keyboard} />
+              )}
+            </div>
+
+            <div>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={abTestEnabled}
+                  onChange={(e) => setAbTestEnabled(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300">A/B тест</span>
+              </label>
+
+              {abTestEnabled && (
+                <div className="mt-3 space-y-3 border border-gray-200 dark:border-gray-700 rounded-md p-3">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Варианты отличаются текстом, вложения и кнопки у них общие. Каждый вариант получает свою долю
+                    аудитории; остальные получатели ждут и получают вариант с лучшим CTR по нажатиям на кнопки.
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-900 dark:text-white w-28">Вариант A</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={variantSplits[0]}
+                      onChange={(e) => updateVariantSplit(0, Number(e.target.value))}
+                      className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">% · текст сообщения выше</span>
+                  </div>
+                  {variantMessages.map((text, index) => (
+                    <div key={index}>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className="text-sm text-gray-900 dark:text-white w-28">Вариант {variantLetter(index + 1)}</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={99}
+                          value={variantSplits[index + 1]}
+                          onChange={(e) => updateVariantSplit(index + 1, Number(e.target.value))}
+                          className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                        />
+                        <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+                        {variantMessages.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => removeVariant(index)}
+                            className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                          >
+                            Удалить
+                          </button>
+                        )}
+                      </div>
+                      <textarea
+                        value={text}
+                        onChange={(e) => setVariantMessages(prev => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                        rows={3}
+                        className={inputClassName}
+                        placeholder={`Текст варианта ${variantLetter(index + 1)}`}
+                      />
+                    </div>
+                  ))}
+                  {variantMessages.length + 1 < MAX_AB_VARIANTS && (
+                    <button
+                      type="button"
+                      onClick={addVariant}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      + Вариант
+                    </button>
+                  )}
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-900 dark:text-white">Выбрать победителя через</span>
+                    <input
+                      type="number"
+                      min={5}
+                      max={7 * 24 * 60}
+                      value={holdoutMinutes}
+                      onChange={(e) => setHoldoutMinutes(Number(e.target.value))}
+                      className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">мин.</span>
+                  </div>
+                  <p className={`text-xs ${totalSplit > 100 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                    Тестовая группа: {totalSplit}% аудитории{totalSplit < 100 && `, победителя получат остальные ${100 - totalSplit}%`}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="flex space-x-4">
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  checked={audience === 'bots'}
+                  onChange={() => setAudience('bots')}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span className="ml-2 text-sm text-gray-900 dark:text-white">Подписчики ботов</span>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  checked={audience === 'segment'}
+                  onChange={() => setAudience('segment')}
+                  disabled={segments.length === 0}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span className="ml-2 text-sm text-gray-900 dark:text-white">
+                  Сегмент{segments.length === 0 && ' (нет сохранённых)'}
+                </span>
+              </label>
+            </div>
+
+            {audience === 'segment' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Сегмент
+                </label>
+                <select
+                  value={segmentId}
+                  onChange={(e) => setSegmentId(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Выберите сегмент</option>
+                  {segments.map((segment) => (
+                    <option key={segment.id} value={segment.id}>
+                      {segment.name} ({segment.recipientCount ?? 0} получателей)
+                    </option>
+                  ))}
+                </select>
+                {selectedSegment && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    {describeFilters(selectedSegment.filters)}. Получатели определяются в момент отправки.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Выберите ботов для рассылки
+                </label>
+                <div className="space-y-2 max-h-40 overflow-y-auto border border-gray-300 dark:border-gray-600 rounded-md p-3">
+                  {bots.map((bot) => (
+                    <label key={bot.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedBots.includes(bot.id)}
+                        onChange={() => handleBotToggle(bot.id)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-2 text-sm text-gray-900 dark:text-white">
+                        {bot.name}
+                        <span className="text-gray-500 dark:text-gray-400 ml-1">
+                          ({botSubscribers[bot.id]?.length || 0} подписчиков)
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                {selectedBots.length > 0 && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    Всего получателей: {getTotalRecipients()}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Формат текста
+                </label>
+                <select
+                  value={parseMode}
+                  onChange={(e) => setParseMode(e.target.value as any)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="HTML">HTML</option>
+                  <option value="Markdown">Markdown</option>
+                  <option value="MarkdownV2">MarkdownV2</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Запланировать отправку
+                </label>
+                <input
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={disableWebPagePreview}
+                  onChange={(e) => setDisableWebPagePreview(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-900 dark:text-white">
+                  Отключить предварительный просмотр ссылок
+                </span>
+              </label>
 
               <label className="flex items-center">
                 <input
@@ -475,6 +2004,18 @@ const CreateBroadcastModal: React.FC<{
                   Отправить без звука
                 </span>
               </label>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={trackLinks}
+                  onChange={(e) => setTrackLinks(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-900 dark:text-white">
+                  Отслеживать переходы по ссылкам
+                </span>
+              </label>
             </div>
 
             {error && (
@@ -494,7 +2035,7 @@ const CreateBroadcastModal: React.FC<{
               </Button>
               <Button
                 type="submit"
-                disabled={loading || selectedBots.length === 0 || !title || !message}
+                disabled={loading || (audience === 'bots' ? selectedBots.length === 0 : !segmentId) || !title || (!message && media.length === 0)}
                 className="flex-1"
               >
                 {loading ? 'Создание...' : scheduledAt ? 'Запланировать' : 'Создать'}
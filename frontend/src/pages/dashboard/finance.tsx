@@ -3,23 +3,46 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { FinanceService } from '@/services/financeService';
-import { Transaction, TransactionFilters, TransactionStats } from '@/types/finance';
+import { Currency, Invoice, InvoiceDocumentType, RevenueSplitBreakdown, RevenueSplitRole, Transaction, TransactionFilters, TransactionStats, UserBalance } from '@/types/finance';
+
+const SPLIT_ROLE_LABELS: Record<RevenueSplitRole, string> = {
+  developer: 'Разработчик модуля',
+  bot_owner: 'Владелец бота (наценка)',
+  referrer: 'Реферальная комиссия',
+};
+
+const CURRENCIES: Currency[] = ['USD', 'EUR', 'RUB'];
+
+const DOCUMENT_TYPE_LABELS: Record<InvoiceDocumentType, string> = {
+  invoice: 'Счёт',
+  credit_note: 'Кредит-нота',
+  withdrawal_receipt: 'Квитанция о выводе',
+};
 
 const FinancePage: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [stats, setStats] = useState<TransactionStats | null>(null);
-  const [balance, setBalance] = useState<number>(0);
+  const [balance, setBalance] = useState<UserBalance | null>(null);
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState<TransactionFilters>({
     page: 1,
     limit: 20
   });
   const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [splits, setSplits] = useState<Record<string, RevenueSplitBreakdown | null>>({});
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoicePage, setInvoicePage] = useState(1);
+  const [invoicePages, setInvoicePages] = useState(1);
 
   useEffect(() => {
     loadData();
   }, [filters]);
 
+  useEffect(() => {
+    loadInvoices();
+  }, [invoicePage]);
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -32,7 +55,7 @@ const FinancePage: React.FC = () => {
       setTransactions(transactionsData.transactions);
       setTotal(transactionsData.total);
       setStats(statsData);
-      setBalance(balanceData.balance);
+      setBalance(balanceData);
     } catch (error) {
       console.error('Failed to load finance data:', error);
     } finally {
@@ -40,6 +63,16 @@ const FinancePage: React.FC = () => {
     }
   };
 
+  const loadInvoices = async () => {
+    try {
+      const data = await FinanceService.getInvoices(invoicePage, 10);
+      setInvoices(data.invoices);
+      setInvoicePages(data.pagination.pages);
+    } catch (error) {
+      console.error('Failed to load invoices:', error);
+    }
+  };
+
   const handleFilterChange = (key: keyof TransactionFilters, value: string) => {
     setFilters(prev => ({
       ...prev,
@@ -48,6 +81,35 @@ const FinancePage: React.FC = () => {
     }));
   };
 
+  const toggleSplit = async (transaction: Transaction) => {
+    if (transaction.type !== 'payment' || transaction.status !== 'completed') {
+      return;
+    }
+    if (expandedId === transaction.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(transaction.id);
+    if (!(transaction.id in splits)) {
+      try {
+        const details = await FinanceService.getTransaction(transaction.id);
+        setSplits(prev => ({ ...prev, [transaction.id]: details.revenue_split }));
+      } catch (error) {
+        console.error('Failed to load revenue split:', error);
+      }
+    }
+  };
+
+  const handleDisplayCurrencyChange = async (currency: Currency) => {
+    try {
+      await FinanceService.updateDisplayCurrency(currency);
+      loadData();
+    } catch (error) {
+      console.error('Failed to update display currency:', error);
+    }
+  };
+
   const handleExport = async () => {
     try {
       const blob = await FinanceService.exportTransactions(filters);
@@ -64,6 +126,22 @@ const FinancePage: React.FC = () => {
     }
   };
 
+  const handleInvoiceDownload = async (invoice: Invoice) => {
+    try {
+      const blob = await FinanceService.downloadInvoice(invoice.id);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${invoice.number}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Invoice download failed:', error);
+    }
+  };
+
   const formatAmount = (amount: number, currency: string = 'USD') => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
@@ -102,6 +180,7 @@ const FinancePage: React.FC = () => {
         return 'text-red-600';
       case 'commission':
       case 'refund':
+      case 'top_up':
         return 'text-green-600';
       case 'withdrawal':
         return 'text-blue-600';
@@ -116,6 +195,7 @@ const FinancePage: React.FC = () => {
         return '↗';
       case 'commission':
       case 'refund':
+      case 'top_up':
         return '↙';
       case 'withdrawal':
         return '↖';
@@ -149,9 +229,21 @@ const FinancePage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
             Финансовые операции
           </h1>
-          <Button onClick={handleExport} variant="outline">
-            Экспорт
-          </Button>
+          <div className="flex items-center space-x-3">
+            <select
+              value={balance?.display_currency || 'USD'}
+              onChange={(e) => handleDisplayCurrencyChange(e.target.value as Currency)}
+              aria-label="Валюта отображения"
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            >
+              {CURRENCIES.map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+            <Button onClick={handleExport} variant="outline">
+              Экспорт
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -167,8 +259,16 @@ const FinancePage: React.FC = () => {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Текущий баланс</p>
                   <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    {formatAmount(balance)}
+                    {balance && formatAmount(balance.total_in_display_currency, balance.display_currency)}
                   </p>
+                  {balance && CURRENCIES.filter(currency => balance.balances[currency] > 0).length > 1 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {CURRENCIES
+                        .filter(currency => balance.balances[currency] > 0)
+                        .map(currency => formatAmount(balance.balances[currency], currency))
+                        .join(' + ')}
+                    </p>
+                  )}
                 </div>
               </div>
             </Card>
@@ -183,7 +283,7 @@ const FinancePage: React.FC = () => {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Заработано</p>
                   <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    {formatAmount(stats.total_earned)}
+                    {formatAmount(stats.total_earned, stats.currency)}
                   </p>
                 </div>
               </div>
@@ -199,7 +299,7 @@ const FinancePage: React.FC = () => {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Потрачено</p>
                   <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    {formatAmount(stats.total_spent)}
+                    {formatAmount(stats.total_spent, stats.currency)}
                   </p>
                 </div>
               </div>
@@ -215,7 +315,7 @@ const FinancePage: React.FC = () => {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Выведено</p>
                   <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    {formatAmount(stats.total_withdrawn)}
+                    {formatAmount(stats.total_withdrawn, stats.currency)}
                   </p>
                 </div>
               </div>
@@ -240,6 +340,7 @@ const FinancePage: React.FC = () => {
                 <option value="commission">Комиссии</option>
                 <option value="withdrawal">Выводы</option>
                 <option value="refund">Возвраты</option>
+                <option value="top_up">Пополнения</option>
               </select>
             </div>
 
@@ -321,7 +422,13 @@ const FinancePage: React.FC = () => {
               </thead>
               <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
                 {transactions.map((transaction) => (
-                  <tr key={transaction.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                  <React.Fragment key={transaction.id}>
+                  <tr
+                    onClick={() => toggleSplit(transaction)}
+                    className={`hover:bg-gray-50 dark:hover:bg-gray-800 ${
+                      transaction.type === 'payment' && transaction.status === 'completed' ? 'cursor-pointer' : ''
+                    }`}
+                  >
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <span className={`text-lg mr-2 ${getTypeColor(transaction.type)}`}>
@@ -333,6 +440,8 @@ const FinancePage: React.FC = () => {
                             {transaction.type === 'commission' && 'Комиссия'}
                             {transaction.type === 'withdrawal' && 'Вывод'}
                             {transaction.type === 'refund' && 'Возврат'}
+                            {transaction.type === 'adjustment' && 'Корректировка'}
+                            {transaction.type === 'top_up' && 'Пополнение'}
                           </div>
                           <div className="text-sm text-gray-500 dark:text-gray-400">
                             {transaction.id.slice(0, 8)}...
@@ -342,7 +451,8 @@ const FinancePage: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className={`text-sm font-medium ${getTypeColor(transaction.type)}`}>
-                        {transaction.type === 'payment' || transaction.type === 'withdrawal' ? '-' : '+'}
+                        {transaction.type === 'payment' || transaction.type === 'withdrawal' ||
+                          transaction.metadata?.['direction'] === 'debit' ? '-' : '+'}
                         {formatAmount(transaction.amount, transaction.currency)}
                       </div>
                     </td>
@@ -361,6 +471,36 @@ const FinancePage: React.FC = () => {
                       {transaction.description}
                     </td>
                   </tr>
+                  {expandedId === transaction.id && (
+                    <tr className="bg-gray-50 dark:bg-gray-800">
+                      <td colSpan={5} className="px-6 py-4">
+                        {!(transaction.id in splits) ? (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Загрузка...</p>
+                        ) : !splits[transaction.id] ? (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Распределение недоступно</p>
+                        ) : (
+                          <div className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                            <p className="font-medium text-gray-900 dark:text-white">Распределение платежа</p>
+                            <p>
+                              Цена модуля: {formatAmount(splits[transaction.id]!.base_amount, transaction.currency)},
+                              наценка: {formatAmount(splits[transaction.id]!.markup_amount, transaction.currency)}
+                            </p>
+                            {splits[transaction.id]!.legs.map(leg => (
+                              <p key={leg.transaction_id}>
+                                {SPLIT_ROLE_LABELS[leg.role]}: {formatAmount(leg.amount, transaction.currency)}
+                              </p>
+                            ))}
+                            <p>
+                              Комиссия платформы ({splits[transaction.id]!.platform_fee_percentage}%):{' '}
+                              {formatAmount(splits[transaction.id]!.platform_fee, transaction.currency)},
+                              остаётся платформе: {formatAmount(splits[transaction.id]!.platform_net, transaction.currency)}
+                            </p>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -425,6 +565,80 @@ const FinancePage: React.FC = () => {
             </div>
           )}
         </Card>
+
+        {/* Invoices and receipts */}
+        <Card className="p-6 mt-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Документы</h2>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Счета и квитанции появятся здесь после первого платежа или вывода средств
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Номер
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Документ
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Дата
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Сумма
+                    </th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                  {invoices.map(invoice => (
+                    <tr key={invoice.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {invoice.number}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                        {DOCUMENT_TYPE_LABELS[invoice.document_type]}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {formatDate(invoice.issued_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {formatAmount(invoice.total, invoice.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <Button onClick={() => handleInvoiceDownload(invoice)} variant="outline" size="sm">
+                          Скачать PDF
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {invoicePages > 1 && (
+            <div className="flex justify-end gap-2 mt-4">
+              <Button
+                onClick={() => setInvoicePage(page => Math.max(1, page - 1))}
+                disabled={invoicePage <= 1}
+                variant="outline"
+              >
+                Назад
+              </Button>
+              <Button
+                onClick={() => setInvoicePage(page => page + 1)}
+                disabled={invoicePage >= invoicePages}
+                variant="outline"
+              >
+                Вперед
+              </Button>
+            </div>
+          )}
+        </Card>
       </div>
     </DashboardLayout>
   );
@@ -3,12 +3,31 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { FinanceService } from '@/services/financeService';
-import { Transaction, WithdrawalRequest, WithdrawalLimits } from '@/types/finance';
+import { Currency, Transaction, UserBalance, WithdrawalRequest, WithdrawalLimits, VerificationLevel, VerificationStatus, IdentityDocumentType } from '@/types/finance';
+
+const VERIFICATION_LEVEL_LABELS: Record<VerificationLevel, string> = {
+  unverified: 'Без верификации',
+  email_verified: 'Email подтверждён',
+  identity_verified: 'Личность подтверждена',
+  business: 'Бизнес-аккаунт'
+};
+
+// What it takes to reach each level
+const VERIFICATION_LEVEL_HINTS: Record<VerificationLevel, string> = {
+  unverified: '',
+  email_verified: 'Подтвердите email по ссылке из письма, отправленного при регистрации.',
+  identity_verified: 'Загрузите паспорт, ID-карту или водительское удостоверение.',
+  business: 'Загрузите свидетельство о регистрации компании.'
+};
+
+const CURRENCIES: Currency[] = ['USD', 'EUR', 'RUB'];
 
 const WithdrawalsPage: React.FC = () => {
   const [withdrawals, setWithdrawals] = useState<Transaction[]>([]);
   const [limits, setLimits] = useState<WithdrawalLimits | null>(null);
-  const [balance, setBalance] = useState<number>(0);
+  const [verification, setVerification] = useState<VerificationStatus | null>(null);
+  const [showVerificationModal, setShowVerificationModal] = useState(false);
+  const [balance, setBalance] = useState<UserBalance | null>(null);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
@@ -21,16 +40,18 @@ const WithdrawalsPage: React.FC = () => {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [withdrawalsData, limitsData, balanceData] = await Promise.all([
+      const [withdrawalsData, limitsData, balanceData, verificationData] = await Promise.all([
         FinanceService.getWithdrawalHistory(currentPage, 10),
         FinanceService.getWithdrawalLimits(),
-        FinanceService.getUserBalance()
+        FinanceService.getUserBalance(),
+        FinanceService.getVerificationStatus()
       ]);
 
       setWithdrawals(withdrawalsData.withdrawals);
       setTotal(withdrawalsData.total);
       setLimits(limitsData);
-      setBalance(balanceData.balance);
+      setBalance(balanceData);
+      setVerification(verificationData);
     } catch (error) {
       console.error('Failed to load withdrawal data:', error);
     } finally {
@@ -47,10 +68,10 @@ const WithdrawalsPage: React.FC = () => {
     }
   };
 
-  const formatAmount = (amount: number) => {
+  const formatAmount = (amount: number, currency: string = 'USD') => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
-      currency: 'USD'
+      currency
     }).format(amount);
   };
 
@@ -106,7 +127,7 @@ const WithdrawalsPage: React.FC = () => {
           </h1>
           <Button
             onClick={() => setShowCreateModal(true)}
-            disabled={!limits || balance < limits.minAmount}
+            disabled={!limits || !balance || CURRENCIES.every(currency => balance.balances[currency] <= 0)}
           >
             Создать заявку на вывод
           </Button>
@@ -124,8 +145,13 @@ const WithdrawalsPage: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Доступно для вывода</p>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {formatAmount(balance)}
+                  {formatAmount(balance?.balance || 0)}
                 </p>
+                {balance && CURRENCIES.filter(currency => currency !== 'USD' && balance.balances[currency] > 0).map(currency => (
+                  <p key={currency} className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {formatAmount(balance.balances[currency], currency)}
+                  </p>
+                ))}
               </div>
             </div>
           </Card>
@@ -191,6 +217,45 @@ const WithdrawalsPage: React.FC = () => {
                 <p className="font-semibold text-gray-900 dark:text-white">{formatAmount(limits.monthlyLimit)}</p>
               </div>
             </div>
+
+            {limits.verificationLevel && (
+              <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 text-sm space-y-2">
+                <p className="text-gray-900 dark:text-white">
+                  Уровень верификации: <span className="font-semibold">{VERIFICATION_LEVEL_LABELS[limits.verificationLevel]}</span>
+                </p>
+                {limits.newAccountUntil && (
+                  <p className="text-yellow-700 dark:text-yellow-400">
+                    Лимиты снижены вдвое для нового аккаунта до {formatDate(limits.newAccountUntil)}.
+                  </p>
+                )}
+                {!!limits.commissionDiscount && (
+                  <p className="text-green-700 dark:text-green-400">
+                    Комиссия снижена на {limits.commissionDiscount}% за стаж аккаунта.
+                  </p>
+                )}
+                {limits.nextLevel && (
+                  <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+                    <p className="text-blue-900 dark:text-blue-200">
+                      Уровень «{VERIFICATION_LEVEL_LABELS[limits.nextLevel.level]}»: до {formatAmount(limits.nextLevel.limits.maxAmount)} за вывод,
+                      {' '}{formatAmount(limits.nextLevel.limits.monthlyLimit)} в месяц, комиссия {limits.nextLevel.limits.commission}%.
+                    </p>
+                    <p className="text-blue-800 dark:text-blue-300 mt-1">{VERIFICATION_LEVEL_HINTS[limits.nextLevel.level]}</p>
+                    {verification?.latest_request?.status === 'pending' ? (
+                      <p className="text-blue-800 dark:text-blue-300 mt-2">Документы на проверке.</p>
+                    ) : limits.nextLevel.level !== 'email_verified' && (
+                      <Button size="sm" className="mt-2" onClick={() => setShowVerificationModal(true)}>
+                        Загрузить документы
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {verification?.latest_request?.status === 'rejected' && (
+                  <p className="text-red-600 dark:text-red-400">
+                    Последняя заявка отклонена: {verification.latest_request.review_notes}
+                  </p>
+                )}
+              </div>
+            )}
           </Card>
         )}
 
@@ -228,11 +293,11 @@ const WithdrawalsPage: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
                         <div className="text-sm font-medium text-gray-900 dark:text-white">
-                          {formatAmount(withdrawal.amount)}
+                          {formatAmount(withdrawal.amount, withdrawal.currency)}
                         </div>
                         {withdrawal.metadata?.commission_amount && (
                           <div className="text-xs text-gray-500 dark:text-gray-400">
-                            Комиссия: {formatAmount(withdrawal.metadata.commission_amount)}
+                            Комиссия: {formatAmount(withdrawal.metadata.commission_amount, withdrawal.currency)}
                           </div>
                         )}
                       </div>
@@ -333,7 +398,7 @@ const WithdrawalsPage: React.FC = () => {
         {/* Create Withdrawal Modal */}
         {showCreateModal && (
           <CreateWithdrawalModal
-            balance={balance}
+            balances={balance!.balances}
             limits={limits!}
             onClose={() => setShowCreateModal(false)}
             onSuccess={() => {
@@ -342,19 +407,192 @@ const WithdrawalsPage: React.FC = () => {
             }}
           />
         )}
+
+        {/* Identity Verification Modal */}
+        {showVerificationModal && limits?.nextLevel && (
+          <VerificationModal
+            level={limits.nextLevel.level === 'business' ? 'business' : 'identity_verified'}
+            onClose={() => setShowVerificationModal(false)}
+            onSuccess={() => {
+              setShowVerificationModal(false);
+              loadData();
+            }}
+          />
+        )}
       </div>
     </DashboardLayout>
   );
 };
 
+// Identity Verification Modal Component
+const VerificationModal: React.FC<{
+  level: 'identity_verified' | 'business';
+  onClose: () => void;
+  onSuccess: () => void;
+}> = ({ level, onClose, onSuccess }) => {
+  const [documentType, setDocumentType] = useState<IdentityDocumentType>(
+    level === 'business' ? 'business_registration' : 'passport'
+  );
+  const [fullName, setFullName] = useState('');
+  const [country, setCountry] = useState('');
+  const [businessName, setBusinessName] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (files.length === 0) {
+        throw new Error('Прикрепите хотя бы один документ');
+      }
+
+      const form = new FormData();
+      form.append('requested_level', level);
+      form.append('document_type', documentType);
+      form.append('full_name', fullName);
+      form.append('country', country.toUpperCase());
+      if (level === 'business') {
+        form.append('business_name', businessName);
+      }
+      files.forEach(file => form.append('documents', file));
+
+      await FinanceService.submitVerification(form);
+      onSuccess();
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {level === 'business' ? 'Верификация компании' : 'Подтверждение личности'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {level === 'identity_verified' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Документ
+              </label>
+              <select
+                value={documentType}
+                onChange={(e) => setDocumentType(e.target.value as IdentityDocumentType)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="passport">Паспорт</option>
+                <option value="national_id">ID-карта</option>
+                <option value="driver_license">Водительское удостоверение</option>
+              </select>
+            </div>
+          )}
+
+          {level === 'business' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Название компании
+              </label>
+              <input
+                type="text"
+                value={businessName}
+                onChange={(e) => setBusinessName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                required
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {level === 'business' ? 'ФИО представителя' : 'ФИО как в документе'}
+            </label>
+            <input
+              type="text"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Страна (код ISO, например RU)
+            </label>
+            <input
+              type="text"
+              value={country}
+              onChange={(e) => setCountry(e.target.value)}
+              maxLength={2}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Файлы (JPEG, PNG, WebP или PDF, до 3 файлов по 10 МБ)
+            </label>
+            <input
+              type="file"
+              multiple
+              accept="image/jpeg,image/png,image/webp,application/pdf"
+              onChange={(e) => setFiles(Array.from(e.target.files || []).slice(0, 3))}
+              className="w-full text-sm text-gray-900 dark:text-white"
+            />
+          </div>
+
+          {error && (
+            <div className="text-red-600 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Отмена
+            </Button>
+            <Button type="submit" disabled={loading} className="flex-1">
+              {loading ? 'Отправка...' : 'Отправить на проверку'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
 // Create Withdrawal Modal Component
 const CreateWithdrawalModal: React.FC<{
-  balance: number;
+  balances: Record<Currency, number>;
   limits: WithdrawalLimits;
   onClose: () => void;
   onSuccess: () => void;
-}> = ({ balance, limits, onClose, onSuccess }) => {
+}> = ({ balances, limits, onClose, onSuccess }) => {
   const [amount, setAmount] = useState<string>('');
+  const [currency, setCurrency] = useState<Currency>(
+    CURRENCIES.find(wallet => balances[wallet] > 0) || 'USD'
+  );
+  const balance = balances[currency];
+  // Limits are set in USD; the server converts them to other currencies at the current rate
+  const minAmount = currency === 'USD' ? limits.minAmount : 0;
   const [method, setMethod] = useState<'bank_transfer' | 'paypal' | 'crypto'>('bank_transfer');
   const [details, setDetails] = useState<any>({});
   const [loading, setLoading] = useState(false);
@@ -368,8 +606,8 @@ const CreateWithdrawalModal: React.FC<{
     try {
       const withdrawalAmount = parseFloat(amount);
       
-      if (withdrawalAmount < limits.minAmount) {
-        throw new Error(`Минимальная сумма для вывода: ${limits.minAmount}`);
+      if (withdrawalAmount < minAmount) {
+        throw new Error(`Минимальная сумма для вывода: ${minAmount}`);
       }
       
       if (withdrawalAmount > balance) {
@@ -378,6 +616,7 @@ const CreateWithdrawalModal: React.FC<{
 
       const request: WithdrawalRequest = {
         amount: withdrawalAmount,
+        currency,
         method,
         details
       };
@@ -394,7 +633,7 @@ const CreateWithdrawalModal: React.FC<{
   const formatAmount = (amount: number) => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
-      currency: 'USD'
+      currency
     }).format(amount);
   };
 
@@ -422,6 +661,26 @@ const CreateWithdrawalModal: React.FC<{
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Валюта
+            </label>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as Currency)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            >
+              {CURRENCIES.map(wallet => (
+                <option key={wallet} value={wallet}>{wallet}</option>
+              ))}
+            </select>
+            {currency !== 'USD' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Лимиты установлены в USD и пересчитываются по текущему курсу
+              </p>
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Сумма для вывода
@@ -430,8 +689,8 @@ const CreateWithdrawalModal: React.FC<{
               type="number"
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
-              min={limits.minAmount}
-              max={Math.min(balance, limits.maxAmount)}
+              min={minAmount}
+              max={currency === 'USD' ? Math.min(balance, limits.maxAmount) : balance}
               step="0.01"
               required
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
@@ -572,7 +831,7 @@ const CreateWithdrawalModal: React.FC<{
             </Button>
             <Button
               type="submit"
-              disabled={loading || !amount || parseFloat(amount) < limits.minAmount}
+              disabled={loading || !amount || parseFloat(amount) < minAmount}
               className="flex-1"
             >
               {loading ? 'Создание...' : 'Создать заявку'}
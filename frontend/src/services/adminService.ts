@@ -1,4 +1,5 @@
 import { AuthResponse } from '@/types/auth';
+import { fetchWithTwoFactor } from '@/utils/twoFactor';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -14,6 +15,8 @@ export interface AdminDashboardStats {
   pendingModules: number;
   revenueGrowth: number;
   userGrowth: number;
+  // Of totalRevenue
+  currency: string;
 }
 
 export interface AdminUser {
@@ -25,6 +28,8 @@ export interface AdminUser {
   balance: number;
   emailVerified: boolean;
   status: 'active' | 'suspended';
+  suspensionReason?: string;
+  suspendedAt?: string;
   createdAt: string;
   lastLoginAt?: string;
   totalBots: number;
@@ -49,11 +54,13 @@ export interface AdminModule {
   description: string;
   category: string;
   price: number;
+  currency: string;
   developerId: string;
   developerEmail: string;
   status: 'pending' | 'approved' | 'rejected' | 'suspended';
   activations: number;
   revenue: number;
+  revenueCurrency: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -64,12 +71,58 @@ export interface AdminWithdrawal {
   userEmail: string;
   amount: number;
   currency: string;
-  status: 'pending' | 'processing' | 'completed' | 'rejected';
+  status: 'pending' | 'on_hold' | 'paused' | 'processing' | 'completed' | 'rejected';
   paymentMethod: string;
   paymentDetails: Record<string, any>;
   createdAt: string;
   processedAt?: string;
   notes?: string;
+  payoutId?: string;
+  payoutProvider?: string;
+  payoutReferenceId?: string;
+  payoutFailureReason?: string;
+  riskScore?: number;
+  riskLevel?: 'low' | 'medium' | 'high';
+  riskReasons?: Array<{ code: string; points: number; message: string }>;
+  riskHeld?: boolean;
+  riskReleasedAt?: string;
+}
+
+export interface AdminDispute {
+  id: string;
+  transactionId: string;
+  userId: string;
+  userEmail: string;
+  paymentDescription?: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+  status: 'open' | 'won' | 'lost';
+  stripeStatus?: string;
+  evidence: Record<string, string>;
+  evidenceDueBy?: string;
+  evidenceSubmittedAt?: string;
+  notes?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface AdminVerification {
+  id: string;
+  userId: string;
+  userEmail: string;
+  userCreatedAt: string;
+  currentLevel: 'unverified' | 'email_verified' | 'identity_verified' | 'business';
+  requestedLevel: 'identity_verified' | 'business';
+  documentType: 'passport' | 'national_id' | 'driver_license' | 'business_registration';
+  fullName: string;
+  country: string;
+  businessName?: string;
+  documents: Array<{ originalName: string; mimeType: string; size: number }>;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewNotes?: string;
+  reviewedAt?: string;
+  createdAt: string;
 }
 
 export interface AdminTicket {
@@ -146,11 +199,11 @@ export const adminService = {
     return data.data;
   },
 
-  async updateUserStatus(userId: string, status: 'active' | 'suspended'): Promise<void> {
+  async updateUserStatus(userId: string, status: 'active' | 'suspended', reason?: string): Promise<void> {
     const response = await fetch(`${API_BASE_URL}/admin/users/${userId}/status`, {
       method: 'PUT',
       headers: getAuthHeaders(),
-      body: JSON.stringify({ status }),
+      body: JSON.stringify({ status, ...(reason && { reason }) }),
     });
 
     if (!response.ok) {
@@ -159,7 +212,8 @@ export const adminService = {
   },
 
   async updateUserBalance(userId: string, amount: number, operation: 'add' | 'subtract'): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/admin/users/${userId}/balance`, {
+    // Balance changes are a step-up action and prompt for a two-factor code
+    const response = await fetchWithTwoFactor(`${API_BASE_URL}/admin/users/${userId}/balance`, {
       method: 'PUT',
       headers: getAuthHeaders(),
       body: JSON.stringify({ amount, operation }),
@@ -296,7 +350,127 @@ export const adminService = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to process withdrawal');
+      // Payout provider errors say whether approving again is safe
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to process withdrawal');
+    }
+  },
+
+  // Records the outcome of a payout sent by hand
+  async completeManualPayout(
+    payoutId: string,
+    status: 'paid' | 'failed',
+    options?: { referenceId?: string; reason?: string }
+  ): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/admin/payouts/${payoutId}/status`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ status, ...options }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update payout');
+    }
+  },
+
+  // Payment Disputes
+  async getDisputes(params?: {
+    page?: number;
+    limit?: number;
+    status?: string;
+  }): Promise<{
+    disputes: AdminDispute[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.status) searchParams.append('status', params.status);
+
+    const response = await fetch(`${API_BASE_URL}/admin/disputes?${searchParams}`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch disputes');
+    }
+
+    const data = await response.json();
+    return data.data;
+  },
+
+  async updateDisputeEvidence(
+    disputeId: string,
+    evidence: Record<string, string>,
+    notes: string,
+    submit: boolean
+  ): Promise<AdminDispute> {
+    const response = await fetch(`${API_BASE_URL}/admin/disputes/${disputeId}/evidence`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ evidence, notes, submit }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update dispute evidence');
+    }
+
+    const data = await response.json();
+    return data.data;
+  },
+
+  // Identity Verifications
+  async getVerifications(params?: {
+    page?: number;
+    limit?: number;
+    status?: string;
+  }): Promise<{
+    verifications: AdminVerification[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.status) searchParams.append('status', params.status);
+
+    const response = await fetch(`${API_BASE_URL}/admin/verifications?${searchParams}`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch verifications');
+    }
+
+    const data = await response.json();
+    return data.data;
+  },
+
+  async getVerificationDocument(verificationId: string, index: number): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/admin/verifications/${verificationId}/documents/${index}`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch document');
+    }
+
+    return response.blob();
+  },
+
+  async reviewVerification(verificationId: string, action: 'approve' | 'reject', notes?: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/admin/verifications/${verificationId}/review`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ action, ...(notes && { notes }) }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to review verification');
     }
   },
 
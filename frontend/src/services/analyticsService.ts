@@ -1,4 +1,4 @@
-import { BotAnalytics, DashboardStats, AnalyticsFilters } from '@/types/analytics';
+import { BotAnalytics, DashboardStats, AnalyticsFilters, BroadcastEngagement } from '@/types/analytics';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -65,6 +65,13 @@ class AnalyticsService {
     
     return this.request<any>(endpoint);
   }
+
+  async getBroadcastEngagement(period: '7d' | '30d' | '90d' | '1y' = '30d'): Promise<BroadcastEngagement> {
+    const response = await this.request<{ success: boolean; data: BroadcastEngagement }>(
+      `/api/analytics/broadcasts?period=${period}`
+    );
+    return response.data;
+  }
 }
 
 export const analyticsService = new AnalyticsService();
\ No newline at end of file
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { LoginFormData, RegisterFormData, ForgotPasswordFormData, ResetPasswordFormData, AuthResponse } from '@/types/auth';
+import { LoginFormData, RegisterFormData, ForgotPasswordFormData, ResetPasswordFormData, AuthResponse, UserSession, TwoFactorStatus, TwoFactorSetup } from '@/types/auth';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -10,6 +10,11 @@ const authAPI = axios.create({
   },
 });
 
+const authHeaders = () => {
+  const token = localStorage.getItem('token');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
 export const authService = {
   async login(data: LoginFormData): Promise<AuthResponse> {
     try {
@@ -98,4 +103,76 @@ export const authService = {
       };
     }
   },
+
+  async getSessions(): Promise<UserSession[]> {
+    const response = await authAPI.get('/sessions', { headers: authHeaders() });
+    return response.data.sessions;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await authAPI.delete(`/sessions/${sessionId}`, { headers: authHeaders() });
+  },
+
+  // Logs this device out as well
+  async revokeAllSessions(): Promise<void> {
+    await authAPI.delete('/sessions', { headers: authHeaders() });
+  },
+
+  // Second step of a login that answered with twoFactorRequired
+  async verifyTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+    try {
+      const response = await authAPI.post('/2fa/login', { challengeToken, code });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: {
+          code: error.response?.data?.error?.code || 'TWO_FACTOR_LOGIN_FAILED',
+          message: error.response?.data?.error?.message || 'Неверный код подтверждения',
+          details: error.response?.data?.error?.details,
+        },
+      };
+    }
+  },
+
+  // Enrolment for a login that answered with twoFactorSetupRequired; without a challenge, for the logged in user
+  async setupTwoFactor(challengeToken?: string): Promise<TwoFactorSetup> {
+    const response = challengeToken
+      ? await authAPI.post('/2fa/setup', { challengeToken })
+      : await authAPI.post('/2fa/setup', {}, { headers: authHeaders() });
+    return response.data.setup;
+  },
+
+  // With a challenge this also completes the login
+  async enableTwoFactor(code: string, challengeToken?: string): Promise<AuthResponse> {
+    try {
+      const response = challengeToken
+        ? await authAPI.post('/2fa/enable', { code, challengeToken })
+        : await authAPI.post('/2fa/enable', { code }, { headers: authHeaders() });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: {
+          code: error.response?.data?.error?.code || 'TWO_FACTOR_ENABLE_FAILED',
+          message: error.response?.data?.error?.message || 'Не удалось включить двухфакторную аутентификацию',
+          details: error.response?.data?.error?.details,
+        },
+      };
+    }
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await authAPI.get('/2fa/status', { headers: authHeaders() });
+    return response.data.twoFactor;
+  },
+
+  async disableTwoFactor(password: string, code: string): Promise<void> {
+    await authAPI.post('/2fa/disable', { password, code }, { headers: authHeaders() });
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await authAPI.post('/2fa/recovery-codes', { code }, { headers: authHeaders() });
+    return response.data.recoveryCodes;
+  },
 };
\ No newline at end of file
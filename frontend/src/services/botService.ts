@@ -1,4 +1,5 @@
 import { Bot, BotStats, CreateBotRequest, UpdateBotRequest } from '@/types/bot';
+import { fetchWithTwoFactor } from '@/utils/twoFactor';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -6,7 +7,7 @@ class BotService {
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const token = localStorage.getItem('token');
     
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    const response = await fetchWithTwoFactor(`${API_BASE_URL}${endpoint}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
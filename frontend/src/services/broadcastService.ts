@@ -1,4 +1,16 @@
-import { BroadcastCampaign, CreateBroadcastInput, BroadcastStats, BroadcastReport, BroadcastTarget } from '@/types/broadcast';
+import {
+  BroadcastCampaign,
+  CreateBroadcastInput,
+  BroadcastStats,
+  BroadcastReport,
+  BroadcastTarget,
+  BroadcastDelivery,
+  BroadcastDeliveryStatus,
+  BroadcastSegment,
+  SegmentFilters,
+  SegmentRecipientCount,
+  BroadcastTemplate
+} from '@/types/broadcast';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 
@@ -26,7 +38,25 @@ export class BroadcastService {
   static async createBroadcast(input: CreateBroadcastInput): Promise<BroadcastCampaign> {
     return this.request('/broadcasts', {
       method: 'POST',
-      body: JSON.stringify(input),
+      body: JSON.stringify({
+        title: input.title,
+        // An A/B test sends its content in the variants only
+        message: input.variants ? undefined : input.message,
+        targets: input.targets,
+        segment_id: input.segmentId,
+        scheduled_at: input.scheduledAt?.toISOString(),
+        message_options: input.messageOptions,
+        media: input.media,
+        inline_keyboard: input.inlineKeyboard,
+        variants: input.variants?.map(variant => ({
+          message: variant.message,
+          media: variant.media,
+          inline_keyboard: variant.inlineKeyboard,
+          split: variant.split,
+        })),
+        holdout_minutes: input.holdoutMinutes,
+        track_links: input.trackLinks,
+      }),
     });
   }
 
@@ -70,6 +100,117 @@ export class BroadcastService {
     return this.request(`/broadcasts/${id}/report`);
   }
 
+  static async getDeliveries(id: string, options: {
+    statuses?: BroadcastDeliveryStatus[];
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{
+    deliveries: BroadcastDelivery[];
+    pagination: { page: number; limit: number; total: number };
+  }> {
+    const params = new URLSearchParams();
+
+    if (options.statuses && options.statuses.length > 0) {
+      params.append('status', options.statuses.join(','));
+    }
+    if (options.page !== undefined) {
+      params.append('page', options.page.toString());
+    }
+    if (options.limit !== undefined) {
+      params.append('limit', options.limit.toString());
+    }
+
+    return this.request(`/broadcasts/${id}/deliveries?${params.toString()}`);
+  }
+
+  static async resendFailed(id: string): Promise<{
+    broadcast: Pick<BroadcastCampaign, 'id' | 'title' | 'status' | 'created_at'>;
+    stats: BroadcastStats;
+  }> {
+    return this.request(`/broadcasts/${id}/resend-failed`, {
+      method: 'POST',
+    });
+  }
+
+  static async getSegments(): Promise<BroadcastSegment[]> {
+    const data = await this.request<{ segments: BroadcastSegment[] }>('/broadcasts/segments');
+    return data.segments;
+  }
+
+  static async createSegment(input: {
+    name: string;
+    description?: string;
+    bot_ids: string[];
+    filters: SegmentFilters;
+  }): Promise<BroadcastSegment> {
+    const data = await this.request<{ segment: BroadcastSegment }>('/broadcasts/segments', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    return data.segment;
+  }
+
+  static async updateSegment(id: string, input: {
+    name?: string;
+    description?: string;
+    bot_ids?: string[];
+    filters?: SegmentFilters;
+  }): Promise<BroadcastSegment> {
+    const data = await this.request<{ segment: BroadcastSegment }>(`/broadcasts/segments/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    return data.segment;
+  }
+
+  static async deleteSegment(id: string): Promise<void> {
+    return this.request(`/broadcasts/segments/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  static async previewSegment(botIds: string[], filters: SegmentFilters): Promise<SegmentRecipientCount> {
+    const data = await this.request<{ count: SegmentRecipientCount }>('/broadcasts/segments/preview', {
+      method: 'POST',
+      body: JSON.stringify({ bot_ids: botIds, filters }),
+    });
+    return data.count;
+  }
+
+  static async getTemplates(): Promise<BroadcastTemplate[]> {
+    const data = await this.request<{ templates: BroadcastTemplate[] }>('/broadcasts/templates');
+    return data.templates;
+  }
+
+  static async createTemplate(input: {
+    name: string;
+    category?: string;
+    content: string;
+    parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  }): Promise<void> {
+    return this.request('/broadcasts/templates', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async deleteTemplate(id: string): Promise<void> {
+    return this.request(`/broadcasts/templates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  static async previewMessage(
+    message: string,
+    parseMode?: 'HTML' | 'Markdown' | 'MarkdownV2'
+  ): Promise<string> {
+    const data = await this.request<{ rendered: string }>('/broadcasts/templates/preview', {
+      method: 'POST',
+      body: JSON.stringify({ message, parse_mode: parseMode }),
+    });
+    return data.rendered;
+  }
+
   static async validateTargets(targets: BroadcastTarget[]): Promise<{
     valid: boolean;
     errors: string[];
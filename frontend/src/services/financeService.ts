@@ -1,4 +1,5 @@
-import { Transaction, TransactionFilters, TransactionStats, WithdrawalRequest, WithdrawalLimits } from '@/types/finance';
+import { Currency, Invoice, Transaction, TransactionDetails, TransactionFilters, TransactionStats, UserBalance, WithdrawalRequest, WithdrawalLimits, VerificationStatus, IdentityVerificationRequest } from '@/types/finance';
+import { fetchWithTwoFactor } from '@/utils/twoFactor';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 
@@ -6,7 +7,7 @@ export class FinanceService {
   private static async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const token = localStorage.getItem('token');
     
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    const response = await fetchWithTwoFactor(`${API_BASE_URL}${endpoint}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
@@ -38,18 +39,57 @@ export class FinanceService {
     return this.request(`/transactions?${params.toString()}`);
   }
 
+  static async getTransaction(transactionId: string): Promise<TransactionDetails> {
+    const response = await this.request<{ data: TransactionDetails }>(`/payments/transactions/${transactionId}`);
+    return response.data;
+  }
+
   static async getTransactionStats(): Promise<TransactionStats> {
     return this.request('/transactions/stats');
   }
 
-  static async getUserBalance(): Promise<{ balance: number }> {
-    return this.request('/transactions/balance');
+  static async getUserBalance(): Promise<UserBalance> {
+    const response = await this.request<{ data: UserBalance }>('/users/balance');
+    return response.data;
+  }
+
+  static async updateDisplayCurrency(currency: Currency): Promise<void> {
+    await this.request('/users/profile', {
+      method: 'PUT',
+      body: JSON.stringify({ display_currency: currency }),
+    });
   }
 
   static async getWithdrawalLimits(): Promise<WithdrawalLimits> {
     return this.request('/withdrawals/limits');
   }
 
+  static async getVerificationStatus(): Promise<VerificationStatus> {
+    const response = await this.request<{ data: VerificationStatus }>('/users/verification');
+    return response.data;
+  }
+
+  static async submitVerification(form: FormData): Promise<IdentityVerificationRequest> {
+    const token = localStorage.getItem('token');
+
+    // Multipart upload: the browser sets the Content-Type with its boundary
+    const response = await fetch(`${API_BASE_URL}/users/verification`, {
+      method: 'POST',
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Network error' } }));
+      throw new Error(error.error?.message || 'Failed to submit documents');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
   static async createWithdrawal(request: WithdrawalRequest): Promise<Transaction> {
     return this.request('/withdrawals', {
       method: 'POST',
@@ -75,6 +115,37 @@ export class FinanceService {
     });
   }
 
+  static async getInvoices(page: number = 1, limit: number = 20): Promise<{
+    invoices: Invoice[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      pages: number;
+    };
+  }> {
+    const response = await this.request<{ data: { invoices: Invoice[]; pagination: { page: number; limit: number; total: number; pages: number } } }>(
+      `/payments/invoices?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  }
+
+  static async downloadInvoice(invoiceId: string): Promise<Blob> {
+    const token = localStorage.getItem('token');
+
+    const response = await fetch(`${API_BASE_URL}/payments/invoices/${invoiceId}/pdf`, {
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error('Download failed');
+    }
+
+    return response.blob();
+  }
+
   static async exportTransactions(filters: TransactionFilters = {}): Promise<Blob> {
     const params = new URLSearchParams();
     
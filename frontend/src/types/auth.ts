@@ -26,6 +26,13 @@ export interface AuthError {
   details?: any;
 }
 
+// Sent as the error details when a suspended account tries to sign in
+export interface AccountSuspension {
+  reason?: string;
+  suspendedAt?: string;
+  appealUrl: string;
+}
+
 export interface AuthResponse {
   success: boolean;
   message?: string;
@@ -37,5 +44,32 @@ export interface AuthResponse {
     lastName: string;
     role: string;
   };
+  // Set instead of a token when the password was right but a second factor is still needed
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken?: string;
+  recoveryCodes?: string[];
   error?: AuthError;
+}
+
+export interface UserSession {
+  id: string;
+  ip_address?: string;
+  user_agent?: string;
+  last_activity: string;
+  created_at: string;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Admins and developers cannot turn it off
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
 }
\ No newline at end of file
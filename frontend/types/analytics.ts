@@ -38,7 +38,7 @@ export interface DashboardStats {
 export interface Transaction {
   id: string;
   userId: string;
-  type: 'payment' | 'withdrawal' | 'commission' | 'refund';
+  type: 'payment' | 'withdrawal' | 'commission' | 'refund' | 'adjustment' | 'top_up';
   amount: number;
   currency: 'USD' | 'RUB';
   status: 'pending' | 'completed' | 'failed' | 'cancelled';
@@ -54,4 +54,23 @@ export interface AnalyticsFilters {
     end: string;
   };
   groupBy?: 'day' | 'week' | 'month';
+}
+
+export interface BroadcastEngagementStats {
+  delivered: number;
+  clicks: number;
+  unique_clicks: number;
+  click_through_rate: number;
+  average_seconds_to_click: number | null;
+}
+
+export interface BroadcastEngagementItem extends BroadcastEngagementStats {
+  broadcast_id: string;
+  title: string;
+  sent_at: string | null;
+}
+
+export interface BroadcastEngagement {
+  totals: BroadcastEngagementStats & { broadcasts: number };
+  broadcasts: BroadcastEngagementItem[];
 }
\ No newline at end of file
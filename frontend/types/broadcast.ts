@@ -3,11 +3,40 @@ export interface BroadcastTarget {
   chatIds: (string | number)[];
 }
 
+export type BroadcastMediaType = 'photo' | 'video' | 'document';
+
+export interface BroadcastMedia {
+  type: BroadcastMediaType;
+  media: string;
+}
+
+export interface InlineKeyboardButton {
+  text: string;
+  url?: string;
+  callback_data?: string;
+}
+
+export interface BroadcastVariant {
+  id: string;
+  message: string;
+  media?: BroadcastMedia[];
+  inline_keyboard?: InlineKeyboardButton[][];
+  split: number;
+}
+
+export interface BroadcastAbTest {
+  variants: BroadcastVariant[];
+  holdout_minutes: number;
+  test_finished_at?: string;
+  winner?: string;
+  winner_selected_at?: string;
+}
+
 export interface BroadcastCampaign {
   id: string;
   title: string;
   message: string;
-  status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+  status: 'draft' | 'scheduled' | 'sending' | 'paused' | 'testing' | 'sent' | 'failed' | 'cancelled';
   total_recipients: number;
   successful_sends: number;
   failed_sends: number;
@@ -15,25 +44,56 @@ export interface BroadcastCampaign {
   scheduled_at?: string;
   sent_at?: string;
   metadata: {
-    targets: BroadcastTarget[];
+    targets?: BroadcastTarget[];
+    segment?: {
+      id: string;
+      name: string;
+      bot_ids: string[];
+      filters: SegmentFilters;
+    };
     message_options?: {
       parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
       disable_web_page_preview?: boolean;
       disable_notification?: boolean;
     };
+    media?: BroadcastMedia[];
+    inline_keyboard?: InlineKeyboardButton[][];
+    ab_test?: BroadcastAbTest;
+    track_links?: boolean;
   };
 }
 
 export interface CreateBroadcastInput {
   title: string;
   message: string;
-  targets: BroadcastTarget[];
+  targets?: BroadcastTarget[];
+  segmentId?: string;
   scheduledAt?: Date;
   messageOptions?: {
     parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
     disable_web_page_preview?: boolean;
     disable_notification?: boolean;
   };
+  media?: BroadcastMedia[];
+  inlineKeyboard?: InlineKeyboardButton[][];
+  // A/B test: each variant carries its own content and replaces message, media and inlineKeyboard
+  variants?: Array<{
+    message: string;
+    media?: BroadcastMedia[];
+    inlineKeyboard?: InlineKeyboardButton[][];
+    split: number;
+  }>;
+  holdoutMinutes?: number;
+  // Rewrite links through the click-tracking redirect; on by default
+  trackLinks?: boolean;
+}
+
+export interface BroadcastClickStats {
+  totalClicks: number;
+  uniqueClicks: number;
+  clickThroughRate: number;
+  averageTimeToClickSeconds: number | null;
+  medianTimeToClickSeconds: number | null;
 }
 
 export interface BroadcastStats {
@@ -41,6 +101,7 @@ export interface BroadcastStats {
   successfulSends: number;
   failedSends: number;
   deliveryRate: number;
+  clicks?: BroadcastClickStats;
 }
 
 export interface BroadcastReport {
@@ -52,5 +113,86 @@ export interface BroadcastReport {
     totalSent: number;
     successful: number;
     failed: number;
+    blocked: number;
+  }>;
+  abTest?: {
+    holdoutMinutes: number;
+    heldBack: number;
+    testFinishedAt?: string;
+    winner?: string;
+    variants: Array<{
+      variant: string;
+      split: number;
+      recipients: number;
+      sent: number;
+      failed: number;
+      blocked: number;
+      pending: number;
+      clicks: number;
+      uniqueClicks: number;
+      ctr: number;
+    }>;
+  };
+  links: Array<{
+    url: string;
+    clicks: number;
+    uniqueClicks: number;
+  }>;
+}
+
+export type BroadcastDeliveryStatus = 'pending' | 'sent' | 'failed' | 'blocked';
+
+export interface BroadcastDelivery {
+  id: string;
+  broadcast_id: string;
+  bot_id: string;
+  chat_id: string;
+  status: BroadcastDeliveryStatus;
+  telegram_message_id?: number;
+  error_code?: number;
+  error_description?: string;
+  attempts: number;
+  delivered_at?: string;
+  created_at: string;
+}
+
+export type SubscriberChatType = 'private' | 'group' | 'supergroup' | 'channel';
+
+export interface SegmentFilters {
+  chat_types?: SubscriberChatType[];
+  last_interaction_within_days?: number;
+  last_interaction_older_than_days?: number;
+  subscribed_after?: string;
+  subscribed_before?: string;
+  tags?: string[];
+  languages?: string[];
+  has_username?: boolean;
+}
+
+export interface BroadcastSegment {
+  id: string;
+  name: string;
+  description?: string;
+  bot_ids: string[];
+  filters: SegmentFilters;
+  recipientCount?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SegmentRecipientCount {
+  total: number;
+  byBot: Array<{
+    botId: string;
+    count: number;
   }>;
+}
+
+export interface BroadcastTemplate {
+  id: string;
+  name: string;
+  category: string;
+  template: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  built_in: boolean;
 }
\ No newline at end of file
@@ -1,12 +1,16 @@
+export type Currency = 'USD' | 'EUR' | 'RUB';
+
 export interface Transaction {
   id: string;
   user_id: string;
-  type: 'payment' | 'withdrawal' | 'commission' | 'refund';
+  type: 'payment' | 'withdrawal' | 'commission' | 'refund' | 'adjustment' | 'top_up';
   amount: number;
   currency: string;
   status: 'pending' | 'completed' | 'failed' | 'cancelled';
   description: string;
   metadata: Record<string, any>;
+  // Units of each currency per US dollar when the transaction was made
+  fx_rates?: Record<string, number>;
   created_at: string;
   processed_at?: string;
   user_email?: string;
@@ -14,6 +18,50 @@ export interface Transaction {
   user_last_name?: string;
 }
 
+export type RevenueSplitRole = 'developer' | 'bot_owner' | 'referrer';
+
+export interface RevenueSplitBreakdown {
+  base_amount: number;
+  markup_amount: number;
+  platform_fee_percentage: number;
+  platform_fee: number;
+  platform_net: number;
+  legs: Array<{
+    role: RevenueSplitRole;
+    user_id: string;
+    amount: number;
+    transaction_id: string;
+    status: Transaction['status'];
+  }>;
+}
+
+export interface TransactionDetails extends Transaction {
+  revenue_split: RevenueSplitBreakdown | null;
+  invoice?: Pick<Invoice, 'id' | 'number' | 'document_type'> | null;
+}
+
+export type InvoiceDocumentType = 'invoice' | 'credit_note' | 'withdrawal_receipt';
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  number: string;
+  document_type: InvoiceDocumentType;
+  transaction_id: string;
+  currency: Currency;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  line_items: InvoiceLineItem[];
+  issued_at: string;
+}
+
 export interface TransactionFilters {
   type?: string;
   status?: string;
@@ -29,10 +77,21 @@ export interface TransactionStats {
   total_spent: number;
   total_withdrawn: number;
   pending_amount: number;
+  currency?: Currency;
+}
+
+// A wallet per currency; balance is the USD wallet
+export interface UserBalance {
+  balance: number;
+  currency: Currency;
+  balances: Record<Currency, number>;
+  display_currency: Currency;
+  total_in_display_currency: number;
 }
 
 export interface WithdrawalRequest {
   amount: number;
+  currency?: Currency;
   method: 'bank_transfer' | 'paypal' | 'crypto';
   details: {
     bankAccount?: {
@@ -50,10 +109,41 @@ export interface WithdrawalRequest {
   };
 }
 
+export type VerificationLevel = 'unverified' | 'email_verified' | 'identity_verified' | 'business';
+
 export interface WithdrawalLimits {
   minAmount: number;
   maxAmount: number;
   dailyLimit: number;
   monthlyLimit: number;
   commission: number;
+  verificationLevel?: VerificationLevel;
+  accountAgeDays?: number;
+  newAccountUntil?: string;
+  commissionDiscount?: number;
+  nextLevel?: {
+    level: VerificationLevel;
+    limits: Pick<WithdrawalLimits, 'minAmount' | 'maxAmount' | 'dailyLimit' | 'monthlyLimit' | 'commission'>;
+  };
+}
+
+export type IdentityDocumentType = 'passport' | 'national_id' | 'driver_license' | 'business_registration';
+
+export interface IdentityVerificationRequest {
+  id: string;
+  requested_level: 'identity_verified' | 'business';
+  document_type: IdentityDocumentType;
+  full_name: string;
+  country: string;
+  business_name?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  review_notes?: string;
+  reviewed_at?: string;
+  created_at: string;
+}
+
+export interface VerificationStatus {
+  verification_level: VerificationLevel;
+  email_verified: boolean;
+  latest_request: IdentityVerificationRequest | null;
 }
\ No newline at end of file
@@ -1,9 +1,12 @@
+import { Currency } from '@/types/finance';
+
 export interface Module {
   id: string;
   name: string;
   description: string;
   category: string;
   price: number;
+  currency: Currency;
   developerId: string;
   status: 'pending' | 'approved' | 'rejected' | 'suspended';
   codeUrl: string;
@@ -0,0 +1,35 @@
+// Errors the API answers sensitive actions with when they need a current two-factor code
+const STEP_UP_ERRORS = ['TWO_FACTOR_CODE_REQUIRED', 'INVALID_TWO_FACTOR_CODE'];
+
+/**
+ * fetch for withdrawals, bot connections and other sensitive actions: when the API asks for a two-factor
+ * code, prompt for one and repeat the request with it in X-Two-Factor-Code. Cancelling the prompt returns
+ * the API's response as it was.
+ */
+export const fetchWithTwoFactor = async (input: RequestInfo, init: RequestInit = {}): Promise<Response> => {
+  let response = await fetch(input, init);
+
+  while (response.status === 403) {
+    const body = await response.clone().json().catch(() => null);
+    const errorCode = body?.error?.code;
+    if (!STEP_UP_ERRORS.includes(errorCode)) {
+      break;
+    }
+
+    const code = window.prompt(
+      errorCode === 'INVALID_TWO_FACTOR_CODE'
+        ? 'Неверный код. Введите код из приложения-аутентификатора или код восстановления'
+        : 'Введите код из приложения-аутентификатора или код восстановления'
+    );
+    if (!code?.trim()) {
+      break;
+    }
+
+    response = await fetch(input, {
+      ...init,
+      headers: { ...init.headers, 'X-Two-Factor-Code': code.trim() },
+    });
+  }
+
+  return response;
+};
\ No newline at end of file